@@ -15,6 +15,8 @@ import com.facebook.react.bridge.ReactMethod
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReadableMap
 import com.raffay.finly.widget.FinlyWidgetProvider
+import org.json.JSONArray
+import org.json.JSONObject
 
 class WidgetDataSyncModule(reactContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(reactContext) {
@@ -46,6 +48,23 @@ class WidgetDataSyncModule(reactContext: ReactApplicationContext) :
             val currencyCode = if (data.hasKey("currencyCode")) data.getString("currencyCode") else "USD"
             val currencySymbol = if (data.hasKey("currencySymbol")) data.getString("currencySymbol") else "$"
             val lastUpdated = if (data.hasKey("lastUpdated")) data.getString("lastUpdated") else ""
+            val budgets = if (data.hasKey("budgets")) data.getArray("budgets") else null
+
+            // Budgets are stored as a JSON string (SharedPreferences has no list type)
+            val budgetsJson = JSONArray()
+            if (budgets != null) {
+                for (i in 0 until budgets.size()) {
+                    val budget = budgets.getMap(i) ?: continue
+                    budgetsJson.put(
+                        JSONObject()
+                            .put("name", budget.getString("name"))
+                            .put("color", budget.getString("color"))
+                            .put("spent", budget.getDouble("spent"))
+                            .put("budget", budget.getDouble("budget"))
+                            .put("percentUsed", budget.getDouble("percentUsed"))
+                    )
+                }
+            }
 
             // Store widget data in SharedPreferences
             editor.putFloat("balance", balance.toFloat())
@@ -54,21 +73,48 @@ class WidgetDataSyncModule(reactContext: ReactApplicationContext) :
             editor.putString("currencyCode", currencyCode)
             editor.putString("currencySymbol", currencySymbol)
             editor.putString("lastUpdated", lastUpdated)
+            editor.putString("budgets", budgetsJson.toString())
             editor.apply()
 
-            // Trigger widget update
-            val appWidgetManager = AppWidgetManager.getInstance(context)
-            val widgetIds = appWidgetManager.getAppWidgetIds(
-                android.content.ComponentName(context, FinlyWidgetProvider::class.java)
-            )
-            if (widgetIds.isNotEmpty()) {
-                FinlyWidgetProvider.updateAppWidgets(context, appWidgetManager, widgetIds)
-            }
-
+            refreshWidgets()
             promise.resolve(null)
         } catch (e: Exception) {
             promise.reject("WIDGET_SYNC_ERROR", "Failed to sync widget data: ${e.message}", e)
         }
     }
+
+    /**
+     * Remove all widget data (called on logout)
+     * Widgets fall back to their empty state
+     */
+    @ReactMethod
+    fun clearWidgetData(promise: Promise) {
+        try {
+            reactApplicationContext
+                .getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .edit()
+                .clear()
+                .apply()
+
+            refreshWidgets()
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("WIDGET_CLEAR_ERROR", "Failed to clear widget data: ${e.message}", e)
+        }
+    }
+
+    /**
+     * Redraw every placed widget with the stored data
+     */
+    private fun refreshWidgets() {
+        val context = reactApplicationContext
+        val appWidgetManager = AppWidgetManager.getInstance(context)
+        val widgetIds = appWidgetManager.getAppWidgetIds(
+            android.content.ComponentName(context, FinlyWidgetProvider::class.java)
+        )
+        if (widgetIds.isNotEmpty()) {
+            FinlyWidgetProvider.updateAppWidgets(context, appWidgetManager, widgetIds)
+        }
+    }
 }
 
@@ -12,6 +12,8 @@ import android.appwidget.AppWidgetProvider
 import android.content.Context
 import android.content.Intent
 import android.net.Uri
+import android.os.Bundle
+import android.view.View
 import android.widget.RemoteViews
 import com.raffay.finly.MainActivity
 
@@ -25,7 +27,20 @@ class FinlyWidgetProvider : AppWidgetProvider() {
         updateAppWidgets(context, appWidgetManager, appWidgetIds)
     }
 
+    override fun onAppWidgetOptionsChanged(
+        context: Context,
+        appWidgetManager: AppWidgetManager,
+        appWidgetId: Int,
+        newOptions: Bundle
+    ) {
+        // Resizing can switch between the small, medium and large layouts
+        updateAppWidgets(context, appWidgetManager, intArrayOf(appWidgetId))
+    }
+
     companion object {
+        // Budget rows defined in widget_large
+        private const val BUDGET_ROW_COUNT = 3
+
         fun updateAppWidgets(
             context: Context,
             appWidgetManager: AppWidgetManager,
@@ -51,19 +66,19 @@ class FinlyWidgetProvider : AppWidgetProvider() {
             val minWidth = options.getInt(AppWidgetManager.OPTION_APPWIDGET_MIN_WIDTH)
             val minHeight = options.getInt(AppWidgetManager.OPTION_APPWIDGET_MIN_HEIGHT)
 
-            // Use large layout if widget is wide enough (approximately 4x1 or larger)
-            val isLarge = minWidth >= 250 // Approximate threshold for large widget
+            // Small: balance only; medium (about 4x1): adds income and expenses;
+            // large (about 4x3): adds the top budgets
+            val isMedium = minWidth >= 250 // Approximate threshold for a wide widget
+            val isLarge = isMedium && minHeight >= 250
 
-            val layoutId = if (isLarge) {
-                val id = context.resources.getIdentifier("widget_large", "layout", context.packageName)
-                if (id == 0) {
-                    context.resources.getIdentifier("widget_small", "layout", context.packageName)
-                } else {
-                    id
-                }
-            } else {
-                context.resources.getIdentifier("widget_small", "layout", context.packageName)
+            val layoutName = when {
+                isLarge -> "widget_large"
+                isMedium -> "widget_medium"
+                else -> "widget_small"
             }
+            val layoutId = context.resources.getIdentifier(layoutName, "layout", context.packageName)
+                .takeIf { it != 0 }
+                ?: context.resources.getIdentifier("widget_small", "layout", context.packageName)
             
             if (layoutId == 0) {
                 // Resources not found - return empty RemoteViews
@@ -79,16 +94,22 @@ class FinlyWidgetProvider : AppWidgetProvider() {
             val addButtonId = context.resources.getIdentifier("widget_add_button", "id", context.packageName)
             val containerId = context.resources.getIdentifier("widget_container", "id", context.packageName)
 
-            // Set balance
+            // Set balance (prompt to open the app before the first sync / after logout)
             if (balanceId != 0) {
                 views.setTextViewText(
                     balanceId,
-                    dataManager.formatCurrency(widgetData.balance, widgetData.currencySymbol)
+                    if (dataManager.hasData()) {
+                        dataManager.formatCurrency(widgetData.balance, widgetData.currencySymbol)
+                    } else {
+                        context.getString(
+                            context.resources.getIdentifier("widget_no_data", "string", context.packageName)
+                        )
+                    }
                 )
             }
 
-            // Set income and expenses for large widget
-            if (isLarge) {
+            // Set income and expenses for medium and large widgets
+            if (isMedium) {
                 if (incomeId != 0) {
                     views.setTextViewText(
                         incomeId,
@@ -103,6 +124,11 @@ class FinlyWidgetProvider : AppWidgetProvider() {
                 }
             }
 
+            // Set budget rows for large widget
+            if (isLarge) {
+                bindBudgets(context, views, widgetData, dataManager)
+            }
+
             // Set up click intent for add button
             val addIntent = Intent(context, MainActivity::class.java).apply {
                 action = Intent.ACTION_VIEW
@@ -135,6 +161,45 @@ class FinlyWidgetProvider : AppWidgetProvider() {
 
             return views
         }
+
+        private fun bindBudgets(
+            context: Context,
+            views: RemoteViews,
+            widgetData: WidgetData,
+            dataManager: WidgetDataManager
+        ) {
+            fun id(name: String) = context.resources.getIdentifier(name, "id", context.packageName)
+
+            val emptyId = id("widget_budgets_empty")
+            if (emptyId != 0) {
+                views.setViewVisibility(emptyId, if (widgetData.budgets.isEmpty()) View.VISIBLE else View.GONE)
+            }
+
+            for (index in 0 until BUDGET_ROW_COUNT) {
+                val rowId = id("widget_budget_row_${index + 1}")
+                if (rowId == 0) continue
+
+                val budget = widgetData.budgets.getOrNull(index)
+                if (budget == null) {
+                    views.setViewVisibility(rowId, View.GONE)
+                    continue
+                }
+
+                views.setViewVisibility(rowId, View.VISIBLE)
+                views.setTextViewText(id("widget_budget_name_${index + 1}"), budget.name)
+                views.setTextViewText(
+                    id("widget_budget_amount_${index + 1}"),
+                    "${dataManager.formatCurrency(budget.spent, widgetData.currencySymbol)} / " +
+                        dataManager.formatCurrency(budget.budget, widgetData.currencySymbol)
+                )
+                views.setProgressBar(
+                    id("widget_budget_progress_${index + 1}"),
+                    100,
+                    budget.percentUsed.coerceIn(0, 100),
+                    false
+                )
+            }
+        }
     }
 }
 
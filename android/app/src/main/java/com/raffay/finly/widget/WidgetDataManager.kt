@@ -8,6 +8,15 @@ package com.raffay.finly.widget
 
 import android.content.Context
 import android.content.SharedPreferences
+import org.json.JSONArray
+
+data class WidgetBudget(
+    val name: String,
+    val color: String,
+    val spent: Float,
+    val budget: Float,
+    val percentUsed: Int
+)
 
 data class WidgetData(
     val balance: Float,
@@ -15,6 +24,7 @@ data class WidgetData(
     val monthlyExpenses: Float,
     val currencyCode: String,
     val currencySymbol: String,
+    val budgets: List<WidgetBudget>,
     val lastUpdated: String
 )
 
@@ -27,6 +37,7 @@ class WidgetDataManager(private val context: Context) {
         private const val KEY_CURRENCY_CODE = "currencyCode"
         private const val KEY_CURRENCY_SYMBOL = "currencySymbol"
         private const val KEY_LAST_UPDATED = "lastUpdated"
+        private const val KEY_BUDGETS = "budgets"
     }
 
     private val prefs: SharedPreferences = context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
@@ -41,10 +52,38 @@ class WidgetDataManager(private val context: Context) {
             monthlyExpenses = prefs.getFloat(KEY_MONTHLY_EXPENSES, 0f),
             currencyCode = prefs.getString(KEY_CURRENCY_CODE, "USD") ?: "USD",
             currencySymbol = prefs.getString(KEY_CURRENCY_SYMBOL, "$") ?: "$",
+            budgets = loadBudgets(),
             lastUpdated = prefs.getString(KEY_LAST_UPDATED, "") ?: ""
         )
     }
 
+    /**
+     * Whether the app has synced data (false before first sync and after logout)
+     */
+    fun hasData(): Boolean = prefs.contains(KEY_LAST_UPDATED)
+
+    /**
+     * Parse the budgets JSON written by WidgetDataSyncModule
+     */
+    private fun loadBudgets(): List<WidgetBudget> {
+        val json = prefs.getString(KEY_BUDGETS, null) ?: return emptyList()
+        return try {
+            val array = JSONArray(json)
+            (0 until array.length()).map { i ->
+                val budget = array.getJSONObject(i)
+                WidgetBudget(
+                    name = budget.optString("name"),
+                    color = budget.optString("color", "#6366F1"),
+                    spent = budget.optDouble("spent", 0.0).toFloat(),
+                    budget = budget.optDouble("budget", 0.0).toFloat(),
+                    percentUsed = budget.optDouble("percentUsed", 0.0).toInt()
+                )
+            }
+        } catch (e: Exception) {
+            emptyList()
+        }
+    }
+
     /**
      * Format currency amount for display
      */
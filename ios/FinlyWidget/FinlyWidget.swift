@@ -15,8 +15,8 @@ struct FinlyWidget: Widget {
             FinlyWidgetEntryView(entry: entry)
         }
         .configurationDisplayName("Finly Finance")
-        .description("View your balance, income, and expenses at a glance.")
-        .supportedFamilies([.systemSmall, .systemMedium])
+        .description("View your balance, income, expenses, and budgets at a glance.")
+        .supportedFamilies([.systemSmall, .systemMedium, .systemLarge])
     }
 }
 
@@ -17,7 +17,8 @@ struct FinlyWidgetProvider: TimelineProvider {
             monthlyIncome: 0.0,
             monthlyExpenses: 0.0,
             currencyCode: "USD",
-            currencySymbol: "$"
+            currencySymbol: "$",
+            budgets: []
         )
     }
     
@@ -51,7 +52,8 @@ struct FinlyWidgetProvider: TimelineProvider {
                 monthlyIncome: data.monthlyIncome,
                 monthlyExpenses: data.monthlyExpenses,
                 currencyCode: data.currencyCode,
-                currencySymbol: data.currencySymbol ?? "$"
+                currencySymbol: data.currencySymbol ?? "$",
+                budgets: data.budgets
             )
         } else {
             print("[WidgetDataExtension] ❌ No widget data found, using defaults")
@@ -61,7 +63,8 @@ struct FinlyWidgetProvider: TimelineProvider {
                 monthlyIncome: 0.0,
                 monthlyExpenses: 0.0,
                 currencyCode: "USD",
-                currencySymbol: "$"
+                currencySymbol: "$",
+                budgets: []
             )
         }
     }
@@ -74,5 +77,6 @@ struct FinlyWidgetEntry: TimelineEntry {
     let monthlyExpenses: Double
     let currencyCode: String
     let currencySymbol: String
+    let budgets: [WidgetBudget]
 }
 
@@ -1,7 +1,7 @@
 /**
  * FinlyWidgetViews
  * Purpose: SwiftUI views for widget display
- * Supports both small and medium widget families
+ * Supports small, medium and large widget families (large adds the top budgets)
  */
 
 import WidgetKit
@@ -13,6 +13,16 @@ extension Color {
     static let widgetPrimary = Color(red: 0.29, green: 0.56, blue: 0.89) // #4A90E2
     static let widgetPrimaryDark = Color(red: 0.21, green: 0.48, blue: 0.74) // #357ABD
     static let widgetPrimaryLight = Color(red: 0.42, green: 0.64, blue: 0.91) // #6BA3E8
+    
+    // Category colors arrive as "#RRGGBB"; anything else falls back to white
+    init(hex: String) {
+        let value = UInt64(hex.trimmingCharacters(in: CharacterSet(charactersIn: "#")), radix: 16) ?? 0xFFFFFF
+        self.init(
+            red: Double((value >> 16) & 0xFF) / 255,
+            green: Double((value >> 8) & 0xFF) / 255,
+            blue: Double(value & 0xFF) / 255
+        )
+    }
 }
 
 struct FinlyWidgetEntryView: View {
@@ -25,6 +35,8 @@ struct FinlyWidgetEntryView: View {
             SmallWidgetView(entry: entry)
         case .systemMedium:
             LargeWidgetView(entry: entry)
+        case .systemLarge:
+            BudgetsWidgetView(entry: entry)
         default:
             SmallWidgetView(entry: entry)
         }
@@ -104,57 +116,102 @@ struct LargeWidgetView: View {
         VStack(spacing: 16) {
             Spacer()
             
-            // Quick Actions
-            HStack(spacing: 12) {
-                // Voice Entry
-                Link(destination: URL(string: "finly://voice-transaction")!) {
-                    VStack(spacing: 4) {
-                        Image(systemName: "mic.fill")
-                            .font(.title3)
-                        Text("Voice")
-                            .font(.caption2)
-                            .fontWeight(.medium)
-                    }
-                    .foregroundColor(.white)
-                    .frame(maxWidth: .infinity)
-                    .frame(height: 60)
-                    .background(Color.white.opacity(0.2))
-                    .cornerRadius(10)
+            QuickActionsRow()
+        }
+        .padding()
+        .frame(maxWidth: .infinity, maxHeight: .infinity)
+        .containerBackground(for: .widget) {
+            LinearGradient(
+                gradient: Gradient(colors: [
+                    Color.widgetPrimary,
+                    Color.widgetPrimaryDark,
+                    Color.widgetPrimaryLight
+                ]),
+                startPoint: .topLeading,
+                endPoint: .bottomTrailing
+            )
+        }
+    }
+}
+
+// Voice, scan and add buttons shared by the medium and large layouts
+struct QuickActionsRow: View {
+    var body: some View {
+        HStack(spacing: 12) {
+            // Voice Entry
+            Link(destination: URL(string: "finly://voice-transaction")!) {
+                VStack(spacing: 4) {
+                    Image(systemName: "mic.fill")
+                        .font(.title3)
+                    Text("Voice")
+                        .font(.caption2)
+                        .fontWeight(.medium)
                 }
-                
-                // Scan Receipt
-                Link(destination: URL(string: "finly://scan-receipt")!) {
-                    VStack(spacing: 4) {
-                        Image(systemName: "camera.fill")
-                            .font(.title3)
-                        Text("Scan")
-                            .font(.caption2)
-                            .fontWeight(.medium)
-                    }
-                    .foregroundColor(.white)
-                    .frame(maxWidth: .infinity)
-                    .frame(height: 60)
-                    .background(Color.white.opacity(0.2))
-                    .cornerRadius(10)
+                .foregroundColor(.white)
+                .frame(maxWidth: .infinity)
+                .frame(height: 60)
+                .background(Color.white.opacity(0.2))
+                .cornerRadius(10)
+            }
+            
+            // Scan Receipt
+            Link(destination: URL(string: "finly://scan-receipt")!) {
+                VStack(spacing: 4) {
+                    Image(systemName: "camera.fill")
+                        .font(.title3)
+                    Text("Scan")
+                        .font(.caption2)
+                        .fontWeight(.medium)
                 }
-                
-                // Manual Entry
-                Link(destination: URL(string: "finly://add-transaction")!) {
-                    VStack(spacing: 4) {
-                        Image(systemName: "plus")
-                            .font(.title3)
-                            .fontWeight(.bold)
-                        Text("Add")
-                            .font(.caption2)
-                            .fontWeight(.medium)
-                    }
-                    .foregroundColor(.white)
-                    .frame(maxWidth: .infinity)
-                    .frame(height: 60)
-                    .background(Color.white.opacity(0.2))
-                    .cornerRadius(10)
+                .foregroundColor(.white)
+                .frame(maxWidth: .infinity)
+                .frame(height: 60)
+                .background(Color.white.opacity(0.2))
+                .cornerRadius(10)
+            }
+            
+            // Manual Entry
+            Link(destination: URL(string: "finly://add-transaction")!) {
+                VStack(spacing: 4) {
+                    Image(systemName: "plus")
+                        .font(.title3)
+                        .fontWeight(.bold)
+                    Text("Add")
+                        .font(.caption2)
+                        .fontWeight(.medium)
+                }
+                .foregroundColor(.white)
+                .frame(maxWidth: .infinity)
+                .frame(height: 60)
+                .background(Color.white.opacity(0.2))
+                .cornerRadius(10)
+            }
+        }
+    }
+}
+
+struct BudgetsWidgetView: View {
+    var entry: FinlyWidgetProvider.Entry
+    
+    var body: some View {
+        VStack(alignment: .leading, spacing: 12) {
+            Text("Budgets")
+                .font(.headline)
+                .foregroundColor(.white)
+            
+            if entry.budgets.isEmpty {
+                Text("Set a budget on a category to track it here.")
+                    .font(.caption)
+                    .foregroundColor(.white.opacity(0.8))
+            } else {
+                ForEach(Array(entry.budgets.enumerated()), id: \.offset) { _, budget in
+                    BudgetRow(budget: budget, currencySymbol: entry.currencySymbol, currencyCode: entry.currencyCode)
                 }
             }
+            
+            Spacer()
+            
+            QuickActionsRow()
         }
         .padding()
         .frame(maxWidth: .infinity, maxHeight: .infinity)
@@ -172,3 +229,27 @@ struct LargeWidgetView: View {
     }
 }
 
+struct BudgetRow: View {
+    let budget: WidgetBudget
+    let currencySymbol: String
+    let currencyCode: String
+    
+    var body: some View {
+        VStack(alignment: .leading, spacing: 4) {
+            HStack {
+                Text(budget.name)
+                    .font(.caption)
+                    .fontWeight(.semibold)
+                    .lineLimit(1)
+                Spacer()
+                Text("\(WidgetDataManager.formatCurrency(budget.spent, symbol: currencySymbol, code: currencyCode)) / \(WidgetDataManager.formatCurrency(budget.budget, symbol: currencySymbol, code: currencyCode))")
+                    .font(.caption2)
+                    .lineLimit(1)
+            }
+            .foregroundColor(.white)
+            
+            ProgressView(value: Double(min(max(budget.percentUsed, 0), 100)), total: 100)
+                .tint(budget.percentUsed >= 100 ? .red : Color(hex: budget.color))
+        }
+    }
+}
@@ -6,12 +6,21 @@
 
 import Foundation
 
+struct WidgetBudget: Codable {
+    let name: String
+    let color: String
+    let spent: Double
+    let budget: Double
+    let percentUsed: Int
+}
+
 struct WidgetData: Codable {
     let balance: Double
     let monthlyIncome: Double
     let monthlyExpenses: Double
     let currencyCode: String
     let currencySymbol: String?
+    let budgets: [WidgetBudget] // Most used budgets first
     let lastUpdated: String
 }
 
@@ -89,6 +98,7 @@ class WidgetDataManager {
         }
         
         let currencySymbol = dataDict["currencySymbol"] as? String
+        let budgets = loadBudgets(dataDict["budgets"])
         
         print("[WidgetDataExtension] ✅ Loaded widget data - Balance: \(balance), Currency: \(currencyCode), Symbol: \(currencySymbol ?? "nil")")
         
@@ -98,10 +108,34 @@ class WidgetDataManager {
             monthlyExpenses: monthlyExpenses,
             currencyCode: currencyCode,
             currencySymbol: currencySymbol,
+            budgets: budgets,
             lastUpdated: lastUpdated
         )
     }
     
+    /**
+     * Decode the budgets array synced by WidgetDataSync
+     * Rows with a missing name or amounts are skipped; older payloads without budgets give an empty list
+     */
+    private static func loadBudgets(_ value: Any?) -> [WidgetBudget] {
+        guard let items = value as? [[String: Any]] else { return [] }
+        
+        return items.compactMap { item in
+            guard let name = item["name"] as? String,
+                  let spent = (item["spent"] as? NSNumber)?.doubleValue,
+                  let budget = (item["budget"] as? NSNumber)?.doubleValue else {
+                return nil
+            }
+            return WidgetBudget(
+                name: name,
+                color: item["color"] as? String ?? "#6366F1",
+                spent: spent,
+                budget: budget,
+                percentUsed: (item["percentUsed"] as? NSNumber)?.intValue ?? 0
+            )
+        }
+    }
+    
     /**
      * Format currency amount for display
      */
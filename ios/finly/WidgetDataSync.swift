@@ -59,6 +59,27 @@ class WidgetDataSync: NSObject {
     resolve(nil)
   }
   
+  /**
+   * Remove widget data from App Group storage (e.g., on logout)
+   * Widgets fall back to their empty state on the next reload
+   */
+  @objc
+  func clearWidgetData(_ resolve: @escaping RCTPromiseResolveBlock, rejecter reject: @escaping RCTPromiseRejectBlock) {
+    guard let sharedDefaults = sharedDefaults else {
+      let error = NSError(domain: "WidgetDataSync", code: 1, userInfo: [NSLocalizedDescriptionKey: "Failed to access App Group"])
+      reject("APP_GROUP_ERROR", "Cannot access App Group storage", error)
+      return
+    }
+    
+    sharedDefaults.removeObject(forKey: widgetDataKey)
+    
+    if #available(iOS 14.0, *) {
+      WidgetCenter.shared.reloadAllTimelines()
+    }
+    
+    resolve(nil)
+  }
+  
   @objc
   static func requiresMainQueueSetup() -> Bool {
     return false
@@ -11,9 +11,10 @@ module.exports = {
     '@testing-library/react-native/extend-expect'
   ],
   
-  // Transform files with ts-jest for TypeScript support
+  // Transform TypeScript with ts-jest; JavaScript (incl. React Native's Flow sources) with babel-jest
   transform: {
-    '^.+\\.(js|jsx|ts|tsx)$': ['ts-jest', {
+    '^.+\\.(js|jsx)$': 'babel-jest',
+    '^.+\\.(ts|tsx)$': ['ts-jest', {
       tsconfig: {
         jsx: 'react',
         esModuleInterop: true,
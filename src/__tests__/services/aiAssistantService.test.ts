@@ -0,0 +1,252 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo, Socket } from 'net';
+import { fetch } from 'expo/fetch';
+import { api } from '../../services/apiClient';
+import { streamAIQuery } from '../../services/aiAssistantService';
+
+jest.mock('expo/fetch', () => ({ fetch: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../../services/apiClient', () => ({
+  api: { get: jest.fn(), post: jest.fn() },
+  tokenManager: { getAccessToken: jest.fn() },
+}));
+jest.mock('../../config/api.config', () => ({
+  API_ENDPOINTS: { AI: { QUERY: '/ai/query', LIMITS: '/ai/limits' } },
+  buildApiUrl: (path: string) => `https://api.test${path}`,
+}));
+jest.mock('../../services/aiActionService', () => ({ parseAIActions: () => [] }));
+
+const mockFetch = fetch as unknown as jest.Mock;
+// Node's own fetch, for the tests against a real HTTP server
+const nodeFetch = globalThis.fetch;
+const mockPost = api.post as jest.Mock;
+const mockGet = api.get as jest.Mock;
+
+const encoder = new TextEncoder();
+
+type ReadResult = { done: boolean; value?: Uint8Array };
+
+const chunkEvent = (text: string) => `event: chunk\ndata: ${JSON.stringify({ text })}\n\n`;
+const doneEvent = `event: done\ndata: ${JSON.stringify({ id: 'q1', query: 'How much?', timestamp: '2026-01-01T00:00:00.000Z' })}\n\n`;
+
+/**
+ * Reader that returns the given chunks, then either ends or runs the last step
+ */
+const readerFrom = (chunks: string[], end: () => Promise<ReadResult> = async () => ({ done: true })) => {
+  const queue = [...chunks];
+  return {
+    read: (): Promise<ReadResult> =>
+      queue.length > 0 ? Promise.resolve({ done: false, value: encoder.encode(queue.shift()!) }) : end(),
+  };
+};
+
+const streamResponse = (reader: { read: () => Promise<ReadResult> }) => ({
+  ok: true,
+  headers: { get: () => 'text/event-stream; charset=utf-8' },
+  body: { getReader: () => reader },
+});
+
+const oneShotResponse = {
+  success: true,
+  data: { id: 'q2', query: 'How much?', response: 'One-shot answer', timestamp: '2026-01-01T00:00:00.000Z' },
+};
+
+const run = (options: { signal?: AbortSignal; onText?: jest.Mock } = {}) =>
+  streamAIQuery('How much?', true, (amount) => `$${amount}`, undefined, undefined, {
+    onText: options.onText ?? jest.fn(),
+    signal: options.signal,
+  });
+
+describe('streamAIQuery', () => {
+  beforeEach(() => {
+    mockGet.mockResolvedValue({ success: false });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('returns the complete answer streamed in chunks', async () => {
+    mockFetch.mockResolvedValue(streamResponse(readerFrom([chunkEvent('You spent '), chunkEvent('$42.'), doneEvent])));
+    const onText = jest.fn();
+
+    const result = await run({ onText });
+
+    expect(result.status).toBe('complete');
+    expect(result.response).toBe('You spent $42.');
+    expect(result.query.id).toBe('q1');
+    expect(onText).toHaveBeenLastCalledWith('You spent $42.');
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it('keeps the partial answer when the connection drops mid-stream', async () => {
+    mockFetch.mockResolvedValue(
+      streamResponse(readerFrom([chunkEvent('You spent ')], () => Promise.reject(new Error('Network request failed'))))
+    );
+
+    const result = await run();
+
+    expect(result.status).toBe('interrupted');
+    expect(result.response).toBe('You spent ');
+    expect(result.query.actions).toEqual([]);
+    // The server already has the query - asking again would answer it twice
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it('keeps the partial answer when the stream closes without a done event', async () => {
+    mockFetch.mockResolvedValue(streamResponse(readerFrom([chunkEvent('You spent ')])));
+
+    const result = await run();
+
+    expect(result.status).toBe('interrupted');
+    expect(result.response).toBe('You spent ');
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it('throws instead of asking again when the stream drops before any text', async () => {
+    mockFetch.mockResolvedValue(streamResponse(readerFrom([], () => Promise.reject(new Error('Network request failed')))));
+
+    await expect(run()).rejects.toThrow('connection was lost');
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it('resolves as cancelled with the answer so far when aborted mid-stream', async () => {
+    const controller = new AbortController();
+    const reader = readerFrom(
+      [chunkEvent('You spent ')],
+      () =>
+        new Promise<ReadResult>((_, reject) => {
+          const fail = () => reject(new Error('Aborted'));
+          if (controller.signal.aborted) fail();
+          else controller.signal.addEventListener('abort', fail);
+        })
+    );
+    mockFetch.mockResolvedValue(streamResponse(reader));
+    const onText = jest.fn(() => controller.abort());
+
+    const result = await run({ signal: controller.signal, onText });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.response).toBe('You spent ');
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a one-shot query when the connection fails before a response', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Network request failed'));
+    mockPost.mockResolvedValue(oneShotResponse);
+    const onText = jest.fn();
+
+    const result = await run({ onText });
+
+    expect(result.status).toBe('complete');
+    expect(result.response).toBe('One-shot answer');
+    expect(onText).toHaveBeenCalledWith('One-shot answer');
+  });
+
+  it('cancels the one-shot fallback when aborted', async () => {
+    const controller = new AbortController();
+    mockFetch.mockRejectedValue(new TypeError('Network request failed'));
+    mockPost.mockImplementation(
+      (_url: string, _body: unknown, config: { signal: AbortSignal }) =>
+        new Promise((_, reject) => {
+          config.signal.addEventListener('abort', () => reject(new Error('canceled')));
+          controller.abort();
+        })
+    );
+    const onText = jest.fn();
+
+    const result = await run({ signal: controller.signal, onText });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.response).toBe('');
+    expect(onText).not.toHaveBeenCalled();
+  });
+});
+
+describe('streamAIQuery over HTTP', () => {
+  let server: Server;
+  let url: string;
+  let sockets: Socket[];
+  let respond: (res: ServerResponse) => void;
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Write the pieces as separate network chunks
+   */
+  const writeSlowly = async (res: ServerResponse, pieces: Buffer[]) => {
+    for (const piece of pieces) {
+      res.write(piece);
+      await wait(20);
+    }
+  };
+
+  beforeAll(async () => {
+    sockets = [];
+    server = createServer((_req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+      respond(res);
+    });
+    server.on('connection', (socket) => sockets.push(socket));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ai/query`;
+  });
+
+  afterAll(async () => {
+    sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockGet.mockResolvedValue({ success: false });
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => nodeFetch(url, init));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('reassembles events and characters split across network chunks', async () => {
+    const body = Buffer.from(chunkEvent('Café ☕ ') + chunkEvent('and crème brûlée') + doneEvent);
+    // Inside the first event's name, then between the bytes of "☕" and of "è"
+    const cuts = [8, body.indexOf('☕') + 1, body.indexOf('è') + 1];
+    respond = (res) => {
+      const pieces = [0, ...cuts].map((start, i) => body.subarray(start, cuts[i] ?? body.length));
+      writeSlowly(res, pieces).then(() => res.end());
+    };
+    const onText = jest.fn();
+
+    const result = await run({ onText });
+
+    expect(result.status).toBe('complete');
+    expect(result.response).toBe('Café ☕ and crème brûlée');
+    expect(result.query.id).toBe('q1');
+    onText.mock.calls.forEach(([text]) => expect(text).not.toContain('\uFFFD'));
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it('resolves as cancelled with the answer so far when aborted mid-stream', async () => {
+    // The server keeps the response open after the first event
+    respond = (res) => res.write(chunkEvent('You spent '));
+    const controller = new AbortController();
+    const onText = jest.fn(() => controller.abort());
+
+    const result = await run({ signal: controller.signal, onText });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.response).toBe('You spent ');
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a one-shot query when a one-piece JSON answer is malformed', async () => {
+    respond = (res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end('{"success": true, "data": {"response": "Cut o');
+    };
+    mockPost.mockResolvedValue(oneShotResponse);
+
+    const result = await run();
+
+    expect(result.status).toBe('complete');
+    expect(result.response).toBe('One-shot answer');
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
+});
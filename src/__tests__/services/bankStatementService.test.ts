@@ -0,0 +1,154 @@
+import { detectStatementFormat, parseOFX, parseQIF } from '../../services/bankStatementService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// OFX 1.x: SGML with unclosed leaf tags
+const bankOFX = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM><ACCTID>12345</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260314120000[-5:EST]<TRNAMT>-42.10<FITID>T1<NAME>Tom &amp; Jerry's<MEMO>Card 1234</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260315<TRNAMT>2500.00<FITID>T2<NAME>Salary</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260314120000<TRNAMT>-42.10<FITID>T1<NAME>Tom &amp; Jerry's</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>not a date<TRNAMT>-1.00<FITID>T3</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+// OFX 2.x: XML
+const creditCardOFX = `<?xml version="1.0"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CCACCTFROM><ACCTID>9999</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260301</DTPOSTED><TRNAMT>-9.99</TRNAMT><FITID>C1</FITID><NAME>Streaming</NAME></STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('detectStatementFormat', () => {
+  it('uses the extension, then the content', () => {
+    expect(detectStatementFormat('march.QFX', '')).toBe('ofx');
+    expect(detectStatementFormat('march.qif', '')).toBe('qif');
+    expect(detectStatementFormat('download.txt', bankOFX)).toBe('ofx');
+    expect(detectStatementFormat('download.txt', '!Type:Bank\nD03/14/2026\n^')).toBe('qif');
+    expect(detectStatementFormat('download.txt', 'Date,Amount')).toBeNull();
+  });
+});
+
+describe('parseOFX', () => {
+  it('reads SGML bank statements and drops repeated FITIDs', () => {
+    const result = parseOFX(bankOFX, 'USD');
+
+    expect(result.transactions).toEqual([
+      {
+        date: '2026-03-14',
+        amount: 42.1,
+        type: 'expense',
+        description: "Tom & Jerry's",
+        notes: 'Card 1234',
+        currency: 'EUR',
+        tags: [],
+        paymentType: 'debit_card',
+        externalId: '12345:T1',
+      },
+      {
+        date: '2026-03-15',
+        amount: 2500,
+        type: 'income',
+        description: 'Salary',
+        notes: undefined,
+        currency: 'EUR',
+        tags: [],
+        paymentType: 'debit_card',
+        externalId: '12345:T2',
+      },
+    ]);
+    expect(result.duplicates).toBe(1);
+    expect(result.errors).toEqual(['Transaction 4: missing date or amount']);
+  });
+
+  it('reads XML credit card statements as credit card payments in the default currency', () => {
+    const result = parseOFX(creditCardOFX, 'USD');
+
+    expect(result.transactions).toEqual([
+      expect.objectContaining({
+        date: '2026-03-01',
+        amount: 9.99,
+        type: 'expense',
+        description: 'Streaming',
+        currency: 'USD',
+        paymentType: 'credit_card',
+        externalId: '9999:C1',
+      }),
+    ]);
+  });
+
+  it('reports a statement without transactions', () => {
+    expect(parseOFX('<OFX></OFX>', 'USD').errors).toEqual(['No transactions found in this statement']);
+  });
+});
+
+describe('parseQIF', () => {
+  const register = (type: string, records: string[]) => `!Type:${type}\n${records.join('\n^\n')}\n^\n`;
+
+  it('reads records with day-first dates, categories and memos', () => {
+    const result = parseQIF(
+      register('Bank', [
+        "D14/03'26\nT-42.10\nPSupermarket\nMWeekly shop\nLFood:Groceries",
+        'D25/03/2026\nT2,500.00\nPSalary',
+      ]),
+      'EUR'
+    );
+
+    expect(result.transactions).toEqual([
+      {
+        date: '2026-03-14',
+        amount: 42.1,
+        type: 'expense',
+        description: 'Supermarket',
+        notes: 'Weekly shop',
+        category: 'Groceries',
+        currency: 'EUR',
+        tags: [],
+        paymentType: 'debit_card',
+        externalId: 'qif:2026-03-14:-42.1:supermarket::1',
+      },
+      expect.objectContaining({ date: '2026-03-25', amount: 2500, type: 'income', category: undefined }),
+    ]);
+  });
+
+  it('skips transfers to and from other accounts', () => {
+    const result = parseQIF(
+      register('CCard', ['D03/01/2026\nT-9.99\nPStreaming', 'D03/02/2026\nT500.00\nPPayment\nL[Checking]']),
+      'USD'
+    );
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({ description: 'Streaming', paymentType: 'credit_card' });
+    expect(result.transfers).toBe(1);
+  });
+
+  it('gives identical records distinct ids so both are imported', () => {
+    const coffee = 'D03/01/2026\nT-3.50\nPCafe';
+    const result = parseQIF(register('Cash', [coffee, coffee]), 'USD');
+
+    expect(result.transactions.map((tx) => tx.externalId)).toEqual([
+      'qif:2026-03-01:-3.5:cafe::1',
+      'qif:2026-03-01:-3.5:cafe::2',
+    ]);
+    expect(result.transactions[0].paymentType).toBe('cash');
+  });
+
+  it('refuses investment registers', () => {
+    expect(parseQIF(register('Invst', ['D03/01/2026\nT-1']), 'USD').errors).toEqual([
+      'Unsupported QIF account type "Invst"',
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  detectDateFormat,
+  detectDecimalSeparator,
+  detectMappingOptions,
+  mapCSVRows,
+  parseAmountValue,
+  parseDateValue,
+  suggestColumnMapping,
+} from '../../services/csvMappingService';
+import { parseCSV } from '../../utils/csvParser';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('suggestColumnMapping', () => {
+  it('maps headers by keyword, preferring exact names and using each column once', () => {
+    expect(suggestColumnMapping(['Posted Date', 'Payee', 'Memo', 'Amount', 'Transaction Type', 'Currency'])).toEqual({
+      date: 'Posted Date',
+      amount: 'Amount',
+      description: 'Payee',
+      type: 'Transaction Type',
+      currency: 'Currency',
+    });
+  });
+});
+
+describe('parseDateValue', () => {
+  it('reads each field order with any separator, 2-digit years and a time part', () => {
+    expect(parseDateValue('2026-03-14T10:00:00Z', 'YYYY-MM-DD')).toBe('2026-03-14');
+    expect(parseDateValue('3/14/26', 'MM/DD/YYYY')).toBe('2026-03-14');
+    expect(parseDateValue('14.03.2026 10:00', 'DD/MM/YYYY')).toBe('2026-03-14');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseDateValue('02/30/2026', 'MM/DD/YYYY')).toBeNull();
+    expect(parseDateValue('14/03/2026', 'MM/DD/YYYY')).toBeNull();
+    expect(parseDateValue('yesterday', 'YYYY-MM-DD')).toBeNull();
+  });
+});
+
+describe('detectDateFormat', () => {
+  it('picks the format that parses the most samples', () => {
+    expect(detectDateFormat(['01/02/2026', '25/02/2026'])).toBe('DD/MM/YYYY');
+    expect(detectDateFormat(['2026-02-01', '2026-02-25'])).toBe('YYYY-MM-DD');
+  });
+
+  it('falls back to month first when every sample is ambiguous', () => {
+    expect(detectDateFormat(['01/02/2026', '03/04/2026'])).toBe('MM/DD/YYYY');
+  });
+});
+
+describe('parseAmountValue', () => {
+  it('handles symbols, thousands separators and negative notations', () => {
+    expect(parseAmountValue('$1,234.56', '.')).toBe(1234.56);
+    expect(parseAmountValue('1.234,56 €', ',')).toBe(1234.56);
+    expect(parseAmountValue('(12.50)', '.')).toBe(-12.5);
+    expect(parseAmountValue('12.50-', '.')).toBe(-12.5);
+    expect(parseAmountValue('-12,50', ',')).toBe(-12.5);
+  });
+
+  it('returns null for values that are not amounts', () => {
+    expect(parseAmountValue('', '.')).toBeNull();
+    expect(parseAmountValue('n/a', '.')).toBeNull();
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('votes on the separator before the last one or two digits', () => {
+    expect(detectDecimalSeparator(['1.234,56', '12,50', '3'])).toBe(',');
+    expect(detectDecimalSeparator(['1,234.56', '12.50'])).toBe('.');
+  });
+});
+
+describe('mapCSVRows', () => {
+  const csv = parseCSV(
+    [
+      'Date;Description;Amount;Category;Tags',
+      '14.03.2026;Supermarket;-42,10;Groceries;weekly|food',
+      '15.03.2026;Salary;2.500,00;;',
+      '31.02.2026;Broken date;-1,00;;',
+      '16.03.2026;;0;;',
+    ].join('\n')
+  );
+
+  it('detects options from the file and maps valid rows', () => {
+    const options = detectMappingOptions(csv, 'EUR');
+    expect(options).toMatchObject({ dateFormat: 'DD/MM/YYYY', decimalSeparator: ',', positiveAmountType: 'income' });
+
+    const { transactions } = mapCSVRows(csv, options);
+
+    expect(transactions).toEqual([
+      {
+        date: '2026-03-14',
+        amount: 42.1,
+        type: 'expense',
+        description: 'Supermarket',
+        category: 'Groceries',
+        currency: 'EUR',
+        tags: ['weekly', 'food'],
+      },
+      {
+        date: '2026-03-15',
+        amount: 2500,
+        type: 'income',
+        description: 'Salary',
+        category: undefined,
+        currency: 'EUR',
+        tags: [],
+      },
+    ]);
+  });
+
+  it('reports every problem of an invalid row with its line number', () => {
+    const { rowErrors } = mapCSVRows(csv, detectMappingOptions(csv, 'EUR'));
+
+    expect(rowErrors).toEqual([
+      { row: 4, errors: ['Invalid date "31.02.2026"'] },
+      { row: 5, errors: ['Amount is zero', 'Missing description'] },
+    ]);
+  });
+
+  it('reads the type column when one is mapped', () => {
+    const typed = parseCSV('Date,Description,Amount,Type\n2026-03-14,Refund,10,credit\n2026-03-15,Shop,10,other');
+    const { transactions, rowErrors } = mapCSVRows(typed, detectMappingOptions(typed, 'USD'));
+
+    expect(transactions.map((tx) => tx.type)).toEqual(['income']);
+    expect(rowErrors).toEqual([{ row: 3, errors: ['Unknown type "other"'] }]);
+  });
+});
@@ -0,0 +1,226 @@
+import { apiService } from '../../services/api';
+import tagsService from '../../services/tagsService';
+import receiptService from '../../services/receiptService';
+import { getCategoryRules, importCategoryRules } from '../../services/categorizationService';
+import { createBackup, restoreBackup, transactionsToCSV, validateBackup } from '../../services/dataExportService';
+import { Category, Expense, IncomeTransaction, Tag, UnifiedTransaction } from '../../types';
+
+jest.mock('expo-application', () => ({ nativeApplicationVersion: '1.0.0' }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../../services/api', () => ({
+  apiService: {
+    getCategories: jest.fn(),
+    getIncomeSources: jest.fn(),
+    getRolloverSummary: jest.fn(),
+    getExpensesPaginated: jest.fn(),
+    getUnifiedTransactionsPaginated: jest.fn(),
+    getSavingsGoals: jest.fn(),
+    getAccounts: jest.fn(),
+    getTransfers: jest.fn(),
+    createCategory: jest.fn(),
+    addExpensesBatch: jest.fn(),
+    createIncomeTransaction: jest.fn(),
+  },
+}));
+jest.mock('../../services/tagsService', () => ({ __esModule: true, default: { getTags: jest.fn(), createTag: jest.fn() } }));
+jest.mock('../../services/receiptService', () => ({
+  __esModule: true,
+  default: { getReceipts: jest.fn(), importReceipts: jest.fn() },
+}));
+jest.mock('../../services/categorizationService', () => ({
+  getCategoryRules: jest.fn(),
+  importCategoryRules: jest.fn(),
+}));
+
+const api = apiService as unknown as Record<string, jest.Mock>;
+const tags = tagsService as unknown as Record<string, jest.Mock>;
+const receipts = receiptService as unknown as Record<string, jest.Mock>;
+
+const category = (id: string, name: string) => ({ id, name, icon: 'tag', color: '#000000' }) as Category;
+const tag = (id: string, name: string) => ({ id, name, color: '#000000' }) as Tag;
+
+const groceries = category('cat-groceries', 'Groceries');
+const household = category('cat-household', 'Household');
+const weekly = tag('tag-weekly', 'Weekly');
+
+const splitExpense = {
+  id: 'exp-1',
+  amount: 60,
+  categoryId: groceries.id,
+  category: { id: groceries.id, name: groceries.name, icon: 'tag', color: '#000000' },
+  description: 'Supermarket',
+  date: '2026-03-14T12:00:00.000Z',
+  tags: [weekly],
+  splits: [
+    { id: 'split-1', categoryId: groceries.id, amount: 40, tags: [weekly] },
+    { id: 'split-2', categoryId: household.id, amount: 20, notes: 'Soap' },
+  ],
+  createdAt: '2026-03-14T12:00:00.000Z',
+  updatedAt: '2026-03-14T12:00:00.000Z',
+} as Expense;
+
+const emptyPage = { transactions: [], pagination: { hasMore: false, nextCursor: null, total: 0 } };
+
+const income = (id: string, description: string, amount: number) =>
+  ({
+    id,
+    userId: 'user-1',
+    amount,
+    date: '2026-03-01T09:00:00.000Z',
+    description,
+    autoAdded: true,
+    createdAt: '2026-03-01T09:00:00.000Z',
+  }) as IncomeTransaction;
+
+/**
+ * Account the backup is read from, then a new empty account it is restored into
+ */
+const mockSourceAccount = () => {
+  api.getCategories.mockResolvedValue([groceries, household]);
+  api.getIncomeSources.mockResolvedValue([]);
+  api.getExpensesPaginated.mockResolvedValue({
+    expenses: [splitExpense],
+    pagination: { hasMore: false, nextCursor: null, total: 1 },
+  });
+  api.getUnifiedTransactionsPaginated.mockResolvedValue(emptyPage);
+  api.getSavingsGoals.mockResolvedValue([]);
+  api.getAccounts.mockResolvedValue([]);
+  api.getTransfers.mockResolvedValue([]);
+  tags.getTags.mockResolvedValue([weekly]);
+  receipts.getReceipts.mockResolvedValue([]);
+  (getCategoryRules as jest.Mock).mockResolvedValue([]);
+};
+
+const mockEmptyAccount = () => {
+  api.getCategories.mockResolvedValue([]);
+  api.getIncomeSources.mockResolvedValue([]);
+  api.getUnifiedTransactionsPaginated.mockResolvedValue(emptyPage);
+  api.getSavingsGoals.mockResolvedValue([]);
+  api.getAccounts.mockResolvedValue([]);
+  api.getTransfers.mockResolvedValue([]);
+  api.createCategory.mockImplementation(async (data: { name: string }) =>
+    category(`new-${data.name.toLowerCase()}`, data.name)
+  );
+  api.addExpensesBatch.mockResolvedValue([]);
+  api.createIncomeTransaction.mockResolvedValue({});
+  tags.getTags.mockResolvedValue([]);
+  tags.createTag.mockImplementation(async (name: string) => tag(`new-${name.toLowerCase()}`, name));
+  receipts.importReceipts.mockResolvedValue(0);
+  (importCategoryRules as jest.Mock).mockResolvedValue(0);
+};
+
+const roundTrip = async () => {
+  mockSourceAccount();
+  const file = JSON.stringify(await createBackup());
+  const validation = validateBackup(JSON.parse(file));
+  if (!validation.valid) throw new Error(validation.error);
+
+  mockEmptyAccount();
+  return restoreBackup(validation.backup);
+};
+
+describe('backup and restore', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('keeps a split expense split across its categories', async () => {
+    const result = await roundTrip();
+
+    expect(result.errors).toEqual([]);
+    expect(result.created.expenses).toBe(1);
+    const [{ expenses }] = api.addExpensesBatch.mock.calls[0];
+    expect(expenses).toHaveLength(1);
+    expect(expenses[0]).toMatchObject({
+      amount: 60,
+      categoryId: 'new-groceries',
+      tags: ['new-weekly'],
+      splits: [
+        { categoryId: 'new-groceries', amount: 40, tags: ['new-weekly'] },
+        { categoryId: 'new-household', amount: 20, tags: [], notes: 'Soap' },
+      ],
+    });
+  });
+
+  it('skips a split expense whose split category could not be restored', async () => {
+    mockSourceAccount();
+    const backup = await createBackup();
+    backup.data.categories = [groceries];
+
+    mockEmptyAccount();
+    const result = await restoreBackup(backup);
+
+    expect(api.addExpensesBatch).not.toHaveBeenCalled();
+    expect(result.errors).toEqual(['Expense "Supermarket" skipped: its category could not be restored']);
+  });
+});
+
+describe('restoring into an account that already has transactions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('skips transactions with the same date, amount and description under another id', async () => {
+    mockSourceAccount();
+    const backup = await createBackup();
+    backup.data.incomeTransactions = [income('inc-1', 'Salary', 3000), income('inc-2', 'Rent share', 450)];
+
+    mockEmptyAccount();
+    api.getUnifiedTransactionsPaginated.mockResolvedValue({
+      transactions: [
+        { id: 'other-exp', type: 'expense', date: splitExpense.date, amount: 60, description: ' SUPERMARKET' },
+        { id: 'other-inc', type: 'income', date: '2026-03-01T18:00:00.000Z', amount: 3000, description: 'salary' },
+      ],
+      pagination: { hasMore: false, nextCursor: null, total: 2 },
+    });
+    const result = await restoreBackup(backup);
+
+    expect(api.addExpensesBatch).not.toHaveBeenCalled();
+    expect(result.skipped).toMatchObject({ expenses: 1, incomeTransactions: 1 });
+    // Scheduled income is restored as scheduled
+    expect(api.createIncomeTransaction).toHaveBeenCalledTimes(1);
+    expect(api.createIncomeTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ description: 'Rent share', amount: 450, autoAdded: true })
+    );
+  });
+});
+
+describe('transactionsToCSV', () => {
+  it('writes one quoted-where-needed row per transaction with a trailing CRLF', () => {
+    const csv = transactionsToCSV([
+      {
+        id: 'exp-1',
+        type: 'expense',
+        amount: 12.5,
+        originalAmount: 11.5,
+        originalCurrency: 'EUR',
+        date: '2026-03-14T12:00:00.000Z',
+        description: 'Lunch, with "team"',
+        category: { id: 'cat-1', name: 'Food', icon: 'food', color: '#000000' },
+        paymentMethod: 'CREDIT_CARD',
+        tags: [weekly, tag('tag-work', 'Work')],
+        notes: 'line one\nline two',
+        account: { id: 'acc-1', name: 'Visa' },
+        createdAt: '2026-03-14T12:00:00.000Z',
+      } as UnifiedTransaction,
+      {
+        id: 'inc-1',
+        type: 'income',
+        amount: 3000,
+        date: '2026-03-01T12:00:00.000Z',
+        createdAt: '2026-03-01T12:00:00.000Z',
+      } as UnifiedTransaction,
+    ]);
+
+    expect(csv).toBe(
+      [
+        'Date,Type,Amount (USD),Original Amount,Original Currency,Description,Category,Payment Method,Tags,Notes,Account',
+        '2026-03-14,Expense,12.50,11.5,EUR,"Lunch, with ""team""",Food,CREDIT_CARD,"Weekly, Work","line one\nline two",Visa',
+        '2026-03-01,Income,3000.00,,,,Income,,,,',
+        '',
+      ].join('\r\n')
+    );
+  });
+});
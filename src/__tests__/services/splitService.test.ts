@@ -0,0 +1,100 @@
+import {
+  getCategoryAllocations,
+  getCategoryAmount,
+  scaleSplitAmounts,
+  splitsFromLineItems,
+  validateSplits,
+} from '../../services/splitService';
+import { Tag } from '../../types';
+
+const tag = (id: string) => ({ id, name: id, color: '#000000' }) as Tag;
+
+describe('validateSplits', () => {
+  it('accepts allocations that add up to the total within a cent', () => {
+    expect(validateSplits([{ categoryId: 'a', amount: 33.33 }, { categoryId: 'b', amount: 66.66 }], 100)).toBeNull();
+  });
+
+  it('explains what is wrong with invalid allocations', () => {
+    expect(validateSplits([{ categoryId: 'a', amount: 10 }], 10)).toBe('A split needs at least two allocations');
+    expect(validateSplits([{ categoryId: 'a', amount: 5 }, { categoryId: '', amount: 5 }], 10)).toBe(
+      'Choose a category for every allocation'
+    );
+    expect(validateSplits([{ categoryId: 'a', amount: 10 }, { categoryId: 'b', amount: 0 }], 10)).toBe(
+      'Every allocation needs an amount greater than zero'
+    );
+    expect(validateSplits([{ categoryId: 'a', amount: 4 }, { categoryId: 'b', amount: 5 }], 10)).toBe(
+      'Allocations are 1.00 short of the total'
+    );
+    expect(validateSplits([{ categoryId: 'a', amount: 6 }, { categoryId: 'b', amount: 5.5 }], 10)).toBe(
+      'Allocations exceed the total by 1.50'
+    );
+  });
+});
+
+describe('scaleSplitAmounts', () => {
+  it('rescales to the new total and lets the last allocation absorb rounding', () => {
+    const scaled = scaleSplitAmounts([10, 10, 10], 30, 10);
+
+    expect(scaled).toEqual([3.33, 3.33, 3.34]);
+  });
+});
+
+describe('getCategoryAllocations', () => {
+  it('gives a plain expense one allocation for its whole amount', () => {
+    const allocations = getCategoryAllocations({
+      amount: 25,
+      category: { id: 'food', name: 'Food', icon: 'food', color: '#000000' },
+      tags: [tag('work')],
+    });
+
+    expect(allocations).toEqual([
+      expect.objectContaining({ categoryId: 'food', amount: 25, tags: [tag('work')] }),
+    ]);
+  });
+
+  it('gives a split expense one allocation per split with the parent tags merged in', () => {
+    const expense = {
+      amount: 60,
+      tags: [tag('weekly')],
+      splits: [
+        { categoryId: 'food', amount: 40, tags: [tag('weekly'), tag('family')] },
+        { categoryId: 'home', amount: 20, notes: 'Soap' },
+      ],
+    };
+
+    expect(getCategoryAllocations(expense)).toEqual([
+      { categoryId: 'food', category: undefined, amount: 40, tags: [tag('weekly'), tag('family')], notes: undefined },
+      { categoryId: 'home', category: undefined, amount: 20, tags: [tag('weekly')], notes: 'Soap' },
+    ]);
+    expect(getCategoryAmount(expense, 'home')).toBe(20);
+    expect(getCategoryAmount(expense, 'travel')).toBe(0);
+  });
+});
+
+describe('splitsFromLineItems', () => {
+  it('groups items by category and puts tax and rounding on the last allocation', () => {
+    const splits = splitsFromLineItems(
+      [
+        { categoryId: 'food', amount: 3.5, originalAmount: 3, description: 'Bread' },
+        { categoryId: 'home', amount: 4, originalAmount: 3.5, description: 'Soap' },
+        { categoryId: 'food', amount: 2.25, originalAmount: 2, description: 'Milk' },
+        { amount: 1 }, // No category: left to the last allocation
+      ],
+      11.5,
+      10
+    );
+
+    expect(splits).toEqual([
+      { categoryId: 'food', amount: 5.75, originalAmount: 5, notes: 'Bread, Milk' },
+      { categoryId: 'home', amount: 5.75, originalAmount: 5, notes: 'Soap' },
+    ]);
+  });
+
+  it('returns no splits when every item is in one category', () => {
+    expect(splitsFromLineItems([{ categoryId: 'food', amount: 2 }, { categoryId: 'food', amount: 3 }], 5)).toEqual([]);
+  });
+
+  it('returns no splits when the items already exceed the total', () => {
+    expect(splitsFromLineItems([{ categoryId: 'food', amount: 8 }, { categoryId: 'home', amount: 4 }], 8)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  getHighlightSegments,
+  matchesSearchQuery,
+  parseSearchQuery,
+} from '../../services/transactionSearchService';
+import { UnifiedTransaction } from '../../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../../services/localDatabase', () => ({ localDatabase: {} }));
+
+const transaction = (overrides: Partial<UnifiedTransaction>) =>
+  ({
+    id: 'tx-1',
+    type: 'expense',
+    amount: 4.5,
+    date: '2026-03-14T12:00:00.000Z',
+    description: 'Starbucks Coffee',
+    category: { id: 'food', name: 'Food & Drink', icon: 'food', color: '#000000' },
+    tags: [{ id: 'work', name: 'Work', color: '#000000' }],
+    createdAt: '2026-03-14T12:00:00.000Z',
+    ...overrides,
+  }) as UnifiedTransaction;
+
+const matches = (query: string, tx: UnifiedTransaction = transaction({})) =>
+  matchesSearchQuery(tx, parseSearchQuery(query));
+
+describe('parseSearchQuery', () => {
+  it('parses keyed clauses, negation and quoted phrases', () => {
+    const { clauses, highlightTerms } = parseSearchQuery('"coffee shop" amount:>=4,5 -tag:"home office" type:income before:2026-03-01');
+
+    expect(clauses).toEqual([
+      { field: 'text', value: 'coffee shop', negated: false },
+      { field: 'amount', operator: '>=', value: 4.5, negated: false },
+      { field: 'tag', value: 'home office', negated: true },
+      { field: 'type', value: 'income', negated: false },
+      { field: 'before', value: new Date(2026, 2, 1), negated: false },
+    ]);
+    expect(highlightTerms).toEqual(['coffee shop']);
+  });
+
+  it('keeps unknown keys and invalid values as free text', () => {
+    expect(parseSearchQuery('note:lunch amount:lots after:march -').clauses).toEqual([
+      { field: 'text', value: 'note:lunch', negated: false },
+      { field: 'text', value: 'amount:lots', negated: false },
+      { field: 'text', value: 'after:march', negated: false },
+      { field: 'text', value: '-', negated: false },
+    ]);
+  });
+
+  it('treats a bare amount as an exact match', () => {
+    expect(parseSearchQuery('amount:12').clauses).toEqual([{ field: 'amount', operator: '=', value: 12, negated: false }]);
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  it('finds descriptions with small typos', () => {
+    expect(matches('cofee')).toBe(true);
+    expect(matches('starbuks')).toBe(true);
+    expect(matches('"starbuks cofee"')).toBe(true);
+  });
+
+  it('does not match short terms or words too far off', () => {
+    expect(matches('tea')).toBe(false);
+    expect(matches('coffer shop')).toBe(false);
+    expect(matches('bakery')).toBe(false);
+  });
+
+  it('matches category, tag and split names by substring', () => {
+    const split = transaction({
+      splits: [
+        { categoryId: 'food', amount: 3, category: { id: 'food', name: 'Food & Drink', icon: 'food', color: '#000000' } },
+        { categoryId: 'gifts', amount: 1.5, notes: 'Mug for Sam', category: { id: 'gifts', name: 'Gifts', icon: 'gift', color: '#000000' } },
+      ],
+    });
+
+    expect(matches('category:drink')).toBe(true);
+    expect(matches('tag:wor')).toBe(true);
+    expect(matches('category:gift', split)).toBe(true);
+    expect(matches('mug', split)).toBe(true);
+    expect(matches('category:food', transaction({ type: 'income' }))).toBe(false);
+  });
+
+  it('compares amounts to the cent and combines clauses with AND', () => {
+    expect(matches('amount:4.50')).toBe(true);
+    expect(matches('amount:>4.5')).toBe(false);
+    expect(matches('coffee amount:<5 type:expense')).toBe(true);
+    expect(matches('coffee -tag:work')).toBe(false);
+  });
+
+  it('compares amounts in the display currency when given a conversion', () => {
+    const query = parseSearchQuery('amount:>4');
+
+    expect(matchesSearchQuery(transaction({}), query, { toDisplayAmount: (usd) => usd * 0.5 })).toBe(false);
+  });
+
+  it('treats date-only transactions as local days for before/after', () => {
+    const tx = transaction({ date: '2026-03-01' });
+
+    expect(matches('after:2026-03-01', tx)).toBe(true);
+    expect(matches('before:2026-03-01', tx)).toBe(false);
+    expect(matches('before:2026-03-02', tx)).toBe(true);
+  });
+});
+
+describe('getHighlightSegments', () => {
+  it('marks each word that matches a term, typos included', () => {
+    expect(getHighlightSegments('Coffee at Starbucks coffee bar', ['cofee'])).toEqual([
+      { text: 'Coffee', match: true },
+      { text: ' at Starbucks ', match: false },
+      { text: 'coffee', match: true },
+      { text: ' bar', match: false },
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { decodeCSVBytes, detectDelimiter, detectEncoding, parseCSV, toCSV } from '../../utils/csvParser';
+
+describe('parseCSV', () => {
+  it('keeps delimiters, newlines and escaped quotes inside quoted fields', () => {
+    const csv = parseCSV('Date,Description,Amount\r\n2026-03-01,"Coffee, ""large""\nto go",-4.50\r\n');
+
+    expect(csv.headers).toEqual(['Date', 'Description', 'Amount']);
+    expect(csv.rows).toEqual([['2026-03-01', 'Coffee, "large"\nto go', '-4.50']]);
+  });
+
+  it('drops blank lines and a leading BOM', () => {
+    const csv = parseCSV('\uFEFFDate;Amount\n\n2026-03-01;12,50\n  \n2026-03-02;3,00');
+
+    expect(csv.headers).toEqual(['Date', 'Amount']);
+    expect(csv.rows).toEqual([
+      ['2026-03-01', '12,50'],
+      ['2026-03-02', '3,00'],
+    ]);
+  });
+
+  it('uses the given delimiter over detection', () => {
+    expect(parseCSV('a,b|c\n1,2|3', '|').rows).toEqual([['1,2', '3']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits rows consistently', () => {
+    expect(detectDelimiter('Date;Description;Amount\n2026-03-01;Coffee;4,50\n2026-03-02;Tea;3,00')).toBe(';');
+    expect(detectDelimiter('Date\tAmount\n2026-03-01\t4.50')).toBe('\t');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(detectDelimiter('"Date;Time",Amount\n"2026-03-01;10:00",4.50')).toBe(',');
+  });
+});
+
+describe('decodeCSVBytes', () => {
+  it('decodes UTF-8 and strips its BOM', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...Buffer.from('Café,4€')]);
+
+    expect(decodeCSVBytes(bytes)).toEqual({ text: 'Café,4€', encoding: 'utf-8' });
+  });
+
+  it('decodes UTF-16 in both byte orders', () => {
+    const le = new Uint8Array([0xff, 0xfe, ...Buffer.from('Té', 'utf16le')]);
+    const be = new Uint8Array([0xfe, 0xff, ...Buffer.from('Té', 'utf16le').swap16()]);
+
+    expect(decodeCSVBytes(le)).toEqual({ text: 'Té', encoding: 'utf-16le' });
+    expect(decodeCSVBytes(be)).toEqual({ text: 'Té', encoding: 'utf-16be' });
+  });
+
+  it('falls back to Windows-1252 when the bytes are not valid UTF-8', () => {
+    // "Café 4€" as saved by Excel on Windows
+    const bytes = new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x20, 0x34, 0x80]);
+
+    expect(detectEncoding(bytes)).toBe('windows-1252');
+    expect(decodeCSVBytes(bytes).text).toBe('Café 4€');
+  });
+});
+
+describe('toCSV', () => {
+  it('quotes only the fields that need it and round-trips through parseCSV', () => {
+    const rows = [
+      ['Description', 'Notes'],
+      ['Coffee, large', 'Said "thanks"'],
+      ['Tea', 'two\nlines'],
+    ];
+    const text = toCSV(rows);
+
+    expect(text).toBe('Description,Notes\r\n"Coffee, large","Said ""thanks"""\r\nTea,"two\nlines"');
+    const parsed = parseCSV(text, ',');
+    expect([parsed.headers, ...parsed.rows]).toEqual(rows);
+  });
+});
@@ -0,0 +1,67 @@
+import { createSSEParser, SSEEvent } from '../../utils/sseParser';
+
+const parseChunks = (chunks: string[], flush: boolean = true): SSEEvent[] => {
+  const events: SSEEvent[] = [];
+  const parser = createSSEParser((event) => events.push(event));
+  chunks.forEach((chunk) => parser.push(chunk));
+  if (flush) parser.flush();
+  return events;
+};
+
+describe('createSSEParser', () => {
+  it('emits an event once its blank line arrives', () => {
+    expect(parseChunks(['event: chunk\ndata: {"text":"Hi"}\n\n'], false)).toEqual([
+      { event: 'chunk', data: '{"text":"Hi"}', id: undefined },
+    ]);
+  });
+
+  it('joins an event split across chunks', () => {
+    const events = parseChunks(['event: ch', 'unk\nda', 'ta: {"text":', '"Hello"}\n', '\n'], false);
+
+    expect(events).toEqual([{ event: 'chunk', data: '{"text":"Hello"}', id: undefined }]);
+  });
+
+  it('emits every event in a chunk that holds several', () => {
+    const events = parseChunks(['data: one\n\ndata: two\n\nevent: done\ndata: {}\n\n'], false);
+
+    expect(events.map((event) => [event.event, event.data])).toEqual([
+      ['message', 'one'],
+      ['message', 'two'],
+      ['done', '{}'],
+    ]);
+  });
+
+  it('treats CRLF split across chunks as one line break', () => {
+    const events = parseChunks(['data: first\r', '\n\r', '\ndata: second\r\n\r\n'], false);
+
+    expect(events.map((event) => event.data)).toEqual(['first', 'second']);
+  });
+
+  it('accepts bare CR line endings', () => {
+    expect(parseChunks(['data: a\r\rdata: b\r\r'], false).map((event) => event.data)).toEqual(['a', 'b']);
+  });
+
+  it('joins multi-line data fields with newlines', () => {
+    const events = parseChunks(['data: line one\ndata:line two\ndata: \n\n'], false);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toBe('line one\nline two\n');
+  });
+
+  it('ignores comments, unknown fields and events without data', () => {
+    const events = parseChunks([': keep-alive\nretry: 1000\nevent: ping\n\nfoo: bar\ndata: kept\n\n'], false);
+
+    expect(events).toEqual([{ event: 'message', data: 'kept', id: undefined }]);
+  });
+
+  it('keeps the last event id for later events', () => {
+    const events = parseChunks(['id: 7\ndata: a\n\ndata: b\n\n'], false);
+
+    expect(events.map((event) => event.id)).toEqual(['7', '7']);
+  });
+
+  it('emits a final event without a trailing blank line on flush', () => {
+    expect(parseChunks(['data: tail'], false)).toEqual([]);
+    expect(parseChunks(['data: tail'])).toEqual([{ event: 'message', data: 'tail', id: undefined }]);
+  });
+});
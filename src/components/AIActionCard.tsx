@@ -0,0 +1,207 @@
+/**
+ * AIActionCard Component
+ * Purpose: Confirm card for a change proposed by Finly AI
+ * Features: Confirm / dismiss, progress while applying, applied state with undo, error retry
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { AIActionType } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+export type AIActionCardStatus = 'pending' | 'applying' | 'applied' | 'undoing' | 'undone' | 'dismissed' | 'failed';
+
+const ACTION_META: Record<AIActionType, { icon: string; title: string }> = {
+  createExpense: { icon: 'cash-plus', title: 'Add expense' },
+  recategorize: { icon: 'swap-horizontal', title: 'Change category' },
+  setBudget: { icon: 'target', title: 'Set budget' },
+  createCategoryRule: { icon: 'auto-fix', title: 'Create rule' },
+  createTag: { icon: 'tag-plus-outline', title: 'Create tag' },
+};
+
+interface AIActionCardProps {
+  actionType: AIActionType;
+  summary: string;
+  status: AIActionCardStatus;
+  error?: string;
+  canUndo?: boolean;
+  onConfirm: () => void;
+  onDismiss: () => void;
+  onUndo: () => void;
+}
+
+/**
+ * AIActionCard - Nothing changes until the user taps Confirm
+ */
+export const AIActionCard: React.FC<AIActionCardProps> = ({
+  actionType,
+  summary,
+  status,
+  error,
+  canUndo = true,
+  onConfirm,
+  onDismiss,
+  onUndo,
+}) => {
+  const { theme } = useTheme();
+  const meta = ACTION_META[actionType];
+  const busy = status === 'applying' || status === 'undoing';
+
+  const renderFooter = () => {
+    if (busy) {
+      return (
+        <View style={styles.footerRow}>
+          <ActivityIndicator size="small" color={theme.primary} />
+          <Text style={[styles.statusText, { color: theme.textSecondary }]}>
+            {status === 'applying' ? 'Applying...' : 'Undoing...'}
+          </Text>
+        </View>
+      );
+    }
+
+    switch (status) {
+      case 'applied':
+        return (
+          <View style={styles.footerRow}>
+            <Icon name="check-circle" size={16} color={theme.success} />
+            <Text style={[styles.statusText, { color: theme.success }]}>Done</Text>
+            {canUndo && (
+              <TouchableOpacity style={styles.linkButton} onPress={onUndo}>
+                <Text style={[styles.linkText, { color: theme.primary }]}>Undo</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      case 'undone':
+        return (
+          <View style={styles.footerRow}>
+            <Icon name="undo" size={16} color={theme.textSecondary} />
+            <Text style={[styles.statusText, { color: theme.textSecondary }]}>Undone</Text>
+          </View>
+        );
+      case 'dismissed':
+        return (
+          <View style={styles.footerRow}>
+            <Icon name="close-circle-outline" size={16} color={theme.textTertiary} />
+            <Text style={[styles.statusText, { color: theme.textTertiary }]}>Dismissed</Text>
+          </View>
+        );
+      default:
+        return (
+          <>
+            {status === 'failed' && !!error && (
+              <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text>
+            )}
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.button, { borderColor: theme.border }]}
+                onPress={onDismiss}
+              >
+                <Text style={[styles.buttonText, { color: theme.textSecondary }]}>Dismiss</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.primary, borderColor: theme.primary }]}
+                onPress={onConfirm}
+              >
+                <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>
+                  {status === 'failed' ? 'Retry' : 'Confirm'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        );
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: theme.background,
+          borderColor: status === 'pending' || status === 'failed' ? theme.primary : theme.border,
+          opacity: status === 'dismissed' || status === 'undone' ? 0.7 : 1,
+        },
+      ]}
+    >
+      <View style={styles.header}>
+        <View style={[styles.iconContainer, { backgroundColor: theme.primary + '20' }]}>
+          <Icon name={meta.icon as any} size={16} color={theme.primary} />
+        </View>
+        <Text style={[styles.title, { color: theme.textSecondary }]}>{meta.title}</Text>
+      </View>
+      <Text style={[styles.summary, { color: theme.text }]}>{summary}</Text>
+      {renderFooter()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.xs,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  iconContainer: {
+    width: 24,
+    height: 24,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  summary: {
+    ...typography.bodyMedium,
+  },
+  footerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  statusText: {
+    ...typography.labelMedium,
+  },
+  linkButton: {
+    marginLeft: 'auto',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  linkText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  errorText: {
+    ...typography.bodySmall,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  button: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  buttonText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+});
+
+export default AIActionCard;
@@ -0,0 +1,304 @@
+/**
+ * AIThreadListModal Component
+ * Purpose: Browse and manage saved Finly AI conversations
+ * Features: Search, new conversation, pinned threads first, inline rename, pin and delete
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { searchThreads } from '../services/aiThreadService';
+import { AIThread } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+interface AIThreadListModalProps {
+  visible: boolean;
+  threads: AIThread[];
+  activeThreadId: string | null;
+  loading?: boolean;
+  onSelect: (thread: AIThread) => void;
+  onNewThread: () => void;
+  onRename: (thread: AIThread, title: string) => void;
+  onTogglePin: (thread: AIThread) => void;
+  onDelete: (thread: AIThread) => void;
+  onClose: () => void;
+}
+
+const formatUpdatedAt = (date: string): string => {
+  const updated = new Date(date);
+  const today = new Date();
+  if (updated.toDateString() === today.toDateString()) {
+    return updated.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  }
+  return updated.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+/**
+ * AIThreadListModal - Conversation list for the AI assistant
+ */
+export const AIThreadListModal: React.FC<AIThreadListModalProps> = ({
+  visible,
+  threads,
+  activeThreadId,
+  loading = false,
+  onSelect,
+  onNewThread,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [search, setSearch] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  useEffect(() => {
+    if (!visible) {
+      setSearch('');
+      setRenamingId(null);
+    }
+  }, [visible]);
+
+  const filteredThreads = useMemo(() => searchThreads(threads, search), [threads, search]);
+
+  const startRename = (thread: AIThread) => {
+    setRenamingId(thread.id);
+    setRenameText(thread.title);
+  };
+
+  const submitRename = (thread: AIThread) => {
+    const title = renameText.trim();
+    setRenamingId(null);
+    if (title && title !== thread.title) {
+      onRename(thread, title);
+    }
+  };
+
+  const renderThread = (thread: AIThread) => {
+    const isActive = thread.id === activeThreadId;
+    const isRenaming = thread.id === renamingId;
+
+    return (
+      <TouchableOpacity
+        key={thread.id}
+        style={[
+          styles.threadRow,
+          { backgroundColor: theme.card, borderColor: isActive ? theme.primary : theme.border },
+        ]}
+        onPress={() => !isRenaming && onSelect(thread)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.threadInfo}>
+          {isRenaming ? (
+            <TextInput
+              style={[styles.renameInput, { color: theme.text, borderColor: theme.primary }]}
+              value={renameText}
+              onChangeText={setRenameText}
+              onSubmitEditing={() => submitRename(thread)}
+              onBlur={() => submitRename(thread)}
+              maxLength={60}
+              autoFocus
+              returnKeyType="done"
+            />
+          ) : (
+            <View style={styles.titleRow}>
+              {thread.pinned && <Icon name="pin" size={12} color={theme.primary} />}
+              {thread.context?.transactionId && (
+                <Icon name="receipt" size={12} color={theme.textSecondary} />
+              )}
+              <Text style={[styles.threadTitle, { color: theme.text }]} numberOfLines={1}>
+                {thread.title}
+              </Text>
+            </View>
+          )}
+          {!!thread.lastMessagePreview && !isRenaming && (
+            <Text style={[styles.threadPreview, { color: theme.textSecondary }]} numberOfLines={1}>
+              {thread.lastMessagePreview}
+            </Text>
+          )}
+          <Text style={[styles.threadDate, { color: theme.textTertiary }]}>
+            {formatUpdatedAt(thread.updatedAt)}
+          </Text>
+        </View>
+        <View style={styles.threadActions}>
+          <TouchableOpacity onPress={() => onTogglePin(thread)} hitSlop={8} accessibilityLabel={thread.pinned ? 'Unpin' : 'Pin'}>
+            <Icon name={thread.pinned ? 'pin-off-outline' : 'pin-outline'} size={18} color={theme.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => startRename(thread)} hitSlop={8} accessibilityLabel="Rename">
+            <Icon name="pencil-outline" size={18} color={theme.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => onDelete(thread)} hitSlop={8} accessibilityLabel="Delete">
+            <Icon name="trash-can-outline" size={18} color={theme.error} />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Conversations</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Icon name="close" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.toolbar}>
+            <View style={[styles.searchBox, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              <Icon name="magnify" size={18} color={theme.textSecondary} />
+              <TextInput
+                style={[styles.searchInput, { color: theme.text }]}
+                placeholder="Search conversations"
+                placeholderTextColor={theme.textTertiary}
+                value={search}
+                onChangeText={setSearch}
+              />
+            </View>
+            <TouchableOpacity
+              style={[styles.newButton, { backgroundColor: theme.primary }]}
+              onPress={onNewThread}
+              accessibilityLabel="New conversation"
+            >
+              <Icon name="plus" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent} keyboardShouldPersistTaps="handled">
+            {loading && threads.length === 0 ? (
+              <ActivityIndicator size="small" color={theme.primary} style={styles.loading} />
+            ) : filteredThreads.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                {search.trim() ? 'No conversations match your search' : 'No saved conversations yet'}
+              </Text>
+            ) : (
+              filteredThreads.map(renderThread)
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    height: '75%',
+    paddingBottom: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    paddingHorizontal: spacing.sm,
+    gap: spacing.xs,
+  },
+  searchInput: {
+    flex: 1,
+    ...typography.bodyMedium,
+    paddingVertical: spacing.sm,
+  },
+  newButton: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  loading: {
+    marginTop: spacing.lg,
+  },
+  emptyText: {
+    ...typography.bodyMedium,
+    textAlign: 'center',
+    marginTop: spacing.lg,
+  },
+  threadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.md,
+  },
+  threadInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  threadTitle: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  threadPreview: {
+    ...typography.bodySmall,
+  },
+  threadDate: {
+    ...typography.caption,
+  },
+  renameInput: {
+    ...typography.bodyMedium,
+    borderBottomWidth: 1,
+    paddingVertical: 2,
+  },
+  threadActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+});
+
+export default AIThreadListModal;
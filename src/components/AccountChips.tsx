@@ -0,0 +1,101 @@
+/**
+ * AccountChips Component
+ * Purpose: Pick one of the user's accounts (forms, filters, balance history)
+ * Features: Horizontally scrolling chips with account type icons, optional "All accounts" chip
+ */
+
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { Account } from '../types';
+import { getAccountIcon } from '../services/accountService';
+import { typography, spacing, borderRadius } from '../theme';
+
+interface AccountChipsProps {
+  accounts: Account[];
+  selectedAccountId: string | null;
+  onSelect: (accountId: string | null) => void;
+  allLabel?: string; // Shows a leading chip that selects null
+  excludeAccountId?: string | null; // e.g. the "from" account of a transfer
+}
+
+/**
+ * AccountChips - Single-select row of account chips
+ */
+export const AccountChips: React.FC<AccountChipsProps> = ({
+  accounts,
+  selectedAccountId,
+  onSelect,
+  allLabel,
+  excludeAccountId,
+}) => {
+  const { theme } = useTheme();
+
+  const renderChip = (key: string, label: string, icon: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.primary + '20' : theme.background,
+          borderColor: selected ? theme.primary : theme.border,
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Icon name={icon as any} size={16} color={selected ? theme.primary : theme.textSecondary} />
+      <Text
+        style={[styles.chipText, { color: selected ? theme.primary : theme.textSecondary }]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+      keyboardShouldPersistTaps="handled"
+    >
+      {allLabel && renderChip('all', allLabel, 'wallet', selectedAccountId === null, () => onSelect(null))}
+      {accounts
+        .filter((account) => !account.isArchived && account.id !== excludeAccountId)
+        .map((account) =>
+          renderChip(
+            account.id,
+            account.name,
+            getAccountIcon(account.type),
+            selectedAccountId === account.id,
+            () => onSelect(account.id)
+          )
+        )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    gap: spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    maxWidth: 180,
+  },
+  chipText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+});
+
+export default AccountChips;
@@ -0,0 +1,326 @@
+/**
+ * BulkEditModal Component
+ * Purpose: Pick the change to apply to the transactions selected in the list
+ * Features: Category, tags (add or remove each), payment method and date shift modes
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { BulkChange } from '../services/bulkEditService';
+import { Category, PaymentMethod, Tag } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+export type BulkEditMode = BulkChange['kind'];
+
+type TagAction = 'add' | 'remove';
+
+const MODE_TITLES: Record<BulkEditMode, string> = {
+  category: 'Change Category',
+  tags: 'Edit Tags',
+  paymentMethod: 'Change Payment Method',
+  shiftDate: 'Shift Dates',
+};
+
+const SHIFT_STEPS = [-7, -1, 1, 7];
+
+interface BulkEditModalProps {
+  mode: BulkEditMode | null; // null hides the modal
+  selectedCount: number;
+  categories: Category[];
+  tags: Tag[];
+  paymentMethods: Array<{ id: PaymentMethod; name: string; icon: string }>;
+  onApply: (change: BulkChange) => void;
+  onClose: () => void;
+}
+
+/**
+ * BulkEditModal - Choose one change for every selected transaction
+ */
+export const BulkEditModal: React.FC<BulkEditModalProps> = ({
+  mode,
+  selectedCount,
+  categories,
+  tags,
+  paymentMethods,
+  onApply,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [tagActions, setTagActions] = useState<Record<string, TagAction>>({});
+  const [shiftDays, setShiftDays] = useState(0);
+
+  // Start every opening from a clean slate
+  useEffect(() => {
+    setTagActions({});
+    setShiftDays(0);
+  }, [mode]);
+
+  const cycleTagAction = (tagId: string) => {
+    setTagActions((prev) => {
+      const next = { ...prev };
+      if (!prev[tagId]) next[tagId] = 'add';
+      else if (prev[tagId] === 'add') next[tagId] = 'remove';
+      else delete next[tagId];
+      return next;
+    });
+  };
+
+  const applyTags = () => {
+    const entries = Object.entries(tagActions);
+    onApply({
+      kind: 'tags',
+      addTagIds: entries.filter(([, action]) => action === 'add').map(([id]) => id),
+      removeTagIds: entries.filter(([, action]) => action === 'remove').map(([id]) => id),
+    });
+  };
+
+  const renderOption = (key: string, icon: string, color: string, label: string, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, { backgroundColor: theme.card, borderColor: theme.border }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.optionIcon, { backgroundColor: color + '20' }]}>
+        <Icon name={icon as any} size={18} color={color} />
+      </View>
+      <Text style={[styles.optionText, { color: theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderContent = () => {
+    switch (mode) {
+      case 'category':
+        return categories.map((category) =>
+          renderOption(category.id, category.icon, category.color, category.name, () =>
+            onApply({ kind: 'category', categoryId: category.id })
+          )
+        );
+      case 'paymentMethod':
+        return paymentMethods.map((method) =>
+          renderOption(method.id, method.icon, theme.primary, method.name, () =>
+            onApply({ kind: 'paymentMethod', paymentMethod: method.id })
+          )
+        );
+      case 'tags':
+        return (
+          <>
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              Tap a tag to add it, tap again to remove it from the selection.
+            </Text>
+            <View style={styles.tagGrid}>
+              {tags.map((tag) => {
+                const action = tagActions[tag.id];
+                const color = action === 'remove' ? theme.error : tag.color;
+                return (
+                  <TouchableOpacity
+                    key={tag.id}
+                    style={[
+                      styles.tagChip,
+                      {
+                        backgroundColor: action ? color + '20' : theme.card,
+                        borderColor: action ? color : theme.border,
+                      },
+                    ]}
+                    onPress={() => cycleTagAction(tag.id)}
+                  >
+                    {action ? (
+                      <Icon name={action === 'add' ? 'plus' : 'minus'} size={12} color={color} />
+                    ) : (
+                      <View style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                    )}
+                    <Text style={[styles.tagText, { color: action ? color : theme.text }]}>{tag.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              style={[styles.applyButton, { backgroundColor: theme.primary, opacity: Object.keys(tagActions).length > 0 ? 1 : 0.5 }]}
+              onPress={applyTags}
+              disabled={Object.keys(tagActions).length === 0}
+            >
+              <Text style={styles.applyButtonText}>Apply to {selectedCount}</Text>
+            </TouchableOpacity>
+          </>
+        );
+      case 'shiftDate':
+        return (
+          <>
+            <Text style={[styles.shiftValue, { color: theme.text }]}>
+              {shiftDays === 0 ? 'No change' : `${shiftDays > 0 ? '+' : ''}${shiftDays} day${Math.abs(shiftDays) === 1 ? '' : 's'}`}
+            </Text>
+            <View style={styles.shiftRow}>
+              {SHIFT_STEPS.map((step) => (
+                <TouchableOpacity
+                  key={step}
+                  style={[styles.shiftButton, { backgroundColor: theme.card, borderColor: theme.border }]}
+                  onPress={() => setShiftDays((prev) => prev + step)}
+                >
+                  <Text style={[styles.shiftButtonText, { color: theme.text }]}>
+                    {step > 0 ? '+' : ''}{step}d
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[styles.applyButton, { backgroundColor: theme.primary, opacity: shiftDays !== 0 ? 1 : 0.5 }]}
+              onPress={() => onApply({ kind: 'shiftDate', days: shiftDays })}
+              disabled={shiftDays === 0}
+            >
+              <Text style={styles.applyButtonText}>Apply to {selectedCount}</Text>
+            </TouchableOpacity>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Modal animationType="slide" transparent visible={mode !== null} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+            <View>
+              <Text style={[styles.modalTitle, { color: theme.text }]}>{mode ? MODE_TITLES[mode] : ''}</Text>
+              <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+                {selectedCount} selected
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Icon name="close" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+            {renderContent()}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '75%',
+    paddingBottom: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+  },
+  subtitle: {
+    ...typography.bodySmall,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.md,
+  },
+  optionIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+  },
+  hint: {
+    ...typography.bodySmall,
+  },
+  tagGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    gap: spacing.xs,
+  },
+  tagDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  tagText: {
+    ...typography.labelMedium,
+  },
+  shiftValue: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginVertical: spacing.sm,
+  },
+  shiftRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  shiftButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    minWidth: 56,
+    alignItems: 'center',
+  },
+  shiftButtonText: {
+    ...typography.labelLarge,
+    fontWeight: '600',
+  },
+  applyButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default BulkEditModal;
@@ -0,0 +1,518 @@
+/**
+ * CSVMappingModal Component
+ * Purpose: Column-mapping step for generic CSV imports (Excel / Google Sheets / bank exports)
+ * Features: Column pickers, date/decimal format options, row preview with validation errors,
+ * reusable mapping presets
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+} from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../contexts/ThemeContext';
+import { NormalizedTransaction } from '../services/csvImportService';
+import {
+  CSVMappedField,
+  CSVMappingOptions,
+  CSVMappingPreset,
+  DATE_FORMATS,
+  FIELD_LABELS,
+  REQUIRED_FIELDS,
+  detectMappingOptions,
+  findPresetForHeaders,
+  getMappingPresets,
+  saveMappingPreset,
+  deleteMappingPreset,
+  getMissingRequiredFields,
+  mapCSVRows,
+} from '../services/csvMappingService';
+import { ParsedCSV } from '../utils/csvParser';
+import { logger } from '../utils/logger';
+import { typography, spacing, borderRadius } from '../theme';
+
+const PREVIEW_ROWS = 5;
+const VALIDATION_PREVIEW_ROWS = 50;
+
+const MAPPED_FIELDS: CSVMappedField[] = ['date', 'amount', 'description', 'category', 'type', 'currency', 'tags'];
+
+interface CSVMappingModalProps {
+  visible: boolean;
+  csv: ParsedCSV | null;
+  defaultCurrency: string;
+  onConfirm: (transactions: NormalizedTransaction[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * CSVMappingModal - Map CSV columns to transaction fields and preview the result
+ */
+export const CSVMappingModal: React.FC<CSVMappingModalProps> = ({
+  visible,
+  csv,
+  defaultCurrency,
+  onConfirm,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [options, setOptions] = useState<CSVMappingOptions | null>(null);
+  const [presets, setPresets] = useState<CSVMappingPreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [showSavePreset, setShowSavePreset] = useState(false);
+
+  // Detect options for a newly selected file, preferring a preset saved for the same headers
+  useEffect(() => {
+    if (!csv) return;
+
+    let cancelled = false;
+    (async () => {
+      const savedPresets = await getMappingPresets();
+      if (cancelled) return;
+
+      setPresets(savedPresets);
+      const preset = findPresetForHeaders(savedPresets, csv.headers);
+      if (preset) {
+        setOptions({ ...preset, defaultCurrency });
+        setActivePresetId(preset.id);
+      } else {
+        setOptions(detectMappingOptions(csv, defaultCurrency));
+        setActivePresetId(null);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [csv, defaultCurrency]);
+
+  const fullResult = useMemo(
+    () => (csv && options ? mapCSVRows(csv, options) : null),
+    [csv, options]
+  );
+  const previewResult = useMemo(
+    () => (csv && options ? mapCSVRows(csv, options, VALIDATION_PREVIEW_ROWS) : null),
+    [csv, options]
+  );
+  const missingFields = options ? getMissingRequiredFields(options.mapping) : REQUIRED_FIELDS;
+
+  const updateOptions = useCallback((changes: Partial<CSVMappingOptions>) => {
+    setOptions((prev) => (prev ? { ...prev, ...changes } : prev));
+    setActivePresetId(null);
+  }, []);
+
+  const setFieldColumn = (field: CSVMappedField, header?: string) => {
+    if (!options) return;
+    Haptics.selectionAsync();
+    updateOptions({ mapping: { ...options.mapping, [field]: header } });
+  };
+
+  const applyPreset = (preset: CSVMappingPreset) => {
+    Haptics.selectionAsync();
+    setOptions({ ...preset, defaultCurrency });
+    setActivePresetId(preset.id);
+  };
+
+  const handleSavePreset = async () => {
+    if (!csv || !options || !presetName.trim()) return;
+    try {
+      const saved = await saveMappingPreset({
+        name: presetName,
+        headers: csv.headers,
+        delimiter: csv.delimiter,
+        mapping: options.mapping,
+        dateFormat: options.dateFormat,
+        decimalSeparator: options.decimalSeparator,
+        positiveAmountType: options.positiveAmountType,
+      });
+      setPresets(await getMappingPresets());
+      setActivePresetId(saved.id);
+      setPresetName('');
+      setShowSavePreset(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      logger.error('[CSVMappingModal] Failed to save preset:', error);
+    }
+  };
+
+  const handleDeletePreset = async (preset: CSVMappingPreset) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    await deleteMappingPreset(preset.id);
+    setPresets((prev) => prev.filter((p) => p.id !== preset.id));
+    if (activePresetId === preset.id) setActivePresetId(null);
+  };
+
+  const handleConfirm = () => {
+    if (!fullResult || missingFields.length > 0 || fullResult.transactions.length === 0) return;
+    onConfirm(fullResult.transactions);
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key?: string) => (
+    <TouchableOpacity
+      key={key ?? label}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.primary + '20' : theme.card,
+          borderColor: selected ? theme.primary : theme.border,
+        },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text
+        style={[styles.chipText, { color: selected ? theme.primary : theme.textSecondary }]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const validCount = fullResult?.transactions.length ?? 0;
+  const errorCount = fullResult?.rowErrors.length ?? 0;
+  const canImport = missingFields.length === 0 && validCount > 0;
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Map Columns</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Icon name="close" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {csv && options && (
+            <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+              {/* Presets */}
+              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>PRESETS</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                {presets.map((preset) => (
+                  <TouchableOpacity
+                    key={preset.id}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor: activePresetId === preset.id ? theme.primary + '20' : theme.card,
+                        borderColor: activePresetId === preset.id ? theme.primary : theme.border,
+                      },
+                    ]}
+                    onPress={() => applyPreset(preset)}
+                    onLongPress={() => handleDeletePreset(preset)}
+                    activeOpacity={0.7}
+                  >
+                    <Icon
+                      name="bookmark-outline"
+                      size={14}
+                      color={activePresetId === preset.id ? theme.primary : theme.textSecondary}
+                    />
+                    <Text
+                      style={[
+                        styles.chipText,
+                        { color: activePresetId === preset.id ? theme.primary : theme.textSecondary },
+                      ]}
+                    >
+                      {preset.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={[styles.chip, { borderColor: theme.border, borderStyle: 'dashed' }]}
+                  onPress={() => setShowSavePreset((prev) => !prev)}
+                  activeOpacity={0.7}
+                >
+                  <Icon name="content-save-outline" size={14} color={theme.primary} />
+                  <Text style={[styles.chipText, { color: theme.primary }]}>Save mapping</Text>
+                </TouchableOpacity>
+              </ScrollView>
+              {presets.length > 0 && (
+                <Text style={[styles.hint, { color: theme.textTertiary }]}>Long-press a preset to delete it</Text>
+              )}
+              {showSavePreset && (
+                <View style={[styles.presetInputRow, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                  <TextInput
+                    style={[styles.presetInput, { color: theme.text }]}
+                    placeholder="Preset name (e.g. My Bank)"
+                    placeholderTextColor={theme.textTertiary}
+                    value={presetName}
+                    onChangeText={setPresetName}
+                    autoFocus
+                  />
+                  <TouchableOpacity onPress={handleSavePreset} disabled={!presetName.trim()}>
+                    <Icon
+                      name="check"
+                      size={22}
+                      color={presetName.trim() ? theme.primary : theme.textTertiary}
+                    />
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {/* Column mapping */}
+              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>COLUMNS</Text>
+              {MAPPED_FIELDS.map((field) => (
+                <View key={field} style={styles.fieldRow}>
+                  <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                    {FIELD_LABELS[field]}
+                    {REQUIRED_FIELDS.includes(field) && <Text style={{ color: theme.error }}> *</Text>}
+                  </Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                    {!REQUIRED_FIELDS.includes(field) &&
+                      renderChip('None', !options.mapping[field], () => setFieldColumn(field, undefined), '__none')}
+                    {csv.headers.map((header, index) =>
+                      renderChip(
+                        header || `Column ${index + 1}`,
+                        options.mapping[field] === header,
+                        () => setFieldColumn(field, header),
+                        `${field}-${index}`
+                      )
+                    )}
+                  </ScrollView>
+                </View>
+              ))}
+
+              {/* Formats */}
+              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>FORMATS</Text>
+              <View style={styles.fieldRow}>
+                <Text style={[styles.fieldLabel, { color: theme.text }]}>Date format</Text>
+                <View style={styles.chipRow}>
+                  {DATE_FORMATS.map((format) =>
+                    renderChip(format, options.dateFormat === format, () => updateOptions({ dateFormat: format }))
+                  )}
+                </View>
+              </View>
+              <View style={styles.fieldRow}>
+                <Text style={[styles.fieldLabel, { color: theme.text }]}>Decimal separator</Text>
+                <View style={styles.chipRow}>
+                  {renderChip('1,234.56', options.decimalSeparator === '.', () => updateOptions({ decimalSeparator: '.' }))}
+                  {renderChip('1.234,56', options.decimalSeparator === ',', () => updateOptions({ decimalSeparator: ',' }))}
+                </View>
+              </View>
+              {!options.mapping.type && (
+                <View style={styles.fieldRow}>
+                  <Text style={[styles.fieldLabel, { color: theme.text }]}>Positive amounts are</Text>
+                  <View style={styles.chipRow}>
+                    {renderChip('Expenses', options.positiveAmountType === 'expense', () =>
+                      updateOptions({ positiveAmountType: 'expense' })
+                    )}
+                    {renderChip('Income', options.positiveAmountType === 'income', () =>
+                      updateOptions({ positiveAmountType: 'income' })
+                    )}
+                  </View>
+                </View>
+              )}
+
+              {/* Preview */}
+              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>PREVIEW</Text>
+              {missingFields.length > 0 ? (
+                <Text style={[styles.hint, { color: theme.warning }]}>
+                  Select a column for: {missingFields.map((f) => FIELD_LABELS[f]).join(', ')}
+                </Text>
+              ) : (
+                <>
+                  {previewResult?.transactions.slice(0, PREVIEW_ROWS).map((tx, index) => (
+                    <View
+                      key={index}
+                      style={[styles.previewRow, { backgroundColor: theme.card, borderColor: theme.border }]}
+                    >
+                      <View style={styles.previewInfo}>
+                        <Text style={[styles.previewDescription, { color: theme.text }]} numberOfLines={1}>
+                          {tx.description}
+                        </Text>
+                        <Text style={[styles.previewMeta, { color: theme.textSecondary }]} numberOfLines={1}>
+                          {tx.date}
+                          {tx.category ? ` · ${tx.category}` : ''}
+                          {tx.tags.length > 0 ? ` · ${tx.tags.join(', ')}` : ''}
+                        </Text>
+                      </View>
+                      <Text
+                        style={[
+                          styles.previewAmount,
+                          { color: tx.type === 'expense' ? theme.expense : theme.income },
+                        ]}
+                      >
+                        {tx.type === 'expense' ? '-' : '+'}
+                        {tx.amount.toFixed(2)} {tx.currency}
+                      </Text>
+                    </View>
+                  ))}
+
+                  {previewResult && previewResult.rowErrors.length > 0 && (
+                    <View style={[styles.errorCard, { backgroundColor: theme.error + '10', borderColor: theme.error + '40' }]}>
+                      {previewResult.rowErrors.slice(0, PREVIEW_ROWS).map((rowError) => (
+                        <Text key={rowError.row} style={[styles.errorText, { color: theme.error }]}>
+                          Row {rowError.row}: {rowError.errors.join(', ')}
+                        </Text>
+                      ))}
+                    </View>
+                  )}
+
+                  <Text style={[styles.hint, { color: theme.textSecondary }]}>
+                    {validCount} valid row{validCount === 1 ? '' : 's'}
+                    {errorCount > 0 ? `, ${errorCount} will be skipped` : ''}
+                  </Text>
+                </>
+              )}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity
+            style={[styles.confirmButton, { backgroundColor: canImport ? theme.primary : theme.border }]}
+            onPress={handleConfirm}
+            disabled={!canImport}
+            activeOpacity={0.8}
+          >
+            <Icon name="file-import" size={20} color="#FFFFFF" />
+            <Text style={styles.confirmButtonText}>
+              Import {validCount} transaction{validCount === 1 ? '' : 's'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '90%',
+    minHeight: 400,
+    paddingBottom: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flexGrow: 0,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  sectionTitle: {
+    ...typography.labelMedium,
+    letterSpacing: 1,
+    fontWeight: '600',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'nowrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    maxWidth: 180,
+  },
+  chipText: {
+    ...typography.labelMedium,
+  },
+  hint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  presetInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  presetInput: {
+    flex: 1,
+    ...typography.bodyMedium,
+    paddingVertical: spacing.sm,
+  },
+  fieldRow: {
+    marginBottom: spacing.md,
+    gap: spacing.xs,
+  },
+  fieldLabel: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    marginBottom: spacing.xs,
+    gap: spacing.sm,
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewDescription: {
+    ...typography.bodyMedium,
+    fontWeight: '500',
+  },
+  previewMeta: {
+    ...typography.bodySmall,
+  },
+  previewAmount: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+  },
+  errorCard: {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    marginTop: spacing.xs,
+    gap: 2,
+  },
+  errorText: {
+    ...typography.bodySmall,
+  },
+  confirmButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+  },
+  confirmButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default CSVMappingModal;
@@ -0,0 +1,286 @@
+/**
+ * CategoryMappingModal Component
+ * Purpose: Map categories from another app's export onto Finly categories before import
+ * Features: Per-category create/merge choice, merge target picker, row counts
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../contexts/ThemeContext';
+import { CategoryPickerModal } from './CategoryPickerModal';
+import {
+  CategoryMappingDecision,
+  suggestCategoryDecisions,
+} from '../services/importProfileService';
+import { Category } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+interface CategoryMappingModalProps {
+  visible: boolean;
+  sourceName: string;
+  sourceCategories: Array<{ name: string; count: number }>;
+  categories: Category[];
+  isSubmitting?: boolean;
+  onConfirm: (decisions: Record<string, CategoryMappingDecision>) => void;
+  onClose: () => void;
+}
+
+/**
+ * CategoryMappingModal - Choose, per source category, to create it or merge into an existing one
+ */
+export const CategoryMappingModal: React.FC<CategoryMappingModalProps> = ({
+  visible,
+  sourceName,
+  sourceCategories,
+  categories,
+  isSubmitting = false,
+  onConfirm,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [decisions, setDecisions] = useState<Record<string, CategoryMappingDecision>>({});
+  const [pickerFor, setPickerFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setDecisions(suggestCategoryDecisions(sourceCategories, categories));
+    }
+  }, [visible, sourceCategories, categories]);
+
+  const setDecision = (name: string, decision: CategoryMappingDecision) => {
+    Haptics.selectionAsync();
+    setDecisions((prev) => ({ ...prev, [name]: decision }));
+  };
+
+  const createCount = Object.values(decisions).filter((d) => d.action === 'create').length;
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Map Categories</Text>
+            <TouchableOpacity onPress={onClose} disabled={isSubmitting}>
+              <Icon name="close" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Choose how each {sourceName} category should appear in Finly.
+          </Text>
+
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+            {sourceCategories.map(({ name, count }) => {
+              const decision = decisions[name];
+              const mergeTarget = decision?.action === 'merge'
+                ? categories.find((c) => c.id === decision.categoryId)
+                : undefined;
+
+              return (
+                <View
+                  key={name}
+                  style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}
+                >
+                  <View style={styles.rowHeader}>
+                    <Text style={[styles.sourceName, { color: theme.text }]} numberOfLines={1}>
+                      {name}
+                    </Text>
+                    <Text style={[styles.count, { color: theme.textTertiary }]}>
+                      {count} row{count === 1 ? '' : 's'}
+                    </Text>
+                  </View>
+
+                  <View style={styles.actions}>
+                    <TouchableOpacity
+                      style={[
+                        styles.actionChip,
+                        {
+                          backgroundColor: decision?.action === 'create' ? theme.primary + '20' : 'transparent',
+                          borderColor: decision?.action === 'create' ? theme.primary : theme.border,
+                        },
+                      ]}
+                      onPress={() => setDecision(name, { action: 'create' })}
+                      activeOpacity={0.7}
+                    >
+                      <Icon
+                        name="plus"
+                        size={14}
+                        color={decision?.action === 'create' ? theme.primary : theme.textSecondary}
+                      />
+                      <Text
+                        style={[
+                          styles.actionText,
+                          { color: decision?.action === 'create' ? theme.primary : theme.textSecondary },
+                        ]}
+                      >
+                        Create
+                      </Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={[
+                        styles.actionChip,
+                        styles.mergeChip,
+                        {
+                          backgroundColor: mergeTarget ? theme.primary + '20' : 'transparent',
+                          borderColor: mergeTarget ? theme.primary : theme.border,
+                        },
+                      ]}
+                      onPress={() => setPickerFor(name)}
+                      activeOpacity={0.7}
+                    >
+                      <Icon
+                        name={(mergeTarget?.icon || 'call-merge') as any}
+                        size={14}
+                        color={mergeTarget ? mergeTarget.color : theme.textSecondary}
+                      />
+                      <Text
+                        style={[styles.actionText, { color: mergeTarget ? theme.primary : theme.textSecondary }]}
+                        numberOfLines={1}
+                      >
+                        {mergeTarget ? `Merge into ${mergeTarget.name}` : 'Merge into…'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.confirmButton, { backgroundColor: theme.primary }]}
+            onPress={() => onConfirm(decisions)}
+            disabled={isSubmitting}
+            activeOpacity={0.8}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.confirmButtonText}>
+                {createCount > 0
+                  ? `Create ${createCount} categor${createCount === 1 ? 'y' : 'ies'} & Import`
+                  : 'Continue Import'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <CategoryPickerModal
+        visible={pickerFor !== null}
+        categories={categories}
+        selectedCategoryId={
+          pickerFor && decisions[pickerFor]?.action === 'merge'
+            ? (decisions[pickerFor] as { categoryId: string }).categoryId
+            : undefined
+        }
+        onSelect={(categoryId) => {
+          if (pickerFor) setDecision(pickerFor, { action: 'merge', categoryId });
+        }}
+        onClose={() => setPickerFor(null)}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '85%',
+    minHeight: 400,
+    paddingBottom: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+  },
+  subtitle: {
+    ...typography.bodyMedium,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  row: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  sourceName: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    flex: 1,
+  },
+  count: {
+    ...typography.bodySmall,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  actionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  mergeChip: {
+    flexShrink: 1,
+  },
+  actionText: {
+    ...typography.labelMedium,
+  },
+  confirmButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+  },
+  confirmButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default CategoryMappingModal;
@@ -0,0 +1,302 @@
+/**
+ * DuplicateReviewModal Component
+ * Purpose: Show likely duplicates side by side before new transactions are saved
+ * Features: New vs existing (or earlier in the same batch) comparison, per-entry keep/skip/merge choice
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { DuplicateAction, DuplicateMatch } from '../services/duplicateDetectionService';
+import { typography, spacing, borderRadius } from '../theme';
+
+interface DuplicateReviewModalProps {
+  visible: boolean;
+  matches: DuplicateMatch[];
+  onConfirm: (actions: Record<number, DuplicateAction>) => void;
+  onClose: () => void;
+}
+
+const ACTIONS: Array<{ action: DuplicateAction; label: string; icon: string }> = [
+  { action: 'keep', label: 'Keep both', icon: 'content-copy' },
+  { action: 'skip', label: 'Skip new', icon: 'close-circle-outline' },
+  { action: 'merge', label: 'Merge', icon: 'call-merge' },
+];
+
+const formatShortDate = (date: string | Date): string => {
+  const value = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)
+    ? new Date(`${date}T12:00:00`)
+    : new Date(date);
+  return value.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+/**
+ * DuplicateReviewModal - Decide what to do with each new entry that looks like a duplicate
+ */
+export const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({
+  visible,
+  matches,
+  onConfirm,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { formatCurrency, formatTransactionAmount } = useCurrency();
+  const [actions, setActions] = useState<Record<number, DuplicateAction>>({});
+
+  // Likely duplicates default to being skipped
+  useEffect(() => {
+    if (visible) {
+      setActions(Object.fromEntries(matches.map((match) => [match.index, 'skip' as DuplicateAction])));
+    }
+  }, [visible, matches]);
+
+  const setAction = (index: number, action: DuplicateAction) => {
+    Haptics.selectionAsync();
+    setActions((prev) => ({ ...prev, [index]: action }));
+  };
+
+  const skipCount = Object.values(actions).filter((a) => a !== 'keep').length;
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Possible Duplicates</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Icon name="close" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {matches.length === 1
+              ? 'This transaction looks like a duplicate.'
+              : `${matches.length} transactions look like duplicates.`}
+          </Text>
+
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+            {matches.map((match) => {
+              const selected = actions[match.index];
+              const { candidate, existing, earlier } = match;
+              // Only saved expenses carry notes and tags worth merging
+              const available = existing?.type === 'expense' ? ACTIONS : ACTIONS.filter((a) => a.action !== 'merge');
+
+              return (
+                <View
+                  key={match.index}
+                  style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}
+                >
+                  <View style={styles.comparison}>
+                    <View style={styles.side}>
+                      <Text style={[styles.sideLabel, { color: theme.primary }]}>NEW</Text>
+                      <Text style={[styles.description, { color: theme.text }]} numberOfLines={2}>
+                        {candidate.description}
+                      </Text>
+                      <Text style={[styles.amount, { color: theme.text }]}>
+                        {formatCurrency(candidate.amount)}
+                      </Text>
+                      <Text style={[styles.meta, { color: theme.textTertiary }]}>
+                        {formatShortDate(candidate.date)}
+                      </Text>
+                    </View>
+
+                    <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
+                    {existing ? (
+                      <View style={styles.side}>
+                        <Text style={[styles.sideLabel, { color: theme.textSecondary }]}>EXISTING</Text>
+                        <Text style={[styles.description, { color: theme.text }]} numberOfLines={2}>
+                          {existing.description}
+                        </Text>
+                        <Text style={[styles.amount, { color: theme.text }]}>
+                          {formatTransactionAmount(existing.amount, existing.originalAmount, existing.originalCurrency)}
+                        </Text>
+                        <Text style={[styles.meta, { color: theme.textTertiary }]} numberOfLines={1}>
+                          {formatShortDate(existing.date)}
+                          {existing.category ? ` · ${existing.category.name}` : ''}
+                        </Text>
+                      </View>
+                    ) : earlier ? (
+                      <View style={styles.side}>
+                        <Text style={[styles.sideLabel, { color: theme.textSecondary }]}>ALSO IN THIS BATCH</Text>
+                        <Text style={[styles.description, { color: theme.text }]} numberOfLines={2}>
+                          {earlier.description}
+                        </Text>
+                        <Text style={[styles.amount, { color: theme.text }]}>
+                          {formatCurrency(earlier.amount)}
+                        </Text>
+                        <Text style={[styles.meta, { color: theme.textTertiary }]}>
+                          {formatShortDate(earlier.date)}
+                        </Text>
+                      </View>
+                    ) : null}
+                  </View>
+
+                  <Text style={[styles.similarity, { color: theme.textTertiary }]}>
+                    {Math.round(match.score * 100)}% similar description
+                  </Text>
+
+                  <View style={styles.actions}>
+                    {available.map(({ action, label, icon }) => {
+                      const isSelected = selected === action;
+                      return (
+                        <TouchableOpacity
+                          key={action}
+                          style={[
+                            styles.actionChip,
+                            {
+                              backgroundColor: isSelected ? theme.primary + '20' : 'transparent',
+                              borderColor: isSelected ? theme.primary : theme.border,
+                            },
+                          ]}
+                          onPress={() => setAction(match.index, action)}
+                          activeOpacity={0.7}
+                        >
+                          <Icon
+                            name={icon as any}
+                            size={14}
+                            color={isSelected ? theme.primary : theme.textSecondary}
+                          />
+                          <Text
+                            style={[styles.actionText, { color: isSelected ? theme.primary : theme.textSecondary }]}
+                          >
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.confirmButton, { backgroundColor: theme.primary }]}
+            onPress={() => onConfirm(actions)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.confirmButtonText}>
+              {skipCount > 0 ? `Continue without ${skipCount} duplicate${skipCount === 1 ? '' : 's'}` : 'Save All'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '85%',
+    minHeight: 400,
+    paddingBottom: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+  },
+  subtitle: {
+    ...typography.bodyMedium,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  row: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  comparison: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  side: {
+    flex: 1,
+    gap: 2,
+  },
+  divider: {
+    width: 1,
+  },
+  sideLabel: {
+    ...typography.labelSmall,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+  description: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+  },
+  amount: {
+    ...typography.bodyMedium,
+  },
+  meta: {
+    ...typography.bodySmall,
+  },
+  similarity: {
+    ...typography.bodySmall,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  actionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  actionText: {
+    ...typography.labelMedium,
+  },
+  confirmButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+  },
+  confirmButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default DuplicateReviewModal;
@@ -0,0 +1,218 @@
+/**
+ * DuplicateScanModal Component
+ * Purpose: List likely duplicate pairs found in existing history
+ * Features: Side-by-side pair comparison, delete either copy, mark as not a duplicate
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { DuplicatePair } from '../services/duplicateDetectionService';
+import { UnifiedTransaction } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+interface DuplicateScanModalProps {
+  visible: boolean;
+  loading: boolean;
+  pairs: DuplicatePair[];
+  onDelete: (transaction: UnifiedTransaction, pair: DuplicatePair) => void;
+  onIgnore: (pair: DuplicatePair) => void;
+  onClose: () => void;
+}
+
+/**
+ * DuplicateScanModal - Review duplicate pairs and clean them up
+ */
+export const DuplicateScanModal: React.FC<DuplicateScanModalProps> = ({
+  visible,
+  loading,
+  pairs,
+  onDelete,
+  onIgnore,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { formatTransactionAmount } = useCurrency();
+
+  const renderSide = (transaction: UnifiedTransaction, pair: DuplicatePair) => (
+    <View style={styles.side}>
+      <Text style={[styles.description, { color: theme.text }]} numberOfLines={2}>
+        {transaction.description}
+      </Text>
+      <Text style={[styles.amount, { color: transaction.type === 'income' ? theme.income : theme.expense }]}>
+        {formatTransactionAmount(transaction.amount, transaction.originalAmount, transaction.originalCurrency)}
+      </Text>
+      <Text style={[styles.meta, { color: theme.textTertiary }]} numberOfLines={1}>
+        {new Date(transaction.date).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' })}
+        {transaction.category ? ` · ${transaction.category.name}` : ''}
+      </Text>
+      <TouchableOpacity
+        style={[styles.deleteButton, { borderColor: theme.error }]}
+        onPress={() => onDelete(transaction, pair)}
+        activeOpacity={0.7}
+      >
+        <Icon name="delete-outline" size={14} color={theme.error} />
+        <Text style={[styles.actionText, { color: theme.error }]}>Delete</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Find Duplicates</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Icon name="close" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color={theme.primary} />
+              <Text style={[styles.subtitle, { color: theme.textSecondary }]}>Scanning your transactions…</Text>
+            </View>
+          ) : pairs.length === 0 ? (
+            <View style={styles.centered}>
+              <Icon name="check-circle-outline" size={48} color={theme.success} />
+              <Text style={[styles.subtitle, { color: theme.textSecondary }]}>No likely duplicates found.</Text>
+            </View>
+          ) : (
+            <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+              <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+                {pairs.length} possible duplicate{pairs.length === 1 ? '' : 's'} in your recent history.
+              </Text>
+              {pairs.map((pair) => (
+                <View
+                  key={pair.id}
+                  style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}
+                >
+                  <View style={styles.comparison}>
+                    {renderSide(pair.first, pair)}
+                    <View style={[styles.divider, { backgroundColor: theme.border }]} />
+                    {renderSide(pair.second, pair)}
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.ignoreButton, { borderColor: theme.border }]}
+                    onPress={() => onIgnore(pair)}
+                    activeOpacity={0.7}
+                  >
+                    <Icon name="check" size={14} color={theme.textSecondary} />
+                    <Text style={[styles.actionText, { color: theme.textSecondary }]}>Not a duplicate</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '85%',
+    minHeight: 400,
+    paddingBottom: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.md,
+    padding: spacing.xl,
+  },
+  subtitle: {
+    ...typography.bodyMedium,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  row: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  comparison: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  side: {
+    flex: 1,
+    gap: 2,
+  },
+  divider: {
+    width: 1,
+  },
+  description: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+  },
+  amount: {
+    ...typography.bodyMedium,
+  },
+  meta: {
+    ...typography.bodySmall,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  ignoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  actionText: {
+    ...typography.labelMedium,
+  },
+});
+
+export default DuplicateScanModal;
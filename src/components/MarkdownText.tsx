@@ -1,170 +1,311 @@
 /**
  * MarkdownText Component
- * Purpose: Parse and render markdown text (bold, italic, etc.) in React Native
- * Features: Supports **bold**, *italic*, `code`, and line breaks
+ * Purpose: Render markdown answers from Finly AI in React Native
+ * Features: Headings, paragraphs, bullet/numbered (nested) lists, tables, fenced code, rules,
+ * **bold**, *italic*, ~~strike~~, `code`, links, and ```finly-chart data blocks drawn with
+ * CategoryBarChart / SpendingChart
  */
 
-import React from 'react';
-import { Text, StyleSheet, TextStyle } from 'react-native';
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextStyle,
+  ScrollView,
+  Linking,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
 import { useTheme } from '../contexts/ThemeContext';
+import { CategoryBarChart, SpendingChart } from './charts';
+import {
+  parseMarkdownBlocks,
+  parseInline,
+  isSafeLink,
+  InlineNode,
+  MarkdownBlock,
+  ChartBlockData,
+  TableAlign,
+} from '../utils/markdownParser';
+import { typography, spacing, borderRadius } from '../theme';
 
 interface MarkdownTextProps {
   children: string;
   style?: TextStyle | TextStyle[];
+  contentWidth?: number; // Width available to tables and charts (defaults to the screen width)
 }
 
-const MarkdownText: React.FC<MarkdownTextProps> = ({ children, style }) => {
-  const { theme } = useTheme();
+const MONOSPACE = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
 
-  /**
-   * Parse markdown and return React Native Text components
-   */
-  const parseMarkdown = (text: string): React.ReactNode[] => {
-    const parts: React.ReactNode[] = [];
-    let currentIndex = 0;
-    let key = 0;
-
-    // Regex patterns for markdown
-    const patterns = [
-      { regex: /\*\*(.*?)\*\*/g, type: 'bold' }, // **bold**
-      { regex: /\*(.*?)\*/g, type: 'italic' }, // *italic* (but not **)
-      { regex: /`(.*?)`/g, type: 'code' }, // `code`
-    ];
-
-    // Find all markdown matches with their positions
-    const matches: Array<{
-      start: number;
-      end: number;
-      type: string;
-      content: string;
-      original: string;
-    }> = [];
-
-    patterns.forEach(({ regex, type }) => {
-      let match;
-      regex.lastIndex = 0; // Reset regex
-      while ((match = regex.exec(text)) !== null) {
-        // Skip if it's ** and we're looking for * (to avoid double matching)
-        if (type === 'italic' && match[0].startsWith('**')) {
-          continue;
-        }
-        matches.push({
-          start: match.index,
-          end: match.index + match[0].length,
-          type,
-          content: match[1],
-          original: match[0],
-        });
-      }
-    });
+// Smaller headings keep the body size and are only bolded
+const HEADING_STYLES: Record<number, TextStyle> = {
+  1: typography.titleLarge,
+  2: typography.titleMedium,
+};
 
-    // Sort matches by position
-    matches.sort((a, b) => a.start - b.start);
-
-    // Remove overlapping matches (prefer bold over italic)
-    const filteredMatches: typeof matches = [];
-    for (let i = 0; i < matches.length; i++) {
-      const current = matches[i];
-      let overlaps = false;
-      for (let j = 0; j < filteredMatches.length; j++) {
-        const existing = filteredMatches[j];
-        if (
-          (current.start >= existing.start && current.start < existing.end) ||
-          (current.end > existing.start && current.end <= existing.end) ||
-          (current.start <= existing.start && current.end >= existing.end)
-        ) {
-          overlaps = true;
-          // Prefer bold over italic
-          if (current.type === 'bold' && existing.type === 'italic') {
-            filteredMatches[j] = current;
-          }
-          break;
-        }
-      }
-      if (!overlaps) {
-        filteredMatches.push(current);
-      }
-    }
+// Table columns are sized from their longest cell, within these bounds
+const MIN_COLUMN_WIDTH = 64;
+const MAX_COLUMN_WIDTH = 200;
+const CHAR_WIDTH = 7.5;
 
-    // Build text parts
-    let lastIndex = 0;
-    filteredMatches.forEach((match) => {
-      // Add text before match
-      if (match.start > lastIndex) {
-        const beforeText = text.substring(lastIndex, match.start);
-        if (beforeText) {
-          parts.push(
-            <Text key={`text-${key++}`} style={Array.isArray(style) ? style : style}>
-              {beforeText}
+const CHART_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EC4899', '#8B5CF6', '#EF4444', '#6366F1', '#14B8A6'];
+
+const TEXT_ALIGN: Record<TableAlign, TextStyle['textAlign']> = {
+  left: 'left',
+  center: 'center',
+  right: 'right',
+};
+
+const MarkdownText: React.FC<MarkdownTextProps> = ({ children, style, contentWidth }) => {
+  const { theme } = useTheme();
+  const { width: windowWidth } = useWindowDimensions();
+  const availableWidth = contentWidth ?? windowWidth - spacing.md * 2;
+
+  const blocks = useMemo(() => parseMarkdownBlocks(children), [children]);
+  const baseStyle = StyleSheet.flatten(style) || {};
+
+  const renderInline = (nodes: InlineNode[], keyPrefix: string): React.ReactNode[] =>
+    nodes.map((node, index) => {
+      const key = `${keyPrefix}-${index}`;
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+        case 'code':
+          return (
+            <Text
+              key={key}
+              style={[styles.inlineCode, { backgroundColor: theme.border + '40' }]}
+            >
+              {node.text}
+            </Text>
+          );
+        case 'bold':
+          return <Text key={key} style={styles.bold}>{renderInline(node.children, key)}</Text>;
+        case 'italic':
+          return <Text key={key} style={styles.italic}>{renderInline(node.children, key)}</Text>;
+        case 'strike':
+          return <Text key={key} style={styles.strike}>{renderInline(node.children, key)}</Text>;
+        case 'link':
+          return (
+            <Text
+              key={key}
+              style={[styles.link, { color: theme.primary }]}
+              onPress={isSafeLink(node.url) ? () => Linking.openURL(node.url).catch(() => {}) : undefined}
+            >
+              {renderInline(node.children, key)}
             </Text>
           );
-        }
-      }
-
-      // Add styled text
-      const textStyle: TextStyle = {};
-      if (match.type === 'bold') {
-        textStyle.fontWeight = '700';
-      } else if (match.type === 'italic') {
-        textStyle.fontStyle = 'italic';
-      } else if (match.type === 'code') {
-        textStyle.fontFamily = 'monospace';
-        textStyle.backgroundColor = theme.border + '40';
-        textStyle.paddingHorizontal = 4;
-        textStyle.paddingVertical = 2;
-        textStyle.borderRadius = 4;
       }
+    });
 
-      const combinedStyle = Array.isArray(style) ? [...style, textStyle] : [style, textStyle].filter(Boolean);
-      parts.push(
-        <Text key={`${match.type}-${key++}`} style={combinedStyle}>
-          {match.content}
-        </Text>
-      );
-
-      lastIndex = match.end;
+  const renderTable = (block: Extract<MarkdownBlock, { type: 'table' }>, key: string) => {
+    const columnWidths = block.header.map((cell, col) => {
+      const longest = Math.max(cell.length, ...block.rows.map((row) => row[col].length));
+      return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest * CHAR_WIDTH + spacing.md));
     });
 
-    // Add remaining text
-    if (lastIndex < text.length) {
-      const remainingText = text.substring(lastIndex);
-      if (remainingText) {
-        parts.push(
-          <Text key={`text-${key++}`} style={Array.isArray(style) ? style : style}>
-            {remainingText}
+    const renderRow = (cells: string[], rowKey: string, isHeader: boolean, striped: boolean) => (
+      <View
+        key={rowKey}
+        style={[
+          styles.tableRow,
+          { borderBottomColor: theme.border },
+          isHeader && { backgroundColor: theme.border + '40' },
+          striped && { backgroundColor: theme.border + '20' },
+        ]}
+      >
+        {cells.map((cell, col) => (
+          <Text
+            key={`${rowKey}-${col}`}
+            style={[
+              baseStyle,
+              styles.tableCell,
+              { width: columnWidths[col], textAlign: TEXT_ALIGN[block.align[col] || 'left'] },
+              isHeader && styles.bold,
+            ]}
+          >
+            {renderInline(parseInline(cell), `${rowKey}-${col}`)}
           </Text>
-        );
-      }
-    }
+        ))}
+      </View>
+    );
 
-    return parts.length > 0 ? parts : [<Text key="empty" style={Array.isArray(style) ? style : style}>{text}</Text>];
+    return (
+      <ScrollView
+        key={key}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={[styles.table, { borderColor: theme.border, maxWidth: availableWidth }]}
+      >
+        <View>
+          {renderRow(block.header, `${key}-head`, true, false)}
+          {block.rows.map((row, index) => renderRow(row, `${key}-${index}`, false, index % 2 === 1))}
+        </View>
+      </ScrollView>
+    );
   };
 
-  // Split by newlines and render each line
-  const lines = children.split('\n');
-  const renderedLines: React.ReactNode[] = [];
-
-  lines.forEach((line, index) => {
-    const parsed = parseMarkdown(line);
-    renderedLines.push(
-      <Text key={`line-${index}`} style={styles.line}>
-        {parsed}
-      </Text>
+  const renderChart = (chart: ChartBlockData, key: string) => {
+    if (chart.type === 'categoryBreakdown') {
+      return (
+        <View key={key} style={[styles.chart, { width: availableWidth }]}>
+          <CategoryBarChart
+            title={chart.title || 'Spending by Category'}
+            data={chart.data.map((item, index) => ({
+              category: item.category,
+              amount: item.amount,
+              color: item.color || CHART_COLORS[index % CHART_COLORS.length],
+            }))}
+            showLegend={false}
+            width={availableWidth}
+          />
+        </View>
+      );
+    }
+    return (
+      <View key={key} style={[styles.chart, { width: availableWidth }]}>
+        <SpendingChart
+          title={chart.title || 'Spending History'}
+          data={chart.data}
+          timeRange={chart.data.length <= 7 ? 'week' : 'month'}
+          enableRangeSelection={false}
+          width={availableWidth}
+        />
+      </View>
     );
-    // Add line break except for last line
-    if (index < lines.length - 1) {
-      renderedLines.push(<Text key={`break-${index}`}>{'\n'}</Text>);
+  };
+
+  const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+    const key = `block-${index}`;
+    switch (block.type) {
+      case 'heading':
+        return (
+          <Text
+            key={key}
+            style={[baseStyle, HEADING_STYLES[block.level], styles.heading]}
+          >
+            {renderInline(parseInline(block.text), key)}
+          </Text>
+        );
+      case 'paragraph':
+        return (
+          <Text key={key} style={baseStyle}>
+            {renderInline(parseInline(block.text), key)}
+          </Text>
+        );
+      case 'list':
+        return (
+          <View key={key} style={styles.list}>
+            {block.items.map((item, itemIndex) => (
+              <View
+                key={`${key}-${itemIndex}`}
+                style={[styles.listItem, { marginLeft: item.depth * spacing.md }]}
+              >
+                <Text style={[baseStyle, styles.listMarker]}>
+                  {item.number !== undefined ? `${item.number}.` : item.depth > 0 ? '◦' : '•'}
+                </Text>
+                <Text style={[baseStyle, styles.listText]}>
+                  {renderInline(parseInline(item.text), `${key}-${itemIndex}`)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        );
+      case 'table':
+        return renderTable(block, key);
+      case 'code':
+        return (
+          <ScrollView
+            key={key}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={[styles.codeBlock, { backgroundColor: theme.border + '40', maxWidth: availableWidth }]}
+          >
+            <Text style={[baseStyle, styles.codeText]}>{block.code}</Text>
+          </ScrollView>
+        );
+      case 'chart':
+        return renderChart(block.chart, key);
+      case 'rule':
+        return <View key={key} style={[styles.rule, { backgroundColor: theme.border }]} />;
     }
-  });
+  };
 
-  return <Text style={style}>{renderedLines}</Text>;
+  // Keep plain one-line answers as a single Text so bubbles size exactly as before
+  if (blocks.length === 1 && blocks[0].type === 'paragraph') {
+    return <Text style={style}>{renderInline(parseInline(blocks[0].text), 'block-0')}</Text>;
+  }
+
+  return <View style={styles.container}>{blocks.map(renderBlock)}</View>;
 };
 
 const styles = StyleSheet.create({
-  line: {
-    // Line styles handled by parent
+  container: {
+    gap: spacing.sm,
+  },
+  heading: {
+    fontWeight: '700',
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  strike: {
+    textDecorationLine: 'line-through',
+  },
+  link: {
+    textDecorationLine: 'underline',
+  },
+  inlineCode: {
+    fontFamily: MONOSPACE,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  list: {
+    gap: spacing.xs,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    minWidth: 18,
+  },
+  listText: {
+    flex: 1,
+  },
+  table: {
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    flexGrow: 0,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  tableCell: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  codeBlock: {
+    borderRadius: borderRadius.sm,
+    padding: spacing.sm,
+    flexGrow: 0,
+  },
+  codeText: {
+    fontFamily: MONOSPACE,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chart: {
+    marginBottom: -spacing.md, // The chart cards carry their own bottom margin
+  },
+  rule: {
+    height: StyleSheet.hairlineWidth,
   },
 });
 
 export default MarkdownText;
-
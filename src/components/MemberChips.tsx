@@ -0,0 +1,98 @@
+/**
+ * MemberChips Component
+ * Purpose: Pick a household member (expense attribution, member filters)
+ * Features: Horizontally scrolling chips, "You" label for the current user, optional "Everyone" chip
+ */
+
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { MemberInfo } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+interface MemberChipsProps {
+  members: MemberInfo[];
+  selectedMemberId: string | null;
+  onSelect: (memberId: string | null) => void;
+  currentUserId?: string; // Shown as "You"
+  allLabel?: string; // Shows a leading chip that selects null
+}
+
+/**
+ * MemberChips - Single-select row of household member chips
+ */
+export const MemberChips: React.FC<MemberChipsProps> = ({
+  members,
+  selectedMemberId,
+  onSelect,
+  currentUserId,
+  allLabel,
+}) => {
+  const { theme } = useTheme();
+
+  const renderChip = (key: string, label: string, icon: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.primary + '20' : theme.background,
+          borderColor: selected ? theme.primary : theme.border,
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Icon name={icon as any} size={16} color={selected ? theme.primary : theme.textSecondary} />
+      <Text
+        style={[styles.chipText, { color: selected ? theme.primary : theme.textSecondary }]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+      keyboardShouldPersistTaps="handled"
+    >
+      {allLabel && renderChip('all', allLabel, 'account-group', selectedMemberId === null, () => onSelect(null))}
+      {members.map((member) =>
+        renderChip(
+          member.id,
+          member.id === currentUserId ? 'You' : member.name,
+          'account',
+          selectedMemberId === member.id,
+          () => onSelect(member.id)
+        )
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    gap: spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    maxWidth: 180,
+  },
+  chipText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+});
+
+export default MemberChips;
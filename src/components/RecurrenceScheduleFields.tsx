@@ -0,0 +1,303 @@
+/**
+ * RecurrenceScheduleFields Component
+ * Purpose: Shared schedule form used by income sources and recurring expenses
+ * Features: Frequency grid, day-of-week/day-of-month/custom day pickers, start date
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { DatePickerInput } from './DatePickerInput';
+import { ExpenseFrequency } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+export interface FrequencyOption<F extends ExpenseFrequency = ExpenseFrequency> {
+  value: F;
+  label: string;
+  icon: string;
+}
+
+interface RecurrenceScheduleFieldsProps<F extends ExpenseFrequency> {
+  options: FrequencyOption<F>[];
+  frequency: F;
+  onFrequencyChange: (frequency: F) => void;
+  dayOfWeek?: number;
+  onDayOfWeekChange: (day: number) => void;
+  dayOfMonth?: number;
+  onDayOfMonthChange: (day: number | undefined) => void;
+  customDates: number[];
+  onCustomDatesChange: (dates: number[]) => void;
+  startDate: Date;
+  onStartDateChange: (date: Date) => void;
+  startDateLabel?: string;
+  customDatesPreviewLabel?: string;
+}
+
+const parseCustomDates = (input: string): number[] => {
+  return input
+    .split(',')
+    .map(d => parseInt(d.trim(), 10))
+    .filter(d => !isNaN(d) && d >= 1 && d <= 31)
+    .sort((a, b) => a - b);
+};
+
+/**
+ * RecurrenceScheduleFields - Frequency and schedule inputs for a bottom sheet form
+ */
+export const RecurrenceScheduleFields = <F extends ExpenseFrequency>({
+  options,
+  frequency,
+  onFrequencyChange,
+  dayOfWeek,
+  onDayOfWeekChange,
+  dayOfMonth,
+  onDayOfMonthChange,
+  customDates,
+  onCustomDatesChange,
+  startDate,
+  onStartDateChange,
+  startDateLabel = 'Start Date',
+  customDatesPreviewLabel = 'Scheduled on:',
+}: RecurrenceScheduleFieldsProps<F>) => {
+  const { theme } = useTheme();
+  const [customDatesInput, setCustomDatesInput] = useState(customDates.join(', '));
+
+  // Keep the text field in sync when the form is reset or an existing entry is loaded
+  useEffect(() => {
+    if (parseCustomDates(customDatesInput).join(',') !== customDates.join(',')) {
+      setCustomDatesInput(customDates.join(', '));
+    }
+  }, [customDates]);
+
+  const handleCustomDatesChange = (text: string) => {
+    setCustomDatesInput(text);
+    onCustomDatesChange(parseCustomDates(text));
+  };
+
+  return (
+    <>
+      {/* Frequency */}
+      <View style={styles.inputGroup}>
+        <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Frequency</Text>
+        <View style={styles.frequencyGrid}>
+          {options.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.frequencyOption,
+                {
+                  backgroundColor: frequency === option.value ? theme.primary + '20' : theme.card,
+                  borderColor: frequency === option.value ? theme.primary : theme.border,
+                },
+              ]}
+              onPress={() => onFrequencyChange(option.value)}
+            >
+              <Icon name={option.icon as any} size={20} color={frequency === option.value ? theme.primary : theme.textSecondary} />
+              <Text style={[
+                styles.frequencyOptionText,
+                { color: frequency === option.value ? theme.primary : theme.textSecondary },
+              ]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Frequency-specific fields */}
+      {frequency === 'WEEKLY' && (
+        <View style={styles.inputGroup}>
+          <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Day of Week</Text>
+          <View style={styles.daySelector}>
+            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day, index) => (
+              <TouchableOpacity
+                key={index}
+                style={[
+                  styles.dayButton,
+                  {
+                    backgroundColor: dayOfWeek === index ? theme.primary + '20' : theme.card,
+                    borderColor: dayOfWeek === index ? theme.primary : theme.border,
+                  },
+                ]}
+                onPress={() => onDayOfWeekChange(index)}
+              >
+                <Text style={[
+                  styles.dayButtonText,
+                  { color: dayOfWeek === index ? theme.primary : theme.textSecondary },
+                ]}>
+                  {day}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {frequency === 'MONTHLY' && (
+        <View style={styles.inputGroup}>
+          <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Day of Month</Text>
+          <View style={styles.daySelector}>
+            {[1, 5, 10, 15, 20, 25, 30].map((day) => (
+              <TouchableOpacity
+                key={day}
+                style={[
+                  styles.dayButton,
+                  {
+                    backgroundColor: dayOfMonth === day ? theme.primary + '20' : theme.card,
+                    borderColor: dayOfMonth === day ? theme.primary : theme.border,
+                  },
+                ]}
+                onPress={() => onDayOfMonthChange(day)}
+              >
+                <Text style={[
+                  styles.dayButtonText,
+                  { color: dayOfMonth === day ? theme.primary : theme.textSecondary },
+                ]}>
+                  {day}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text, marginTop: spacing.sm }]}
+            placeholder="Or enter custom day (1-31)"
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="number-pad"
+            value={dayOfMonth?.toString() || ''}
+            onChangeText={(text) => {
+              const num = parseInt(text, 10);
+              if (!isNaN(num) && num >= 1 && num <= 31) {
+                onDayOfMonthChange(num);
+              } else if (text === '') {
+                onDayOfMonthChange(undefined);
+              }
+            }}
+          />
+        </View>
+      )}
+
+      {frequency === 'CUSTOM' && (
+        <View style={styles.inputGroup}>
+          <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Days of Month</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+            placeholder="e.g., 15, 30 (comma-separated, 1-31)"
+            placeholderTextColor={theme.textTertiary}
+            value={customDatesInput}
+            onChangeText={handleCustomDatesChange}
+          />
+          {customDatesInput.length > 0 && customDates.length === 0 && (
+            <Text style={[styles.errorText, { color: theme.expense }]}>
+              Please enter valid days (1-31), separated by commas
+            </Text>
+          )}
+          {customDates.length > 0 && (
+            <View style={styles.customDatesPreview}>
+              <Text style={[styles.customDatesLabel, { color: theme.textSecondary }]}>{customDatesPreviewLabel}</Text>
+              <View style={styles.customDatesChips}>
+                {customDates.map((date) => (
+                  <View key={date} style={[styles.customDateChip, { backgroundColor: theme.primary + '20' }]}>
+                    <Text style={[styles.customDateChipText, { color: theme.primary }]}>
+                      Day {date}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+        </View>
+      )}
+
+      {/* Start Date */}
+      <View style={styles.inputGroup}>
+        <DatePickerInput
+          date={startDate}
+          onDateChange={onStartDateChange}
+          label={startDateLabel}
+        />
+      </View>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  inputGroup: {
+    marginBottom: spacing.lg,
+  },
+  inputLabel: {
+    ...typography.labelMedium,
+    marginBottom: spacing.sm,
+    fontWeight: '600',
+  },
+  input: {
+    ...typography.bodyMedium,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+  },
+  frequencyGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  frequencyOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.xs,
+    minWidth: '45%',
+  },
+  frequencyOptionText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  daySelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  dayButton: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    minWidth: 50,
+    alignItems: 'center',
+  },
+  dayButtonText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  customDatesPreview: {
+    marginTop: spacing.md,
+  },
+  customDatesLabel: {
+    ...typography.bodySmall,
+    marginBottom: spacing.sm,
+  },
+  customDatesChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  customDateChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.sm,
+  },
+  customDateChipText: {
+    ...typography.labelSmall,
+    fontWeight: '600',
+  },
+  errorText: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+    fontStyle: 'italic',
+  },
+});
+
+export default RecurrenceScheduleFields;
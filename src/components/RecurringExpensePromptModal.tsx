@@ -0,0 +1,243 @@
+/**
+ * RecurringExpensePromptModal Component
+ * Purpose: Ask the user to confirm recurring payments that are not auto-posted
+ * Features: One row per due payment, confirm (records the expense) or skip
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { RecurringExpenseOccurrence } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+interface RecurringExpensePromptModalProps {
+  visible: boolean;
+  occurrences: RecurringExpenseOccurrence[];
+  busyKey?: string | null; // Key of the occurrence currently being saved
+  onConfirm: (occurrence: RecurringExpenseOccurrence) => void;
+  onSkip: (occurrence: RecurringExpenseOccurrence) => void;
+  onClose: () => void;
+}
+
+export const getOccurrenceKey = (occurrence: RecurringExpenseOccurrence): string =>
+  `${occurrence.recurringExpense.id}_${occurrence.date}`;
+
+/**
+ * RecurringExpensePromptModal - "Did you pay this?" list for scheduled payments
+ */
+export const RecurringExpensePromptModal: React.FC<RecurringExpensePromptModalProps> = ({
+  visible,
+  occurrences,
+  busyKey,
+  onConfirm,
+  onSkip,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { formatTransactionAmount } = useCurrency();
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Confirm Payments</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Icon name="close" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {occurrences.length === 1
+              ? 'A scheduled payment is due. Confirm it to record the expense.'
+              : `${occurrences.length} scheduled payments are due. Confirm each one to record the expense.`}
+          </Text>
+
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+            {occurrences.map((occurrence) => {
+              const key = getOccurrenceKey(occurrence);
+              const { recurringExpense } = occurrence;
+              const isBusy = busyKey === key;
+
+              return (
+                <View
+                  key={key}
+                  style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}
+                >
+                  <View style={styles.rowHeader}>
+                    <View
+                      style={[
+                        styles.icon,
+                        { backgroundColor: (recurringExpense.category?.color || theme.expense) + '20' },
+                      ]}
+                    >
+                      <Icon
+                        name={(recurringExpense.category?.icon || 'calendar-sync') as any}
+                        size={20}
+                        color={recurringExpense.category?.color || theme.expense}
+                      />
+                    </View>
+                    <View style={styles.info}>
+                      <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>
+                        {recurringExpense.name}
+                      </Text>
+                      <Text style={[styles.meta, { color: theme.textTertiary }]} numberOfLines={1}>
+                        Due {new Date(`${occurrence.date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                        {recurringExpense.category ? ` · ${recurringExpense.category.name}` : ''}
+                      </Text>
+                    </View>
+                    <Text style={[styles.amount, { color: theme.expense }]}>
+                      {formatTransactionAmount(
+                        recurringExpense.amount,
+                        recurringExpense.originalAmount ?? undefined,
+                        recurringExpense.originalCurrency ?? undefined
+                      )}
+                    </Text>
+                  </View>
+
+                  <View style={styles.actions}>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { borderColor: theme.border }]}
+                      onPress={() => onSkip(occurrence)}
+                      disabled={!!busyKey}
+                      activeOpacity={0.7}
+                    >
+                      <Icon name="debug-step-over" size={16} color={theme.textSecondary} />
+                      <Text style={[styles.actionText, { color: theme.textSecondary }]}>Skip</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: theme.primary, borderColor: theme.primary }]}
+                      onPress={() => onConfirm(occurrence)}
+                      disabled={!!busyKey}
+                      activeOpacity={0.8}
+                    >
+                      {isBusy ? (
+                        <ActivityIndicator size="small" color="#FFFFFF" />
+                      ) : (
+                        <>
+                          <Icon name="check" size={16} color="#FFFFFF" />
+                          <Text style={[styles.actionText, { color: '#FFFFFF' }]}>Paid</Text>
+                        </>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.laterButton} onPress={onClose} activeOpacity={0.7}>
+            <Text style={[styles.laterText, { color: theme.textSecondary }]}>Remind me later</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '85%',
+    paddingBottom: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+  },
+  subtitle: {
+    ...typography.bodyMedium,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  row: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.md,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  icon: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+  },
+  meta: {
+    ...typography.bodySmall,
+  },
+  amount: {
+    ...typography.titleMedium,
+    fontWeight: '700',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  actionText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  laterButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  laterText: {
+    ...typography.labelLarge,
+  },
+});
+
+export default RecurringExpensePromptModal;
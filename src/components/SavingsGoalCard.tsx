@@ -0,0 +1,201 @@
+/**
+ * SavingsGoalCard Component
+ * Purpose: Show a savings goal's progress and projected completion
+ * Features: Progress bar, on-track status against the target date, optional add/edit/delete actions
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { SavingsGoalProgress } from '../types';
+import ProgressBar from './ProgressBar';
+import { getValidIcon } from '../utils/iconUtils';
+import { typography, spacing, borderRadius, elevation } from '../theme';
+
+interface SavingsGoalCardProps {
+  progress: SavingsGoalProgress;
+  compact?: boolean; // Dashboard variant: no actions or projection details
+  onPress?: () => void;
+  onAddMoney?: () => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}
+
+const formatMonthYear = (date: string): string =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+/**
+ * SavingsGoalCard - Progress card for a single savings goal
+ */
+export const SavingsGoalCard: React.FC<SavingsGoalCardProps> = ({
+  progress,
+  compact = false,
+  onPress,
+  onAddMoney,
+  onEdit,
+  onDelete,
+}) => {
+  const { theme } = useTheme();
+  const { formatCurrency } = useCurrency();
+  const { goal } = progress;
+  const color = progress.isComplete ? theme.success : goal.color || theme.primary;
+
+  const getStatusText = (): string => {
+    if (progress.isComplete) {
+      return goal.completedAt ? `Reached ${formatMonthYear(goal.completedAt)}` : 'Goal reached!';
+    }
+    if (!progress.projectedCompletionDate) {
+      return 'Not growing at your current savings rate';
+    }
+    return `On pace for ${formatMonthYear(progress.projectedCompletionDate)}`;
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}
+      onPress={onPress}
+      disabled={!onPress}
+      activeOpacity={0.8}
+    >
+      <View style={styles.header}>
+        <View style={[styles.icon, { backgroundColor: color + '20' }]}>
+          <Icon name={getValidIcon(progress.isComplete ? 'trophy' : goal.icon) as any} size={compact ? 20 : 24} color={color} />
+        </View>
+        <View style={styles.info}>
+          <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>
+            {goal.name}
+          </Text>
+          <Text style={[styles.amounts, { color: theme.textSecondary }]} numberOfLines={1}>
+            {formatCurrency(progress.savedAmount)} of {formatCurrency(goal.targetAmount)}
+          </Text>
+        </View>
+        <Text style={[styles.percent, { color }]}>{Math.floor(progress.percentComplete)}%</Text>
+      </View>
+
+      <ProgressBar progress={progress.percentComplete} color={color} backgroundColor={theme.border} height={compact ? 6 : 8} />
+
+      <View style={styles.meta}>
+        <Icon
+          name={progress.isComplete ? 'check-circle' : 'chart-timeline-variant'}
+          size={14}
+          color={theme.textTertiary}
+        />
+        <Text style={[styles.metaText, { color: theme.textSecondary }]} numberOfLines={1}>
+          {getStatusText()}
+        </Text>
+      </View>
+
+      {!compact && !progress.isComplete && goal.targetDate && (
+        <View style={styles.meta}>
+          <Icon
+            name={progress.isOnTrack ? 'calendar-check' : 'calendar-alert'}
+            size={14}
+            color={progress.isOnTrack ? theme.success : theme.warning}
+          />
+          <Text style={[styles.metaText, { color: progress.isOnTrack ? theme.success : theme.warning }]}>
+            {progress.isOnTrack ? 'On track' : 'Behind'} for {formatMonthYear(goal.targetDate)}
+            {progress.requiredMonthlyAmount ? ` · save ${formatCurrency(progress.requiredMonthlyAmount)}/mo` : ''}
+          </Text>
+        </View>
+      )}
+
+      {!compact && (onAddMoney || onEdit || onDelete) && (
+        <View style={styles.actions}>
+          {onAddMoney && !progress.isComplete && (
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.success + '20' }]}
+              onPress={onAddMoney}
+            >
+              <Icon name="plus" size={18} color={theme.success} />
+              <Text style={[styles.actionButtonText, { color: theme.success }]}>Add Money</Text>
+            </TouchableOpacity>
+          )}
+          {onEdit && (
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.primary + '20' }]}
+              onPress={onEdit}
+            >
+              <Icon name="pencil" size={18} color={theme.primary} />
+              <Text style={[styles.actionButtonText, { color: theme.primary }]}>Edit</Text>
+            </TouchableOpacity>
+          )}
+          {onDelete && (
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.expense + '20' }]}
+              onPress={onDelete}
+            >
+              <Icon name="delete" size={18} color={theme.expense} />
+              <Text style={[styles.actionButtonText, { color: theme.expense }]}>Delete</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    ...typography.titleMedium,
+    marginBottom: 2,
+  },
+  amounts: {
+    ...typography.bodySmall,
+  },
+  percent: {
+    ...typography.titleMedium,
+    fontWeight: '700',
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  metaText: {
+    ...typography.bodySmall,
+    flexShrink: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    gap: spacing.xs,
+  },
+  actionButtonText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+});
+
+export default SavingsGoalCard;
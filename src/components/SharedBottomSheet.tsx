@@ -26,12 +26,24 @@ import { useCurrency } from '../contexts/CurrencyContext';
 import { useSubscription } from '../hooks/useSubscription';
 import { logger } from '../utils/logger';
 import { useBottomSheetActions, useBottomSheetEditState } from '../contexts/BottomSheetContext';
-import { BottomSheetBackground, PremiumBadge, UpgradePrompt, CurrencyInput, DatePickerInput, CategoryPickerModal, InputGroup } from '../components';
+import { BottomSheetBackground, PremiumBadge, UpgradePrompt, CurrencyInput, DatePickerInput, CategoryPickerModal, InputGroup, AccountChips, MemberChips, SplitEditor, createSplitDraft } from '../components';
+import type { SplitDraft } from '../components';
 import { useAlert } from '../hooks/useAlert';
 import { shouldUseLiquidGlass } from './BottomSheetBackground';
 import { apiService } from '../services/api';
 import tagsService from '../services/tagsService';
-import { Expense, PaymentMethod, Tag, Category } from '../types';
+import { getAccounts, getDefaultAccount } from '../services/accountService';
+import { getHousehold, getMemberInfos } from '../services/householdService';
+import { validateSplits, scaleSplitAmounts, getPrimaryCategoryId, isSplitTransaction } from '../services/splitService';
+import { learnFromCorrection, saveCategoryRule, RuleProposal } from '../services/categorizationService';
+import { loadRates, convertOnDate } from '../services/fxRateService';
+import {
+  loadCategoryModel,
+  recordCategoryUsage,
+  dismissRuleProposal,
+} from '../services/categoryLearningService';
+import { Expense, PaymentMethod, Tag, Category, Account, Household } from '../types';
+import { useAppSelector } from '../store';
 import { RootStackParamList } from '../navigation/types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import { Animated } from 'react-native';
@@ -57,11 +69,18 @@ const SharedBottomSheet: React.FC = () => {
   const { setBottomSheetRef, onTransactionAdded, onParsedTransactionUpdate } = useBottomSheetActions();
   const { editingExpense, editingIncome, setEditingExpense, setEditingIncome } = useBottomSheetEditState();
 
-  // Helper function to convert amount from a specific currency to USD
-  const convertCurrencyToUSD = async (amount: number, fromCurrency: string): Promise<number> => {
+  // Helper function to convert amount from a specific currency to USD at the rate of the transaction date
+  const convertCurrencyToUSD = async (amount: number, fromCurrency: string, date: Date): Promise<number> => {
     if (fromCurrency.toUpperCase() === 'USD') {
       return amount;
     }
+
+    // Backdated entries use that day's rate; today's (or an unknown) rate falls through to the current one
+    await loadRates(fromCurrency, [date]);
+    const amountOnDate = convertOnDate(amount, fromCurrency, 'USD', date);
+    if (amountOnDate !== null) {
+      return amountOnDate;
+    }
     
     // If it's the active currency, use the existing conversion
     if (fromCurrency.toUpperCase() === currencyCode.toUpperCase()) {
@@ -84,6 +103,13 @@ const SharedBottomSheet: React.FC = () => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [availableTags, setAvailableTags] = useState<Tag[]>([]);
   const [incomeSources, setIncomeSources] = useState<any[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  // Account the expense/income is paid from or into (null = no account)
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [household, setHousehold] = useState<Household | null>(null);
+  // Member who paid an expense in a shared category (null = current user)
+  const [paidById, setPaidById] = useState<string | null>(null);
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
 
   // Transaction type state (Expense or Income)
   const [transactionType, setTransactionType] = useState<'expense' | 'income'>('expense');
@@ -96,6 +122,9 @@ const SharedBottomSheet: React.FC = () => {
   const [newExpenseDate, setNewExpenseDate] = useState(new Date());
   const [newExpensePaymentMethod, setNewExpensePaymentMethod] = useState<PaymentMethod | undefined>(undefined);
   const [newExpenseTags, setNewExpenseTags] = useState<string[]>([]);
+  // Category allocations - empty unless the expense is split
+  const [splitDrafts, setSplitDrafts] = useState<SplitDraft[]>([]);
+  const [splitError, setSplitError] = useState('');
   const [showPaymentMethodPicker, setShowPaymentMethodPicker] = useState(false);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
   const [showTagsPicker, setShowTagsPicker] = useState(false);
@@ -138,7 +167,7 @@ const SharedBottomSheet: React.FC = () => {
   const [tagNameError, setTagNameError] = useState('');
 
   // Alert hook for non-validation errors
-  const { showError, showSuccess, AlertComponent } = useAlert();
+  const { showError, showSuccess, showInfo, AlertComponent } = useAlert();
 
   // Income state
   const [newIncomeAmount, setNewIncomeAmount] = useState('');
@@ -177,6 +206,9 @@ const SharedBottomSheet: React.FC = () => {
     setNewExpenseDate(new Date());
     setNewExpensePaymentMethod(undefined);
     setNewExpenseTags([]);
+    setSplitDrafts([]);
+    setSplitError('');
+    setPaidById(null);
     setNewIncomeAmount('');
     setNewIncomeDescription('');
     setNewIncomeDate(new Date());
@@ -184,12 +216,13 @@ const SharedBottomSheet: React.FC = () => {
     setTransactionType('expense');
     setSelectedIncomeCurrency(undefined);
     setSelectedExpenseCurrency(undefined);
+    setSelectedAccountId(getDefaultAccount(accounts)?.id ?? null);
     populatedTransactionId.current = null;
     // Reset category to first available (will be set when categories load)
     if (categories.length > 0) {
       setNewExpenseCategoryId(categories[0].id);
     }
-  }, [categories]);
+  }, [categories, accounts]);
 
   // Helper function to populate expense form - called synchronously
   const populateExpenseForm = useCallback((expense: typeof editingExpense) => {
@@ -214,6 +247,8 @@ const SharedBottomSheet: React.FC = () => {
     if (expense.date) setNewExpenseDate(new Date(expense.date));
     // Set payment method (can be undefined)
     setNewExpensePaymentMethod(expense.paymentMethod || undefined);
+    setSelectedAccountId(expense.accountId ?? null);
+    setPaidById(expense.paidBy?.id ?? null);
     if (expense.tags && expense.tags.length > 0) {
     // Handle both string IDs and tag objects
       const tagIds = expense.tags.map(tag => typeof tag === 'string' ? tag : tag.id);
@@ -227,6 +262,21 @@ const SharedBottomSheet: React.FC = () => {
     if (expense.categoryId) {
       setNewExpenseCategoryId(expense.categoryId);
     }
+    // Split allocations are edited in the same currency as the amount field
+    if (expense.splits && isSplitTransaction(expense)) {
+      const useOriginal = !!(expense.originalAmount && expense.originalCurrency);
+      setSplitDrafts(expense.splits.map((split) => ({
+        ...createSplitDraft(split.categoryId),
+        amount: (useOriginal && split.originalAmount !== undefined
+          ? split.originalAmount
+          : getTransactionDisplayAmount(split.amount)
+        ).toString(),
+        notes: split.notes || '',
+        tags: (split.tags || []).map((tag) => (typeof tag === 'string' ? tag : tag.id)),
+      })));
+    } else {
+      setSplitDrafts([]);
+    }
     // Track that we've populated for this transaction
     populatedTransactionId.current = expense.id || null;
   }, [getTransactionDisplayAmount]);
@@ -255,6 +305,7 @@ const SharedBottomSheet: React.FC = () => {
     if (income.incomeSourceId) {
       setNewIncomeSourceId(income.incomeSourceId);
     }
+    setSelectedAccountId(income.accountId ?? null);
     // Set transaction type to income
     setTransactionType('income');
     // Track that we've populated for this transaction
@@ -291,14 +342,23 @@ const SharedBottomSheet: React.FC = () => {
 
   const loadCategoriesAndTags = async () => {
     try {
-      const [categoriesData, tagsData, incomeSourcesData] = await Promise.all([
+      const [categoriesData, tagsData, incomeSourcesData, accountsData, householdData] = await Promise.all([
         apiService.getCategories(),
         tagsService.getTags(),
         apiService.getIncomeSources(),
+        getAccounts(),
+        getHousehold(),
+        loadCategoryModel(),
       ]);
       setCategories(categoriesData);
       setAvailableTags(tagsData);
       setIncomeSources(incomeSourcesData);
+      setAccounts(accountsData);
+      setHousehold(householdData);
+      // Preselect the default account for new transactions
+      if (!isEditingRef.current && populatedTransactionId.current === null) {
+        setSelectedAccountId((current) => current ?? getDefaultAccount(accountsData)?.id ?? null);
+      }
       // Set initial category if none selected
       if (categoriesData.length > 0 && !newExpenseCategoryId) {
         setNewExpenseCategoryId(categoriesData[0].id);
@@ -321,11 +381,47 @@ const SharedBottomSheet: React.FC = () => {
     setEditingIncome(null);
   }, [setEditingExpense, setEditingIncome, resetFormFields]);
 
+  // Offer to turn repeated recategorizations into a rule
+  const offerRuleProposal = useCallback((proposal: RuleProposal) => {
+    const categoryName = categories.find((c) => c.id === proposal.categoryId)?.name || 'this category';
+    showInfo(
+      'Create a rule?',
+      `You've moved "${proposal.merchantKey}" to ${categoryName} ${proposal.corrections} times. Categorize it this way automatically from now on?`,
+      [
+        {
+          text: 'Not now',
+          style: 'cancel',
+          onPress: () => {
+            dismissRuleProposal(proposal.merchantKey, proposal.categoryId);
+          },
+        },
+        {
+          text: 'Create Rule',
+          onPress: async () => {
+            try {
+              await saveCategoryRule(proposal.rule);
+            } catch (error) {
+              logger.error('[SharedBottomSheet] Failed to save proposed rule:', error);
+            }
+          },
+        },
+      ]
+    );
+  }, [categories, showInfo]);
+
+  // Expense touches a category shared with at least one other household member
+  const expenseCategoryIds = splitDrafts.length > 0
+    ? splitDrafts.map((split) => split.categoryId)
+    : [newExpenseCategoryId];
+  const isSharedExpense = !!household && household.members.length > 1 &&
+    categories.some((c) => c.householdId === household.id && expenseCategoryIds.includes(c.id));
+
   const handleAddExpense = async (): Promise<void> => {
     // Clear previous errors
     setExpenseAmountError('');
     setExpenseDescriptionError('');
     setExpenseCategoryError('');
+    setSplitError('');
 
     // Validate amount
     if (!newExpenseAmount || parseFloat(newExpenseAmount) <= 0) {
@@ -340,11 +436,25 @@ const SharedBottomSheet: React.FC = () => {
     }
 
     // Validate category
-    if (!newExpenseCategoryId) {
+    const isSplit = splitDrafts.length > 0;
+    if (!isSplit && !newExpenseCategoryId) {
       setExpenseCategoryError('Please select a category');
       return;
     }
 
+    // Validate split allocations against the total (both in the entry currency)
+    const splitAmounts = splitDrafts.map((split) => parseFloat(split.amount) || 0);
+    if (isSplit) {
+      const error = validateSplits(
+        splitDrafts.map((split, index) => ({ categoryId: split.categoryId, amount: splitAmounts[index] })),
+        parseFloat(newExpenseAmount)
+      );
+      if (error) {
+        setSplitError(error);
+        return;
+      }
+    }
+
     setIsAddingExpense(true);
 
     try {
@@ -354,7 +464,7 @@ const SharedBottomSheet: React.FC = () => {
       const amountCurrency = selectedExpenseCurrency || currencyCode;
       
       // Convert amount from the selected currency to USD
-      const amountInUSD = await convertCurrencyToUSD(originalAmount, amountCurrency);
+      const amountInUSD = await convertCurrencyToUSD(originalAmount, amountCurrency, newExpenseDate);
 
       const payload: any = {
         amount: amountInUSD,
@@ -365,6 +475,21 @@ const SharedBottomSheet: React.FC = () => {
         originalCurrency: amountCurrency,
       };
 
+      if (isSplit) {
+        const usdAmounts = scaleSplitAmounts(splitAmounts, originalAmount, amountInUSD);
+        payload.splits = splitDrafts.map((split, index) => ({
+          categoryId: split.categoryId,
+          amount: usdAmounts[index],
+          originalAmount: splitAmounts[index],
+          ...(split.tags.length > 0 && { tags: split.tags }),
+          ...(split.notes.trim() && { notes: split.notes.trim() }),
+        }));
+        // The parent is filed under its largest allocation
+        payload.categoryId = getPrimaryCategoryId(payload.splits);
+      } else if (editingExpense?.splits?.length) {
+        payload.splits = null;
+      }
+
       // Only include optional fields if they have values
       if (newExpensePaymentMethod) {
         payload.paymentMethod = newExpensePaymentMethod;
@@ -372,9 +497,22 @@ const SharedBottomSheet: React.FC = () => {
       if (newExpenseTags.length > 0) {
         payload.tags = newExpenseTags;
       }
+      // Sent as null on edit to move the expense out of its account
+      if (selectedAccountId || editingExpense?.accountId) {
+        payload.accountId = selectedAccountId;
+      }
+      // Attribute shared spending to a household member (defaults to the current user)
+      if (isSharedExpense) {
+        payload.paidById = paidById || currentUserId;
+      }
+      // The sheet has no notes field - carry over prefilled notes (e.g. from category rules)
+      if (editingExpense?.notes) {
+        payload.notes = editingExpense.notes;
+      }
 
       // Check if this is a temporary ID (from parsed transactions) or a real expense ID
       const isTempId = editingExpense?.id?.startsWith('temp-');
+      const previousCategoryId = editingExpense?.categoryId;
       
       if (isEditingExpense && editingExpense?.id && !isTempId) {
         // Update existing expense (real ID from database)
@@ -409,6 +547,21 @@ const SharedBottomSheet: React.FC = () => {
         showSuccess('Success', 'Expense added successfully! 🎉');
       }
 
+      // Learn from the category choice - edits of real or suggested (temp) expenses are corrections
+      // Split expenses span several categories, so they teach nothing about the merchant
+      if (!isSplit && previousCategoryId) {
+        const proposal = await learnFromCorrection({
+          description: payload.description,
+          fromCategoryId: previousCategoryId,
+          toCategoryId: payload.categoryId,
+        });
+        if (proposal) {
+          offerRuleProposal(proposal);
+        }
+      } else if (!isSplit) {
+        await recordCategoryUsage(payload.description, payload.categoryId);
+      }
+
       // Reload categories and tags in case they changed
       await loadCategoriesAndTags();
 
@@ -448,7 +601,7 @@ const SharedBottomSheet: React.FC = () => {
       const amountCurrency = selectedIncomeCurrency || currencyCode;
       
       // Convert amount from the selected currency to USD
-      const amountInUSD = await convertCurrencyToUSD(originalAmount, amountCurrency);
+      const amountInUSD = await convertCurrencyToUSD(originalAmount, amountCurrency, newIncomeDate);
 
       const payload: any = {
         amount: amountInUSD,
@@ -465,6 +618,9 @@ const SharedBottomSheet: React.FC = () => {
       if (newIncomeSourceId) {
         payload.incomeSourceId = newIncomeSourceId;
       }
+      if (selectedAccountId || editingIncome?.accountId) {
+        payload.accountId = selectedAccountId;
+      }
 
       logger.debug('[SharedBottomSheet] Sending income transaction:', payload);
 
@@ -525,6 +681,20 @@ const SharedBottomSheet: React.FC = () => {
     }
   };
 
+  // Start a split with the current category holding the full amount, or go back to one category
+  const handleToggleSplit = () => {
+    if (splitDrafts.length > 0) {
+      setNewExpenseCategoryId(getPrimaryCategoryId(
+        splitDrafts.map((split) => ({ categoryId: split.categoryId, amount: parseFloat(split.amount) || 0 }))
+      ) || newExpenseCategoryId);
+      setSplitDrafts([]);
+    } else {
+      setSplitDrafts([createSplitDraft(newExpenseCategoryId, newExpenseAmount), createSplitDraft()]);
+    }
+    setSplitError('');
+    if (expenseCategoryError) setExpenseCategoryError('');
+  };
+
   const handleRemoveTag = (tagId: string) => {
     setNewExpenseTags(newExpenseTags.filter(id => id !== tagId));
   };
@@ -875,6 +1045,19 @@ const SharedBottomSheet: React.FC = () => {
                 </TouchableOpacity>
               </View>
 
+              {/* Account Selection */}
+              {accounts.length > 0 && (
+                <View style={styles.inputGroup}>
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Deposited To</Text>
+                  <AccountChips
+                    accounts={accounts}
+                    selectedAccountId={selectedAccountId}
+                    onSelect={setSelectedAccountId}
+                    allLabel="None"
+                  />
+                </View>
+              )}
+
               {/* Description Input */}
               <View style={styles.inputGroup}>
                 <InputGroup
@@ -960,7 +1143,30 @@ const SharedBottomSheet: React.FC = () => {
 
               {/* Category Selection */}
               <View style={styles.inputGroup}>
-                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Category</Text>
+                <View style={styles.inputLabelRow}>
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
+                    {splitDrafts.length > 0 ? 'Split Across Categories' : 'Category'}
+                  </Text>
+                  <TouchableOpacity onPress={handleToggleSplit}>
+                    <Text style={[styles.inputLabelAction, { color: theme.primary }]}>
+                      {splitDrafts.length > 0 ? 'Single category' : 'Split'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {splitDrafts.length > 0 ? (
+                  <SplitEditor
+                    splits={splitDrafts}
+                    onChange={(splits) => {
+                      setSplitDrafts(splits);
+                      if (splitError) setSplitError('');
+                    }}
+                    total={parseFloat(newExpenseAmount) || 0}
+                    currency={selectedExpenseCurrency}
+                    categories={categories}
+                    tags={availableTags}
+                    error={splitError}
+                  />
+                ) : (
                 <TouchableOpacity
                   style={[
                     styles.pickerButton,
@@ -996,6 +1202,7 @@ const SharedBottomSheet: React.FC = () => {
                   </View>
                   <Icon name="chevron-down" size={20} color={theme.textTertiary} />
                 </TouchableOpacity>
+                )}
                 {expenseCategoryError && (
                   <Text style={[styles.errorText, { color: theme.expense }]}>{expenseCategoryError}</Text>
                 )}
@@ -1028,6 +1235,32 @@ const SharedBottomSheet: React.FC = () => {
                 />
               </View>
 
+              {/* Account Selection */}
+              {accounts.length > 0 && (
+                <View style={styles.inputGroup}>
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Paid From</Text>
+                  <AccountChips
+                    accounts={accounts}
+                    selectedAccountId={selectedAccountId}
+                    onSelect={setSelectedAccountId}
+                    allLabel="None"
+                  />
+                </View>
+              )}
+
+              {/* Household Member Selection - shared categories only */}
+              {isSharedExpense && (
+                <View style={styles.inputGroup}>
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Paid By</Text>
+                  <MemberChips
+                    members={getMemberInfos(household)}
+                    selectedMemberId={paidById || currentUserId || null}
+                    onSelect={setPaidById}
+                    currentUserId={currentUserId}
+                  />
+                </View>
+              )}
+
               {/* Payment Method Selection */}
               <View style={styles.inputGroup}>
                 <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Payment Method (Optional)</Text>
@@ -1713,6 +1946,15 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 1,
   },
+  inputLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  inputLabelAction: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
   amountInput: {
     flexDirection: 'row',
     alignItems: 'center',
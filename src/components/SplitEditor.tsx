@@ -0,0 +1,280 @@
+/**
+ * SplitEditor Component
+ * Purpose: Edit the category allocations of a split expense
+ * Features: One row per allocation (category, amount, tags, note), live remaining amount, add/remove rows
+ * Amounts are entered in the same currency as the expense total
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView } from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { CurrencyInput } from './CurrencyInput';
+import { CategoryPickerModal } from './CategoryPickerModal';
+import { getRemainingAmount, SPLIT_TOLERANCE } from '../services/splitService';
+import { Category, Tag } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+
+export interface SplitDraft {
+  key: string;
+  categoryId: string;
+  amount: string; // In the expense's entry currency
+  notes: string;
+  tags: string[]; // Tag IDs
+}
+
+interface SplitEditorProps {
+  splits: SplitDraft[];
+  onChange: (splits: SplitDraft[]) => void;
+  total: number; // Expense total in the entry currency
+  currency?: string; // Entry currency (defaults to the active currency)
+  categories: Category[];
+  tags: Tag[];
+  error?: string;
+}
+
+export const createSplitDraft = (categoryId: string = '', amount: string = ''): SplitDraft => ({
+  key: `split-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  categoryId,
+  amount,
+  notes: '',
+  tags: [],
+});
+
+/**
+ * SplitEditor - Allocation rows for a split expense
+ */
+export const SplitEditor: React.FC<SplitEditorProps> = ({
+  splits,
+  onChange,
+  total,
+  currency,
+  categories,
+  tags,
+  error,
+}) => {
+  const { theme } = useTheme();
+  const [pickerIndex, setPickerIndex] = useState<number | null>(null);
+
+  const remaining = getRemainingAmount(
+    splits.map((split) => ({ amount: parseFloat(split.amount) || 0 })),
+    total
+  );
+  const isBalanced = Math.abs(remaining) <= SPLIT_TOLERANCE;
+
+  const updateSplit = (index: number, changes: Partial<SplitDraft>) => {
+    onChange(splits.map((split, i) => (i === index ? { ...split, ...changes } : split)));
+  };
+
+  const toggleTag = (index: number, tagId: string) => {
+    const current = splits[index].tags;
+    updateSplit(index, {
+      tags: current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId],
+    });
+  };
+
+  const handleAddRow = () => {
+    // New rows start with whatever is left to allocate
+    onChange([...splits, createSplitDraft('', remaining > 0 ? remaining.toFixed(2) : '')]);
+  };
+
+  return (
+    <View>
+      {splits.map((split, index) => {
+        const category = categories.find((c) => c.id === split.categoryId);
+        return (
+          <View
+            key={split.key}
+            style={[styles.row, { backgroundColor: theme.background, borderColor: theme.border }]}
+          >
+            <View style={styles.rowHeader}>
+              <TouchableOpacity style={styles.categoryButton} onPress={() => setPickerIndex(index)}>
+                <View style={[styles.categoryIcon, { backgroundColor: (category?.color || theme.textTertiary) + '20' }]}>
+                  <Icon
+                    name={(category?.icon || 'folder-outline') as any}
+                    size={16}
+                    color={category?.color || theme.textSecondary}
+                  />
+                </View>
+                <Text
+                  style={[styles.categoryText, { color: category ? theme.text : theme.textSecondary }]}
+                  numberOfLines={1}
+                >
+                  {category?.name || 'Select category'}
+                </Text>
+                <Icon name="chevron-down" size={16} color={theme.textTertiary} />
+              </TouchableOpacity>
+              {splits.length > 2 && (
+                <TouchableOpacity
+                  onPress={() => onChange(splits.filter((_, i) => i !== index))}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Icon name="close-circle-outline" size={20} color={theme.textTertiary} />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={[styles.amountInput, { borderColor: theme.border }]}>
+              <CurrencyInput
+                value={split.amount}
+                onChangeText={(text) => updateSplit(index, { amount: text })}
+                selectedCurrency={currency}
+                placeholder="0.00"
+                placeholderTextColor={theme.textTertiary}
+                showSymbol={true}
+                allowDecimals={true}
+              />
+            </View>
+
+            <TextInput
+              style={[styles.notesInput, { color: theme.text, borderColor: theme.border }]}
+              value={split.notes}
+              onChangeText={(text) => updateSplit(index, { notes: text })}
+              placeholder="Note (optional)"
+              placeholderTextColor={theme.textTertiary}
+            />
+
+            {tags.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.tagRow}
+                keyboardShouldPersistTaps="handled"
+              >
+                {tags.map((tag) => {
+                  const selected = split.tags.includes(tag.id);
+                  return (
+                    <TouchableOpacity
+                      key={tag.id}
+                      style={[
+                        styles.tagChip,
+                        {
+                          backgroundColor: selected ? tag.color + '20' : 'transparent',
+                          borderColor: selected ? tag.color : theme.border,
+                        },
+                      ]}
+                      onPress={() => toggleTag(index, tag.id)}
+                    >
+                      <Text style={[styles.tagChipText, { color: selected ? tag.color : theme.textSecondary }]}>
+                        {tag.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </View>
+        );
+      })}
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.addRowButton} onPress={handleAddRow}>
+          <Icon name="plus-circle-outline" size={18} color={theme.primary} />
+          <Text style={[styles.addRowText, { color: theme.primary }]}>Add allocation</Text>
+        </TouchableOpacity>
+        <Text style={[styles.remainingText, { color: isBalanced ? theme.success : theme.warning }]}>
+          {isBalanced
+            ? 'Fully allocated'
+            : remaining > 0
+              ? `${remaining.toFixed(2)} left`
+              : `${Math.abs(remaining).toFixed(2)} over`}
+        </Text>
+      </View>
+      {!!error && <Text style={[styles.errorText, { color: theme.expense }]}>{error}</Text>}
+
+      <CategoryPickerModal
+        visible={pickerIndex !== null}
+        categories={categories}
+        selectedCategoryId={pickerIndex !== null ? splits[pickerIndex]?.categoryId : undefined}
+        onSelect={(categoryId) => {
+          if (pickerIndex !== null) updateSplit(pickerIndex, { categoryId });
+        }}
+        onClose={() => setPickerIndex(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  categoryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  categoryIcon: {
+    width: 28,
+    height: 28,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  categoryText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  amountInput: {
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  notesInput: {
+    ...typography.bodySmall,
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  tagRow: {
+    gap: spacing.xs,
+  },
+  tagChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 4,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  tagChipText: {
+    ...typography.labelSmall,
+    fontWeight: '600',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  addRowButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+  },
+  addRowText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  remainingText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  errorText: {
+    ...typography.caption,
+    marginTop: spacing.xs,
+  },
+});
+
+export default SplitEditor;
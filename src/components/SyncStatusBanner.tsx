@@ -0,0 +1,157 @@
+/**
+ * SyncStatusBanner Component
+ * Purpose: Shows offline/pending sync status and lets the user resolve sync conflicts
+ * Reads outbox state from the expenses slice (kept up to date by useOfflineSync)
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../contexts/ThemeContext';
+import { useAppSelector } from '../store';
+import { offlineQueueService, SyncConflict } from '../services/offlineQueueService';
+import { typography, spacing, borderRadius } from '../theme';
+
+/**
+ * SyncStatusBanner - Renders nothing when online with an empty outbox and no conflicts
+ */
+const SyncStatusBanner: React.FC = React.memo(() => {
+  const { theme } = useTheme();
+  const { isOnline, pendingSyncCount, syncConflicts } = useAppSelector((state) => state.expenses);
+
+  const handleResolve = useCallback(
+    (conflict: SyncConflict, resolution: 'discard' | 'recreate') => {
+      Haptics.selectionAsync();
+      offlineQueueService.resolveConflict(conflict.id, resolution);
+    },
+    []
+  );
+
+  const showPending = !isOnline || pendingSyncCount > 0;
+  if (!showPending && syncConflicts.length === 0) {
+    return null;
+  }
+
+  const changesLabel = `${pendingSyncCount} ${pendingSyncCount === 1 ? 'change' : 'changes'}`;
+
+  return (
+    <View style={styles.container}>
+      {showPending && (
+        <View
+          style={[
+            styles.statusRow,
+            { backgroundColor: theme.warning + '15', borderColor: theme.warning + '40' },
+          ]}
+        >
+          <Icon
+            name={isOnline ? 'cloud-sync-outline' : 'cloud-off-outline'}
+            size={18}
+            color={theme.warning}
+          />
+          <Text style={[styles.statusText, { color: theme.text }]}>
+            {isOnline
+              ? `Syncing ${changesLabel}…`
+              : pendingSyncCount > 0
+                ? `You're offline. ${changesLabel} will sync when you reconnect.`
+                : "You're offline. New entries will sync when you reconnect."}
+          </Text>
+        </View>
+      )}
+
+      {syncConflicts.map((conflict) => (
+        <View
+          key={conflict.id}
+          style={[
+            styles.conflictCard,
+            { backgroundColor: theme.card, borderColor: theme.error + '40' },
+          ]}
+        >
+          <View style={styles.conflictHeader}>
+            <Icon name="alert-circle-outline" size={18} color={theme.error} />
+            <Text style={[styles.conflictTitle, { color: theme.text }]}>Sync conflict</Text>
+          </View>
+          <Text style={[styles.conflictMessage, { color: theme.textSecondary }]}>
+            {conflict.message}
+          </Text>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, { borderColor: theme.border }]}
+              onPress={() => handleResolve(conflict, 'discard')}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: theme.textSecondary }]}>Discard</Text>
+            </TouchableOpacity>
+            {offlineQueueService.canRecreate(conflict) && (
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: theme.primary, backgroundColor: theme.primary + '10' }]}
+                onPress={() => handleResolve(conflict, 'recreate')}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.actionText, { color: theme.primary }]}>Restore</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+SyncStatusBanner.displayName = 'SyncStatusBanner';
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  statusText: {
+    ...typography.bodySmall,
+    flex: 1,
+  },
+  conflictCard: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  conflictTitle: {
+    ...typography.titleSmall,
+    fontWeight: '600',
+  },
+  conflictMessage: {
+    ...typography.bodySmall,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  actionButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+  },
+  actionText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+});
+
+export default SyncStatusBanner;
@@ -1,6 +1,6 @@
 /**
  * TransactionCard component
- * Purpose: Displays individual expense or income transaction with category icon, amount, and description
+ * Purpose: Displays individual expense, income or transfer transaction with category icon, amount, and description
  * Features smooth press animation and long press for edit/delete
  * Performance: Optimized with React.memo and memoized callbacks
  */
@@ -13,6 +13,9 @@ import { Expense, PaymentMethod, UnifiedTransaction } from '../types';
 import { useTheme } from '../contexts/ThemeContext';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { getCurrencyByCode } from '../services/currencyService';
+import { isOfflineId } from '../services/offlineQueueService';
+import { isSplitTransaction } from '../services/splitService';
+import { getHighlightSegments, hasHighlight } from '../services/transactionSearchService';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 
 interface TransactionCardProps {
@@ -20,6 +23,8 @@ interface TransactionCardProps {
   transaction?: UnifiedTransaction;
   onPress?: () => void;
   onLongPress?: () => void;
+  highlightTerms?: string[]; // Search terms to highlight in the description and notes
+  selected?: boolean; // Set in selection mode: shows a checkbox in place of the icon
 }
 
 /**
@@ -28,8 +33,10 @@ interface TransactionCardProps {
  * @param transaction - The unified transaction object to display
  * @param onPress - Optional callback when card is pressed
  * @param onLongPress - Optional callback when card is long pressed
+ * @param highlightTerms - Optional search terms; matching words are highlighted and a matching note is shown
+ * @param selected - Optional selection state for multi-select lists (undefined outside selection mode)
  */
-const TransactionCardComponent: React.FC<TransactionCardProps> = ({ expense, transaction, onPress, onLongPress }) => {
+const TransactionCardComponent: React.FC<TransactionCardProps> = ({ expense, transaction, onPress, onLongPress, highlightTerms, selected }) => {
   const { theme } = useTheme();
   const { formatTransactionAmount, currencyCode } = useCurrency();
 
@@ -46,6 +53,7 @@ const TransactionCardComponent: React.FC<TransactionCardProps> = ({ expense, tra
     paymentMethod: expense.paymentMethod,
     tags: expense.tags,
     notes: expense.notes,
+    splits: expense.splits,
     // Include original currency info for proper amount display
     originalAmount: expense.originalAmount,
     originalCurrency: expense.originalCurrency,
@@ -129,20 +137,44 @@ const TransactionCardComponent: React.FC<TransactionCardProps> = ({ expense, tra
   };
 
   const isIncome = tx.type === 'income';
+  // Transfers move money between accounts: neutral color and no +/- sign
+  const isTransfer = tx.type === 'transfer';
   const category = tx.category;
-  const categoryColor = isIncome
-    ? theme.income
-    : (category?.color || theme.primary);
+  const categoryColor = isTransfer
+    ? theme.textSecondary
+    : isIncome
+      ? theme.income
+      : (category?.color || theme.primary);
   const tags = tx.tags || [];
-  const iconName = isIncome
-    ? getIncomeIcon(tx.incomeSource)
-    : getCategoryIcon(category);
+  const terms = highlightTerms || [];
+  // Notes aren't shown on the card, so surface them when they are what matched the search
+  const showMatchedNotes = terms.length > 0 && hasHighlight(tx.notes, terms);
+
+  const renderHighlighted = (text: string) =>
+    terms.length === 0
+      ? text
+      : getHighlightSegments(text, terms).map((segment, index) =>
+          segment.match ? (
+            <Text key={index} style={[styles.highlight, { backgroundColor: theme.warning + '40' }]}>
+              {segment.text}
+            </Text>
+          ) : (
+            segment.text
+          )
+        );
+
+  const iconName = isTransfer
+    ? 'swap-horizontal'
+    : isIncome
+      ? getIncomeIcon(tx.incomeSource)
+      : getCategoryIcon(category);
 
   return (
     <TouchableOpacity
       style={[
         styles.container,
-        { backgroundColor: theme.card, borderColor: theme.border },
+        { backgroundColor: theme.card, borderColor: selected ? theme.primary : theme.border },
+        selected && { backgroundColor: theme.primary + '10' },
         elevation.sm,
       ]}
       onPress={onPress}
@@ -150,12 +182,23 @@ const TransactionCardComponent: React.FC<TransactionCardProps> = ({ expense, tra
       delayLongPress={500}
       activeOpacity={0.7}
     >
-      <View style={[styles.iconContainer, { backgroundColor: categoryColor + '20' }]}>
-        <Icon name={iconName as any} size={24} color={categoryColor} />
-      </View>
+      {selected !== undefined ? (
+        <View style={[styles.iconContainer, { backgroundColor: selected ? theme.primary : theme.border + '60' }]}>
+          <Icon name={selected ? 'check' : (iconName as any)} size={24} color={selected ? '#FFFFFF' : categoryColor} />
+        </View>
+      ) : (
+        <View style={[styles.iconContainer, { backgroundColor: categoryColor + '20' }]}>
+          <Icon name={iconName as any} size={24} color={categoryColor} />
+        </View>
+      )}
 
       <View style={styles.contentContainer}>
-        <Text style={[styles.description, { color: theme.text }]}>{tx.description}</Text>
+        <Text style={[styles.description, { color: theme.text }]}>{renderHighlighted(tx.description)}</Text>
+        {showMatchedNotes && (
+          <Text style={[styles.notes, { color: theme.textSecondary }]} numberOfLines={1}>
+            {renderHighlighted(tx.notes!)}
+          </Text>
+        )}
         <View style={styles.metadataRow}>
           <Text style={[styles.date, { color: theme.textSecondary }]}>{formatDate(tx.date)}</Text>
           {!isIncome && tx.paymentMethod && (
@@ -177,6 +220,25 @@ const TransactionCardComponent: React.FC<TransactionCardProps> = ({ expense, tra
               </Text>
             </>
           )}
+          {isTransfer && transaction?.fromAccount && transaction.toAccount && (
+            <>
+              <Text style={[styles.metadataSeparator, { color: theme.textTertiary }]}>•</Text>
+              <Text style={[styles.incomeSourceText, { color: theme.textTertiary }]} numberOfLines={1}>
+                {transaction.fromAccount.name} → {transaction.toAccount.name}
+              </Text>
+            </>
+          )}
+          {isSplitTransaction(tx) && (
+            <>
+              <Text style={[styles.metadataSeparator, { color: theme.textTertiary }]}>•</Text>
+              <View style={styles.autoBadge}>
+                <Icon name="call-split" size={10} color={theme.textTertiary} />
+                <Text style={[styles.autoText, { color: theme.textTertiary }]}>
+                  Split · {tx.splits!.length}
+                </Text>
+              </View>
+            </>
+          )}
           {isIncome && tx.autoAdded && (
             <>
               <Text style={[styles.metadataSeparator, { color: theme.textTertiary }]}>•</Text>
@@ -186,6 +248,15 @@ const TransactionCardComponent: React.FC<TransactionCardProps> = ({ expense, tra
               </View>
             </>
           )}
+          {isOfflineId(tx.id) && (
+            <>
+              <Text style={[styles.metadataSeparator, { color: theme.textTertiary }]}>•</Text>
+              <View style={styles.autoBadge}>
+                <Icon name="cloud-upload-outline" size={10} color={theme.warning} />
+                <Text style={[styles.autoText, { color: theme.warning }]}>Pending sync</Text>
+              </View>
+            </>
+          )}
         </View>
         {!isIncome && tags.length > 0 && (
           <View style={styles.tagsContainer}>
@@ -211,10 +282,10 @@ const TransactionCardComponent: React.FC<TransactionCardProps> = ({ expense, tra
         <Text
           style={[
             styles.amount,
-            { color: isIncome ? theme.income : theme.expense },
+            { color: isTransfer ? theme.text : isIncome ? theme.income : theme.expense },
           ]}
         >
-          {isIncome ? '+' : '-'}{formatTransactionAmount(
+          {isTransfer ? '' : isIncome ? '+' : '-'}{formatTransactionAmount(
             tx.amount ?? 0,
             tx.originalAmount,
             tx.originalCurrency
@@ -275,7 +346,9 @@ export const TransactionCard = React.memo(TransactionCardComponent, (prevProps,
     prevProps.expense?.amount === nextProps.expense?.amount &&
     prevProps.transaction?.amount === nextProps.transaction?.amount &&
     prevProps.onPress === nextProps.onPress &&
-    prevProps.onLongPress === nextProps.onLongPress
+    prevProps.onLongPress === nextProps.onLongPress &&
+    prevProps.highlightTerms === nextProps.highlightTerms &&
+    prevProps.selected === nextProps.selected
   );
 });
 
@@ -304,6 +377,13 @@ const styles = StyleSheet.create({
     ...typography.titleMedium,
     marginBottom: 4,
   },
+  highlight: {
+    fontWeight: '700',
+  },
+  notes: {
+    ...typography.bodySmall,
+    marginBottom: 2,
+  },
   date: {
     ...typography.bodySmall,
   },
@@ -28,6 +28,7 @@ interface CategoryBarChartProps {
   title?: string;
   showLegend?: boolean;
   maxBars?: number;
+  width?: number; // Space the card is laid out in (defaults to the screen width)
 }
 
 export const CategoryBarChart: React.FC<CategoryBarChartProps> = ({
@@ -35,6 +36,7 @@ export const CategoryBarChart: React.FC<CategoryBarChartProps> = ({
   title = 'Spending by Category',
   showLegend = true,
   maxBars = 6,
+  width = SCREEN_WIDTH,
 }) => {
   const { theme, isDark } = useTheme();
   const { formatCurrency, convertFromUSD, getCurrencySymbol } = useCurrency();
@@ -191,7 +193,7 @@ export const CategoryBarChart: React.FC<CategoryBarChartProps> = ({
               yAxisTextStyle={[styles.axisLabel, { color: theme.textTertiary }]}
               xAxisLabelTextStyle={[styles.xAxisLabel, { color: theme.textSecondary }]}
               height={180}
-              width={SCREEN_WIDTH - 80}
+              width={width - 80}
               maxValue={maxValue}
               formatYLabel={formatYLabel}
               yAxisLabelWidth={50}
@@ -26,9 +26,11 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 interface SpendingChartProps {
   data: Array<{ date: string; amount: number }>;
   timeRange: 'week' | 'month';
-  onTimeRangeChange: (range: 'week' | 'month') => void;
+  onTimeRangeChange?: (range: 'week' | 'month') => void; // Omit to hide the 7D/30D toggle
   enableRangeSelection?: boolean;
   enableDynamicYAxis?: boolean;
+  title?: string;
+  width?: number; // Space the card is laid out in (defaults to the screen width)
 }
 
 export const SpendingChart: React.FC<SpendingChartProps> = ({
@@ -37,12 +39,14 @@ export const SpendingChart: React.FC<SpendingChartProps> = ({
   onTimeRangeChange,
   enableRangeSelection = true,
   enableDynamicYAxis = true,
+  title = 'Spending History',
+  width = SCREEN_WIDTH,
 }) => {
   const { theme, isDark } = useTheme();
   const { formatCurrency, convertFromUSD, getCurrencySymbol } = useCurrency();
   const currencySymbol = getCurrencySymbol();
 
-  const chartWidth = SCREEN_WIDTH - 50;
+  const chartWidth = width - 50;
   const chartHeight = CHART_CONFIG.defaultHeight;
   
   const chartSpacing = useMemo(() => {
@@ -174,7 +178,7 @@ export const SpendingChart: React.FC<SpendingChartProps> = ({
   const handleTimeRangeChange = (range: 'week' | 'month') => {
     if (range !== timeRange) {
       clearSelection();
-      onTimeRangeChange(range);
+      onTimeRangeChange?.(range);
     }
   };
 
@@ -192,7 +196,7 @@ export const SpendingChart: React.FC<SpendingChartProps> = ({
       <View style={styles.header}>
         <View style={styles.titleSection}>
           <Text style={[styles.title, { color: theme.text }]}>
-            Spending History
+            {title}
           </Text>
           {hasData && (
             <View style={styles.statsRow}>
@@ -213,6 +217,7 @@ export const SpendingChart: React.FC<SpendingChartProps> = ({
           )}
         </View>
 
+        {onTimeRangeChange && (
         <View style={styles.toggleContainer}>
           {(['week', 'month'] as const).map((range) => (
             <TouchableOpacity
@@ -245,6 +250,7 @@ export const SpendingChart: React.FC<SpendingChartProps> = ({
             </TouchableOpacity>
           ))}
         </View>
+        )}
       </View>
 
       {/* Empty state when no data */}
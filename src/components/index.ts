@@ -41,7 +41,24 @@ export { default as GradientCard } from './GradientCard';
 export { default as IconButton } from './IconButton';
 export { CurrencySelector } from './CurrencySelector';
 export { CategoryPickerModal } from './CategoryPickerModal';
+export { CSVMappingModal } from './CSVMappingModal';
+export { CategoryMappingModal } from './CategoryMappingModal';
+export { DuplicateReviewModal } from './DuplicateReviewModal';
+export { DuplicateScanModal } from './DuplicateScanModal';
+export { BulkEditModal } from './BulkEditModal';
+export type { BulkEditMode } from './BulkEditModal';
+export { AIThreadListModal } from './AIThreadListModal';
+export { AIActionCard } from './AIActionCard';
+export type { AIActionCardStatus } from './AIActionCard';
 export { CreateCategoryModal } from './CreateCategoryModal';
+export { RecurrenceScheduleFields } from './RecurrenceScheduleFields';
+export type { FrequencyOption } from './RecurrenceScheduleFields';
+export { RecurringExpensePromptModal } from './RecurringExpensePromptModal';
+export { SavingsGoalCard } from './SavingsGoalCard';
+export { AccountChips } from './AccountChips';
+export { MemberChips } from './MemberChips';
+export { SplitEditor, createSplitDraft } from './SplitEditor';
+export type { SplitDraft } from './SplitEditor';
 export { PullToRefreshScrollView } from './PullToRefreshScrollView';
 export { PullToRefreshFlatList } from './PullToRefreshFlatList';
 export { AlertDialog } from './AlertDialog';
@@ -9,6 +9,7 @@ interface ForecastData {
   predictedAmount: number;
   confidence: 'high' | 'medium' | 'low';
   factors: string[];
+  scheduledAmount?: number;
   rateLimit?: {
     remaining: number;
     resetAt: number;
@@ -58,6 +59,15 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({ data }) => {
       <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
           Predicted spending based on your recent habits
       </Text>
+
+      {!!data.scheduledAmount && (
+        <View style={styles.scheduledRow}>
+          <Icon name="calendar-sync" size={14} color={theme.textTertiary} />
+          <Text style={[styles.subtitle, { color: theme.textTertiary }]}>
+            Includes {formatCurrency(data.scheduledAmount)} in recurring payments
+          </Text>
+        </View>
+      )}
     </View>
   );
 };
@@ -104,5 +114,11 @@ const styles = StyleSheet.create({
   },
   subtitle: {
     ...typography.bodySmall,
+  },
+  scheduledRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
   }
 });
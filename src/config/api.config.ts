@@ -76,7 +76,9 @@ export const API_ENDPOINTS = {
     MONTHLY: '/expenses/monthly',
     STATS_MONTHLY: '/expenses/stats/monthly',
     DETAIL: '/expenses/:id',
-    BATCH: '/expenses/batch'
+    BATCH: '/expenses/batch', // POST creates, PUT updates
+    BATCH_DELETE: '/expenses/batch/delete',
+    RECURRING: '/expenses/recurring'
   },
 
   // Categories
@@ -94,9 +96,40 @@ export const API_ENDPOINTS = {
   INCOME: {
     SOURCES: '/income/sources',
     TRANSACTIONS: '/income/transactions',
+    TRANSACTIONS_BATCH: '/income/transactions/batch',
+    TRANSACTIONS_BATCH_DELETE: '/income/transactions/batch/delete',
     STATS_MONTHLY: '/income/stats/monthly'
   },
 
+  // Accounts and transfers between them
+  ACCOUNTS: {
+    LIST: '/accounts',
+    DETAIL: '/accounts/:id'
+  },
+  TRANSFERS: {
+    LIST: '/transfers',
+    DETAIL: '/transfers/:id'
+  },
+
+  // Shared household budgets
+  HOUSEHOLD: {
+    DETAIL: '/household',
+    LEAVE: '/household/leave',
+    MEMBER: '/household/members/:id',
+    INVITES: '/household/invites',
+    INVITE_DETAIL: '/household/invites/:id',
+    MY_INVITES: '/household/invites/received',
+    ACCEPT_INVITE: '/household/invites/:id/accept',
+    DECLINE_INVITE: '/household/invites/:id/decline'
+  },
+
+  // Savings goals
+  GOALS: {
+    LIST: '/goals',
+    DETAIL: '/goals/:id',
+    CONTRIBUTIONS: '/goals/:id/contributions'
+  },
+
   // Analytics
   ANALYTICS: {
     STATS: '/analytics/stats',
@@ -111,6 +144,11 @@ export const API_ENDPOINTS = {
     FORECAST: '/analytics/forecast'
   },
 
+  // Incremental sync for the local database (changes since an updatedAt cursor)
+  SYNC: {
+    CHANGES: '/sync/changes'
+  },
+
   // Subscriptions
   SUBSCRIPTIONS: {
     STATUS: '/subscriptions/status',
@@ -123,7 +161,8 @@ export const API_ENDPOINTS = {
   // Currency
   CURRENCY: {
     CONVERT: '/currency/convert',
-    EXCHANGE_RATE: '/currency/exchange-rate'
+    EXCHANGE_RATE: '/currency/exchange-rate',
+    EXCHANGE_RATE_HISTORY: '/currency/exchange-rate/history'
   },
 
   // Tags
@@ -146,6 +185,8 @@ export const API_ENDPOINTS = {
     HISTORY: '/ai/history',
     LIMITS: '/ai/limits',
     THREADS: '/ai/threads',
+    THREAD_DETAIL: '/ai/threads/:id',
+    THREAD_MESSAGES: '/ai/threads/:id/messages',
     TRANSCRIBE_AUDIO: '/ai/transcribe-audio',
     PARSE_TRANSACTIONS: '/ai/parse-transactions',
     EXTRACT_RECEIPT: '/ai/extract-receipt'
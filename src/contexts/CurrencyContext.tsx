@@ -1,7 +1,8 @@
 /**
  * CurrencyContext
  * Purpose: Provides global currency state and formatting utilities
- * Features: Currency selection, symbol formatting, currency change notifications
+ * Features: Currency selection, symbol formatting, currency change notifications,
+ * conversions at the exchange rate of a given date
  */
 
 import React, { createContext, useContext, useMemo, useCallback, useState, useEffect, ReactNode, useRef } from 'react';
@@ -13,6 +14,7 @@ import {
   Currency,
 } from '../services/currencyService';
 import { apiService } from '../services/api';
+import { DatedRateRequest, getRateOnDate, loadRatesForTransactions, revalueTransaction } from '../services/fxRateService';
 import { logger } from '../utils/logger';
 
 const DECIMAL_TOGGLE_KEY = '@finly_decimal_enabled';
@@ -48,6 +50,37 @@ interface CurrencyContextType {
    * @returns Amount in display currency
    */
   convertFromUSD: (amount: number) => number;
+  /**
+   * Convert amount from display currency to USD at the exchange rate of a date
+   * Use this when saving a backdated amount. Falls back to the nearest cached date, then to today's rate
+   * @param amount - Amount in display currency
+   * @param date - Date of the transaction
+   * @returns Amount in USD
+   */
+  convertToUSDOnDate: (amount: number, date: string | Date) => number;
+  /**
+   * Convert amount from USD to display currency at the exchange rate of a date
+   * Falls back to the nearest cached date, then to today's rate
+   * @param amount - Amount in USD
+   * @param date - Date of the transaction
+   * @returns Amount in display currency
+   */
+  convertFromUSDOnDate: (amount: number, date: string | Date) => number;
+  /**
+   * Fetch and cache the display currency's rates for these dates, plus the rates of each
+   * entry's originalCurrency when one is given
+   * The *OnDate conversions and getTransactionValueOnDate only see rates that have been loaded
+   */
+  loadRatesForDates: (dates: Array<string | Date | DatedRateRequest>) => Promise<void>;
+  /**
+   * Value of a transaction in the display currency at the rates of its own date
+   * @param amount - Amount in USD (from database)
+   * @param date - Date of the transaction
+   * @param originalAmount - Original amount in original currency (if available)
+   * @param originalCurrency - Original currency code (if available)
+   * @returns Original amount if entered in the display currency, otherwise converted on the transaction date
+   */
+  getTransactionValueOnDate: (amount: number, date: string | Date, originalAmount?: number, originalCurrency?: string) => number;
   /**
    * Get the display amount for a transaction, preferring originalAmount if available
    * @param amount - Amount in USD (from database)
@@ -130,6 +163,8 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
   const [showDecimals, setShowDecimalsState] = useState<boolean>(true);
   const [exchangeRate, setExchangeRate] = useState<number | null>(null);
   const [isLoadingRate, setIsLoadingRate] = useState<boolean>(false);
+  // Bumped when dated rates are loaded so the *OnDate conversions are recreated
+  const [datedRatesVersion, setDatedRatesVersion] = useState<number>(0);
   const exchangeRateRef = useRef<number | null>(null);
 
   useEffect(() => {
@@ -340,6 +375,56 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
     return amount * rate;
   }, [currencyCode, exchangeRate]);
 
+  /**
+   * Convert amount from display currency to USD at the exchange rate of a date
+   * Falls back to the nearest cached date, then to today's rate
+   */
+  const convertToUSDOnDate = useCallback((amount: number, date: string | Date): number => {
+    if (currencyCode.toUpperCase() === 'USD') {
+      return amount;
+    }
+    const rate = getRateOnDate(currencyCode, date) || exchangeRateRef.current || exchangeRate || 1;
+    return amount / rate;
+  }, [currencyCode, exchangeRate, datedRatesVersion]);
+
+  /**
+   * Convert amount from USD to display currency at the exchange rate of a date
+   * Falls back to the nearest cached date, then to today's rate
+   */
+  const convertFromUSDOnDate = useCallback((amount: number, date: string | Date): number => {
+    if (currencyCode.toUpperCase() === 'USD') {
+      return amount;
+    }
+    const rate = getRateOnDate(currencyCode, date) || exchangeRateRef.current || exchangeRate || 1;
+    return amount * rate;
+  }, [currencyCode, exchangeRate, datedRatesVersion]);
+
+  const loadRatesForDates = useCallback(async (dates: Array<string | Date | DatedRateRequest>): Promise<void> => {
+    await loadRatesForTransactions(
+      dates.map((entry) => (typeof entry === 'string' || entry instanceof Date ? { date: entry } : entry)),
+      currencyCode
+    );
+    setDatedRatesVersion((version) => version + 1);
+  }, [currencyCode]);
+
+  /**
+   * Value of a transaction in the display currency at the rates of its own date
+   * Load its rates first with loadRatesForDates({ date, originalCurrency })
+   */
+  const getTransactionValueOnDate = useCallback((
+    amount: number,
+    date: string | Date,
+    originalAmount?: number,
+    originalCurrency?: string
+  ): number => {
+    if (amount === undefined || amount === null || isNaN(amount)) {
+      logger.warn('[CurrencyContext] Invalid amount provided to getTransactionValueOnDate:', amount);
+      return 0;
+    }
+    const currentRate = exchangeRateRef.current || exchangeRate || 1;
+    return revalueTransaction({ amount, date, originalAmount, originalCurrency }, currencyCode, currentRate);
+  }, [currencyCode, exchangeRate, datedRatesVersion]);
+
   /**
    * Get the display amount for a transaction, preferring originalAmount if available
    * @param amount - Amount in USD (from database)
@@ -426,6 +511,10 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
       exchangeRate,
       convertToUSD,
       convertFromUSD,
+      convertToUSDOnDate,
+      convertFromUSDOnDate,
+      loadRatesForDates,
+      getTransactionValueOnDate,
       getTransactionDisplayAmount,
       formatTransactionAmount,
       reloadCurrency,
@@ -441,6 +530,10 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
       exchangeRate,
       convertToUSD,
       convertFromUSD,
+      convertToUSDOnDate,
+      convertFromUSDOnDate,
+      loadRatesForDates,
+      getTransactionValueOnDate,
       getTransactionDisplayAmount,
       formatTransactionAmount,
       reloadCurrency,
@@ -7,6 +7,9 @@
 
 import { useState, useCallback, useRef, useMemo } from 'react';
 import { apiService } from '../services/api';
+import { localDatabase } from '../services/localDatabase';
+import { calculateRecurringExpensesForPeriod } from '../services/recurringExpenseService';
+import { getAccountBalanceEffect } from '../services/accountService';
 import { MonthlyStats, UnifiedTransaction } from '../types';
 
 // Cache TTL in milliseconds (5 minutes)
@@ -22,10 +25,17 @@ interface CacheEntry {
 const balanceHistoryCache = new Map<string, CacheEntry>();
 
 /**
- * Generate cache key from date range
+ * Generate cache key from date range (and account, when scoped to one)
  */
-const getCacheKey = (startDate: Date, endDate: Date): string => {
-  return `${startDate.toISOString().split('T')[0]}_${endDate.toISOString().split('T')[0]}`;
+const getCacheKey = (
+  startDate: Date,
+  endDate: Date,
+  includeInsights: boolean = true,
+  accountId?: string | null
+): string => {
+  let key = `${startDate.toISOString().split('T')[0]}_${endDate.toISOString().split('T')[0]}`;
+  if (accountId) key = `${key}_${accountId}`;
+  return includeInsights ? key : `${key}_noinsights`;
 };
 
 /**
@@ -49,6 +59,7 @@ export interface DailyBalance {
   balance: number;
   income?: number;
   expenses?: number;
+  transfers?: number; // Net transfers into the account (account-scoped history only)
 }
 
 export interface PeriodStats {
@@ -90,6 +101,7 @@ export interface BalanceHistoryData {
     endOfMonth: number;
     daysRemaining: number;
     dailySpendingRate: number;
+    scheduledExpenses: number; // Recurring expenses still due before month end
     isPositive: boolean;
   };
   insights: BalanceInsight[];
@@ -143,11 +155,18 @@ const formatPeriodLabel = (startDate: Date, endDate: Date): string => {
   )} - ${endDate.toLocaleDateString('en-US', options)}, ${endYear}`;
 };
 
+interface UseBalanceHistoryOptions {
+  /** Fetch AI insights for the period (default: true); skip for data-only consumers */
+  includeInsights?: boolean;
+  /** Limit history to one account, including its transfers (default: all accounts) */
+  accountId?: string | null;
+}
+
 /**
  * useBalanceHistory - Hook for fetching balance history with filtering
  * @returns Balance data, stats, loading state, and load function
  */
-export const useBalanceHistory = () => {
+export const useBalanceHistory = ({ includeInsights = true, accountId = null }: UseBalanceHistoryOptions = {}) => {
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false); // Background refresh indicator
   const [balanceData, setBalanceData] = useState<BalanceHistoryData | null>(
@@ -183,7 +202,8 @@ export const useBalanceHistory = () => {
 
     transactions.forEach(t => {
       const txDate = new Date(t.date);
-      if (txDate >= startDate && txDate <= endDate) {
+      // Transfers move money between accounts; they are neither income nor spending
+      if (t.type !== 'transfer' && txDate >= startDate && txDate <= endDate) {
         transactionCount++;
         if (t.type === 'income') {
           totalIncome += t.amount;
@@ -211,6 +231,27 @@ export const useBalanceHistory = () => {
     };
   };
 
+  /**
+   * Sum a day's transactions; `transfers` is the net amount moved into the selected account
+   */
+  const summarizeDay = (transactions: UnifiedTransaction[]) => {
+    let income = 0;
+    let expenses = 0;
+    let transfers = 0;
+
+    transactions.forEach(t => {
+      if (t.type === 'transfer') {
+        if (accountId) transfers += getAccountBalanceEffect(t, accountId);
+      } else if (t.type === 'income') {
+        income += t.amount;
+      } else {
+        expenses += t.amount;
+      }
+    });
+
+    return { income, expenses, transfers };
+  };
+
   /**
    * Load balance history for a given date range
    * @param customRange - Optional custom date range (uses state if not provided)
@@ -219,7 +260,7 @@ export const useBalanceHistory = () => {
   const loadBalanceHistory = useCallback(
     async (customRange?: DateRangeFilter, forceRefresh: boolean = false) => {
       const range = customRange || dateRange;
-      const cacheKey = getCacheKey(range.startDate, range.endDate);
+      const cacheKey = getCacheKey(range.startDate, range.endDate, includeInsights, accountId);
 
       // Track this fetch
       currentFetchKey.current = cacheKey;
@@ -259,7 +300,7 @@ export const useBalanceHistory = () => {
 
       await fetchFreshData(range, cacheKey);
     },
-    [dateRange, balanceData]
+    [dateRange, balanceData, includeInsights, accountId]
   );
 
   /**
@@ -286,22 +327,35 @@ export const useBalanceHistory = () => {
       const currentStats = await apiService.getMonthlyStats();
       setStats(currentStats);
 
+      // A single account walks back from its own balance instead of the overall one
+      let latestBalance = currentStats.balance;
+      if (accountId) {
+        const accounts = await apiService.getAccounts();
+        latestBalance = accounts.find(a => a.id === accountId)?.balance ?? 0;
+      }
+
       // 2. Prepare dates with extra buffer for calculation
       const fetchStartDate = new Date(prevStartDate);
       fetchStartDate.setDate(fetchStartDate.getDate() - 1);
 
-      // 3. Fetch ALL transactions for both current and previous period
-      const transactionsResponse = await apiService.getUnifiedTransactions({
+      // 3. Get ALL transactions for both current and previous period
+      // From the local database once it has synced; the server only before the first sync
+      const transactionFilter = {
         startDate: fetchStartDate.toISOString(),
         endDate: range.endDate.toISOString(),
-        limit: 10000,
-        type: 'all'
-      });
-
-      // Handle response type (array or paginated object)
-      const allTransactions = Array.isArray(transactionsResponse)
-        ? transactionsResponse
-        : transactionsResponse.transactions;
+        type: 'all' as const,
+        ...(accountId && { accountId, includeTransfers: true })
+      };
+      let allTransactions: UnifiedTransaction[];
+      if (await localDatabase.hasSynced()) {
+        allTransactions = await localDatabase.queryTransactions(transactionFilter);
+      } else {
+        const transactionsResponse = await apiService.getUnifiedTransactions({ ...transactionFilter, limit: 10000 });
+        // Handle response type (array or paginated object)
+        allTransactions = Array.isArray(transactionsResponse)
+          ? transactionsResponse
+          : transactionsResponse.transactions;
+      }
 
       // Separate transactions for current and previous periods
       const currentPeriodTransactions = allTransactions.filter(t => {
@@ -326,7 +380,7 @@ export const useBalanceHistory = () => {
 
       // 4. Backward Calculation from current balance
       const dailyBalances: DailyBalance[] = [];
-      let currentBalance = currentStats.balance;
+      let currentBalance = latestBalance;
 
       // First, calculate backwards from today to get balance at end date
       const today = new Date();
@@ -340,19 +394,9 @@ export const useBalanceHistory = () => {
         d.setDate(d.getDate() - i);
         const dateKey = d.toISOString().split('T')[0];
 
-        const daysTransactions = transactionsByDate[dateKey] || [];
-        let daysIncome = 0;
-        let daysExpense = 0;
-
-        daysTransactions.forEach(t => {
-          if (t.type === 'income') {
-            daysIncome += t.amount;
-          } else {
-            daysExpense += t.amount;
-          }
-        });
+        const day = summarizeDay(transactionsByDate[dateKey] || []);
 
-        currentBalance = currentBalance - daysIncome + daysExpense;
+        currentBalance = currentBalance - day.income + day.expenses - day.transfers;
       }
 
       // Store the end balance for current period
@@ -364,26 +408,17 @@ export const useBalanceHistory = () => {
         d.setDate(d.getDate() - i);
         const dateKey = d.toISOString().split('T')[0];
 
-        const daysTransactions = transactionsByDate[dateKey] || [];
-        let daysIncome = 0;
-        let daysExpense = 0;
-
-        daysTransactions.forEach(t => {
-          if (t.type === 'income') {
-            daysIncome += t.amount;
-          } else {
-            daysExpense += t.amount;
-          }
-        });
+        const day = summarizeDay(transactionsByDate[dateKey] || []);
 
         dailyBalances.unshift({
           date: dateKey,
           balance: currentBalance,
-          income: daysIncome,
-          expenses: daysExpense
+          income: day.income,
+          expenses: day.expenses,
+          ...(accountId && { transfers: day.transfers })
         });
 
-        currentBalance = currentBalance - daysIncome + daysExpense;
+        currentBalance = currentBalance - day.income + day.expenses - day.transfers;
       }
 
       // Current start balance is now in currentBalance
@@ -398,19 +433,9 @@ export const useBalanceHistory = () => {
         d.setDate(d.getDate() - i);
         const dateKey = d.toISOString().split('T')[0];
 
-        const daysTransactions = transactionsByDate[dateKey] || [];
-        let daysIncome = 0;
-        let daysExpense = 0;
-
-        daysTransactions.forEach(t => {
-          if (t.type === 'income') {
-            daysIncome += t.amount;
-          } else {
-            daysExpense += t.amount;
-          }
-        });
+        const day = summarizeDay(transactionsByDate[dateKey] || []);
 
-        prevBalance = prevBalance - daysIncome + daysExpense;
+        prevBalance = prevBalance - day.income + day.expenses - day.transfers;
       }
 
       const prevStartBalance = prevBalance;
@@ -493,13 +518,24 @@ export const useBalanceHistory = () => {
 
         const dailySpendingRate =
           daysWithSpending > 0 ? totalSpending / daysWithSpending : 0;
+
+        // Known upcoming bills (rent, subscriptions) on top of the day-to-day rate.
+        // Schedules are not tied to an account, so an account projection leaves them out.
+        const monthEnd = new Date(now.getFullYear(), now.getMonth(), daysInMonth);
+        const scheduledExpenses = accountId
+          ? 0
+          : await calculateRecurringExpensesForPeriod(now, monthEnd);
+
         const projectedEndOfMonth =
-          currentStats.balance - dailySpendingRate * daysRemaining;
+          latestBalance -
+          dailySpendingRate * daysRemaining -
+          scheduledExpenses;
 
         projectionData = {
           endOfMonth: projectedEndOfMonth,
           daysRemaining,
           dailySpendingRate,
+          scheduledExpenses,
           isPositive: projectedEndOfMonth >= 0
         };
       } else {
@@ -511,6 +547,7 @@ export const useBalanceHistory = () => {
               : 0,
           daysRemaining: 0,
           dailySpendingRate: periodStats.totalExpenses / (daysDiff || 1),
+          scheduledExpenses: 0,
           isPositive:
             (dailyBalances.length > 0
               ? dailyBalances[dailyBalances.length - 1].balance
@@ -520,15 +557,17 @@ export const useBalanceHistory = () => {
 
       // 9. Fetch insights from backend (handles AI + smart fallback)
       let insights: BalanceHistoryData['insights'] = [];
-      try {
-        const backendInsights = await apiService.getBalanceInsights({
-          dailyBalances,
-          monthlyBalances: [],
-          projection: projectionData
-        });
-        insights = backendInsights || [];
-      } catch (e) {
-        console.warn('[useBalanceHistory] Failed to fetch insights:', e);
+      if (includeInsights) {
+        try {
+          const backendInsights = await apiService.getBalanceInsights({
+            dailyBalances,
+            monthlyBalances: [],
+            projection: projectionData
+          });
+          insights = backendInsights || [];
+        } catch (e) {
+          console.warn('[useBalanceHistory] Failed to fetch insights:', e);
+        }
       }
 
       const newData: BalanceHistoryData = {
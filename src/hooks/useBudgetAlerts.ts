@@ -0,0 +1,72 @@
+/**
+ * useBudgetAlerts - Budget alert trigger hook
+ * Purpose: Re-evaluate budget alerts after expense/budget mutations and when the app returns to the foreground
+ * Features: Debounced evaluation (batch imports trigger one check), opens the category when an alert is tapped
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { onMutation } from '../services/apiClient';
+import { evaluateBudgetAlerts } from '../services/budgetAlertService';
+import logger from '../utils/logger';
+
+// Wait for bursts of mutations (bulk add, CSV import) to settle
+const EVALUATION_DELAY_MS = 2000;
+
+interface UseBudgetAlertsOptions {
+  /** Only evaluate for an authenticated user */
+  isReady: boolean;
+  /** Called when the user taps a budget alert */
+  onOpenCategory?: (categoryId: string) => void;
+}
+
+export const useBudgetAlerts = ({ isReady, onOpenCategory }: UseBudgetAlertsOptions): void => {
+  const onOpenCategoryRef = useRef(onOpenCategory);
+  onOpenCategoryRef.current = onOpenCategory;
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleEvaluation = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        evaluateBudgetAlerts().catch((error) => {
+          logger.error('[BudgetAlerts] Failed to evaluate alerts:', error);
+        });
+      }, EVALUATION_DELAY_MS);
+    };
+
+    const unsubscribe = onMutation((url) => {
+      // Expense changes move totalSpent, category changes move the budget itself
+      if (url.includes('/expenses') || url.includes('/categories')) {
+        scheduleEvaluation();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        scheduleEvaluation();
+      }
+    });
+
+    const responseSubscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      const data = response.notification.request.content.data as { type?: string; categoryId?: string } | undefined;
+      if (data?.type === 'budget-alert' && data.categoryId) {
+        onOpenCategoryRef.current?.(data.categoryId);
+      }
+    });
+
+    scheduleEvaluation();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+      appStateSubscription.remove();
+      responseSubscription.remove();
+    };
+  }, [isReady]);
+};
+
+export default useBudgetAlerts;
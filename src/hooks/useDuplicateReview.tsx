@@ -0,0 +1,74 @@
+/**
+ * useDuplicateReview Hook
+ * Purpose: Check new transactions for likely duplicates and let the user decide before saving
+ * Used by every import path (voice, bulk, receipt, CSV/statement import)
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { DuplicateReviewModal } from '../components/DuplicateReviewModal';
+import {
+  checkForDuplicates,
+  DuplicateAction,
+  DuplicateCandidate,
+  DuplicateMatch,
+} from '../services/duplicateDetectionService';
+import { UnifiedTransaction } from '../types';
+
+export interface DuplicateResolution {
+  action: DuplicateAction;
+  existing?: UnifiedTransaction; // Set when the entry matched an existing transaction
+}
+
+export const useDuplicateReview = () => {
+  const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+  const [visible, setVisible] = useState(false);
+  const resolveRef = useRef<((actions: Record<number, DuplicateAction> | null) => void) | null>(null);
+
+  /**
+   * Resolves with one resolution per candidate (in the same order),
+   * or null if the user dismissed the review
+   */
+  const reviewDuplicates = useCallback(
+    async <T extends DuplicateCandidate>(candidates: T[]): Promise<DuplicateResolution[] | null> => {
+      const found = await checkForDuplicates(candidates);
+      if (found.length === 0) {
+        return candidates.map(() => ({ action: 'keep' }));
+      }
+
+      const actions = await new Promise<Record<number, DuplicateAction> | null>((resolve) => {
+        resolveRef.current = resolve;
+        setMatches(found);
+        setVisible(true);
+      });
+      if (!actions) return null;
+
+      return candidates.map((_, index) => {
+        const match = found.find((m) => m.index === index);
+        return match
+          ? { action: actions[index] ?? 'skip', existing: match.existing }
+          : { action: 'keep' };
+      });
+    },
+    []
+  );
+
+  const finish = (actions: Record<number, DuplicateAction> | null) => {
+    setVisible(false);
+    resolveRef.current?.(actions);
+    resolveRef.current = null;
+  };
+
+  const DuplicateReviewComponent = (
+    <DuplicateReviewModal
+      visible={visible}
+      matches={matches}
+      onConfirm={(actions) => finish(actions)}
+      onClose={() => finish(null)}
+    />
+  );
+
+  return {
+    reviewDuplicates,
+    DuplicateReviewComponent,
+  };
+};
@@ -0,0 +1,58 @@
+/**
+ * useLocalDatabaseSync - Local database refresh hook
+ * Purpose: Keep the SQLite copy of transactions, categories, income sources and tags current
+ * Features: Sync on sign-in and when the app returns to the foreground, debounced sync after mutations
+ */
+
+import { useEffect } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { onMutation } from '../services/apiClient';
+import { localDatabase } from '../services/localDatabase';
+
+// Let bursts of mutations (bulk add, CSV import, offline replay) settle before pulling changes
+const SYNC_DELAY_MS = 1500;
+
+// Endpoints whose changes show up in the local database
+const SYNCED_URLS = ['/expenses', '/income', '/categories', '/tags', '/transfers'];
+
+interface UseLocalDatabaseSyncOptions {
+  /** Only sync for a signed-in user */
+  isReady: boolean;
+}
+
+export const useLocalDatabaseSync = ({ isReady }: UseLocalDatabaseSyncOptions): void => {
+  useEffect(() => {
+    if (!isReady) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleSync = (delay: number = SYNC_DELAY_MS) => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        localDatabase.sync();
+      }, delay);
+    };
+
+    const unsubscribe = onMutation((url) => {
+      if (SYNCED_URLS.some((prefix) => url.includes(prefix))) {
+        scheduleSync();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        scheduleSync(0);
+      }
+    });
+
+    scheduleSync(0);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+      appStateSubscription.remove();
+    };
+  }, [isReady]);
+};
+
+export default useLocalDatabaseSync;
@@ -0,0 +1,76 @@
+/**
+ * useOfflineSync - Offline outbox bridge hook
+ * Purpose: Starts the offline queue and mirrors its events into the Redux expenses slice
+ * Features: Optimistic updates for queued mutations, sync status and conflict tracking
+ */
+
+import { useEffect } from 'react';
+import { useAppDispatch } from '../store';
+import {
+  optimisticExpenseUpserted,
+  optimisticExpenseUpdated,
+  optimisticExpenseRemoved,
+  offlineExpenseSynced,
+  offlineQueueStatusChanged,
+} from '../store/slices/expensesSlice';
+import { offlineQueueService, OfflineQueueEvent } from '../services/offlineQueueService';
+import { Expense } from '../types';
+import logger from '../utils/logger';
+
+interface UseOfflineSyncOptions {
+  /** Only run the queue for an authenticated user */
+  isReady: boolean;
+}
+
+export const useOfflineSync = ({ isReady }: UseOfflineSyncOptions): void => {
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    const handleEvent = (event: OfflineQueueEvent) => {
+      switch (event.type) {
+        case 'queued': {
+          const { mutation } = event;
+          if (mutation.type === 'DELETE_EXPENSE' || mutation.type === 'DELETE_INCOME') {
+            dispatch(optimisticExpenseRemoved(mutation.targetId));
+          } else if (event.expense) {
+            dispatch(optimisticExpenseUpserted(event.expense));
+          } else if (event.changes) {
+            dispatch(optimisticExpenseUpdated({ id: mutation.targetId, changes: event.changes }));
+          }
+          break;
+        }
+        case 'synced':
+          dispatch(
+            offlineExpenseSynced({
+              clientId: event.mutation.targetId,
+              expense: event.mutation.type.endsWith('_INCOME') ? undefined : (event.record as Expense | undefined),
+            })
+          );
+          break;
+        case 'status':
+          dispatch(
+            offlineQueueStatusChanged({
+              isOnline: event.isOnline,
+              pendingCount: event.pendingCount,
+              conflicts: event.conflicts,
+            })
+          );
+          break;
+        case 'conflict':
+          logger.warn('[OfflineSync] Conflict needs user attention', { reason: event.conflict.reason });
+          break;
+      }
+    };
+
+    const unsubscribe = offlineQueueService.subscribe(handleEvent);
+    offlineQueueService.initialize().catch((error) => {
+      logger.error('[OfflineSync] Failed to initialize offline queue:', error);
+    });
+
+    return unsubscribe;
+  }, [isReady, dispatch]);
+};
+
+export default useOfflineSync;
@@ -0,0 +1,106 @@
+/**
+ * useRecurringExpensePrompts Hook
+ * Purpose: Post due recurring expenses and prompt for the ones that need confirmation
+ * Runs when the host screen asks (e.g. on focus) and whenever the app returns to the foreground
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { RecurringExpensePromptModal, getOccurrenceKey } from '../components/RecurringExpensePromptModal';
+import {
+  checkAndPostRecurringExpenses,
+  confirmRecurringExpense,
+  skipRecurringExpense,
+} from '../services/recurringExpenseService';
+import { RecurringExpenseOccurrence } from '../types';
+import logger from '../utils/logger';
+
+/**
+ * @param onPosted - Called after one or more expenses were recorded (to refresh the host screen)
+ */
+export const useRecurringExpensePrompts = (onPosted?: () => void) => {
+  const [pending, setPending] = useState<RecurringExpenseOccurrence[]>([]);
+  const [visible, setVisible] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  // Payments the user chose "Remind me later" for are not prompted again this session
+  const dismissedRef = useRef(new Set<string>());
+  const onPostedRef = useRef(onPosted);
+  onPostedRef.current = onPosted;
+
+  const checkRecurringExpenses = useCallback(async () => {
+    try {
+      const result = await checkAndPostRecurringExpenses();
+      if (result.posted > 0) {
+        onPostedRef.current?.();
+      }
+
+      const unseen = result.pending.filter((o) => !dismissedRef.current.has(getOccurrenceKey(o)));
+      setPending(unseen);
+      if (unseen.length > 0) {
+        setVisible(true);
+      }
+    } catch (error) {
+      logger.error('[useRecurringExpensePrompts] Check failed:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        checkRecurringExpenses();
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [checkRecurringExpenses]);
+
+  const resolve = async (
+    occurrence: RecurringExpenseOccurrence,
+    action: (occurrence: RecurringExpenseOccurrence) => Promise<void>,
+    posted: boolean
+  ) => {
+    const key = getOccurrenceKey(occurrence);
+    setBusyKey(key);
+    try {
+      await action(occurrence);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (posted) {
+        onPostedRef.current?.();
+      }
+
+      const remaining = pending.filter((o) => getOccurrenceKey(o) !== key);
+      setPending(remaining);
+      if (remaining.length === 0) {
+        setVisible(false);
+      }
+    } catch (error) {
+      logger.error('[useRecurringExpensePrompts] Failed to resolve payment:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleClose = () => {
+    pending.forEach((o) => dismissedRef.current.add(getOccurrenceKey(o)));
+    setVisible(false);
+  };
+
+  const RecurringExpensePromptComponent = (
+    <RecurringExpensePromptModal
+      visible={visible}
+      occurrences={pending}
+      busyKey={busyKey}
+      onConfirm={(occurrence) => resolve(occurrence, confirmRecurringExpense, true)}
+      onSkip={(occurrence) => resolve(occurrence, skipRecurringExpense, false)}
+      onClose={handleClose}
+    />
+  );
+
+  return {
+    checkRecurringExpenses,
+    RecurringExpensePromptComponent,
+  };
+};
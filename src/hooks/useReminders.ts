@@ -0,0 +1,109 @@
+/**
+ * useReminders - Daily reminder and weekly digest scheduling hook
+ * Purpose: Keep local reminders topped up and skip today's reminder once a transaction is logged
+ * Features: Reschedules on foreground and after new transactions, routes reminder taps (also on cold start)
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { onMutation } from '../services/apiClient';
+import {
+  rescheduleReminders,
+  markTransactionLogged,
+  cancelReminders,
+  ReminderNotificationType,
+} from '../services/reminderService';
+import { useCurrency } from '../contexts/CurrencyContext';
+import logger from '../utils/logger';
+
+// Let bursts of new transactions settle before rebuilding the digest
+const RESCHEDULE_DELAY_MS = 2000;
+
+// New expenses (single, batch) and income transactions
+const TRANSACTION_CREATE_URLS = ['/expenses', '/expenses/batch', '/income/transactions'];
+
+interface UseRemindersOptions {
+  /** Only schedule for a signed-in, onboarded user */
+  isReady: boolean;
+  /** Called when the user taps a reminder or the weekly digest */
+  onOpenReminder?: (type: ReminderNotificationType) => void;
+}
+
+const getReminderType = (response: Notifications.NotificationResponse): ReminderNotificationType | null => {
+  const data = response.notification.request.content.data as { type?: string } | undefined;
+  return data?.type === 'daily-reminder' || data?.type === 'weekly-digest' ? data.type : null;
+};
+
+export const useReminders = ({ isReady, onOpenReminder }: UseRemindersOptions): void => {
+  const { formatCurrency } = useCurrency();
+  const formatCurrencyRef = useRef(formatCurrency);
+  formatCurrencyRef.current = formatCurrency;
+  const onOpenReminderRef = useRef(onOpenReminder);
+  onOpenReminderRef.current = onOpenReminder;
+  const wasReadyRef = useRef(isReady);
+  const handledResponseRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isReady) {
+      // Signed out: nothing to remind about
+      if (wasReadyRef.current) {
+        cancelReminders();
+      }
+      wasReadyRef.current = false;
+      return;
+    }
+    wasReadyRef.current = true;
+
+    const handleResponse = (response: Notifications.NotificationResponse) => {
+      const type = getReminderType(response);
+      const id = response.notification.request.identifier;
+      if (!type || handledResponseRef.current === id) return;
+      handledResponseRef.current = id;
+      onOpenReminderRef.current?.(type);
+    };
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleReschedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        rescheduleReminders((amount) => formatCurrencyRef.current(amount));
+      }, RESCHEDULE_DELAY_MS);
+    };
+
+    const unsubscribe = onMutation((url, method) => {
+      const path = url.split('?')[0];
+      if (method === 'POST' && TRANSACTION_CREATE_URLS.includes(path)) {
+        markTransactionLogged()
+          .then(scheduleReschedule)
+          .catch((error) => logger.error('[Reminders] Failed to record logged transaction:', error));
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        scheduleReschedule();
+      }
+    });
+
+    const responseSubscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+
+    // App launched by tapping a reminder
+    Notifications.getLastNotificationResponseAsync()
+      .then((response) => {
+        if (response) handleResponse(response);
+      })
+      .catch((error) => logger.error('[Reminders] Failed to read last notification response:', error));
+
+    scheduleReschedule();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+      appStateSubscription.remove();
+      responseSubscription.remove();
+    };
+  }, [isReady]);
+};
+
+export default useReminders;
@@ -0,0 +1,82 @@
+/**
+ * useSavingsGoals Hook
+ * Purpose: Load savings goals with progress computed from balance history
+ * Features: Projected completion dates, marks goals complete once and reports them for a celebration
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useBalanceHistory } from './useBalanceHistory';
+import {
+  getSavingsGoals,
+  updateSavingsGoal,
+  getGoalsHistoryRange,
+  getLinkedContributionTotals,
+  calculateGoalProgress,
+} from '../services/savingsGoalService';
+import { SavingsGoal, SavingsGoalProgress } from '../types';
+import logger from '../utils/logger';
+
+export const useSavingsGoals = () => {
+  // Goals only need the numbers, not the AI commentary
+  const { balanceData, loading: historyLoading, updateDateRange } = useBalanceHistory({ includeInsights: false });
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [linkedTotals, setLinkedTotals] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [completedGoal, setCompletedGoal] = useState<SavingsGoal | null>(null);
+  const updateDateRangeRef = useRef(updateDateRange);
+  updateDateRangeRef.current = updateDateRange;
+  const celebratedRef = useRef(new Set<string>());
+
+  const loadGoals = useCallback(async () => {
+    try {
+      const data = await getSavingsGoals();
+      setGoals(data);
+      if (data.length > 0) {
+        updateDateRangeRef.current(getGoalsHistoryRange(data));
+        setLinkedTotals(await getLinkedContributionTotals(data));
+      }
+    } catch (error) {
+      logger.error('[useSavingsGoals] Failed to load goals:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const progress = useMemo<SavingsGoalProgress[]>(
+    () =>
+      goals.map((goal) =>
+        calculateGoalProgress(goal, balanceData?.dailyBalances || [], linkedTotals[goal.id] || 0)
+      ),
+    [goals, balanceData, linkedTotals]
+  );
+
+  // Mark newly reached goals as completed (once) so the celebration is not repeated
+  useEffect(() => {
+    if (!balanceData) return;
+
+    progress
+      .filter((p) => p.isComplete && !p.goal.completedAt && !celebratedRef.current.has(p.goal.id))
+      .forEach((p) => {
+        celebratedRef.current.add(p.goal.id);
+        const completedAt = new Date().toISOString();
+        setGoals((prev) => prev.map((g) => (g.id === p.goal.id ? { ...g, completedAt } : g)));
+        setCompletedGoal(p.goal);
+        updateSavingsGoal(p.goal.id, { completedAt }).catch((error) => {
+          logger.error('[useSavingsGoals] Failed to mark goal completed:', error);
+        });
+      });
+  }, [progress, balanceData]);
+
+  const dismissCompletedGoal = useCallback(() => setCompletedGoal(null), []);
+
+  return {
+    goals,
+    progress,
+    loading: loading || (goals.length > 0 && historyLoading && !balanceData),
+    loadGoals,
+    completedGoal,
+    dismissCompletedGoal,
+  };
+};
+
+export default useSavingsGoals;
@@ -0,0 +1,67 @@
+/**
+ * useWidgetSync - Home screen widget refresh hook
+ * Purpose: Keep the native widgets' shared data current
+ * Features: Debounced sync after transaction/budget/account mutations, sync when the app goes to the
+ * background and when the display currency changes
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { onMutation } from '../services/apiClient';
+import { syncWidgetData, WidgetCurrency } from '../services/widgetSync';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+// Let bursts of mutations (bulk add, CSV import) settle before rebuilding the payload
+const SYNC_DELAY_MS = 2000;
+
+// Endpoints whose changes move balance, monthly totals or budget usage
+const WIDGET_DATA_URLS = ['/expenses', '/income', '/categories', '/accounts', '/transfers'];
+
+interface UseWidgetSyncOptions {
+  /** Only sync for a signed-in user */
+  isReady: boolean;
+}
+
+export const useWidgetSync = ({ isReady }: UseWidgetSyncOptions): void => {
+  const { currencyCode, getCurrencySymbol, convertFromUSD } = useCurrency();
+  const currencyRef = useRef<WidgetCurrency>({ currencyCode, currencySymbol: getCurrencySymbol(), convertFromUSD });
+  currencyRef.current = { currencyCode, currencySymbol: getCurrencySymbol(), convertFromUSD };
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleSync = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        syncWidgetData(currencyRef.current);
+      }, SYNC_DELAY_MS);
+    };
+
+    const unsubscribe = onMutation((url) => {
+      if (WIDGET_DATA_URLS.some((prefix) => url.includes(prefix))) {
+        scheduleSync();
+      }
+    });
+
+    // Flush right away when leaving the app so the widget is current on the home screen
+    const appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'background') {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        syncWidgetData(currencyRef.current);
+      }
+    });
+
+    scheduleSync();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+      appStateSubscription.remove();
+    };
+  }, [isReady, currencyCode]);
+};
+
+export default useWidgetSync;
@@ -25,7 +25,13 @@ import SharedBottomSheet from '../components/SharedBottomSheet';
 import { CreateCategoryModalProvider } from '../contexts/CreateCategoryModalContext';
 import { CreateCategoryModal } from '../components/CreateCategoryModal';
 import { useQuickActions } from '../hooks/useQuickActions';
+import { useOfflineSync } from '../hooks/useOfflineSync';
+import { useBudgetAlerts } from '../hooks/useBudgetAlerts';
+import { useReminders } from '../hooks/useReminders';
+import { useWidgetSync } from '../hooks/useWidgetSync';
+import { useLocalDatabaseSync } from '../hooks/useLocalDatabaseSync';
 import { prefetchAllScreenData } from '../services/prefetch';
+import { savePendingInviteId, consumePendingInviteId } from '../services/householdService';
 
 // Import screens
 import DashboardScreen from '../screens/DashboardScreen';
@@ -41,12 +47,18 @@ import SubscriptionScreen from '../screens/SubscriptionScreen';
 import VoiceTransactionScreen from '../screens/VoiceTransactionScreen';
 import BulkTransactionScreen from '../screens/BulkTransactionScreen';
 import PrivacySettingsScreen from '../screens/PrivacySettingsScreen';
+import NotificationSettingsScreen from '../screens/NotificationSettingsScreen';
 import ReceiptGalleryScreen from '../screens/ReceiptGalleryScreen';
 import AnalyticsScreen from '../screens/AnalyticsScreen';
 import BalanceHistoryScreen from '../screens/BalanceHistoryScreen';
 import TransactionsListScreen from '../screens/TransactionsListScreen';
 import CategoryOnboardingScreen from '../screens/CategoryOnboardingScreen';
 import IncomeManagementScreen from '../screens/IncomeManagementScreen';
+import RecurringExpensesScreen from '../screens/RecurringExpensesScreen';
+import GoalsScreen from '../screens/GoalsScreen';
+import AccountsScreen from '../screens/AccountsScreen';
+import HouseholdScreen from '../screens/HouseholdScreen';
+import SettleUpScreen from '../screens/SettleUpScreen';
 import CSVImportScreen from '../screens/CSVImportScreen';
 import ExportTransactionsScreen from '../screens/ExportTransactionsScreen';
 import AIAssistantScreen from '../screens/AIAssistantScreen';
@@ -262,6 +274,28 @@ const AppNavigator: React.FC = () => {
   const { onboardingComplete, incomeSetupComplete, refreshFlowState } = useAppFlow();
   const { reloadCurrency } = useCurrency();
 
+  // Replay offline expense/income mutations and track sync conflicts
+  useOfflineSync({ isReady: isAuthenticated });
+
+  // Incremental pull of transactions, categories, income sources and tags into SQLite
+  useLocalDatabaseSync({ isReady: isAuthenticated });
+
+  // Local notifications when category budgets cross their alert thresholds
+  useBudgetAlerts({
+    isReady: isAuthenticated,
+    onOpenCategory: (categoryId) => navigationRef.current?.navigate('CategoryDetails', { categoryId }),
+  });
+
+  // Daily logging reminder and Sunday digest; taps open voice entry or trends
+  useReminders({
+    isReady: isAuthenticated && onboardingComplete === true && incomeSetupComplete === true,
+    onOpenReminder: (type) =>
+      navigationRef.current?.navigate(type === 'daily-reminder' ? 'VoiceTransaction' : 'Trends'),
+  });
+
+  // Balance, monthly totals and top budgets for the home screen widgets
+  useWidgetSync({ isReady: isAuthenticated });
+
   // Auth status and subscription are now checked in App.tsx during splash screen
   // This effect only handles re-checking when auth state changes (e.g., after login/logout)
   // to refresh onboarding flags for returning users or after account deletion
@@ -302,6 +336,16 @@ const AppNavigator: React.FC = () => {
     }
   }, [isAuthenticated, onboardingComplete, incomeSetupComplete]);
 
+  // Open a household invite that arrived before the user signed in
+  useEffect(() => {
+    if (!(isAuthenticated && onboardingComplete && incomeSetupComplete)) return;
+    consumePendingInviteId().then((inviteId) => {
+      if (inviteId && navigationRef.current) {
+        navigationRef.current.navigate('Household', { inviteId });
+      }
+    });
+  }, [isAuthenticated, onboardingComplete, incomeSetupComplete]);
+
   // Handle deep linking from widgets
   const { openBottomSheet } = useBottomSheetActions();
 
@@ -330,6 +374,16 @@ const AppNavigator: React.FC = () => {
         if (isUserReady && navigationRef.current) {
           navigationRef.current.navigate('AIAssistant');
         }
+      } else if (url.startsWith('finly://household-invite')) {
+        // Household invite email - keep the invite until the user has signed in
+        const match = url.match(/[?&]id=([^&#]+)/);
+        if (!match) return;
+        const inviteId = decodeURIComponent(match[1]);
+        if (isUserReady && navigationRef.current) {
+          navigationRef.current.navigate('Household', { inviteId });
+        } else {
+          savePendingInviteId(inviteId);
+        }
       }
     };
 
@@ -539,6 +593,15 @@ const AppNavigator: React.FC = () => {
                   headerShown: false,
                 }}
               />
+              <Stack.Screen
+                name="NotificationSettings"
+                component={NotificationSettingsScreen}
+                options={{
+                  title: 'Notifications',
+                  presentation: 'modal',
+                  headerShown: false,
+                }}
+              />
               <Stack.Screen
                 name="PrivacyPolicy"
                 component={PrivacyPolicyScreen}
@@ -629,6 +692,51 @@ const AppNavigator: React.FC = () => {
                   headerShown: false,
                 }}
               />
+              <Stack.Screen
+                name="RecurringExpenses"
+                component={RecurringExpensesScreen}
+                options={{
+                  title: 'Recurring Expenses',
+                  presentation: 'modal',
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="Goals"
+                component={GoalsScreen}
+                options={{
+                  title: 'Savings Goals',
+                  presentation: 'modal',
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="Accounts"
+                component={AccountsScreen}
+                options={{
+                  title: 'Accounts',
+                  presentation: 'modal',
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="Household"
+                component={HouseholdScreen}
+                options={{
+                  title: 'Household',
+                  presentation: 'modal',
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="SettleUp"
+                component={SettleUpScreen}
+                options={{
+                  title: 'Settle Up',
+                  presentation: 'modal',
+                  headerShown: false,
+                }}
+              />
               <Stack.Screen
                 name="CSVImport"
                 component={CSVImportScreen}
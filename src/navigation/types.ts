@@ -29,21 +29,27 @@ export type RootStackParamList = {
   VoiceTransaction: undefined;
   BulkTransaction: undefined;
   PrivacySettings: undefined;
+  NotificationSettings: undefined;
   PrivacyPolicy: undefined;
   TermsOfService: undefined;
   ReceiptGallery: undefined;
   Analytics: undefined;
-  BalanceHistory: undefined;
-  TransactionsList: undefined;
+  BalanceHistory: { accountId?: string } | undefined;
+  TransactionsList: { query?: string } | undefined;
   CategoryOnboarding: undefined;
   IncomeManagement: undefined;
+  RecurringExpenses: undefined;
+  Goals: undefined;
+  Accounts: undefined;
+  Household: { inviteId?: string } | undefined;
+  SettleUp: undefined;
   CSVImport: { firstTime?: boolean } | undefined;
   ExportTransactions: undefined;
   AIAssistant:
     | {
         context?: {
           transactionId?: string;
-          transactionType?: 'expense' | 'income';
+          transactionType?: 'expense' | 'income' | 'transfer';
           amount?: number;
           description?: string;
           category?: string;
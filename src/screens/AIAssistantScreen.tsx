@@ -1,10 +1,11 @@
 /**
  * AIAssistantScreen Component
  * Purpose: AI-powered assistant for financial queries and insights
- * Features: Chat interface, query history, premium gating, rate limiting
+ * Features: Chat interface, streamed answers with cancel, saved conversation threads, confirmable actions
+ * with undo, premium gating, rate limiting
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -15,6 +16,7 @@ import {
   KeyboardAvoidingView,
   Platform,
   ActivityIndicator,
+  useWindowDimensions,
 } from 'react-native';
 import { useAlert } from '../hooks/useAlert';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -25,11 +27,36 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/types';
 import { useScrollToTopOnTabPress } from '../hooks/useScrollToTopOnTabPress';
 import {
-  processAIQuery,
+  streamAIQuery,
   getQueryLimits,
-  getQueryHistory,
-  AIQuery
+  QueryLimits
 } from '../services/aiAssistantService';
+import {
+  getThreads,
+  getCachedThreads,
+  getThreadMessages,
+  getCachedThreadMessages,
+  createThread,
+  updateThread,
+  deleteThread,
+  appendThreadExchange,
+  findThreadForTransaction
+} from '../services/aiThreadService';
+import {
+  describeAIAction,
+  executeAIAction,
+  undoAIAction,
+  AIActionContext
+} from '../services/aiActionService';
+import { apiService } from '../services/api';
+import {
+  AIActionAuditEntry,
+  AIActionProposal,
+  AIThread,
+  AIThreadContext,
+  AIThreadMessage,
+  Category
+} from '../types';
 import { useSubscription } from '../hooks/useSubscription';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import { useCurrency } from '../contexts/CurrencyContext';
@@ -38,6 +65,8 @@ import UpgradePrompt from '../components/UpgradePrompt';
 import MarkdownText from '../components/MarkdownText';
 import PremiumBadge from '../components/PremiumBadge';
 import { Toast } from '../components/Toast';
+import { AIThreadListModal } from '../components/AIThreadListModal';
+import { AIActionCard, AIActionCardStatus } from '../components/AIActionCard';
 
 type AIAssistantNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -46,6 +75,14 @@ interface Message {
   type: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  status?: 'cancelled' | 'interrupted'; // Partial answer kept after a stop or a dropped connection
+  actions?: AIActionProposal[];
+}
+
+interface ActionState {
+  status: AIActionCardStatus;
+  error?: string;
+  entry?: AIActionAuditEntry; // Set once applied; holds the undo payload
 }
 
 // Loading status messages for better UX
@@ -57,14 +94,31 @@ const LOADING_MESSAGES = [
   'Almost there...'
 ];
 
+const buildWelcomeMessage = (isPremium: boolean, limits: Pick<QueryLimits, 'limit' | 'used'>): Message => ({
+  id: 'welcome',
+  type: 'assistant',
+  content: `👋 Hi! I'm your Finly Finly AI. I can help you with:\n\n📊 Transaction questions\n💡 Feature explanations\n📈 Spending insights\n\n${isPremium ? '✨ You have unlimited queries!' : `You have ${limits.limit - limits.used} queries remaining today.`}\n\nWhat would you like to know?`,
+  timestamp: new Date().toISOString(),
+});
+
+const toMessage = (message: AIThreadMessage): Message => ({
+  id: `thread_${message.id}`,
+  type: message.role,
+  content: message.content,
+  timestamp: message.createdAt,
+});
+
 const AIAssistantScreen: React.FC = () => {
   const { theme } = useTheme();
-  const { formatCurrency, currencyCode } = useCurrency();
+  const { formatCurrency, currencyCode, convertToUSD } = useCurrency();
   const navigation = useNavigation<AIAssistantNavigationProp>();
   const route = useRoute<RouteProp<RootStackParamList, 'AIAssistant'>>();
   const { isPremium } = useSubscription();
   const insets = useSafeAreaInsets();
-  const { showError, AlertComponent } = useAlert();
+  const { width: windowWidth } = useWindowDimensions();
+  // Inside an assistant bubble: 85% of the padded list, minus the bubble's padding and border
+  const bubbleContentWidth = (windowWidth - spacing.md * 2) * 0.85 - spacing.md * 2 - 2;
+  const { showError, showWarning, AlertComponent } = useAlert();
   
   const [query, setQuery] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
@@ -76,18 +130,40 @@ const AIAssistantScreen: React.FC = () => {
   const [streamingText, setStreamingText] = useState('');
   const [toastVisible, setToastVisible] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<AIThread[]>([]);
+  const [threadListVisible, setThreadListVisible] = useState(false);
+  const [threadsLoading, setThreadsLoading] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [actionStates, setActionStates] = useState<Record<string, ActionState>>({});
   const loadingMessageIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Read by handleSendQuery, which may run before a freshly created thread id reaches state
+  const threadIdRef = useRef<string | null>(null);
   
   const scrollViewRef = useRef<ScrollView>(null);
   const routeParams = route.params;
-  const streamingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const isAtBottom = useRef(true);
 
   useEffect(() => {
     loadInitialData();
+    // Action cards name categories and budgets change them
+    apiService.getCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error loading categories:', error));
   }, []);
 
+  // Opening the assistant again with another thread (e.g. from a transaction) switches to it
+  const routeThreadId = routeParams?.threadId;
+  const initialThreadLoaded = useRef(false);
+  useEffect(() => {
+    if (!initialThreadLoaded.current) return;
+    if (routeThreadId && routeThreadId !== threadIdRef.current) {
+      openThread(routeThreadId);
+    }
+  }, [routeThreadId]);
+
   // Scroll to top when tab is pressed while already on this screen
   // Note: This will scroll to top, but auto-scroll to bottom will still work for new messages
   useScrollToTopOnTabPress(scrollViewRef);
@@ -119,12 +195,10 @@ const AIAssistantScreen: React.FC = () => {
     isAtBottom.current = layoutMeasurement.height + contentOffset.y >= contentSize.height - paddingToBottom;
   };
 
-  // Cleanup timeouts on unmount
+  // Cleanup timers and any open stream on unmount
   useEffect(() => {
     return () => {
-      if (streamingTimeoutRef.current) {
-        clearTimeout(streamingTimeoutRef.current);
-      }
+      abortControllerRef.current?.abort();
       if (loadingMessageIntervalRef.current) {
         clearInterval(loadingMessageIntervalRef.current);
       }
@@ -154,53 +228,146 @@ const AIAssistantScreen: React.FC = () => {
     try {
       const limits = await getQueryLimits(isPremium);
       setQueryLimits(limits);
-
-      const initialMessages: Message[] = [
-        {
-          id: 'welcome',
-          type: 'assistant',
-          content: `👋 Hi! I'm your Finly Finly AI. I can help you with:\n\n📊 Transaction questions\n💡 Feature explanations\n📈 Spending insights\n\n${isPremium ? '✨ You have unlimited queries!' : `You have ${limits.limit - limits.used} queries remaining today.`}\n\nWhat would you like to know?`,
-          timestamp: new Date().toISOString(),
-        },
-      ];
-      
-      // Load history for premium users (or if we decide to show some history for free users too)
-      // The backend now handles the limit (0 for free, 15 for premium)
-      setLoading(true);
-      const history = await getQueryHistory();
-
-      if (history.length > 0) {
-        // Sort by timestamp ascending for display
-        const sortedHistory = [...history].sort((a, b) =>
-          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-        );
-
-        sortedHistory.forEach((q: AIQuery) => {
-          initialMessages.push({
-            id: `history_${q.id}_user`,
-            type: 'user',
-            content: q.query,
-            timestamp: q.timestamp,
-          });
-          initialMessages.push({
-            id: `history_${q.id}_assistant`,
-            type: 'assistant',
-            content: q.response,
-            timestamp: q.timestamp,
-          });
-        });
-      }
-      setLoading(false);
+      setMessages([buildWelcomeMessage(isPremium, limits)]);
 
       if (routeParams?.initialQuery) {
         setQuery(routeParams.initialQuery);
       }
-      
-      setMessages(initialMessages);
+
+      // Resume the requested thread, or the one already started from this transaction
+      let resumeId = routeParams?.threadId;
+      if (!resumeId && routeParams?.context?.transactionId) {
+        const existing = await findThreadForTransaction(routeParams.context.transactionId);
+        resumeId = existing?.id;
+      }
+      if (resumeId) {
+        await openThread(resumeId, limits);
+      }
     } catch (error) {
       console.error('Error loading initial data:', error);
-      setLoading(false);
+    } finally {
+      initialThreadLoaded.current = true;
+    }
+  };
+
+  /**
+   * Show a thread: the local copy right away, then the server's history
+   */
+  const openThread = async (id: string, limits: Pick<QueryLimits, 'limit' | 'used'> = queryLimits) => {
+    abortControllerRef.current?.abort();
+    threadIdRef.current = id;
+    setThreadId(id);
+
+    const welcome = buildWelcomeMessage(isPremium, limits);
+    const cached = await getCachedThreadMessages(id);
+    if (threadIdRef.current !== id) return;
+    setMessages([welcome, ...cached.map(toMessage)]);
+
+    if (cached.length === 0) setLoading(true);
+    try {
+      const history = await getThreadMessages(id);
+      if (threadIdRef.current === id) {
+        setMessages([welcome, ...history.map(toMessage)]);
+      }
+    } finally {
+      if (cached.length === 0) setLoading(false);
+    }
+  };
+
+  /**
+   * Leave the current thread; the next question starts a new one
+   */
+  const startNewThread = () => {
+    abortControllerRef.current?.abort();
+    threadIdRef.current = null;
+    setThreadId(null);
+    setMessages([buildWelcomeMessage(isPremium, queryLimits)]);
+  };
+
+  /**
+   * Thread context saved with a new conversation, so it can be found from the transaction later
+   */
+  const getThreadContext = (): AIThreadContext | undefined => {
+    const context = routeParams?.context;
+    if (!context) return undefined;
+    return {
+      transactionId: context.transactionId,
+      categoryId: context.categoryId,
+      screen: context.screen,
+      description: context.description,
+    };
+  };
+
+  const loadThreads = useCallback(async () => {
+    // Show the local list first, then refresh from the server
+    const cached = await getCachedThreads();
+    setThreads(cached);
+    setThreadsLoading(true);
+    try {
+      setThreads(await getThreads());
+    } finally {
+      setThreadsLoading(false);
     }
+  }, []);
+
+  const handleOpenThreadList = () => {
+    setThreadListVisible(true);
+    loadThreads();
+  };
+
+  const handleSelectThread = (thread: AIThread) => {
+    setThreadListVisible(false);
+    if (thread.id !== threadIdRef.current) {
+      openThread(thread.id);
+    }
+  };
+
+  const handleNewThread = () => {
+    setThreadListVisible(false);
+    startNewThread();
+  };
+
+  const handleRenameThread = async (thread: AIThread, title: string) => {
+    try {
+      const updated = await updateThread(thread.id, { title });
+      setThreads(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to rename conversation');
+    }
+  };
+
+  const handleTogglePinThread = async (thread: AIThread) => {
+    try {
+      await updateThread(thread.id, { pinned: !thread.pinned });
+      setThreads(await getCachedThreads());
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to update conversation');
+    }
+  };
+
+  const handleDeleteThread = (thread: AIThread) => {
+    showWarning(
+      'Delete Conversation',
+      `Delete "${thread.title}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteThread(thread.id);
+              setThreads(prev => prev.filter(t => t.id !== thread.id));
+              if (thread.id === threadIdRef.current) {
+                startNewThread();
+              }
+            } catch (error: any) {
+              showError('Error', error.message || 'Failed to delete conversation');
+            }
+          },
+        },
+      ]
+    );
   };
 
   const handleSendQuery = async (queryText?: string) => {
@@ -232,39 +399,84 @@ const AIAssistantScreen: React.FC = () => {
     };
     setMessages(prev => [...prev, userMessage]);
 
-    // Create placeholder assistant message ID (needed for error cleanup)
     const assistantMessageId = `assistant_${Date.now()}`;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let placeholderAdded = false;
 
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      // Process query FIRST - don't create placeholder until we have a response
+      // The first question starts a thread; without one the answer still shows, it just isn't saved
+      let activeThreadId = threadIdRef.current;
+      if (!activeThreadId) {
+        try {
+          const thread = await createThread(textToSend, getThreadContext());
+          activeThreadId = thread.id;
+          threadIdRef.current = thread.id;
+          setThreadId(thread.id);
+        } catch (error) {
+          console.error('Error creating AI thread:', error);
+        }
+      }
+
       // Ensure currencyCode is always sent (fallback to USD if not available)
       const currencyToSend = currencyCode || 'USD';
-      const result = await processAIQuery(
+      const result = await streamAIQuery(
         textToSend,
         isPremium,
         formatCurrency,
         routeParams?.context,
-        currencyToSend // Pass user's active currency (or USD as fallback)
+        currencyToSend, // Pass user's active currency (or USD as fallback)
+        {
+          signal: abortController.signal,
+          threadId: activeThreadId || undefined,
+          onText: (text) => {
+            // The assistant bubble appears with the first chunk
+            if (!placeholderAdded) {
+              placeholderAdded = true;
+              stopLoadingMessageCycle();
+              setMessages(prev => [
+                ...prev,
+                { id: assistantMessageId, type: 'assistant', content: '', timestamp: new Date().toISOString() },
+              ]);
+              setStreamingMessageId(assistantMessageId);
+            }
+            setStreamingText(text);
+          },
+        }
       );
 
-      // Stop loading messages - we got a response
       stopLoadingMessageCycle();
 
-      // NOW create the placeholder assistant message for streaming
-      const assistantMessage: Message = {
-        id: assistantMessageId,
-        type: 'assistant',
-        content: '',
-        timestamp: new Date().toISOString(),
-      };
-      setMessages(prev => [...prev, assistantMessage]);
-      setStreamingMessageId(assistantMessageId);
-      setStreamingText('');
+      // Switching threads mid-answer stops it; the partial answer belongs to the thread left behind
+      const stillShowingThread = threadIdRef.current === activeThreadId;
 
-      // Stream the response character by character
-      await streamText(result.response, assistantMessageId);
+      // Keep whatever arrived; a stop before the first chunk leaves no empty bubble behind
+      if (stillShowingThread && result.response) {
+        const assistantMessage: Message = {
+          id: assistantMessageId,
+          type: 'assistant',
+          content: result.response,
+          timestamp: result.query.timestamp,
+          status: result.status === 'complete' ? undefined : result.status,
+          actions: result.query.actions,
+        };
+        setMessages(prev =>
+          placeholderAdded
+            ? prev.map(msg => (msg.id === assistantMessageId ? assistantMessage : msg))
+            : [...prev, assistantMessage]
+        );
+      } else if (stillShowingThread && placeholderAdded) {
+        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
+      }
+
+      if (activeThreadId && result.response) {
+        appendThreadExchange(activeThreadId, [
+          { id: userMessage.id, role: 'user', content: textToSend, createdAt: userMessage.timestamp },
+          { id: result.query.id, role: 'assistant', content: result.response, createdAt: result.query.timestamp },
+        ]);
+      }
 
       // Ensure scroll to bottom after streaming completes
       setTimeout(() => {
@@ -275,10 +487,12 @@ const AIAssistantScreen: React.FC = () => {
       const updatedLimits = await getQueryLimits(isPremium);
       setQueryLimits(updatedLimits);
 
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.status === 'complete') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
     } catch (error: any) {
-      // Note: Placeholder message is only created after successful API response,
-      // so no need to remove it on error
+      // The stream only throws before any text arrived, but drop an empty bubble just in case
+      setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId || msg.content));
 
       // Check for rate limit errors (429 status code or isRateLimit flag)
       const isRateLimitError =
@@ -307,6 +521,7 @@ const AIAssistantScreen: React.FC = () => {
         );
       }
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
       stopLoadingMessageCycle();
       setStreamingMessageId(null);
@@ -315,51 +530,62 @@ const AIAssistantScreen: React.FC = () => {
   };
 
   /**
-   * Stream text character by character with smooth animation
+   * Stop the answer being streamed; what arrived so far stays in the chat
    */
-  const streamText = async (fullText: string, messageId: string): Promise<void> => {
-    return new Promise((resolve) => {
-      let currentIndex = 0;
-      const charsPerChunk = 2; // Characters to show per frame (adjust for speed)
-      const delay = 20; // Milliseconds between chunks (adjust for speed)
-
-      const stream = () => {
-        if (currentIndex >= fullText.length) {
-          // Streaming complete - update the actual message
-          setMessages(prev =>
-            prev.map(msg =>
-              msg.id === messageId
-                ? { ...msg, content: fullText }
-                : msg
-            )
-          );
-          setStreamingText('');
-          setStreamingMessageId(null);
-          // Ensure scroll to bottom after streaming completes
-          setTimeout(() => {
-            scrollToBottom();
-          }, 50);
-          resolve();
-          return;
-        }
+  const handleCancelQuery = () => {
+    abortControllerRef.current?.abort();
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
 
-        const nextIndex = Math.min(currentIndex + charsPerChunk, fullText.length);
-        const partialText = fullText.substring(0, nextIndex);
-        setStreamingText(partialText);
-        currentIndex = nextIndex;
+  const actionContext: AIActionContext = {
+    categories,
+    currencyCode: currencyCode || 'USD',
+    convertToUSD,
+    formatCurrency,
+    threadId: threadId || undefined,
+  };
 
-        // Scroll during streaming to keep up with new content (every 10 characters)
-        if (currentIndex % 10 === 0) {
-          setTimeout(() => {
-            scrollToBottom();
-          }, 0);
-        }
+  const setActionState = (actionId: string, state: ActionState) => {
+    setActionStates(prev => ({ ...prev, [actionId]: state }));
+  };
 
-        streamingTimeoutRef.current = setTimeout(stream, delay);
-      };
+  const handleConfirmAction = async (action: AIActionProposal) => {
+    setActionState(action.id, { status: 'applying' });
+    try {
+      const entry = await executeAIAction(action, actionContext);
+      setActionState(action.id, { status: 'applied', entry });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-      stream();
-    });
+      // Keep the previous budget accurate for the next proposal's undo
+      if (action.type === 'setBudget') {
+        setCategories(await apiService.getCategories(true));
+      }
+    } catch (error: any) {
+      setActionState(action.id, { status: 'failed', error: error.message || 'Failed to apply the change' });
+    }
+  };
+
+  const handleUndoAction = async (action: AIActionProposal) => {
+    const entry = actionStates[action.id]?.entry;
+    if (!entry) return;
+
+    setActionState(action.id, { status: 'undoing', entry });
+    try {
+      const undone = await undoAIAction(entry);
+      setActionState(action.id, { status: 'undone', entry: undone });
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+      if (action.type === 'setBudget') {
+        setCategories(await apiService.getCategories(true));
+      }
+    } catch (error: any) {
+      setActionState(action.id, { status: 'applied', entry });
+      showError('Error', error.message || 'Failed to undo the change');
+    }
+  };
+
+  const handleDismissAction = (action: AIActionProposal) => {
+    setActionState(action.id, { status: 'dismissed' });
   };
 
   const quickQueries = [
@@ -388,6 +614,23 @@ const AIAssistantScreen: React.FC = () => {
                 </Text>
               )}
             </View>
+            <TouchableOpacity
+              onPress={handleOpenThreadList}
+              style={styles.headerButton}
+              accessibilityLabel="Conversations"
+            >
+              <Icon name="forum-outline" size={24} color={theme.text} />
+            </TouchableOpacity>
+            {threadId && (
+              <TouchableOpacity
+                onPress={startNewThread}
+                style={styles.headerButton}
+                disabled={loading}
+                accessibilityLabel="New conversation"
+              >
+                <Icon name="plus-circle-outline" size={24} color={loading ? theme.textTertiary : theme.text} />
+              </TouchableOpacity>
+            )}
             {!isPremium && (
               <TouchableOpacity
                 onPress={() => navigation.navigate('Subscription')}
@@ -437,6 +680,7 @@ const AIAssistantScreen: React.FC = () => {
                 )}
                 {message.type === 'assistant' ? (
                   <MarkdownText
+                    contentWidth={bubbleContentWidth}
                     style={[
                       styles.messageText,
                       {
@@ -460,6 +704,34 @@ const AIAssistantScreen: React.FC = () => {
                       {message.content}
                     </Text>
                 )}
+                {message.status && (
+                  <View style={styles.partialNote}>
+                    <Icon
+                      name={message.status === 'cancelled' ? 'stop-circle-outline' : 'wifi-off'}
+                      size={12}
+                      color={theme.textTertiary}
+                    />
+                    <Text style={[styles.partialNoteText, { color: theme.textTertiary }]}>
+                      {message.status === 'cancelled' ? 'Stopped' : 'Connection lost - partial answer'}
+                    </Text>
+                  </View>
+                )}
+                {message.actions?.map(action => {
+                  const state = actionStates[action.id];
+                  return (
+                    <AIActionCard
+                      key={action.id}
+                      actionType={action.type}
+                      summary={describeAIAction(action, actionContext)}
+                      status={state?.status || 'pending'}
+                      error={state?.error}
+                      canUndo={!!state?.entry?.undo}
+                      onConfirm={() => handleConfirmAction(action)}
+                      onDismiss={() => handleDismissAction(action)}
+                      onUndo={() => handleUndoAction(action)}
+                    />
+                  );
+                })}
               </View>
             </View>
           ))}
@@ -523,24 +795,35 @@ const AIAssistantScreen: React.FC = () => {
               onSubmitEditing={() => handleSendQuery()}
               editable={!loading && (isPremium || queryLimits.used < queryLimits.limit)}
             />
-            <TouchableOpacity
-              style={[
-                styles.sendButton,
-                {
-                  backgroundColor: (isPremium || queryLimits.used < queryLimits.limit) && query.trim()
-                    ? theme.primary
-                    : theme.border,
-                },
-              ]}
-              onPress={() => handleSendQuery()}
-              disabled={loading || !query.trim() || (!isPremium && queryLimits.used >= queryLimits.limit)}
-            >
-              {loading ? (
-                <ActivityIndicator size="small" color="#FFFFFF" />
-              ) : (
-                <Icon name="send" size={20} color="#FFFFFF" />
-              )}
-            </TouchableOpacity>
+            {loading && abortControllerRef.current ? (
+              // While an answer is on its way the send button becomes a stop button
+              <TouchableOpacity
+                style={[styles.sendButton, { backgroundColor: theme.primary }]}
+                onPress={handleCancelQuery}
+                accessibilityLabel="Stop answer"
+              >
+                <Icon name="stop" size={20} color="#FFFFFF" />
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[
+                  styles.sendButton,
+                  {
+                    backgroundColor: (isPremium || queryLimits.used < queryLimits.limit) && query.trim()
+                      ? theme.primary
+                      : theme.border,
+                  },
+                ]}
+                onPress={() => handleSendQuery()}
+                disabled={loading || !query.trim() || (!isPremium && queryLimits.used >= queryLimits.limit)}
+              >
+                {loading ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Icon name="send" size={20} color="#FFFFFF" />
+                )}
+              </TouchableOpacity>
+            )}
           </View>
           {!isPremium && queryLimits.used >= queryLimits.limit && (
             <TouchableOpacity
@@ -564,6 +847,19 @@ const AIAssistantScreen: React.FC = () => {
         />
       )}
 
+      <AIThreadListModal
+        visible={threadListVisible}
+        threads={threads}
+        activeThreadId={threadId}
+        loading={threadsLoading}
+        onSelect={handleSelectThread}
+        onNewThread={handleNewThread}
+        onRename={handleRenameThread}
+        onTogglePin={handleTogglePinThread}
+        onDelete={handleDeleteThread}
+        onClose={() => setThreadListVisible(false)}
+      />
+
       {/* Toast Notification */}
       <Toast
         visible={toastVisible}
@@ -614,6 +910,10 @@ const styles = StyleSheet.create({
     padding: spacing.xs,
     marginLeft: spacing.md,
   },
+  headerButton: {
+    padding: spacing.xs,
+    marginLeft: spacing.sm,
+  },
   messagesContainer: {
     flex: 1,
   },
@@ -643,6 +943,15 @@ const styles = StyleSheet.create({
     ...typography.bodyMedium,
     lineHeight: 20,
   },
+  partialNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: spacing.xs,
+  },
+  partialNoteText: {
+    ...typography.caption,
+  },
   loadingContainer: {
     flexDirection: 'column',
     alignItems: 'flex-start',
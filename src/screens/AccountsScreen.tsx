@@ -0,0 +1,801 @@
+/**
+ * AccountsScreen Component
+ * Purpose: Manage accounts (checking, savings, credit card, cash) and move money between them
+ * Features: Add, edit, delete accounts with their own currency and opening balance, default account
+ * for new transactions, transfers between accounts, per-account balance history
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { useAlert } from '../hooks/useAlert';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import BottomSheet, { BottomSheetScrollView } from '@gorhom/bottom-sheet';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/types';
+import { apiService } from '../services/api';
+import {
+  ACCOUNT_TYPES,
+  getAccounts,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  createTransfer,
+  getAccountIcon,
+  getAccountTypeLabel,
+} from '../services/accountService';
+import { Account, AccountType } from '../types';
+import {
+  AccountChips,
+  BottomSheetBackground,
+  CurrencyInput,
+  DatePickerInput,
+  PullToRefreshScrollView,
+} from '../components';
+import { typography, spacing, borderRadius, elevation } from '../theme';
+
+type AccountsNavigationProp = StackNavigationProp<RootStackParamList>;
+
+const AccountsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { formatCurrency, convertToUSD, convertFromUSD, currencyCode } = useCurrency();
+  const navigation = useNavigation<AccountsNavigationProp>();
+  const { showError, showSuccess, showInfo, showWarning, AlertComponent } = useAlert();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Account form state
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('CHECKING');
+  const [accountCurrency, setAccountCurrency] = useState(currencyCode);
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+
+  // Transfer form state
+  const [fromAccountId, setFromAccountId] = useState<string | null>(null);
+  const [toAccountId, setToAccountId] = useState<string | null>(null);
+  const [transferAmount, setTransferAmount] = useState('');
+  const [transferDate, setTransferDate] = useState(new Date());
+  const [transferNote, setTransferNote] = useState('');
+
+  const accountSheetRef = useRef<BottomSheet>(null);
+  const transferSheetRef = useRef<BottomSheet>(null);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await getAccounts());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAccounts();
+    }, [loadAccounts])
+  );
+
+  // Convert an amount entered in any currency to USD
+  const convertCurrencyToUSD = async (amount: number, fromCurrency: string): Promise<number> => {
+    if (fromCurrency.toUpperCase() === 'USD') {
+      return amount;
+    }
+    if (fromCurrency.toUpperCase() === currencyCode.toUpperCase()) {
+      return convertToUSD(amount);
+    }
+    const rate = await apiService.getExchangeRate(fromCurrency);
+    return amount / rate;
+  };
+
+  useEffect(() => {
+    if (editingAccount) {
+      setName(editingAccount.name);
+      setType(editingAccount.type);
+      setAccountCurrency(editingAccount.currency);
+      // Edit in the account's currency when we have it, otherwise convert from USD
+      setOpeningBalance(
+        editingAccount.originalOpeningBalance !== undefined && editingAccount.originalOpeningBalance !== null
+          ? editingAccount.originalOpeningBalance.toFixed(2)
+          : convertFromUSD(editingAccount.openingBalance).toFixed(2)
+      );
+      setIsDefault(!!editingAccount.isDefault);
+      accountSheetRef.current?.expand();
+    } else {
+      resetForm();
+    }
+  }, [editingAccount]);
+
+  const resetForm = () => {
+    setName('');
+    setType('CHECKING');
+    setAccountCurrency(currencyCode);
+    setOpeningBalance('');
+    setIsDefault(accounts.length === 0);
+    setEditingAccount(null);
+  };
+
+  const handleOpenAddSheet = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    resetForm();
+    accountSheetRef.current?.expand();
+  };
+
+  const handleCloseSheet = () => {
+    accountSheetRef.current?.close();
+    setTimeout(() => {
+      resetForm();
+    }, 300);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showInfo('Missing Name', 'Please enter a name for this account');
+      return;
+    }
+
+    const duplicate = accounts.find(
+      (a) => a.id !== editingAccount?.id && a.name.trim().toLowerCase() === name.trim().toLowerCase()
+    );
+    if (duplicate) {
+      showInfo('Name Taken', `You already have an account named "${duplicate.name}"`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const originalOpeningBalance = parseFloat(openingBalance) || 0;
+      const accountData = {
+        name: name.trim(),
+        type,
+        currency: accountCurrency,
+        openingBalance: await convertCurrencyToUSD(originalOpeningBalance, accountCurrency),
+        originalOpeningBalance,
+        isDefault,
+      };
+
+      if (editingAccount) {
+        await updateAccount(editingAccount.id, accountData);
+        showSuccess('Success', 'Account updated successfully!');
+      } else {
+        await createAccount(accountData);
+        showSuccess('Success', 'Account created successfully!');
+      }
+
+      await loadAccounts();
+
+      handleCloseSheet();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      showError('Error', 'Failed to save account');
+      console.error('Error saving account:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (account: Account) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    showWarning(
+      'Delete Account',
+      `Are you sure you want to delete "${account.name}"? Its transactions are kept but no longer belong to an account, and its transfers are removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAccount(account.id);
+              await loadAccounts();
+
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (error) {
+              showError('Error', 'Failed to delete account');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEdit = (account: Account) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setEditingAccount(account);
+  };
+
+  const handleOpenTransfer = (from?: Account) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const openAccounts = accounts.filter((a) => !a.isArchived);
+    const fromId = from?.id || openAccounts[0]?.id || null;
+    setFromAccountId(fromId);
+    setToAccountId(openAccounts.find((a) => a.id !== fromId)?.id || null);
+    setTransferAmount('');
+    setTransferDate(new Date());
+    setTransferNote('');
+    transferSheetRef.current?.expand();
+  };
+
+  const handleSelectFromAccount = (accountId: string | null) => {
+    setFromAccountId(accountId);
+    if (accountId && accountId === toAccountId) {
+      setToAccountId(accounts.find((a) => !a.isArchived && a.id !== accountId)?.id || null);
+    }
+  };
+
+  const handleSaveTransfer = async () => {
+    if (!fromAccountId || !toAccountId) {
+      showInfo('Missing Account', 'Please choose the accounts to move money between');
+      return;
+    }
+
+    if (!transferAmount || parseFloat(transferAmount) <= 0) {
+      showError('Invalid Amount', 'Please enter a valid amount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const originalAmount = parseFloat(transferAmount);
+      await createTransfer({
+        fromAccountId,
+        toAccountId,
+        amount: currencyCode.toUpperCase() === 'USD' ? originalAmount : convertToUSD(originalAmount),
+        date: transferDate,
+        description: transferNote.trim() || undefined,
+        originalAmount,
+        originalCurrency: currencyCode,
+      });
+      await loadAccounts();
+
+      transferSheetRef.current?.close();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      showError('Error', 'Failed to transfer money');
+      console.error('Error creating transfer:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openAccounts = accounts.filter((a) => !a.isArchived);
+  const netWorth = openAccounts.reduce((sum, a) => sum + a.balance, 0);
+
+  if (loading && accounts.length === 0) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Icon name="arrow-left" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Accounts</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <PullToRefreshScrollView
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={{ paddingBottom: 100 }}
+        onRefresh={loadAccounts}
+      >
+        {openAccounts.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Icon name="wallet" size={64} color={theme.textTertiary} />
+            <Text style={[styles.emptyTitle, { color: theme.text }]}>No Accounts</Text>
+            <Text style={[styles.emptyDescription, { color: theme.textSecondary }]}>
+              Add your checking, savings, credit card and cash accounts to see where your money is
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Summary */}
+            <View style={[styles.summaryCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}>
+              <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Total across accounts</Text>
+              <Text style={[styles.summaryAmount, { color: netWorth >= 0 ? theme.success : theme.expense }]}>
+                {formatCurrency(netWorth)}
+              </Text>
+            </View>
+
+            <View style={styles.accountsList}>
+              {openAccounts.map((account) => (
+                <TouchableOpacity
+                  key={account.id}
+                  style={[styles.accountCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}
+                  onPress={() => navigation.navigate('BalanceHistory', { accountId: account.id })}
+                  activeOpacity={0.8}
+                >
+                  <View style={styles.accountHeader}>
+                    <View style={[styles.accountIcon, { backgroundColor: theme.primary + '20' }]}>
+                      <Icon name={getAccountIcon(account.type) as any} size={24} color={theme.primary} />
+                    </View>
+                    <View style={styles.accountInfo}>
+                      <Text style={[styles.accountName, { color: theme.text }]} numberOfLines={1}>
+                        {account.name}
+                      </Text>
+                      <Text style={[styles.accountMeta, { color: theme.textSecondary }]} numberOfLines={1}>
+                        {getAccountTypeLabel(account.type)} · {account.currency}
+                        {account.isDefault ? ' · Default' : ''}
+                      </Text>
+                    </View>
+                    <Text style={[styles.accountBalance, { color: account.balance >= 0 ? theme.text : theme.expense }]}>
+                      {formatCurrency(account.balance)}
+                    </Text>
+                  </View>
+
+                  <View style={styles.actions}>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: theme.success + '20' }]}
+                      onPress={() => handleOpenTransfer(account)}
+                      disabled={openAccounts.length < 2}
+                    >
+                      <Icon name="swap-horizontal" size={18} color={theme.success} />
+                      <Text style={[styles.actionButtonText, { color: theme.success }]}>Transfer</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: theme.primary + '20' }]}
+                      onPress={() => handleEdit(account)}
+                    >
+                      <Icon name="pencil" size={18} color={theme.primary} />
+                      <Text style={[styles.actionButtonText, { color: theme.primary }]}>Edit</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: theme.expense + '20' }]}
+                      onPress={() => handleDelete(account)}
+                    >
+                      <Icon name="delete" size={18} color={theme.expense} />
+                      <Text style={[styles.actionButtonText, { color: theme.expense }]}>Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Add Button */}
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: theme.primary }, elevation.md]}
+          onPress={handleOpenAddSheet}
+        >
+          <Icon name="plus" size={24} color="#FFFFFF" />
+          <Text style={styles.addButtonText}>Add Account</Text>
+        </TouchableOpacity>
+      </PullToRefreshScrollView>
+
+      {/* Add/Edit Account Bottom Sheet */}
+      <BottomSheet
+        ref={accountSheetRef}
+        index={-1}
+        snapPoints={['85%']}
+        enablePanDownToClose
+        backgroundComponent={BottomSheetBackground}
+        handleIndicatorStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.4)' }}
+        keyboardBehavior="interactive"
+        keyboardBlurBehavior="restore"
+        android_keyboardInputMode="adjustResize"
+        onChange={(index) => {
+          if (index === -1) {
+            resetForm();
+          }
+        }}
+      >
+        <BottomSheetScrollView
+          style={styles.bottomSheetContent}
+          contentContainerStyle={styles.bottomSheetContentContainer}
+        >
+          <Text style={[styles.sheetTitle, { color: theme.text }]}>
+            {editingAccount ? 'Edit Account' : 'Add Account'}
+          </Text>
+
+          {/* Name */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Name</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+              placeholder="e.g., Chase Checking, Wallet"
+              placeholderTextColor={theme.textTertiary}
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+
+          {/* Type */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Type</Text>
+            <View style={styles.chipRow}>
+              {ACCOUNT_TYPES.map((option) => {
+                const selected = type === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor: selected ? theme.primary + '20' : theme.background,
+                        borderColor: selected ? theme.primary : theme.border,
+                      },
+                    ]}
+                    onPress={() => setType(option.value)}
+                  >
+                    <Icon name={option.icon as any} size={16} color={selected ? theme.primary : theme.textSecondary} />
+                    <Text style={[styles.chipText, { color: selected ? theme.primary : theme.textSecondary }]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Opening Balance */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Opening Balance</Text>
+            <View style={[styles.amountInput, { backgroundColor: theme.background, borderColor: theme.border }]}>
+              <CurrencyInput
+                value={openingBalance}
+                onChangeText={setOpeningBalance}
+                onCurrencyChange={setAccountCurrency}
+                selectedCurrency={accountCurrency}
+                allowCurrencySelection={true}
+                placeholder="0.00"
+                placeholderTextColor={theme.textTertiary}
+                showSymbol={true}
+                allowDecimals={true}
+                inputStyle={styles.currencyInputField}
+              />
+            </View>
+            <Text style={[styles.toggleDescription, { color: theme.textTertiary }]}>
+              Tap the currency symbol to set the account's currency
+            </Text>
+          </View>
+
+          {/* Default Account */}
+          <View style={[styles.inputGroup, styles.toggleGroup]}>
+            <View style={styles.toggleInfo}>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Default Account</Text>
+              <Text style={[styles.toggleDescription, { color: theme.textTertiary }]}>
+                Preselected when you add expenses and income
+              </Text>
+            </View>
+            <Switch
+              value={isDefault}
+              onValueChange={setIsDefault}
+              trackColor={{ false: theme.border, true: theme.primary + '60' }}
+              thumbColor={isDefault ? theme.primary : theme.surface}
+            />
+          </View>
+
+          {/* Save Button */}
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.primary }, elevation.sm]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {editingAccount ? 'Update Account' : 'Add Account'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </BottomSheetScrollView>
+      </BottomSheet>
+
+      {/* Transfer Bottom Sheet */}
+      <BottomSheet
+        ref={transferSheetRef}
+        index={-1}
+        snapPoints={['75%']}
+        enablePanDownToClose
+        backgroundComponent={BottomSheetBackground}
+        handleIndicatorStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.4)' }}
+        keyboardBehavior="interactive"
+        keyboardBlurBehavior="restore"
+        android_keyboardInputMode="adjustResize"
+      >
+        <BottomSheetScrollView
+          style={styles.bottomSheetContent}
+          contentContainerStyle={styles.bottomSheetContentContainer}
+        >
+          <Text style={[styles.sheetTitle, { color: theme.text }]}>Transfer Money</Text>
+
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>From</Text>
+            <AccountChips accounts={accounts} selectedAccountId={fromAccountId} onSelect={handleSelectFromAccount} />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>To</Text>
+            <AccountChips
+              accounts={accounts}
+              selectedAccountId={toAccountId}
+              onSelect={setToAccountId}
+              excludeAccountId={fromAccountId}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Amount</Text>
+            <View style={[styles.amountInput, { backgroundColor: theme.background, borderColor: theme.border }]}>
+              <CurrencyInput
+                value={transferAmount}
+                onChangeText={setTransferAmount}
+                placeholder="0.00"
+                placeholderTextColor={theme.textTertiary}
+                showSymbol={true}
+                allowDecimals={true}
+                inputStyle={styles.currencyInputField}
+              />
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <DatePickerInput
+              date={transferDate}
+              onDateChange={setTransferDate}
+              label="Date"
+              maximumDate={new Date()}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Note (optional)</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+              placeholder="e.g., Credit card payment"
+              placeholderTextColor={theme.textTertiary}
+              value={transferNote}
+              onChangeText={setTransferNote}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.success }, elevation.sm]}
+            onPress={handleSaveTransfer}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>Transfer</Text>
+            )}
+          </TouchableOpacity>
+        </BottomSheetScrollView>
+      </BottomSheet>
+
+      {AlertComponent}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xl * 2,
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    ...typography.titleLarge,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  emptyDescription: {
+    ...typography.bodyMedium,
+    textAlign: 'center',
+  },
+  summaryCard: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  summaryLabel: {
+    ...typography.bodySmall,
+  },
+  summaryAmount: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+    marginTop: 2,
+  },
+  accountsList: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+  accountCard: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  accountHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  accountIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountName: {
+    ...typography.titleMedium,
+    marginBottom: 2,
+  },
+  accountMeta: {
+    ...typography.bodySmall,
+  },
+  accountBalance: {
+    ...typography.titleMedium,
+    fontWeight: '700',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    gap: spacing.xs,
+  },
+  actionButtonText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: spacing.md,
+    marginTop: spacing.lg,
+    paddingVertical: spacing.md + 4,
+    borderRadius: borderRadius.md,
+    gap: spacing.sm,
+  },
+  addButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  bottomSheetContent: {
+    flex: 1,
+  },
+  bottomSheetContentContainer: {
+    padding: spacing.lg,
+  },
+  sheetTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+    marginBottom: spacing.lg,
+  },
+  inputGroup: {
+    marginBottom: spacing.lg,
+  },
+  inputLabel: {
+    ...typography.labelMedium,
+    marginBottom: spacing.sm,
+    fontWeight: '600',
+  },
+  input: {
+    ...typography.bodyMedium,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+  },
+  amountInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    paddingHorizontal: spacing.md,
+  },
+  currencyInputField: {
+    paddingVertical: spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  toggleGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  toggleInfo: {
+    flex: 1,
+  },
+  toggleDescription: {
+    ...typography.bodySmall,
+    marginTop: 2,
+  },
+  saveButton: {
+    paddingVertical: spacing.md + 4,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  saveButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+});
+
+export default AccountsScreen;
@@ -23,7 +23,6 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { useTheme } from '../contexts/ThemeContext';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { apiService } from '../services/api';
-import { syncWidgetData } from '../services/widgetSync';
 import { getIncomeSources } from '../services/incomeService';
 import { IncomeSource } from '../types';
 import { RootStackParamList } from '../navigation/types';
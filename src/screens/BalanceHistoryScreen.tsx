@@ -4,7 +4,7 @@
  * Features: Clean balance overview, trend chart, collapsible details, date filters
  */
 
-import React, { useCallback, useState, useMemo } from 'react';
+import React, { useCallback, useState, useMemo, useEffect } from 'react';
 import {
   View,
   Text,
@@ -20,7 +20,7 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { useNavigation, useFocusEffect, useRoute, RouteProp } from '@react-navigation/native';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -37,12 +37,17 @@ import * as Haptics from 'expo-haptics';
 
 import { useTheme } from '../contexts/ThemeContext';
 import { useCurrency } from '../contexts/CurrencyContext';
-import { PullToRefreshScrollView } from '../components';
+import { AccountChips, PullToRefreshScrollView } from '../components';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import { useBalanceHistory, ComparisonStats } from '../hooks/useBalanceHistory';
 import { BalanceChart } from '../components/charts/BalanceChart';
 import { BalanceInsightCard } from '../components/trends/BalanceInsightCard';
 import { DateRangeFilter, DateRange } from '../components/filters/DateRangeFilter';
+import { getAccounts } from '../services/accountService';
+import { RootStackParamList } from '../navigation/types';
+import { Account } from '../types';
+
+type BalanceHistoryRouteProp = RouteProp<RootStackParamList, 'BalanceHistory'>;
 
 // Enable LayoutAnimation on Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -147,7 +152,10 @@ const BalanceHistoryScreen: React.FC = () => {
     return formatCompactValue(value, getCurrencySymbol(), exchangeRate || 1);
   }, [getCurrencySymbol, exchangeRate]);
   const navigation = useNavigation();
+  const route = useRoute<BalanceHistoryRouteProp>();
   const insets = useSafeAreaInsets();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(route.params?.accountId ?? null);
   const {
     balanceData,
     stats,
@@ -157,7 +165,13 @@ const BalanceHistoryScreen: React.FC = () => {
     loadBalanceHistory,
     updateDateRange,
     forceRefresh,
-  } = useBalanceHistory();
+  } = useBalanceHistory({ accountId: selectedAccountId });
+
+  useEffect(() => {
+    getAccounts().then(setAccounts);
+  }, []);
+
+  const selectedAccount = accounts.find((a) => a.id === selectedAccountId);
 
   // Bottom sheet state
   const sheetHeight = useSharedValue(COLLAPSED_HEIGHT);
@@ -352,6 +366,9 @@ const BalanceHistoryScreen: React.FC = () => {
 
   const comparison = balanceData.comparison;
   const periodStats = balanceData.periodStats;
+  const netTransfers = selectedAccountId
+    ? balanceData.dailyBalances.reduce((sum, day) => sum + (day.transfers || 0), 0)
+    : 0;
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
@@ -374,6 +391,21 @@ const BalanceHistoryScreen: React.FC = () => {
         contentContainerStyle={[styles.scrollContent, { paddingBottom: EXPANDED_HEIGHT + 40 }]}
         onRefresh={forceRefresh}
       >
+        {/* Account selector */}
+        {accounts.length > 0 && (
+          <View style={styles.accountChips}>
+            <AccountChips
+              accounts={accounts}
+              selectedAccountId={selectedAccountId}
+              onSelect={(accountId) => {
+                triggerHaptic();
+                setSelectedAccountId(accountId);
+              }}
+              allLabel="All Accounts"
+            />
+          </View>
+        )}
+
         {/* Hero Balance Card - Simplified */}
         <Animated.View entering={FadeInDown.duration(400).delay(100)}>
           <View style={styles.heroCardContainer}>
@@ -395,8 +427,12 @@ const BalanceHistoryScreen: React.FC = () => {
               {/* Balance */}
               <View style={styles.balanceRow}>
                 <View style={styles.balanceMain}>
-                  <Text style={styles.balanceLabel}>Current Balance</Text>
-                  <Text style={styles.balanceAmount}>{formatCurrency(stats.balance)}</Text>
+                  <Text style={styles.balanceLabel} numberOfLines={1}>
+                    {selectedAccount ? `${selectedAccount.name} Balance` : 'Current Balance'}
+                  </Text>
+                  <Text style={styles.balanceAmount}>
+                    {formatCurrency(selectedAccount ? selectedAccount.balance : stats.balance)}
+                  </Text>
                 </View>
                 {comparison && (
                   <View style={styles.balanceChange}>
@@ -427,6 +463,8 @@ const BalanceHistoryScreen: React.FC = () => {
                   <Icon name="crystal-ball" size={14} color="rgba(255,255,255,0.7)" />
                   <Text style={styles.projectionTeaserText}>
                     Month-end projection: {formatCurrency(balanceData.projection.endOfMonth)}
+                    {balanceData.projection.scheduledExpenses > 0 &&
+                      ` · incl. ${formatCurrency(balanceData.projection.scheduledExpenses)} in bills`}
                   </Text>
                 </View>
               )}
@@ -465,6 +503,15 @@ const BalanceHistoryScreen: React.FC = () => {
                   valueColor={periodStats.netChange >= 0 ? theme.success : theme.expense}
                   change={comparison?.changes.netChange}
                 />
+                {selectedAccountId && (
+                  <>
+                    <View style={[styles.statDivider, { backgroundColor: theme.border }]} />
+                    <StatItem
+                      label="Transfers"
+                      value={`${netTransfers >= 0 ? '+' : ''}${formatCurrency(netTransfers)}`}
+                    />
+                  </>
+                )}
               </View>
             </ScrollView>
           </Animated.View>
@@ -674,6 +721,10 @@ const styles = StyleSheet.create({
   },
 
   // Hero Card Styles
+  accountChips: {
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
   heroCardContainer: {
     paddingHorizontal: spacing.md,
     marginBottom: spacing.md,
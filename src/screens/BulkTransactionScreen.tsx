@@ -25,8 +25,12 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { useTheme } from '../contexts/ThemeContext';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { useSubscription } from '../hooks/useSubscription';
+import { useDuplicateReview } from '../hooks/useDuplicateReview';
 import { UpgradePrompt, PremiumBadge, CurrencyInput, DatePickerInput } from '../components';
 import { apiService } from '../services/api';
+import { getCategoryRules, evaluateRules, smartCategorize } from '../services/categorizationService';
+import { loadCategoryModel } from '../services/categoryLearningService';
+import { mergeIntoExisting } from '../services/duplicateDetectionService';
 import { RootStackParamList } from '../navigation/types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import { Expense, Category } from '../types';
@@ -38,6 +42,7 @@ interface BulkTransaction {
   categoryId: string;
   description: string;
   date: Date;
+  categoryEdited?: boolean; // User picked the category - rules must not override it
 }
 
 const BulkTransactionScreen: React.FC = () => {
@@ -46,6 +51,7 @@ const BulkTransactionScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const { isPremium, requiresUpgrade } = useSubscription();
   const { showError, showSuccess, showInfo, AlertComponent } = useAlert();
+  const { reviewDuplicates, DuplicateReviewComponent } = useDuplicateReview();
 
   const [transactions, setTransactions] = useState<BulkTransaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -125,7 +131,13 @@ const BulkTransactionScreen: React.FC = () => {
 
   const selectCategory = (categoryId: string) => {
     if (categoryPickerIndex !== null) {
-      handleUpdateTransaction(categoryPickerIndex, 'categoryId', categoryId);
+      const updatedTransactions = [...transactions];
+      updatedTransactions[categoryPickerIndex] = {
+        ...updatedTransactions[categoryPickerIndex],
+        categoryId,
+        categoryEdited: true,
+      };
+      setTransactions(updatedTransactions);
       closeCategoryPicker();
     }
   };
@@ -137,7 +149,13 @@ const BulkTransactionScreen: React.FC = () => {
     }
 
     // Validate all transactions
-    const validTransactions: Array<{ amount: number; categoryId: string; description: string; date: Date }> = [];
+    const validTransactions: Array<{
+      amount: number;
+      categoryId: string;
+      description: string;
+      date: Date;
+      categoryEdited?: boolean;
+    }> = [];
     const errors: string[] = [];
 
     transactions.forEach((tx, index) => {
@@ -155,6 +173,7 @@ const BulkTransactionScreen: React.FC = () => {
         categoryId: tx.categoryId,
         description: tx.description.trim(),
         date: tx.date,
+        categoryEdited: tx.categoryEdited,
       });
     });
 
@@ -171,19 +190,48 @@ const BulkTransactionScreen: React.FC = () => {
     setIsProcessing(true);
 
     try {
-      // Convert amounts from display currency to USD before sending
-      const expenseData = validTransactions.map(tx => ({
-        amount: convertToUSD(tx.amount),
-        categoryId: tx.categoryId,
-        description: tx.description,
-        date: tx.date,
-      }));
+      const [rules] = await Promise.all([getCategoryRules(), loadCategoryModel()]);
+
+      // Convert amounts from display currency to USD before sending. Rows whose category wasn't
+      // picked by hand get it from category rules, then from what was learned about the merchant
+      const expenseData = validTransactions.map(tx => {
+        const amount = convertToUSD(tx.amount);
+        const match = evaluateRules({ description: tx.description, amount }, rules);
+        return {
+          amount,
+          categoryId: tx.categoryEdited
+            ? tx.categoryId
+            : match.categoryId || smartCategorize(tx.description, categories) || tx.categoryId,
+          description: tx.description,
+          date: tx.date,
+          notes: match.notes,
+          tags: match.tagIds.length > 0 ? match.tagIds : undefined,
+        };
+      });
 
-      await apiService.addExpensesBatch({ expenses: expenseData });
+      const resolutions = await reviewDuplicates(
+        expenseData.map(tx => ({ ...tx, type: 'expense' as const }))
+      );
+      if (!resolutions) return;
+
+      await Promise.all(
+        resolutions.map((resolution, index) =>
+          resolution.action === 'merge' && resolution.existing
+            ? mergeIntoExisting(resolution.existing, expenseData[index])
+            : Promise.resolve()
+        )
+      );
+
+      const toSave = expenseData.filter((_, index) => resolutions[index].action === 'keep');
+      if (toSave.length > 0) {
+        await apiService.addExpensesBatch({ expenses: toSave });
+      }
 
+      const skipped = expenseData.length - toSave.length;
       showSuccess(
         'Success!',
-        `Added ${validTransactions.length} transaction${validTransactions.length > 1 ? 's' : ''} successfully! 🎉`,
+        `Added ${toSave.length} transaction${toSave.length === 1 ? '' : 's'} successfully! 🎉` +
+          (skipped > 0 ? `\n${skipped} duplicate${skipped === 1 ? '' : 's'} skipped or merged.` : ''),
         [
           {
             text: 'OK',
@@ -550,6 +598,7 @@ const BulkTransactionScreen: React.FC = () => {
         message="Bulk entry is a Premium feature. Upgrade to add multiple transactions at once using a convenient form interface!"
       />
       {AlertComponent}
+      {DuplicateReviewComponent}
     </SafeAreaView>
   );
 };
@@ -4,7 +4,7 @@
  * Features: Multiple import sources, file picker, CSV parsing, progress tracking, duplicate detection
  */
 
-import React, { useState } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -24,10 +24,44 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/types';
-import { startCSVImport, pollImportStatus, validateWalletCSV, ImportJobStatus } from '../services/csvImportService';
+import {
+  startCSVImport,
+  pollImportStatus,
+  validateWalletCSV,
+  applyCategoryRulesToWalletCSV,
+  buildWalletCSV,
+  getWalletCSVTransactions,
+  removeWalletCSVRows,
+  ImportJobStatus,
+  NormalizedTransaction,
+} from '../services/csvImportService';
+import { decodeCSVBytes, parseCSV, ParsedCSV } from '../utils/csvParser';
+import { CSVMappingModal, CategoryMappingModal } from '../components';
+import {
+  isImportProfileId,
+  validateProfileCSV,
+  parseWithProfile,
+  getSourceCategories,
+  resolveCategoryDecisions,
+  applyCategoryMapping,
+  CategoryMappingDecision,
+} from '../services/importProfileService';
+import {
+  detectStatementFormat,
+  parseStatement,
+  filterPreviouslyImported,
+  markStatementImported,
+} from '../services/bankStatementService';
+import { Category } from '../types';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { apiService } from '../services/api';
+import tagsService from '../services/tagsService';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAlert } from '../hooks/useAlert';
+import { useDuplicateReview } from '../hooks/useDuplicateReview';
+import { mergeIntoExisting } from '../services/duplicateDetectionService';
+import { resolveWalletCSVAccounts } from '../services/accountService';
 
 type CSVImportNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -50,37 +84,40 @@ const IMPORT_SOURCES: ImportSource[] = [
     description: 'Import transactions from Wallet CSV export',
     available: true
   },
+  {
+    id: 'bank_statement',
+    name: 'Bank Statement (OFX / QFX / QIF)',
+    icon: 'bank',
+    description: 'Import a statement downloaded from your bank',
+    available: true,
+  },
   {
     id: 'mint',
     name: 'Mint',
     icon: 'leaf',
     description: 'Import transactions from Mint CSV export',
-    available: false,
-    comingSoon: true,
+    available: true,
   },
   {
     id: 'ynab',
     name: 'YNAB',
     icon: 'chart-line',
-    description: 'Import transactions from YNAB CSV export',
-    available: false,
-    comingSoon: true,
+    description: 'Import your YNAB register export, including splits',
+    available: true,
   },
   {
     id: 'excel',
     name: 'Excel / Google Sheets',
     icon: 'file-excel',
-    description: 'Import from custom CSV format',
-    available: false,
-    comingSoon: true,
+    description: 'Import any CSV by mapping its columns',
+    available: true,
   },
   {
     id: 'personal_capital',
     name: 'Personal Capital',
     icon: 'chart-pie',
     description: 'Import transactions from Personal Capital CSV',
-    available: false,
-    comingSoon: true,
+    available: true,
   },
 ];
 
@@ -92,6 +129,8 @@ const CSVImportScreen: React.FC = () => {
   const navigation = useNavigation<CSVImportNavigationProp>();
   const route = useRoute();
   const { showError, showSuccess, showInfo, showWarning, AlertComponent } = useAlert();
+  const { currencyCode, convertToUSD } = useCurrency();
+  const { reviewDuplicates, DuplicateReviewComponent } = useDuplicateReview();
 
   const [selectedSource, setSelectedSource] = useState<ImportSource | null>(
     IMPORT_SOURCES.find(s => s.available) || null
@@ -108,6 +147,18 @@ const CSVImportScreen: React.FC = () => {
     skipped: number;
     errors: string[];
   } | null>(null);
+  const [mappingCSV, setMappingCSV] = useState<ParsedCSV | null>(null);
+  const [pendingTransactions, setPendingTransactions] = useState<NormalizedTransaction[] | null>(null);
+  const [finlyCategories, setFinlyCategories] = useState<Category[]>([]);
+  const [isResolvingCategories, setIsResolvingCategories] = useState(false);
+  // Runs after a successful import job (e.g. remembering statement FITIDs)
+  const onImportCompleteRef = useRef<(() => Promise<void>) | null>(null);
+  const sourceCategories = useMemo(
+    () => (pendingTransactions ? getSourceCategories(pendingTransactions) : []),
+    [pendingTransactions]
+  );
+
+  const isStatementSource = selectedSource?.id === 'bank_statement';
 
   // Check if this is the first-time import modal
   const isFirstTime = route.params && (route.params as any).firstTime === true;
@@ -120,7 +171,10 @@ const CSVImportScreen: React.FC = () => {
 
     try {
       const result = await DocumentPicker.getDocumentAsync({
-        type: ['text/csv', 'text/comma-separated-values'],
+        // OFX/QFX/QIF have no reliable MIME types across platforms - the format is checked after picking
+        type: selectedSource.id === 'bank_statement'
+          ? '*/*'
+          : ['text/csv', 'text/comma-separated-values', 'text/plain'],
         copyToCacheDirectory: true,
       });
 
@@ -134,9 +188,98 @@ const CSVImportScreen: React.FC = () => {
         return;
       }
 
-      // Read file content using new File API
+      // Read raw bytes so non-UTF-8 exports (UTF-16, Windows-1252) decode correctly
       const fileObj = new File(file.uri);
-      const fileContent = await fileObj.text();
+      const { text: fileContent } = decodeCSVBytes(await fileObj.bytes());
+
+      // Bank statements: parse, drop FITIDs imported before, then continue like other sources
+      if (selectedSource.id === 'bank_statement') {
+        const format = detectStatementFormat(file.name, fileContent);
+        if (!format) {
+          showError('Unsupported File', 'Please select an OFX, QFX or QIF file downloaded from your bank.');
+          return;
+        }
+
+        const parsed = parseStatement(format, fileContent, currencyCode);
+        const { transactions, duplicates } = await filterPreviouslyImported(parsed.transactions);
+        const alreadySeen = parsed.duplicates + duplicates;
+
+        if (transactions.length === 0) {
+          showInfo(
+            'Nothing to Import',
+            alreadySeen > 0
+              ? 'All transactions in this statement have already been imported.'
+              : parsed.transfers > 0
+                ? 'This statement only contains transfers between accounts.'
+                : parsed.errors[0] || 'No transactions were found in this statement.'
+          );
+          return;
+        }
+
+        const notes = [
+          alreadySeen > 0 ? `${alreadySeen} already imported transaction${alreadySeen === 1 ? '' : 's'} will be skipped.` : '',
+          parsed.transfers > 0 ? `${parsed.transfers} transfer${parsed.transfers === 1 ? '' : 's'} between accounts will be skipped.` : '',
+          parsed.errors.length > 0 ? `${parsed.errors.length} unreadable entr${parsed.errors.length === 1 ? 'y' : 'ies'} will be skipped.` : '',
+        ].filter(Boolean).join('\n');
+
+        showInfo(
+          'Import Statement',
+          `Found ${transactions.length} new transaction${transactions.length === 1 ? '' : 's'} in this ${format.toUpperCase()} file.${notes ? `\n${notes}` : ''}`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Continue',
+              onPress: () => {
+                onImportCompleteRef.current = () => markStatementImported(transactions);
+                startCategoryMapping(transactions);
+              },
+            },
+          ]
+        );
+        return;
+      }
+
+      // Other apps' exports are parsed on device, then go through category mapping
+      if (isImportProfileId(selectedSource.id)) {
+        const parsed = parseCSV(fileContent);
+        const validation = validateProfileCSV(selectedSource.id, parsed);
+        if (!validation.valid) {
+          showError('Invalid CSV Format', validation.error || 'The CSV file format is not recognized.');
+          return;
+        }
+
+        const { transactions, rowErrors, skipped } = parseWithProfile(selectedSource.id, parsed, currencyCode);
+        if (transactions.length === 0) {
+          showError('No Transactions Found', 'No importable transactions were found in this file.');
+          return;
+        }
+
+        const notes = [
+          skipped > 0 ? `${skipped} transfer${skipped === 1 ? '' : 's'} will be skipped.` : '',
+          rowErrors.length > 0 ? `${rowErrors.length} invalid row${rowErrors.length === 1 ? '' : 's'} will be skipped (first: row ${rowErrors[0].row} - ${rowErrors[0].errors.join(', ')}).` : '',
+        ].filter(Boolean).join('\n');
+
+        showInfo(
+          'Import Transactions',
+          `Found ${transactions.length} transaction${transactions.length === 1 ? '' : 's'} in your ${selectedSource.name} export.${notes ? `\n${notes}` : ''}`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Continue', onPress: () => startCategoryMapping(transactions) },
+          ]
+        );
+        return;
+      }
+
+      // Custom CSVs go through the column-mapping step before importing
+      if (selectedSource.id === 'excel') {
+        const parsed = parseCSV(fileContent);
+        if (parsed.headers.length < 2 || parsed.rows.length === 0) {
+          showError('Invalid CSV File', 'Could not find a header row and data rows in this file. Please check the export and try again.');
+          return;
+        }
+        setMappingCSV(parsed);
+        return;
+      }
       
       // Validate CSV format based on selected source
       if (selectedSource.id === 'wallet') {
@@ -171,12 +314,88 @@ const CSVImportScreen: React.FC = () => {
     }
   };
 
+  const handleConfirmMapping = (transactions: NormalizedTransaction[]) => {
+    setMappingCSV(null);
+    startCategoryMapping(transactions);
+  };
+
+  // Ask how source categories map onto Finly categories (skipped when there are none)
+  const startCategoryMapping = async (transactions: NormalizedTransaction[]) => {
+    if (getSourceCategories(transactions).length === 0) {
+      handleImport(buildWalletCSV(transactions, currencyCode));
+      return;
+    }
+
+    try {
+      setFinlyCategories(await apiService.getCategories());
+      setPendingTransactions(transactions);
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to load your categories. Please try again.');
+    }
+  };
+
+  const handleConfirmCategories = async (decisions: Record<string, CategoryMappingDecision>) => {
+    if (!pendingTransactions) return;
+
+    setIsResolvingCategories(true);
+    try {
+      const mapping = await resolveCategoryDecisions(decisions, finlyCategories);
+      const csvContent = buildWalletCSV(applyCategoryMapping(pendingTransactions, mapping), currencyCode);
+      setPendingTransactions(null);
+      handleImport(csvContent);
+    } catch (error: any) {
+      showError('Category Error', error.message || 'Failed to create categories. Please try again.');
+    } finally {
+      setIsResolvingCategories(false);
+    }
+  };
+
+  /**
+   * Compare the rows about to be imported with existing transactions and drop the ones
+   * the user skips or merges. Returns null if the review was dismissed.
+   * Only rows in USD or the display currency can be compared (amounts are matched in USD).
+   */
+  const reviewImportDuplicates = async (csvContent: string): Promise<string | null> => {
+    const rows = getWalletCSVTransactions(csvContent)
+      .filter((tx) => !tx.currency || tx.currency === 'USD' || tx.currency === currencyCode)
+      .map((tx) => ({ ...tx, amount: tx.currency === 'USD' ? tx.amount : convertToUSD(tx.amount) }));
+
+    const resolutions = await reviewDuplicates(rows);
+    if (!resolutions) return null;
+
+    const removed = new Set<number>();
+    for (let i = 0; i < rows.length; i++) {
+      const { action, existing } = resolutions[i];
+      if (action === 'keep') continue;
+      removed.add(rows[i].row);
+      if (action === 'merge' && existing) {
+        await mergeIntoExisting(existing, { notes: rows[i].notes });
+      }
+    }
+    return removeWalletCSVRows(csvContent, removed);
+  };
+
   const handleImport = async (csvContent: string) => {
     if (!selectedSource || !selectedSource.available) {
       showError('Unavailable Source', 'This import source is not yet available. Please select an available source.');
       return;
     }
 
+    let reviewedContent: string | null;
+    try {
+      reviewedContent = await reviewImportDuplicates(csvContent);
+    } catch (error: any) {
+      showError('Import Failed', error.message || 'Failed to merge duplicate transactions. Please try again.');
+      return;
+    }
+    if (reviewedContent === null) return;
+    if (reviewedContent !== csvContent && getWalletCSVTransactions(reviewedContent).length === 0) {
+      await onImportCompleteRef.current?.();
+      onImportCompleteRef.current = null;
+      showInfo('Nothing to Import', 'Every transaction in this file is already in Finly.');
+      return;
+    }
+
     setImporting(true);
     setImportResult(null);
     setImportProgress({ current: 0, total: 0, percentage: 0, stage: 'starting' });
@@ -184,8 +403,15 @@ const CSVImportScreen: React.FC = () => {
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
+      // Apply the user's category rules to rows before the server categorizes them
+      const [categories, tags] = await Promise.all([apiService.getCategories(), tagsService.getTags()]);
+      const { csvContent: categorizedContent } = await applyCategoryRulesToWalletCSV(reviewedContent, categories, tags);
+
+      // Match the file's accounts to Finly accounts (creating any that are missing)
+      const accountIds = await resolveWalletCSVAccounts(categorizedContent, currencyCode);
+
       // Start async import job
-      const { jobId } = await startCSVImport(csvContent);
+      const { jobId } = await startCSVImport(categorizedContent, accountIds);
 
       // Poll for job status until completion
       const result = await pollImportStatus(
@@ -206,6 +432,8 @@ const CSVImportScreen: React.FC = () => {
       setImportResult(result);
       setImportProgress(null);
 
+      await onImportCompleteRef.current?.();
+
       // Mark import as shown if first time
       if (isFirstTime) {
         await AsyncStorage.setItem(IMPORT_SHOWN_KEY, 'true');
@@ -242,6 +470,7 @@ const CSVImportScreen: React.FC = () => {
       console.error('Import error:', error);
       setImportProgress(null);
     } finally {
+      onImportCompleteRef.current = null;
       setImporting(false);
     }
   };
@@ -375,14 +604,24 @@ const CSVImportScreen: React.FC = () => {
           <>
             {/* General Export Info */}
             <View style={styles.section}>
-              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>GETTING YOUR CSV FILE</Text>
+              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+                {isStatementSource ? 'GETTING YOUR STATEMENT' : 'GETTING YOUR CSV FILE'}
+              </Text>
               <View style={[styles.infoCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}>
                 <Icon name="information-outline" size={20} color={theme.primary} />
-                <Text style={[styles.infoText, { color: theme.text }]}>
-                  Export your transactions from {selectedSource.name} using either the mobile app or web interface.
-                  Look for an "Export" or "Download" option in your account settings or transactions section,
-                  and select CSV format. Once exported, select the file here to import.
-                </Text>
+                {isStatementSource ? (
+                  <Text style={[styles.infoText, { color: theme.text }]}>
+                    In your online banking, open the account's transaction history and look for a "Download" or
+                    "Export" option. Choose OFX, QFX (Quicken / Money) or QIF format, then select the file here.
+                    Transactions you've already imported are skipped automatically.
+                  </Text>
+                ) : (
+                  <Text style={[styles.infoText, { color: theme.text }]}>
+                    Export your transactions from {selectedSource.name} using either the mobile app or web interface.
+                    Look for an "Export" or "Download" option in your account settings or transactions section,
+                    and select CSV format. Once exported, select the file here to import.
+                  </Text>
+                )}
               </View>
             </View>
 
@@ -424,6 +663,32 @@ const CSVImportScreen: React.FC = () => {
           </>
         )}
 
+        {/* Column Mapping Modal (custom CSV sources) */}
+        <CSVMappingModal
+          visible={mappingCSV !== null}
+          csv={mappingCSV}
+          defaultCurrency={currencyCode}
+          onConfirm={handleConfirmMapping}
+          onClose={() => {
+            onImportCompleteRef.current = null;
+            setMappingCSV(null);
+          }}
+        />
+
+        {/* Category Mapping Modal (imports from other apps) */}
+        <CategoryMappingModal
+          visible={pendingTransactions !== null}
+          sourceName={selectedSource?.name || 'imported'}
+          sourceCategories={sourceCategories}
+          categories={finlyCategories}
+          isSubmitting={isResolvingCategories}
+          onConfirm={handleConfirmCategories}
+          onClose={() => {
+            onImportCompleteRef.current = null;
+            setPendingTransactions(null);
+          }}
+        />
+
         {/* Progress Modal - Full Screen Overlay */}
         <Modal
           visible={importing && importProgress !== null}
@@ -499,7 +764,9 @@ const CSVImportScreen: React.FC = () => {
             ) : (
               <>
                 <Icon name="file-import" size={24} color="#FFFFFF" />
-                <Text style={styles.importButtonText}>Select CSV File</Text>
+                <Text style={styles.importButtonText}>
+                  {isStatementSource ? 'Select Statement File' : 'Select CSV File'}
+                </Text>
               </>
             )}
           </TouchableOpacity>
@@ -545,6 +812,7 @@ const CSVImportScreen: React.FC = () => {
 
       {/* Alert Dialog */}
       {AlertComponent}
+      {DuplicateReviewComponent}
     </SafeAreaView>
   );
 };
@@ -27,10 +27,14 @@ import BottomSheet, { BottomSheetScrollView } from '@gorhom/bottom-sheet';
 import { useTheme } from '../contexts/ThemeContext';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { apiService } from '../services/api';
+import { getCategoryAmount, isSplitTransaction } from '../services/splitService';
 import { logger } from '../utils/logger';
 import { getDateKey, formatDateLabel, isCurrentMonth, getMonthLabel } from '../utils/dateFormatter';
-import { TransactionCard, BottomSheetBackground, CurrencyInput } from '../components';
-import { Expense, Category, UnifiedTransaction, RolloverSummary, BudgetType } from '../types';
+import { getHousehold, getMemberInfos } from '../services/householdService';
+import { localDatabase, LocalValuation } from '../services/localDatabase';
+import { useAppSelector } from '../store';
+import { TransactionCard, BottomSheetBackground, CurrencyInput, MemberChips } from '../components';
+import { Expense, Category, UnifiedTransaction, RolloverSummary, BudgetType, Household } from '../types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import { RootStackParamList } from '../navigation/types';
 
@@ -156,7 +160,9 @@ const groupExpensesByMonthAndDate = (expenses: Expense[]): MonthGroupedExpenses[
  */
 const CategoryDetailsScreen: React.FC = () => {
   const { theme } = useTheme();
-  const { formatCurrency, getCurrencySymbol, convertFromUSD, convertToUSD, currencyCode, formatTransactionAmount } = useCurrency();
+  const { formatCurrency, getCurrencySymbol, convertFromUSD, convertToUSD, currencyCode, formatTransactionAmount, exchangeRate } = useCurrency();
+  const valuationRef = useRef<LocalValuation | undefined>(undefined);
+  valuationRef.current = exchangeRate ? { currency: currencyCode, currentRate: exchangeRate } : undefined;
   const navigation = useNavigation<CategoryDetailsNavigationProp>();
   const route = useRoute<CategoryDetailsRouteProp>();
 
@@ -180,6 +186,11 @@ const CategoryDetailsScreen: React.FC = () => {
   const [applyToCurrentMonth, setApplyToCurrentMonth] = useState(false);
   const [rolloverSummary, setRolloverSummary] = useState<RolloverSummary | null>(null);
   const [showBudgetHistory, setShowBudgetHistory] = useState(false);
+  // Shared categories: household and the member whose expenses are shown (null = everyone)
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [memberFilter, setMemberFilter] = useState<string | null>(null);
+  const memberFilterRef = useRef<string | null>(null);
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
 
   const bottomSheetRef = useRef<BottomSheet>(null);
   const historySheetRef = useRef<BottomSheet>(null);
@@ -212,6 +223,77 @@ const CategoryDetailsScreen: React.FC = () => {
     }
   }, [category]);
 
+  /**
+   * Render the category and its latest expenses from the local database (instant, works offline)
+   * The server load that follows replaces them.
+   */
+  const showLocalData = async () => {
+    try {
+      if (!(await localDatabase.hasSynced())) return;
+      const [localCategories, localTransactions] = await Promise.all([
+        localDatabase.getCategories(),
+        localDatabase.queryTransactions({
+          type: 'expense',
+          categoryId,
+          paidBy: memberFilterRef.current || undefined,
+          limit: 20,
+        }),
+      ]);
+      const localCategory = localCategories.find(c => c.id === categoryId);
+      if (!localCategory) return;
+
+      setCategory((current) => current ?? localCategory);
+      setExpenses(
+        localTransactions
+          .filter((tx) => tx.category)
+          .map((tx) => ({
+            id: tx.id,
+            amount: tx.amount,
+            categoryId: tx.category!.id,
+            category: tx.category!,
+            description: tx.description,
+            date: tx.date,
+            paymentMethod: tx.paymentMethod,
+            notes: tx.notes,
+            tags: tx.tags,
+            accountId: tx.accountId,
+            splits: tx.splits,
+            paidBy: tx.paidBy,
+            createdAt: tx.createdAt,
+            updatedAt: tx.updatedAt || tx.createdAt,
+            originalAmount: tx.originalAmount,
+            originalCurrency: tx.originalCurrency,
+          }))
+      );
+      setLoading(false);
+    } catch (error) {
+      logger.warn('[CategoryDetailsScreen] Failed to read local data:', error);
+    }
+  };
+
+  /**
+   * Value this month's spending at the exchange rate of each expense's date
+   */
+  const revalueCategory = async (cat: Category): Promise<Category> => {
+    const valuation = valuationRef.current;
+    if (!valuation || !(await localDatabase.hasSynced())) return cat;
+    try {
+      const now = new Date();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
+      const adjustment = await localDatabase.getRevaluationAdjustment(
+        monthStart.toISOString(),
+        monthEnd.toISOString(),
+        valuation,
+        cat.id
+      );
+      return { ...cat, totalSpent: (cat.totalSpent || 0) + adjustment.expenses };
+    } catch (error) {
+      logger.warn('[CategoryDetailsScreen] Failed to revalue spending:', error);
+      return cat;
+    }
+  };
+
   /**
    * Load category data and expenses with pagination
    */
@@ -219,6 +301,7 @@ const CategoryDetailsScreen: React.FC = () => {
     try {
       if (initialLoad) {
         setLoading(true);
+        await showLocalData();
       } else {
         setRefreshing(true);
       }
@@ -227,7 +310,8 @@ const CategoryDetailsScreen: React.FC = () => {
       const categoriesData = await apiService.getCategories();
       const cat = categoriesData.find(c => c.id === categoryId);
       if (cat) {
-        setCategory(cat);
+        setCategory(await revalueCategory(cat));
+        setHousehold(cat.householdId ? await getHousehold() : null);
         setBudgetType(cat.budgetType || 'MONTHLY');
         // Use originalAmount if available (preserves user's original input)
         // Otherwise fall back to converting budgetLimit from USD
@@ -292,6 +376,7 @@ const CategoryDetailsScreen: React.FC = () => {
         categoryId,
         limit: 20,
         cursor: cursorToUse,
+        paidBy: memberFilterRef.current || undefined,
       });
 
       logger.debug('[CategoryDetailsScreen] Received expenses:', {
@@ -319,6 +404,13 @@ const CategoryDetailsScreen: React.FC = () => {
     }
   }, [categoryId]);
 
+  const handleMemberFilterChange = (memberId: string | null) => {
+    memberFilterRef.current = memberId;
+    setMemberFilter(memberId);
+    setNextCursor(null);
+    loadExpenses(true, undefined);
+  };
+
   /**
    * Load more expenses (pagination)
    */
@@ -432,7 +524,7 @@ const CategoryDetailsScreen: React.FC = () => {
       const categoriesData = await apiService.getCategories();
       const cat = categoriesData.find(c => c.id === categoryId);
       if (cat) {
-        setCategory(cat);
+        setCategory(await revalueCategory(cat));
         setBudgetType(cat.budgetType || 'MONTHLY');
         // Use originalAmount if available (preserves user's original input)
         if (cat.originalAmount !== undefined && cat.originalAmount !== null) {
@@ -469,6 +561,23 @@ const CategoryDetailsScreen: React.FC = () => {
     }
   };
 
+  /**
+   * Split expenses are listed under every category they touch; show only this category's share
+   */
+  const getCategoryShare = (expense: Expense): Expense => {
+    if (!isSplitTransaction(expense)) return expense;
+    const allocations = expense.splits!.filter((split) => split.categoryId === categoryId);
+    const hasOriginalAmounts = allocations.every((split) => split.originalAmount !== undefined);
+    return {
+      ...expense,
+      amount: getCategoryAmount(expense, categoryId),
+      originalAmount: hasOriginalAmounts
+        ? allocations.reduce((sum, split) => sum + (split.originalAmount || 0), 0)
+        : undefined,
+      originalCurrency: hasOriginalAmounts ? expense.originalCurrency : undefined,
+    };
+  };
+
   const handleExpenseTap = (expense: Expense) => {
     // Convert Expense to UnifiedTransaction format
     const transaction: UnifiedTransaction = {
@@ -483,6 +592,11 @@ const CategoryDetailsScreen: React.FC = () => {
       paymentMethod: expense.paymentMethod,
       tags: expense.tags,
       notes: expense.notes,
+      splits: expense.splits,
+      accountId: expense.accountId,
+      paidBy: expense.paidBy,
+      originalAmount: expense.originalAmount,
+      originalCurrency: expense.originalCurrency,
     };
     navigation.navigate('TransactionDetails', { transaction });
   };
@@ -559,7 +673,7 @@ const CategoryDetailsScreen: React.FC = () => {
                 {dateGroup.expenses.map((expense) => (
                   <TransactionCard
                     key={expense.id}
-                    expense={expense}
+                    expense={getCategoryShare(expense)}
                     onPress={() => handleExpenseTap(expense)}
                   />
                 ))}
@@ -735,6 +849,19 @@ const CategoryDetailsScreen: React.FC = () => {
                 </View>
               )}
             </Animated.View>
+
+            {/* Member filter - shared categories with other household members */}
+            {household && category.householdId === household.id && household.members.length > 1 && (
+              <View style={styles.memberFilter}>
+                <MemberChips
+                  members={getMemberInfos(household)}
+                  selectedMemberId={memberFilter}
+                  onSelect={handleMemberFilterChange}
+                  currentUserId={currentUserId}
+                  allLabel="Everyone"
+                />
+              </View>
+            )}
           </View>
         }
         ListEmptyComponent={
@@ -742,7 +869,7 @@ const CategoryDetailsScreen: React.FC = () => {
             <View style={styles.emptyState}>
               <Icon name="receipt-text-outline" size={64} color={theme.textTertiary} />
               <Text style={[styles.emptyStateText, { color: theme.textSecondary }]}>
-                No transactions in this category yet
+                {memberFilter ? 'No transactions from this member yet' : 'No transactions in this category yet'}
               </Text>
             </View>
           ) : null
@@ -1220,6 +1347,10 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: spacing.xxl,
   },
+  memberFilter: {
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
   monthHeader: {
     paddingHorizontal: spacing.md,
     marginTop: spacing.lg
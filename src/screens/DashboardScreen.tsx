@@ -22,6 +22,8 @@ import {
   FlatList,
 } from 'react-native';
 import { useAlert } from '../hooks/useAlert';
+import { useRecurringExpensePrompts } from '../hooks/useRecurringExpensePrompts';
+import { useSavingsGoals } from '../hooks/useSavingsGoals';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -52,16 +54,21 @@ import {
   GradientCard,
   PullToRefreshScrollView,
   NotificationPermissionBanner,
+  SavingsGoalCard,
 } from '../components';
 import { useSubscription } from '../hooks/useSubscription';
 import { apiService } from '../services/api';
+import { localDatabase, LocalValuation } from '../services/localDatabase';
 import { notificationService } from '../services/notificationService';
+import { getPinnedSearches, SavedSearch } from '../services/transactionSearchService';
 import logger from '../utils/logger';
 import { Expense, MonthlyStats, Insight, Category, UnifiedTransaction } from '../types';
 import { RootStackParamList } from '../navigation/types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import * as Haptics from 'expo-haptics';
 import FABQuickActions from '../components/FABQuickActions';
+import SyncStatusBanner from '../components/SyncStatusBanner';
+import { useAppSelector } from '../store';
 import * as Notifications from 'expo-notifications';
 import { convertCurrencyAmountsInText } from '../utils/currencyFormatter';
 import { formatDateLabel } from '../utils/dateFormatter';
@@ -123,12 +130,30 @@ type DashboardNavigationProp = StackNavigationProp<RootStackParamList, 'MainTabs
  */
 const DashboardScreen: React.FC = () => {
   const { theme, isDark } = useTheme();
-  const { formatCurrency, getCurrencySymbol, currencyCode, convertFromUSD, convertToUSD } = useCurrency();
+  const { formatCurrency, getCurrencySymbol, currencyCode, convertFromUSD, convertToUSD, exchangeRate } = useCurrency();
+  const valuationRef = useRef<LocalValuation | undefined>(undefined);
+  valuationRef.current = exchangeRate ? { currency: currencyCode, currentRate: exchangeRate } : undefined;
   const navigation = useNavigation<DashboardNavigationProp>();
   const insets = useSafeAreaInsets();
   const { isPremium, getRemainingUsage } = useSubscription();
   const { openBottomSheet, setOnTransactionAdded } = useBottomSheetActions();
   const { showError, showSuccess, showInfo, AlertComponent } = useAlert();
+  const { checkRecurringExpenses, RecurringExpensePromptComponent } = useRecurringExpensePrompts(() => loadData(true));
+  const {
+    progress: goalsProgress,
+    loadGoals,
+    completedGoal,
+    dismissCompletedGoal,
+  } = useSavingsGoals();
+  // Goals closest to completion first
+  const activeGoals = useMemo(
+    () =>
+      goalsProgress
+        .filter((goalProgress) => !goalProgress.isComplete)
+        .sort((a, b) => b.percentComplete - a.percentComplete)
+        .slice(0, 3),
+    [goalsProgress]
+  );
   const optionsSheetRef = useRef<BottomSheet>(null);
   const balanceAdjustSheetRef = useRef<BottomSheet>(null);
   const scrollViewRef = useRef<ScrollView>(null);
@@ -137,6 +162,7 @@ const DashboardScreen: React.FC = () => {
   const [totalTransactions, setTotalTransactions] = useState<number>(0);
   const [groupedTransactions, setGroupedTransactions] = useState<GroupedTransactions[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [pinnedSearches, setPinnedSearches] = useState<SavedSearch[]>([]);
   const [stats, setStats] = useState<MonthlyStats | null>(null);
   const [insights, setInsights] = useState<Insight[]>([]);
   const [loading, setLoading] = useState(true);
@@ -263,12 +289,31 @@ const DashboardScreen: React.FC = () => {
   useFocusEffect(
     useCallback(() => {
       loadData(false); // Use cache by default
+      checkRecurringExpenses(); // Post due bills / prompt for confirmation
+      loadGoals();
+      getPinnedSearches().then(setPinnedSearches); // Pinned on the transactions screen
     }, [])
   );
 
+  // Celebrate a savings goal reached since the last visit
+  useEffect(() => {
+    if (completedGoal) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess('Goal Reached! 🎉', `You saved ${formatCurrency(completedGoal.targetAmount)} for "${completedGoal.name}".`);
+    }
+  }, [completedGoal]);
+
   // Scroll to top when tab is pressed while already on this screen
   useScrollToTopOnTabPress(scrollViewRef);
 
+  // Refresh once offline changes have been replayed to the server
+  const lastSyncedAt = useAppSelector((state) => state.expenses.lastSyncedAt);
+  useEffect(() => {
+    if (lastSyncedAt) {
+      loadData(true);
+    }
+  }, [lastSyncedAt]);
+
   // Register callback to refresh when transaction is added
   useEffect(() => {
     setOnTransactionAdded(() => {
@@ -394,6 +439,36 @@ const DashboardScreen: React.FC = () => {
     }
   };
 
+  // This month's income and expenses at the exchange rate of each transaction's date
+  // The balance is what is held today, so it stays at today's rate
+  const revalueMonthlyStats = async (statsData: MonthlyStats): Promise<MonthlyStats> => {
+    const valuation = valuationRef.current;
+    if (!valuation || !(await localDatabase.hasSynced())) return statsData;
+    try {
+      const now = new Date();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
+      const adjustment = await localDatabase.getRevaluationAdjustment(
+        monthStart.toISOString(),
+        monthEnd.toISOString(),
+        valuation
+      );
+      const totalIncome = statsData.totalIncome + adjustment.income;
+      const totalExpenses = statsData.totalExpenses + adjustment.expenses;
+      const savings = totalIncome - totalExpenses;
+      return {
+        ...statsData,
+        totalIncome,
+        totalExpenses,
+        savings,
+        savingsRate: totalIncome > 0 ? (savings / totalIncome) * 100 : statsData.savingsRate,
+      };
+    } catch (error) {
+      logger.error('[Dashboard] Failed to revalue monthly stats:', error);
+      return statsData;
+    }
+  };
+
   const loadData = async (skipCache: boolean = false): Promise<void> => {
     try {
       const [transactionsResponse, categoriesData, statsData, insightsResponse] = await Promise.all([
@@ -418,7 +493,7 @@ const DashboardScreen: React.FC = () => {
       }
 
       setCategories(categoriesData);
-      setStats(statsData);
+      setStats(await revalueMonthlyStats(statsData));
 
       // Handle both old cached format (array) and new paginated format
       const insightsData = Array.isArray(insightsResponse)
@@ -762,6 +837,9 @@ const DashboardScreen: React.FC = () => {
           onScroll={handleScroll}
           scrollEventThrottle={16}
         >
+          {/* Offline sync status and conflicts */}
+          <SyncStatusBanner />
+
           {/* Premium Balance Card */}
           {stats && (
             <View 
@@ -869,6 +947,53 @@ const DashboardScreen: React.FC = () => {
             <SpendingBreakdown categories={categories} />
           </View>
 
+          {/* Savings Goals */}
+          {activeGoals.length > 0 && (
+            <View style={styles.section}>
+              <SectionHeader
+                title="Savings Goals"
+                showSeeAll
+                onSeeAllPress={() => navigation.navigate('Goals')}
+              />
+              <View style={styles.goalsList}>
+                {activeGoals.map((goalProgress) => (
+                  <SavingsGoalCard
+                    key={goalProgress.goal.id}
+                    progress={goalProgress}
+                    compact
+                    onPress={() => navigation.navigate('Goals')}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Pinned Searches */}
+          {pinnedSearches.length > 0 && (
+            <View style={styles.section}>
+              <SectionHeader title="Saved Searches" />
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.pinnedSearchesContent}
+              >
+                {pinnedSearches.map((search) => (
+                  <TouchableOpacity
+                    key={search.id}
+                    style={[styles.pinnedSearchChip, { backgroundColor: theme.card, borderColor: theme.border }]}
+                    onPress={() => navigation.navigate('TransactionsList', { query: search.query })}
+                    activeOpacity={0.7}
+                  >
+                    <Icon name="magnify" size={16} color={theme.primary} />
+                    <Text style={[styles.pinnedSearchText, { color: theme.text }]} numberOfLines={1}>
+                      {search.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          )}
+
           {/* Recent Transactions */}
           <View style={styles.section}>
             <SectionHeader
@@ -975,6 +1100,10 @@ const DashboardScreen: React.FC = () => {
           active={showConfetti}
           onAnimationEnd={() => setShowConfetti(false)}
         /> */}
+        <ConfettiCelebration
+          active={!!completedGoal}
+          onAnimationEnd={dismissCompletedGoal}
+        />
 
         {/* Balance Adjustment Bottom Sheet */}
         <BottomSheet
@@ -1096,6 +1225,7 @@ const DashboardScreen: React.FC = () => {
           onPermissionGranted={handleNotificationPermissionGranted}
           onPermissionDenied={handleNotificationPermissionDenied}
         />
+        {RecurringExpensePromptComponent}
         {AlertComponent}
       </SafeAreaView>
     </GestureHandlerRootView>
@@ -1227,6 +1357,27 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: spacing.lg,
   },
+  goalsList: {
+    gap: spacing.sm,
+  },
+  pinnedSearchesContent: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.sm,
+  },
+  pinnedSearchChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    gap: spacing.xs,
+    maxWidth: 220,
+  },
+  pinnedSearchText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
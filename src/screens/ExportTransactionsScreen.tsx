@@ -1,10 +1,10 @@
 /**
  * ExportTransactionsScreen component
- * Purpose: Allow users to export transactions to CSV files with date range selection
- * Features: Date range selection, CSV export, file sharing
+ * Purpose: Allow users to export transactions and reports for a date range
+ * Features: Preset or custom date range, category/tag filters, CSV / PDF report / XLSX workbook, file sharing
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -23,13 +23,41 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/types';
+import { fetchAllTransactions, transactionsToCSV } from '../services/dataExportService';
+import {
+  buildReportData,
+  generatePDFReport,
+  generateXLSXReport,
+  ReportFilters,
+} from '../services/reportService';
+import tagsService from '../services/tagsService';
 import { apiService } from '../services/api';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { DatePickerInput, ToggleSelector } from '../components';
+import { Category, Tag } from '../types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import { useAlert } from '../hooks/useAlert';
-import { UnifiedTransaction } from '../types';
 
 type ExportTransactionsNavigationProp = StackNavigationProp<RootStackParamList>;
 
+type ExportFormat = 'csv' | 'pdf' | 'xlsx';
+
+const FORMAT_OPTIONS = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'pdf', label: 'PDF Report' },
+  { value: 'xlsx', label: 'Excel' },
+];
+
+const SHARE_OPTIONS: Record<ExportFormat, { mimeType: string; UTI: string; dialogTitle: string }> = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', dialogTitle: 'Export Transactions' },
+  pdf: { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: 'Share Report' },
+  xlsx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    UTI: 'org.openxmlformats.spreadsheetml.sheet',
+    dialogTitle: 'Share Workbook',
+  },
+};
+
 type DateRangeOption = {
   id: string;
   label: string;
@@ -57,6 +85,17 @@ const DATE_RANGE_OPTIONS: DateRangeOption[] = [
       return { startDate, endDate };
     },
   },
+  {
+    id: 'previous_quarter',
+    label: 'Previous Calendar Quarter',
+    getDateRange: () => {
+      const now = new Date();
+      const currentQuarterStart = Math.floor(now.getMonth() / 3) * 3;
+      const startDate = new Date(now.getFullYear(), currentQuarterStart - 3, 1);
+      const endDate = new Date(now.getFullYear(), currentQuarterStart, 0, 23, 59, 59, 999);
+      return { startDate, endDate };
+    },
+  },
   {
     id: 'half_year',
     label: 'Last 6 Months',
@@ -77,28 +116,80 @@ const DATE_RANGE_OPTIONS: DateRangeOption[] = [
       return { startDate, endDate };
     },
   },
-  // {
-  //   id: 'all_time',
-  //   label: 'All Time',
-  //   getDateRange: () => {
-  //     const endDate = new Date();
-  //     const startDate = new Date(2020, 0, 1); // Start from 2020
-  //     return { startDate, endDate };
-  //   },
-  // },
+  {
+    id: 'all_time',
+    label: 'All Time',
+    getDateRange: () => {
+      const endDate = new Date();
+      const startDate = new Date(2020, 0, 1); // Start from 2020
+      return { startDate, endDate };
+    },
+  },
 ];
 
+const CUSTOM_RANGE_ID = 'custom';
+
 /**
- * ExportTransactionsScreen - Export transactions to CSV
+ * ExportTransactionsScreen - Export transactions to CSV, PDF or XLSX
  */
 const ExportTransactionsScreen: React.FC = () => {
   const { theme } = useTheme();
   const navigation = useNavigation<ExportTransactionsNavigationProp>();
   const { showError, showSuccess, AlertComponent } = useAlert();
   
+  const {
+    currencyCode,
+    formatCurrency,
+    convertFromUSD,
+    exchangeRate,
+    loadRatesForDates,
+    getTransactionValueOnDate,
+  } = useCurrency();
+
   const [selectedRange, setSelectedRange] = useState<string>('last_month');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [customStartDate, setCustomStartDate] = useState<Date>(() => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - 1);
+    return date;
+  });
+  const [customEndDate, setCustomEndDate] = useState<Date>(new Date());
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedCategoryIds, setSelectedCategoryIds] = useState<string[]>([]);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const [exporting, setExporting] = useState(false);
 
+  useEffect(() => {
+    Promise.all([apiService.getCategories(), tagsService.getTags()])
+      .then(([loadedCategories, loadedTags]) => {
+        setCategories(loadedCategories);
+        setTags(loadedTags);
+      })
+      .catch((error) => console.error('Failed to load export filters:', error));
+  }, []);
+
+  const toggleSelection = (list: string[], setList: (ids: string[]) => void, id: string) => {
+    Haptics.selectionAsync();
+    setList(list.includes(id) ? list.filter((item) => item !== id) : [...list, id]);
+  };
+
+  const getSelectedDateRange = (): { startDate: Date; endDate: Date } | null => {
+    if (selectedRange === CUSTOM_RANGE_ID) {
+      const startDate = new Date(customStartDate);
+      startDate.setHours(0, 0, 0, 0);
+      const endDate = new Date(customEndDate);
+      endDate.setHours(23, 59, 59, 999);
+      return { startDate, endDate };
+    }
+    return DATE_RANGE_OPTIONS.find(opt => opt.id === selectedRange)?.getDateRange() ?? null;
+  };
+
+  const getFilterLabels = (): string[] => [
+    ...categories.filter((c) => selectedCategoryIds.includes(c.id)).map((c) => c.name),
+    ...tags.filter((t) => selectedTagIds.includes(t.id)).map((t) => `#${t.name}`),
+  ];
+
   const formatDate = (date: Date): string => {
     return date.toISOString().split('T')[0];
   };
@@ -111,80 +202,83 @@ const ExportTransactionsScreen: React.FC = () => {
     });
   };
 
-  const convertToCSV = (transactions: UnifiedTransaction[]): string => {
-    if (transactions.length === 0) {
-      return 'Date,Type,Amount,Description,Category,Payment Method,Tags\n';
+  /**
+   * Write the selected format to a file and return its URI
+   */
+  const createExportFile = async (filters: ReportFilters): Promise<{ fileUri: string; count: number }> => {
+    // Fetch every transaction in the selected date range, page by page
+    const transactions = await fetchAllTransactions({ startDate: filters.startDate, endDate: filters.endDate });
+    // Reports value each transaction at its own date's exchange rate; the CSV keeps stored amounts
+    const valuation = exportFormat !== 'csv' && exchangeRate
+      ? { currency: currencyCode, currentRate: exchangeRate }
+      : undefined;
+    if (valuation) await loadRatesForDates(transactions);
+    const report = buildReportData(transactions, filters, valuation);
+    if (report.transactions.length === 0) {
+      return { fileUri: '', count: 0 };
     }
 
-    const headers = 'Date,Type,Amount,Description,Category,Payment Method,Tags\n';
-    const rows = transactions.map((tx) => {
-      const date = formatDate(new Date(tx.date));
-      const type = tx.type === 'expense' ? 'Expense' : 'Income';
-      const amount = tx.amount.toString();
-      const description = (tx.description || '').replace(/,/g, ';').replace(/"/g, '""');
-      const category = tx.category?.name || (tx.type === 'income' ? (tx.incomeSource?.name || 'Income') : 'Uncategorized');
-      const paymentMethod = tx.paymentMethod || '';
-      const tags = tx.tags?.map(t => typeof t === 'string' ? t : t.name).join(';') || '';
-      
-      return `"${date}","${type}","${amount}","${description}","${category}","${paymentMethod}","${tags}"`;
-    });
+    if (exportFormat === 'csv') {
+      const fileName = `finly_transactions_${formatDate(filters.startDate)}_to_${formatDate(filters.endDate)}.csv`;
+      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+      // RFC 4180 CSV, UTF-8 (the default encoding)
+      await FileSystem.writeAsStringAsync(fileUri, transactionsToCSV(report.transactions));
+      return { fileUri, count: report.transactions.length };
+    }
 
-    return headers + rows.join('\n');
+    const formatter = {
+      currencyCode,
+      formatCurrency: (amount: number) => formatCurrency(amount, { disableAbbreviations: true }),
+      convertFromUSD,
+      getTransactionValueOnDate,
+    };
+    const fileUri = exportFormat === 'pdf'
+      ? await generatePDFReport(report, formatter, getFilterLabels())
+      : await generateXLSXReport(report, formatter, getFilterLabels());
+    return { fileUri, count: report.transactions.length };
   };
 
   const handleExport = async () => {
-    const selectedOption = DATE_RANGE_OPTIONS.find(opt => opt.id === selectedRange);
-    if (!selectedOption) {
+    const range = getSelectedDateRange();
+    if (!range) {
       showError('Error', 'Please select a date range');
       return;
     }
+    if (range.startDate > range.endDate) {
+      showError('Invalid Date Range', 'The start date must be before the end date.');
+      return;
+    }
 
     setExporting(true);
 
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-      const { startDate, endDate } = selectedOption.getDateRange();
-      
-      // Fetch transactions for the selected date range
-      const transactions = await apiService.getUnifiedTransactions({
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-        limit: 10000, // Large limit to get all transactions
+      const { fileUri, count } = await createExportFile({
+        ...range,
+        categoryIds: selectedCategoryIds,
+        tagIds: selectedTagIds,
       });
 
-      if (transactions.length === 0) {
-        showError('No Transactions', 'No transactions found for the selected date range.');
-        setExporting(false);
+      if (count === 0) {
+        showError('No Transactions', 'No transactions found for the selected date range and filters.');
         return;
       }
 
-      // Convert to CSV
-      const csvContent = convertToCSV(transactions);
-
-      // Create a file with the CSV content using legacy FileSystem API
-      const fileName = `finly_transactions_${formatDate(startDate)}_to_${formatDate(endDate)}.csv`;
-      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
-      
-      // Write CSV content to file (UTF-8 is the default encoding)
-      await FileSystem.writeAsStringAsync(fileUri, csvContent);
+      const summary = `Successfully exported ${count} transaction${count === 1 ? '' : 's'}.`;
 
       // Check if sharing is available
       const isAvailable = await Sharing.isAvailableAsync();
       if (isAvailable) {
         try {
           // Share the file - this will allow users to save to Files app
-          await Sharing.shareAsync(fileUri, {
-            mimeType: 'text/csv',
-            dialogTitle: 'Export Transactions',
-            UTI: 'public.comma-separated-values-text', // iOS UTI for CSV
-          });
+          await Sharing.shareAsync(fileUri, SHARE_OPTIONS[exportFormat]);
 
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
           showSuccess(
             'Export Complete',
-            `Successfully exported ${transactions.length} transaction${transactions.length === 1 ? '' : 's'}. You can save it to your Files app from the share menu.`
+            `${summary} You can save it to your Files app from the share menu.`
           );
         } catch (shareError: any) {
           // User cancelled or sharing failed - don't show error, file is still created
@@ -198,7 +292,7 @@ const ExportTransactionsScreen: React.FC = () => {
         // Fallback: if sharing is not available, show file location
         showSuccess(
           'Export Complete',
-          `Successfully exported ${transactions.length} transaction${transactions.length === 1 ? '' : 's'}. File saved to: ${fileUri}`
+          `${summary} File saved to: ${fileUri}`
         );
       }
     } catch (error: any) {
@@ -209,9 +303,6 @@ const ExportTransactionsScreen: React.FC = () => {
     }
   };
 
-  const selectedOption = DATE_RANGE_OPTIONS.find(opt => opt.id === selectedRange);
-  const dateRange = selectedOption?.getDateRange();
-
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top', 'bottom']}>
       <ScrollView
@@ -235,10 +326,21 @@ const ExportTransactionsScreen: React.FC = () => {
         <View style={[styles.infoCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}>
           <Icon name="information-outline" size={24} color={theme.primary} />
           <Text style={[styles.infoText, { color: theme.text }]}>
-            Export your transactions to a CSV file. Select a date range below to choose which transactions to export.
+            Export your transactions as a CSV file, a PDF report with charts, or an Excel workbook with one sheet per month.
           </Text>
         </View>
 
+        {/* Format Selection */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>FORMAT</Text>
+          <ToggleSelector
+            options={FORMAT_OPTIONS}
+            selectedValue={exportFormat}
+            onValueChange={(value) => setExportFormat(value as ExportFormat)}
+            fullWidth
+          />
+        </View>
+
         {/* Date Range Selection */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>SELECT DATE RANGE</Text>
@@ -279,9 +381,119 @@ const ExportTransactionsScreen: React.FC = () => {
                 </TouchableOpacity>
               );
             })}
+
+            <TouchableOpacity
+              style={[
+                styles.rangeButton,
+                {
+                  backgroundColor: selectedRange === CUSTOM_RANGE_ID ? theme.primary + '20' : theme.card,
+                  borderColor: selectedRange === CUSTOM_RANGE_ID ? theme.primary : theme.border,
+                },
+                elevation.sm,
+              ]}
+              onPress={() => {
+                setSelectedRange(CUSTOM_RANGE_ID);
+                Haptics.selectionAsync();
+              }}
+            >
+              <View style={styles.rangeButtonContent}>
+                <View style={styles.rangeButtonHeader}>
+                  <Text style={[styles.rangeButtonLabel, { color: theme.text }]}>Custom Range</Text>
+                  {selectedRange === CUSTOM_RANGE_ID && (
+                    <Icon name="check-circle" size={20} color={theme.primary} />
+                  )}
+                </View>
+                {selectedRange === CUSTOM_RANGE_ID ? (
+                  <View style={styles.customRange}>
+                    <DatePickerInput
+                      label="From"
+                      date={customStartDate}
+                      onDateChange={setCustomStartDate}
+                      maximumDate={customEndDate}
+                    />
+                    <DatePickerInput
+                      label="To"
+                      date={customEndDate}
+                      onDateChange={setCustomEndDate}
+                      minimumDate={customStartDate}
+                      maximumDate={new Date()}
+                    />
+                  </View>
+                ) : (
+                  <Text style={[styles.rangeButtonDates, { color: theme.textSecondary }]}>
+                    Pick any start and end date
+                  </Text>
+                )}
+              </View>
+            </TouchableOpacity>
           </View>
         </View>
 
+        {/* Filters */}
+        {(categories.length > 0 || tags.length > 0) && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>FILTERS (OPTIONAL)</Text>
+            {categories.length > 0 && (
+              <>
+                <Text style={[styles.filterLabel, { color: theme.textSecondary }]}>
+                  Categories{selectedCategoryIds.length > 0 ? ' (expenses only)' : ''}
+                </Text>
+                <View style={styles.chipContainer}>
+                  {categories.map((category) => {
+                    const isSelected = selectedCategoryIds.includes(category.id);
+                    return (
+                      <TouchableOpacity
+                        key={category.id}
+                        style={[
+                          styles.chip,
+                          {
+                            backgroundColor: isSelected ? category.color + '20' : theme.card,
+                            borderColor: isSelected ? category.color : theme.border,
+                          },
+                        ]}
+                        onPress={() => toggleSelection(selectedCategoryIds, setSelectedCategoryIds, category.id)}
+                      >
+                        <Icon name={category.icon as any} size={14} color={category.color} />
+                        <Text style={[styles.chipText, { color: isSelected ? category.color : theme.text }]}>
+                          {category.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+            {tags.length > 0 && (
+              <>
+                <Text style={[styles.filterLabel, { color: theme.textSecondary }]}>Tags</Text>
+                <View style={styles.chipContainer}>
+                  {tags.map((tag) => {
+                    const isSelected = selectedTagIds.includes(tag.id);
+                    return (
+                      <TouchableOpacity
+                        key={tag.id}
+                        style={[
+                          styles.chip,
+                          {
+                            backgroundColor: isSelected ? tag.color + '20' : theme.card,
+                            borderColor: isSelected ? tag.color : theme.border,
+                          },
+                        ]}
+                        onPress={() => toggleSelection(selectedTagIds, setSelectedTagIds, tag.id)}
+                      >
+                        <View style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                        <Text style={[styles.chipText, { color: isSelected ? tag.color : theme.text }]}>
+                          {tag.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+          </View>
+        )}
+
         {/* Export Button */}
         <TouchableOpacity
           style={[
@@ -301,8 +513,14 @@ const ExportTransactionsScreen: React.FC = () => {
             </>
           ) : (
             <>
-              <Icon name="file-export" size={24} color="#FFFFFF" />
-              <Text style={styles.exportButtonText}>Export to CSV</Text>
+              <Icon
+                name={exportFormat === 'pdf' ? 'file-pdf-box' : exportFormat === 'xlsx' ? 'file-excel' : 'file-export'}
+                size={24}
+                color="#FFFFFF"
+              />
+              <Text style={styles.exportButtonText}>
+                {exportFormat === 'pdf' ? 'Create PDF Report' : exportFormat === 'xlsx' ? 'Export to Excel' : 'Export to CSV'}
+              </Text>
             </>
           )}
         </TouchableOpacity>
@@ -319,6 +537,11 @@ const ExportTransactionsScreen: React.FC = () => {
                 { icon: 'text', text: 'Descriptions and notes' },
                 { icon: 'tag', text: 'Categories and tags' },
                 { icon: 'credit-card', text: 'Payment methods' },
+                ...(exportFormat === 'pdf'
+                  ? [{ icon: 'chart-bar', text: 'Summary, category breakdown, top merchants and income vs expense chart' }]
+                  : exportFormat === 'xlsx'
+                    ? [{ icon: 'calendar-month', text: 'Summary sheet plus one statement sheet per month' }]
+                    : []),
               ].map((feature, index) => (
                 <View key={index} style={styles.featureItem}>
                   <Icon name={feature.icon as any} size={18} color={theme.primary} />
@@ -413,6 +636,38 @@ const styles = StyleSheet.create({
   rangeButtonDates: {
     ...typography.bodySmall,
   },
+  customRange: {
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  filterLabel: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs + 2,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    ...typography.labelMedium,
+  },
+  tagDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
   exportButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,920 @@
+/**
+ * GoalsScreen Component
+ * Purpose: Manage savings goals (emergency fund, vacation, new car)
+ * Features: Add, edit, delete goals, manual contributions or automatic tracking from a linked
+ * category/tag or a share of net savings, projected completion date, confetti when a goal is reached
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { useAlert } from '../hooks/useAlert';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import BottomSheet, { BottomSheetScrollView } from '@gorhom/bottom-sheet';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/types';
+import { apiService } from '../services/api';
+import tagsService from '../services/tagsService';
+import {
+  createSavingsGoal,
+  updateSavingsGoal,
+  deleteSavingsGoal,
+  addGoalContribution,
+} from '../services/savingsGoalService';
+import { useSavingsGoals } from '../hooks/useSavingsGoals';
+import { Category, GoalContributionMode, SavingsGoal, Tag } from '../types';
+import {
+  BottomSheetBackground,
+  CategoryPickerModal,
+  ConfettiCelebration,
+  CurrencyInput,
+  DatePickerInput,
+  PullToRefreshScrollView,
+  SavingsGoalCard,
+  ToggleSelector,
+} from '../components';
+import { getValidIcon } from '../utils/iconUtils';
+import { typography, spacing, borderRadius, elevation } from '../theme';
+
+type GoalsNavigationProp = StackNavigationProp<RootStackParamList>;
+
+type AutomaticSource = 'NET_SAVINGS' | 'CATEGORY' | 'TAG';
+
+const GOAL_ICONS = ['piggy-bank', 'home', 'car', 'airplane', 'heart-pulse', 'star', 'bank', 'shopping', 'target'];
+
+const CONTRIBUTION_MODE_OPTIONS = [
+  { value: 'MANUAL', label: 'Manual' },
+  { value: 'AUTOMATIC', label: 'Automatic' },
+];
+
+const AUTOMATIC_SOURCE_OPTIONS: Array<{ value: AutomaticSource; label: string; icon: string }> = [
+  { value: 'NET_SAVINGS', label: 'Net Savings', icon: 'trending-up' },
+  { value: 'CATEGORY', label: 'Category', icon: 'shape-outline' },
+  { value: 'TAG', label: 'Tag', icon: 'tag-outline' },
+];
+
+const AUTO_PERCENT_OPTIONS = [10, 25, 50, 100];
+
+const GoalsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { formatCurrency, convertToUSD, convertFromUSD, currencyCode } = useCurrency();
+  const navigation = useNavigation<GoalsNavigationProp>();
+  const { showError, showSuccess, showInfo, showWarning, AlertComponent } = useAlert();
+  const { progress, loading, loadGoals, completedGoal, dismissCompletedGoal } = useSavingsGoals();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+
+  // Goal form state
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | null>(null);
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [hasTargetDate, setHasTargetDate] = useState(false);
+  const [targetDate, setTargetDate] = useState(() => {
+    const date = new Date();
+    date.setFullYear(date.getFullYear() + 1);
+    return date;
+  });
+  const [icon, setIcon] = useState(GOAL_ICONS[0]);
+  const [contributionMode, setContributionMode] = useState<GoalContributionMode>('MANUAL');
+  const [automaticSource, setAutomaticSource] = useState<AutomaticSource>('NET_SAVINGS');
+  const [autoPercent, setAutoPercent] = useState(25);
+  const [linkedCategoryId, setLinkedCategoryId] = useState<string | undefined>(undefined);
+  const [linkedTagId, setLinkedTagId] = useState<string | undefined>(undefined);
+
+  // Contribution form state
+  const [contributionGoal, setContributionGoal] = useState<SavingsGoal | null>(null);
+  const [contributionAmount, setContributionAmount] = useState('');
+  const [contributionNote, setContributionNote] = useState('');
+
+  const goalSheetRef = useRef<BottomSheet>(null);
+  const contributionSheetRef = useRef<BottomSheet>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadGoals();
+    }, [loadGoals])
+  );
+
+  useEffect(() => {
+    Promise.all([apiService.getCategories(), tagsService.getTags()])
+      .then(([categoriesData, tagsData]) => {
+        setCategories(categoriesData);
+        setTags(tagsData);
+      })
+      .catch((error) => console.error('Error loading categories and tags:', error));
+  }, []);
+
+  useEffect(() => {
+    if (completedGoal) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess('Goal Reached! 🎉', `You saved ${formatCurrency(completedGoal.targetAmount)} for "${completedGoal.name}".`);
+    }
+  }, [completedGoal]);
+
+  useEffect(() => {
+    if (editingGoal) {
+      setName(editingGoal.name);
+      // Edit in the currency the target was set in, otherwise convert from USD
+      setTargetAmount(
+        editingGoal.originalTargetAmount && editingGoal.currency === currencyCode
+          ? editingGoal.originalTargetAmount.toFixed(2)
+          : convertFromUSD(editingGoal.targetAmount).toFixed(2)
+      );
+      setHasTargetDate(!!editingGoal.targetDate);
+      if (editingGoal.targetDate) {
+        setTargetDate(new Date(editingGoal.targetDate));
+      }
+      setIcon(editingGoal.icon);
+      setContributionMode(editingGoal.contributionMode);
+      setAutomaticSource(
+        editingGoal.linkedCategoryId ? 'CATEGORY' : editingGoal.linkedTagId ? 'TAG' : 'NET_SAVINGS'
+      );
+      setAutoPercent(editingGoal.autoContributionPercent ?? 25);
+      setLinkedCategoryId(editingGoal.linkedCategoryId ?? undefined);
+      setLinkedTagId(editingGoal.linkedTagId ?? undefined);
+      goalSheetRef.current?.expand();
+    } else {
+      resetForm();
+    }
+  }, [editingGoal]);
+
+  const resetForm = () => {
+    setName('');
+    setTargetAmount('');
+    setHasTargetDate(false);
+    const nextYear = new Date();
+    nextYear.setFullYear(nextYear.getFullYear() + 1);
+    setTargetDate(nextYear);
+    setIcon(GOAL_ICONS[0]);
+    setContributionMode('MANUAL');
+    setAutomaticSource('NET_SAVINGS');
+    setAutoPercent(25);
+    setLinkedCategoryId(undefined);
+    setLinkedTagId(undefined);
+    setEditingGoal(null);
+  };
+
+  const handleOpenAddSheet = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    resetForm();
+    goalSheetRef.current?.expand();
+  };
+
+  const handleCloseSheet = () => {
+    goalSheetRef.current?.close();
+    setTimeout(() => {
+      resetForm();
+    }, 300);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showInfo('Missing Name', 'Please enter a name for this goal');
+      return;
+    }
+
+    if (!targetAmount || parseFloat(targetAmount) <= 0) {
+      showError('Invalid Amount', 'Please enter a valid target amount');
+      return;
+    }
+
+    if (contributionMode === 'AUTOMATIC' && automaticSource === 'CATEGORY' && !linkedCategoryId) {
+      showInfo('Missing Category', 'Please choose the category you move savings into');
+      return;
+    }
+
+    if (contributionMode === 'AUTOMATIC' && automaticSource === 'TAG' && !linkedTagId) {
+      showInfo('Missing Tag', 'Please choose the tag you use for savings');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const originalTargetAmount = parseFloat(targetAmount);
+      // Convert input amount (display currency) to USD before saving
+      const targetInUSD =
+        currencyCode.toUpperCase() === 'USD' ? originalTargetAmount : convertToUSD(originalTargetAmount);
+      const isAutomatic = contributionMode === 'AUTOMATIC';
+
+      const goalData = {
+        name: name.trim(),
+        targetAmount: targetInUSD,
+        targetDate: hasTargetDate ? targetDate.toISOString() : null,
+        currency: currencyCode,
+        originalTargetAmount,
+        icon,
+        contributionMode,
+        autoContributionPercent: isAutomatic && automaticSource === 'NET_SAVINGS' ? autoPercent : undefined,
+        linkedCategoryId: isAutomatic && automaticSource === 'CATEGORY' ? linkedCategoryId : null,
+        linkedTagId: isAutomatic && automaticSource === 'TAG' ? linkedTagId : null,
+        startDate: editingGoal?.startDate || new Date().toISOString(),
+      };
+
+      if (editingGoal) {
+        // A raised target re-opens a completed goal
+        const reopen = editingGoal.completedAt && targetInUSD > editingGoal.targetAmount;
+        await updateSavingsGoal(editingGoal.id, reopen ? { ...goalData, completedAt: null } : goalData);
+        showSuccess('Success', 'Goal updated successfully!');
+      } else {
+        await createSavingsGoal(goalData);
+        showSuccess('Success', 'Goal created successfully!');
+      }
+
+      await loadGoals();
+
+      handleCloseSheet();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      showError('Error', 'Failed to save goal');
+      console.error('Error saving savings goal:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (goal: SavingsGoal) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    showWarning(
+      'Delete Goal',
+      `Are you sure you want to delete "${goal.name}"? Your transactions are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteSavingsGoal(goal.id);
+              await loadGoals();
+
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (error) {
+              showError('Error', 'Failed to delete goal');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEdit = (goal: SavingsGoal) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setEditingGoal(goal);
+  };
+
+  const handleOpenContribution = (goal: SavingsGoal) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setContributionGoal(goal);
+    setContributionAmount('');
+    setContributionNote('');
+    contributionSheetRef.current?.expand();
+  };
+
+  const handleSaveContribution = async () => {
+    if (!contributionGoal) return;
+
+    if (!contributionAmount || parseFloat(contributionAmount) <= 0) {
+      showError('Invalid Amount', 'Please enter a valid amount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const originalAmount = parseFloat(contributionAmount);
+      await addGoalContribution(contributionGoal.id, {
+        amount: currencyCode.toUpperCase() === 'USD' ? originalAmount : convertToUSD(originalAmount),
+        note: contributionNote.trim() || undefined,
+        originalAmount,
+        originalCurrency: currencyCode,
+      });
+      await loadGoals();
+
+      contributionSheetRef.current?.close();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      showError('Error', 'Failed to add money to goal');
+      console.error('Error adding goal contribution:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedCategory = categories.find((c) => c.id === linkedCategoryId);
+  const totalSaved = progress.reduce((sum, p) => sum + Math.min(p.savedAmount, p.goal.targetAmount), 0);
+  const totalTarget = progress.reduce((sum, p) => sum + p.goal.targetAmount, 0);
+  // Incomplete goals first, closest to done on top
+  const sortedProgress = [...progress].sort(
+    (a, b) => Number(a.isComplete) - Number(b.isComplete) || b.percentComplete - a.percentComplete
+  );
+
+  if (loading && progress.length === 0) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Icon name="arrow-left" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Savings Goals</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <PullToRefreshScrollView
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={{ paddingBottom: 100 }}
+        onRefresh={loadGoals}
+      >
+        {progress.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Icon name="piggy-bank" size={64} color={theme.textTertiary} />
+            <Text style={[styles.emptyTitle, { color: theme.text }]}>No Savings Goals</Text>
+            <Text style={[styles.emptyDescription, { color: theme.textSecondary }]}>
+              Set a target for an emergency fund, a trip or a big purchase and track how close you are
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Summary */}
+            <View style={[styles.summaryCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}>
+              <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Saved towards your goals</Text>
+              <Text style={[styles.summaryAmount, { color: theme.success }]}>
+                {formatCurrency(totalSaved)}
+                <Text style={[styles.summaryTarget, { color: theme.textSecondary }]}> of {formatCurrency(totalTarget)}</Text>
+              </Text>
+            </View>
+
+            <View style={styles.goalsList}>
+              {sortedProgress.map((goalProgress) => (
+                <SavingsGoalCard
+                  key={goalProgress.goal.id}
+                  progress={goalProgress}
+                  onAddMoney={() => handleOpenContribution(goalProgress.goal)}
+                  onEdit={() => handleEdit(goalProgress.goal)}
+                  onDelete={() => handleDelete(goalProgress.goal)}
+                />
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Add Button */}
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: theme.primary }, elevation.md]}
+          onPress={handleOpenAddSheet}
+        >
+          <Icon name="plus" size={24} color="#FFFFFF" />
+          <Text style={styles.addButtonText}>Add Savings Goal</Text>
+        </TouchableOpacity>
+      </PullToRefreshScrollView>
+
+      {/* Add/Edit Goal Bottom Sheet */}
+      <BottomSheet
+        ref={goalSheetRef}
+        index={-1}
+        snapPoints={['85%']}
+        enablePanDownToClose
+        backgroundComponent={BottomSheetBackground}
+        handleIndicatorStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.4)' }}
+        keyboardBehavior="interactive"
+        keyboardBlurBehavior="restore"
+        android_keyboardInputMode="adjustResize"
+        onChange={(index) => {
+          if (index === -1) {
+            resetForm();
+          }
+        }}
+      >
+        <BottomSheetScrollView
+          style={styles.bottomSheetContent}
+          contentContainerStyle={styles.bottomSheetContentContainer}
+        >
+          <Text style={[styles.sheetTitle, { color: theme.text }]}>
+            {editingGoal ? 'Edit Savings Goal' : 'Add Savings Goal'}
+          </Text>
+
+          {/* Name */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Name</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+              placeholder="e.g., Emergency Fund, Japan Trip"
+              placeholderTextColor={theme.textTertiary}
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+
+          {/* Icon */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Icon</Text>
+            <View style={styles.iconGrid}>
+              {GOAL_ICONS.map((iconName) => {
+                const selected = icon === iconName;
+                return (
+                  <TouchableOpacity
+                    key={iconName}
+                    style={[
+                      styles.iconOption,
+                      {
+                        backgroundColor: selected ? theme.primary + '20' : theme.background,
+                        borderColor: selected ? theme.primary : theme.border,
+                      },
+                    ]}
+                    onPress={() => setIcon(iconName)}
+                  >
+                    <Icon
+                      name={getValidIcon(iconName) as any}
+                      size={22}
+                      color={selected ? theme.primary : theme.textSecondary}
+                    />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Target Amount */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Target Amount</Text>
+            <View style={[styles.amountInput, { backgroundColor: theme.background, borderColor: theme.border }]}>
+              <CurrencyInput
+                value={targetAmount}
+                onChangeText={setTargetAmount}
+                placeholder="0.00"
+                placeholderTextColor={theme.textTertiary}
+                showSymbol={true}
+                allowDecimals={true}
+                inputStyle={styles.currencyInputField}
+              />
+            </View>
+          </View>
+
+          {/* Target Date */}
+          <View style={[styles.inputGroup, styles.toggleGroup]}>
+            <View style={styles.toggleInfo}>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Target Date</Text>
+              <Text style={[styles.toggleDescription, { color: theme.textTertiary }]}>
+                {hasTargetDate ? 'See whether you are on track to make it' : 'No deadline'}
+              </Text>
+            </View>
+            <Switch
+              value={hasTargetDate}
+              onValueChange={setHasTargetDate}
+              trackColor={{ false: theme.border, true: theme.primary + '60' }}
+              thumbColor={hasTargetDate ? theme.primary : theme.surface}
+            />
+          </View>
+          {hasTargetDate && (
+            <View style={styles.inputGroup}>
+              <DatePickerInput
+                date={targetDate}
+                onDateChange={setTargetDate}
+                label="Reach goal by"
+                minimumDate={new Date()}
+                maximumDate={new Date(new Date().getFullYear() + 50, 11, 31)}
+              />
+            </View>
+          )}
+
+          {/* Contributions */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Contributions</Text>
+            <ToggleSelector
+              options={CONTRIBUTION_MODE_OPTIONS}
+              selectedValue={contributionMode}
+              onValueChange={(value) => setContributionMode(value as GoalContributionMode)}
+              fullWidth
+            />
+            <Text style={[styles.toggleDescription, styles.modeDescription, { color: theme.textTertiary }]}>
+              {contributionMode === 'MANUAL'
+                ? 'Record money as you set it aside with "Add Money"'
+                : 'Progress is tracked from your transactions. You can still add money manually.'}
+            </Text>
+          </View>
+
+          {contributionMode === 'AUTOMATIC' && (
+            <View style={styles.inputGroup}>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Track From</Text>
+              <View style={styles.chipRow}>
+                {AUTOMATIC_SOURCE_OPTIONS.map((option) => {
+                  const selected = automaticSource === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.chip,
+                        {
+                          backgroundColor: selected ? theme.primary + '20' : theme.background,
+                          borderColor: selected ? theme.primary : theme.border,
+                        },
+                      ]}
+                      onPress={() => setAutomaticSource(option.value)}
+                    >
+                      <Icon name={option.icon as any} size={16} color={selected ? theme.primary : theme.textSecondary} />
+                      <Text style={[styles.chipText, { color: selected ? theme.primary : theme.textSecondary }]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {automaticSource === 'NET_SAVINGS' && (
+                <>
+                  <Text style={[styles.toggleDescription, styles.sourceDescription, { color: theme.textTertiary }]}>
+                    Share of what you save each month (income minus expenses)
+                  </Text>
+                  <View style={styles.chipRow}>
+                    {AUTO_PERCENT_OPTIONS.map((percent) => {
+                      const selected = autoPercent === percent;
+                      return (
+                        <TouchableOpacity
+                          key={percent}
+                          style={[
+                            styles.chip,
+                            {
+                              backgroundColor: selected ? theme.primary + '20' : theme.background,
+                              borderColor: selected ? theme.primary : theme.border,
+                            },
+                          ]}
+                          onPress={() => setAutoPercent(percent)}
+                        >
+                          <Text style={[styles.chipText, { color: selected ? theme.primary : theme.textSecondary }]}>
+                            {percent}%
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              {automaticSource === 'CATEGORY' && (
+                <>
+                  <Text style={[styles.toggleDescription, styles.sourceDescription, { color: theme.textTertiary }]}>
+                    Expenses logged to this category count as money saved
+                  </Text>
+                  <TouchableOpacity
+                    style={[styles.input, styles.categorySelector, { backgroundColor: theme.background, borderColor: theme.border }]}
+                    onPress={() => setShowCategoryPicker(true)}
+                  >
+                    {selectedCategory ? (
+                      <>
+                        <Icon name={getValidIcon(selectedCategory.icon) as any} size={20} color={selectedCategory.color} />
+                        <Text style={[styles.categoryText, { color: theme.text }]}>{selectedCategory.name}</Text>
+                      </>
+                    ) : (
+                      <Text style={[styles.categoryText, { color: theme.textTertiary }]}>Choose a category</Text>
+                    )}
+                    <Icon name="chevron-down" size={20} color={theme.textTertiary} />
+                  </TouchableOpacity>
+                </>
+              )}
+
+              {automaticSource === 'TAG' && (
+                <>
+                  <Text style={[styles.toggleDescription, styles.sourceDescription, { color: theme.textTertiary }]}>
+                    Expenses with this tag count as money saved
+                  </Text>
+                  {tags.length === 0 ? (
+                    <Text style={[styles.toggleDescription, { color: theme.textSecondary }]}>
+                      You have no tags yet. Add a tag to a transaction first.
+                    </Text>
+                  ) : (
+                    <View style={styles.chipRow}>
+                      {tags.map((tag) => {
+                        const selected = linkedTagId === tag.id;
+                        return (
+                          <TouchableOpacity
+                            key={tag.id}
+                            style={[
+                              styles.chip,
+                              {
+                                backgroundColor: selected ? tag.color + '20' : theme.background,
+                                borderColor: selected ? tag.color : theme.border,
+                              },
+                            ]}
+                            onPress={() => setLinkedTagId(tag.id)}
+                          >
+                            <Text style={[styles.chipText, { color: selected ? tag.color : theme.textSecondary }]}>
+                              {tag.name}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+                </>
+              )}
+            </View>
+          )}
+
+          {/* Save Button */}
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.primary }, elevation.sm]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {editingGoal ? 'Update Goal' : 'Add Goal'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </BottomSheetScrollView>
+      </BottomSheet>
+
+      {/* Add Money Bottom Sheet */}
+      <BottomSheet
+        ref={contributionSheetRef}
+        index={-1}
+        snapPoints={['55%']}
+        enablePanDownToClose
+        backgroundComponent={BottomSheetBackground}
+        handleIndicatorStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.4)' }}
+        keyboardBehavior="interactive"
+        keyboardBlurBehavior="restore"
+        android_keyboardInputMode="adjustResize"
+        onChange={(index) => {
+          if (index === -1) {
+            setContributionGoal(null);
+          }
+        }}
+      >
+        <BottomSheetScrollView
+          style={styles.bottomSheetContent}
+          contentContainerStyle={styles.bottomSheetContentContainer}
+        >
+          <Text style={[styles.sheetTitle, { color: theme.text }]}>
+            Add Money{contributionGoal ? ` to ${contributionGoal.name}` : ''}
+          </Text>
+
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Amount</Text>
+            <View style={[styles.amountInput, { backgroundColor: theme.background, borderColor: theme.border }]}>
+              <CurrencyInput
+                value={contributionAmount}
+                onChangeText={setContributionAmount}
+                placeholder="0.00"
+                placeholderTextColor={theme.textTertiary}
+                showSymbol={true}
+                allowDecimals={true}
+                inputStyle={styles.currencyInputField}
+              />
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Note (optional)</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+              placeholder="e.g., Bonus, Birthday money"
+              placeholderTextColor={theme.textTertiary}
+              value={contributionNote}
+              onChangeText={setContributionNote}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.success }, elevation.sm]}
+            onPress={handleSaveContribution}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>Add Money</Text>
+            )}
+          </TouchableOpacity>
+        </BottomSheetScrollView>
+      </BottomSheet>
+
+      <CategoryPickerModal
+        visible={showCategoryPicker}
+        categories={categories}
+        selectedCategoryId={linkedCategoryId}
+        onSelect={setLinkedCategoryId}
+        onClose={() => setShowCategoryPicker(false)}
+      />
+      <ConfettiCelebration active={!!completedGoal} onAnimationEnd={dismissCompletedGoal} />
+      {AlertComponent}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xl * 2,
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    ...typography.titleLarge,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  emptyDescription: {
+    ...typography.bodyMedium,
+    textAlign: 'center',
+  },
+  summaryCard: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  summaryLabel: {
+    ...typography.bodySmall,
+  },
+  summaryAmount: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+    marginTop: 2,
+  },
+  summaryTarget: {
+    ...typography.bodyMedium,
+    fontWeight: '400',
+  },
+  goalsList: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: spacing.md,
+    marginTop: spacing.lg,
+    paddingVertical: spacing.md + 4,
+    borderRadius: borderRadius.md,
+    gap: spacing.sm,
+  },
+  addButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  bottomSheetContent: {
+    flex: 1,
+  },
+  bottomSheetContentContainer: {
+    padding: spacing.lg,
+  },
+  sheetTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+    marginBottom: spacing.lg,
+  },
+  inputGroup: {
+    marginBottom: spacing.lg,
+  },
+  inputLabel: {
+    ...typography.labelMedium,
+    marginBottom: spacing.sm,
+    fontWeight: '600',
+  },
+  input: {
+    ...typography.bodyMedium,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+  },
+  amountInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    paddingHorizontal: spacing.md,
+  },
+  currencyInputField: {
+    paddingVertical: spacing.md,
+  },
+  iconGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  iconOption: {
+    width: 44,
+    height: 44,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  modeDescription: {
+    marginTop: spacing.sm,
+  },
+  sourceDescription: {
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  categorySelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  categoryText: {
+    ...typography.bodyMedium,
+    flex: 1,
+  },
+  toggleGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  toggleInfo: {
+    flex: 1,
+  },
+  toggleDescription: {
+    ...typography.bodySmall,
+    marginTop: 2,
+  },
+  saveButton: {
+    paddingVertical: spacing.md + 4,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  saveButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+});
+
+export default GoalsScreen;
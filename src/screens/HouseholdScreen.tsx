@@ -0,0 +1,761 @@
+/**
+ * HouseholdScreen Component
+ * Purpose: Share categories and budgets with other Finly users in the same household
+ * Features: Create/rename/leave a household, invite members by email, accept or decline received invites,
+ * choose which categories (with their budgetLimit and rollover) are shared, entry point to settle up
+ */
+
+import React, { useState, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { useAlert } from '../hooks/useAlert';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import BottomSheet, { BottomSheetScrollView } from '@gorhom/bottom-sheet';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/types';
+import { useAppSelector } from '../store';
+import { apiService } from '../services/api';
+import {
+  getHousehold,
+  createHousehold,
+  renameHousehold,
+  leaveHousehold,
+  removeMember,
+  inviteMember,
+  cancelInvite,
+  getReceivedInvites,
+  acceptInvite,
+  declineInvite,
+  setCategoryShared,
+} from '../services/householdService';
+import { Category, Household, HouseholdInvite, HouseholdMember } from '../types';
+import { BottomSheetBackground, PullToRefreshScrollView } from '../components';
+import { typography, spacing, borderRadius, elevation } from '../theme';
+
+type HouseholdNavigationProp = StackNavigationProp<RootStackParamList>;
+type HouseholdRouteProp = RouteProp<RootStackParamList, 'Household'>;
+
+const HouseholdScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { formatCurrency } = useCurrency();
+  const navigation = useNavigation<HouseholdNavigationProp>();
+  const route = useRoute<HouseholdRouteProp>();
+  const { showError, showSuccess, showInfo, showWarning, AlertComponent } = useAlert();
+  const currentUser = useAppSelector((state) => state.auth.user);
+
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [receivedInvites, setReceivedInvites] = useState<HouseholdInvite[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Sheet state - the same sheet names the household or sends an invite
+  const [sheetMode, setSheetMode] = useState<'name' | 'invite'>('name');
+  const [householdName, setHouseholdName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+
+  const sheetRef = useRef<BottomSheet>(null);
+  const promptedInviteId = useRef<string | null>(null);
+
+  const loadHousehold = useCallback(async () => {
+    try {
+      const [householdData, invites, categoriesData] = await Promise.all([
+        getHousehold(),
+        getReceivedInvites(),
+        apiService.getCategories(true).catch(() => [] as Category[]),
+      ]);
+      setHousehold(householdData);
+      setReceivedInvites(invites);
+      setCategories(categoriesData);
+      return invites;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const handleAccept = async (invite: HouseholdInvite) => {
+    try {
+      setHousehold(await acceptInvite(invite.id));
+      setReceivedInvites((prev) => prev.filter((i) => i.id !== invite.id));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess('Welcome!', `You joined ${invite.householdName || 'the household'}`);
+      await loadHousehold();
+    } catch (error: any) {
+      showError('Error', error?.message || 'Failed to accept invite');
+    }
+  };
+
+  const handleDecline = async (invite: HouseholdInvite) => {
+    try {
+      await declineInvite(invite.id);
+      setReceivedInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    } catch (error) {
+      showError('Error', 'Failed to decline invite');
+    }
+  };
+
+  // Opened from an invite email: ask right away
+  const promptForInvite = (invites: HouseholdInvite[]) => {
+    const inviteId = route.params?.inviteId;
+    if (!inviteId || promptedInviteId.current === inviteId) return;
+    promptedInviteId.current = inviteId;
+
+    const invite = invites.find((i) => i.id === inviteId);
+    if (!invite) {
+      showInfo('Invite Unavailable', 'This invite has expired or was sent to a different email address.');
+      return;
+    }
+    showInfo(
+      'Join Household',
+      `${invite.invitedBy?.name || 'Someone'} invited you to ${invite.householdName || 'their household'}. Shared categories and budgets will appear alongside your own.`,
+      [
+        { text: 'Decline', style: 'cancel', onPress: () => handleDecline(invite) },
+        { text: 'Join', onPress: () => handleAccept(invite) },
+      ]
+    );
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHousehold().then(promptForInvite);
+    }, [loadHousehold, route.params?.inviteId])
+  );
+
+  const isOwner = !!household?.members.some(
+    (member) => member.id === currentUser?.id && member.role === 'OWNER'
+  );
+
+  const openSheet = (mode: 'name' | 'invite') => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setSheetMode(mode);
+    setHouseholdName(household?.name || '');
+    setInviteEmail('');
+    sheetRef.current?.expand();
+  };
+
+  const handleSaveName = async () => {
+    if (!householdName.trim()) {
+      showInfo('Missing Name', 'Please enter a name for your household');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (household) {
+        setHousehold(await renameHousehold(householdName));
+      } else {
+        setHousehold(await createHousehold(householdName));
+        showSuccess('Household Created', 'Invite members and choose which categories to share');
+      }
+      sheetRef.current?.close();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      showError('Error', household ? 'Failed to rename household' : 'Failed to create household');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSendInvite = async () => {
+    const email = inviteEmail.trim().toLowerCase();
+    if (household?.members.some((m) => m.email.toLowerCase() === email)) {
+      showInfo('Already a Member', `${email} is already in your household`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await inviteMember(email);
+      await loadHousehold();
+      sheetRef.current?.close();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess('Invite Sent', `We emailed ${email}. They can join after signing in or creating an account.`);
+    } catch (error: any) {
+      showError('Error', error?.message || 'Failed to send invite');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelInvite = async (invite: HouseholdInvite) => {
+    try {
+      await cancelInvite(invite.id);
+      await loadHousehold();
+    } catch (error) {
+      showError('Error', 'Failed to cancel invite');
+    }
+  };
+
+  const handleRemoveMember = (member: HouseholdMember) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    showWarning(
+      'Remove Member',
+      `Remove ${member.name} from the household? Their past expenses in shared categories are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeMember(member.id);
+              await loadHousehold();
+            } catch (error) {
+              showError('Error', 'Failed to remove member');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLeave = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    showWarning(
+      'Leave Household',
+      'Shared categories stay with the other members. Your own expenses are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await leaveHousehold();
+              await loadHousehold();
+            } catch (error) {
+              showError('Error', 'Failed to leave household');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleToggleShared = async (category: Category, shared: boolean) => {
+    if (!household) return;
+    const householdId = shared ? household.id : null;
+    // Optimistic toggle, reverted on failure
+    setCategories((prev) => prev.map((c) => (c.id === category.id ? { ...c, householdId } : c)));
+    try {
+      await setCategoryShared(category.id, householdId);
+    } catch (error) {
+      setCategories((prev) => prev.map((c) => (c.id === category.id ? category : c)));
+      showError('Error', 'Failed to update category');
+    }
+  };
+
+  if (loading && !household) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const renderReceivedInvites = () =>
+    receivedInvites.map((invite) => (
+      <View
+        key={invite.id}
+        style={[styles.card, { backgroundColor: theme.card, borderColor: theme.primary }, elevation.sm]}
+      >
+        <Text style={[styles.cardTitle, { color: theme.text }]}>
+          {invite.householdName || 'Household invite'}
+        </Text>
+        <Text style={[styles.cardMeta, { color: theme.textSecondary }]}>
+          Invited by {invite.invitedBy?.name || 'a household member'}
+        </Text>
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: theme.primary + '20' }]}
+            onPress={() => handleAccept(invite)}
+          >
+            <Icon name="check" size={18} color={theme.primary} />
+            <Text style={[styles.actionButtonText, { color: theme.primary }]}>Join</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: theme.expense + '20' }]}
+            onPress={() => handleDecline(invite)}
+          >
+            <Icon name="close" size={18} color={theme.expense} />
+            <Text style={[styles.actionButtonText, { color: theme.expense }]}>Decline</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    ));
+
+  const sharedCategories = categories.filter((c) => household && c.householdId === household.id);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Icon name="arrow-left" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Household</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <PullToRefreshScrollView
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={{ paddingBottom: 100 }}
+        onRefresh={async () => {
+          await loadHousehold();
+        }}
+      >
+        {!household ? (
+          <>
+            <View style={styles.emptyContainer}>
+              <Icon name="home-heart" size={64} color={theme.textTertiary} />
+              <Text style={[styles.emptyTitle, { color: theme.text }]}>Budget Together</Text>
+              <Text style={[styles.emptyDescription, { color: theme.textSecondary }]}>
+                Create a household to share categories and budgets, see who paid what and settle up
+              </Text>
+            </View>
+
+            <View style={styles.list}>{renderReceivedInvites()}</View>
+
+            <TouchableOpacity
+              style={[styles.addButton, { backgroundColor: theme.primary }, elevation.md]}
+              onPress={() => openSheet('name')}
+            >
+              <Icon name="plus" size={24} color="#FFFFFF" />
+              <Text style={styles.addButtonText}>Create Household</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            {/* Summary */}
+            <View style={[styles.summaryCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}>
+              <View style={styles.summaryHeader}>
+                <View style={styles.summaryInfo}>
+                  <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>
+                    {household.members.length} {household.members.length === 1 ? 'member' : 'members'} · {sharedCategories.length} shared {sharedCategories.length === 1 ? 'category' : 'categories'}
+                  </Text>
+                  <Text style={[styles.summaryTitle, { color: theme.text }]} numberOfLines={1}>
+                    {household.name}
+                  </Text>
+                </View>
+                {isOwner && (
+                  <TouchableOpacity onPress={() => openSheet('name')}>
+                    <Icon name="pencil" size={20} color={theme.primary} />
+                  </TouchableOpacity>
+                )}
+              </View>
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: theme.success + '20' }]}
+                onPress={() => navigation.navigate('SettleUp')}
+              >
+                <Icon name="scale-balance" size={18} color={theme.success} />
+                <Text style={[styles.actionButtonText, { color: theme.success }]}>Settle Up</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Members */}
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>Members</Text>
+            <View style={[styles.listCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              {household.members.map((member) => (
+                <View key={member.id} style={[styles.row, { borderBottomColor: theme.border }]}>
+                  <View style={[styles.avatar, { backgroundColor: theme.primary + '20' }]}>
+                    <Text style={[styles.avatarText, { color: theme.primary }]}>
+                      {member.name.charAt(0).toUpperCase()}
+                    </Text>
+                  </View>
+                  <View style={styles.rowInfo}>
+                    <Text style={[styles.rowTitle, { color: theme.text }]} numberOfLines={1}>
+                      {member.id === currentUser?.id ? `${member.name} (you)` : member.name}
+                    </Text>
+                    <Text style={[styles.rowMeta, { color: theme.textSecondary }]} numberOfLines={1}>
+                      {member.email}{member.role === 'OWNER' ? ' · Owner' : ''}
+                    </Text>
+                  </View>
+                  {isOwner && member.id !== currentUser?.id && (
+                    <TouchableOpacity onPress={() => handleRemoveMember(member)}>
+                      <Icon name="account-remove-outline" size={20} color={theme.expense} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+              {household.invites.filter((invite) => invite.status === 'PENDING').map((invite) => (
+                <View key={invite.id} style={[styles.row, { borderBottomColor: theme.border }]}>
+                  <View style={[styles.avatar, { backgroundColor: theme.warning + '20' }]}>
+                    <Icon name="email-outline" size={18} color={theme.warning} />
+                  </View>
+                  <View style={styles.rowInfo}>
+                    <Text style={[styles.rowTitle, { color: theme.text }]} numberOfLines={1}>
+                      {invite.email}
+                    </Text>
+                    <Text style={[styles.rowMeta, { color: theme.textSecondary }]}>Invite pending</Text>
+                  </View>
+                  <TouchableOpacity onPress={() => handleCancelInvite(invite)}>
+                    <Icon name="close-circle-outline" size={20} color={theme.textTertiary} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TouchableOpacity style={styles.row} onPress={() => openSheet('invite')}>
+                <Icon name="account-plus" size={20} color={theme.primary} />
+                <Text style={[styles.rowAction, { color: theme.primary }]}>Invite by email</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Shared categories */}
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>Shared Categories</Text>
+            <Text style={[styles.sectionDescription, { color: theme.textTertiary }]}>
+              Members log expenses to shared categories and spend from the same budget
+            </Text>
+            <View style={[styles.listCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              {categories.map((category) => {
+                const shared = category.householdId === household.id;
+                return (
+                  <View key={category.id} style={[styles.row, { borderBottomColor: theme.border }]}>
+                    <View style={[styles.avatar, { backgroundColor: category.color + '20' }]}>
+                      <Icon name={category.icon as any} size={18} color={category.color} />
+                    </View>
+                    <View style={styles.rowInfo}>
+                      <Text style={[styles.rowTitle, { color: theme.text }]} numberOfLines={1}>
+                        {category.name}
+                      </Text>
+                      {category.budgetLimit ? (
+                        <Text style={[styles.rowMeta, { color: theme.textSecondary }]}>
+                          {formatCurrency(category.budgetLimit)} {category.budgetType === 'ROLLOVER' ? 'rollover' : 'monthly'} budget
+                        </Text>
+                      ) : null}
+                    </View>
+                    <Switch
+                      value={shared}
+                      onValueChange={(value) => handleToggleShared(category, value)}
+                      trackColor={{ false: theme.border, true: theme.primary + '60' }}
+                      thumbColor={shared ? theme.primary : theme.surface}
+                    />
+                  </View>
+                );
+              })}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.leaveButton, { borderColor: theme.expense }]}
+              onPress={handleLeave}
+            >
+              <Icon name="logout" size={20} color={theme.expense} />
+              <Text style={[styles.leaveButtonText, { color: theme.expense }]}>Leave Household</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </PullToRefreshScrollView>
+
+      {/* Name / Invite Bottom Sheet */}
+      <BottomSheet
+        ref={sheetRef}
+        index={-1}
+        snapPoints={['50%']}
+        enablePanDownToClose
+        backgroundComponent={BottomSheetBackground}
+        handleIndicatorStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.4)' }}
+        keyboardBehavior="interactive"
+        keyboardBlurBehavior="restore"
+        android_keyboardInputMode="adjustResize"
+      >
+        <BottomSheetScrollView
+          style={styles.bottomSheetContent}
+          contentContainerStyle={styles.bottomSheetContentContainer}
+        >
+          <Text style={[styles.sheetTitle, { color: theme.text }]}>
+            {sheetMode === 'invite' ? 'Invite Member' : household ? 'Rename Household' : 'Create Household'}
+          </Text>
+
+          {sheetMode === 'invite' ? (
+            <View style={styles.inputGroup}>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Email</Text>
+              <TextInput
+                style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+                placeholder="partner@example.com"
+                placeholderTextColor={theme.textTertiary}
+                value={inviteEmail}
+                onChangeText={setInviteEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <Text style={[styles.inputHint, { color: theme.textTertiary }]}>
+                They'll get an email with a link. New users sign up first, then join.
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.inputGroup}>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Name</Text>
+              <TextInput
+                style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+                placeholder="e.g., The Smiths, Flat 4B"
+                placeholderTextColor={theme.textTertiary}
+                value={householdName}
+                onChangeText={setHouseholdName}
+              />
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.primary }, elevation.sm]}
+            onPress={sheetMode === 'invite' ? handleSendInvite : handleSaveName}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {sheetMode === 'invite' ? 'Send Invite' : household ? 'Save' : 'Create Household'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </BottomSheetScrollView>
+      </BottomSheet>
+
+      {AlertComponent}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xl * 2,
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    ...typography.titleLarge,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  emptyDescription: {
+    ...typography.bodyMedium,
+    textAlign: 'center',
+  },
+  list: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+  card: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.xs,
+  },
+  cardTitle: {
+    ...typography.titleMedium,
+  },
+  cardMeta: {
+    ...typography.bodySmall,
+  },
+  summaryCard: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.md,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  summaryInfo: {
+    flex: 1,
+  },
+  summaryLabel: {
+    ...typography.bodySmall,
+  },
+  summaryTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginHorizontal: spacing.md,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  sectionDescription: {
+    ...typography.bodySmall,
+    marginHorizontal: spacing.md,
+    marginTop: -spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  listCard: {
+    marginHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'transparent',
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    ...typography.titleMedium,
+    fontWeight: '700',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    ...typography.bodySmall,
+    marginTop: 2,
+  },
+  rowAction: {
+    ...typography.labelLarge,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    gap: spacing.xs,
+  },
+  actionButtonText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: spacing.md,
+    marginTop: spacing.lg,
+    paddingVertical: spacing.md + 4,
+    borderRadius: borderRadius.md,
+    gap: spacing.sm,
+  },
+  addButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  leaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: spacing.md,
+    marginTop: spacing.xl,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  leaveButtonText: {
+    ...typography.labelLarge,
+    fontWeight: '600',
+  },
+  bottomSheetContent: {
+    flex: 1,
+  },
+  bottomSheetContentContainer: {
+    padding: spacing.lg,
+  },
+  sheetTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+    marginBottom: spacing.lg,
+  },
+  inputGroup: {
+    marginBottom: spacing.lg,
+  },
+  inputLabel: {
+    ...typography.labelMedium,
+    marginBottom: spacing.sm,
+    fontWeight: '600',
+  },
+  input: {
+    ...typography.bodyMedium,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+  },
+  inputHint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  saveButton: {
+    paddingVertical: spacing.md + 4,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  saveButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+});
+
+export default HouseholdScreen;
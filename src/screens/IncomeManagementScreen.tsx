@@ -32,14 +32,15 @@ import {
   updateIncomeSource,
   deleteIncomeSource,
 } from '../services/incomeService';
-import { syncWidgetData } from '../services/widgetSync';
 import { IncomeSource, IncomeFrequency } from '../types';
-import { BottomSheetBackground, CurrencyInput, DatePickerInput, PullToRefreshScrollView } from '../components';
+import { BottomSheetBackground, CurrencyInput, PullToRefreshScrollView, RecurrenceScheduleFields } from '../components';
+import type { FrequencyOption } from '../components';
+import { getNextScheduleDate, getScheduleLabel } from '../utils/recurrence';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 
 type IncomeManagementNavigationProp = StackNavigationProp<RootStackParamList>;
 
-const FREQUENCY_OPTIONS: Array<{ value: IncomeFrequency; label: string; icon: string }> = [
+const FREQUENCY_OPTIONS: FrequencyOption<IncomeFrequency>[] = [
   { value: 'WEEKLY', label: 'Weekly ', icon: 'calendar-week' },
   { value: 'BIWEEKLY', label: 'Bi-weekly', icon: 'calendar-range' },
   { value: 'MONTHLY', label: 'Monthly', icon: 'calendar-month' },
@@ -68,8 +69,6 @@ const IncomeManagementScreen: React.FC = () => {
   const [startDate, setStartDate] = useState(new Date());
 
   const bottomSheetRef = useRef<BottomSheet>(null);
-  const customDatesInputRef = useRef<TextInput>(null);
-  const [customDatesInput, setCustomDatesInput] = useState('');
 
   useEffect(() => {
     loadIncomeSources();
@@ -121,7 +120,6 @@ const IncomeManagementScreen: React.FC = () => {
     setDayOfWeek(undefined);
     setDayOfMonth(undefined);
     setCustomDates([]);
-    setCustomDatesInput('');
     setStartDate(new Date());
     setEditingSource(null);
   };
@@ -236,95 +234,13 @@ const IncomeManagementScreen: React.FC = () => {
     setEditingSource(source);
   };
 
-  const parseCustomDates = (input: string): number[] => {
-    return input
-      .split(',')
-      .map(d => parseInt(d.trim(), 10))
-      .filter(d => !isNaN(d) && d >= 1 && d <= 31)
-      .sort((a, b) => a - b);
-  };
-
-  const handleCustomDatesChange = (text: string) => {
-    setCustomDatesInput(text);
-    const dates = parseCustomDates(text);
-    setCustomDates(dates);
-  };
-
-  const getFrequencyLabel = (source: IncomeSource): string => {
-    switch (source.frequency) {
-      case 'WEEKLY':
-        const weekDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-        return `Every ${weekDays[source.dayOfWeek || 0]}`;
-      case 'BIWEEKLY':
-        return 'Every 2 weeks';
-      case 'MONTHLY':
-        return `Day ${source.dayOfMonth || 1} of each month`;
-      case 'CUSTOM':
-        return `Days ${source.customDates?.join(', ') || 'N/A'} of each month`;
-      case 'MANUAL':
-        return 'Manual entry only';
-      default:
-        return source.frequency;
-    }
-  };
-
   const getNextPaymentDate = (source: IncomeSource): string => {
     if (!source.autoAdd || source.frequency === 'MANUAL') {
       return 'N/A';
     }
 
-    const now = new Date();
-    now.setHours(0, 0, 0, 0); // Normalize to start of day for date comparison
-    const start = new Date(source.startDate);
-    let next = new Date(start);
-
-    // Calculate next payment date based on frequency
-    // Use <= comparison because if today is the payment day and it's already processed,
-    // the "Next" should show the following occurrence
-    switch (source.frequency) {
-      case 'WEEKLY':
-        // Advance by weeks until we reach a future date
-        while (next <= now) {
-          next.setDate(next.getDate() + 7);
-        }
-        break;
-      case 'BIWEEKLY':
-        // Advance by 2 weeks until we reach a future date
-        while (next <= now) {
-          next.setDate(next.getDate() + 14);
-        }
-        break;
-      case 'MONTHLY':
-        if (source.dayOfMonth) {
-          // Start from current month with the specified day
-          next = new Date(now.getFullYear(), now.getMonth(), source.dayOfMonth);
-          // If the day has already passed this month (or is today and processed), advance to next month
-          if (next <= now) {
-            next.setMonth(next.getMonth() + 1);
-          }
-        }
-        break;
-      case 'CUSTOM':
-        // Find next custom date in the sorted list
-        if (source.customDates && source.customDates.length > 0) {
-          const today = now.getDate();
-          // Find the first custom date that's strictly after today
-          // (if today is a custom date, it's already processed, so show the next one)
-          const nextCustom = source.customDates.find(d => d > today);
-          // Use current month as base
-          next = new Date(now.getFullYear(), now.getMonth(), 1);
-          if (nextCustom) {
-            next.setDate(nextCustom);
-          } else {
-            // No more custom dates this month, use first date of next month
-            next.setMonth(next.getMonth() + 1);
-            next.setDate(source.customDates[0]);
-          }
-        }
-        break;
-    }
-
-    return next.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const next = getNextScheduleDate(source);
+    return next ? next.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : 'N/A';
   };
 
   if (loading) {
@@ -387,7 +303,7 @@ const IncomeManagementScreen: React.FC = () => {
                   <View style={styles.sourceInfo}>
                     <Text style={[styles.sourceName, { color: theme.text }]}>{source.name}</Text>
                     <Text style={[styles.sourceFrequency, { color: theme.textSecondary }]}>
-                      {getFrequencyLabel(source)}
+                      {getScheduleLabel(source)}
                     </Text>
                   </View>
                   <View style={styles.sourceAmount}>
@@ -501,146 +417,20 @@ const IncomeManagementScreen: React.FC = () => {
             </View>
           </View>
 
-          {/* Frequency */}
-          <View style={styles.inputGroup}>
-            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Frequency</Text>
-            <View style={styles.frequencyGrid}>
-              {FREQUENCY_OPTIONS.map((option) => (
-                <TouchableOpacity
-                  key={option.value}
-                  style={[
-                    styles.frequencyOption,
-                    {
-                      backgroundColor: frequency === option.value ? theme.primary + '20' : theme.card,
-                      borderColor: frequency === option.value ? theme.primary : theme.border,
-                    },
-                  ]}
-                  onPress={() => setFrequency(option.value)}
-                >
-                  <Icon name={option.icon as any} size={20} color={frequency === option.value ? theme.primary : theme.textSecondary} />
-                  <Text style={[
-                    styles.frequencyOptionText,
-                    { color: frequency === option.value ? theme.primary : theme.textSecondary },
-                  ]}>
-                    {option.label}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </View>
-          </View>
-
-          {/* Frequency-specific fields */}
-          {frequency === 'WEEKLY' && (
-            <View style={styles.inputGroup}>
-              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Day of Week</Text>
-              <View style={styles.daySelector}>
-                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day, index) => (
-                  <TouchableOpacity
-                    key={index}
-                    style={[
-                      styles.dayButton,
-                      {
-                        backgroundColor: dayOfWeek === index ? theme.primary + '20' : theme.card,
-                        borderColor: dayOfWeek === index ? theme.primary : theme.border,
-                      },
-                    ]}
-                    onPress={() => setDayOfWeek(index)}
-                  >
-                    <Text style={[
-                      styles.dayButtonText,
-                      { color: dayOfWeek === index ? theme.primary : theme.textSecondary },
-                    ]}>
-                      {day}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            </View>
-          )}
-
-          {frequency === 'MONTHLY' && (
-            <View style={styles.inputGroup}>
-              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Day of Month</Text>
-              <View style={styles.daySelector}>
-                {[1, 5, 10, 15, 20, 25, 30].map((day) => (
-                  <TouchableOpacity
-                    key={day}
-                    style={[
-                      styles.dayButton,
-                      {
-                        backgroundColor: dayOfMonth === day ? theme.primary + '20' : theme.card,
-                        borderColor: dayOfMonth === day ? theme.primary : theme.border,
-                      },
-                    ]}
-                    onPress={() => setDayOfMonth(day)}
-                  >
-                    <Text style={[
-                      styles.dayButtonText,
-                      { color: dayOfMonth === day ? theme.primary : theme.textSecondary },
-                    ]}>
-                      {day}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-              <TextInput
-                style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text, marginTop: spacing.sm }]}
-                placeholder="Or enter custom day (1-31)"
-                placeholderTextColor={theme.textTertiary}
-                keyboardType="number-pad"
-                value={dayOfMonth?.toString() || ''}
-                onChangeText={(text) => {
-                  const num = parseInt(text, 10);
-                  if (!isNaN(num) && num >= 1 && num <= 31) {
-                    setDayOfMonth(num);
-                  } else if (text === '') {
-                    setDayOfMonth(undefined);
-                  }
-                }}
-              />
-            </View>
-          )}
-
-          {frequency === 'CUSTOM' && (
-            <View style={styles.inputGroup}>
-              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Days of Month</Text>
-              <TextInput
-                style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
-                placeholder="e.g., 15, 30 (comma-separated, 1-31)"
-                placeholderTextColor={theme.textTertiary}
-                value={customDatesInput}
-                onChangeText={handleCustomDatesChange}
-              />
-              {customDatesInput.length > 0 && customDates.length === 0 && (
-                <Text style={[styles.errorText, { color: theme.expense }]}>
-                  Please enter valid days (1-31), separated by commas
-                </Text>
-              )}
-              {customDates.length > 0 && (
-                <View style={styles.customDatesPreview}>
-                  <Text style={[styles.customDatesLabel, { color: theme.textSecondary }]}>Will add income on:</Text>
-                  <View style={styles.customDatesChips}>
-                    {customDates.map((date) => (
-                      <View key={date} style={[styles.customDateChip, { backgroundColor: theme.primary + '20' }]}>
-                        <Text style={[styles.customDateChipText, { color: theme.primary }]}>
-                          Day {date}
-                        </Text>
-                      </View>
-                    ))}
-                  </View>
-                </View>
-              )}
-            </View>
-          )}
-
-          {/* Start Date */}
-          <View style={styles.inputGroup}>
-            <DatePickerInput
-              date={startDate}
-              onDateChange={setStartDate}
-              label="Start Date"
-            />
-          </View>
+          <RecurrenceScheduleFields
+            options={FREQUENCY_OPTIONS}
+            frequency={frequency}
+            onFrequencyChange={setFrequency}
+            dayOfWeek={dayOfWeek}
+            onDayOfWeekChange={setDayOfWeek}
+            dayOfMonth={dayOfMonth}
+            onDayOfMonthChange={setDayOfMonth}
+            customDates={customDates}
+            onCustomDatesChange={setCustomDates}
+            startDate={startDate}
+            onStartDateChange={setStartDate}
+            customDatesPreviewLabel="Will add income on:"
+          />
 
           {/* Auto Add Toggle */}
           {/* <View style={[styles.inputGroup, styles.toggleGroup]}>
@@ -877,63 +667,6 @@ const styles = StyleSheet.create({
   currencyInputField: {
     paddingVertical: spacing.md,
   },
-  frequencyGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: spacing.sm,
-  },
-  frequencyOption: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    padding: spacing.sm,
-    paddingHorizontal: spacing.md,
-    borderRadius: borderRadius.md,
-    borderWidth: 1,
-    gap: spacing.xs,
-    minWidth: '45%',
-  },
-  frequencyOptionText: {
-    ...typography.labelMedium,
-    fontWeight: '600',
-  },
-  daySelector: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: spacing.sm,
-  },
-  dayButton: {
-    paddingVertical: spacing.sm,
-    paddingHorizontal: spacing.md,
-    borderRadius: borderRadius.md,
-    borderWidth: 1,
-    minWidth: 50,
-    alignItems: 'center',
-  },
-  dayButtonText: {
-    ...typography.labelMedium,
-    fontWeight: '600',
-  },
-  customDatesPreview: {
-    marginTop: spacing.md,
-  },
-  customDatesLabel: {
-    ...typography.bodySmall,
-    marginBottom: spacing.sm,
-  },
-  customDatesChips: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: spacing.sm,
-  },
-  customDateChip: {
-    paddingVertical: spacing.xs,
-    paddingHorizontal: spacing.md,
-    borderRadius: borderRadius.sm,
-  },
-  customDateChipText: {
-    ...typography.labelSmall,
-    fontWeight: '600',
-  },
   toggleGroup: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -957,11 +690,6 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '700',
   },
-  errorText: {
-    ...typography.bodySmall,
-    marginTop: spacing.xs,
-    fontStyle: 'italic',
-  },
 });
 
 export default IncomeManagementScreen;
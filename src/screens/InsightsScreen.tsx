@@ -309,6 +309,9 @@ const InsightsScreen: React.FC = () => {
         });
         break;
       case 'automate_savings':
+        // Savings goals can track a share of net savings automatically
+        navigation.navigate('Goals');
+        break;
       case 'celebrate_win':
         // Open AI assistant for personalized advice
         navigation.navigate('AIAssistant', { 
@@ -0,0 +1,410 @@
+/**
+ * NotificationSettingsScreen Component
+ * Purpose: Manage notification permission, budget alerts and quiet hours
+ * Includes alert thresholds and per-category opt-out
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useAlert } from '../hooks/useAlert';
+import { RootStackParamList } from '../navigation/types';
+import { SettingItem } from '../components';
+import { apiService } from '../services/api';
+import { notificationService, QuietHours } from '../services/notificationService';
+import {
+  BUDGET_ALERT_THRESHOLD_OPTIONS,
+  BudgetAlertSettings,
+  getBudgetAlertSettings,
+  saveBudgetAlertSettings,
+  getBudgetUsage,
+} from '../services/budgetAlertService';
+import { Category } from '../types';
+import { typography, spacing, borderRadius } from '../theme';
+import logger from '../utils/logger';
+
+type NavigationProp = StackNavigationProp<RootStackParamList>;
+
+const formatHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:00 ${suffix}`;
+};
+
+const NotificationSettingsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { formatCurrency } = useCurrency();
+  const navigation = useNavigation<NavigationProp>();
+  const { showError, AlertComponent } = useAlert();
+
+  const [permissionStatus, setPermissionStatus] = useState<'granted' | 'denied' | 'undetermined'>('undetermined');
+  const [alertSettings, setAlertSettings] = useState<BudgetAlertSettings | null>(null);
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const [status, settings, quiet, allCategories] = await Promise.all([
+        notificationService.getPermissionStatus(),
+        getBudgetAlertSettings(),
+        notificationService.getQuietHours(),
+        apiService.getCategories(),
+      ]);
+      setPermissionStatus(status);
+      setAlertSettings(settings);
+      setQuietHours(quiet);
+      setCategories(allCategories.filter((category) => getBudgetUsage(category) !== null));
+    } catch (error) {
+      logger.error('[NotificationSettings] Failed to load settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Re-check on focus: the permission may have changed in system settings
+  useFocusEffect(
+    useCallback(() => {
+      loadSettings();
+    }, [loadSettings])
+  );
+
+  const updateAlertSettings = async (updates: Partial<BudgetAlertSettings>) => {
+    if (!alertSettings) return;
+    const previous = alertSettings;
+    const next = { ...alertSettings, ...updates };
+    setAlertSettings(next);
+    try {
+      await saveBudgetAlertSettings(next);
+    } catch (error) {
+      setAlertSettings(previous);
+      showError('Error', 'Failed to save alert settings. Please try again.');
+    }
+  };
+
+  const updateQuietHours = async (updates: Partial<QuietHours>) => {
+    if (!quietHours) return;
+    const previous = quietHours;
+    const next = { ...quietHours, ...updates };
+    setQuietHours(next);
+    try {
+      await notificationService.setQuietHours(next);
+    } catch (error) {
+      setQuietHours(previous);
+      showError('Error', 'Failed to save quiet hours. Please try again.');
+    }
+  };
+
+  const handlePermissionPress = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (permissionStatus === 'undetermined') {
+      await notificationService.requestPermissions();
+      setPermissionStatus(await notificationService.getPermissionStatus());
+      return;
+    }
+    await notificationService.openAppSettings();
+  };
+
+  const toggleThreshold = (threshold: number) => {
+    if (!alertSettings) return;
+    Haptics.selectionAsync();
+    const thresholds = alertSettings.thresholds.includes(threshold)
+      ? alertSettings.thresholds.filter((t) => t !== threshold)
+      : [...alertSettings.thresholds, threshold].sort((a, b) => a - b);
+    updateAlertSettings({ thresholds });
+  };
+
+  const toggleCategory = (categoryId: string, enabled: boolean) => {
+    if (!alertSettings) return;
+    const mutedCategoryIds = enabled
+      ? alertSettings.mutedCategoryIds.filter((id) => id !== categoryId)
+      : [...alertSettings.mutedCategoryIds, categoryId];
+    updateAlertSettings({ mutedCategoryIds });
+  };
+
+  const shiftHour = (key: 'startHour' | 'endHour', delta: number) => {
+    if (!quietHours) return;
+    Haptics.selectionAsync();
+    updateQuietHours({ [key]: (quietHours[key] + delta + 24) % 24 });
+  };
+
+  const renderSwitch = (value: boolean, onValueChange: (value: boolean) => void, disabled?: boolean) => (
+    <Switch
+      value={value}
+      onValueChange={onValueChange}
+      disabled={disabled}
+      trackColor={{ false: theme.border, true: theme.primary + '60' }}
+      thumbColor={value ? theme.primary : theme.surface}
+    />
+  );
+
+  const renderHourStepper = (label: string, key: 'startHour' | 'endHour') => (
+    <View style={[styles.stepperRow, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <Text style={[styles.stepperLabel, { color: theme.text }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepperButton, { borderColor: theme.border }]}
+          onPress={() => shiftHour(key, -1)}
+          disabled={!quietHours?.enabled}
+        >
+          <Icon name="minus" size={18} color={theme.textSecondary} />
+        </TouchableOpacity>
+        <Text style={[styles.stepperValue, { color: theme.text }]}>
+          {quietHours ? formatHour(quietHours[key]) : '--'}
+        </Text>
+        <TouchableOpacity
+          style={[styles.stepperButton, { borderColor: theme.border }]}
+          onPress={() => shiftHour(key, 1)}
+          disabled={!quietHours?.enabled}
+        >
+          <Icon name="plus" size={18} color={theme.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const permissionGranted = permissionStatus === 'granted';
+  const alertsActive = !!alertSettings?.enabled;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Icon name="arrow-left" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Notifications</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={styles.content}
+        >
+          {/* Permission Section */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>PERMISSION</Text>
+            <SettingItem
+              icon={permissionGranted ? 'bell-check-outline' : 'bell-off-outline'}
+              title={permissionGranted ? 'Notifications Allowed' : 'Notifications Off'}
+              subtitle={
+                permissionGranted
+                  ? 'Tap to manage in Settings'
+                  : permissionStatus === 'undetermined'
+                    ? 'Tap to allow notifications'
+                    : 'Tap to enable in Settings'
+              }
+              onPress={handlePermissionPress}
+            />
+          </View>
+
+          {/* Budget Alerts Section */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>BUDGET ALERTS</Text>
+            <SettingItem
+              icon="alert-circle-outline"
+              title="Budget Alerts"
+              subtitle="Get notified as you approach a category budget"
+              rightComponent={renderSwitch(alertsActive, (value) => updateAlertSettings({ enabled: value }))}
+            />
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              Alert me when I've used
+            </Text>
+            <View style={styles.chips}>
+              {BUDGET_ALERT_THRESHOLD_OPTIONS.map((threshold) => {
+                const selected = !!alertSettings?.thresholds.includes(threshold);
+                return (
+                  <TouchableOpacity
+                    key={threshold}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor: selected ? theme.primary + '20' : theme.card,
+                        borderColor: selected ? theme.primary : theme.border,
+                        opacity: alertsActive ? 1 : 0.5,
+                      },
+                    ]}
+                    onPress={() => toggleThreshold(threshold)}
+                    disabled={!alertsActive}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? theme.primary : theme.textSecondary }]}>
+                      {threshold}%
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Quiet Hours Section */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>QUIET HOURS</Text>
+            <SettingItem
+              icon="weather-night"
+              title="Quiet Hours"
+              subtitle="Alerts during quiet hours are delivered when they end"
+              rightComponent={renderSwitch(!!quietHours?.enabled, (value) => updateQuietHours({ enabled: value }))}
+            />
+            {quietHours?.enabled && (
+              <>
+                {renderHourStepper('From', 'startHour')}
+                {renderHourStepper('Until', 'endHour')}
+              </>
+            )}
+          </View>
+
+          {/* Categories Section */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>CATEGORIES</Text>
+            {categories.length === 0 ? (
+              <Text style={[styles.hint, { color: theme.textSecondary }]}>
+                Set a budget on a category to receive alerts for it.
+              </Text>
+            ) : (
+              categories.map((category) => {
+                const usage = getBudgetUsage(category);
+                const enabled = !alertSettings?.mutedCategoryIds.includes(category.id);
+                return (
+                  <SettingItem
+                    key={category.id}
+                    icon={category.icon || 'tag-outline'}
+                    title={category.name}
+                    subtitle={
+                      usage
+                        ? `${Math.round(usage.percentUsed)}% of ${formatCurrency(usage.budget)}${usage.isRollover ? ' fund' : ''} used`
+                        : undefined
+                    }
+                    rightComponent={renderSwitch(
+                      enabled,
+                      (value) => toggleCategory(category.id, value),
+                      !alertsActive
+                    )}
+                  />
+                );
+              })
+            )}
+          </View>
+        </ScrollView>
+      )}
+      {AlertComponent}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...typography.titleLarge,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    padding: spacing.md,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    ...typography.labelSmall,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+    letterSpacing: 1,
+  },
+  hint: {
+    ...typography.bodySmall,
+    paddingHorizontal: spacing.md,
+    marginTop: spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginTop: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    marginHorizontal: spacing.md,
+    marginVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  stepperLabel: {
+    ...typography.titleMedium,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    minWidth: 72,
+    textAlign: 'center',
+  },
+});
+
+export default NotificationSettingsScreen;
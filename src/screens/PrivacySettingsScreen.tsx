@@ -12,8 +12,6 @@ import {
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
-  Platform,
-  Share,
 } from 'react-native';
 import { useAlert } from '../hooks/useAlert';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -24,8 +22,11 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/types';
 import { useAppDispatch } from '../store';
 import { logout } from '../store/slices/authSlice';
-import { clearCategories } from '../store/slices/categoriesSlice';
-import dataExportService from '../services/dataExportService';
+import { clearCategories, fetchCategories } from '../store/slices/categoriesSlice';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import dataExportService, { FinlyBackup } from '../services/dataExportService';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import {
   isBiometricAvailable,
@@ -41,48 +42,113 @@ const PrivacySettingsScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const dispatch = useAppDispatch();
   const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [backupProgress, setBackupProgress] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const { showError, showSuccess, showWarning, showInfo, AlertComponent } = useAlert();
 
-  const handleExportJSON = async () => {
+  const handleCreateBackup = async () => {
     setIsExporting(true);
     try {
-      const jsonData = await dataExportService.exportDataAsJSON();
-      
-      if (Platform.OS === 'ios' || Platform.OS === 'android') {
-        await Share.share({
-          message: jsonData,
-          title: 'Finly Data Export',
+      const json = await dataExportService.exportDataAsJSON((stage, current) =>
+        setBackupProgress(stage === 'expenses' ? `Exporting expenses (${current})…` : `Exporting ${stage}…`)
+      );
+      const fileUri = `${FileSystem.cacheDirectory}finly_backup_${new Date().toISOString().split('T')[0]}.json`;
+      await FileSystem.writeAsStringAsync(fileUri, json);
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: 'application/json',
+          dialogTitle: 'Save Finly Backup',
+          UTI: 'public.json',
         });
       } else {
-        showSuccess('Data Exported', 'Your data has been exported successfully');
+        showSuccess('Backup Created', `Your backup was saved to: ${fileUri}`);
       }
     } catch (error) {
       showError('Export Failed', 'Could not export your data. Please try again.');
       console.error(error);
     } finally {
       setIsExporting(false);
+      setBackupProgress(null);
     }
   };
 
-  const handleExportCSV = async () => {
-    setIsExporting(true);
+  const runRestore = async (backup: FinlyBackup) => {
+    setIsRestoring(true);
     try {
-      const csvData = await dataExportService.exportExpensesAsCSV();
-      
-      if (Platform.OS === 'ios' || Platform.OS === 'android') {
-        await Share.share({
-          message: csvData,
-          title: 'Finly Expenses Export',
-        });
+      const result = await dataExportService.restoreBackup(backup, (stage, current, total) =>
+        setBackupProgress(total > 0 ? `Restoring ${stage} (${current}/${total})…` : `Restoring ${stage}…`)
+      );
+      dispatch(fetchCategories());
+
+      const created = result.created;
+      const summary = [
+        `${created.expenses || 0} expenses`,
+        `${created.incomeTransactions || 0} income transactions`,
+        `${created.categories || 0} categories`,
+        `${created.tags || 0} tags`,
+        `${created.accounts || 0} accounts`,
+        `${created.goals || 0} goals`,
+      ].join(', ');
+      const skipped =
+        (result.skipped.expenses || 0) + (result.skipped.incomeTransactions || 0) + (result.skipped.transfers || 0);
+      const message = `Restored ${summary}.` +
+        (skipped > 0 ? `\n${skipped} transaction${skipped === 1 ? ' was' : 's were'} already in your account.` : '');
+
+      if (result.errors.length > 0) {
+        showWarning(
+          'Restore Finished With Errors',
+          `${message}\n\n${result.errors.length} item${result.errors.length === 1 ? '' : 's'} could not be restored (first: ${result.errors[0]}).`
+        );
       } else {
-        showSuccess('Data Exported', 'Your expenses have been exported as CSV');
+        showSuccess('Restore Complete', message);
       }
-    } catch (error) {
-      showError('Export Failed', 'Could not export your data. Please try again.');
+    } catch (error: any) {
+      showError('Restore Failed', error.message || 'Could not restore your backup. Please try again.');
       console.error(error);
     } finally {
-      setIsExporting(false);
+      setIsRestoring(false);
+      setBackupProgress(null);
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets[0]?.uri) return;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await FileSystem.readAsStringAsync(picked.assets[0].uri));
+      } catch {
+        showError('Invalid Backup', 'This file is not a Finly backup.');
+        return;
+      }
+
+      const validation = dataExportService.validateBackup(parsed);
+      if (!validation.valid) {
+        showError('Invalid Backup', validation.error);
+        return;
+      }
+
+      const { backup } = validation;
+      showInfo(
+        'Restore Backup',
+        `Backup from ${new Date(backup.exportedAt).toLocaleDateString()} with ${backup.data.expenses.length} expenses, ` +
+          `${backup.data.incomeTransactions.length} income transactions and ${backup.data.categories.length} categories.\n\n` +
+          'Items already in your account are kept and not duplicated.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Restore', onPress: () => runRestore(backup) },
+        ]
+      );
+    } catch (error) {
+      showError('Restore Failed', 'Could not read the backup file. Please try again.');
+      console.error(error);
     }
   };
 
@@ -247,6 +313,25 @@ const PrivacySettingsScreen: React.FC = () => {
           />
         </View>
 
+        {/* Backup Section */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>BACKUP & RESTORE</Text>
+          <SettingItem
+            icon="cloud-download-outline"
+            title="Create Backup"
+            subtitle={isExporting && backupProgress ? backupProgress : 'Save all your data to a JSON file'}
+            onPress={handleCreateBackup}
+            loading={isExporting}
+          />
+          <SettingItem
+            icon="backup-restore"
+            title="Restore Backup"
+            subtitle={isRestoring && backupProgress ? backupProgress : 'Import a Finly backup into this account'}
+            onPress={handleRestoreBackup}
+            loading={isRestoring}
+          />
+        </View>
+
         {/* Data Management Section */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>DATA MANAGEMENT</Text>
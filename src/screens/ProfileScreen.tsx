@@ -21,6 +21,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import BottomSheet, { BottomSheetScrollView } from '@gorhom/bottom-sheet';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
 import { useTheme } from '../contexts/ThemeContext';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { logger } from '../utils/logger';
@@ -49,13 +50,19 @@ import {
 import { usePreferences } from '../contexts/PreferencesContext';
 import { apiService } from '../services/api';
 import { notificationService } from '../services/notificationService';
+import {
+  ReminderSettings,
+  getReminderSettings,
+  saveReminderSettings,
+  rescheduleReminders,
+} from '../services/reminderService';
 
 /**
  * ProfileScreen - User settings and preferences
  */
 const ProfileScreen: React.FC = () => {
   const { theme, isDark, toggleTheme } = useTheme();
-  const { currency: currencyState, setCurrency: setCurrencyGlobal, showDecimals, setShowDecimals } = useCurrency();
+  const { currency: currencyState, setCurrency: setCurrencyGlobal, showDecimals, setShowDecimals, formatCurrency } = useCurrency();
   const dispatch = useAppDispatch();
   const { user, isLoading } = useAppSelector((state) => state.auth);
   const { enableMockIAP } = useAppSelector((state) => state.devSettings || { enableMockIAP: false });
@@ -68,6 +75,8 @@ const ProfileScreen: React.FC = () => {
   const [editEmail, setEditEmail] = useState(user?.email || '');
   const [currency, setCurrency] = useState('USD');
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings | null>(null);
+  const [isReminderTimePickerVisible, setReminderTimePickerVisible] = useState(false);
   const [biometricEnabled, setBiometricEnabled] = useState(false);
   const [biometricSupported, setBiometricSupported] = useState(false);
 
@@ -88,6 +97,7 @@ const ProfileScreen: React.FC = () => {
     }
     loadCurrency();
     checkNotificationStatus();
+    loadReminderSettings();
     dispatch(loadDevSettings());
     checkBiometricSupport();
   }, [user]);
@@ -151,9 +161,53 @@ const ProfileScreen: React.FC = () => {
     }
   };
 
-  const handleOpenNotificationSettings = async () => {
+  const loadReminderSettings = async () => {
+    setReminderSettings(await getReminderSettings());
+  };
+
+  const updateReminderSettings = async (updates: Partial<ReminderSettings>) => {
+    if (!reminderSettings) return;
+    const previous = reminderSettings;
+    const next = { ...reminderSettings, ...updates };
+    setReminderSettings(next);
+    try {
+      await saveReminderSettings(next);
+      await rescheduleReminders(formatCurrency);
+    } catch (error) {
+      setReminderSettings(previous);
+      showError('Error', 'Failed to save reminder settings. Please try again.');
+    }
+  };
+
+  const handleToggleReminder = async (key: 'dailyReminderEnabled' | 'weeklyDigestEnabled', value: boolean) => {
+    Haptics.selectionAsync();
+    if (value && !notificationsEnabled) {
+      // Reminders are local notifications, so they need the permission too
+      await notificationService.requestPermissions();
+      const enabled = await notificationService.areNotificationsEnabled();
+      setNotificationsEnabled(enabled);
+      if (!enabled) {
+        showWarning('Notifications Disabled', 'Enable notifications in Settings to receive reminders.');
+        return;
+      }
+    }
+    updateReminderSettings({ [key]: value });
+  };
+
+  const handleConfirmReminderTime = (date: Date) => {
+    setReminderTimePickerVisible(false);
+    updateReminderSettings({ dailyReminderHour: date.getHours(), dailyReminderMinute: date.getMinutes() });
+  };
+
+  const getReminderTime = (): Date => {
+    const date = new Date();
+    date.setHours(reminderSettings?.dailyReminderHour ?? 20, reminderSettings?.dailyReminderMinute ?? 0, 0, 0);
+    return date;
+  };
+
+  const handleOpenNotificationSettings = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    await notificationService.openAppSettings();
+    navigation.navigate('NotificationSettings');
   };
 
   const handleEditProfile = () => {
@@ -428,7 +482,7 @@ const ProfileScreen: React.FC = () => {
           <SettingItem
             icon="bell-outline"
             title="Notifications"
-            subtitle={notificationsEnabled ? 'Enabled - Tap to manage in Settings' : 'Disabled - Tap to enable in Settings'}
+            subtitle={notificationsEnabled ? 'Budget alerts, quiet hours and more' : 'Disabled - Tap to enable'}
             onPress={handleOpenNotificationSettings}
             rightComponent={
               <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.xs }}>
@@ -444,6 +498,37 @@ const ProfileScreen: React.FC = () => {
               </View>
             }
           />
+          <SettingItem
+            icon="pencil-clock-outline"
+            title="Daily Reminder"
+            subtitle={
+              reminderSettings?.dailyReminderEnabled
+                ? `Every day at ${getReminderTime().toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })} - Tap to change`
+                : "Remind me to log today's spending"
+            }
+            onPress={reminderSettings?.dailyReminderEnabled ? () => setReminderTimePickerVisible(true) : undefined}
+            rightComponent={
+              <Switch
+                value={!!reminderSettings?.dailyReminderEnabled}
+                onValueChange={(value) => handleToggleReminder('dailyReminderEnabled', value)}
+                trackColor={{ false: theme.border, true: theme.primary + '60' }}
+                thumbColor={reminderSettings?.dailyReminderEnabled ? theme.primary : theme.surface}
+              />
+            }
+          />
+          <SettingItem
+            icon="calendar-week"
+            title="Weekly Digest"
+            subtitle="Sunday summary of your week's spending and budgets"
+            rightComponent={
+              <Switch
+                value={!!reminderSettings?.weeklyDigestEnabled}
+                onValueChange={(value) => handleToggleReminder('weeklyDigestEnabled', value)}
+                trackColor={{ false: theme.border, true: theme.primary + '60' }}
+                thumbColor={reminderSettings?.weeklyDigestEnabled ? theme.primary : theme.surface}
+              />
+            }
+          />
           <SettingItem
             icon="bug-outline"
             title="Share Crash Reports"
@@ -468,6 +553,30 @@ const ProfileScreen: React.FC = () => {
             subtitle="Manage your income sources and auto-scheduling"
             onPress={() => navigation.navigate('IncomeManagement')}
           />
+          <SettingItem
+            icon="wallet"
+            title="Accounts"
+            subtitle="Checking, savings, cards, cash and transfers"
+            onPress={() => navigation.navigate('Accounts')}
+          />
+          <SettingItem
+            icon="home-account"
+            title="Household"
+            subtitle="Shared categories, budgets and settle up"
+            onPress={() => navigation.navigate('Household')}
+          />
+          <SettingItem
+            icon="calendar-sync"
+            title="Recurring Expenses"
+            subtitle="Rent, subscriptions and other scheduled bills"
+            onPress={() => navigation.navigate('RecurringExpenses')}
+          />
+          <SettingItem
+            icon="piggy-bank"
+            title="Savings Goals"
+            subtitle="Emergency fund, trips and big purchases"
+            onPress={() => navigation.navigate('Goals')}
+          />
           <SettingItem
             icon="shield-check"
             title="Privacy & Data"
@@ -858,6 +967,19 @@ const ProfileScreen: React.FC = () => {
           </View>
         </BottomSheetScrollView>
       </BottomSheet>
+
+      {/* Daily Reminder Time Picker */}
+      <DateTimePickerModal
+        isVisible={isReminderTimePickerVisible}
+        mode="time"
+        date={getReminderTime()}
+        onConfirm={handleConfirmReminderTime}
+        onCancel={() => setReminderTimePickerVisible(false)}
+        isDarkModeEnabled={isDark}
+        accentColor={theme.primary}
+        buttonTextColorIOS={theme.primary}
+        themeVariant={isDark ? 'dark' : 'light'}
+      />
       {AlertComponent}
     </SafeAreaView>
   );
@@ -26,15 +26,20 @@ import { StackNavigationProp } from '@react-navigation/stack';
 
 import { useTheme } from '../contexts/ThemeContext';
 import { useSubscription } from '../hooks/useSubscription';
+import { useDuplicateReview } from '../hooks/useDuplicateReview';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { useBottomSheetActions } from '../contexts/BottomSheetContext';
 import { UpgradePrompt, PremiumBadge } from '../components';
 import { apiService } from '../services/api';
 import receiptService from '../services/receiptService';
 import { extractReceiptTransactions } from '../services/receiptOCRService';
+import { getCategoryRules, evaluateRules } from '../services/categorizationService';
+import tagsService from '../services/tagsService';
+import { mergeIntoExisting } from '../services/duplicateDetectionService';
+import { splitsFromLineItems, getPrimaryCategoryId } from '../services/splitService';
 import { RootStackParamList } from '../navigation/types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
-import { Category } from '../types';
+import { Category, ExpenseSplit } from '../types';
 
 type ReceiptUploadNavigationProp = StackNavigationProp<RootStackParamList, 'ReceiptUpload'>;
 
@@ -47,6 +52,7 @@ const ReceiptUploadScreen: React.FC = () => {
   const { isPremium, requiresUpgrade, trackUsage, getRemainingUsage } = useSubscription();
   const { currencyCode } = useCurrency();
   const { openBottomSheet } = useBottomSheetActions();
+  const { reviewDuplicates, DuplicateReviewComponent } = useDuplicateReview();
 
   const [image, setImage] = useState<string | null>(null);
   const [scanning, setScanning] = useState(false);
@@ -218,6 +224,8 @@ const ReceiptUploadScreen: React.FC = () => {
       if (expenseTransactions.length > 0) {
         // Handle expense transactions
         let combinedExpense;
+        // Line items in different categories become split allocations of one expense
+        let splits: ExpenseSplit[] = [];
 
         if (expenseTransactions.length > 1) {
           // Combine multiple expense transactions
@@ -246,6 +254,25 @@ const ReceiptUploadScreen: React.FC = () => {
               : firstTx.originalAmount,
             originalCurrency: firstTx.originalCurrency,
           };
+
+          splits = splitsFromLineItems(
+            expenseTransactions.map((tx) => ({
+              categoryId: tx.categoryId,
+              amount: tx.amount,
+              originalAmount: tx.originalAmount,
+              description: tx.description,
+            })),
+            totalAmount,
+            allSameCurrency && totalOriginalAmount > 0 ? totalOriginalAmount : undefined
+          ).map((split) => {
+            const category = categories.find((c) => c.id === split.categoryId);
+            return category
+              ? { ...split, category: { id: category.id, name: category.name, icon: category.icon, color: category.color } }
+              : split;
+          });
+          if (splits.length > 0) {
+            combinedExpense.categoryId = getPrimaryCategoryId(splits) || combinedExpense.categoryId;
+          }
         } else {
           combinedExpense = {
             amount: expenseTransactions[0].amount,
@@ -257,6 +284,18 @@ const ReceiptUploadScreen: React.FC = () => {
           };
         }
 
+        // Apply the user's category rules on top of the OCR category guess
+        const ruleMatch = evaluateRules(
+          { description: combinedExpense.description, amount: combinedExpense.amount },
+          await getCategoryRules()
+        );
+        if (ruleMatch.categoryId && splits.length === 0) {
+          combinedExpense.categoryId = ruleMatch.categoryId;
+        }
+        const ruleTags = ruleMatch.tagIds.length > 0
+          ? (await tagsService.getTags()).filter((tag) => ruleMatch.tagIds.includes(tag.id))
+          : undefined;
+
         // Build a temp Expense object so SharedBottomSheet can prefill fields immediately.
         // We mark it with a temp id so save logic creates a new expense (not "update").
         const nowIso = new Date().toISOString();
@@ -274,6 +313,9 @@ const ReceiptUploadScreen: React.FC = () => {
           updatedAt: nowIso,
           originalAmount: combinedExpense.originalAmount,
           originalCurrency: combinedExpense.originalCurrency,
+          tags: ruleTags,
+          notes: ruleMatch.notes,
+          splits: splits.length > 0 ? splits : undefined,
         };
 
         // Save receipt to gallery (premium feature) - only for expenses
@@ -285,13 +327,30 @@ const ReceiptUploadScreen: React.FC = () => {
               merchant: merchantName,
               date: combinedExpense.date,
               total: combinedExpense.amount,
+              items: expenseTransactions.map((tx) => ({
+                name: tx.description,
+                price: tx.originalAmount ?? tx.amount,
+                quantity: 1,
+              })),
             },
             categoryId: prefillExpense.categoryId,
           });
         }
 
-        // Open SharedBottomSheet with pre-filled expense data
-        openBottomSheet(prefillExpense);
+        // A receipt for something already logged (e.g. from a bank import) shouldn't add it twice
+        const [resolution] = (await reviewDuplicates([{
+          type: 'expense' as const,
+          amount: combinedExpense.amount,
+          date: combinedExpense.date,
+          description: combinedExpense.description,
+        }])) ?? [{ action: 'skip' as const }];
+
+        if (resolution.action === 'merge' && resolution.existing) {
+          await mergeIntoExisting(resolution.existing, { notes: ruleMatch.notes, tags: ruleMatch.tagIds });
+        } else if (resolution.action === 'keep') {
+          // Open SharedBottomSheet with pre-filled expense data
+          openBottomSheet(prefillExpense);
+        }
       }
 
       if (incomeTransactions.length > 0) {
@@ -514,6 +573,7 @@ const ReceiptUploadScreen: React.FC = () => {
             : undefined
         }
       />
+      {DuplicateReviewComponent}
     </SafeAreaView>
   );
 };
@@ -0,0 +1,765 @@
+/**
+ * RecurringExpensesScreen Component
+ * Purpose: Manage recurring expenses (rent, subscriptions, loan payments)
+ * Features: Add, edit, delete recurring expenses with the same schedules as income sources plus yearly,
+ * auto-post or confirm-each-payment mode
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { useAlert } from '../hooks/useAlert';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import BottomSheet, { BottomSheetScrollView } from '@gorhom/bottom-sheet';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/types';
+import { apiService } from '../services/api';
+import {
+  getRecurringExpenses,
+  createRecurringExpense,
+  updateRecurringExpense,
+  deleteRecurringExpense,
+} from '../services/recurringExpenseService';
+import { Category, ExpenseFrequency, RecurringExpense } from '../types';
+import {
+  BottomSheetBackground,
+  CategoryPickerModal,
+  CurrencyInput,
+  PullToRefreshScrollView,
+  RecurrenceScheduleFields,
+} from '../components';
+import type { FrequencyOption } from '../components';
+import { getNextScheduleDate, getScheduleLabel } from '../utils/recurrence';
+import { getValidIcon } from '../utils/iconUtils';
+import { typography, spacing, borderRadius, elevation } from '../theme';
+
+type RecurringExpensesNavigationProp = StackNavigationProp<RootStackParamList>;
+
+// Manual-only makes no sense for a bill that is never posted, so it is not offered here
+const FREQUENCY_OPTIONS: FrequencyOption<ExpenseFrequency>[] = [
+  { value: 'WEEKLY', label: 'Weekly', icon: 'calendar-week' },
+  { value: 'BIWEEKLY', label: 'Bi-weekly', icon: 'calendar-range' },
+  { value: 'MONTHLY', label: 'Monthly', icon: 'calendar-month' },
+  { value: 'YEARLY', label: 'Yearly', icon: 'calendar-star' },
+  { value: 'CUSTOM', label: 'Custom Dates', icon: 'calendar-edit' },
+];
+
+/**
+ * Average monthly cost of a recurring expense
+ */
+const getMonthlyEquivalent = (expense: RecurringExpense): number => {
+  switch (expense.frequency) {
+    case 'WEEKLY':
+      return (expense.amount * 52) / 12;
+    case 'BIWEEKLY':
+      return (expense.amount * 26) / 12;
+    case 'MONTHLY':
+      return expense.amount;
+    case 'YEARLY':
+      return expense.amount / 12;
+    case 'CUSTOM':
+      return expense.amount * (expense.customDates?.length || 0);
+    default:
+      return 0;
+  }
+};
+
+const RecurringExpensesScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { formatCurrency, formatTransactionAmount, convertToUSD, convertFromUSD, currencyCode } = useCurrency();
+  const navigation = useNavigation<RecurringExpensesNavigationProp>();
+  const { showError, showSuccess, showInfo, showWarning, AlertComponent } = useAlert();
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+
+  // Form state
+  const [editingExpense, setEditingExpense] = useState<RecurringExpense | null>(null);
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [categoryId, setCategoryId] = useState<string | undefined>(undefined);
+  const [frequency, setFrequency] = useState<ExpenseFrequency>('MONTHLY');
+  const [autoAdd, setAutoAdd] = useState(true);
+  const [dayOfWeek, setDayOfWeek] = useState<number | undefined>(undefined);
+  const [dayOfMonth, setDayOfMonth] = useState<number | undefined>(undefined);
+  const [customDates, setCustomDates] = useState<number[]>([]);
+  const [startDate, setStartDate] = useState(new Date());
+
+  const bottomSheetRef = useRef<BottomSheet>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (editingExpense) {
+      setName(editingExpense.name);
+      // Edit in the currency the bill was entered in, otherwise convert from USD
+      setAmount(
+        editingExpense.originalAmount && editingExpense.originalCurrency === currencyCode
+          ? editingExpense.originalAmount.toFixed(2)
+          : convertFromUSD(editingExpense.amount).toFixed(2)
+      );
+      setCategoryId(editingExpense.categoryId);
+      setFrequency(editingExpense.frequency);
+      setAutoAdd(editingExpense.autoAdd);
+      setDayOfWeek(editingExpense.dayOfWeek);
+      setDayOfMonth(editingExpense.dayOfMonth);
+      setCustomDates(editingExpense.customDates || []);
+      setStartDate(new Date(editingExpense.startDate));
+      bottomSheetRef.current?.expand();
+    } else {
+      resetForm();
+    }
+  }, [editingExpense]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [expenses, categoriesData] = await Promise.all([
+        getRecurringExpenses(),
+        apiService.getCategories(),
+      ]);
+      setRecurringExpenses(expenses);
+      setCategories(categoriesData);
+    } catch (error) {
+      console.error('Error loading recurring expenses:', error);
+      showError('Error', 'Failed to load recurring expenses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setAmount('');
+    setCategoryId(undefined);
+    setFrequency('MONTHLY');
+    setAutoAdd(true);
+    setDayOfWeek(undefined);
+    setDayOfMonth(undefined);
+    setCustomDates([]);
+    setStartDate(new Date());
+    setEditingExpense(null);
+  };
+
+  const handleOpenAddSheet = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    resetForm();
+    bottomSheetRef.current?.expand();
+  };
+
+  const handleCloseSheet = () => {
+    bottomSheetRef.current?.close();
+    setTimeout(() => {
+      resetForm();
+    }, 300);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showInfo('Missing Name', 'Please enter a name for this recurring expense');
+      return;
+    }
+
+    if (!amount || parseFloat(amount) <= 0) {
+      showError('Invalid Amount', 'Please enter a valid amount');
+      return;
+    }
+
+    if (!categoryId) {
+      showInfo('Missing Category', 'Please choose a category');
+      return;
+    }
+
+    // Validate frequency-specific fields
+    if (frequency === 'WEEKLY' && dayOfWeek === undefined) {
+      showInfo('Missing Day', 'Please select a day of the week');
+      return;
+    }
+
+    if (frequency === 'MONTHLY' && dayOfMonth === undefined) {
+      showInfo('Missing Day', 'Please select a day of the month');
+      return;
+    }
+
+    if (frequency === 'CUSTOM' && customDates.length === 0) {
+      showInfo('Missing Dates', 'Please enter at least one custom date (e.g., 1, 15)');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const originalAmount = parseFloat(amount);
+      // Convert input amount (display currency) to USD before saving
+      const amountInUSD = currencyCode.toUpperCase() === 'USD' ? originalAmount : convertToUSD(originalAmount);
+
+      const expenseData = {
+        name: name.trim(),
+        amount: amountInUSD,
+        categoryId,
+        frequency,
+        startDate: startDate.toISOString(),
+        autoAdd,
+        dayOfWeek: frequency === 'WEEKLY' ? dayOfWeek : undefined,
+        dayOfMonth: frequency === 'MONTHLY' ? dayOfMonth : undefined,
+        customDates: frequency === 'CUSTOM' ? customDates : undefined,
+        originalAmount,
+        originalCurrency: currencyCode,
+      };
+
+      if (editingExpense) {
+        await updateRecurringExpense(editingExpense.id, expenseData);
+        showSuccess('Success', 'Recurring expense updated successfully!');
+      } else {
+        await createRecurringExpense(expenseData);
+        showSuccess('Success', 'Recurring expense added successfully!');
+      }
+
+      await loadData();
+
+      handleCloseSheet();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      showError('Error', 'Failed to save recurring expense');
+      console.error('Error saving recurring expense:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (expense: RecurringExpense) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    showWarning(
+      'Delete Recurring Expense',
+      `Are you sure you want to delete "${expense.name}"? Payments already recorded will be kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRecurringExpense(expense.id);
+              await loadData();
+
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (error) {
+              showError('Error', 'Failed to delete recurring expense');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEdit = (expense: RecurringExpense) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setEditingExpense(expense);
+  };
+
+  const getNextPaymentDate = (expense: RecurringExpense): string => {
+    const next = getNextScheduleDate(expense, new Date(), { clampToMonthEnd: true });
+    return next ? next.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : 'N/A';
+  };
+
+  const selectedCategory = categories.find((c) => c.id === categoryId);
+  const monthlyTotal = recurringExpenses
+    .filter((e) => e.isActive !== false)
+    .reduce((sum, e) => sum + getMonthlyEquivalent(e), 0);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Icon name="arrow-left" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Recurring Expenses</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <PullToRefreshScrollView
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={{ paddingBottom: 100 }}
+        onRefresh={loadData}
+      >
+        {recurringExpenses.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Icon name="calendar-sync" size={64} color={theme.textTertiary} />
+            <Text style={[styles.emptyTitle, { color: theme.text }]}>No Recurring Expenses</Text>
+            <Text style={[styles.emptyDescription, { color: theme.textSecondary }]}>
+              Add rent, subscriptions or loan payments and they will be recorded on schedule
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Monthly Summary */}
+            <View style={[styles.summaryCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}>
+              <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Fixed costs per month</Text>
+              <Text style={[styles.summaryAmount, { color: theme.expense }]}>
+                ~{formatCurrency(monthlyTotal)}
+              </Text>
+            </View>
+
+            <View style={styles.sourcesList}>
+              {recurringExpenses.map((expense) => {
+                const color = expense.category?.color || theme.expense;
+                return (
+                  <View
+                    key={expense.id}
+                    style={[styles.sourceCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}
+                  >
+                    <View style={styles.sourceHeader}>
+                      <View style={[styles.sourceIcon, { backgroundColor: color + '20' }]}>
+                        <Icon
+                          name={getValidIcon(expense.category?.icon || 'calendar-sync') as any}
+                          size={24}
+                          color={color}
+                        />
+                      </View>
+                      <View style={styles.sourceInfo}>
+                        <Text style={[styles.sourceName, { color: theme.text }]}>{expense.name}</Text>
+                        <Text style={[styles.sourceFrequency, { color: theme.textSecondary }]}>
+                          {getScheduleLabel(expense)}
+                        </Text>
+                      </View>
+                      <View style={styles.sourceAmount}>
+                        <Text style={[styles.sourceAmountText, { color: theme.expense }]}>
+                          {formatTransactionAmount(
+                            expense.amount,
+                            expense.originalAmount ?? undefined,
+                            expense.originalCurrency ?? undefined
+                          )}
+                        </Text>
+                      </View>
+                    </View>
+
+                    <View style={styles.sourceMeta}>
+                      <View style={styles.metaItem}>
+                        <Icon name="calendar-clock" size={16} color={theme.textTertiary} />
+                        <Text style={[styles.metaText, { color: theme.textSecondary }]}>
+                          Next: {getNextPaymentDate(expense)}
+                        </Text>
+                      </View>
+                      <View style={styles.metaItem}>
+                        <Icon
+                          name={expense.autoAdd ? 'lightning-bolt' : 'bell-ring-outline'}
+                          size={16}
+                          color={theme.textTertiary}
+                        />
+                        <Text style={[styles.metaText, { color: theme.textSecondary }]}>
+                          {expense.autoAdd ? 'Posted automatically' : 'Asks to confirm'}
+                        </Text>
+                      </View>
+                    </View>
+
+                    <View style={styles.sourceActions}>
+                      <TouchableOpacity
+                        style={[styles.actionButton, { backgroundColor: theme.primary + '20' }]}
+                        onPress={() => handleEdit(expense)}
+                      >
+                        <Icon name="pencil" size={18} color={theme.primary} />
+                        <Text style={[styles.actionButtonText, { color: theme.primary }]}>Edit</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.actionButton, { backgroundColor: theme.expense + '20' }]}
+                        onPress={() => handleDelete(expense)}
+                      >
+                        <Icon name="delete" size={18} color={theme.expense} />
+                        <Text style={[styles.actionButtonText, { color: theme.expense }]}>Delete</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        {/* Add Button */}
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: theme.primary }, elevation.md]}
+          onPress={handleOpenAddSheet}
+        >
+          <Icon name="plus" size={24} color="#FFFFFF" />
+          <Text style={styles.addButtonText}>Add Recurring Expense</Text>
+        </TouchableOpacity>
+      </PullToRefreshScrollView>
+
+      {/* Add/Edit Bottom Sheet */}
+      <BottomSheet
+        ref={bottomSheetRef}
+        index={-1}
+        snapPoints={['85%']}
+        enablePanDownToClose
+        backgroundComponent={BottomSheetBackground}
+        handleIndicatorStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.4)' }}
+        keyboardBehavior="interactive"
+        keyboardBlurBehavior="restore"
+        android_keyboardInputMode="adjustResize"
+        onChange={(index) => {
+          if (index === -1) {
+            resetForm();
+          }
+        }}
+      >
+        <BottomSheetScrollView
+          style={styles.bottomSheetContent}
+          contentContainerStyle={styles.bottomSheetContentContainer}
+        >
+          <Text style={[styles.sheetTitle, { color: theme.text }]}>
+            {editingExpense ? 'Edit Recurring Expense' : 'Add Recurring Expense'}
+          </Text>
+
+          {/* Name */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Name</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+              placeholder="e.g., Rent, Netflix, Car Loan"
+              placeholderTextColor={theme.textTertiary}
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+
+          {/* Amount */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Amount</Text>
+            <View style={[styles.amountInput, { backgroundColor: theme.background, borderColor: theme.border }]}>
+              <CurrencyInput
+                value={amount}
+                onChangeText={setAmount}
+                placeholder="0.00"
+                placeholderTextColor={theme.textTertiary}
+                showSymbol={true}
+                allowDecimals={true}
+                inputStyle={styles.currencyInputField}
+              />
+            </View>
+          </View>
+
+          {/* Category */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Category</Text>
+            <TouchableOpacity
+              style={[styles.input, styles.categorySelector, { backgroundColor: theme.background, borderColor: theme.border }]}
+              onPress={() => setShowCategoryPicker(true)}
+            >
+              {selectedCategory ? (
+                <>
+                  <Icon name={getValidIcon(selectedCategory.icon) as any} size={20} color={selectedCategory.color} />
+                  <Text style={[styles.categoryText, { color: theme.text }]}>{selectedCategory.name}</Text>
+                </>
+              ) : (
+                <Text style={[styles.categoryText, { color: theme.textTertiary }]}>Choose a category</Text>
+              )}
+              <Icon name="chevron-down" size={20} color={theme.textTertiary} />
+            </TouchableOpacity>
+          </View>
+
+          <RecurrenceScheduleFields
+            options={FREQUENCY_OPTIONS}
+            frequency={frequency}
+            onFrequencyChange={setFrequency}
+            dayOfWeek={dayOfWeek}
+            onDayOfWeekChange={setDayOfWeek}
+            dayOfMonth={dayOfMonth}
+            onDayOfMonthChange={setDayOfMonth}
+            customDates={customDates}
+            onCustomDatesChange={setCustomDates}
+            startDate={startDate}
+            onStartDateChange={setStartDate}
+            startDateLabel={frequency === 'YEARLY' ? 'Renewal Date' : 'Start Date'}
+            customDatesPreviewLabel="Will be charged on:"
+          />
+
+          {/* Auto-post Toggle */}
+          <View style={[styles.inputGroup, styles.toggleGroup]}>
+            <View style={styles.toggleInfo}>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Post Automatically</Text>
+              <Text style={[styles.toggleDescription, { color: theme.textTertiary }]}>
+                {autoAdd
+                  ? 'The expense is recorded on each due date'
+                  : 'You will be asked to confirm each payment'}
+              </Text>
+            </View>
+            <Switch
+              value={autoAdd}
+              onValueChange={setAutoAdd}
+              trackColor={{ false: theme.border, true: theme.primary + '60' }}
+              thumbColor={autoAdd ? theme.primary : theme.surface}
+            />
+          </View>
+
+          {/* Save Button */}
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.primary }, elevation.sm]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {editingExpense ? 'Update Recurring Expense' : 'Add Recurring Expense'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </BottomSheetScrollView>
+      </BottomSheet>
+
+      <CategoryPickerModal
+        visible={showCategoryPicker}
+        categories={categories}
+        selectedCategoryId={categoryId}
+        onSelect={setCategoryId}
+        onClose={() => setShowCategoryPicker(false)}
+      />
+      {AlertComponent}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xl * 2,
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    ...typography.titleLarge,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  emptyDescription: {
+    ...typography.bodyMedium,
+    textAlign: 'center',
+  },
+  summaryCard: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  summaryLabel: {
+    ...typography.bodySmall,
+  },
+  summaryAmount: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+    marginTop: 2,
+  },
+  sourcesList: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+  sourceCard: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  sourceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  sourceIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: spacing.md,
+  },
+  sourceInfo: {
+    flex: 1,
+  },
+  sourceName: {
+    ...typography.titleMedium,
+    marginBottom: 2,
+  },
+  sourceFrequency: {
+    ...typography.bodySmall,
+  },
+  sourceAmount: {
+    alignItems: 'flex-end',
+  },
+  sourceAmountText: {
+    ...typography.titleLarge,
+    fontWeight: '700',
+  },
+  sourceMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  metaText: {
+    ...typography.bodySmall,
+  },
+  sourceActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    gap: spacing.xs,
+  },
+  actionButtonText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: spacing.md,
+    marginTop: spacing.lg,
+    paddingVertical: spacing.md + 4,
+    borderRadius: borderRadius.md,
+    gap: spacing.sm,
+  },
+  addButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  bottomSheetContent: {
+    flex: 1,
+  },
+  bottomSheetContentContainer: {
+    padding: spacing.lg,
+  },
+  sheetTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+    marginBottom: spacing.lg,
+  },
+  inputGroup: {
+    marginBottom: spacing.lg,
+  },
+  inputLabel: {
+    ...typography.labelMedium,
+    marginBottom: spacing.sm,
+    fontWeight: '600',
+  },
+  input: {
+    ...typography.bodyMedium,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+  },
+  amountInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    paddingHorizontal: spacing.md,
+  },
+  currencyInputField: {
+    paddingVertical: spacing.md,
+  },
+  categorySelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  categoryText: {
+    ...typography.bodyMedium,
+    flex: 1,
+  },
+  toggleGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  toggleInfo: {
+    flex: 1,
+  },
+  toggleDescription: {
+    ...typography.bodySmall,
+    marginTop: 2,
+  },
+  saveButton: {
+    paddingVertical: spacing.md + 4,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  saveButtonText: {
+    ...typography.labelLarge,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+});
+
+export default RecurringExpensesScreen;
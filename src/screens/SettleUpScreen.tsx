@@ -0,0 +1,379 @@
+/**
+ * SettleUpScreen Component
+ * Purpose: Show who paid how much of the household's shared spending and who owes whom
+ * Features: Period presets, per-member paid vs. fair share, suggested payments, unattributed spending
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNavigation } from '@react-navigation/native';
+import { apiService } from '../services/api';
+import { getHousehold, getSettlement, SettlementSummary } from '../services/householdService';
+import { Household } from '../types';
+import { useAppSelector } from '../store';
+import { PullToRefreshScrollView } from '../components';
+import { typography, spacing, borderRadius, elevation } from '../theme';
+
+type Period = 'this_month' | 'last_month' | 'last_3_months';
+
+const PERIODS: Array<{ key: Period; label: string }> = [
+  { key: 'this_month', label: 'This Month' },
+  { key: 'last_month', label: 'Last Month' },
+  { key: 'last_3_months', label: 'Last 3 Months' },
+];
+
+const getPeriodRange = (period: Period): { start: Date; end: Date } => {
+  const now = new Date();
+  switch (period) {
+    case 'last_month':
+      return {
+        start: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        end: new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59, 999),
+      };
+    case 'last_3_months':
+      return {
+        start: new Date(now.getFullYear(), now.getMonth() - 2, 1),
+        end: now,
+      };
+    default:
+      return {
+        start: new Date(now.getFullYear(), now.getMonth(), 1),
+        end: now,
+      };
+  }
+};
+
+const SettleUpScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { formatCurrency } = useCurrency();
+  const navigation = useNavigation();
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+
+  const [period, setPeriod] = useState<Period>('this_month');
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [summary, setSummary] = useState<SettlementSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadSettlement = useCallback(async () => {
+    try {
+      const [householdData, categories] = await Promise.all([
+        getHousehold(),
+        apiService.getCategories(),
+      ]);
+      setHousehold(householdData);
+      if (!householdData) {
+        setSummary(null);
+        return;
+      }
+      const { start, end } = getPeriodRange(period);
+      setSummary(await getSettlement(householdData, categories, start, end));
+    } catch (error) {
+      console.error('Error loading settlement:', error);
+      setSummary(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadSettlement();
+  }, [loadSettlement]);
+
+  const memberName = (id: string, name: string) => (id === currentUserId ? 'You' : name);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Icon name="arrow-left" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Settle Up</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {/* Period */}
+      <View style={styles.periodRow}>
+        {PERIODS.map(({ key, label }) => {
+          const selected = period === key;
+          return (
+            <TouchableOpacity
+              key={key}
+              style={[
+                styles.periodChip,
+                {
+                  backgroundColor: selected ? theme.primary + '20' : theme.card,
+                  borderColor: selected ? theme.primary : theme.border,
+                },
+              ]}
+              onPress={() => setPeriod(key)}
+            >
+              <Text style={[styles.periodChipText, { color: selected ? theme.primary : theme.textSecondary }]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : (
+        <PullToRefreshScrollView
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: 100 }}
+          onRefresh={loadSettlement}
+        >
+          {!household || !summary || summary.total === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Icon name="scale-balance" size={64} color={theme.textTertiary} />
+              <Text style={[styles.emptyTitle, { color: theme.text }]}>Nothing to Settle</Text>
+              <Text style={[styles.emptyDescription, { color: theme.textSecondary }]}>
+                {household
+                  ? 'No spending in shared categories for this period'
+                  : 'Join or create a household to share spending'}
+              </Text>
+            </View>
+          ) : (
+            <>
+              {/* Total */}
+              <View style={[styles.summaryCard, { backgroundColor: theme.card, borderColor: theme.border }, elevation.sm]}>
+                <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Shared Spending</Text>
+                <Text style={[styles.summaryAmount, { color: theme.text }]}>{formatCurrency(summary.total)}</Text>
+                {summary.unattributed > 0 && (
+                  <Text style={[styles.summaryNote, { color: theme.warning }]}>
+                    {formatCurrency(summary.unattributed)} has no payer and is left out of the split
+                  </Text>
+                )}
+              </View>
+
+              {/* Members */}
+              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>Who Paid</Text>
+              <View style={[styles.listCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                {summary.members.map(({ member, paid, share, balance }) => {
+                  const attributed = summary.total - summary.unattributed;
+                  const progress = attributed > 0 ? Math.min(paid / attributed, 1) : 0;
+                  const settled = Math.abs(balance) < 0.01;
+                  return (
+                    <View key={member.id} style={[styles.memberRow, { borderBottomColor: theme.border }]}>
+                      <View style={styles.memberHeader}>
+                        <Text style={[styles.memberName, { color: theme.text }]} numberOfLines={1}>
+                          {memberName(member.id, member.name)}
+                        </Text>
+                        <Text style={[styles.memberPaid, { color: theme.text }]}>{formatCurrency(paid)}</Text>
+                      </View>
+                      <View style={[styles.progressTrack, { backgroundColor: theme.border }]}>
+                        <View
+                          style={[styles.progressFill, { backgroundColor: theme.primary, width: `${progress * 100}%` }]}
+                        />
+                      </View>
+                      <Text
+                        style={[
+                          styles.memberBalance,
+                          { color: settled ? theme.textSecondary : balance > 0 ? theme.success : theme.expense },
+                        ]}
+                      >
+                        {settled
+                          ? `Paid their share of ${formatCurrency(share)}`
+                          : balance > 0
+                            ? `Paid ${formatCurrency(balance)} more than their share`
+                            : `Paid ${formatCurrency(-balance)} less than their share`}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+
+              {/* Payments */}
+              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>To Settle</Text>
+              <View style={[styles.listCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                {summary.payments.length === 0 ? (
+                  <View style={styles.paymentRow}>
+                    <Icon name="check-circle" size={20} color={theme.success} />
+                    <Text style={[styles.paymentText, { color: theme.text }]}>Everyone is even</Text>
+                  </View>
+                ) : (
+                  summary.payments.map((payment) => (
+                    <View
+                      key={`${payment.from.id}-${payment.to.id}`}
+                      style={[styles.paymentRow, { borderBottomColor: theme.border }]}
+                    >
+                      <Icon name="arrow-right-circle" size={20} color={theme.primary} />
+                      <Text style={[styles.paymentText, { color: theme.text }]} numberOfLines={2}>
+                        {memberName(payment.from.id, payment.from.name)} → {memberName(payment.to.id, payment.to.name)}
+                      </Text>
+                      <Text style={[styles.paymentAmount, { color: theme.text }]}>
+                        {formatCurrency(payment.amount)}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </View>
+            </>
+          )}
+        </PullToRefreshScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...typography.headlineSmall,
+    fontWeight: '700',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    gap: spacing.sm,
+  },
+  periodChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs + 2,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  periodChipText: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xl * 2,
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    ...typography.titleLarge,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  emptyDescription: {
+    ...typography.bodyMedium,
+    textAlign: 'center',
+  },
+  summaryCard: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    padding: spacing.lg,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    ...typography.labelMedium,
+  },
+  summaryAmount: {
+    ...typography.headlineMedium,
+    fontWeight: '700',
+    marginTop: spacing.xs,
+  },
+  summaryNote: {
+    ...typography.bodySmall,
+    marginTop: spacing.sm,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    ...typography.labelMedium,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginHorizontal: spacing.md,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  listCard: {
+    marginHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  memberRow: {
+    padding: spacing.md,
+    gap: spacing.xs,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  memberHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  memberName: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    flex: 1,
+  },
+  memberPaid: {
+    ...typography.titleMedium,
+    fontWeight: '700',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  memberBalance: {
+    ...typography.bodySmall,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'transparent',
+  },
+  paymentText: {
+    ...typography.bodyMedium,
+    flex: 1,
+  },
+  paymentAmount: {
+    ...typography.titleMedium,
+    fontWeight: '700',
+  },
+});
+
+export default SettleUpScreen;
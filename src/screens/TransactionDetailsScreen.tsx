@@ -25,6 +25,8 @@ import { useCurrency } from '../contexts/CurrencyContext';
 import { useBottomSheetActions } from '../contexts/BottomSheetContext';
 import { apiService } from '../services/api';
 import tagsService from '../services/tagsService';
+import { findThreadForTransaction } from '../services/aiThreadService';
+import { isSplitTransaction } from '../services/splitService';
 import { PaymentMethod, Tag, UnifiedTransaction, Expense, IncomeTransaction } from '../types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 import { RootStackParamList } from '../navigation/types';
@@ -46,7 +48,11 @@ const TransactionDetailsScreen: React.FC = () => {
 
   const { transaction } = route.params;
   const [tags, setTags] = useState<Tag[]>([]);
+  // AI conversation already started about this transaction
+  const [aiThreadId, setAiThreadId] = useState<string | null>(null);
   const isExpense = transaction.type === 'expense';
+  // Transfers between accounts can be deleted but not edited
+  const isTransfer = transaction.type === 'transfer';
 
   // Load tags if transaction has tags (expenses only)
   useEffect(() => {
@@ -65,6 +71,12 @@ const TransactionDetailsScreen: React.FC = () => {
     loadTags();
   }, [transaction.tags, isExpense]);
 
+  useEffect(() => {
+    findThreadForTransaction(transaction.id)
+      .then(thread => setAiThreadId(thread?.id || null))
+      .catch(error => console.error('Error loading AI thread:', error));
+  }, [transaction.id]);
+
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.9)).current;
@@ -138,6 +150,9 @@ const TransactionDetailsScreen: React.FC = () => {
         updatedAt: transaction.updatedAt || transaction.createdAt,
         originalAmount: transaction.originalAmount,
         originalCurrency: transaction.originalCurrency,
+        accountId: transaction.accountId,
+        splits: transaction.splits,
+        paidBy: transaction.paidBy,
       };
       navigation.goBack(); // Close details screen first
       setTimeout(() => openBottomSheet(expense), 300); // Open bottom sheet after navigation completes
@@ -154,6 +169,7 @@ const TransactionDetailsScreen: React.FC = () => {
         createdAt: transaction.createdAt,
         originalAmount: transaction.originalAmount,
         originalCurrency: transaction.originalCurrency,
+        accountId: transaction.accountId,
       };
       navigation.goBack(); // Close details screen first
       setTimeout(() => openBottomSheet(undefined, income), 300); // Open bottom sheet after navigation completes
@@ -167,6 +183,8 @@ const TransactionDetailsScreen: React.FC = () => {
       try {
         if (isExpense) {
           await apiService.deleteExpense(transaction.id);
+        } else if (isTransfer) {
+          await apiService.deleteTransfer(transaction.id);
         } else {
           await apiService.deleteIncomeTransaction(transaction.id);
         }
@@ -195,9 +213,12 @@ const TransactionDetailsScreen: React.FC = () => {
   };
 
   const category = isExpense ? transaction.category : undefined;
-  const categoryColor = category?.color || (isExpense ? theme.primary : theme.income);
-  const categoryName = isExpense ? getCategoryName(category) : 'Income';
-  const categoryIcon = isExpense ? getCategoryIcon(category) : 'cash-plus';
+  const categoryColor = isTransfer ? theme.textSecondary : category?.color || (isExpense ? theme.primary : theme.income);
+  const isSplit = isExpense && isSplitTransaction(transaction);
+  const categoryName = isSplit
+    ? `Split · ${transaction.splits!.length} categories`
+    : isExpense ? getCategoryName(category) : 'Income';
+  const categoryIcon = isTransfer ? 'swap-horizontal' : isExpense ? getCategoryIcon(category) : 'cash-plus';
 
   // Build informative AI query with full transaction context
   const buildAIQuery = (): string => {
@@ -208,7 +229,9 @@ const TransactionDetailsScreen: React.FC = () => {
       year: 'numeric',
     });
     
-    if (isExpense) {
+    if (isTransfer) {
+      return `Explain my transfer of ${amount} from ${transaction.fromAccount?.name || 'one account'} to ${transaction.toAccount?.name || 'another'} on ${date}. How does it affect my balances?`;
+    } else if (isExpense) {
       const categoryStr = transaction.category?.name || 'Uncategorized';
       const paymentStr = transaction.paymentMethod 
         ? ` paid via ${getPaymentMethodName(transaction.paymentMethod)}`
@@ -253,10 +276,10 @@ const TransactionDetailsScreen: React.FC = () => {
           <Text
             style={[
               styles.amount,
-              { color: isExpense ? theme.expense : theme.income },
+              { color: isTransfer ? theme.text : isExpense ? theme.expense : theme.income },
             ]}
           >
-            {isExpense ? '-' : '+'}{formatTransactionAmount(transaction.amount, transaction.originalAmount, transaction.originalCurrency)}
+            {isTransfer ? '' : isExpense ? '-' : '+'}{formatTransactionAmount(transaction.amount, transaction.originalAmount, transaction.originalCurrency)}
           </Text>
 
           {/* Description */}
@@ -266,7 +289,21 @@ const TransactionDetailsScreen: React.FC = () => {
 
           {/* Details Grid */}
           <View style={styles.detailsGrid}>
+            {/* Accounts (transfers only) */}
+            {isTransfer && (
+              <View style={styles.detailItemFull}>
+                <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>Accounts</Text>
+                <View style={styles.detailValueRow}>
+                  <Icon name="swap-horizontal" size={16} color={theme.textSecondary} />
+                  <Text style={[styles.detailValue, { color: theme.text }]}>
+                    {transaction.fromAccount?.name || 'Unknown'} → {transaction.toAccount?.name || 'Unknown'}
+                  </Text>
+                </View>
+              </View>
+            )}
+
             {/* Category/Income Source */}
+            {!isTransfer && (
             <View style={styles.detailItem}>
               <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>
                 {isExpense ? 'Category' : 'Income Source'}
@@ -278,22 +315,49 @@ const TransactionDetailsScreen: React.FC = () => {
                 </Text>
               </View>
             </View>
+            )}
 
             {/* Type */}
             <View style={styles.detailItem}>
               <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>Type</Text>
               <View style={styles.detailValueRow}>
                 <Icon
-                  name={isExpense ? 'arrow-up' : 'arrow-down'}
+                  name={isTransfer ? 'swap-horizontal' : isExpense ? 'arrow-up' : 'arrow-down'}
                   size={16}
-                  color={isExpense ? theme.expense : theme.income}
+                  color={isTransfer ? theme.textSecondary : isExpense ? theme.expense : theme.income}
                 />
                 <Text style={[styles.detailValue, { color: theme.text }]}>
-                  {isExpense ? 'Expense' : 'Income'}
+                  {isTransfer ? 'Transfer' : isExpense ? 'Expense' : 'Income'}
                 </Text>
               </View>
             </View>
 
+            {/* Account */}
+            {!isTransfer && transaction.account && (
+              <View style={styles.detailItem}>
+                <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>Account</Text>
+                <View style={styles.detailValueRow}>
+                  <Icon name="wallet-outline" size={16} color={theme.textSecondary} />
+                  <Text style={[styles.detailValue, { color: theme.text }]}>
+                    {transaction.account.name}
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {/* Paid By (shared household expenses) */}
+            {isExpense && transaction.paidBy && (
+              <View style={styles.detailItem}>
+                <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>Paid By</Text>
+                <View style={styles.detailValueRow}>
+                  <Icon name="account-outline" size={16} color={theme.textSecondary} />
+                  <Text style={[styles.detailValue, { color: theme.text }]}>
+                    {transaction.paidBy.name}
+                  </Text>
+                </View>
+              </View>
+            )}
+
             {/* Payment Method (expenses only) */}
             {isExpense && transaction.paymentMethod && (
             <View style={styles.detailItem}>
@@ -312,7 +376,7 @@ const TransactionDetailsScreen: React.FC = () => {
             )}
 
             {/* Auto Added (income only) */}
-            {!isExpense && transaction.autoAdded !== undefined && (
+            {!isExpense && !isTransfer && transaction.autoAdded !== undefined && (
               <View style={styles.detailItem}>
                 <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>Source</Text>
                 <View style={styles.detailValueRow}>
@@ -354,6 +418,39 @@ const TransactionDetailsScreen: React.FC = () => {
               </View>
             )}
 
+            {/* Split allocations */}
+            {isSplit && (
+              <View style={styles.detailItemFull}>
+                <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>Split</Text>
+                {transaction.splits!.map((split, index) => (
+                  <View
+                    key={split.id || `${split.categoryId}-${index}`}
+                    style={[styles.splitRow, { borderColor: theme.border }]}
+                  >
+                    <View style={[styles.categoryDot, { backgroundColor: split.category?.color || theme.primary }]} />
+                    <View style={styles.splitInfo}>
+                      <Text style={[styles.detailValue, { color: theme.text }]}>
+                        {split.category?.name || 'Uncategorized'}
+                      </Text>
+                      {!!split.notes && (
+                        <Text style={[styles.splitNotes, { color: theme.textSecondary }]} numberOfLines={2}>
+                          {split.notes}
+                        </Text>
+                      )}
+                      {split.tags && split.tags.length > 0 && (
+                        <Text style={[styles.splitNotes, { color: theme.textTertiary }]} numberOfLines={1}>
+                          {split.tags.map((tag) => tag.name).join(', ')}
+                        </Text>
+                      )}
+                    </View>
+                    <Text style={[styles.detailValue, { color: theme.expense }]}>
+                      {formatTransactionAmount(split.amount, split.originalAmount, transaction.originalCurrency)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {/* ID */}
             <View style={[styles.detailItem, styles.detailItemFull]}>
               <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>Transaction ID</Text>
@@ -380,24 +477,29 @@ const TransactionDetailsScreen: React.FC = () => {
                   category: transaction.category?.name,
                   date: transaction.date,
                 },
-                initialQuery: buildAIQuery(),
+                // Continuing a conversation shouldn't prefill the first question again
+                ...(aiThreadId ? { threadId: aiThreadId } : { initialQuery: buildAIQuery() }),
               })}
             >
               <Icon name="robot" size={18} color={theme.primary} />
-              <Text style={[styles.actionButtonText, { color: theme.primary }]}>Ask AI</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.actionButton,
-                styles.editButton,
-                { backgroundColor: theme.primary + '20', borderColor: theme.primary },
-              ]}
-              onPress={handleEdit}
-              activeOpacity={0.8}
-            >
-              <Icon name="pencil" size={20} color={theme.primary} />
-              <Text style={[styles.actionButtonText, { color: theme.primary }]}>Edit</Text>
+              <Text style={[styles.actionButtonText, { color: theme.primary }]}>
+                {aiThreadId ? 'Continue AI Chat' : 'Ask AI'}
+              </Text>
             </TouchableOpacity>
+            {!isTransfer && (
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  styles.editButton,
+                  { backgroundColor: theme.primary + '20', borderColor: theme.primary },
+                ]}
+                onPress={handleEdit}
+                activeOpacity={0.8}
+              >
+                <Icon name="pencil" size={20} color={theme.primary} />
+                <Text style={[styles.actionButtonText, { color: theme.primary }]}>Edit</Text>
+              </TouchableOpacity>
+            )}
 
             <TouchableOpacity
               style={[
@@ -508,6 +610,20 @@ const styles = StyleSheet.create({
     gap: spacing.sm,
     marginTop: spacing.xs,
   },
+  splitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  splitInfo: {
+    flex: 1,
+  },
+  splitNotes: {
+    ...typography.caption,
+    marginTop: 2,
+  },
   tagChip: {
     flexDirection: 'row',
     alignItems: 'center',
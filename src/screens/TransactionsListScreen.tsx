@@ -1,10 +1,11 @@
 /**
  * TransactionsListScreen - Full list of all transactions
  * Purpose: Display all user transactions with filtering and sorting options
- * Features: Search, filter by category/payment method/tags, sort options
+ * Features: Query-syntax search over the full history with saved searches, filter by
+ * category/payment method/tags, sort options, multi-select with bulk edit/delete and undo
  */
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -21,22 +22,48 @@ import {
 import { useAlert } from '../hooks/useAlert';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
-import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { useNavigation, useFocusEffect, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import * as Haptics from 'expo-haptics';
 
 import { useTheme } from '../contexts/ThemeContext';
 import { useBottomSheetActions } from '../contexts/BottomSheetContext';
-import { TransactionCard, ExpenseOptionsSheet } from '../components';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { TransactionCard, DuplicateScanModal, BulkEditModal, BulkEditMode, Toast } from '../components';
 import { logger } from '../utils/logger';
 import { formatDateLabel } from '../utils/dateFormatter';
 import { apiService } from '../services/api';
 import tagsService from '../services/tagsService';
-import { Expense, PaymentMethod, Tag, UnifiedTransaction, Category, IncomeTransaction } from '../types';
+import { getAccounts, getAccountIcon } from '../services/accountService';
+import { scanForDuplicates, ignoreDuplicatePair, DuplicatePair } from '../services/duplicateDetectionService';
+import { fetchAllTransactions } from '../services/dataExportService';
+import {
+  parseSearchQuery,
+  matchesSearchQuery,
+  searchTransactions,
+  getSavedSearches,
+  saveSearch,
+  setSavedSearchPinned,
+  deleteSavedSearch,
+  SavedSearch,
+} from '../services/transactionSearchService';
+import {
+  applyBulkChange,
+  undoBulkChange,
+  deleteTransactions,
+  isBulkEditable,
+  BulkChange,
+} from '../services/bulkEditService';
+import { localDatabase } from '../services/localDatabase';
+import { Expense, PaymentMethod, Tag, UnifiedTransaction, Category, IncomeTransaction, Account } from '../types';
 import { RootStackParamList } from '../navigation/types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
 
 type TransactionsListNavigationProp = StackNavigationProp<RootStackParamList, 'TransactionsList'>;
+type TransactionsListRouteProp = RouteProp<RootStackParamList, 'TransactionsList'>;
+
+// Wait for a pause in typing before searching the full history
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface GroupedTransactions {
   date: string;
@@ -117,8 +144,10 @@ const groupTransactionsByDate = (
 const TransactionsListScreen: React.FC = () => {
   const { theme } = useTheme();
   const navigation = useNavigation<TransactionsListNavigationProp>();
+  const route = useRoute<TransactionsListRouteProp>();
   const { openBottomSheet } = useBottomSheetActions();
-  const { showError, showSuccess, AlertComponent } = useAlert();
+  const { convertFromUSD } = useCurrency();
+  const { showError, showSuccess, showInfo, AlertComponent } = useAlert();
 
   const [transactions, setTransactions] = useState<UnifiedTransaction[]>([]);
   const [loading, setLoading] = useState(true);
@@ -127,11 +156,16 @@ const TransactionsListScreen: React.FC = () => {
   const [hasMore, setHasMore] = useState(false);
   const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [total, setTotal] = useState(0);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState(route.params?.query ?? '');
+  const [searchResults, setSearchResults] = useState<UnifiedTransaction[] | null>(null);
+  const [searchComplete, setSearchComplete] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [selectedPaymentMethods, setSelectedPaymentMethods] = useState<PaymentMethod[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [selectedTransactionType, setSelectedTransactionType] = useState<'all' | 'expense' | 'income'>('all');
+  const [selectedTransactionType, setSelectedTransactionType] = useState<'all' | 'expense' | 'income' | 'transfer'>('all');
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
   const [selectedDateRange, setSelectedDateRange] = useState<'all' | 'today' | 'week' | 'month' | '3months' | '6months' | 'year' | 'custom'>('all');
   const [customStartDate, setCustomStartDate] = useState<Date | null>(null);
   const [customEndDate, setCustomEndDate] = useState<Date | null>(null);
@@ -139,8 +173,19 @@ const TransactionsListScreen: React.FC = () => {
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [tags, setTags] = useState<Tag[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [selectedTransaction, setSelectedTransaction] = useState<UnifiedTransaction | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selected, setSelected] = useState<Map<string, UnifiedTransaction>>(new Map());
+  const [bulkEditMode, setBulkEditMode] = useState<BulkEditMode | null>(null);
+  const [bulkWorking, setBulkWorking] = useState(false);
+  // Deleted in bulk but not sent yet, so the undo toast can bring them back
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
+  const [undoToast, setUndoToast] = useState<{ id: number; message: string; onUndo: () => void } | null>(null);
+  const pendingDeleteRef = useRef<UnifiedTransaction[] | null>(null);
   const [showFiltersModal, setShowFiltersModal] = useState(false);
+  const [showDuplicatesModal, setShowDuplicatesModal] = useState(false);
+  const [scanningDuplicates, setScanningDuplicates] = useState(false);
+  const [duplicatePairs, setDuplicatePairs] = useState<DuplicatePair[]>([]);
 
   useFocusEffect(
     React.useCallback(() => {
@@ -151,8 +196,42 @@ const TransactionsListScreen: React.FC = () => {
   useEffect(() => {
     loadCategories();
     loadTags();
+    loadAccounts();
+    loadSavedSearches();
   }, []);
 
+  // Opened from a pinned search on the Dashboard
+  useEffect(() => {
+    if (route.params?.query !== undefined) {
+      setSearchQuery(route.params.query);
+    }
+  }, [route.params?.query]);
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const isSearching = parsedQuery.clauses.length > 0;
+
+  // Search the full history (local database); loaded pages cover the gap until it answers
+  const searchRequestRef = useRef(0);
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchResults(null);
+      setSearching(false);
+      return;
+    }
+
+    const requestId = ++searchRequestRef.current;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const result = await searchTransactions(searchQuery, transactions, { toDisplayAmount: convertFromUSD });
+      if (requestId !== searchRequestRef.current) return;
+      setSearchResults(result.transactions);
+      setSearchComplete(result.complete);
+      setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery, isSearching, transactions, convertFromUSD]);
+
   /**
    * Load transactions data with pagination
    */
@@ -235,6 +314,7 @@ const TransactionsListScreen: React.FC = () => {
         startDate,
         endDate,
         type: selectedTransactionType === 'all' ? undefined : selectedTransactionType,
+        accountId: selectedAccountId,
       });
 
       const result = await apiService.getUnifiedTransactionsPaginated({
@@ -243,6 +323,9 @@ const TransactionsListScreen: React.FC = () => {
         type: selectedTransactionType === 'all' ? undefined : selectedTransactionType,
         limit: 20,
         cursor: cursorToUse,
+        accountId: selectedAccountId || undefined,
+        // Transfers only make sense when looking at an account (they net to zero overall)
+        includeTransfers: !!selectedAccountId || selectedTransactionType === 'transfer',
       });
 
       logger.debug('[TransactionsListScreen] Received transactions:', {
@@ -271,12 +354,15 @@ const TransactionsListScreen: React.FC = () => {
     } finally {
       setLoadingMore(false);
     }
-  }, [selectedDateRange, customStartDate, customEndDate, selectedTransactionType]);
+  }, [selectedDateRange, customStartDate, customEndDate, selectedTransactionType, selectedAccountId]);
 
   /**
    * Load more transactions (pagination)
    */
   const loadMore = useCallback(() => {
+    // Search results already cover the full history
+    if (isSearching) return;
+
     logger.debug('[TransactionsListScreen] loadMore called:', {
       loadingMore,
       hasMore,
@@ -287,13 +373,13 @@ const TransactionsListScreen: React.FC = () => {
     if (!loadingMore && hasMore && nextCursor) {
       loadTransactions(false, nextCursor);
     }
-  }, [loadingMore, hasMore, nextCursor, loadTransactions]);
+  }, [isSearching, loadingMore, hasMore, nextCursor, loadTransactions]);
 
   /**
    * Handles pull-to-refresh - reloads transactions, categories, and tags
    */
   const handleRefresh = async (): Promise<void> => {
-    await Promise.all([loadData(false), loadCategories(), loadTags()]);
+    await Promise.all([loadData(false), loadCategories(), loadTags(), loadAccounts()]);
   };
 
   const loadCategories = async () => {
@@ -314,6 +400,48 @@ const TransactionsListScreen: React.FC = () => {
     }
   };
 
+  const loadAccounts = async () => {
+    setAccounts(await getAccounts());
+  };
+
+  const loadSavedSearches = async () => {
+    setSavedSearches(await getSavedSearches());
+  };
+
+  const handleSaveSearch = async () => {
+    try {
+      await saveSearch(searchQuery);
+      await loadSavedSearches();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess('Search Saved', 'Long-press a saved search to pin it to the Dashboard.');
+    } catch (error) {
+      showError('Error', 'Failed to save search');
+      console.error(error);
+    }
+  };
+
+  const handleSavedSearchOptions = (search: SavedSearch) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    showInfo(search.name, search.query, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: search.pinned ? 'Unpin from Dashboard' : 'Pin to Dashboard',
+        onPress: async () => {
+          await setSavedSearchPinned(search.id, !search.pinned);
+          await loadSavedSearches();
+        },
+      },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteSavedSearch(search.id);
+          await loadSavedSearches();
+        },
+      },
+    ]);
+  };
+
   // Get unique payment methods from transactions
   const availablePaymentMethods = useMemo(() => {
     const methods = new Set<PaymentMethod>();
@@ -328,7 +456,7 @@ const TransactionsListScreen: React.FC = () => {
     }));
   }, [transactions]);
 
-  // Reset pagination and reload when filters change (date range or transaction type)
+  // Reset pagination and reload when filters change (date range, transaction type or account)
   // Note: This effect only runs when filters that affect server-side queries change
   useEffect(() => {
     // Skip initial mount - loadData handles that
@@ -340,33 +468,27 @@ const TransactionsListScreen: React.FC = () => {
     // Reload transactions with new filters
     loadTransactions(true, undefined);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedDateRange, customStartDate, customEndDate, selectedTransactionType]);
+  }, [selectedDateRange, customStartDate, customEndDate, selectedTransactionType, selectedAccountId]);
 
-  // Derived list data (avoid extra state + renders).
-  const filteredTransactions = useMemo(() => {
-    let filtered = transactions;
+  /**
+   * Apply the list filters (type, account, category, payment method, tags, date range)
+   * Shared by the list and "select all", which also covers pages that aren't loaded yet
+   */
+  const applyListFilters = useCallback((list: UnifiedTransaction[]) => {
+    let filtered = list;
 
     // Transaction type filter
     if (selectedTransactionType !== 'all') {
       filtered = filtered.filter((tx) => tx.type === selectedTransactionType);
     }
 
-    // Search filter - searches description, category, payment methods, and tags
-    if (searchQuery.trim()) {
-      const query = searchQuery.trim().toLowerCase();
-      filtered = filtered.filter((tx) => {
-        if (tx.description.toLowerCase().includes(query)) return true;
-        if (tx.type === 'expense' && tx.category?.name.toLowerCase().includes(query)) return true;
-        if (tx.type === 'income' && tx.incomeSource?.name.toLowerCase().includes(query)) return true;
-        if (tx.type === 'expense' && tx.paymentMethod) {
-          const paymentMethodDisplay = PAYMENT_METHOD_DISPLAY[tx.paymentMethod];
-          if (paymentMethodDisplay?.name.toLowerCase().includes(query)) return true;
-        }
-        if (tx.type === 'expense' && tx.tags?.length) {
-          return tx.tags.some((tag) => tag.name.toLowerCase().includes(query));
-        }
-        return false;
-      });
+    // Account filter - transfers count for both of their accounts
+    if (selectedAccountId) {
+      filtered = filtered.filter((tx) =>
+        tx.type === 'transfer'
+          ? tx.fromAccount?.id === selectedAccountId || tx.toAccount?.id === selectedAccountId
+          : tx.accountId === selectedAccountId
+      );
     }
 
     // Category filter (only for expenses)
@@ -430,6 +552,36 @@ const TransactionsListScreen: React.FC = () => {
       }
     }
 
+    return filtered;
+  }, [
+    selectedTransactionType,
+    selectedAccountId,
+    selectedCategories,
+    selectedPaymentMethods,
+    selectedTags,
+    selectedDateRange,
+    customStartDate,
+    customEndDate,
+  ]);
+
+  // Derived list data (avoid extra state + renders).
+  const filteredTransactions = useMemo(() => {
+    let filtered = transactions;
+
+    // Query search - full-history results once they arrive; re-checked so an edited query
+    // narrows the previous results right away instead of waiting for the debounce
+    if (isSearching) {
+      filtered = (searchResults ?? transactions).filter((tx) =>
+        matchesSearchQuery(tx, parsedQuery, { toDisplayAmount: convertFromUSD })
+      );
+    }
+
+    if (hiddenIds.size > 0) {
+      filtered = filtered.filter((tx) => !hiddenIds.has(tx.id));
+    }
+
+    filtered = applyListFilters(filtered);
+
     // Sort (cheap compared to rendering; keep stable ordering for grouping)
     const sorted = [...filtered].sort((a, b) => {
       if (sortBy === 'date') {
@@ -443,14 +595,12 @@ const TransactionsListScreen: React.FC = () => {
     return sorted;
   }, [
     transactions,
-    selectedTransactionType,
-    searchQuery,
-    selectedCategories,
-    selectedPaymentMethods,
-    selectedTags,
-    selectedDateRange,
-    customStartDate,
-    customEndDate,
+    isSearching,
+    searchResults,
+    parsedQuery,
+    convertFromUSD,
+    hiddenIds,
+    applyListFilters,
     sortBy,
     sortOrder,
   ]);
@@ -465,17 +615,149 @@ const TransactionsListScreen: React.FC = () => {
     [filteredTransactions, sortBy, sortOrder]
   );
 
-  const handleTransactionLongPress = useCallback((transaction: UnifiedTransaction) => {
-    setSelectedTransaction(transaction);
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+  const toggleSelected = useCallback((transaction: UnifiedTransaction) => {
+    if (!isBulkEditable(transaction)) return;
+    Haptics.selectionAsync();
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(transaction.id)) next.delete(transaction.id);
+      else next.set(transaction.id, transaction);
+      return next;
+    });
   }, []);
 
+  // Long press starts selection mode with the pressed transaction selected
+  const handleTransactionLongPress = useCallback((transaction: UnifiedTransaction) => {
+    if (!isBulkEditable(transaction)) return;
+    setSelectionMode(true);
+    toggleSelected(transaction);
+  }, [toggleSelected]);
+
   const handleTransactionPress = useCallback((transaction: UnifiedTransaction) => {
+    if (selectionMode) {
+      toggleSelected(transaction);
+      return;
+    }
     navigation.navigate('TransactionDetails', { transaction });
-  }, [navigation]);
+  }, [navigation, selectionMode, toggleSelected]);
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelected(new Map());
+  };
+
+  /**
+   * Select every transaction matching the current search and filters, including pages
+   * that haven't been loaded yet (from the local database)
+   */
+  const handleSelectAll = async () => {
+    let matching = filteredTransactions;
+    if (hasMore && !isSearching && (await localDatabase.hasSynced())) {
+      try {
+        const history = await localDatabase.queryTransactions({ type: 'all', includeTransfers: false });
+        matching = applyListFilters(history).filter((tx) => !hiddenIds.has(tx.id));
+      } catch (error) {
+        logger.error('[TransactionsListScreen] Failed to load full history for select all:', error);
+      }
+    }
+
+    const editable = matching.filter(isBulkEditable);
+    // Pressing again with everything selected clears the selection
+    if (editable.length > 0 && editable.every((tx) => selected.has(tx.id))) {
+      setSelected(new Map());
+    } else {
+      setSelected(new Map(editable.map((tx) => [tx.id, tx])));
+    }
+  };
+
+  /**
+   * Send a bulk delete that is still waiting on its undo toast
+   */
+  const commitPendingDelete = async () => {
+    const pending = pendingDeleteRef.current;
+    pendingDeleteRef.current = null;
+    if (!pending) return;
+
+    try {
+      await deleteTransactions(pending);
+    } catch (error) {
+      showError('Error', 'Failed to delete transactions');
+      console.error(error);
+    } finally {
+      setHiddenIds(new Set());
+      loadData();
+    }
+  };
+
+  // Leaving the screen before the toast times out still deletes
+  useEffect(() => () => {
+    if (pendingDeleteRef.current) {
+      deleteTransactions(pendingDeleteRef.current).catch((error) =>
+        logger.error('[TransactionsListScreen] Failed to delete transactions on leave:', error)
+      );
+    }
+  }, []);
+
+  const handleBulkDelete = async () => {
+    const targets = Array.from(selected.values());
+    if (targets.length === 0) return;
+
+    await commitPendingDelete();
+    pendingDeleteRef.current = targets;
+    setHiddenIds(new Set(targets.map((tx) => tx.id)));
+    exitSelectionMode();
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setUndoToast({
+      id: Date.now(),
+      message: `Deleted ${targets.length} ${targets.length === 1 ? 'transaction' : 'transactions'}`,
+      onUndo: () => {
+        pendingDeleteRef.current = null;
+        setHiddenIds(new Set());
+      },
+    });
+  };
+
+  const handleBulkChange = async (change: BulkChange) => {
+    setBulkEditMode(null);
+    const targets = Array.from(selected.values());
+    if (targets.length === 0) return;
+
+    await commitPendingDelete();
+    setBulkWorking(true);
+    try {
+      const result = await applyBulkChange(targets, change);
+      if (result.updated === 0) {
+        showInfo('Nothing Changed', 'The selected transactions already match, or the change doesn\'t apply to them.');
+        return;
+      }
+
+      exitSelectionMode();
+      await loadData();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      const skippedNote = result.skipped > 0 ? ` (${result.skipped} skipped)` : '';
+      setUndoToast({
+        id: Date.now(),
+        message: `Updated ${result.updated} ${result.updated === 1 ? 'transaction' : 'transactions'}${skippedNote}`,
+        onUndo: async () => {
+          try {
+            await undoBulkChange(result.undo);
+            await loadData();
+          } catch (error) {
+            showError('Error', 'Failed to undo changes');
+            console.error(error);
+          }
+        },
+      });
+    } catch (error) {
+      showError('Error', 'Failed to update transactions');
+      console.error(error);
+    } finally {
+      setBulkWorking(false);
+    }
+  };
 
   const handleEditTransaction = (transaction: UnifiedTransaction) => {
-    setSelectedTransaction(null);
+    exitSelectionMode();
     if (transaction.type === 'expense') {
       const expense: Expense = {
         id: transaction.id,
@@ -491,6 +773,7 @@ const TransactionsListScreen: React.FC = () => {
         updatedAt: transaction.updatedAt || transaction.createdAt,
         originalAmount: transaction.originalAmount,
         originalCurrency: transaction.originalCurrency,
+        accountId: transaction.accountId,
       };
       openBottomSheet(expense);
     } else {
@@ -505,39 +788,75 @@ const TransactionsListScreen: React.FC = () => {
         createdAt: transaction.createdAt,
         originalAmount: transaction.originalAmount,
         originalCurrency: transaction.originalCurrency,
+        accountId: transaction.accountId,
       };
       openBottomSheet(undefined, income);
     }
   };
 
-  const handleDeleteTransaction = async (transaction: UnifiedTransaction) => {
-    setSelectedTransaction(null);
+  /**
+   * Scan recent history (last 6 months) for likely duplicate pairs
+   */
+  const handleFindDuplicates = async () => {
+    setShowDuplicatesModal(true);
+    setScanningDuplicates(true);
+    try {
+      const start = new Date();
+      start.setMonth(start.getMonth() - 6);
+      const history = await fetchAllTransactions({ startDate: start, endDate: new Date() });
+      setDuplicatePairs(await scanForDuplicates(history));
+    } catch (error) {
+      setShowDuplicatesModal(false);
+      showError('Error', 'Failed to scan for duplicates');
+      console.error(error);
+    } finally {
+      setScanningDuplicates(false);
+    }
+  };
+
+  const handleDeleteDuplicate = async (transaction: UnifiedTransaction) => {
     try {
       if (transaction.type === 'expense') {
         await apiService.deleteExpense(transaction.id);
       } else {
         await apiService.deleteIncomeTransaction(transaction.id);
       }
-      await loadData();
-      showSuccess('Deleted', 'Transaction deleted successfully');
+      // Drop every pair that involved the deleted transaction
+      setDuplicatePairs((prev) =>
+        prev.filter((pair) => pair.first.id !== transaction.id && pair.second.id !== transaction.id)
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      loadData();
     } catch (error) {
       showError('Error', 'Failed to delete transaction');
       console.error(error);
     }
   };
 
+  const handleIgnoreDuplicate = async (pair: DuplicatePair) => {
+    setDuplicatePairs((prev) => prev.filter((p) => p.id !== pair.id));
+    try {
+      await ignoreDuplicatePair(pair);
+    } catch (error) {
+      logger.error('[TransactionsListScreen] Failed to save ignored duplicate:', error);
+    }
+  };
+
   const clearFilters = () => {
     setSelectedCategories([]);
     setSelectedPaymentMethods([]);
     setSelectedTags([]);
     setSelectedTransactionType('all');
+    setSelectedAccountId(null);
     setSelectedDateRange('all');
     setCustomStartDate(null);
     setCustomEndDate(null);
     setSearchQuery('');
   };
 
-  const hasActiveFilters = selectedCategories.length > 0 || selectedPaymentMethods.length > 0 || selectedTags.length > 0 || selectedTransactionType !== 'all' || selectedDateRange !== 'all' || searchQuery.trim();
+  const selectedAccount = accounts.find((a) => a.id === selectedAccountId);
+
+  const hasActiveFilters = selectedCategories.length > 0 || selectedPaymentMethods.length > 0 || selectedTags.length > 0 || selectedTransactionType !== 'all' || !!selectedAccountId || selectedDateRange !== 'all' || searchQuery.trim();
 
   // Render functions for SectionList (keeps per-transaction virtualization)
   const renderSectionHeader = useCallback(({ section }: { section: { title: string } }) => (
@@ -552,8 +871,10 @@ const TransactionsListScreen: React.FC = () => {
       transaction={item}
       onPress={() => handleTransactionPress(item)}
       onLongPress={() => handleTransactionLongPress(item)}
+      highlightTerms={parsedQuery.highlightTerms}
+      selected={selectionMode ? selected.has(item.id) : undefined}
     />
-  ), [handleTransactionPress, handleTransactionLongPress]);
+  ), [handleTransactionPress, handleTransactionLongPress, parsedQuery, selectionMode, selected]);
 
   const keyExtractor = useCallback((item: UnifiedTransaction) => item.id, []);
 
@@ -580,36 +901,64 @@ const TransactionsListScreen: React.FC = () => {
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
-      {/* Header */}
-      <View style={[styles.header, { backgroundColor: theme.background, borderBottomColor: theme.border }]}>
-        <TouchableOpacity
-          style={styles.backButton}
-          onPress={() => navigation.goBack()}
-        >
-          <Icon name="arrow-left" size={24} color={theme.text} />
-        </TouchableOpacity>
-        <Text style={[styles.headerTitle, { color: theme.text }]}>All Transactions</Text>
-        <TouchableOpacity
-          style={styles.filterButton}
-          onPress={() => setShowFiltersModal(true)}
-        >
-          <Icon name="filter-variant" size={24} color={hasActiveFilters ? theme.primary : theme.textSecondary} />
-          {hasActiveFilters && (
-            <View style={[styles.filterBadge, { backgroundColor: theme.primary }]} />
-          )}
-        </TouchableOpacity>
-      </View>
+      {/* Header - selection mode swaps in the selection count and select all */}
+      {selectionMode ? (
+        <View style={[styles.header, { backgroundColor: theme.background, borderBottomColor: theme.border }]}>
+          <TouchableOpacity style={styles.backButton} onPress={exitSelectionMode}>
+            <Icon name="close" size={24} color={theme.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>{selected.size} selected</Text>
+          <TouchableOpacity style={styles.selectAllButton} onPress={handleSelectAll}>
+            <Text style={[styles.selectAllText, { color: theme.primary }]}>Select All</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={[styles.header, { backgroundColor: theme.background, borderBottomColor: theme.border }]}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Icon name="arrow-left" size={24} color={theme.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>All Transactions</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.filterButton}
+              onPress={handleFindDuplicates}
+            >
+              <Icon name="content-duplicate" size={22} color={theme.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.filterButton}
+              onPress={() => setShowFiltersModal(true)}
+            >
+              <Icon name="filter-variant" size={24} color={hasActiveFilters ? theme.primary : theme.textSecondary} />
+              {hasActiveFilters && (
+                <View style={[styles.filterBadge, { backgroundColor: theme.primary }]} />
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
 
       {/* Search Bar */}
       <View style={[styles.searchContainer, { backgroundColor: theme.card, borderColor: theme.border }]}>
         <Icon name="magnify" size={20} color={theme.textSecondary} />
         <TextInput
           style={[styles.searchInput, { color: theme.text }]}
-          placeholder="Search transactions..."
+          placeholder="Search, e.g. coffee amount:>5 tag:work"
           placeholderTextColor={theme.textTertiary}
           value={searchQuery}
           onChangeText={setSearchQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
         />
+        {searching && <ActivityIndicator size="small" color={theme.textSecondary} />}
+        {isSearching && !savedSearches.some((search) => search.query === searchQuery.trim()) && (
+          <TouchableOpacity onPress={handleSaveSearch}>
+            <Icon name="bookmark-plus-outline" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
         {searchQuery.length > 0 && (
           <TouchableOpacity onPress={() => setSearchQuery('')}>
             <Icon name="close-circle" size={18} color={theme.textSecondary} />
@@ -617,8 +966,33 @@ const TransactionsListScreen: React.FC = () => {
         )}
       </View>
 
+      {/* Saved Searches - tap to run, long-press to pin or delete */}
+      {!isSearching && savedSearches.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filtersContainer}
+          contentContainerStyle={styles.filtersContent}
+        >
+          {savedSearches.map((search) => (
+            <TouchableOpacity
+              key={search.id}
+              style={[styles.filterChip, { backgroundColor: theme.card, borderColor: theme.border }]}
+              onPress={() => setSearchQuery(search.query)}
+              onLongPress={() => handleSavedSearchOptions(search)}
+              delayLongPress={400}
+            >
+              <Icon name={search.pinned ? 'pin' : 'bookmark-outline'} size={14} color={theme.textSecondary} />
+              <Text style={[styles.filterChipText, { color: theme.text }]} numberOfLines={1}>
+                {search.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Filter Chips */}
-      {(selectedCategories.length > 0 || selectedPaymentMethods.length > 0 || selectedTags.length > 0 || selectedDateRange !== 'all') && (
+      {(selectedCategories.length > 0 || selectedPaymentMethods.length > 0 || selectedTags.length > 0 || selectedDateRange !== 'all' || !!selectedAccount) && (
         <ScrollView
           horizontal
           showsHorizontalScrollIndicator={false}
@@ -656,6 +1030,31 @@ const TransactionsListScreen: React.FC = () => {
             </TouchableOpacity>
           )}
 
+          {/* Account Filter */}
+          {selectedAccount && (
+            <TouchableOpacity
+              style={[
+                styles.filterChip,
+                {
+                  backgroundColor: theme.primary + '20',
+                  borderColor: theme.primary,
+                },
+              ]}
+              onPress={() => setShowFiltersModal(true)}
+            >
+              <Icon name={getAccountIcon(selectedAccount.type) as any} size={14} color={theme.primary} />
+              <Text style={[styles.filterChipText, { color: theme.primary }]}>
+                {selectedAccount.name}
+              </Text>
+              <TouchableOpacity
+                onPress={() => setSelectedAccountId(null)}
+                style={styles.chipCloseButton}
+              >
+                <Icon name="close" size={12} color={theme.primary} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          )}
+
           {/* Category Filters */}
           {selectedCategories.map((catId) => {
             const cat = categories.find(c => c.id === catId);
@@ -854,6 +1253,7 @@ const TransactionsListScreen: React.FC = () => {
         <View style={styles.resultsContainer}>
           <Text style={[styles.resultsText, { color: theme.textSecondary }]}>
             {filteredTransactions.length} {filteredTransactions.length === 1 ? 'transaction' : 'transactions'} found
+            {isSearching && !searching && !searchComplete ? ' in loaded transactions' : ''}
           </Text>
         </View>
       )}
@@ -897,27 +1297,78 @@ const TransactionsListScreen: React.FC = () => {
         />
       )}
 
-      {/* Expense Options Sheet */}
-      {selectedTransaction && selectedTransaction.type === 'expense' && (
-            <ExpenseOptionsSheet
-          expense={{
-            id: selectedTransaction.id,
-            amount: selectedTransaction.amount,
-            categoryId: selectedTransaction.category!.id,
-            category: selectedTransaction.category!,
-            description: selectedTransaction.description,
-            date: selectedTransaction.date,
-            paymentMethod: selectedTransaction.paymentMethod,
-            notes: selectedTransaction.notes,
-            tags: selectedTransaction.tags,
-            createdAt: selectedTransaction.createdAt,
-            updatedAt: selectedTransaction.updatedAt || selectedTransaction.createdAt,
-          }}
-          onEdit={() => handleEditTransaction(selectedTransaction)}
-          onDelete={() => handleDeleteTransaction(selectedTransaction)}
-          onClose={() => setSelectedTransaction(null)}
-            />
+      {/* Bulk Actions */}
+      {selectionMode && (
+        <View style={[styles.bulkBar, { backgroundColor: theme.card, borderTopColor: theme.border }]}>
+          {bulkWorking ? (
+            <ActivityIndicator size="small" color={theme.primary} />
+          ) : (
+            <>
+              {selected.size === 1 && (
+                <TouchableOpacity
+                  style={styles.bulkAction}
+                  onPress={() => handleEditTransaction(Array.from(selected.values())[0])}
+                >
+                  <Icon name="pencil-outline" size={22} color={theme.text} />
+                  <Text style={[styles.bulkActionText, { color: theme.textSecondary }]}>Edit</Text>
+                </TouchableOpacity>
+              )}
+              {([
+                { mode: 'category', icon: 'shape-outline', label: 'Category' },
+                { mode: 'tags', icon: 'tag-multiple-outline', label: 'Tags' },
+                { mode: 'paymentMethod', icon: 'credit-card-outline', label: 'Payment' },
+                { mode: 'shiftDate', icon: 'calendar-arrow-right', label: 'Date' },
+              ] as const).map((action) => (
+                <TouchableOpacity
+                  key={action.mode}
+                  style={[styles.bulkAction, { opacity: selected.size > 0 ? 1 : 0.4 }]}
+                  onPress={() => setBulkEditMode(action.mode)}
+                  disabled={selected.size === 0}
+                >
+                  <Icon name={action.icon} size={22} color={theme.text} />
+                  <Text style={[styles.bulkActionText, { color: theme.textSecondary }]}>{action.label}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.bulkAction, { opacity: selected.size > 0 ? 1 : 0.4 }]}
+                onPress={handleBulkDelete}
+                disabled={selected.size === 0}
+              >
+                <Icon name="delete-outline" size={22} color={theme.error} />
+                <Text style={[styles.bulkActionText, { color: theme.error }]}>Delete</Text>
+              </TouchableOpacity>
+            </>
           )}
+        </View>
+      )}
+
+      <BulkEditModal
+        mode={bulkEditMode}
+        selectedCount={selected.size}
+        categories={categories}
+        tags={tags}
+        paymentMethods={(Object.keys(PAYMENT_METHOD_DISPLAY) as PaymentMethod[]).map((id) => ({
+          id,
+          ...PAYMENT_METHOD_DISPLAY[id],
+        }))}
+        onApply={handleBulkChange}
+        onClose={() => setBulkEditMode(null)}
+      />
+
+      {undoToast && (
+        <Toast
+          key={undoToast.id}
+          visible
+          message={undoToast.message}
+          type="success"
+          duration={5000}
+          action={{ label: 'Undo', onPress: undoToast.onUndo }}
+          onDismiss={() => {
+            setUndoToast(null);
+            commitPendingDelete();
+          }}
+        />
+      )}
 
           {/* Filters Modal */}
           <Modal
@@ -939,7 +1390,10 @@ const TransactionsListScreen: React.FC = () => {
               <View style={[styles.modalSection, { borderBottomColor: theme.border }]}>
                 <Text style={[styles.modalSectionTitle, { color: theme.text }]}>Transaction Type</Text>
                 <View style={styles.dateRangeGrid}>
-                  {(['all', 'expense', 'income'] as const).map((type) => (
+                  {(accounts.length > 0
+                    ? (['all', 'expense', 'income', 'transfer'] as const)
+                    : (['all', 'expense', 'income'] as const)
+                  ).map((type) => (
                     <TouchableOpacity
                       key={type}
                       style={[
@@ -960,13 +1414,50 @@ const TransactionsListScreen: React.FC = () => {
                           },
                         ]}
                       >
-                        {type === 'all' ? 'All' : type === 'expense' ? 'Expenses' : 'Income'}
+                        {type === 'all' ? 'All' : type === 'expense' ? 'Expenses' : type === 'income' ? 'Income' : 'Transfers'}
                       </Text>
                     </TouchableOpacity>
                   ))}
                 </View>
               </View>
 
+              {/* Account Filter */}
+              {accounts.length > 0 && (
+                <View style={[styles.modalSection, { borderBottomColor: theme.border }]}>
+                  <Text style={[styles.modalSectionTitle, { color: theme.text }]}>Account</Text>
+                  <View style={styles.dateRangeGrid}>
+                    {[null, ...accounts.filter((a) => !a.isArchived)].map((account) => {
+                      const isSelected = selectedAccountId === (account?.id ?? null);
+                      return (
+                        <TouchableOpacity
+                          key={account?.id ?? 'all'}
+                          style={[
+                            styles.dateRangeButton,
+                            {
+                              backgroundColor: isSelected ? theme.primary + '20' : theme.background,
+                              borderColor: isSelected ? theme.primary : theme.border,
+                            },
+                          ]}
+                          onPress={() => setSelectedAccountId(account?.id ?? null)}
+                        >
+                          <Text
+                            style={[
+                              styles.dateRangeButtonText,
+                              {
+                                color: isSelected ? theme.primary : theme.textSecondary,
+                                fontWeight: isSelected ? '600' : '400',
+                              },
+                            ]}
+                          >
+                            {account ? account.name : 'All Accounts'}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
                   {/* Date Range Filter */}
                   <View style={[styles.modalSection, { borderBottomColor: theme.border }]}>
                     <Text style={[styles.modalSectionTitle, { color: theme.text }]}>Time Period</Text>
@@ -1144,6 +1635,14 @@ const TransactionsListScreen: React.FC = () => {
               </View>
             </View>
           </Modal>
+          <DuplicateScanModal
+            visible={showDuplicatesModal}
+            loading={scanningDuplicates}
+            pairs={duplicatePairs}
+            onDelete={(transaction) => handleDeleteDuplicate(transaction)}
+            onIgnore={handleIgnoreDuplicate}
+            onClose={() => setShowDuplicatesModal(false)}
+          />
       {AlertComponent}
         </SafeAreaView>
   );
@@ -1173,6 +1672,35 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  selectAllButton: {
+    height: 40,
+    justifyContent: 'center',
+  },
+  selectAllText: {
+    ...typography.labelLarge,
+    fontWeight: '600',
+  },
+  bulkBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+    paddingVertical: spacing.sm,
+    paddingBottom: Platform.OS === 'ios' ? spacing.lg : spacing.sm,
+    borderTopWidth: 1,
+    minHeight: 64,
+  },
+  bulkAction: {
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: spacing.xs,
+  },
+  bulkActionText: {
+    ...typography.caption,
+    fontSize: 11,
+  },
   filterButton: {
     width: 40,
     height: 40,
@@ -26,12 +26,16 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { PullToRefreshScrollView } from '../components';
+import { MemberChips, PullToRefreshScrollView } from '../components';
 import { useCurrency } from '../contexts/CurrencyContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useScrollToTopOnTabPress } from '../hooks/useScrollToTopOnTabPress';
 import { RootStackParamList } from '../navigation/types';
 import { apiService } from '../services/api';
+import { getHousehold, getMemberInfos } from '../services/householdService';
+import { localDatabase, LocalValuation } from '../services/localDatabase';
+import { useAppSelector } from '../store';
+import { Household } from '../types';
 import { borderRadius, elevation, spacing, typography } from '../theme';
 
 const { width } = Dimensions.get('window');
@@ -47,6 +51,7 @@ interface ForecastData {
   predictedAmount: number;
   confidence: 'high' | 'medium' | 'low';
   factors: string[];
+  scheduledAmount?: number;
   rateLimit?: {
     remaining: number;
     resetAt: number;
@@ -68,6 +73,15 @@ const TrendsScreen: React.FC = () => {
   const [forecast, setForecast] = useState<ForecastData | null>(null);
   const [timeRange, setTimeRange] = useState<'week' | 'month'>('month');
   const [refreshing, setRefreshing] = useState(false);
+  // Household member whose spending is shown (null = everyone)
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [memberFilter, setMemberFilter] = useState<string | null>(null);
+  const memberFilterRef = useRef<string | null>(null);
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+  // Local trends are valued at each expense's own exchange rate; a ref because loadData runs from the focus callback
+  const { currencyCode, exchangeRate } = useCurrency();
+  const valuationRef = useRef<LocalValuation | undefined>(undefined);
+  valuationRef.current = exchangeRate ? { currency: currencyCode, currentRate: exchangeRate } : undefined;
 
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -93,29 +107,59 @@ const TrendsScreen: React.FC = () => {
     }
   }, [trendsData]);
 
+  /**
+   * Trends from the local database - shown instantly and kept when the server can't be reached
+   */
+  const loadLocalTrends = async (): Promise<TrendsData | null> => {
+    try {
+      if (!(await localDatabase.hasSynced())) return null;
+      return await localDatabase.getSpendingTrends(memberFilterRef.current || undefined, valuationRef.current);
+    } catch (error) {
+      console.warn('Error loading local trends:', error);
+      return null;
+    }
+  };
+
   const loadData = async (forceRefresh: boolean = false) => {
     try {
       if (forceRefresh) {
         setRefreshing(true);
-      } else {
-        if (!trendsData) setLoading(true);
+      } else if (!trendsData) {
+        const localTrends = await loadLocalTrends();
+        if (localTrends) {
+          setTrendsData(localTrends);
+          setLoading(false);
+        } else {
+          setLoading(true);
+        }
       }
 
-      const [trends, forecastData] = await Promise.all([
-        apiService.getSpendingTrends(forceRefresh),
+      const [trends, forecastData, householdData] = await Promise.all([
+        apiService.getSpendingTrends(forceRefresh, memberFilterRef.current || undefined),
         apiService.getSpendingForecast(forceRefresh),
+        getHousehold(),
       ]);
 
       setTrendsData(trends);
       setForecast(forecastData);
+      setHousehold(householdData);
     } catch (error) {
       console.error('Error loading trends data:', error);
+      // Offline: fall back to trends computed from the local database
+      const localTrends = await loadLocalTrends();
+      if (localTrends) setTrendsData(localTrends);
     } finally {
       setLoading(false);
       setRefreshing(false);
     }
   };
 
+  const handleMemberFilterChange = (memberId: string | null) => {
+    memberFilterRef.current = memberId;
+    setMemberFilter(memberId);
+    loadData();
+  };
+
   const getFilteredSpending = () => {
     if (!trendsData) return [];
     const now = new Date();
@@ -167,6 +211,19 @@ const TrendsScreen: React.FC = () => {
       >
         <Animated.View style={{ opacity: fadeAnim }}>
 
+          {/* Household member filter */}
+          {household && household.members.length > 1 && (
+            <View style={styles.memberFilter}>
+              <MemberChips
+                members={getMemberInfos(household)}
+                selectedMemberId={memberFilter}
+                onSelect={handleMemberFilterChange}
+                currentUserId={currentUserId}
+                allLabel="Everyone"
+              />
+            </View>
+          )}
+
           {/* Forecast */}
           {forecast && <ForecastCard data={forecast} />}
 
@@ -226,6 +283,9 @@ const styles = StyleSheet.create({
   },
   scrollContent: {
     padding: spacing.md,
+  },
+  memberFilter: {
+    marginBottom: spacing.md,
   }
 });
 
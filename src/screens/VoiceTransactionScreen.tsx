@@ -31,11 +31,14 @@ import { useCurrency } from '../contexts/CurrencyContext';
 import { useSubscription } from '../hooks/useSubscription';
 import { logger } from '../utils/logger';
 import { useVoiceRecording } from '../hooks/useVoiceRecording';
+import { useDuplicateReview } from '../hooks/useDuplicateReview';
 import { useBottomSheetActions, ParsedTransactionUpdate } from '../contexts/BottomSheetContext';
 import { UpgradePrompt, DatePickerInput, ToggleSelector } from '../components';
 import { parseTransactionInput } from '../services/aiTransactionService';
 import { transcribeAudio } from '../services/voiceTranscriptionService';
 import { apiService } from '../services/api';
+import { getCategoryRules, evaluateRules } from '../services/categorizationService';
+import { mergeIntoExisting } from '../services/duplicateDetectionService';
 import { RootStackParamList } from '../navigation/types';
 import { Expense, IncomeTransaction } from '../types';
 import { typography, spacing, borderRadius, elevation } from '../theme';
@@ -46,7 +49,7 @@ type InputMode = 'voice' | 'text';
 
 const VoiceTransactionScreen: React.FC = () => {
   const { theme } = useTheme();
-  const { formatCurrency, getCurrencySymbol, currencyCode, convertToUSD } = useCurrency();
+  const { formatCurrency, getCurrencySymbol, currencyCode, convertToUSD, convertToUSDOnDate, loadRatesForDates } = useCurrency();
   const navigation = useNavigation<NavigationProp>();
   const { requiresUpgrade, trackUsage } = useSubscription();
   const { openBottomSheet, setOnParsedTransactionUpdate } = useBottomSheetActions();
@@ -60,6 +63,7 @@ const VoiceTransactionScreen: React.FC = () => {
     requestPermissions,
   } = useVoiceRecording();
   const { showError, showSuccess, showInfo, AlertComponent } = useAlert();
+  const { reviewDuplicates, DuplicateReviewComponent } = useDuplicateReview();
 
   const [inputMode, setInputMode] = useState<InputMode>('voice');
   const [input, setInput] = useState('');
@@ -74,6 +78,8 @@ const VoiceTransactionScreen: React.FC = () => {
       categoryId?: string;
       incomeSourceId?: string;
       date?: string;
+      tagIds?: string[];
+      notes?: string;
       selected: boolean;
     }>
   >([]);
@@ -271,10 +277,23 @@ const VoiceTransactionScreen: React.FC = () => {
         return;
       }
 
+      // User-defined category rules take precedence over the AI's category guess
+      const rules = await getCategoryRules();
+      const categorized = transactions.map(tx => {
+        if (tx.type !== 'expense' || rules.length === 0) return tx;
+        const match = evaluateRules({ description: tx.description, amount: convertToUSD(tx.amount) }, rules);
+        return {
+          ...tx,
+          categoryId: match.categoryId || tx.categoryId,
+          tagIds: match.tagIds.length > 0 ? match.tagIds : undefined,
+          notes: match.notes,
+        };
+      });
+
       // Add new transactions to existing preview
       setParsedTransactions(prev => [
         ...prev,
-        ...transactions.map(tx => ({ ...tx, selected: true }))
+        ...categorized.map(tx => ({ ...tx, selected: true }))
       ]);
 
       // Track voice entry usage for free tier
@@ -309,10 +328,29 @@ const VoiceTransactionScreen: React.FC = () => {
     setIsProcessing(true);
 
     try {
-      const promises = selectedTransactions.map(async (tx) => {
+      const resolutions = await reviewDuplicates(
+        selectedTransactions.map(tx => ({
+          type: tx.type,
+          amount: convertToUSD(tx.amount),
+          date: tx.date ? new Date(tx.date) : transactionDate,
+          description: tx.description,
+        }))
+      );
+      if (!resolutions) return;
+
+      // Backdated transactions are converted at the rate of their own date
+      await loadRatesForDates(selectedTransactions.map(tx => (tx.date ? new Date(tx.date) : transactionDate)));
+
+      const promises = selectedTransactions.map(async (tx, index) => {
+        const resolution = resolutions[index];
+        if (resolution.action === 'merge' && resolution.existing) {
+          return mergeIntoExisting(resolution.existing, { notes: tx.notes, tags: tx.tagIds });
+        }
+        if (resolution.action !== 'keep') return;
+
         const originalAmount = tx.amount;
-        const amountInUSD = convertToUSD(originalAmount);
         const txDate = tx.date ? new Date(tx.date) : transactionDate;
+        const amountInUSD = convertToUSDOnDate(originalAmount, txDate);
         
         if (tx.type === 'expense') {
         return apiService.addExpense({
@@ -320,6 +358,8 @@ const VoiceTransactionScreen: React.FC = () => {
           description: tx.description,
             categoryId: tx.categoryId!,
             date: txDate,
+            tags: tx.tagIds,
+            notes: tx.notes,
           originalAmount: originalAmount,
           originalCurrency: currencyCode,
         });
@@ -340,9 +380,12 @@ const VoiceTransactionScreen: React.FC = () => {
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
+      const addedCount = resolutions.filter(r => r.action === 'keep').length;
+      const skipped = selectedTransactions.length - addedCount;
       showSuccess(
         'Success!',
-        `Added ${selectedTransactions.length} transaction${selectedTransactions.length > 1 ? 's' : ''} successfully! 🎉`,
+        `Added ${addedCount} transaction${addedCount === 1 ? '' : 's'} successfully! 🎉` +
+          (skipped > 0 ? `\n${skipped} duplicate${skipped === 1 ? '' : 's'} skipped or merged.` : ''),
         [
           {
             text: 'OK',
@@ -854,6 +897,7 @@ const VoiceTransactionScreen: React.FC = () => {
         message="You've used all 3 free voice entries this month. Upgrade to Premium to log transactions by voice anytime!"
       />
       {AlertComponent}
+      {DuplicateReviewComponent}
     </SafeAreaView>
   );
 };
@@ -0,0 +1,156 @@
+/**
+ * Account Service
+ * Purpose: Manages the user's accounts (checking, savings, credit card, cash) and transfers between them
+ * Features: Account CRUD, transfers, per-account balance effects, mapping Wallet CSV accounts to Finly accounts
+ * Uses backend API for persistence; balances are kept by the server in USD
+ */
+
+import { Account, AccountType, Transfer, UnifiedTransaction } from '../types';
+import { apiService } from './api';
+import { getWalletCSVAccounts } from './csvImportService';
+
+type AccountInput = Omit<Account, 'id' | 'balance' | 'createdAt' | 'updatedAt'>;
+type TransferInput = Parameters<typeof apiService.createTransfer>[0];
+
+export const ACCOUNT_TYPES: Array<{ value: AccountType; label: string; icon: string }> = [
+  { value: 'CHECKING', label: 'Checking', icon: 'bank' },
+  { value: 'SAVINGS', label: 'Savings', icon: 'piggy-bank' },
+  { value: 'CREDIT_CARD', label: 'Credit Card', icon: 'credit-card' },
+  { value: 'CASH', label: 'Cash', icon: 'cash' },
+];
+
+export const getAccountIcon = (type: AccountType): string =>
+  ACCOUNT_TYPES.find((t) => t.value === type)?.icon || 'wallet';
+
+export const getAccountTypeLabel = (type: AccountType): string =>
+  ACCOUNT_TYPES.find((t) => t.value === type)?.label || 'Account';
+
+/**
+ * Get all accounts for the current user
+ */
+export const getAccounts = async (): Promise<Account[]> => {
+  try {
+    return await apiService.getAccounts();
+  } catch (error) {
+    console.error('Error loading accounts:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a new account
+ */
+export const createAccount = async (account: AccountInput): Promise<Account> => {
+  try {
+    return await apiService.createAccount(account);
+  } catch (error) {
+    console.error('Error creating account:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing account
+ */
+export const updateAccount = async (accountId: string, updates: Partial<AccountInput>): Promise<Account> => {
+  try {
+    return await apiService.updateAccount(accountId, updates);
+  } catch (error) {
+    console.error('Error updating account:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete an account
+ */
+export const deleteAccount = async (accountId: string): Promise<void> => {
+  try {
+    await apiService.deleteAccount(accountId);
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move money between two accounts (not counted as income or expense)
+ */
+export const createTransfer = async (transfer: TransferInput): Promise<Transfer> => {
+  if (transfer.fromAccountId === transfer.toAccountId) {
+    throw new Error('Choose two different accounts');
+  }
+  try {
+    return await apiService.createTransfer(transfer);
+  } catch (error) {
+    console.error('Error creating transfer:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a transfer
+ */
+export const deleteTransfer = async (transferId: string): Promise<void> => {
+  try {
+    await apiService.deleteTransfer(transferId);
+  } catch (error) {
+    console.error('Error deleting transfer:', error);
+    throw error;
+  }
+};
+
+/**
+ * Account preselected for new transactions: the default one, else the first open account
+ */
+export const getDefaultAccount = (accounts: Account[]): Account | undefined => {
+  const open = accounts.filter((a) => !a.isArchived);
+  return open.find((a) => a.isDefault) || open[0];
+};
+
+/**
+ * Signed change a transaction makes to one account's balance (USD)
+ * Transfers add to the receiving account and subtract from the sending one.
+ */
+export const getAccountBalanceEffect = (transaction: UnifiedTransaction, accountId: string): number => {
+  if (transaction.type === 'transfer') {
+    if (transaction.toAccount?.id === accountId) return transaction.amount;
+    if (transaction.fromAccount?.id === accountId) return -transaction.amount;
+    return 0;
+  }
+  if (transaction.accountId !== accountId) return 0;
+  return transaction.type === 'income' ? transaction.amount : -transaction.amount;
+};
+
+/**
+ * Map each value of a Wallet CSV's `account` column to a Finly account id
+ * Accounts are matched by name (case-insensitive); missing ones are created as checking accounts.
+ */
+export const resolveWalletCSVAccounts = async (
+  csvContent: string,
+  defaultCurrency: string
+): Promise<Record<string, string>> => {
+  const csvAccounts = getWalletCSVAccounts(csvContent);
+  if (csvAccounts.length === 0) return {};
+
+  const existing = await apiService.getAccounts();
+  const accountIds: Record<string, string> = {};
+
+  for (const { name, currency } of csvAccounts) {
+    const match = existing.find((a) => a.name.trim().toLowerCase() === name.toLowerCase());
+    if (match) {
+      accountIds[name] = match.id;
+      continue;
+    }
+    const created = await createAccount({
+      name,
+      type: 'CHECKING',
+      currency: currency || defaultCurrency,
+      openingBalance: 0,
+      isDefault: existing.length === 0 && Object.keys(accountIds).length === 0,
+    });
+    accountIds[name] = created.id;
+  }
+
+  return accountIds;
+};
@@ -0,0 +1,341 @@
+/**
+ * Finly AI Action Service
+ * Purpose: Apply the changes the assistant proposes once the user confirms them
+ * Features: Validation of proposals from the server, execution through the existing services
+ * (expenses, categories, rules, tags), undo and a local audit log of every applied action
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api';
+import { saveCategoryRule, deleteCategoryRule } from './categorizationService';
+import { createTag, deleteTag } from './tagsService';
+import { localDatabase } from './localDatabase';
+import { isSplitTransaction } from './splitService';
+import { loadRates, convertOnDate } from './fxRateService';
+import {
+  AIActionAuditEntry,
+  AIActionProposal,
+  AIActionType,
+  AIActionUndo,
+  Category,
+  ExpenseSplit,
+  PaymentMethod,
+  RuleMatchMode,
+} from '../types';
+import logger from '../utils/logger';
+
+const AUDIT_LOG_KEY = '@finly_ai_action_log';
+const MAX_AUDIT_ENTRIES = 200;
+
+const ACTION_TYPES: AIActionType[] = ['createExpense', 'recategorize', 'setBudget', 'createCategoryRule', 'createTag'];
+const PAYMENT_METHODS: PaymentMethod[] = [
+  'CREDIT_CARD',
+  'DEBIT_CARD',
+  'CASH',
+  'CHECK',
+  'BANK_TRANSFER',
+  'DIGITAL_WALLET',
+  'OTHER',
+];
+const MATCH_MODES: RuleMatchMode[] = ['contains', 'exact', 'starts_with', 'regex'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface AIActionContext {
+  categories: Category[];
+  currencyCode: string;
+  convertToUSD: (amount: number) => number;
+  formatCurrency: (amountUSD: number) => string;
+  threadId?: string;
+}
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value > 0;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+// A real calendar day in YYYY-MM-DD form (rejects 2024-02-30)
+const isDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/**
+ * Keep only well-formed proposals from an AI response; anything else is dropped silently
+ */
+export const parseAIActions = (raw: unknown): AIActionProposal[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item: unknown, index): AIActionProposal[] => {
+    if (!isRecord(item) || !isOneOf(ACTION_TYPES, item.type)) return [];
+    const id = isNonEmptyString(item.id) ? item.id : `action_${Date.now()}_${index}`;
+
+    switch (item.type) {
+      case 'createExpense':
+        if (!isPositiveNumber(item.amount) || !isNonEmptyString(item.description) || !isNonEmptyString(item.categoryId)) {
+          return [];
+        }
+        // A date or payment method the app can't read would create a wrong expense
+        if (item.date !== undefined && item.date !== null && !isDateString(item.date)) return [];
+        if (item.paymentMethod !== undefined && item.paymentMethod !== null && !isOneOf(PAYMENT_METHODS, item.paymentMethod)) {
+          return [];
+        }
+        return [{
+          id,
+          type: 'createExpense',
+          amount: item.amount,
+          description: item.description.trim(),
+          categoryId: item.categoryId,
+          date: isDateString(item.date) ? item.date : undefined,
+          paymentMethod: isOneOf(PAYMENT_METHODS, item.paymentMethod) ? item.paymentMethod : undefined,
+          notes: isNonEmptyString(item.notes) ? item.notes : undefined,
+        }];
+      case 'recategorize':
+        if (!isNonEmptyString(item.transactionId) || !isNonEmptyString(item.categoryId)) return [];
+        return [{
+          id,
+          type: 'recategorize',
+          transactionId: item.transactionId,
+          categoryId: item.categoryId,
+          description: isNonEmptyString(item.description) ? item.description : undefined,
+        }];
+      case 'setBudget':
+        if (!isNonEmptyString(item.categoryId) || typeof item.budgetLimit !== 'number' || !isFinite(item.budgetLimit) || item.budgetLimit < 0) {
+          return [];
+        }
+        return [{ id, type: 'setBudget', categoryId: item.categoryId, budgetLimit: item.budgetLimit }];
+      case 'createCategoryRule': {
+        if (!isNonEmptyString(item.merchantPattern)) return [];
+        const tagIds = Array.isArray(item.tagIds) ? item.tagIds.filter(isNonEmptyString) : [];
+        if (!isNonEmptyString(item.categoryId) && tagIds.length === 0) return [];
+        return [{
+          id,
+          type: 'createCategoryRule',
+          merchantPattern: item.merchantPattern.trim(),
+          matchMode: isOneOf(MATCH_MODES, item.matchMode) ? item.matchMode : undefined,
+          categoryId: isNonEmptyString(item.categoryId) ? item.categoryId : undefined,
+          tagIds: tagIds.length > 0 ? tagIds : undefined,
+        }];
+      }
+      case 'createTag':
+        if (!isNonEmptyString(item.name)) return [];
+        return [{ id, type: 'createTag', name: item.name.trim(), color: isNonEmptyString(item.color) ? item.color : undefined }];
+    }
+  });
+};
+
+const categoryName = (categoryId: string | undefined, categories: Category[]): string =>
+  categories.find((c) => c.id === categoryId)?.name || 'Unknown category';
+
+/**
+ * One-line, human readable description of a proposal (card text and audit summary)
+ */
+export const describeAIAction = (action: AIActionProposal, context: AIActionContext): string => {
+  const amount = (value: number) => context.formatCurrency(context.convertToUSD(value));
+  const category = (id?: string) => categoryName(id, context.categories);
+
+  switch (action.type) {
+    case 'createExpense':
+      return `Add ${amount(action.amount)} "${action.description}" to ${category(action.categoryId)}${action.date ? ` on ${action.date}` : ''}`;
+    case 'recategorize':
+      return `Move ${action.description ? `"${action.description}"` : 'this transaction'} to ${category(action.categoryId)}`;
+    case 'setBudget':
+      return action.budgetLimit > 0
+        ? `Set the ${category(action.categoryId)} budget to ${amount(action.budgetLimit)}`
+        : `Remove the ${category(action.categoryId)} budget`;
+    case 'createCategoryRule':
+      return `Always categorize "${action.merchantPattern}" as ${action.categoryId ? category(action.categoryId) : 'tagged'}`;
+    case 'createTag':
+      return `Create the tag "${action.name}"`;
+  }
+};
+
+/**
+ * Current category and splits of an expense, from the local copy or the server
+ * Throws when neither has it, so a change is never applied without a way to undo it
+ */
+const getExpenseForUndo = async (
+  transactionId: string
+): Promise<{ categoryId: string | null; splits?: ExpenseSplit[] }> => {
+  const local = await localDatabase.getTransaction(transactionId).catch(() => null);
+  if (local) {
+    if (local.type !== 'expense') throw new Error('Only expenses can be moved to another category');
+    return { categoryId: local.category?.id ?? null, splits: local.splits };
+  }
+
+  try {
+    const expense = await apiService.getExpense(transactionId);
+    return { categoryId: expense.category?.id ?? expense.categoryId ?? null, splits: expense.splits };
+  } catch (error) {
+    logger.warn('[AIActions] Could not load the expense to recategorize:', error);
+    throw new Error("This transaction couldn't be found, so its category wasn't changed");
+  }
+};
+
+/**
+ * Apply a proposal and return what's needed to reverse it
+ */
+const runAction = async (action: AIActionProposal, context: AIActionContext): Promise<AIActionUndo | undefined> => {
+  switch (action.type) {
+    case 'createExpense': {
+      const date = action.date ? new Date(`${action.date}T12:00:00`) : new Date();
+      // A backdated expense is converted at that day's rate
+      await loadRates(context.currencyCode, [date]);
+      const expense = await apiService.addExpense({
+        amount: convertOnDate(action.amount, context.currencyCode, 'USD', date) ?? context.convertToUSD(action.amount),
+        description: action.description,
+        categoryId: action.categoryId,
+        date,
+        paymentMethod: action.paymentMethod,
+        notes: action.notes,
+        originalAmount: action.amount,
+        originalCurrency: context.currencyCode,
+      });
+      return { type: 'deleteExpense', expenseId: expense.id };
+    }
+    case 'recategorize': {
+      // The current category is needed for undo, so the change is refused when it can't be read
+      const transaction = await getExpenseForUndo(action.transactionId);
+      // A split expense's categories live on its splits
+      if (isSplitTransaction(transaction)) {
+        throw new Error('This expense is split across categories - edit its splits instead');
+      }
+      await apiService.updateExpense(action.transactionId, { categoryId: action.categoryId });
+      return { type: 'restoreCategory', expenseId: action.transactionId, categoryId: transaction.categoryId };
+    }
+    case 'setBudget': {
+      const category = context.categories.find((c) => c.id === action.categoryId);
+      if (!category) throw new Error('Category not found');
+      await apiService.updateCategory(action.categoryId, {
+        budgetLimit: action.budgetLimit > 0 ? context.convertToUSD(action.budgetLimit) : null,
+        originalAmount: action.budgetLimit > 0 ? action.budgetLimit : null,
+        originalCurrency: action.budgetLimit > 0 ? context.currencyCode : null,
+      });
+      return {
+        type: 'restoreBudget',
+        categoryId: category.id,
+        budgetLimit: category.budgetLimit ?? null,
+        originalAmount: category.originalAmount ?? null,
+        originalCurrency: category.originalCurrency ?? null,
+      };
+    }
+    case 'createCategoryRule': {
+      const rule = await saveCategoryRule({
+        merchantPattern: action.merchantPattern,
+        matchMode: action.matchMode,
+        categoryId: action.categoryId,
+        tagIds: action.tagIds,
+        isActive: true,
+      });
+      return { type: 'deleteCategoryRule', ruleId: rule.id };
+    }
+    case 'createTag': {
+      const tag = await createTag(action.name, action.color);
+      return { type: 'deleteTag', tagId: tag.id };
+    }
+  }
+};
+
+export const getAIActionLog = async (): Promise<AIActionAuditEntry[]> => {
+  try {
+    const data = await AsyncStorage.getItem(AUDIT_LOG_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    logger.error('[AIActions] Error loading audit log:', error);
+    return [];
+  }
+};
+
+/**
+ * Add or replace an audit entry, newest first
+ */
+const saveAuditEntry = async (entry: AIActionAuditEntry): Promise<void> => {
+  try {
+    const log = await getAIActionLog();
+    const next = [entry, ...log.filter((e) => e.id !== entry.id)].slice(0, MAX_AUDIT_ENTRIES);
+    await AsyncStorage.setItem(AUDIT_LOG_KEY, JSON.stringify(next));
+  } catch (error) {
+    logger.error('[AIActions] Error saving audit entry:', error);
+  }
+};
+
+/**
+ * Apply a confirmed proposal and record it in the audit log
+ */
+export const executeAIAction = async (
+  action: AIActionProposal,
+  context: AIActionContext
+): Promise<AIActionAuditEntry> => {
+  const undo = await runAction(action, context);
+  const entry: AIActionAuditEntry = {
+    id: `${action.id}_${Date.now()}`,
+    actionId: action.id,
+    actionType: action.type,
+    summary: describeAIAction(action, context),
+    threadId: context.threadId,
+    status: 'applied',
+    appliedAt: new Date().toISOString(),
+    undo,
+  };
+  await saveAuditEntry(entry);
+  logger.info('[AIActions] Applied:', entry.summary);
+  return entry;
+};
+
+/**
+ * Reverse an applied action and mark its audit entry as undone
+ */
+export const undoAIAction = async (entry: AIActionAuditEntry): Promise<AIActionAuditEntry> => {
+  const { undo } = entry;
+  if (!undo) throw new Error('This change can no longer be undone');
+
+  switch (undo.type) {
+    case 'deleteExpense':
+      await apiService.deleteExpense(undo.expenseId);
+      break;
+    case 'restoreCategory':
+      await apiService.updateExpense(undo.expenseId, { categoryId: undo.categoryId });
+      break;
+    case 'restoreBudget':
+      await apiService.updateCategory(undo.categoryId, {
+        budgetLimit: undo.budgetLimit,
+        originalAmount: undo.originalAmount,
+        originalCurrency: undo.originalCurrency,
+      });
+      break;
+    case 'deleteCategoryRule':
+      await deleteCategoryRule(undo.ruleId);
+      break;
+    case 'deleteTag':
+      await deleteTag(undo.tagId);
+      break;
+  }
+
+  const undone: AIActionAuditEntry = { ...entry, status: 'undone', undoneAt: new Date().toISOString() };
+  await saveAuditEntry(undone);
+  logger.info('[AIActions] Undone:', entry.summary);
+  return undone;
+};
+
+/**
+ * Remove the audit log (logout)
+ */
+export const clearAIActionLog = async (): Promise<void> => {
+  await AsyncStorage.removeItem(AUDIT_LOG_KEY);
+};
+
+export default {
+  parseAIActions,
+  describeAIAction,
+  executeAIAction,
+  undoAIAction,
+  getAIActionLog,
+  clearAIActionLog,
+};
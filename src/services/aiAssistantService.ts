@@ -1,18 +1,24 @@
 /**
  * Finly AI Service
  * Purpose: Handle AI queries for transaction questions, feature explanations, and financial insights
- * Features: Rate limiting, premium gating, context-aware responses, currency normalization
+ * Features: Rate limiting, premium gating, context-aware responses, currency normalization,
+ * token streaming over server-sent events with a one-shot fallback, action proposals (applied by aiActionService)
  * Uses backend API for OpenAI integration
  */
 
-import { api } from './apiClient';
-import { API_ENDPOINTS } from '../config/api.config';
+import { fetch } from 'expo/fetch';
+import { api, tokenManager } from './apiClient';
+import { API_ENDPOINTS, buildApiUrl } from '../config/api.config';
 import {
   normalizeCurrencySymbolsInText,
   buildCurrencyContextForAI,
   getCurrencyByCode,
   CURRENCY_NAME_ALIASES
 } from './currencyService';
+import { parseAIActions } from './aiActionService';
+import { AIActionProposal } from '../types';
+import { createSSEParser } from '../utils/sseParser';
+import logger from '../utils/logger';
 
 /**
  * Common qualifiers that indicate a currency is already explicitly specified
@@ -151,6 +157,24 @@ export interface AIQuery {
     categoryId?: string;
     screen?: string;
   };
+  actions?: AIActionProposal[]; // Changes proposed with the answer, applied only after confirmation
+}
+
+export type AIStreamStatus =
+  | 'complete'
+  | 'cancelled' // Stopped by the user; the answer so far is kept
+  | 'interrupted'; // Connection dropped mid-answer; the answer so far is kept
+
+export interface AIStreamResult {
+  response: string;
+  query: AIQuery;
+  status: AIStreamStatus;
+}
+
+export interface AIStreamOptions {
+  onText: (text: string) => void; // Called with the whole answer so far (currency-normalized)
+  signal?: AbortSignal;
+  threadId?: string; // Conversation the question and answer are stored in
 }
 
 export interface QueryLimits {
@@ -200,6 +224,85 @@ export const getQueryHistory = async (): Promise<AIQuery[]> => {
   }
 };
 
+const LIMIT_REACHED_RESPONSE =
+  "I've reached my daily energy limit for free insights! ⚡️\n\nI can help you again tomorrow, or you can upgrade to Premium for unlimited AI access right now.";
+
+/**
+ * Soft landing when the daily limit is used up: a friendly answer instead of an error
+ */
+const buildLimitReachedResult = (
+  query: string,
+  context?: AIQuery['context']
+): { response: string; query: AIQuery } => ({
+  response: LIMIT_REACHED_RESPONSE,
+  query: {
+    id: 'limit-reached-' + Date.now(),
+    query,
+    response: LIMIT_REACHED_RESPONSE,
+    timestamp: new Date().toISOString(),
+    context
+  }
+});
+
+/**
+ * Request body for /ai/query with the disambiguated query and currency context
+ */
+const buildQueryRequestBody = (
+  query: string,
+  context?: AIQuery['context'],
+  currencyCode?: string,
+  threadId?: string
+) => {
+  // Get currency info for comprehensive context
+  const activeCurrency = currencyCode
+    ? getCurrencyByCode(currencyCode)
+    : null;
+
+  // Pre-process query to disambiguate currency references
+  // E.g., "20k rupees" → "20k Pakistani Rupees" when active currency is PKR
+  const processedQuery = currencyCode
+    ? disambiguateCurrencyInQuery(query.trim(), currencyCode)
+    : query.trim();
+
+  // Build request body with comprehensive currency context
+  const requestBody: {
+    query: string;
+    context?: AIQuery['context'];
+    currencyCode?: string;
+    currencyContext?: string;
+    currencySymbol?: string;
+    currencyName?: string;
+    threadId?: string;
+    supportsActions: boolean;
+  } = {
+    query: processedQuery, // Use the disambiguated query
+    supportsActions: true // The app can show action proposals as confirm cards
+  };
+
+  if (context) {
+    requestBody.context = context;
+  }
+
+  if (threadId) {
+    requestBody.threadId = threadId;
+  }
+
+  // Include comprehensive currency information for proper disambiguation
+  if (currencyCode) {
+    requestBody.currencyCode = currencyCode.trim();
+
+    // Add additional currency context for AI disambiguation
+    requestBody.currencyContext = buildCurrencyContextForAI(currencyCode);
+
+    if (activeCurrency) {
+      requestBody.currencySymbol = activeCurrency.symbol;
+      requestBody.currencyName = activeCurrency.name;
+    }
+  }
+
+  return requestBody;
+};
+
 /**
  * Process AI query using backend API
  * Handles currency context for proper disambiguation and normalizes currency symbols in responses
@@ -209,7 +312,9 @@ export const processAIQuery = async (
   isPremium: boolean,
   formatCurrency: (amount: number) => string,
   context?: AIQuery['context'],
-  currencyCode?: string
+  currencyCode?: string,
+  threadId?: string,
+  signal?: AbortSignal
 ): Promise<{ response: string; query: AIQuery }> => {
   try {
     // Check rate limits first
@@ -217,59 +322,10 @@ export const processAIQuery = async (
 
     if (!isPremium && limits.used >= limits.limit) {
       // Soft landing: Return a friendly message instead of throwing an error
-      const limitReachedResponse =
-        "I've reached my daily energy limit for free insights! ⚡️\n\nI can help you again tomorrow, or you can upgrade to Premium for unlimited AI access right now.";
-
-      const limitQuery: AIQuery = {
-        id: 'limit-reached-' + Date.now(),
-        query: query,
-        response: limitReachedResponse,
-        timestamp: new Date().toISOString(),
-        context
-      };
-
-      return { response: limitReachedResponse, query: limitQuery };
+      return buildLimitReachedResult(query, context);
     }
 
-    // Get currency info for comprehensive context
-    const activeCurrency = currencyCode
-      ? getCurrencyByCode(currencyCode)
-      : null;
-
-    // Pre-process query to disambiguate currency references
-    // E.g., "20k rupees" → "20k Pakistani Rupees" when active currency is PKR
-    const processedQuery = currencyCode
-      ? disambiguateCurrencyInQuery(query.trim(), currencyCode)
-      : query.trim();
-
-    // Build request body with comprehensive currency context
-    const requestBody: {
-      query: string;
-      context?: AIQuery['context'];
-      currencyCode?: string;
-      currencyContext?: string;
-      currencySymbol?: string;
-      currencyName?: string;
-    } = {
-      query: processedQuery // Use the disambiguated query
-    };
-
-    if (context) {
-      requestBody.context = context;
-    }
-
-    // Include comprehensive currency information for proper disambiguation
-    if (currencyCode) {
-      requestBody.currencyCode = currencyCode.trim();
-
-      // Add additional currency context for AI disambiguation
-      requestBody.currencyContext = buildCurrencyContextForAI(currencyCode);
-
-      if (activeCurrency) {
-        requestBody.currencySymbol = activeCurrency.symbol;
-        requestBody.currencyName = activeCurrency.name;
-      }
-    }
+    const requestBody = buildQueryRequestBody(query, context, currencyCode, threadId);
 
     const response = await api.post<{
       id: string;
@@ -278,7 +334,8 @@ export const processAIQuery = async (
       timestamp: string;
       processingTime: number;
       cached: boolean;
-    }>(API_ENDPOINTS.AI.QUERY, requestBody);
+      actions?: unknown[];
+    }>(API_ENDPOINTS.AI.QUERY, requestBody, { signal });
 
     if (!response.success || !response.data) {
       throw new Error(response.error?.message || 'Failed to process AI query');
@@ -303,7 +360,8 @@ export const processAIQuery = async (
       query: result.query,
       response: normalizedResponse,
       timestamp: result.timestamp,
-      context
+      context,
+      actions: parseAIActions(result.actions)
     };
 
     return { response: normalizedResponse, query: aiQuery };
@@ -313,17 +371,7 @@ export const processAIQuery = async (
     // Handle rate limit errors from backend (429 status code)
     if (error.response?.status === 429 || error.response?.data?.error?.code === 'RATE_LIMIT_EXCEEDED') {
       // Soft landing for backend rate limits as well
-      const limitReachedResponse = "I've reached my daily energy limit for free insights! ⚡️\n\nI can help you again tomorrow, or you can upgrade to Premium for unlimited AI access right now.";
-      
-      const limitQuery: AIQuery = {
-        id: 'limit-reached-' + Date.now(),
-        query: query,
-        response: limitReachedResponse,
-        timestamp: new Date().toISOString(),
-        context
-      };
-      
-      return { response: limitReachedResponse, query: limitQuery };
+      return buildLimitReachedResult(query, context);
     }
     
     // Handle API response errors (when response.success is false)
@@ -350,3 +398,177 @@ export const processAIQuery = async (
   }
 };
 
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Stream an AI answer from /ai/query as server-sent events
+ * Events: "chunk" {text} for each piece of the answer, "done" {id, query, timestamp} at the end,
+ * "error" {code, message}. Falls back to processAIQuery only when the stream never opened
+ * (connection failure, older server, auth refresh needed) - once it has, the server has the
+ * query, so asking again could answer (and count) it twice. A cancelled or dropped stream
+ * resolves with the partial answer; a stream dropped before any text throws.
+ */
+export const streamAIQuery = async (
+  query: string,
+  isPremium: boolean,
+  formatCurrency: (amount: number) => string,
+  context: AIQuery['context'] | undefined,
+  currencyCode: string | undefined,
+  options: AIStreamOptions
+): Promise<AIStreamResult> => {
+  const { onText, signal, threadId } = options;
+  const normalize = (text: string) =>
+    currencyCode ? normalizeCurrencySymbolsInText(text, currencyCode) : text;
+
+  // Set from the SSE callback, so kept in an object rather than narrowed locals
+  const stream: {
+    answer: string;
+    done: { id: string; query: string; timestamp: string; actions?: unknown } | null;
+    error: Error | null;
+  } = { answer: '', done: null, error: null };
+
+  const toResult = (status: AIStreamStatus): AIStreamResult => {
+    const response = normalize(stream.answer);
+    return {
+      response,
+      query: {
+        id: stream.done?.id || `stream_${Date.now()}`,
+        query: stream.done?.query || query,
+        response,
+        timestamp: stream.done?.timestamp || new Date().toISOString(),
+        context,
+        // A partial answer may be missing the reasoning behind a proposal, so only complete ones get actions
+        actions: status === 'complete' ? parseAIActions(stream.done?.actions) : []
+      },
+      status
+    };
+  };
+
+  const oneShot = async (): Promise<AIStreamResult> => {
+    if (signal?.aborted) return toResult('cancelled');
+    try {
+      const result = await processAIQuery(query, isPremium, formatCurrency, context, currencyCode, threadId, signal);
+      if (signal?.aborted) return toResult('cancelled');
+      onText(result.response);
+      return { ...result, status: 'complete' };
+    } catch (error) {
+      if (signal?.aborted) return toResult('cancelled');
+      throw error;
+    }
+  };
+
+  // The stream opened but ended early: keep what arrived
+  const interrupted = (): AIStreamResult => {
+    if (!stream.answer) throw new Error('The connection was lost before the answer arrived. Please try again.');
+    return toResult('interrupted');
+  };
+
+  const limits = await getQueryLimits(isPremium);
+  if (!isPremium && limits.used >= limits.limit) {
+    const limitResult = buildLimitReachedResult(query, context);
+    onText(limitResult.response);
+    return { ...limitResult, status: 'complete' };
+  }
+
+  let response: Awaited<ReturnType<typeof fetch>>;
+  try {
+    const token = await tokenManager.getAccessToken();
+    response = await fetch(buildApiUrl(API_ENDPOINTS.AI.QUERY), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(token && { Authorization: `Bearer ${token}` })
+      },
+      body: JSON.stringify({ ...buildQueryRequestBody(query, context, currencyCode, threadId), stream: true }),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) return toResult('cancelled');
+    logger.warn('[AI] Streaming request failed, using one-shot query:', error);
+    return oneShot();
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.ok || !response.body || !contentType.includes('text/event-stream')) {
+    // Server answered in one piece (no streaming support) - use it rather than asking twice
+    if (response.ok && contentType.includes('application/json')) {
+      // A truncated or malformed body falls through to the one-shot query
+      const body = await response.json().catch((error: unknown) => {
+        logger.warn('[AI] Unreadable one-piece response, using one-shot query:', error);
+        return null;
+      });
+      if (body?.success && body.data?.response) {
+        stream.answer = body.data.response;
+        stream.done = {
+          id: body.data.id,
+          query: body.data.query,
+          timestamp: body.data.timestamp,
+          actions: body.data.actions
+        };
+        onText(normalize(stream.answer));
+        return toResult('complete');
+      }
+    }
+    // Expired token, rate limit and server errors are handled by the one-shot path
+    return oneShot();
+  }
+
+  const parser = createSSEParser((event) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(event.data);
+    } catch {
+      logger.warn('[AI] Ignoring malformed stream event:', event.data);
+      return;
+    }
+    if (!isRecord(payload)) {
+      logger.warn('[AI] Ignoring malformed stream event:', event.data);
+      return;
+    }
+
+    if (event.event === 'chunk' && typeof payload.text === 'string') {
+      stream.answer += payload.text;
+      onText(normalize(stream.answer));
+    } else if (event.event === 'done') {
+      stream.done = {
+        id: typeof payload.id === 'string' ? payload.id : `stream_${Date.now()}`,
+        query: typeof payload.query === 'string' ? payload.query : query,
+        timestamp: typeof payload.timestamp === 'string' ? payload.timestamp : new Date().toISOString(),
+        actions: payload.actions
+      };
+    } else if (event.event === 'error') {
+      stream.error = new Error(
+        typeof payload.message === 'string' && payload.message ? payload.message : 'Failed to process AI query'
+      );
+    }
+  });
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // stream: true keeps multi-byte characters split across chunks intact
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+    parser.push(decoder.decode());
+    parser.flush();
+  } catch (error) {
+    if (signal?.aborted) return toResult('cancelled');
+    logger.warn('[AI] Stream interrupted:', error);
+    return interrupted();
+  }
+
+  if (signal?.aborted) return toResult('cancelled');
+  if (stream.error) {
+    if (!stream.answer) throw stream.error;
+    return toResult('interrupted');
+  }
+  // Connection closed without a "done" event
+  if (!stream.done) return interrupted();
+  return toResult('complete');
+};
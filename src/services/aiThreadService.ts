@@ -0,0 +1,226 @@
+/**
+ * Finly AI Thread Service
+ * Purpose: Persistent, resumable AI conversations
+ * Features: Thread list (create, rename, pin, delete), per-thread message history from the
+ * server with a local AsyncStorage copy for instant and offline resume, lookup of the thread
+ * started from a transaction
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api } from './apiClient';
+import { API_ENDPOINTS } from '../config/api.config';
+import { AIThread, AIThreadContext, AIThreadMessage } from '../types';
+import logger from '../utils/logger';
+
+const THREADS_CACHE_KEY = '@finly_ai_threads';
+const MESSAGES_CACHE_PREFIX = '@finly_ai_thread_messages_';
+
+// Thread titles come from the first question
+const MAX_TITLE_LENGTH = 60;
+const MAX_PREVIEW_LENGTH = 120;
+
+const truncate = (text: string, length: number): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length ? `${clean.slice(0, length - 1).trimEnd()}…` : clean;
+};
+
+/**
+ * Pinned threads first, then most recently active
+ */
+export const sortThreads = (threads: AIThread[]): AIThread[] =>
+  [...threads].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt.localeCompare(a.updatedAt);
+  });
+
+/**
+ * Threads whose title or last message contains the search text
+ */
+export const searchThreads = (threads: AIThread[], search: string): AIThread[] => {
+  const term = search.trim().toLowerCase();
+  if (!term) return threads;
+  return threads.filter((thread) =>
+    thread.title.toLowerCase().includes(term) ||
+    !!thread.lastMessagePreview?.toLowerCase().includes(term)
+  );
+};
+
+export const getCachedThreads = async (): Promise<AIThread[]> => {
+  try {
+    const data = await AsyncStorage.getItem(THREADS_CACHE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    logger.error('[AIThreads] Error loading cached threads:', error);
+    return [];
+  }
+};
+
+const cacheThreads = async (threads: AIThread[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(THREADS_CACHE_KEY, JSON.stringify(sortThreads(threads)));
+  } catch (error) {
+    logger.error('[AIThreads] Error caching threads:', error);
+  }
+};
+
+/**
+ * Replace (or add) one thread in the local list
+ */
+const upsertCachedThread = async (thread: AIThread): Promise<void> => {
+  const threads = await getCachedThreads();
+  await cacheThreads([thread, ...threads.filter((t) => t.id !== thread.id)]);
+};
+
+/**
+ * All threads from the server; the local copy when offline
+ */
+export const getThreads = async (): Promise<AIThread[]> => {
+  try {
+    const response = await api.get<AIThread[]>(API_ENDPOINTS.AI.THREADS, { skipCache: true });
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to load conversations');
+    }
+    await cacheThreads(response.data);
+    return sortThreads(response.data);
+  } catch (error) {
+    logger.warn('[AIThreads] Using cached threads:', error);
+    return sortThreads(await getCachedThreads());
+  }
+};
+
+/**
+ * Start a thread, titled after its first question
+ */
+export const createThread = async (firstQuery: string, context?: AIThreadContext): Promise<AIThread> => {
+  const response = await api.post<AIThread>(API_ENDPOINTS.AI.THREADS, {
+    title: truncate(firstQuery, MAX_TITLE_LENGTH),
+    context,
+  });
+  if (!response.success || !response.data) {
+    throw new Error(response.error?.message || 'Failed to start conversation');
+  }
+  await upsertCachedThread(response.data);
+  return response.data;
+};
+
+/**
+ * Rename or pin/unpin a thread
+ */
+export const updateThread = async (
+  threadId: string,
+  data: { title?: string; pinned?: boolean }
+): Promise<AIThread> => {
+  const response = await api.put<AIThread>(API_ENDPOINTS.AI.THREAD_DETAIL.replace(':id', threadId), data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error?.message || 'Failed to update conversation');
+  }
+  await upsertCachedThread(response.data);
+  return response.data;
+};
+
+export const deleteThread = async (threadId: string): Promise<void> => {
+  const response = await api.delete(API_ENDPOINTS.AI.THREAD_DETAIL.replace(':id', threadId));
+  if (!response.success) {
+    throw new Error(response.error?.message || 'Failed to delete conversation');
+  }
+  const threads = await getCachedThreads();
+  await cacheThreads(threads.filter((t) => t.id !== threadId));
+  await AsyncStorage.removeItem(MESSAGES_CACHE_PREFIX + threadId);
+};
+
+export const getCachedThreadMessages = async (threadId: string): Promise<AIThreadMessage[]> => {
+  try {
+    const data = await AsyncStorage.getItem(MESSAGES_CACHE_PREFIX + threadId);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    logger.error('[AIThreads] Error loading cached messages:', error);
+    return [];
+  }
+};
+
+const cacheThreadMessages = async (threadId: string, messages: AIThreadMessage[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(MESSAGES_CACHE_PREFIX + threadId, JSON.stringify(messages));
+  } catch (error) {
+    logger.error('[AIThreads] Error caching messages:', error);
+  }
+};
+
+/**
+ * A thread's messages, oldest first, from the server; the local copy when offline
+ */
+export const getThreadMessages = async (threadId: string): Promise<AIThreadMessage[]> => {
+  try {
+    const response = await api.get<AIThreadMessage[]>(
+      API_ENDPOINTS.AI.THREAD_MESSAGES.replace(':id', threadId),
+      { skipCache: true }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to load conversation');
+    }
+    await cacheThreadMessages(threadId, response.data);
+    return response.data;
+  } catch (error) {
+    logger.warn('[AIThreads] Using cached messages:', error);
+    return getCachedThreadMessages(threadId);
+  }
+};
+
+/**
+ * Record a question and its answer locally (the server stores them while answering)
+ * and move the thread to the top of the list
+ */
+export const appendThreadExchange = async (
+  threadId: string,
+  exchange: AIThreadMessage[]
+): Promise<void> => {
+  const messages = await getCachedThreadMessages(threadId);
+  const known = new Set(messages.map((m) => m.id));
+  await cacheThreadMessages(threadId, [...messages, ...exchange.filter((m) => !known.has(m.id))]);
+
+  const threads = await getCachedThreads();
+  const thread = threads.find((t) => t.id === threadId);
+  const last = exchange[exchange.length - 1];
+  if (thread && last) {
+    await upsertCachedThread({
+      ...thread,
+      lastMessagePreview: truncate(last.content, MAX_PREVIEW_LENGTH),
+      updatedAt: last.createdAt,
+    });
+  }
+};
+
+/**
+ * The most recent thread started from a transaction, if any
+ */
+export const findThreadForTransaction = async (transactionId: string): Promise<AIThread | null> => {
+  const matches = (threads: AIThread[]) =>
+    sortThreads(threads).find((thread) => thread.context?.transactionId === transactionId) || null;
+
+  return matches(await getCachedThreads()) || matches(await getThreads());
+};
+
+/**
+ * Remove every cached thread and message list (logout)
+ */
+export const clearThreadCache = async (): Promise<void> => {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(
+    keys.filter((key) => key === THREADS_CACHE_KEY || key.startsWith(MESSAGES_CACHE_PREFIX))
+  );
+};
+
+export default {
+  sortThreads,
+  searchThreads,
+  getCachedThreads,
+  getThreads,
+  createThread,
+  updateThread,
+  deleteThread,
+  getCachedThreadMessages,
+  getThreadMessages,
+  appendThreadExchange,
+  findThreadForTransaction,
+  clearThreadCache,
+};
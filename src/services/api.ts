@@ -6,7 +6,11 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { logger } from '../utils/logger';
 
 import {
+  Account,
   Expense,
+  ExpenseSplitInput,
+  Household,
+  HouseholdInvite,
   Category,
   BudgetType,
   RolloverSummary,
@@ -15,11 +19,55 @@ import {
   Receipt,
   IncomeSource,
   IncomeTransaction,
+  RecurringExpense,
+  SavingsGoal,
+  SyncChanges,
+  Transfer,
   UnifiedTransaction,
   PaginatedInsightsResponse
 } from '../types';
-import { api, apiClient, ApiResponse } from './apiClient';
+import { api, apiClient, ApiResponse, isNetworkError } from './apiClient';
+import { offlineQueueService, isOfflineId } from './offlineQueueService';
 import { API_ENDPOINTS } from '../config/api.config';
+import { getRecurringExpenseOccurrences } from '../utils/recurrence';
+
+/**
+ * Forecast window used by the analytics endpoint (next 7 days)
+ */
+const FORECAST_DAYS = 7;
+
+/**
+ * Add recurring expenses scheduled inside the forecast window to a spending forecast
+ * Applied on every read (not cached) so edits to recurring expenses show up immediately
+ */
+const withScheduledExpenses = async <T extends { predictedAmount: number; factors: string[] }>(
+  forecast: T
+): Promise<T & { scheduledAmount: number }> => {
+  try {
+    const recurringExpenses = await apiService.getRecurringExpenses();
+    const start = new Date();
+    start.setDate(start.getDate() + 1);
+    const end = new Date();
+    end.setDate(end.getDate() + FORECAST_DAYS);
+
+    const occurrences = getRecurringExpenseOccurrences(recurringExpenses, start, end);
+    const scheduledAmount = occurrences.reduce((sum, o) => sum + o.recurringExpense.amount, 0);
+    if (scheduledAmount === 0) return { ...forecast, scheduledAmount: 0 };
+
+    return {
+      ...forecast,
+      predictedAmount: forecast.predictedAmount + scheduledAmount,
+      scheduledAmount,
+      factors: [
+        ...forecast.factors,
+        `${occurrences.length} scheduled payment${occurrences.length === 1 ? '' : 's'} due this week`
+      ]
+    };
+  } catch (error) {
+    logger.warn('[API] Could not apply recurring expenses to forecast:', error);
+    return { ...forecast, scheduledAmount: 0 };
+  }
+};
 
 /**
  * Category API Service
@@ -145,6 +193,7 @@ export const apiService = {
       originalAmount?: number | null;
       originalCurrency?: string | null;
       isActive?: boolean;
+      householdId?: string | null; // Share with the household (null makes it personal again)
       applyToCurrentMonth?: boolean; // For rollover: update current month's allocation
     }
   ): Promise<Category> {
@@ -239,6 +288,7 @@ export const apiService = {
    */
   async getExpensesPaginated(options?: {
     categoryId?: string;
+    paidBy?: string; // Household member user ID
     limit?: number;
     cursor?: string;
   }): Promise<{
@@ -252,6 +302,7 @@ export const apiService = {
     try {
       const params: Record<string, string> = {};
       if (options?.categoryId) params.categoryId = options.categoryId;
+      if (options?.paidBy) params.paidBy = options.paidBy;
       if (options?.limit) params.limit = options.limit.toString();
       if (options?.cursor) params.cursor = options.cursor;
 
@@ -264,7 +315,7 @@ export const apiService = {
 
       // Skip cache for category-specific requests to ensure fresh data
       // Cache key might not properly differentiate categoryId in some cases
-      const skipCache = !!options?.categoryId;
+      const skipCache = !!options?.categoryId || !!options?.paidBy;
 
       // Backend returns: { success: true, data: [...expenses...], pagination: {...} }
       // We need to access the raw axios response because api.get extracts response.data
@@ -328,6 +379,7 @@ export const apiService = {
 
   /**
    * Create a new expense
+   * When offline, the expense is queued locally and an optimistic record is returned
    */
   async addExpense(data: {
     amount: number;
@@ -337,9 +389,16 @@ export const apiService = {
     paymentMethod?: string;
     notes?: string;
     tags?: string[]; // Array of tag IDs
+    accountId?: string | null;
+    splits?: ExpenseSplitInput[]; // Category allocations summing to amount
+    paidById?: string; // Household member who paid (defaults to the current user)
     originalAmount?: number;
     originalCurrency?: string;
   }): Promise<Expense> {
+    if (await offlineQueueService.shouldQueue()) {
+      return offlineQueueService.queueExpenseCreate(data);
+    }
+
     try {
       const response = await api.post<Expense>(API_ENDPOINTS.EXPENSES.LIST, {
         ...data,
@@ -350,31 +409,63 @@ export const apiService = {
       }
       return response.data!;
     } catch (error) {
+      if (isNetworkError(error)) {
+        logger.warn('[API] Network unavailable, queueing expense for sync');
+        return offlineQueueService.queueExpenseCreate(data);
+      }
       console.error('[API] Add expense error:', error);
       throw error;
     }
   },
 
+  /**
+   * Get a single expense
+   */
+  async getExpense(expenseId: string): Promise<Expense> {
+    try {
+      const response = await api.get<Expense>(
+        API_ENDPOINTS.EXPENSES.DETAIL.replace(':id', offlineQueueService.resolveId(expenseId)),
+        { skipCache: true }
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to get expense');
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Get expense error:', error);
+      throw error;
+    }
+  },
+
   /**
    * Update an existing expense
+   * When offline (or the expense has not synced yet), the update is queued locally
    */
   async updateExpense(
     expenseId: string,
     data: {
       amount?: number;
-      categoryId?: string;
+      categoryId?: string | null; // null leaves the expense uncategorized
       description?: string;
       date?: Date;
       paymentMethod?: string;
       notes?: string;
       tags?: string[]; // Array of tag IDs
+      accountId?: string | null;
+      splits?: ExpenseSplitInput[] | null; // null removes an existing split
+      paidById?: string;
       originalAmount?: number;
       originalCurrency?: string;
     }
   ): Promise<Expense> {
+    const targetId = offlineQueueService.resolveId(expenseId);
+    if (isOfflineId(targetId) || (await offlineQueueService.shouldQueue())) {
+      return offlineQueueService.queueExpenseUpdate(targetId, data);
+    }
+
     try {
       const response = await api.put<Expense>(
-        API_ENDPOINTS.EXPENSES.DETAIL.replace(':id', expenseId),
+        API_ENDPOINTS.EXPENSES.DETAIL.replace(':id', targetId),
         data
       );
       if (!response.success) {
@@ -382,6 +473,10 @@ export const apiService = {
       }
       return response.data!;
     } catch (error) {
+      if (isNetworkError(error)) {
+        logger.warn('[API] Network unavailable, queueing expense update for sync');
+        return offlineQueueService.queueExpenseUpdate(targetId, data);
+      }
       console.error('[API] Update expense error:', error);
       throw error;
     }
@@ -389,16 +484,26 @@ export const apiService = {
 
   /**
    * Delete an expense
+   * When offline (or the expense has not synced yet), the deletion is queued locally
    */
   async deleteExpense(expenseId: string): Promise<void> {
+    const targetId = offlineQueueService.resolveId(expenseId);
+    if (isOfflineId(targetId) || (await offlineQueueService.shouldQueue())) {
+      return offlineQueueService.queueExpenseDelete(targetId);
+    }
+
     try {
       const response = await api.delete(
-        API_ENDPOINTS.EXPENSES.DETAIL.replace(':id', expenseId)
+        API_ENDPOINTS.EXPENSES.DETAIL.replace(':id', targetId)
       );
       if (!response.success) {
         throw new Error(response.error?.message || 'Failed to delete expense');
       }
     } catch (error) {
+      if (isNetworkError(error)) {
+        logger.warn('[API] Network unavailable, queueing expense deletion for sync');
+        return offlineQueueService.queueExpenseDelete(targetId);
+      }
       console.error('[API] Delete expense error:', error);
       throw error;
     }
@@ -646,8 +751,9 @@ export const apiService = {
   /**
    * Get comprehensive spending trends data for Trends screen
    * Combines daily spending, category totals, weekly comparison, and top category
+   * @param paidBy - Only count expenses paid by this household member
    */
-  async getSpendingTrends(skipCache: boolean = false): Promise<{
+  async getSpendingTrends(skipCache: boolean = false, paidBy?: string): Promise<{
     dailySpending: Array<{ date: string; amount: number }>;
     categoryTotals: Array<{ category: string; amount: number; color: string }>;
     weeklyComparison: {
@@ -666,15 +772,15 @@ export const apiService = {
       ] = await Promise.all([
         api.get<Array<{ date: string; amount: number }>>(
           API_ENDPOINTS.ANALYTICS.DAILY_SPENDING,
-          { skipCache }
+          { skipCache, ...(paidBy && { params: { paidBy } }) }
         ),
         api.get<{
           thisWeek: number;
           lastWeek: number;
           change: number;
           changePercentage: number;
-        }>(API_ENDPOINTS.ANALYTICS.TREND, { skipCache }),
-        api.get<MonthlyStats>(API_ENDPOINTS.ANALYTICS.STATS, { skipCache }),
+        }>(API_ENDPOINTS.ANALYTICS.TREND, { skipCache, ...(paidBy && { params: { paidBy } }) }),
+        api.get<MonthlyStats>(API_ENDPOINTS.ANALYTICS.STATS, { skipCache, ...(paidBy && { params: { paidBy } }) }),
         api.get<{
           total: number;
           byCategory: Array<{
@@ -683,7 +789,7 @@ export const apiService = {
             categoryColor: string;
             amount: number;
           }>;
-        }>(API_ENDPOINTS.EXPENSES.STATS_MONTHLY, { skipCache })
+        }>(API_ENDPOINTS.EXPENSES.STATS_MONTHLY, { skipCache, ...(paidBy && { params: { paidBy } }) })
       ]);
 
       const dailySpending =
@@ -949,15 +1055,22 @@ export const apiService = {
 
   /**
    * Create a manual income transaction
+   * When offline, the transaction is queued locally and an optimistic record is returned
    */
   async createIncomeTransaction(data: {
     amount: number;
     date: string | Date; // Accept both ISO string or Date object
     description: string;
     incomeSourceId?: string;
+    accountId?: string | null;
+    autoAdded?: boolean; // Posted by an income source's schedule
     originalAmount?: number;
     originalCurrency?: string;
   }): Promise<any> {
+    if (await offlineQueueService.shouldQueue()) {
+      return offlineQueueService.queueIncomeCreate(data);
+    }
+
     try {
       // Convert date to ISO string if it's a Date object
       const dateValue =
@@ -974,6 +1087,10 @@ export const apiService = {
       }
       return response.data!;
     } catch (error) {
+      if (isNetworkError(error)) {
+        logger.warn('[API] Network unavailable, queueing income for sync');
+        return offlineQueueService.queueIncomeCreate(data);
+      }
       console.error('[API] Create income transaction error:', error);
       throw error;
     }
@@ -981,6 +1098,7 @@ export const apiService = {
 
   /**
    * Update an income transaction
+   * When offline (or the transaction has not synced yet), the update is queued locally
    */
   async updateIncomeTransaction(
     transactionId: string,
@@ -989,17 +1107,23 @@ export const apiService = {
       date?: string | Date;
       description?: string;
       incomeSourceId?: string;
+      accountId?: string | null;
       originalAmount?: number;
       originalCurrency?: string;
     }
   ): Promise<any> {
+    const targetId = offlineQueueService.resolveId(transactionId);
+    if (isOfflineId(targetId) || (await offlineQueueService.shouldQueue())) {
+      return offlineQueueService.queueIncomeUpdate(targetId, data);
+    }
+
     try {
       // Convert date to ISO string if it's a Date object
       const dateValue =
         data.date instanceof Date ? data.date.toISOString() : data.date;
 
       const response = await api.put<any>(
-        API_ENDPOINTS.INCOME.TRANSACTIONS + `/${transactionId}`,
+        API_ENDPOINTS.INCOME.TRANSACTIONS + `/${targetId}`,
         {
           ...data,
           ...(dateValue && { date: dateValue })
@@ -1012,6 +1136,10 @@ export const apiService = {
       }
       return response.data!;
     } catch (error) {
+      if (isNetworkError(error)) {
+        logger.warn('[API] Network unavailable, queueing income update for sync');
+        return offlineQueueService.queueIncomeUpdate(targetId, data);
+      }
       console.error('[API] Update income transaction error:', error);
       throw error;
     }
@@ -1019,11 +1147,17 @@ export const apiService = {
 
   /**
    * Delete an income transaction
+   * When offline (or the transaction has not synced yet), the deletion is queued locally
    */
   async deleteIncomeTransaction(transactionId: string): Promise<void> {
+    const targetId = offlineQueueService.resolveId(transactionId);
+    if (isOfflineId(targetId) || (await offlineQueueService.shouldQueue())) {
+      return offlineQueueService.queueIncomeDelete(targetId);
+    }
+
     try {
       const response = await api.delete(
-        API_ENDPOINTS.INCOME.TRANSACTIONS + `/${transactionId}`
+        API_ENDPOINTS.INCOME.TRANSACTIONS + `/${targetId}`
       );
       if (!response.success) {
         throw new Error(
@@ -1031,6 +1165,10 @@ export const apiService = {
         );
       }
     } catch (error) {
+      if (isNetworkError(error)) {
+        logger.warn('[API] Network unavailable, queueing income deletion for sync');
+        return offlineQueueService.queueIncomeDelete(targetId);
+      }
       console.error('[API] Delete income transaction error:', error);
       throw error;
     }
@@ -1056,6 +1194,556 @@ export const apiService = {
     }
   },
 
+  /**
+   * Get recurring expense definitions (rent, subscriptions, loan payments)
+   */
+  async getRecurringExpenses(): Promise<RecurringExpense[]> {
+    try {
+      const response = await api.get<RecurringExpense[]>(
+        API_ENDPOINTS.EXPENSES.RECURRING
+      );
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to fetch recurring expenses'
+        );
+      }
+      return response.data || [];
+    } catch (error) {
+      console.error('[API] Get recurring expenses error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a recurring expense
+   */
+  async createRecurringExpense(data: {
+    name: string;
+    amount: number;
+    categoryId: string;
+    paymentMethod?: string;
+    frequency: string;
+    startDate: string | Date;
+    dayOfMonth?: number;
+    dayOfWeek?: number;
+    customDates?: number[];
+    autoAdd?: boolean;
+    originalAmount?: number;
+    originalCurrency?: string;
+  }): Promise<RecurringExpense> {
+    try {
+      const payload = {
+        ...data,
+        startDate:
+          data.startDate instanceof Date
+            ? data.startDate.toISOString()
+            : data.startDate
+      };
+      const response = await api.post<RecurringExpense>(
+        API_ENDPOINTS.EXPENSES.RECURRING,
+        payload
+      );
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to create recurring expense'
+        );
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Create recurring expense error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update a recurring expense
+   */
+  async updateRecurringExpense(
+    recurringExpenseId: string,
+    data: Partial<Omit<RecurringExpense, 'id' | 'createdAt' | 'updatedAt' | 'category'>>
+  ): Promise<RecurringExpense> {
+    try {
+      const response = await api.put<RecurringExpense>(
+        API_ENDPOINTS.EXPENSES.RECURRING + `/${recurringExpenseId}`,
+        data
+      );
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to update recurring expense'
+        );
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Update recurring expense error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a recurring expense (expenses it already posted are kept)
+   */
+  async deleteRecurringExpense(recurringExpenseId: string): Promise<void> {
+    try {
+      const response = await api.delete(
+        API_ENDPOINTS.EXPENSES.RECURRING + `/${recurringExpenseId}`
+      );
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to delete recurring expense'
+        );
+      }
+    } catch (error) {
+      console.error('[API] Delete recurring expense error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get accounts (checking, savings, credit card, cash) with current balances
+   */
+  async getAccounts(): Promise<Account[]> {
+    try {
+      const response = await api.get<Account[]>(API_ENDPOINTS.ACCOUNTS.LIST);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch accounts');
+      }
+      return response.data || [];
+    } catch (error) {
+      console.error('[API] Get accounts error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create an account
+   */
+  async createAccount(
+    data: Omit<Account, 'id' | 'balance' | 'createdAt' | 'updatedAt'>
+  ): Promise<Account> {
+    try {
+      const response = await api.post<Account>(
+        API_ENDPOINTS.ACCOUNTS.LIST,
+        data
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to create account');
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Create account error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update an account
+   */
+  async updateAccount(
+    accountId: string,
+    data: Partial<Omit<Account, 'id' | 'balance' | 'createdAt' | 'updatedAt'>>
+  ): Promise<Account> {
+    try {
+      const response = await api.put<Account>(
+        API_ENDPOINTS.ACCOUNTS.DETAIL.replace(':id', accountId),
+        data
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update account');
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Update account error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete an account (its transactions are kept without an account)
+   */
+  async deleteAccount(accountId: string): Promise<void> {
+    try {
+      const response = await api.delete(
+        API_ENDPOINTS.ACCOUNTS.DETAIL.replace(':id', accountId)
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete account');
+      }
+    } catch (error) {
+      console.error('[API] Delete account error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get transfers between accounts
+   */
+  async getTransfers(options?: {
+    startDate?: Date;
+    endDate?: Date;
+    accountId?: string;
+  }): Promise<Transfer[]> {
+    try {
+      const params: Record<string, string> = {};
+      if (options?.startDate)
+        params.startDate = options.startDate.toISOString();
+      if (options?.endDate) params.endDate = options.endDate.toISOString();
+      if (options?.accountId) params.accountId = options.accountId;
+
+      const response = await api.get<Transfer[]>(
+        API_ENDPOINTS.TRANSFERS.LIST,
+        params
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch transfers');
+      }
+      return response.data || [];
+    } catch (error) {
+      console.error('[API] Get transfers error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Move money between two accounts
+   */
+  async createTransfer(data: {
+    fromAccountId: string;
+    toAccountId: string;
+    amount: number;
+    date: string | Date;
+    description?: string;
+    originalAmount?: number;
+    originalCurrency?: string;
+  }): Promise<Transfer> {
+    try {
+      const response = await api.post<Transfer>(API_ENDPOINTS.TRANSFERS.LIST, {
+        ...data,
+        date: data.date instanceof Date ? data.date.toISOString() : data.date
+      });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to create transfer');
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Create transfer error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a transfer
+   */
+  async deleteTransfer(transferId: string): Promise<void> {
+    try {
+      const response = await api.delete(
+        API_ENDPOINTS.TRANSFERS.DETAIL.replace(':id', transferId)
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete transfer');
+      }
+    } catch (error) {
+      console.error('[API] Delete transfer error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get changes since an updatedAt cursor for the local database
+   * @param since - Cursor from the previous page/sync (omit for a full download)
+   * @param limit - Maximum records per page
+   */
+  async getSyncChanges(since?: string | null, limit: number = 500): Promise<SyncChanges> {
+    try {
+      const response = await api.get<SyncChanges>(API_ENDPOINTS.SYNC.CHANGES, {
+        skipCache: true,
+        params: { ...(since && { since }), limit: limit.toString() },
+      });
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to fetch changes');
+      }
+      return response.data;
+    } catch (error) {
+      console.error('[API] Get sync changes error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the current user's household (null when not in one)
+   */
+  async getHousehold(): Promise<Household | null> {
+    try {
+      const response = await api.get<Household | null>(API_ENDPOINTS.HOUSEHOLD.DETAIL, { skipCache: true });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch household');
+      }
+      return response.data || null;
+    } catch (error) {
+      console.error('[API] Get household error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a household with the current user as owner
+   */
+  async createHousehold(name: string): Promise<Household> {
+    try {
+      const response = await api.post<Household>(API_ENDPOINTS.HOUSEHOLD.DETAIL, { name });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to create household');
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Create household error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Rename the household
+   */
+  async updateHousehold(name: string): Promise<Household> {
+    try {
+      const response = await api.put<Household>(API_ENDPOINTS.HOUSEHOLD.DETAIL, { name });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update household');
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Update household error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Leave the household (shared categories stay with the remaining members)
+   */
+  async leaveHousehold(): Promise<void> {
+    try {
+      const response = await api.post(API_ENDPOINTS.HOUSEHOLD.LEAVE);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to leave household');
+      }
+    } catch (error) {
+      console.error('[API] Leave household error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove a member from the household (owner only)
+   */
+  async removeHouseholdMember(userId: string): Promise<void> {
+    try {
+      const response = await api.delete(API_ENDPOINTS.HOUSEHOLD.MEMBER.replace(':id', userId));
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to remove member');
+      }
+    } catch (error) {
+      console.error('[API] Remove household member error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Invite someone to the household by email
+   * The server emails a link; people without an account sign up first and the invite
+   * is waiting for them after login
+   */
+  async inviteHouseholdMember(email: string): Promise<HouseholdInvite> {
+    try {
+      const response = await api.post<HouseholdInvite>(API_ENDPOINTS.HOUSEHOLD.INVITES, { email });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to send invite');
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Invite household member error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Cancel a pending invite
+   */
+  async cancelHouseholdInvite(inviteId: string): Promise<void> {
+    try {
+      const response = await api.delete(API_ENDPOINTS.HOUSEHOLD.INVITE_DETAIL.replace(':id', inviteId));
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to cancel invite');
+      }
+    } catch (error) {
+      console.error('[API] Cancel household invite error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get pending invites addressed to the current user's email
+   */
+  async getReceivedHouseholdInvites(): Promise<HouseholdInvite[]> {
+    try {
+      const response = await api.get<HouseholdInvite[]>(API_ENDPOINTS.HOUSEHOLD.MY_INVITES, { skipCache: true });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch invites');
+      }
+      return response.data || [];
+    } catch (error) {
+      console.error('[API] Get household invites error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Accept an invite and join its household
+   */
+  async acceptHouseholdInvite(inviteId: string): Promise<Household> {
+    try {
+      const response = await api.post<Household>(API_ENDPOINTS.HOUSEHOLD.ACCEPT_INVITE.replace(':id', inviteId));
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to accept invite');
+      }
+      return response.data!;
+    } catch (error) {
+      console.error('[API] Accept household invite error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Decline an invite
+   */
+  async declineHouseholdInvite(inviteId: string): Promise<void> {
+    try {
+      const response = await api.post(API_ENDPOINTS.HOUSEHOLD.DECLINE_INVITE.replace(':id', inviteId));
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to decline invite');
+      }
+    } catch (error) {
+      console.error('[API] Decline household invite error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get savings goals
+   */
+  async getSavingsGoals(): Promise<SavingsGoal[]> {
+    try {
+      const response = await api.get<SavingsGoal[]>(API_ENDPOINTS.GOALS.LIST);
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to fetch savings goals'
+        );
+      }
+      return (response.data || []).map(goal => ({
+        ...goal,
+        contributions: goal.contributions || []
+      }));
+    } catch (error) {
+      console.error('[API] Get savings goals error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a savings goal
+   */
+  async createSavingsGoal(
+    data: Omit<SavingsGoal, 'id' | 'contributions' | 'completedAt' | 'createdAt' | 'updatedAt'>
+  ): Promise<SavingsGoal> {
+    try {
+      const response = await api.post<SavingsGoal>(
+        API_ENDPOINTS.GOALS.LIST,
+        data
+      );
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to create savings goal'
+        );
+      }
+      return { ...response.data!, contributions: response.data!.contributions || [] };
+    } catch (error) {
+      console.error('[API] Create savings goal error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update a savings goal
+   */
+  async updateSavingsGoal(
+    goalId: string,
+    data: Partial<Omit<SavingsGoal, 'id' | 'contributions' | 'createdAt' | 'updatedAt'>>
+  ): Promise<SavingsGoal> {
+    try {
+      const response = await api.put<SavingsGoal>(
+        API_ENDPOINTS.GOALS.DETAIL.replace(':id', goalId),
+        data
+      );
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to update savings goal'
+        );
+      }
+      return { ...response.data!, contributions: response.data!.contributions || [] };
+    } catch (error) {
+      console.error('[API] Update savings goal error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a savings goal
+   */
+  async deleteSavingsGoal(goalId: string): Promise<void> {
+    try {
+      const response = await api.delete(
+        API_ENDPOINTS.GOALS.DETAIL.replace(':id', goalId)
+      );
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to delete savings goal'
+        );
+      }
+    } catch (error) {
+      console.error('[API] Delete savings goal error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Record a manual contribution to a savings goal
+   * @returns The updated goal
+   */
+  async addGoalContribution(
+    goalId: string,
+    data: {
+      amount: number;
+      date: string;
+      note?: string;
+      originalAmount?: number;
+      originalCurrency?: string;
+    }
+  ): Promise<SavingsGoal> {
+    try {
+      const response = await api.post<SavingsGoal>(
+        API_ENDPOINTS.GOALS.CONTRIBUTIONS.replace(':id', goalId),
+        data
+      );
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to add goal contribution'
+        );
+      }
+      return { ...response.data!, contributions: response.data!.contributions || [] };
+    } catch (error) {
+      console.error('[API] Add goal contribution error:', error);
+      throw error;
+    }
+  },
+
   /**
    * Create multiple expenses in batch
    */
@@ -1068,6 +1756,10 @@ export const apiService = {
       paymentMethod?: string;
       notes?: string;
       tags?: string[];
+      accountId?: string | null;
+      splits?: ExpenseSplitInput[]; // Category allocations summing to amount
+      originalAmount?: number;
+      originalCurrency?: string;
     }>;
   }): Promise<Expense[]> {
     try {
@@ -1085,9 +1777,85 @@ export const apiService = {
     }
   },
 
+  /**
+   * Update multiple expenses in one request (bulk edit)
+   * Each update only carries the fields being changed
+   */
+  async updateExpensesBatch(data: {
+    updates: Array<{
+      id: string;
+      categoryId?: string | null; // null leaves the expense uncategorized
+      tags?: string[]; // Array of tag IDs (replaces the expense's tags)
+      paymentMethod?: string;
+      date?: string;
+    }>;
+  }): Promise<Expense[]> {
+    try {
+      const response = await api.put<{ expenses: Expense[] }>(
+        API_ENDPOINTS.EXPENSES.BATCH,
+        data
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update expenses');
+      }
+      return response.data?.expenses || [];
+    } catch (error) {
+      console.error('[API] Update expenses batch error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete multiple expenses in one request (bulk delete)
+   */
+  async deleteExpensesBatch(ids: string[]): Promise<void> {
+    try {
+      const response = await api.post(API_ENDPOINTS.EXPENSES.BATCH_DELETE, { ids });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete expenses');
+      }
+    } catch (error) {
+      console.error('[API] Delete expenses batch error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update the dates of multiple income transactions in one request (bulk edit)
+   */
+  async updateIncomeTransactionsBatch(data: {
+    updates: Array<{ id: string; date: string }>;
+  }): Promise<void> {
+    try {
+      const response = await api.put(API_ENDPOINTS.INCOME.TRANSACTIONS_BATCH, data);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update income transactions');
+      }
+    } catch (error) {
+      console.error('[API] Update income transactions batch error:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete multiple income transactions in one request (bulk delete)
+   */
+  async deleteIncomeTransactionsBatch(ids: string[]): Promise<void> {
+    try {
+      const response = await api.post(API_ENDPOINTS.INCOME.TRANSACTIONS_BATCH_DELETE, { ids });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete income transactions');
+      }
+    } catch (error) {
+      console.error('[API] Delete income transactions batch error:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get unified transactions (income and expenses)
-   * @param options - Query options including limit, date range, type, and includeTotal
+   * @param options - Query options including limit, date range, type, account, and includeTotal
+   * Transfers between accounts are only returned with includeTransfers (they are neither income nor expenses)
    * @returns Transactions array, or object with transactions and total if includeTotal is true
    */
   async getUnifiedTransactions(options?: {
@@ -1095,6 +1863,9 @@ export const apiService = {
     endDate?: string;
     limit?: number;
     type?: 'expense' | 'income' | 'all';
+    accountId?: string;
+    paidBy?: string; // Household member user ID
+    includeTransfers?: boolean;
     includeTotal?: boolean;
   }): Promise<
     UnifiedTransaction[] | { transactions: UnifiedTransaction[]; total: number }
@@ -1105,6 +1876,9 @@ export const apiService = {
       if (options?.endDate) params.endDate = options.endDate;
       if (options?.limit) params.limit = options.limit.toString();
       if (options?.type) params.type = options.type;
+      if (options?.accountId) params.accountId = options.accountId;
+      if (options?.paidBy) params.paidBy = options.paidBy;
+      if (options?.includeTransfers) params.includeTransfers = 'true';
       if (options?.includeTotal) params.includeTotal = 'true';
 
       // Backend returns paginated format: { data: [], pagination: { total } }
@@ -1125,8 +1899,15 @@ export const apiService = {
         throw new Error('Failed to fetch unified transactions');
       }
 
-      const transactions = backendResponse.data || [];
-      const total = backendResponse.pagination?.total;
+      // Include mutations that are still waiting in the offline outbox
+      const serverTransactions = backendResponse.data || [];
+      const merged = await offlineQueueService.applyToTransactions(serverTransactions, options);
+      const transactions = options?.limit ? merged.slice(0, options.limit) : merged;
+      const pendingDelta = merged.length - serverTransactions.length;
+      const total =
+        backendResponse.pagination?.total !== undefined
+          ? backendResponse.pagination.total + pendingDelta
+          : undefined;
 
       // If includeTotal is requested or limit is provided, return with total
       if (options?.includeTotal || (options?.limit && total !== undefined)) {
@@ -1151,7 +1932,9 @@ export const apiService = {
   async getUnifiedTransactionsPaginated(options?: {
     startDate?: string;
     endDate?: string;
-    type?: 'expense' | 'income' | 'all';
+    type?: 'expense' | 'income' | 'transfer' | 'all';
+    accountId?: string;
+    includeTransfers?: boolean;
     limit?: number;
     cursor?: string;
   }): Promise<{
@@ -1167,6 +1950,8 @@ export const apiService = {
       if (options?.startDate) params.startDate = options.startDate;
       if (options?.endDate) params.endDate = options.endDate;
       if (options?.type) params.type = options.type;
+      if (options?.accountId) params.accountId = options.accountId;
+      if (options?.includeTransfers) params.includeTransfers = 'true';
       if (options?.limit) params.limit = options.limit.toString();
       if (options?.cursor) params.cursor = options.cursor;
 
@@ -1174,6 +1959,7 @@ export const apiService = {
         startDate: options?.startDate,
         endDate: options?.endDate,
         type: options?.type,
+        accountId: options?.accountId,
         limit: options?.limit,
         cursor: options?.cursor,
         params
@@ -1205,8 +1991,13 @@ export const apiService = {
         hasPagination: !!backendResponse.pagination
       });
 
+      // Offline outbox entries are merged into the first page only
+      const transactions = options?.cursor
+        ? backendResponse.data || []
+        : await offlineQueueService.applyToTransactions(backendResponse.data || [], options);
+
       return {
-        transactions: backendResponse.data || [],
+        transactions,
         pagination: backendResponse.pagination || {
           hasMore: false,
           nextCursor: null,
@@ -1303,6 +2094,31 @@ export const apiService = {
       return 1;
     }
   },
+  /**
+   * Get daily exchange rates from USD to a currency for a date range (inclusive)
+   * Days without a published rate (weekends, holidays) are missing from the result
+   * @returns Rates keyed by date (YYYY-MM-DD)
+   */
+  async getExchangeRateHistory(toCurrency: string, startDate: string, endDate: string): Promise<Record<string, number>> {
+    try {
+      const response = await api.get<{
+        from: string;
+        to: string;
+        rates: Record<string, number>;
+      }>(API_ENDPOINTS.CURRENCY.EXCHANGE_RATE_HISTORY, {
+        params: { to: toCurrency, start: startDate, end: endDate }
+      });
+      if (!response.success) {
+        throw new Error(
+          response.error?.message || 'Failed to get exchange rate history'
+        );
+      }
+      return response.data?.rates || {};
+    } catch (error) {
+      console.error('[API] Get exchange rate history error:', error);
+      throw error;
+    }
+  },
   /**
    * Get spending forecast
    * @param forceRefresh - Force refresh even if rate limited (default: false)
@@ -1311,6 +2127,7 @@ export const apiService = {
     predictedAmount: number;
     confidence: 'high' | 'medium' | 'low';
     factors: string[];
+    scheduledAmount?: number;
     rateLimit?: {
       remaining: number;
       resetAt: number;
@@ -1329,7 +2146,7 @@ export const apiService = {
 
           if (!isExpired) {
             logger.debug('[API] Returning cached forecast');
-            return data;
+            return withScheduledExpenses(data);
           }
         }
       }
@@ -1367,7 +2184,7 @@ export const apiService = {
         })
       );
 
-      return data;
+      return withScheduledExpenses(data);
     } catch (error) {
       console.error('[API] Get spending forecast error:', error);
 
@@ -1376,17 +2193,17 @@ export const apiService = {
         const cached = await AsyncStorage.getItem(CACHE_KEY);
         if (cached) {
           logger.warn('[API] Using expired cache due to API error');
-          return JSON.parse(cached).data;
+          return withScheduledExpenses(JSON.parse(cached).data);
         }
       } catch (e) {
         // Ignore cache error
       }
 
-      return {
+      return withScheduledExpenses({
         predictedAmount: 0,
-        confidence: 'low',
+        confidence: 'low' as const,
         factors: []
-      };
+      });
     }
   },
 
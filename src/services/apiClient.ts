@@ -68,6 +68,25 @@ export const onAuthFailure = (callback: AuthFailureCallback): void => {
   authFailureCallback = callback;
 };
 
+/**
+ * Signal for successful mutations (POST/PUT/PATCH/DELETE)
+ * Lets background features (e.g. budget alerts) react to data changes without coupling to every caller
+ */
+type MutationMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+type MutationListener = (url: string, method: MutationMethod) => void;
+const mutationListeners = new Set<MutationListener>();
+
+/**
+ * Subscribe to successful mutations
+ * @returns Unsubscribe function
+ */
+export const onMutation = (listener: MutationListener): (() => void) => {
+  mutationListeners.add(listener);
+  return () => {
+    mutationListeners.delete(listener);
+  };
+};
+
 /**
  * Promise for ongoing token refresh to deduplicate concurrent requests
  */
@@ -252,6 +271,14 @@ const defaultRetryCondition = (error: AxiosError): boolean => {
   );
 };
 
+/**
+ * Whether an error was caused by the network rather than the server
+ * (no response received: offline, DNS failure, timeout)
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  return axios.isAxiosError(error) && !error.response;
+};
+
 /**
  * Execute request with retry logic and exponential backoff
  */
@@ -403,6 +430,7 @@ export const api = {
         // Invalidate related caches after successful mutation
         if (response.data.success) {
           await invalidateRelatedCaches(url);
+          notifyMutation(url, 'POST');
         }
         
         return response.data;
@@ -426,6 +454,7 @@ export const api = {
         // Invalidate related caches after successful mutation
         if (response.data.success) {
           await invalidateRelatedCaches(url);
+          notifyMutation(url, 'PUT');
         }
         
         return response.data;
@@ -449,6 +478,7 @@ export const api = {
         // Invalidate related caches after successful mutation
         if (response.data.success) {
           await invalidateRelatedCaches(url);
+          notifyMutation(url, 'PATCH');
         }
         
         return response.data;
@@ -468,6 +498,7 @@ export const api = {
         // Invalidate related caches after successful mutation
         if (response.data.success) {
           await invalidateRelatedCaches(url);
+          notifyMutation(url, 'DELETE');
         }
         
         return response.data;
@@ -493,13 +524,23 @@ async function invalidateRelatedCaches(url: string): Promise<void> {
       await apiCacheService.invalidate('/expenses');
       await apiCacheService.invalidate('/categories'); // Categories include totalSpent calculated from expenses
       await apiCacheService.invalidate('/analytics'); // Analytics depend on expenses
+      await apiCacheService.invalidate('/accounts'); // Account balances include expenses
     } else if (url.includes('/income')) {
       await apiCacheService.invalidate('/income');
       await apiCacheService.invalidate('/analytics'); // Analytics depend on income
+      await apiCacheService.invalidate('/accounts'); // Account balances include income
+    } else if (url.includes('/transfers')) {
+      await apiCacheService.invalidate('/transfers');
+      await apiCacheService.invalidate('/accounts'); // Account balances include transfers
+    } else if (url.includes('/accounts')) {
+      await apiCacheService.invalidate('/accounts');
     } else if (url.includes('/analytics')) {
       await apiCacheService.invalidate('/analytics');
     } else if (url.includes('/tags')) {
       await apiCacheService.invalidate('/tags');
+    } else if (url.includes('/goals')) {
+      // Includes /goals/:id/contributions - the list embeds each goal's contributions
+      await apiCacheService.invalidate('/goals');
     }
     
     logger.debug(`[API] Invalidated caches for: ${url}`);
@@ -508,6 +549,19 @@ async function invalidateRelatedCaches(url: string): Promise<void> {
   }
 }
 
+/**
+ * Notify mutation listeners (after caches are invalidated so they read fresh data)
+ */
+function notifyMutation(url: string, method: MutationMethod): void {
+  mutationListeners.forEach((listener) => {
+    try {
+      listener(url, method);
+    } catch (error) {
+      logger.error('[API] Mutation listener failed', error);
+    }
+  });
+}
+
 /**
  * Export token manager for use in auth service
  */
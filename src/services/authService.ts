@@ -10,6 +10,14 @@ import { API_ENDPOINTS, STORAGE_KEYS } from '../config/api.config';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import logger from '../utils/logger';
 import { apiCacheService } from './apiCacheService';
+import { offlineQueueService } from './offlineQueueService';
+import { clearCategoryModel } from './categoryLearningService';
+import { clearImportedStatementIds } from './bankStatementService';
+import { clearWidgetData } from './widgetSync';
+import { localDatabase } from './localDatabase';
+import { clearThreadCache } from './aiThreadService';
+import { clearAIActionLog } from './aiActionService';
+import { clearSavedSearches } from './transactionSearchService';
 
 /**
  * User interface
@@ -180,6 +188,24 @@ class AuthService {
       // Always clear local tokens, user data, and API cache
       await tokenManager.clearTokens();
       await apiCacheService.clear();
+
+      // Drop queued offline mutations so they are never replayed for another account
+      await offlineQueueService.clearAll();
+
+      // The local database holds this account's transactions
+      await localDatabase.clear();
+
+      // Learned merchant categories and imported statement ids belong to this account
+      await clearCategoryModel();
+      await clearImportedStatementIds();
+
+      // Home screen widgets must not keep showing this account's balance
+      await clearWidgetData();
+
+      // Saved AI conversations, the log of changes made from them and saved searches are private to this account
+      await clearThreadCache();
+      await clearAIActionLog();
+      await clearSavedSearches();
       
       // Clear exchange rate cache to ensure fresh rates on next login
       // This fixes the bug where currency symbol is correct but value shows in USD
@@ -217,6 +243,14 @@ class AuthService {
       await AsyncStorage.removeItem(STORAGE_KEYS.USER_DATA);
       await AsyncStorage.removeItem('@finly_onboarding_completed');
       await AsyncStorage.removeItem('@finly_income_setup_completed');
+      await offlineQueueService.clearAll();
+      await clearCategoryModel();
+      await clearImportedStatementIds();
+      await clearWidgetData();
+      await localDatabase.clear();
+      await clearThreadCache();
+      await clearAIActionLog();
+      await clearSavedSearches();
     } catch (error: any) {
       console.error('[AuthService] Delete account error:', error);
       throw this.handleError(error);
@@ -0,0 +1,244 @@
+/**
+ * Bank Statement Service
+ * Purpose: Parse OFX/QFX and QIF bank statement downloads into normalized transactions
+ * Features: OFX 1.x (SGML) and 2.x (XML), QIF bank/credit card registers,
+ * FITID de-duplication across imports
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NormalizedTransaction } from './csvImportService';
+import { detectDateFormat, parseAmountValue, parseDateValue, detectDecimalSeparator } from './csvMappingService';
+import logger from '../utils/logger';
+
+const IMPORTED_IDS_STORAGE_KEY = '@finly_imported_statement_ids';
+
+// Cap on remembered ids so the list doesn't grow forever
+const MAX_REMEMBERED_IDS = 20000;
+
+export type StatementFormat = 'ofx' | 'qif';
+
+export interface StatementParseResult {
+  format: StatementFormat;
+  transactions: NormalizedTransaction[];
+  duplicates: number; // Transactions dropped because their FITID was already seen
+  transfers: number; // QIF transfers between the user's own accounts, skipped
+  errors: string[];
+}
+
+/**
+ * Detect the statement format from the file name and content
+ */
+export const detectStatementFormat = (fileName: string, content: string): StatementFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+
+  const head = content.slice(0, 2000).toUpperCase();
+  if (head.includes('<OFX>') || head.includes('OFXHEADER')) return 'ofx';
+  if (/^\s*!TYPE:/m.test(head)) return 'qif';
+  return null;
+};
+
+/**
+ * Read an OFX element value. Works for both SGML (unclosed tags) and XML.
+ */
+const readOFXTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+/**
+ * OFX dates are YYYYMMDD[HHMMSS[.XXX]][[+-]TZ[:name]] - only the date part matters
+ */
+const parseOFXDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return parseDateValue(`${match[1]}-${match[2]}-${match[3]}`, 'YYYY-MM-DD');
+};
+
+const decodeOFXEntities = (value: string): string =>
+  value
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'");
+
+/**
+ * Parse an OFX/QFX statement (bank or credit card)
+ * Negative TRNAMT = debit (expense), positive = credit (income)
+ */
+export const parseOFX = (content: string, defaultCurrency: string): StatementParseResult => {
+  const result: StatementParseResult = { format: 'ofx', transactions: [], duplicates: 0, transfers: 0, errors: [] };
+  const currency = readOFXTag(content, 'CURDEF').toUpperCase() || defaultCurrency;
+  const accountId = readOFXTag(content, 'ACCTID');
+  // Credit card statements come in their own message set
+  const paymentType = /<CREDITCARDMSGSRSV1>/i.test(content) ? 'credit_card' : 'debit_card';
+  const seen = new Set<string>();
+
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  if (blocks.length === 0) {
+    result.errors.push('No transactions found in this statement');
+    return result;
+  }
+
+  blocks.forEach((rawBlock, index) => {
+    const block = rawBlock.split(/<\/STMTTRN>/i)[0];
+    const fitId = readOFXTag(block, 'FITID');
+    const date = parseOFXDate(readOFXTag(block, 'DTPOSTED'));
+    const amount = parseAmountValue(readOFXTag(block, 'TRNAMT'), '.');
+    const name = decodeOFXEntities(readOFXTag(block, 'NAME') || readOFXTag(block, 'PAYEE'));
+    const memo = decodeOFXEntities(readOFXTag(block, 'MEMO'));
+
+    if (!date || amount === null || amount === 0) {
+      result.errors.push(`Transaction ${index + 1}: missing date or amount`);
+      return;
+    }
+
+    const externalId = fitId ? `${accountId}:${fitId}` : undefined;
+    if (externalId) {
+      if (seen.has(externalId)) {
+        result.duplicates++;
+        return;
+      }
+      seen.add(externalId);
+    }
+
+    result.transactions.push({
+      date,
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'expense' : 'income',
+      description: name || memo || readOFXTag(block, 'TRNTYPE') || 'Bank transaction',
+      notes: name && memo && memo !== name ? memo : undefined,
+      currency,
+      tags: [],
+      paymentType,
+      externalId,
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Parse a QIF bank/credit card register
+ * Records are separated by "^"; D=date, T/U=amount, P=payee, M=memo, L=category, N=number
+ * QIF has no stable ids, so one is derived from the record contents
+ * Transfers to or from another account ("L[Account]") are skipped rather than imported as spending or income
+ */
+export const parseQIF = (content: string, defaultCurrency: string): StatementParseResult => {
+  const result: StatementParseResult = { format: 'qif', transactions: [], duplicates: 0, transfers: 0, errors: [] };
+
+  const typeMatch = content.match(/^\s*!Type:([^\r\n]+)/im);
+  const accountType = typeMatch ? typeMatch[1].trim().toLowerCase() : 'bank';
+  if (!['bank', 'ccard', 'cash', 'oth a', 'oth l'].includes(accountType)) {
+    result.errors.push(`Unsupported QIF account type "${typeMatch?.[1].trim()}"`);
+    return result;
+  }
+
+  const records = content
+    .split(/^\^\s*$/m)
+    .map((record) =>
+      record
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith('!'))
+    )
+    .filter((lines) => lines.length > 0);
+
+  const field = (lines: string[], code: string) =>
+    lines.find((line) => line.startsWith(code))?.slice(1).trim() ?? '';
+
+  // QIF dates use M/D/YY, M/D'YY, D/M/YYYY... - normalize the apostrophe and detect order
+  const rawDates = records.map((lines) => field(lines, 'D').replace("'", '/'));
+  const dateFormat = detectDateFormat(rawDates);
+  const decimalSeparator = detectDecimalSeparator(records.map((lines) => field(lines, 'T') || field(lines, 'U')));
+  const occurrences = new Map<string, number>();
+
+  records.forEach((lines, index) => {
+    const date = parseDateValue(rawDates[index], dateFormat);
+    const amount = parseAmountValue(field(lines, 'T') || field(lines, 'U'), decimalSeparator);
+    if (!date || amount === null || amount === 0) {
+      result.errors.push(`Record ${index + 1}: missing date or amount`);
+      return;
+    }
+
+    // Categories like "Food:Groceries" or "[Savings]" (a transfer to another account)
+    const category = field(lines, 'L');
+    if (category.startsWith('[')) {
+      result.transfers++;
+      return;
+    }
+    const payee = field(lines, 'P');
+    const memo = field(lines, 'M');
+
+    const baseId = `qif:${date}:${amount}:${payee.toLowerCase()}:${field(lines, 'N')}`;
+    const occurrence = (occurrences.get(baseId) || 0) + 1;
+    occurrences.set(baseId, occurrence);
+
+    result.transactions.push({
+      date,
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'expense' : 'income',
+      description: payee || memo || 'Bank transaction',
+      notes: payee && memo ? memo : undefined,
+      category: category ? category.split(':').pop()!.trim() : undefined,
+      currency: defaultCurrency,
+      tags: [],
+      paymentType: accountType === 'ccard' ? 'credit_card' : accountType === 'cash' ? 'cash' : 'debit_card',
+      externalId: `${baseId}:${occurrence}`,
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Parse a statement in either supported format
+ */
+export const parseStatement = (
+  format: StatementFormat,
+  content: string,
+  defaultCurrency: string
+): StatementParseResult =>
+  format === 'ofx' ? parseOFX(content, defaultCurrency) : parseQIF(content, defaultCurrency);
+
+const getImportedIds = async (): Promise<string[]> => {
+  try {
+    const data = await AsyncStorage.getItem(IMPORTED_IDS_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    logger.error('[BankStatement] Error loading imported ids:', error);
+    return [];
+  }
+};
+
+/**
+ * Drop transactions whose FITID was imported before
+ */
+export const filterPreviouslyImported = async (
+  transactions: NormalizedTransaction[]
+): Promise<{ transactions: NormalizedTransaction[]; duplicates: number }> => {
+  const imported = new Set(await getImportedIds());
+  const fresh = transactions.filter((tx) => !tx.externalId || !imported.has(tx.externalId));
+  return { transactions: fresh, duplicates: transactions.length - fresh.length };
+};
+
+/**
+ * Remember FITIDs after a successful import so re-downloaded statements don't duplicate
+ */
+export const markStatementImported = async (transactions: NormalizedTransaction[]): Promise<void> => {
+  const ids = transactions.map((tx) => tx.externalId).filter((id): id is string => !!id);
+  if (ids.length === 0) return;
+
+  const existing = await getImportedIds();
+  const merged = Array.from(new Set([...existing, ...ids])).slice(-MAX_REMEMBERED_IDS);
+  await AsyncStorage.setItem(IMPORTED_IDS_STORAGE_KEY, JSON.stringify(merged));
+};
+
+/**
+ * Forget remembered FITIDs (e.g. on logout)
+ */
+export const clearImportedStatementIds = async (): Promise<void> => {
+  await AsyncStorage.removeItem(IMPORTED_IDS_STORAGE_KEY);
+};
@@ -0,0 +1,184 @@
+/**
+ * Budget Alert Service
+ * Purpose: Warn users with local notifications when a category budget is about to run out
+ * Features: Configurable thresholds (% of budgetLimit, or of the ROLLOVER fund), one alert per threshold per month,
+ * quiet hours (via notificationService), per-category opt-out
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Category } from '../types';
+import { apiService } from './api';
+import { notificationService, BUDGET_ALERTS_CHANNEL_ID } from './notificationService';
+import logger from '../utils/logger';
+
+const SETTINGS_KEY = '@finly_budget_alert_settings';
+const SENT_ALERTS_KEY = '@finly_budget_alerts_sent';
+
+export const BUDGET_ALERT_THRESHOLD_OPTIONS = [50, 80, 90, 100];
+
+export interface BudgetAlertSettings {
+  enabled: boolean;
+  thresholds: number[]; // Percent of budget used
+  mutedCategoryIds: string[];
+}
+
+const DEFAULT_SETTINGS: BudgetAlertSettings = {
+  enabled: true,
+  thresholds: [50, 80, 100],
+  mutedCategoryIds: [],
+};
+
+export interface BudgetUsage {
+  spent: number;
+  budget: number; // budgetLimit, or carried over + this month's allocation for ROLLOVER
+  percentUsed: number;
+  isRollover: boolean;
+}
+
+// Thresholds already notified, per category, for one month
+interface SentAlerts {
+  month: string; // YYYY-MM
+  sent: Record<string, number[]>;
+}
+
+const getMonthKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * How much of a category's budget has been used this month (null when it has no budget)
+ */
+export const getBudgetUsage = (category: Category): BudgetUsage | null => {
+  const spent = category.totalSpent || 0;
+
+  if (category.budgetType === 'ROLLOVER' && category.rollover) {
+    // Same basis as CategoryCard: the fund available at the start of the month
+    const budget = category.rollover.carriedOver + category.rollover.monthlyAllocation;
+    if (budget <= 0) return null;
+    return { spent, budget, percentUsed: (spent / budget) * 100, isRollover: true };
+  }
+
+  if (!category.budgetLimit || category.budgetLimit <= 0) return null;
+  return {
+    spent,
+    budget: category.budgetLimit,
+    percentUsed: (spent / category.budgetLimit) * 100,
+    isRollover: false,
+  };
+};
+
+/**
+ * Get budget alert settings
+ */
+export const getBudgetAlertSettings = async (): Promise<BudgetAlertSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    logger.error('[BudgetAlerts] Failed to load settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Save budget alert settings
+ */
+export const saveBudgetAlertSettings = async (settings: BudgetAlertSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    logger.error('[BudgetAlerts] Failed to save settings:', error);
+    throw error;
+  }
+};
+
+const loadSentAlerts = async (month: string): Promise<SentAlerts> => {
+  try {
+    const stored = await AsyncStorage.getItem(SENT_ALERTS_KEY);
+    const parsed: SentAlerts | null = stored ? JSON.parse(stored) : null;
+    // A new month starts with a clean slate
+    return parsed && parsed.month === month ? parsed : { month, sent: {} };
+  } catch (error) {
+    logger.error('[BudgetAlerts] Failed to load sent alerts:', error);
+    return { month, sent: {} };
+  }
+};
+
+const buildAlertContent = (category: Category, usage: BudgetUsage, threshold: number) => {
+  const percent = Math.round(usage.percentUsed);
+  const budgetName = usage.isRollover ? `${category.name} fund` : `${category.name} budget`;
+
+  if (threshold >= 100) {
+    return {
+      title: `${budgetName} exceeded`,
+      body: `You've spent ${percent}% of your ${budgetName} this month.`,
+    };
+  }
+  return {
+    title: `${percent}% of ${budgetName} used`,
+    body: `Heads up - you've used ${percent}% of your ${budgetName} this month.`,
+  };
+};
+
+let evaluationInFlight: Promise<number> | null = null;
+
+/**
+ * Check every budgeted category against the alert thresholds and notify once per threshold per month
+ * Only the highest newly crossed threshold is notified (no 50% alert right after an 80% one)
+ * @returns Number of alerts scheduled
+ */
+export const evaluateBudgetAlerts = async (): Promise<number> => {
+  if (evaluationInFlight) return evaluationInFlight;
+
+  evaluationInFlight = (async () => {
+    const settings = await getBudgetAlertSettings();
+    if (!settings.enabled || settings.thresholds.length === 0) return 0;
+    if (!(await notificationService.areNotificationsEnabled())) return 0;
+
+    const categories = await apiService.getCategories(true);
+    const month = getMonthKey();
+    const sentAlerts = await loadSentAlerts(month);
+    const thresholds = [...settings.thresholds].sort((a, b) => a - b);
+    let scheduled = 0;
+
+    for (const category of categories) {
+      if (settings.mutedCategoryIds.includes(category.id)) continue;
+
+      const usage = getBudgetUsage(category);
+      if (!usage) continue;
+
+      const crossed = thresholds.filter((t) => usage.percentUsed >= t);
+      const alreadySent = sentAlerts.sent[category.id] || [];
+      const newlyCrossed = crossed.filter((t) => !alreadySent.includes(t));
+      if (newlyCrossed.length === 0) continue;
+
+      const threshold = newlyCrossed[newlyCrossed.length - 1];
+      const identifier = await notificationService.scheduleLocalNotification({
+        // One pending alert per category: a newer threshold replaces one held back by quiet hours
+        identifier: `budget-alert-${category.id}-${month}`,
+        ...buildAlertContent(category, usage, threshold),
+        data: { type: 'budget-alert', categoryId: category.id, threshold },
+        channelId: BUDGET_ALERTS_CHANNEL_ID,
+      });
+
+      if (identifier) {
+        sentAlerts.sent[category.id] = Array.from(new Set([...alreadySent, ...crossed]));
+        scheduled++;
+      }
+    }
+
+    if (scheduled > 0) {
+      await AsyncStorage.setItem(SENT_ALERTS_KEY, JSON.stringify(sentAlerts));
+      logger.info(`[BudgetAlerts] Scheduled ${scheduled} budget alert(s)`);
+    }
+    return scheduled;
+  })();
+
+  try {
+    return await evaluationInFlight;
+  } catch (error) {
+    logger.error('[BudgetAlerts] Evaluation failed:', error);
+    return 0;
+  } finally {
+    evaluationInFlight = null;
+  }
+};
@@ -0,0 +1,200 @@
+/**
+ * Bulk Edit Service
+ * Purpose: Apply one change to many transactions at once from the transactions list
+ * Features: Change category, add/remove tags, change payment method, shift dates and delete
+ * through the batch endpoints, with an undo payload that restores the previous values.
+ * Offline (or for transactions still waiting to sync) each change goes through the
+ * single-item API so it lands in the offline queue.
+ */
+
+import { apiService } from './api';
+import { isOfflineId, offlineQueueService } from './offlineQueueService';
+import { isSplitTransaction } from './splitService';
+import { PaymentMethod, UnifiedTransaction } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BulkChange =
+  | { kind: 'category'; categoryId: string }
+  | { kind: 'tags'; addTagIds: string[]; removeTagIds: string[] }
+  | { kind: 'paymentMethod'; paymentMethod: PaymentMethod }
+  | { kind: 'shiftDate'; days: number };
+
+interface ExpenseUpdate {
+  id: string;
+  categoryId?: string | null; // null: uncategorized
+  tags?: string[];
+  paymentMethod?: string;
+  date?: string;
+}
+
+interface IncomeUpdate {
+  id: string;
+  date: string;
+}
+
+/**
+ * Everything needed to put the edited transactions back the way they were
+ */
+export interface BulkUndo {
+  expenses: ExpenseUpdate[];
+  income: IncomeUpdate[];
+}
+
+export interface BulkChangeResult {
+  updated: number;
+  skipped: number; // Transactions the change doesn't apply to (income for tags, split expenses for category...)
+  undo: BulkUndo;
+}
+
+/**
+ * Whether a transaction can be selected for bulk actions (transfers are edited from their accounts)
+ */
+export const isBulkEditable = (tx: UnifiedTransaction): boolean => tx.type !== 'transfer';
+
+/**
+ * Move a date by whole days, keeping date-only values date-only
+ */
+export const shiftDate = (date: string, days: number): string => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    const shifted = new Date(`${date}T12:00:00`);
+    shifted.setDate(shifted.getDate() + days);
+    const month = String(shifted.getMonth() + 1).padStart(2, '0');
+    const day = String(shifted.getDate()).padStart(2, '0');
+    return `${shifted.getFullYear()}-${month}-${day}`;
+  }
+  return new Date(new Date(date).getTime() + days * DAY_MS).toISOString();
+};
+
+/**
+ * The update a change makes to one expense, or null if it doesn't apply
+ */
+const buildExpenseUpdate = (tx: UnifiedTransaction, change: BulkChange): ExpenseUpdate | null => {
+  switch (change.kind) {
+    case 'category':
+      // A split expense's categories live on its splits
+      if (isSplitTransaction(tx) || tx.category?.id === change.categoryId) return null;
+      return { id: tx.id, categoryId: change.categoryId };
+    case 'tags': {
+      const current = (tx.tags || []).map((tag) => tag.id);
+      const next = [
+        ...current.filter((id) => !change.removeTagIds.includes(id)),
+        ...change.addTagIds.filter((id) => !current.includes(id)),
+      ];
+      const unchanged = next.length === current.length && next.every((id) => current.includes(id));
+      return unchanged ? null : { id: tx.id, tags: next };
+    }
+    case 'paymentMethod':
+      return tx.paymentMethod === change.paymentMethod ? null : { id: tx.id, paymentMethod: change.paymentMethod };
+    case 'shiftDate':
+      return change.days === 0 ? null : { id: tx.id, date: shiftDate(tx.date, change.days) };
+  }
+};
+
+/**
+ * Previous values of the fields an update touches
+ */
+const buildExpenseRestore = (tx: UnifiedTransaction, update: ExpenseUpdate): ExpenseUpdate => ({
+  id: tx.id,
+  ...(update.categoryId !== undefined && { categoryId: tx.category?.id ?? null }),
+  ...(update.tags !== undefined && { tags: (tx.tags || []).map((tag) => tag.id) }),
+  ...(update.paymentMethod !== undefined && { paymentMethod: tx.paymentMethod }),
+  ...(update.date !== undefined && { date: tx.date }),
+});
+
+/**
+ * Send expense and income updates, batching what the server already knows about
+ */
+const sendUpdates = async (expenses: ExpenseUpdate[], income: IncomeUpdate[]): Promise<void> => {
+  const offline = await offlineQueueService.shouldQueue();
+  const batchedExpenses = offline ? [] : expenses.filter((update) => !isOfflineId(update.id));
+  const singleExpenses = expenses.filter((update) => !batchedExpenses.includes(update));
+  const batchedIncome = offline ? [] : income.filter((update) => !isOfflineId(update.id));
+  const singleIncome = income.filter((update) => !batchedIncome.includes(update));
+
+  if (batchedExpenses.length > 0) {
+    await apiService.updateExpensesBatch({ updates: batchedExpenses });
+  }
+  for (const { id, date, ...rest } of singleExpenses) {
+    await apiService.updateExpense(id, { ...rest, ...(date && { date: new Date(date) }) });
+  }
+  if (batchedIncome.length > 0) {
+    await apiService.updateIncomeTransactionsBatch({ updates: batchedIncome });
+  }
+  for (const { id, date } of singleIncome) {
+    await apiService.updateIncomeTransaction(id, { date });
+  }
+};
+
+/**
+ * Apply a change to the selected transactions
+ */
+export const applyBulkChange = async (
+  transactions: UnifiedTransaction[],
+  change: BulkChange
+): Promise<BulkChangeResult> => {
+  const expenseUpdates: ExpenseUpdate[] = [];
+  const incomeUpdates: IncomeUpdate[] = [];
+  const undo: BulkUndo = { expenses: [], income: [] };
+  let skipped = 0;
+
+  for (const tx of transactions) {
+    if (tx.type === 'expense') {
+      const update = buildExpenseUpdate(tx, change);
+      if (!update) {
+        skipped++;
+        continue;
+      }
+      expenseUpdates.push(update);
+      undo.expenses.push(buildExpenseRestore(tx, update));
+    } else if (tx.type === 'income' && change.kind === 'shiftDate' && change.days !== 0) {
+      incomeUpdates.push({ id: tx.id, date: shiftDate(tx.date, change.days) });
+      undo.income.push({ id: tx.id, date: tx.date });
+    } else {
+      skipped++;
+    }
+  }
+
+  await sendUpdates(expenseUpdates, incomeUpdates);
+  return { updated: expenseUpdates.length + incomeUpdates.length, skipped, undo };
+};
+
+/**
+ * Restore the values a bulk change replaced
+ */
+export const undoBulkChange = (undo: BulkUndo): Promise<void> => sendUpdates(undo.expenses, undo.income);
+
+/**
+ * Delete the selected transactions
+ */
+export const deleteTransactions = async (transactions: UnifiedTransaction[]): Promise<void> => {
+  const offline = await offlineQueueService.shouldQueue();
+  const expenses = transactions.filter((tx) => tx.type === 'expense');
+  const income = transactions.filter((tx) => tx.type === 'income');
+
+  const batchedExpenses = offline ? [] : expenses.filter((tx) => !isOfflineId(tx.id));
+  const singleExpenses = expenses.filter((tx) => !batchedExpenses.includes(tx));
+  const batchedIncome = offline ? [] : income.filter((tx) => !isOfflineId(tx.id));
+  const singleIncome = income.filter((tx) => !batchedIncome.includes(tx));
+
+  if (batchedExpenses.length > 0) {
+    await apiService.deleteExpensesBatch(batchedExpenses.map((tx) => tx.id));
+  }
+  for (const tx of singleExpenses) {
+    await apiService.deleteExpense(tx.id);
+  }
+  if (batchedIncome.length > 0) {
+    await apiService.deleteIncomeTransactionsBatch(batchedIncome.map((tx) => tx.id));
+  }
+  for (const tx of singleIncome) {
+    await apiService.deleteIncomeTransaction(tx.id);
+  }
+};
+
+export default {
+  isBulkEditable,
+  shiftDate,
+  applyBulkChange,
+  undoBulkChange,
+  deleteTransactions,
+};
@@ -5,10 +5,59 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { CategoryRule } from '../types';
+import { CategoryRule, PaymentMethod } from '../types';
+import {
+  CORRECTIONS_BEFORE_RULE,
+  getLearnedCategoryId,
+  normalizeDescription,
+  recordCorrection,
+} from './categoryLearningService';
 
 const RULES_STORAGE_KEY = '@finly_category_rules';
 
+/**
+ * Transaction fields a rule can be evaluated against
+ */
+export interface RuleInput {
+  description: string;
+  amount?: number; // USD
+  paymentMethod?: PaymentMethod;
+}
+
+/**
+ * Combined outcome of every rule that matched a transaction
+ */
+export interface RuleMatchResult {
+  categoryId?: string;
+  tagIds: string[];
+  notes?: string;
+  matchedRuleIds: string[];
+}
+
+/**
+ * Suggested rule produced after repeated, consistent user corrections
+ */
+export interface RuleProposal {
+  merchantKey: string;
+  categoryId: string;
+  corrections: number;
+  rule: Omit<CategoryRule, 'id'>;
+}
+
+// Compiled regex cache keyed by pattern - rules are evaluated for every row of an import
+const regexCache = new Map<string, RegExp | null>();
+
+function compileRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+}
+
 /**
  * Get all categorization rules
  */
@@ -26,11 +75,17 @@ export async function getCategoryRules(): Promise<CategoryRule[]> {
  * Save a categorization rule
  */
 export async function saveCategoryRule(rule: Omit<CategoryRule, 'id'>): Promise<CategoryRule> {
+  const validationError = validateCategoryRule(rule);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
   try {
     const rules = await getCategoryRules();
     const newRule: CategoryRule = {
       ...rule,
       id: Date.now().toString(),
+      createdAt: rule.createdAt || new Date().toISOString(),
     };
     rules.push(newRule);
     await AsyncStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
@@ -41,6 +96,35 @@ export async function saveCategoryRule(rule: Omit<CategoryRule, 'id'>): Promise<
   }
 }
 
+/**
+ * Update an existing categorization rule
+ */
+export async function updateCategoryRule(
+  ruleId: string,
+  updates: Partial<Omit<CategoryRule, 'id'>>
+): Promise<CategoryRule> {
+  const rules = await getCategoryRules();
+  const index = rules.findIndex((r) => r.id === ruleId);
+  if (index === -1) {
+    throw new Error('Rule not found');
+  }
+
+  const updated: CategoryRule = { ...rules[index], ...updates, id: ruleId };
+  const validationError = validateCategoryRule(updated);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  try {
+    rules[index] = updated;
+    await AsyncStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+    return updated;
+  } catch (error) {
+    console.error('Error updating rule:', error);
+    throw error;
+  }
+}
+
 /**
  * Delete a categorization rule
  */
@@ -55,6 +139,130 @@ export async function deleteCategoryRule(ruleId: string): Promise<void> {
   }
 }
 
+/**
+ * Add rules from a backup. Invalid rules and rules identical to an existing one are skipped.
+ * Returns the number of rules added
+ */
+export async function importCategoryRules(imported: Array<Omit<CategoryRule, 'id'>>): Promise<number> {
+  const rules = await getCategoryRules();
+  const signature = (rule: Omit<CategoryRule, 'id'>) =>
+    JSON.stringify([rule.merchantPattern.toLowerCase(), rule.matchMode || 'contains', rule.categoryId || null]);
+  const existing = new Set(rules.map(signature));
+  const baseId = Date.now();
+
+  const added = imported
+    .filter((rule) => {
+      const key = signature(rule);
+      if (validateCategoryRule(rule) || existing.has(key)) return false;
+      existing.add(key);
+      return true;
+    })
+    .map((rule, index) => ({ ...rule, id: `${baseId}-${index}` }));
+
+  if (added.length > 0) {
+    await AsyncStorage.setItem(RULES_STORAGE_KEY, JSON.stringify([...rules, ...added]));
+  }
+  return added.length;
+}
+
+/**
+ * Validate a rule before it is stored
+ * Returns an error message, or null when the rule is valid
+ */
+export function validateCategoryRule(rule: Omit<CategoryRule, 'id'>): string | null {
+  if (!rule.merchantPattern.trim()) {
+    return 'Pattern is required';
+  }
+  if (rule.matchMode === 'regex' && !compileRegex(rule.merchantPattern)) {
+    return 'Pattern is not a valid regular expression';
+  }
+  if (
+    rule.minAmount !== undefined &&
+    rule.maxAmount !== undefined &&
+    rule.minAmount > rule.maxAmount
+  ) {
+    return 'Minimum amount cannot be greater than maximum amount';
+  }
+  if (!rule.categoryId && !rule.tagIds?.length && !rule.notes?.trim()) {
+    return 'Rule must set a category, tags or notes';
+  }
+  return null;
+}
+
+/**
+ * Check whether a single rule matches a transaction
+ * Amount and payment method conditions only apply when the input provides them: a description-only
+ * lookup (e.g. categorizeByRules) still matches a rule limited to certain amounts or payment methods
+ */
+export function matchesRule(rule: CategoryRule, input: RuleInput): boolean {
+  if (!rule.isActive) return false;
+
+  const description = input.description.trim().toLowerCase();
+  const pattern = rule.merchantPattern.trim().toLowerCase();
+  if (!description || !pattern) return false;
+
+  let patternMatches: boolean;
+  switch (rule.matchMode ?? 'contains') {
+    case 'exact':
+      patternMatches = description === pattern;
+      break;
+    case 'starts_with':
+      patternMatches = description.startsWith(pattern);
+      break;
+    case 'regex':
+      patternMatches = compileRegex(rule.merchantPattern)?.test(input.description) ?? false;
+      break;
+    default:
+      // Learned rules use the punctuation-free merchant key ("amazon com" for "AMAZON.COM*MK12")
+      patternMatches = description.includes(pattern) || normalizeDescription(description).includes(pattern);
+  }
+  if (!patternMatches) return false;
+
+  if (input.amount !== undefined) {
+    const amount = Math.abs(input.amount);
+    if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+    if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+  }
+
+  if (input.paymentMethod && rule.paymentMethods?.length) {
+    if (!rule.paymentMethods.includes(input.paymentMethod)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Evaluate all rules against a transaction
+ * Rules run in priority order (highest first, then oldest first). The first matching
+ * rule that sets a category or notes wins that field; tags from every match are combined.
+ */
+export function evaluateRules(input: RuleInput, rules: CategoryRule[]): RuleMatchResult {
+  const result: RuleMatchResult = { tagIds: [], matchedRuleIds: [] };
+
+  const ordered = rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index);
+
+  for (const { rule } of ordered) {
+    if (!matchesRule(rule, input)) continue;
+
+    result.matchedRuleIds.push(rule.id);
+    if (!result.categoryId && rule.categoryId) {
+      result.categoryId = rule.categoryId;
+    }
+    if (!result.notes && rule.notes?.trim()) {
+      result.notes = rule.notes.trim();
+    }
+    for (const tagId of rule.tagIds ?? []) {
+      if (!result.tagIds.includes(tagId)) {
+        result.tagIds.push(tagId);
+      }
+    }
+  }
+
+  return result;
+}
+
 /**
  * Apply categorization rules to a merchant name
  */
@@ -62,20 +270,65 @@ export function categorizeByRules(
   merchant: string,
   rules: CategoryRule[]
 ): string | null {
-  const merchantLower = merchant.toLowerCase();
+  return evaluateRules({ description: merchant }, rules).categoryId ?? null;
+}
 
-  for (const rule of rules) {
-    if (!rule.isActive) continue;
+/**
+ * Load stored rules and evaluate them against a batch of transactions
+ * Convenience for import/entry flows that categorize many rows at once
+ */
+export async function applyCategoryRules<T extends RuleInput>(
+  transactions: T[]
+): Promise<Array<{ transaction: T; match: RuleMatchResult }>> {
+  const rules = await getCategoryRules();
+  return transactions.map((transaction) => ({
+    transaction,
+    match: evaluateRules(transaction, rules),
+  }));
+}
 
-    // Simple pattern matching (in production, use regex)
-    const pattern = rule.merchantPattern.toLowerCase();
-    
-    if (merchantLower.includes(pattern) || pattern.includes(merchantLower)) {
-      return rule.categoryId;
-    }
+/**
+ * Record a category correction made by the user
+ * Returns a rule proposal once the same merchant has been moved to the same category
+ * CORRECTIONS_BEFORE_RULE times in a row, unless a rule already covers it or the
+ * user has declined that proposal before. Accept it by passing `rule` to saveCategoryRule.
+ */
+export async function learnFromCorrection(correction: {
+  description: string;
+  fromCategoryId?: string;
+  toCategoryId: string;
+}): Promise<RuleProposal | null> {
+  if (!correction.toCategoryId || correction.fromCategoryId === correction.toCategoryId) {
+    return null;
   }
 
-  return null;
+  const learned = await recordCorrection(correction.description, correction.toCategoryId);
+  if (!learned) return null;
+
+  const { merchantKey, stats } = learned;
+  if (
+    stats.correctionStreak < CORRECTIONS_BEFORE_RULE ||
+    stats.dismissedCategoryIds.includes(correction.toCategoryId)
+  ) {
+    return null;
+  }
+
+  const rules = await getCategoryRules();
+  if (evaluateRules({ description: correction.description }, rules).categoryId === correction.toCategoryId) {
+    return null;
+  }
+
+  return {
+    merchantKey,
+    categoryId: correction.toCategoryId,
+    corrections: stats.correctionStreak,
+    rule: {
+      merchantPattern: merchantKey,
+      matchMode: 'contains',
+      categoryId: correction.toCategoryId,
+      isActive: true,
+    },
+  };
 }
 
 /**
@@ -93,6 +346,12 @@ export function smartCategorize(merchant: string, categories: Array<{ id: string
     return matched?.id || categories.find(c => c.name.toLowerCase() === 'other')?.id || categories[0]?.id || '';
   };
 
+  // Prefer what the user has taught us for this merchant
+  const learnedCategoryId = getLearnedCategoryId(merchant);
+  if (learnedCategoryId && categories.some(c => c.id === learnedCategoryId)) {
+    return learnedCategoryId;
+  }
+
   // Built-in smart categorization
   if (
     merchantLower.match(/\b(starbucks|coffee|cafe|restaurant|food|dining|mcdonalds|chipotle|subway|pizza|burger|taco|waffle|bakery)\b/)
@@ -131,8 +390,15 @@ export function smartCategorize(merchant: string, categories: Array<{ id: string
 export default {
   getCategoryRules,
   saveCategoryRule,
+  updateCategoryRule,
   deleteCategoryRule,
+  importCategoryRules,
+  validateCategoryRule,
+  matchesRule,
+  evaluateRules,
   categorizeByRules,
+  applyCategoryRules,
+  learnFromCorrection,
   smartCategorize,
 };
 
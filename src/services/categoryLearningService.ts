@@ -0,0 +1,175 @@
+/**
+ * Category Learning Service
+ * Purpose: Learns merchant -> category preferences from the user's own categorizations
+ * Keeps a per-merchant frequency model and tracks consistent corrections so that
+ * categorizationService can suggest categories and propose rules
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import logger from '../utils/logger';
+
+const MODEL_STORAGE_KEY = '@finly_category_model';
+
+// Consistent corrections to the same category before a rule is proposed
+export const CORRECTIONS_BEFORE_RULE = 3;
+
+// A learned category must account for at least this share of a merchant's history
+const MIN_CONFIDENCE = 0.6;
+
+export interface MerchantCategoryStats {
+  counts: Record<string, number>; // categoryId -> times used
+  lastCorrectionCategoryId?: string;
+  correctionStreak: number; // Consecutive corrections to lastCorrectionCategoryId
+  dismissedCategoryIds: string[]; // Rule proposals the user declined
+  updatedAt: string;
+}
+
+type CategoryModel = Record<string, MerchantCategoryStats>;
+
+let model: CategoryModel | null = null;
+
+/**
+ * Reduce a description to lowercase words - numbers and punctuation become spaces
+ * "AMAZON.COM*MK1234" -> "amazon com mk"
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/#\s*\d+/g, ' ')
+    .replace(/\d+/g, ' ')
+    .replace(/[^\p{L}\s&']/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a description to a stable merchant key
+ * "STARBUCKS #1234 - 3 items" -> "starbucks"
+ */
+export function normalizeMerchant(description: string): string {
+  return normalizeDescription(description.split(' - ')[0])
+    .split(' ')
+    .slice(0, 3)
+    .join(' ');
+}
+
+/**
+ * Load the model from storage (cached after the first call)
+ */
+export async function loadCategoryModel(): Promise<void> {
+  if (model) return;
+  try {
+    const data = await AsyncStorage.getItem(MODEL_STORAGE_KEY);
+    model = data ? JSON.parse(data) : {};
+  } catch (error) {
+    logger.error('[CategoryLearning] Error loading model:', error);
+    model = {};
+  }
+}
+
+async function persist(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(MODEL_STORAGE_KEY, JSON.stringify(model));
+  } catch (error) {
+    logger.error('[CategoryLearning] Error saving model:', error);
+  }
+}
+
+async function getStats(merchantKey: string): Promise<MerchantCategoryStats> {
+  await loadCategoryModel();
+  if (!model![merchantKey]) {
+    model![merchantKey] = {
+      counts: {},
+      correctionStreak: 0,
+      dismissedCategoryIds: [],
+      updatedAt: new Date().toISOString(),
+    };
+  }
+  return model![merchantKey];
+}
+
+/**
+ * Record that a transaction was saved with a category
+ */
+export async function recordCategoryUsage(description: string, categoryId: string): Promise<void> {
+  const merchantKey = normalizeMerchant(description);
+  if (!merchantKey || !categoryId) return;
+
+  const stats = await getStats(merchantKey);
+  stats.counts[categoryId] = (stats.counts[categoryId] || 0) + 1;
+  stats.updatedAt = new Date().toISOString();
+  await persist();
+}
+
+/**
+ * Record a user correction from one category to another
+ * Returns the updated stats so callers can decide whether to propose a rule
+ */
+export async function recordCorrection(
+  description: string,
+  toCategoryId: string
+): Promise<{ merchantKey: string; stats: MerchantCategoryStats } | null> {
+  const merchantKey = normalizeMerchant(description);
+  if (!merchantKey || !toCategoryId) return null;
+
+  const stats = await getStats(merchantKey);
+  stats.counts[toCategoryId] = (stats.counts[toCategoryId] || 0) + 1;
+  if (stats.lastCorrectionCategoryId === toCategoryId) {
+    stats.correctionStreak += 1;
+  } else {
+    stats.lastCorrectionCategoryId = toCategoryId;
+    stats.correctionStreak = 1;
+  }
+  stats.updatedAt = new Date().toISOString();
+  await persist();
+
+  return { merchantKey, stats };
+}
+
+/**
+ * Remember that the user declined a rule proposal so it isn't asked again
+ */
+export async function dismissRuleProposal(merchantKey: string, categoryId: string): Promise<void> {
+  const stats = await getStats(merchantKey);
+  if (!stats.dismissedCategoryIds.includes(categoryId)) {
+    stats.dismissedCategoryIds.push(categoryId);
+  }
+  stats.correctionStreak = 0;
+  await persist();
+}
+
+/**
+ * Most frequently used category for a merchant, if the model is confident
+ * Synchronous - returns null until loadCategoryModel() has completed
+ */
+export function getLearnedCategoryId(description: string): string | null {
+  if (!model) return null;
+  const stats = model[normalizeMerchant(description)];
+  if (!stats) return null;
+
+  const entries = Object.entries(stats.counts);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  if (total === 0) return null;
+
+  const [categoryId, count] = entries.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  return count / total >= MIN_CONFIDENCE ? categoryId : null;
+}
+
+/**
+ * Clear the learned model (e.g. on logout)
+ */
+export async function clearCategoryModel(): Promise<void> {
+  model = {};
+  await AsyncStorage.removeItem(MODEL_STORAGE_KEY);
+}
+
+export default {
+  normalizeDescription,
+  normalizeMerchant,
+  loadCategoryModel,
+  recordCategoryUsage,
+  recordCorrection,
+  dismissRuleProposal,
+  getLearnedCategoryId,
+  clearCategoryModel,
+};
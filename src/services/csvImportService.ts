@@ -6,6 +6,10 @@
 
 import { api } from './apiClient';
 import { API_ENDPOINTS } from '../config/api.config';
+import { getCategoryRules, evaluateRules } from './categorizationService';
+import { getLearnedCategoryId, loadCategoryModel } from './categoryLearningService';
+import { Category, PaymentMethod, Tag } from '../types';
+import { parseCSV, toCSV } from '../utils/csvParser';
 
 export interface ImportJobStatus {
   id: string;
@@ -32,14 +36,17 @@ export interface ImportJobStatus {
 
 /**
  * Start CSV import job
+ * @param accountIds - Finly account id for each value of the Wallet `account` column
  * Returns job ID for status polling
  */
 export const startCSVImport = async (
-  csvContent: string
+  csvContent: string,
+  accountIds?: Record<string, string>
 ): Promise<{ jobId: string }> => {
   try {
     const response = await api.post(API_ENDPOINTS.IMPORT.CSV, {
       csvContent,
+      ...(accountIds && Object.keys(accountIds).length > 0 && { accountIds }),
     });
 
     if (!response.success || !response.data?.jobId) {
@@ -127,12 +134,11 @@ export const pollImportStatus = async (
  */
 export const validateWalletCSV = (csvContent: string): { valid: boolean; error?: string } => {
   try {
-    const lines = csvContent.trim().split('\n');
-    if (lines.length < 2) {
+    const { headers, rows } = parseCSV(csvContent, ';');
+    if (rows.length === 0) {
       return { valid: false, error: 'CSV file must have at least a header row and one data row' };
     }
 
-    const headers = lines[0].split(';').map((h) => h.trim());
     const requiredHeaders = ['account', 'category', 'currency', 'amount', 'type', 'date'];
 
     for (const required of requiredHeaders) {
@@ -146,3 +152,221 @@ export const validateWalletCSV = (csvContent: string): { valid: boolean; error?:
     return { valid: false, error: error.message };
   }
 };
+
+// Wallet payment_type values mapped to Finly payment methods (used by rule conditions)
+const WALLET_PAYMENT_METHODS: Record<string, PaymentMethod> = {
+  cash: 'CASH',
+  debit_card: 'DEBIT_CARD',
+  credit_card: 'CREDIT_CARD',
+  transfer: 'BANK_TRANSFER',
+  mobile_payment: 'DIGITAL_WALLET',
+  web_payment: 'DIGITAL_WALLET',
+};
+
+/**
+ * Apply the user's category rules to expense rows of a Wallet CSV before upload
+ * Rewrites the category column (by category name), appends rule tags to labels and fills empty notes.
+ * Rows no rule categorizes get the category learned for their merchant, if any.
+ * Amount conditions are only evaluated for USD rows since rule amounts are stored in USD.
+ */
+export const applyCategoryRulesToWalletCSV = async (
+  csvContent: string,
+  categories: Category[],
+  tags: Tag[]
+): Promise<{ csvContent: string; matchedRows: number }> => {
+  const [rules] = await Promise.all([getCategoryRules(), loadCategoryModel()]);
+
+  const { headers, rows } = parseCSV(csvContent, ';');
+  const column = (name: string) => headers.indexOf(name);
+  const categoryIndex = column('category');
+  const labelsIndex = column('labels');
+  const amountIndex = column('amount');
+  const currencyIndex = column('currency');
+  const typeIndex = column('type');
+  const paymentIndex = column('payment_type');
+  const noteIndex = column('note');
+  const payeeIndex = column('payee');
+
+  const rulesWithoutAmounts = rules.filter(
+    (rule) => rule.minAmount === undefined && rule.maxAmount === undefined
+  );
+  let matchedRows = 0;
+
+  const rewritten = rows.map((row) => {
+    const fields = [...row];
+    const type = typeIndex >= 0 ? fields[typeIndex]?.trim().toLowerCase() : '';
+    if (!type?.startsWith('expense')) return row;
+
+    const description =
+      (payeeIndex >= 0 && fields[payeeIndex]?.trim()) || (noteIndex >= 0 ? fields[noteIndex]?.trim() || '' : '');
+    const isUSD = currencyIndex >= 0 && fields[currencyIndex]?.trim().toUpperCase() === 'USD';
+    const amount = amountIndex >= 0 ? parseFloat(fields[amountIndex]) : NaN;
+
+    const match = evaluateRules(
+      {
+        description,
+        amount: isUSD && !isNaN(amount) ? amount : undefined,
+        paymentMethod:
+          paymentIndex >= 0 ? WALLET_PAYMENT_METHODS[fields[paymentIndex]?.trim().toLowerCase()] : undefined,
+      },
+      isUSD ? rules : rulesWithoutAmounts
+    );
+    const categoryId = match.categoryId || getLearnedCategoryId(description);
+    if (match.matchedRuleIds.length === 0 && !categoryId) return row;
+
+    const categoryName = categories.find((c) => c.id === categoryId)?.name;
+    if (categoryName && categoryIndex >= 0) {
+      fields[categoryIndex] = categoryName;
+    }
+
+    const tagNames = tags.filter((tag) => match.tagIds.includes(tag.id)).map((tag) => tag.name);
+    if (tagNames.length > 0 && labelsIndex >= 0) {
+      const existing = (fields[labelsIndex] || '').split('|').map((l) => l.trim()).filter(Boolean);
+      fields[labelsIndex] = Array.from(new Set([...existing, ...tagNames])).join('|');
+    }
+
+    // Rule notes fill in rows without a note of their own, like manual entry
+    if (match.notes && noteIndex >= 0 && !fields[noteIndex]?.trim()) {
+      fields[noteIndex] = match.notes;
+    }
+
+    matchedRows++;
+    return fields;
+  });
+
+  if (matchedRows === 0) {
+    return { csvContent, matchedRows };
+  }
+  return { csvContent: toCSV([headers, ...rewritten], ';'), matchedRows };
+};
+
+/**
+ * Source-independent transaction produced by client-side parsers (column mapping,
+ * bank/app exports). Serialized to the Wallet format for the server import job.
+ */
+export interface NormalizedTransaction {
+  date: string; // YYYY-MM-DD
+  amount: number; // Always positive, in `currency`
+  type: 'expense' | 'income';
+  description: string;
+  category?: string;
+  currency?: string;
+  tags: string[];
+  notes?: string;
+  paymentType?: string; // Wallet payment_type value
+  account?: string;
+  externalId?: string; // Bank-assigned id (OFX FITID) used for de-duplication
+}
+
+const WALLET_EXPORT_HEADERS = [
+  'account',
+  'category',
+  'currency',
+  'amount',
+  'ref_currency_amount',
+  'type',
+  'payment_type',
+  'payment_type_local',
+  'note',
+  'date',
+  'transfer',
+  'payee',
+  'labels',
+];
+
+/**
+ * Serialize normalized transactions to a Wallet CSV accepted by startCSVImport
+ */
+export const buildWalletCSV = (
+  transactions: NormalizedTransaction[],
+  defaultCurrency: string,
+  defaultAccount: string = 'Imported'
+): string => {
+  const rows = transactions.map((tx) => {
+    const note = [tx.description, tx.notes].filter(Boolean).join(' - ');
+    const signedAmount = tx.type === 'expense' ? -Math.abs(tx.amount) : Math.abs(tx.amount);
+    return [
+      tx.account || defaultAccount,
+      tx.category || (tx.type === 'income' ? 'Income' : 'Other'),
+      (tx.currency || defaultCurrency).toUpperCase(),
+      signedAmount.toFixed(2),
+      '',
+      tx.type === 'expense' ? 'Expenses' : 'Income',
+      tx.paymentType || 'cash',
+      '',
+      note,
+      `${tx.date} 12:00:00`,
+      'false',
+      tx.description,
+      tx.tags.join('|'),
+    ];
+  });
+
+  return toCSV([WALLET_EXPORT_HEADERS, ...rows], ';');
+};
+
+/**
+ * Read the expense/income rows of a Wallet CSV (for duplicate checks before import)
+ * Transfers and rows without a usable amount or date are left out; `row` is the data row index
+ */
+export const getWalletCSVTransactions = (
+  csvContent: string
+): Array<NormalizedTransaction & { row: number }> => {
+  const { headers, rows } = parseCSV(csvContent, ';');
+  const value = (fields: string[], name: string) => {
+    const index = headers.indexOf(name);
+    return index >= 0 ? (fields[index] || '').trim() : '';
+  };
+
+  return rows.flatMap((fields, row) => {
+    const type = value(fields, 'type').toLowerCase();
+    const amount = parseFloat(value(fields, 'amount'));
+    const date = value(fields, 'date').match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+    if (value(fields, 'transfer').toLowerCase() === 'true' || isNaN(amount) || !date) return [];
+    if (!type.startsWith('expense') && !type.startsWith('income')) return [];
+
+    const payee = value(fields, 'payee');
+    // buildWalletCSV writes "description - notes" into the note column
+    const note = payee && value(fields, 'note').startsWith(`${payee} - `)
+      ? value(fields, 'note').slice(payee.length + 3)
+      : value(fields, 'note');
+    return [{
+      row,
+      date,
+      amount: Math.abs(amount),
+      type: type.startsWith('expense') ? 'expense' as const : 'income' as const,
+      description: payee || note,
+      notes: payee && note && note !== payee ? note : undefined,
+      currency: value(fields, 'currency').toUpperCase() || undefined,
+      tags: [],
+    }];
+  });
+};
+
+/**
+ * Distinct values of a Wallet CSV's `account` column, with the currency of their first row
+ */
+export const getWalletCSVAccounts = (csvContent: string): Array<{ name: string; currency?: string }> => {
+  const { headers, rows } = parseCSV(csvContent, ';');
+  const accountIndex = headers.indexOf('account');
+  const currencyIndex = headers.indexOf('currency');
+  if (accountIndex < 0) return [];
+
+  const accounts = new Map<string, string | undefined>();
+  rows.forEach((fields) => {
+    const name = (fields[accountIndex] || '').trim();
+    if (name && !accounts.has(name)) {
+      accounts.set(name, currencyIndex >= 0 ? fields[currencyIndex]?.trim().toUpperCase() || undefined : undefined);
+    }
+  });
+  return Array.from(accounts, ([name, currency]) => ({ name, currency }));
+};
+
+/**
+ * Drop data rows (by index) from a Wallet CSV
+ */
+export const removeWalletCSVRows = (csvContent: string, rowIndexes: Set<number>): string => {
+  if (rowIndexes.size === 0) return csvContent;
+  const { headers, rows } = parseCSV(csvContent, ';');
+  return toCSV([headers, ...rows.filter((_, index) => !rowIndexes.has(index))], ';');
+};
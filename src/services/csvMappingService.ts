@@ -0,0 +1,403 @@
+/**
+ * CSV Mapping Service
+ * Purpose: Turn arbitrary CSV exports (Excel, Google Sheets, bank statements) into
+ * normalized transactions using a user-defined column mapping
+ * Features: Column suggestions, date format & decimal separator detection,
+ * per-row validation, reusable mapping presets
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NormalizedTransaction } from './csvImportService';
+import { ParsedCSV, CSVDelimiter } from '../utils/csvParser';
+
+const PRESETS_STORAGE_KEY = '@finly_csv_mapping_presets';
+
+export type CSVMappedField =
+  | 'date'
+  | 'amount'
+  | 'description'
+  | 'category'
+  | 'type'
+  | 'currency'
+  | 'tags';
+
+// Field -> header name. Header names (not indexes) keep presets valid if columns move.
+export type CSVColumnMapping = Partial<Record<CSVMappedField, string>>;
+
+export type CSVDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export type DecimalSeparator = '.' | ',';
+
+export interface CSVMappingOptions {
+  mapping: CSVColumnMapping;
+  dateFormat: CSVDateFormat;
+  decimalSeparator: DecimalSeparator;
+  // How to read unsigned/positive amounts when no type column is mapped
+  positiveAmountType: 'expense' | 'income';
+  defaultCurrency: string;
+}
+
+export interface CSVMappingPreset {
+  id: string;
+  name: string;
+  headers: string[]; // Header row the preset was created from, used for auto-selection
+  delimiter?: CSVDelimiter;
+  mapping: CSVColumnMapping;
+  dateFormat: CSVDateFormat;
+  decimalSeparator: DecimalSeparator;
+  positiveAmountType: 'expense' | 'income';
+  createdAt: string;
+}
+
+export interface CSVRowError {
+  row: number; // 1-based line number in the file (header is line 1)
+  errors: string[];
+}
+
+export interface CSVMappingResult {
+  transactions: NormalizedTransaction[];
+  rowErrors: CSVRowError[];
+}
+
+export const REQUIRED_FIELDS: CSVMappedField[] = ['date', 'amount', 'description'];
+
+export const FIELD_LABELS: Record<CSVMappedField, string> = {
+  date: 'Date',
+  amount: 'Amount',
+  description: 'Description',
+  category: 'Category',
+  type: 'Type',
+  currency: 'Currency',
+  tags: 'Tags',
+};
+
+export const DATE_FORMATS: CSVDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+// Header keywords used to pre-fill the mapping, most specific first
+const FIELD_KEYWORDS: Record<CSVMappedField, string[]> = {
+  date: ['transaction date', 'posted date', 'posting date', 'booking date', 'date'],
+  amount: ['amount', 'value', 'sum', 'total', 'betrag'],
+  description: ['description', 'payee', 'merchant', 'memo', 'name', 'details', 'narrative', 'note'],
+  category: ['category', 'categorie', 'kategorie'],
+  type: ['transaction type', 'type', 'debit/credit', 'dr/cr', 'direction'],
+  currency: ['currency', 'ccy', 'curr'],
+  tags: ['tags', 'labels', 'label', 'tag'],
+};
+
+const EXPENSE_TYPES = ['expense', 'expenses', 'debit', 'dr', 'withdrawal', 'payment', 'out', 'outflow', 'purchase'];
+const INCOME_TYPES = ['income', 'credit', 'cr', 'deposit', 'in', 'inflow', 'refund'];
+
+/**
+ * Pre-fill a mapping by matching header names against known keywords
+ */
+export const suggestColumnMapping = (headers: string[]): CSVColumnMapping => {
+  const mapping: CSVColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map((h) => h.trim().toLowerCase());
+
+  (Object.keys(FIELD_KEYWORDS) as CSVMappedField[]).forEach((field) => {
+    for (const keyword of FIELD_KEYWORDS[field]) {
+      const exact = normalized.findIndex((h, i) => h === keyword && !used.has(headers[i]));
+      const index = exact >= 0
+        ? exact
+        : normalized.findIndex((h, i) => h.includes(keyword) && !used.has(headers[i]));
+      if (index >= 0) {
+        mapping[field] = headers[index];
+        used.add(headers[index]);
+        return;
+      }
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Parse a date string with the given field order
+ * Accepts '-', '/' and '.' separators, 2- or 4-digit years and a trailing time part.
+ * Returns YYYY-MM-DD or null when the value is not a valid date.
+ */
+export const parseDateValue = (value: string, format: CSVDateFormat): string | null => {
+  const datePart = value.trim().split(/[\sT]/)[0];
+  const parts = datePart.split(/[-/.]/).map((p) => p.trim());
+  if (parts.length !== 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts.map(Number);
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts.map(Number);
+      break;
+    default:
+      [day, month, year] = parts.map(Number);
+  }
+
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  if (month < 1 || month > 12 || day < 1) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Pick the date format that parses the most sample values
+ * Ambiguous samples (all parts <= 12) fall back to MM/DD/YYYY
+ */
+export const detectDateFormat = (values: string[]): CSVDateFormat => {
+  const samples = values.map((v) => v.trim()).filter(Boolean).slice(0, 50);
+  let best: CSVDateFormat = 'MM/DD/YYYY';
+  let bestCount = -1;
+
+  // Order matters for ties: ISO first, then US, then day-first
+  for (const format of ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'] as CSVDateFormat[]) {
+    const count = samples.filter((v) => parseDateValue(v, format) !== null).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Parse an amount string using the given decimal separator
+ * Handles currency symbols, thousands separators, "(12.50)" and trailing "-" negatives
+ */
+export const parseAmountValue = (value: string, decimalSeparator: DecimalSeparator): number | null => {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  // Drop currency symbols/codes and spaces, keep digits, separators and sign
+  text = text.replace(/[^\d.,+-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  text = decimalSeparator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+};
+
+/**
+ * Guess the decimal separator from sample amounts
+ * "1.234,56" / "12,50" vote for comma; "1,234.56" / "12.50" vote for dot
+ */
+export const detectDecimalSeparator = (values: string[]): DecimalSeparator => {
+  let comma = 0;
+  let dot = 0;
+
+  values.slice(0, 100).forEach((raw) => {
+    const value = raw.replace(/[^\d.,]/g, '');
+    const lastComma = value.lastIndexOf(',');
+    const lastDot = value.lastIndexOf('.');
+    if (lastComma > lastDot && /,\d{1,2}$/.test(value)) comma++;
+    else if (lastDot > lastComma && /\.\d{1,2}$/.test(value)) dot++;
+  });
+
+  return comma > dot ? ',' : '.';
+};
+
+/**
+ * Detect sign convention: if any amount is negative, positives are income
+ */
+export const detectPositiveAmountType = (
+  values: string[],
+  decimalSeparator: DecimalSeparator
+): 'expense' | 'income' =>
+  values.some((v) => (parseAmountValue(v, decimalSeparator) ?? 0) < 0) ? 'income' : 'expense';
+
+/**
+ * Build default options for a parsed file (detection + suggested mapping)
+ */
+export const detectMappingOptions = (
+  csv: ParsedCSV,
+  defaultCurrency: string
+): CSVMappingOptions => {
+  const mapping = suggestColumnMapping(csv.headers);
+  const columnValues = (header?: string) => {
+    const index = header ? csv.headers.indexOf(header) : -1;
+    return index >= 0 ? csv.rows.map((r) => r[index] ?? '') : [];
+  };
+
+  const amounts = columnValues(mapping.amount);
+  const decimalSeparator = detectDecimalSeparator(amounts);
+
+  return {
+    mapping,
+    dateFormat: detectDateFormat(columnValues(mapping.date)),
+    decimalSeparator,
+    positiveAmountType: detectPositiveAmountType(amounts, decimalSeparator),
+    defaultCurrency,
+  };
+};
+
+const parseType = (value: string): 'expense' | 'income' | null => {
+  const normalized = value.trim().toLowerCase();
+  if (EXPENSE_TYPES.includes(normalized)) return 'expense';
+  if (INCOME_TYPES.includes(normalized)) return 'income';
+  return null;
+};
+
+/**
+ * Get the fields that still need a column before the file can be imported
+ */
+export const getMissingRequiredFields = (mapping: CSVColumnMapping): CSVMappedField[] =>
+  REQUIRED_FIELDS.filter((field) => !mapping[field]);
+
+/**
+ * Apply a mapping to parsed rows
+ * Invalid rows are reported in rowErrors and left out of transactions
+ */
+export const mapCSVRows = (
+  csv: ParsedCSV,
+  options: CSVMappingOptions,
+  rowLimit?: number
+): CSVMappingResult => {
+  const { mapping, dateFormat, decimalSeparator, positiveAmountType, defaultCurrency } = options;
+  const indexOf = (field: CSVMappedField) =>
+    mapping[field] ? csv.headers.indexOf(mapping[field]!) : -1;
+  const columns = {
+    date: indexOf('date'),
+    amount: indexOf('amount'),
+    description: indexOf('description'),
+    category: indexOf('category'),
+    type: indexOf('type'),
+    currency: indexOf('currency'),
+    tags: indexOf('tags'),
+  };
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+
+  const transactions: NormalizedTransaction[] = [];
+  const rowErrors: CSVRowError[] = [];
+  const rows = rowLimit ? csv.rows.slice(0, rowLimit) : csv.rows;
+
+  rows.forEach((row, index) => {
+    const errors: string[] = [];
+
+    const rawDate = cell(row, columns.date);
+    const date = rawDate ? parseDateValue(rawDate, dateFormat) : null;
+    if (!date) errors.push(rawDate ? `Invalid date "${rawDate}"` : 'Missing date');
+
+    const rawAmount = cell(row, columns.amount);
+    const amount = parseAmountValue(rawAmount, decimalSeparator);
+    if (amount === null) errors.push(rawAmount ? `Invalid amount "${rawAmount}"` : 'Missing amount');
+    else if (amount === 0) errors.push('Amount is zero');
+
+    const description = cell(row, columns.description);
+    if (!description) errors.push('Missing description');
+
+    let type: 'expense' | 'income' | null;
+    if (columns.type >= 0) {
+      const rawType = cell(row, columns.type);
+      type = parseType(rawType);
+      if (!type) errors.push(rawType ? `Unknown type "${rawType}"` : 'Missing type');
+    } else {
+      const opposite = positiveAmountType === 'expense' ? 'income' : 'expense';
+      type = amount !== null && amount < 0 ? opposite : positiveAmountType;
+    }
+
+    const currency = cell(row, columns.currency).toUpperCase();
+    if (currency && !/^[A-Z]{3}$/.test(currency)) errors.push(`Invalid currency "${currency}"`);
+
+    if (errors.length > 0) {
+      rowErrors.push({ row: index + 2, errors });
+      return;
+    }
+
+    transactions.push({
+      date: date!,
+      amount: Math.abs(amount!),
+      type: type!,
+      description,
+      category: cell(row, columns.category) || undefined,
+      currency: currency || defaultCurrency,
+      tags: cell(row, columns.tags)
+        .split(/[,|;]/)
+        .map((t) => t.trim())
+        .filter(Boolean),
+    });
+  });
+
+  return { transactions, rowErrors };
+};
+
+/**
+ * Get saved mapping presets
+ */
+export const getMappingPresets = async (): Promise<CSVMappingPreset[]> => {
+  try {
+    const data = await AsyncStorage.getItem(PRESETS_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error loading mapping presets:', error);
+    return [];
+  }
+};
+
+/**
+ * Save a mapping preset (a preset with the same name is replaced)
+ */
+export const saveMappingPreset = async (
+  preset: Omit<CSVMappingPreset, 'id' | 'createdAt'>
+): Promise<CSVMappingPreset> => {
+  const presets = await getMappingPresets();
+  const existing = presets.find((p) => p.name.toLowerCase() === preset.name.trim().toLowerCase());
+  const saved: CSVMappingPreset = {
+    ...preset,
+    name: preset.name.trim(),
+    id: existing?.id || Date.now().toString(),
+    createdAt: existing?.createdAt || new Date().toISOString(),
+  };
+
+  const updated = existing
+    ? presets.map((p) => (p.id === existing.id ? saved : p))
+    : [...presets, saved];
+  await AsyncStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(updated));
+  return saved;
+};
+
+/**
+ * Delete a mapping preset
+ */
+export const deleteMappingPreset = async (presetId: string): Promise<void> => {
+  const presets = await getMappingPresets();
+  await AsyncStorage.setItem(
+    PRESETS_STORAGE_KEY,
+    JSON.stringify(presets.filter((p) => p.id !== presetId))
+  );
+};
+
+/**
+ * Find a preset created from the same header row (recurring bank exports)
+ */
+export const findPresetForHeaders = (
+  presets: CSVMappingPreset[],
+  headers: string[]
+): CSVMappingPreset | undefined => {
+  const signature = headers.map((h) => h.toLowerCase()).join('\u0000');
+  return presets.find((p) => p.headers.map((h) => h.toLowerCase()).join('\u0000') === signature);
+};
@@ -1,69 +1,646 @@
 /**
  * Data Export Service
- * Purpose: Export user data in various formats (JSON, CSV, PDF)
- * Privacy-first: Allows users to export all their data
+ * Purpose: Export user data (versioned JSON backup, CSV) and restore backups
+ * Privacy-first: Allows users to export all their data and take it with them
+ *
+ * Backup format (version 1) - a single JSON object:
+ *   format        "finly-backup"
+ *   version       Format version; restore accepts versions up to BACKUP_FORMAT_VERSION
+ *   exportedAt    ISO timestamp
+ *   appVersion    App version that wrote the file
+ *   data:
+ *     categories          Category[] incl. budgetLimit/budgetType/originalAmount and, for
+ *                         ROLLOVER categories, the `rollover` state at export time
+ *     budgetHistory       Per category id: { history: BudgetHistoryEntry[], months: RolloverState[] }
+ *                         (ROLLOVER categories only)
+ *     tags                Tag[]
+ *     incomeSources       IncomeSource[]
+ *     expenses            Expense[] (amounts in USD, originalAmount/originalCurrency as entered),
+ *                         incl. `splits` for expenses split across categories
+ *     incomeTransactions  IncomeTransaction[] (amounts in USD) incl. ones posted by schedules (autoAdded)
+ *     categoryRules       CategoryRule[] (stored on this device)
+ *     receipts            Receipt[] (stored on this device; images are local file URIs)
+ *     goals               SavingsGoal[] incl. manual contributions
+ *     accounts            Account[] (balances are informational - recomputed by the server)
+ *     transfers           Transfer[] between accounts
+ *
+ * goals, accounts and transfers are optional on restore - older backups don't have them.
+ *
+ * Rollover state and budget history are informational: the server recomputes them
+ * from the restored budgets and expenses.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Application from 'expo-application';
 import { logger } from '../utils/logger';
-import { Expense, Category, MonthlyStats } from '../types';
+import { toCSV } from '../utils/csvParser';
+import { getDateKey } from '../utils/dateFormatter';
+import { apiService } from './api';
+import tagsService from './tagsService';
+import receiptService from './receiptService';
+import { getCategoryRules, importCategoryRules } from './categorizationService';
+import {
+  Account,
+  BudgetHistoryEntry,
+  Category,
+  CategoryRule,
+  Expense,
+  ExpenseSplitInput,
+  IncomeSource,
+  IncomeTransaction,
+  Receipt,
+  RolloverState,
+  SavingsGoal,
+  Tag,
+  Transfer,
+  UnifiedTransaction,
+} from '../types';
 
-const STORAGE_KEYS = {
-  EXPENSES: '@finly_expenses',
-  CATEGORIES: '@finly_categories',
-  STATS: '@finly_stats',
-};
+export const BACKUP_FORMAT = 'finly-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+const PAGE_SIZE = 100;
+const RESTORE_BATCH_SIZE = 50;
+
+export interface FinlyBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  appVersion: string;
+  data: {
+    categories: Category[];
+    budgetHistory: Record<string, { history: BudgetHistoryEntry[]; months: RolloverState[] }>;
+    tags: Tag[];
+    incomeSources: IncomeSource[];
+    expenses: Expense[];
+    incomeTransactions: IncomeTransaction[];
+    categoryRules: CategoryRule[];
+    receipts: Receipt[];
+    goals: SavingsGoal[];
+    accounts: Account[];
+    transfers: Transfer[];
+  };
+}
+
+export type BackupSection = keyof FinlyBackup['data'];
+
+export type BackupProgress = (stage: string, current: number, total: number) => void;
+
+export interface RestoreResult {
+  created: Partial<Record<BackupSection, number>>;
+  skipped: Partial<Record<BackupSection, number>>;
+  errors: string[];
+}
+
+/**
+ * Fetch every expense, page by page
+ */
+async function fetchAllExpenses(onPage?: (count: number) => void): Promise<Expense[]> {
+  const expenses: Expense[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const { expenses: page, pagination } = await apiService.getExpensesPaginated({ limit: PAGE_SIZE, cursor });
+    expenses.push(...page);
+    onPage?.(expenses.length);
+    cursor = pagination.hasMore && pagination.nextCursor ? pagination.nextCursor : undefined;
+  } while (cursor);
+
+  return expenses;
+}
 
 /**
- * Export all user data as JSON
+ * Fetch every income and expense transaction in a date range (all time when omitted), page by page
  */
-export async function exportDataAsJSON(): Promise<string> {
+export async function fetchAllTransactions(options?: {
+  startDate?: Date;
+  endDate?: Date;
+  type?: 'expense' | 'income' | 'all';
+  onPage?: (count: number, total: number) => void;
+}): Promise<UnifiedTransaction[]> {
+  const transactions: UnifiedTransaction[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    const { transactions: page, pagination } = await apiService.getUnifiedTransactionsPaginated({
+      startDate: options?.startDate?.toISOString(),
+      endDate: options?.endDate?.toISOString(),
+      type: options?.type || 'all',
+      limit: PAGE_SIZE,
+      cursor,
+    });
+    page.forEach((tx) => {
+      if (!seen.has(tx.id)) {
+        seen.add(tx.id);
+        transactions.push(tx);
+      }
+    });
+    options?.onPage?.(transactions.length, pagination.total);
+    cursor = pagination.hasMore && pagination.nextCursor ? pagination.nextCursor : undefined;
+  } while (cursor);
+
+  return transactions;
+}
+
+/**
+ * Fetch every income transaction, page by page
+ * The income endpoint returns everything in one response, so pages come from the unified endpoint
+ */
+async function fetchAllIncome(onPage?: (count: number) => void): Promise<IncomeTransaction[]> {
+  const transactions = await fetchAllTransactions({ type: 'income', onPage: (count) => onPage?.(count) });
+  return transactions
+    .filter((tx) => tx.type === 'income')
+    .map((tx) => ({
+      id: tx.id,
+      userId: '',
+      incomeSourceId: tx.incomeSource?.id,
+      amount: tx.amount,
+      date: tx.date,
+      description: tx.description,
+      autoAdded: !!tx.autoAdded,
+      accountId: tx.accountId,
+      createdAt: tx.createdAt,
+      originalAmount: tx.originalAmount,
+      originalCurrency: tx.originalCurrency,
+    }));
+}
+
+/**
+ * Build a full backup of the account from the API and on-device data
+ */
+export async function createBackup(onProgress?: BackupProgress): Promise<FinlyBackup> {
   try {
-    const [expenses, categories, stats] = await Promise.all([
-      AsyncStorage.getItem(STORAGE_KEYS.EXPENSES),
-      AsyncStorage.getItem(STORAGE_KEYS.CATEGORIES),
-      AsyncStorage.getItem(STORAGE_KEYS.STATS),
+    onProgress?.('categories', 0, 0);
+    const [categories, tags, incomeSources] = await Promise.all([
+      apiService.getCategories(true),
+      tagsService.getTags(),
+      apiService.getIncomeSources() as Promise<IncomeSource[]>,
     ]);
 
-    const data = {
+    const budgetHistory: FinlyBackup['data']['budgetHistory'] = {};
+    for (const category of categories.filter((c) => c.budgetType === 'ROLLOVER')) {
+      try {
+        const summary = await apiService.getRolloverSummary(category.id);
+        budgetHistory[category.id] = { history: summary.history, months: summary.monthlyBreakdown };
+      } catch (error) {
+        logger.warn(`[DataExport] Could not load budget history for ${category.name}:`, error);
+      }
+    }
+
+    const expenses = await fetchAllExpenses((count) => onProgress?.('expenses', count, 0));
+
+    const incomeTransactions = await fetchAllIncome((count) => onProgress?.('income', count, 0));
+
+    onProgress?.('goals', 0, 0);
+    const goals = await apiService.getSavingsGoals();
+
+    onProgress?.('accounts', 0, 0);
+    const [accounts, transfers] = await Promise.all([apiService.getAccounts(), apiService.getTransfers()]);
+
+    const [categoryRules, receipts] = await Promise.all([getCategoryRules(), receiptService.getReceipts()]);
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
       exportedAt: new Date().toISOString(),
-      expenses: expenses ? JSON.parse(expenses) : [],
-      categories: categories ? JSON.parse(categories) : [],
-      stats: stats ? JSON.parse(stats) : null,
+      appVersion: Application.nativeApplicationVersion || 'unknown',
+      data: {
+        categories,
+        budgetHistory,
+        tags,
+        incomeSources,
+        expenses,
+        incomeTransactions,
+        categoryRules,
+        receipts,
+        goals,
+        accounts,
+        transfers,
+      },
     };
-
-    return JSON.stringify(data, null, 2);
   } catch (error) {
-    logger.error('Error exporting data:', error);
+    logger.error('[DataExport] Error creating backup:', error);
     throw new Error('Failed to export data');
   }
 }
 
 /**
- * Export expenses as CSV
+ * Export all user data as a JSON backup
+ */
+export async function exportDataAsJSON(onProgress?: BackupProgress): Promise<string> {
+  return JSON.stringify(await createBackup(onProgress), null, 2);
+}
+
+const TRANSACTION_CSV_HEADERS = [
+  'Date',
+  'Type',
+  'Amount (USD)',
+  'Original Amount',
+  'Original Currency',
+  'Description',
+  'Category',
+  'Payment Method',
+  'Tags',
+  'Notes',
+  'Account',
+];
+
+/**
+ * Serialize transactions to RFC 4180 CSV (comma separated, CRLF, quoted where needed)
+ */
+export function transactionsToCSV(transactions: UnifiedTransaction[]): string {
+  const rows = transactions.map((tx) => [
+    getDateKey(tx.date),
+    tx.type === 'expense' ? 'Expense' : 'Income',
+    tx.amount.toFixed(2),
+    tx.originalAmount !== undefined && tx.originalAmount !== null ? String(tx.originalAmount) : '',
+    tx.originalCurrency || '',
+    tx.description || '',
+    tx.category?.name || (tx.type === 'income' ? tx.incomeSource?.name || 'Income' : 'Uncategorized'),
+    tx.paymentMethod || '',
+    (tx.tags || []).map((tag) => tag.name).join(', '),
+    tx.notes || '',
+    tx.account?.name || '',
+  ]);
+
+  return toCSV([TRANSACTION_CSV_HEADERS, ...rows]) + '\r\n';
+}
+
+/**
+ * Export all transactions as CSV
  */
 export async function exportExpensesAsCSV(): Promise<string> {
   try {
-    const expensesData = await AsyncStorage.getItem(STORAGE_KEYS.EXPENSES);
-    const expenses: Expense[] = expensesData ? JSON.parse(expensesData) : [];
+    return transactionsToCSV(await fetchAllTransactions());
+  } catch (error) {
+    logger.error('[DataExport] Error exporting CSV:', error);
+    throw new Error('Failed to export CSV');
+  }
+}
+
+/**
+ * Check that parsed JSON is a backup this version of the app can restore
+ */
+export function validateBackup(value: unknown): { valid: true; backup: FinlyBackup } | { valid: false; error: string } {
+  if (!value || typeof value !== 'object') {
+    return { valid: false, error: 'This file is not a Finly backup.' };
+  }
 
-    if (expenses.length === 0) {
-      return 'Date,Amount,Category,Description,Type\n';
+  const backup = value as Partial<FinlyBackup>;
+  if (backup.format !== BACKUP_FORMAT || typeof backup.version !== 'number') {
+    return { valid: false, error: 'This file is not a Finly backup.' };
+  }
+  if (backup.version > BACKUP_FORMAT_VERSION) {
+    return { valid: false, error: 'This backup was made by a newer version of Finly. Please update the app to restore it.' };
+  }
+  if (!backup.data || typeof backup.data !== 'object') {
+    return { valid: false, error: 'The backup file is missing its data.' };
+  }
+
+  const arraySections: BackupSection[] = [
+    'categories',
+    'tags',
+    'incomeSources',
+    'expenses',
+    'incomeTransactions',
+    'categoryRules',
+    'receipts',
+  ];
+  const invalid = arraySections.find((section) => !Array.isArray(backup.data![section]));
+  if (invalid) {
+    return { valid: false, error: `The backup file is damaged (invalid "${invalid}" section).` };
+  }
+
+  const badExpense = backup.data.expenses.findIndex(
+    (e) => typeof e?.amount !== 'number' || !e.date || isNaN(new Date(e.date).getTime())
+  );
+  if (badExpense >= 0) {
+    return { valid: false, error: `The backup file is damaged (expense ${badExpense + 1} has no amount or date).` };
+  }
+
+  const optionalSections: BackupSection[] = ['goals', 'accounts', 'transfers'];
+  const invalidOptional = optionalSections.find(
+    (section) => backup.data![section] !== undefined && !Array.isArray(backup.data![section])
+  );
+  if (invalidOptional) {
+    return { valid: false, error: `The backup file is damaged (invalid "${invalidOptional}" section).` };
+  }
+
+  return {
+    valid: true,
+    backup: {
+      ...backup,
+      data: {
+        ...backup.data,
+        budgetHistory: backup.data.budgetHistory || {},
+        goals: backup.data.goals || [],
+        accounts: backup.data.accounts || [],
+        transfers: backup.data.transfers || [],
+      },
+    } as FinlyBackup,
+  };
+}
+
+// Identifies the same transaction across accounts, where ids differ
+const transactionFingerprint = (tx: { date: string; amount: number; description?: string }, type: string) =>
+  `${type}|${getDateKey(tx.date)}|${tx.amount.toFixed(2)}|${(tx.description || '').trim().toLowerCase()}`;
+
+const byName = <T extends { name: string }>(items: T[]) =>
+  new Map(items.map((item) => [item.name.trim().toLowerCase(), item]));
+
+/**
+ * Restore a backup into the current account (empty or not)
+ * Categories, tags, income sources, accounts and goals are matched by name; transactions already in the
+ * account (same id, or same type/date/amount/description) are skipped, so restoring twice is safe
+ */
+export async function restoreBackup(backup: FinlyBackup, onProgress?: BackupProgress): Promise<RestoreResult> {
+  const result: RestoreResult = { created: {}, skipped: {}, errors: [] };
+  const count = (kind: 'created' | 'skipped', section: BackupSection, amount: number = 1) => {
+    result[kind][section] = (result[kind][section] || 0) + amount;
+  };
+  const { data } = backup;
+
+  // Categories (with budgets)
+  onProgress?.('categories', 0, data.categories.length);
+  const categoryIds = new Map<string, string>();
+  const existingCategories = byName(await apiService.getCategories(true));
+  for (const category of data.categories) {
+    const match = existingCategories.get(category.name.trim().toLowerCase());
+    if (match) {
+      categoryIds.set(category.id, match.id);
+      count('skipped', 'categories');
+      continue;
     }
+    try {
+      const created = await apiService.createCategory({
+        name: category.name,
+        icon: category.icon,
+        color: category.color,
+        budgetLimit: category.budgetLimit,
+        budgetType: category.budgetType,
+        originalAmount: category.originalAmount,
+        originalCurrency: category.originalCurrency,
+      });
+      categoryIds.set(category.id, created.id);
+      existingCategories.set(created.name.trim().toLowerCase(), created);
+      count('created', 'categories');
+    } catch (error: any) {
+      result.errors.push(`Category "${category.name}": ${error.message}`);
+    }
+  }
 
-    const csvHeaders = 'Date,Amount,Category,Description\n';
-    const csvRows = expenses
-      .map(
-        (exp) =>
-          `${new Date(exp.date).toLocaleDateString()},${exp.amount},${exp.category?.name || 'Uncategorized'},${exp.description.replace(/,/g, ';')}`
-      )
-      .join('\n');
+  // Tags
+  onProgress?.('tags', 0, data.tags.length);
+  const tagIds = new Map<string, string>();
+  const existingTags = byName(await tagsService.getTags());
+  for (const tag of data.tags) {
+    const match = existingTags.get(tag.name.trim().toLowerCase());
+    try {
+      const target = match || (await tagsService.createTag(tag.name, tag.color));
+      tagIds.set(tag.id, target.id);
+      existingTags.set(target.name.trim().toLowerCase(), target);
+      count(match ? 'skipped' : 'created', 'tags');
+    } catch (error: any) {
+      result.errors.push(`Tag "${tag.name}": ${error.message}`);
+    }
+  }
 
-    return csvHeaders + csvRows;
-  } catch (error) {
-    console.error('Error exporting CSV:', error);
-    throw new Error('Failed to export CSV');
+  // Income sources
+  onProgress?.('incomeSources', 0, data.incomeSources.length);
+  const incomeSourceIds = new Map<string, string>();
+  const existingSources = byName(await apiService.getIncomeSources());
+  for (const source of data.incomeSources) {
+    const match = existingSources.get(source.name.trim().toLowerCase());
+    try {
+      const target = match || (await apiService.createIncomeSource({
+        name: source.name,
+        amount: source.amount,
+        frequency: source.frequency,
+        startDate: source.startDate,
+        dayOfMonth: source.dayOfMonth,
+        dayOfWeek: source.dayOfWeek,
+        customDates: source.customDates,
+        autoAdd: source.autoAdd,
+        originalAmount: source.originalAmount ?? undefined,
+        originalCurrency: source.originalCurrency ?? undefined,
+      }));
+      incomeSourceIds.set(source.id, target.id);
+      existingSources.set(target.name.trim().toLowerCase(), target);
+      count(match ? 'skipped' : 'created', 'incomeSources');
+    } catch (error: any) {
+      result.errors.push(`Income source "${source.name}": ${error.message}`);
+    }
+  }
+
+  // Accounts, matched by name
+  onProgress?.('accounts', 0, data.accounts.length);
+  const accountIds = new Map<string, string>();
+  const existingAccounts = byName(await apiService.getAccounts());
+  for (const account of data.accounts) {
+    const match = existingAccounts.get(account.name.trim().toLowerCase());
+    try {
+      const target = match || (await apiService.createAccount({
+        name: account.name,
+        type: account.type,
+        currency: account.currency,
+        openingBalance: account.openingBalance,
+        originalOpeningBalance: account.originalOpeningBalance,
+        isDefault: account.isDefault,
+        isArchived: account.isArchived,
+      }));
+      accountIds.set(account.id, target.id);
+      existingAccounts.set(target.name.trim().toLowerCase(), target);
+      count(match ? 'skipped' : 'created', 'accounts');
+    } catch (error: any) {
+      result.errors.push(`Account "${account.name}": ${error.message}`);
+    }
+  }
+  const mapAccount = (accountId?: string | null) => (accountId ? accountIds.get(accountId) : undefined);
+
+  // Transactions already in the account
+  const existingTransactions = await fetchAllTransactions();
+  const existingIds = new Set(existingTransactions.map((tx) => tx.id));
+  const existingFingerprints = new Set(existingTransactions.map((tx) => transactionFingerprint(tx, tx.type)));
+  const isPresent = (tx: Expense | IncomeTransaction, type: string) =>
+    existingIds.has(tx.id) || existingFingerprints.has(transactionFingerprint(tx, type));
+
+  const mapTags = (tags?: Tag[]) =>
+    (tags || []).map((tag) => tagIds.get(tag.id)).filter((id): id is string => !!id);
+  // Split allocations, with their categories and tags mapped like the parent's
+  const mapSplits = (expense: Expense): ExpenseSplitInput[] | undefined =>
+    expense.splits && expense.splits.length > 0
+      ? expense.splits.map((split) => ({
+          categoryId: categoryIds.get(split.categoryId)!,
+          amount: split.amount,
+          originalAmount: split.originalAmount,
+          tags: mapTags(split.tags),
+          notes: split.notes,
+        }))
+      : undefined;
+
+  // Expenses, in batches
+  const expenses = data.expenses.filter((expense) => {
+    if (isPresent(expense, 'expense')) {
+      count('skipped', 'expenses');
+      return false;
+    }
+    const categories = [expense.categoryId, ...(expense.splits || []).map((split) => split.categoryId)];
+    if (!categories.every((categoryId) => categoryIds.has(categoryId))) {
+      result.errors.push(`Expense "${expense.description}" skipped: its category could not be restored`);
+      return false;
+    }
+    return true;
+  });
+
+  for (let i = 0; i < expenses.length; i += RESTORE_BATCH_SIZE) {
+    onProgress?.('expenses', i, expenses.length);
+    const batch = expenses.slice(i, i + RESTORE_BATCH_SIZE);
+    try {
+      await apiService.addExpensesBatch({
+        expenses: batch.map((expense) => ({
+          amount: expense.amount,
+          categoryId: categoryIds.get(expense.categoryId)!,
+          description: expense.description,
+          date: new Date(expense.date),
+          paymentMethod: expense.paymentMethod,
+          notes: expense.notes,
+          tags: mapTags(expense.tags),
+          accountId: mapAccount(expense.accountId),
+          splits: mapSplits(expense),
+          originalAmount: expense.originalAmount,
+          originalCurrency: expense.originalCurrency,
+        })),
+      });
+      count('created', 'expenses', batch.length);
+    } catch (error: any) {
+      result.errors.push(`Expenses ${i + 1}-${i + batch.length}: ${error.message}`);
+    }
+  }
+
+  // Income transactions - scheduled ones too, since schedules only post the current occurrence
+  const incomeTransactions = data.incomeTransactions.filter((income) => {
+    if (isPresent(income, 'income')) {
+      count('skipped', 'incomeTransactions');
+      return false;
+    }
+    return true;
+  });
+  for (let i = 0; i < incomeTransactions.length; i++) {
+    onProgress?.('income', i, incomeTransactions.length);
+    const income = incomeTransactions[i];
+    try {
+      await apiService.createIncomeTransaction({
+        amount: income.amount,
+        date: income.date,
+        description: income.description,
+        incomeSourceId: income.incomeSourceId ? incomeSourceIds.get(income.incomeSourceId) : undefined,
+        accountId: mapAccount(income.accountId),
+        autoAdded: income.autoAdded,
+        originalAmount: income.originalAmount,
+        originalCurrency: income.originalCurrency,
+      });
+      count('created', 'incomeTransactions');
+    } catch (error: any) {
+      result.errors.push(`Income "${income.description}": ${error.message}`);
+    }
   }
+
+  // Transfers between restored accounts
+  onProgress?.('transfers', 0, data.transfers.length);
+  const transferFingerprint = (transfer: Transfer, fromAccountId: string, toAccountId: string) =>
+    `${fromAccountId}|${toAccountId}|${getDateKey(transfer.date)}|${transfer.amount.toFixed(2)}`;
+  const existingTransfers = new Set(
+    (await apiService.getTransfers()).map((transfer) =>
+      transferFingerprint(transfer, transfer.fromAccountId, transfer.toAccountId)
+    )
+  );
+  for (const transfer of data.transfers) {
+    const fromAccountId = accountIds.get(transfer.fromAccountId);
+    const toAccountId = accountIds.get(transfer.toAccountId);
+    if (!fromAccountId || !toAccountId) {
+      result.errors.push(`Transfer "${transfer.description || getDateKey(transfer.date)}" skipped: its accounts could not be restored`);
+      continue;
+    }
+    if (existingTransfers.has(transferFingerprint(transfer, fromAccountId, toAccountId))) {
+      count('skipped', 'transfers');
+      continue;
+    }
+    try {
+      await apiService.createTransfer({
+        fromAccountId,
+        toAccountId,
+        amount: transfer.amount,
+        date: transfer.date,
+        description: transfer.description,
+        originalAmount: transfer.originalAmount,
+        originalCurrency: transfer.originalCurrency,
+      });
+      count('created', 'transfers');
+    } catch (error: any) {
+      result.errors.push(`Transfer "${transfer.description || getDateKey(transfer.date)}": ${error.message}`);
+    }
+  }
+
+  // Savings goals (with manual contributions), matched by name
+  onProgress?.('goals', 0, data.goals.length);
+  const existingGoals = byName(await apiService.getSavingsGoals());
+  for (const goal of data.goals) {
+    if (existingGoals.has(goal.name.trim().toLowerCase())) {
+      count('skipped', 'goals');
+      continue;
+    }
+    try {
+      const created = await apiService.createSavingsGoal({
+        name: goal.name,
+        targetAmount: goal.targetAmount,
+        targetDate: goal.targetDate,
+        currency: goal.currency,
+        originalTargetAmount: goal.originalTargetAmount,
+        icon: goal.icon,
+        color: goal.color,
+        linkedCategoryId: goal.linkedCategoryId ? categoryIds.get(goal.linkedCategoryId) ?? null : null,
+        linkedTagId: goal.linkedTagId ? tagIds.get(goal.linkedTagId) ?? null : null,
+        contributionMode: goal.contributionMode,
+        autoContributionPercent: goal.autoContributionPercent,
+        startDate: goal.startDate,
+      });
+      for (const contribution of goal.contributions || []) {
+        await apiService.addGoalContribution(created.id, {
+          amount: contribution.amount,
+          date: contribution.date,
+          note: contribution.note,
+          originalAmount: contribution.originalAmount ?? undefined,
+          originalCurrency: contribution.originalCurrency ?? undefined,
+        });
+      }
+      existingGoals.set(created.name.trim().toLowerCase(), created);
+      count('created', 'goals');
+    } catch (error: any) {
+      result.errors.push(`Goal "${goal.name}": ${error.message}`);
+    }
+  }
+
+  // On-device data
+  onProgress?.('rules', 0, data.categoryRules.length);
+  const rules = data.categoryRules.map(({ id, ...rule }) => ({
+    ...rule,
+    categoryId: rule.categoryId ? categoryIds.get(rule.categoryId) : undefined,
+    tagIds: rule.tagIds?.map((tagId) => tagIds.get(tagId)).filter((tagId): tagId is string => !!tagId),
+  }));
+  const addedRules = await importCategoryRules(rules);
+  count('created', 'categoryRules', addedRules);
+  count('skipped', 'categoryRules', rules.length - addedRules);
+
+  const receipts = data.receipts.map((receipt) => ({
+    ...receipt,
+    categoryId: receipt.categoryId ? categoryIds.get(receipt.categoryId) : undefined,
+  }));
+  const addedReceipts = await receiptService.importReceipts(receipts);
+  count('created', 'receipts', addedReceipts);
+  count('skipped', 'receipts', receipts.length - addedReceipts);
+
+  return result;
 }
 
 /**
@@ -136,8 +713,13 @@ export async function deleteAllData(): Promise<void> {
 }
 
 export default {
+  createBackup,
   exportDataAsJSON,
   exportExpensesAsCSV,
+  fetchAllTransactions,
+  transactionsToCSV,
+  validateBackup,
+  restoreBackup,
   deleteAllData,
 };
 
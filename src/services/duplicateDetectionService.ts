@@ -0,0 +1,282 @@
+/**
+ * Duplicate Detection Service
+ * Purpose: Find likely duplicate transactions before they are saved and in existing history
+ * Matching: same type, amount within a small tolerance, dates within a window and
+ * similar descriptions (bigram similarity on normalized text). New entries are checked against
+ * saved history and against each other.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api';
+import { fetchAllTransactions } from './dataExportService';
+import { UnifiedTransaction } from '../types';
+import logger from '../utils/logger';
+
+const IGNORED_PAIRS_STORAGE_KEY = '@finly_ignored_duplicates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A transaction about to be created
+ */
+export interface DuplicateCandidate {
+  type: UnifiedTransaction['type'];
+  amount: number; // USD
+  date: string | Date;
+  description: string;
+}
+
+export interface DuplicateMatch<T extends DuplicateCandidate = DuplicateCandidate> {
+  index: number; // Index of the candidate in the checked list
+  candidate: T;
+  existing?: UnifiedTransaction; // Saved transaction it matches
+  earlier?: T; // Or an earlier entry of the same batch (only when nothing saved matches)
+  score: number; // 0-1 description similarity
+}
+
+export type DuplicateAction = 'keep' | 'skip' | 'merge';
+
+export interface DuplicatePair {
+  id: string; // Stable id of the pair (sorted transaction ids)
+  first: UnifiedTransaction;
+  second: UnifiedTransaction;
+  score: number;
+}
+
+export interface DuplicateOptions {
+  dateWindowDays: number;
+  amountTolerance: number; // Absolute, in USD
+  minSimilarity: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  dateWindowDays: 3,
+  amountTolerance: 0.01,
+  minSimilarity: 0.5,
+};
+
+const normalizeDescription = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/\d{4,}/g, ' ') // Card numbers, references
+    .replace(/[^\p{L}\d\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const bigrams = (text: string): Map<string, number> => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+};
+
+/**
+ * Fuzzy similarity between two descriptions (Sørensen-Dice on character bigrams)
+ * "STARBUCKS #1234 SEATTLE" vs "Starbucks" scores high; unrelated merchants score low
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.includes(right) || right.includes(left)) return 0.9;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) || 0);
+  });
+
+  const total = left.length - 1 + (right.length - 1);
+  return total > 0 ? (2 * overlap) / total : 0;
+};
+
+const toTime = (date: string | Date): number => {
+  if (date instanceof Date) return date.getTime();
+  // Date-only strings are local dates, not UTC midnight
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T12:00:00`).getTime() : new Date(date).getTime();
+};
+
+/**
+ * Score how likely two transactions are duplicates; null when they can't be
+ */
+const matchScore = (
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  options: DuplicateOptions
+): number | null => {
+  // Transfers move money between accounts; the same amount on both sides is expected
+  if (a.type !== b.type || a.type === 'transfer') return null;
+  if (Math.abs(a.amount - b.amount) > options.amountTolerance) return null;
+  if (Math.abs(toTime(a.date) - toTime(b.date)) > options.dateWindowDays * DAY_MS) return null;
+
+  const similarity = descriptionSimilarity(a.description, b.description);
+  return similarity >= options.minSimilarity ? similarity : null;
+};
+
+/**
+ * Compare new entries against existing transactions
+ * Returns the best match for each candidate that has one
+ */
+export const findDuplicates = <T extends DuplicateCandidate>(
+  candidates: T[],
+  existing: UnifiedTransaction[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicateMatch<T>[] => {
+  const matches: DuplicateMatch<T>[] = [];
+
+  candidates.forEach((candidate, index) => {
+    let best: DuplicateMatch<T> | null = null;
+    existing.forEach((transaction) => {
+      const score = matchScore(candidate, transaction, options);
+      if (score !== null && (!best || score > best.score)) {
+        best = { index, candidate, existing: transaction, score };
+      }
+    });
+    if (best) matches.push(best);
+  });
+
+  return matches;
+};
+
+/**
+ * Compare each new entry with the entries before it in the same batch
+ * The first occurrence is kept as the original; entries in `skip` are already matched
+ */
+const findBatchDuplicates = <T extends DuplicateCandidate>(
+  candidates: T[],
+  skip: Set<number>,
+  options: DuplicateOptions
+): DuplicateMatch<T>[] => {
+  const matches: DuplicateMatch<T>[] = [];
+
+  candidates.forEach((candidate, index) => {
+    if (skip.has(index)) return;
+    let best: DuplicateMatch<T> | null = null;
+    for (let earlierIndex = 0; earlierIndex < index; earlierIndex++) {
+      const score = matchScore(candidate, candidates[earlierIndex], options);
+      if (score !== null && (!best || score > best.score)) {
+        best = { index, candidate, earlier: candidates[earlierIndex], score };
+      }
+    }
+    if (best) matches.push(best);
+  });
+
+  return matches;
+};
+
+/**
+ * Fetch existing transactions around the candidates' dates and find duplicates,
+ * in saved history and within the batch itself
+ * A failed fetch is logged and only the batch is checked, so saving is never blocked
+ */
+export const checkForDuplicates = async <T extends DuplicateCandidate>(
+  candidates: T[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): Promise<DuplicateMatch<T>[]> => {
+  if (candidates.length === 0) return [];
+
+  let matches: DuplicateMatch<T>[] = [];
+  try {
+    const times = candidates.map((c) => toTime(c.date)).filter((t) => !isNaN(t));
+    if (times.length > 0) {
+      const windowMs = options.dateWindowDays * DAY_MS;
+      const existing = await fetchAllTransactions({
+        startDate: new Date(Math.min(...times) - windowMs),
+        endDate: new Date(Math.max(...times) + windowMs),
+      });
+      matches = findDuplicates(candidates, existing, options);
+    }
+  } catch (error) {
+    logger.error('[DuplicateDetection] Failed to check for duplicates:', error);
+  }
+
+  const matched = new Set(matches.map((match) => match.index));
+  return [...matches, ...findBatchDuplicates(candidates, matched, options)].sort((a, b) => a.index - b.index);
+};
+
+const pairId = (a: UnifiedTransaction, b: UnifiedTransaction): string =>
+  [a.id, b.id].sort().join('|');
+
+const getIgnoredPairs = async (): Promise<string[]> => {
+  try {
+    const data = await AsyncStorage.getItem(IGNORED_PAIRS_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    logger.error('[DuplicateDetection] Error loading ignored pairs:', error);
+    return [];
+  }
+};
+
+/**
+ * Scan existing history for likely duplicate pairs (excluding pairs marked "not a duplicate")
+ * Transactions are compared only with neighbours inside the date window
+ */
+export const scanForDuplicates = async (
+  transactions: UnifiedTransaction[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): Promise<DuplicatePair[]> => {
+  const ignored = new Set(await getIgnoredPairs());
+  const sorted = [...transactions].sort((a, b) => toTime(a.date) - toTime(b.date));
+  const windowMs = options.dateWindowDays * DAY_MS;
+  const pairs: DuplicatePair[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (toTime(sorted[j].date) - toTime(sorted[i].date) > windowMs) break;
+
+      const score = matchScore(sorted[i], sorted[j], options);
+      const id = pairId(sorted[i], sorted[j]);
+      if (score !== null && !ignored.has(id)) {
+        pairs.push({ id, first: sorted[i], second: sorted[j], score });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Remember that a pair is not a duplicate so future scans skip it
+ */
+export const ignoreDuplicatePair = async (pair: DuplicatePair): Promise<void> => {
+  const ignored = await getIgnoredPairs();
+  if (!ignored.includes(pair.id)) {
+    ignored.push(pair.id);
+    await AsyncStorage.setItem(IGNORED_PAIRS_STORAGE_KEY, JSON.stringify(ignored));
+  }
+};
+
+/**
+ * Merge a new entry into an existing expense instead of creating it
+ * The existing record keeps its amount, date and category; notes and tags are combined
+ */
+export const mergeIntoExisting = async (
+  existing: UnifiedTransaction,
+  incoming: { notes?: string; tags?: string[] }
+): Promise<void> => {
+  if (existing.type !== 'expense') return;
+
+  const notes = [existing.notes, incoming.notes]
+    .filter((n): n is string => !!n && !!n.trim())
+    .filter((n, i, all) => all.indexOf(n) === i)
+    .join('\n');
+  const tags = Array.from(new Set([...(existing.tags || []).map((t) => t.id), ...(incoming.tags || [])]));
+
+  await apiService.updateExpense(existing.id, {
+    notes: notes || undefined,
+    tags,
+  });
+};
+
+export default {
+  descriptionSimilarity,
+  findDuplicates,
+  checkForDuplicates,
+  scanForDuplicates,
+  ignoreDuplicatePair,
+  mergeIntoExisting,
+};
@@ -0,0 +1,243 @@
+/**
+ * FX Rate Service
+ * Purpose: Dated exchange rates, so amounts are converted at the rate of their own date
+ * instead of today's rate
+ * Features: Daily USD-based rates per currency fetched in bounded date ranges and cached in AsyncStorage,
+ * nearest-date fallback (up to a week away) for days without a rate, cross-currency conversion on a date and
+ * revaluation of transactions recorded in another currency
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api';
+import logger from '../utils/logger';
+
+const RATES_CACHE_PREFIX = '@finly_fx_rates_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 31; // Longest date range fetched in one request
+const MAX_GAP_DAYS = 7; // Missing days closer together than this share a request
+const RETRY_AFTER_MS = 6 * 60 * 60 * 1000; // Days that came back without a rate are asked again after this
+const MAX_FALLBACK_DAYS = 7; // Furthest a rate from another date is used
+
+// Units of the currency per 1 USD, keyed by date (YYYY-MM-DD)
+type RateTable = Record<string, number>;
+
+interface CachedRates {
+  table: RateTable;
+  days: string[]; // Sorted keys of table, for the nearest-date lookup
+}
+
+export interface DatedAmount {
+  amount: number; // USD
+  date: string | Date;
+  originalAmount?: number;
+  originalCurrency?: string;
+}
+
+/**
+ * Value amounts at the exchange rate of each transaction's date instead of today's
+ * Revalued totals stay in USD at today's rate, so formatCurrency() shows the revalued display amount
+ */
+export interface Valuation {
+  currency: string; // Display currency
+  currentRate: number; // Today's USD -> display currency rate
+}
+
+// Date whose rates are needed, and the currency the amount was entered in if known
+export type DatedRateRequest = Pick<DatedAmount, 'date' | 'originalCurrency'>;
+
+const rates = new Map<string, CachedRates>();
+// When days without a published rate (weekends, holidays) were last requested this session
+const requestedDays = new Map<string, Map<string, number>>();
+
+const normalize = (currency: string) => currency.toUpperCase();
+
+/**
+ * Day a rate applies to (UTC, like transaction dates)
+ */
+export const toRateDate = (date: string | Date): string =>
+  (typeof date === 'string' ? new Date(date) : date).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string): number => Math.round(Math.abs(Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Group sorted days into date ranges to request
+ * A new range starts after a long gap or once the current one reaches MAX_RANGE_DAYS,
+ * so a few scattered old dates don't fetch every day in between
+ */
+const toRanges = (days: string[]): Array<[string, string]> => {
+  const ranges: Array<[string, string]> = [];
+  days.forEach((day) => {
+    const last = ranges[ranges.length - 1];
+    if (last && daysBetween(last[1], day) <= MAX_GAP_DAYS && daysBetween(last[0], day) < MAX_RANGE_DAYS) {
+      last[1] = day;
+    } else {
+      ranges.push([day, day]);
+    }
+  });
+  return ranges;
+};
+
+const getCachedRates = async (currency: string): Promise<CachedRates> => {
+  const cached = rates.get(currency);
+  if (cached) return cached;
+
+  let table: RateTable = {};
+  try {
+    const data = await AsyncStorage.getItem(`${RATES_CACHE_PREFIX}${currency}`);
+    if (data) table = JSON.parse(data);
+  } catch (error) {
+    logger.error('[FxRates] Error loading cached rates:', error);
+  }
+  const entry = { table, days: Object.keys(table).sort() };
+  rates.set(currency, entry);
+  return entry;
+};
+
+/**
+ * Make sure rates for these dates are available locally, fetching the missing ones in bounded ranges
+ * Today and future dates are skipped - they use the current rate. Failed ranges are logged and
+ * retried on the next load; meanwhile the nearest cached date is used instead.
+ */
+export const loadRates = async (currency: string, dates: Array<string | Date>): Promise<void> => {
+  const code = normalize(currency);
+  if (code === 'USD' || dates.length === 0) return;
+
+  const cached = await getCachedRates(code);
+  const requested = requestedDays.get(code) ?? new Map<string, number>();
+  requestedDays.set(code, requested);
+
+  const now = Date.now();
+  const today = toRateDate(new Date(now));
+  const missing = Array.from(new Set(dates.map(toRateDate)))
+    .filter((day) => day < today && !cached.table[day] && now - (requested.get(day) ?? 0) >= RETRY_AFTER_MS)
+    .sort();
+  if (missing.length === 0) return;
+
+  const fetched: RateTable = {};
+  for (const [start, end] of toRanges(missing)) {
+    try {
+      const result = await apiService.getExchangeRateHistory(code, start, end);
+      Object.entries(result).forEach(([day, rate]) => {
+        if (typeof rate === 'number' && isFinite(rate) && rate > 0) fetched[day] = rate;
+      });
+      // Only days the server answered without a rate wait before being asked again
+      missing
+        .filter((day) => day >= start && day <= end && !fetched[day])
+        .forEach((day) => requested.set(day, now));
+    } catch (error) {
+      logger.warn(`[FxRates] Could not load ${code} rates for ${start}..${end}:`, error);
+    }
+  }
+  if (Object.keys(fetched).length === 0) return;
+
+  try {
+    // Another load may have finished while this one was waiting
+    const table = { ...(rates.get(code) ?? cached).table, ...fetched };
+    rates.set(code, { table, days: Object.keys(table).sort() });
+    await AsyncStorage.setItem(`${RATES_CACHE_PREFIX}${code}`, JSON.stringify(table));
+  } catch (error) {
+    logger.error('[FxRates] Error saving cached rates:', error);
+  }
+};
+
+/**
+ * USD -> currency rate on a date, or the closest earlier/later date we have within MAX_FALLBACK_DAYS
+ * Returns null when no close enough rate is cached or the date is today or later
+ * (callers fall back to the current rate). Synchronous: call loadRates first.
+ */
+export const getRateOnDate = (currency: string, date: string | Date): number | null => {
+  const code = normalize(currency);
+  if (code === 'USD') return 1;
+
+  const day = toRateDate(date);
+  const cached = rates.get(code);
+  if (!cached || cached.days.length === 0 || day >= toRateDate(new Date())) return null;
+  if (cached.table[day]) return cached.table[day];
+
+  // Binary search for the first cached day after the requested one
+  const { days } = cached;
+  let low = 0;
+  let high = days.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (days[mid] < day) low = mid + 1;
+    else high = mid;
+  }
+
+  const candidates = [days[low - 1], days[low]].filter((other): other is string => other !== undefined);
+  const nearest = candidates.reduce((best, other) => (daysBetween(day, other) < daysBetween(day, best) ? other : best));
+  return daysBetween(day, nearest) <= MAX_FALLBACK_DAYS ? cached.table[nearest] : null;
+};
+
+/**
+ * Convert between any two currencies at the rates of a date (via USD)
+ * Returns null when either rate is unknown
+ */
+export const convertOnDate = (amount: number, from: string, to: string, date: string | Date): number | null => {
+  if (normalize(from) === normalize(to)) return amount;
+  const fromRate = getRateOnDate(from, date);
+  const toRate = getRateOnDate(to, date);
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+};
+
+/**
+ * Value of a transaction in a currency at the rates of its own date
+ * - Entered in that currency: the amount as entered
+ * - Entered in another currency: the entered amount converted on the transaction date
+ * - Otherwise: the USD amount converted on the transaction date
+ * @param fallbackRate - USD -> currency rate used when no dated rate is available (today's rate)
+ */
+export const revalueTransaction = (transaction: DatedAmount, currency: string, fallbackRate: number): number => {
+  const { amount, date, originalAmount, originalCurrency } = transaction;
+
+  if (originalAmount !== undefined && originalAmount !== null && !isNaN(originalAmount) && originalCurrency) {
+    if (normalize(originalCurrency) === normalize(currency)) return originalAmount;
+    const converted = convertOnDate(originalAmount, originalCurrency, currency, date);
+    if (converted !== null) return converted;
+  }
+
+  return amount * (getRateOnDate(currency, date) ?? fallbackRate);
+};
+
+/**
+ * Multiplier from a transaction's stored USD amount to its revalued amount (see Valuation)
+ * Rates must be loaded first (loadRatesForTransactions)
+ */
+export const getRevaluationFactor = (transaction: DatedAmount, valuation: Valuation): number =>
+  transaction.amount
+    ? revalueTransaction(transaction, valuation.currency, valuation.currentRate) / valuation.currentRate / transaction.amount
+    : 1;
+
+/**
+ * Load every rate needed to revalue these transactions in a currency
+ */
+export const loadRatesForTransactions = async (transactions: DatedRateRequest[], currency: string): Promise<void> => {
+  const datesByCurrency = new Map<string, Array<string | Date>>();
+  const add = (code: string, date: string | Date) => {
+    const key = normalize(code);
+    const dates = datesByCurrency.get(key) ?? [];
+    dates.push(date);
+    datesByCurrency.set(key, dates);
+  };
+
+  transactions.forEach((tx) => {
+    add(currency, tx.date);
+    if (tx.originalCurrency && normalize(tx.originalCurrency) !== normalize(currency)) {
+      add(tx.originalCurrency, tx.date);
+    }
+  });
+
+  // Each currency is fetched separately
+  await Promise.all(Array.from(datesByCurrency.entries()).map(([code, dates]) => loadRates(code, dates)));
+};
+
+export default {
+  toRateDate,
+  loadRates,
+  getRateOnDate,
+  convertOnDate,
+  revalueTransaction,
+  getRevaluationFactor,
+  loadRatesForTransactions,
+};
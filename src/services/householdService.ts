@@ -0,0 +1,295 @@
+/**
+ * Household Service
+ * Purpose: Shared household budgets - several Finly users contributing to the same categories
+ * Features: Household and invite management, shared categories, member attribution,
+ * settle-up of shared spending over a period
+ * Uses backend API for persistence; settlements are computed on the client
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Category, Household, HouseholdInvite, MemberInfo, UnifiedTransaction } from '../types';
+import { apiService } from './api';
+import { fetchAllTransactions } from './dataExportService';
+import { getCategoryAllocations } from './splitService';
+import logger from '../utils/logger';
+
+// Invite opened from an email link before the user was signed in
+const PENDING_INVITE_KEY = '@finly_pending_household_invite';
+
+export interface MemberSettlement {
+  member: MemberInfo;
+  paid: number; // USD paid towards shared categories
+  share: number; // USD the member should have paid (equal split)
+  balance: number; // paid - share: positive is owed money, negative owes money
+}
+
+export interface SettlementPayment {
+  from: MemberInfo;
+  to: MemberInfo;
+  amount: number; // USD
+}
+
+export interface SettlementSummary {
+  total: number; // USD of shared spending in the period
+  members: MemberSettlement[];
+  payments: SettlementPayment[]; // Fewest payments that even out the balances
+  unattributed: number; // Shared spending without a known payer
+}
+
+/**
+ * Get the current user's household (null when not in one or on error)
+ */
+export const getHousehold = async (): Promise<Household | null> => {
+  try {
+    return await apiService.getHousehold();
+  } catch (error) {
+    console.error('Error loading household:', error);
+    return null;
+  }
+};
+
+/**
+ * Create a household with the current user as owner
+ */
+export const createHousehold = async (name: string): Promise<Household> => {
+  try {
+    return await apiService.createHousehold(name.trim());
+  } catch (error) {
+    console.error('Error creating household:', error);
+    throw error;
+  }
+};
+
+/**
+ * Rename the household
+ */
+export const renameHousehold = async (name: string): Promise<Household> => {
+  try {
+    return await apiService.updateHousehold(name.trim());
+  } catch (error) {
+    console.error('Error renaming household:', error);
+    throw error;
+  }
+};
+
+/**
+ * Leave the household
+ */
+export const leaveHousehold = async (): Promise<void> => {
+  try {
+    await apiService.leaveHousehold();
+  } catch (error) {
+    console.error('Error leaving household:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a member (owner only)
+ */
+export const removeMember = async (userId: string): Promise<void> => {
+  try {
+    await apiService.removeHouseholdMember(userId);
+  } catch (error) {
+    console.error('Error removing household member:', error);
+    throw error;
+  }
+};
+
+/**
+ * Invite someone by email
+ */
+export const inviteMember = async (email: string): Promise<HouseholdInvite> => {
+  const normalized = email.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+    throw new Error('Enter a valid email address');
+  }
+  try {
+    return await apiService.inviteHouseholdMember(normalized);
+  } catch (error) {
+    console.error('Error inviting household member:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel a pending invite
+ */
+export const cancelInvite = async (inviteId: string): Promise<void> => {
+  try {
+    await apiService.cancelHouseholdInvite(inviteId);
+  } catch (error) {
+    console.error('Error cancelling household invite:', error);
+    throw error;
+  }
+};
+
+/**
+ * Pending invites addressed to the current user
+ */
+export const getReceivedInvites = async (): Promise<HouseholdInvite[]> => {
+  try {
+    return await apiService.getReceivedHouseholdInvites();
+  } catch (error) {
+    console.error('Error loading household invites:', error);
+    return [];
+  }
+};
+
+/**
+ * Accept an invite and join its household
+ */
+export const acceptInvite = async (inviteId: string): Promise<Household> => {
+  try {
+    return await apiService.acceptHouseholdInvite(inviteId);
+  } catch (error) {
+    console.error('Error accepting household invite:', error);
+    throw error;
+  }
+};
+
+/**
+ * Decline an invite
+ */
+export const declineInvite = async (inviteId: string): Promise<void> => {
+  try {
+    await apiService.declineHouseholdInvite(inviteId);
+  } catch (error) {
+    console.error('Error declining household invite:', error);
+    throw error;
+  }
+};
+
+/**
+ * Share a category (its budgetLimit and rollover) with the household, or make it personal again
+ */
+export const setCategoryShared = async (
+  categoryId: string,
+  householdId: string | null
+): Promise<Category> => {
+  try {
+    return await apiService.updateCategory(categoryId, { householdId });
+  } catch (error) {
+    console.error('Error updating shared category:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remember an invite opened from an email link until the user has signed in
+ */
+export const savePendingInviteId = async (inviteId: string): Promise<void> => {
+  await AsyncStorage.setItem(PENDING_INVITE_KEY, inviteId);
+};
+
+/**
+ * Read and forget the invite saved by savePendingInviteId
+ */
+export const consumePendingInviteId = async (): Promise<string | null> => {
+  try {
+    const inviteId = await AsyncStorage.getItem(PENDING_INVITE_KEY);
+    if (inviteId) await AsyncStorage.removeItem(PENDING_INVITE_KEY);
+    return inviteId;
+  } catch (error) {
+    logger.error('[Household] Failed to read pending invite:', error);
+    return null;
+  }
+};
+
+/**
+ * Members as lightweight references (for chips and attribution)
+ */
+export const getMemberInfos = (household: Household | null): MemberInfo[] =>
+  household?.members.map((member) => ({ id: member.id, name: member.name })) || [];
+
+export const isSharedCategory = (category: Pick<Category, 'householdId'> | undefined): boolean =>
+  !!category?.householdId;
+
+/**
+ * Work out who paid how much of the shared spending and who owes whom
+ * Only allocations in shared categories count; shared spending is split equally between members.
+ */
+export function calculateSettlement(
+  transactions: UnifiedTransaction[],
+  members: MemberInfo[],
+  sharedCategoryIds: Set<string>
+): SettlementSummary {
+  const paid = new Map<string, number>(members.map((member) => [member.id, 0]));
+  let total = 0;
+  let unattributed = 0;
+
+  transactions
+    .filter((tx) => tx.type === 'expense')
+    .forEach((tx) => {
+      const sharedAmount = getCategoryAllocations(tx)
+        .filter((allocation) => sharedCategoryIds.has(allocation.categoryId))
+        .reduce((sum, allocation) => sum + allocation.amount, 0);
+      if (sharedAmount === 0) return;
+
+      total += sharedAmount;
+      if (tx.paidBy && paid.has(tx.paidBy.id)) {
+        paid.set(tx.paidBy.id, paid.get(tx.paidBy.id)! + sharedAmount);
+      } else {
+        unattributed += sharedAmount;
+      }
+    });
+
+  const attributed = total - unattributed;
+  const share = members.length > 0 ? attributed / members.length : 0;
+  const settlements: MemberSettlement[] = members.map((member) => {
+    const memberPaid = paid.get(member.id) || 0;
+    return { member, paid: memberPaid, share, balance: memberPaid - share };
+  });
+
+  return {
+    total,
+    members: settlements.sort((a, b) => b.paid - a.paid),
+    payments: getSettlementPayments(settlements),
+    unattributed,
+  };
+}
+
+/**
+ * Greedy matching of the largest debtor with the largest creditor
+ */
+function getSettlementPayments(settlements: MemberSettlement[]): SettlementPayment[] {
+  const debtors = settlements
+    .filter((s) => s.balance < -0.005)
+    .map((s) => ({ member: s.member, amount: -s.balance }))
+    .sort((a, b) => b.amount - a.amount);
+  const creditors = settlements
+    .filter((s) => s.balance > 0.005)
+    .map((s) => ({ member: s.member, amount: s.balance }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const payments: SettlementPayment[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amount = Math.min(debtors[d].amount, creditors[c].amount);
+    payments.push({ from: debtors[d].member, to: creditors[c].member, amount: Math.round(amount * 100) / 100 });
+    debtors[d].amount -= amount;
+    creditors[c].amount -= amount;
+    if (debtors[d].amount < 0.005) d++;
+    if (creditors[c].amount < 0.005) c++;
+  }
+  return payments;
+}
+
+/**
+ * Load shared spending for a period and settle it between the household's members
+ * The transactions endpoint includes other members' expenses in shared categories (with paidBy).
+ */
+export const getSettlement = async (
+  household: Household,
+  categories: Category[],
+  startDate: Date,
+  endDate: Date
+): Promise<SettlementSummary> => {
+  const sharedCategoryIds = new Set(
+    categories.filter((c) => c.householdId === household.id).map((c) => c.id)
+  );
+  // Every page, so a busy period isn't settled on a truncated list
+  const transactions = await fetchAllTransactions({ startDate, endDate, type: 'expense' });
+  return calculateSettlement(transactions, getMemberInfos(household), sharedCategoryIds);
+};
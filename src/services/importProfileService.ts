@@ -0,0 +1,361 @@
+/**
+ * Import Profile Service
+ * Purpose: Built-in parsers for Mint, YNAB and Personal Capital CSV exports
+ * Each profile turns an export into normalized transactions that are serialized
+ * for the server import job, plus the source categories that need mapping
+ */
+
+import { apiService } from './api';
+import { NormalizedTransaction } from './csvImportService';
+import { CSVRowError, detectDateFormat, parseAmountValue, parseDateValue } from './csvMappingService';
+import { Category } from '../types';
+import { ParsedCSV } from '../utils/csvParser';
+
+export type ImportProfileId = 'mint' | 'ynab' | 'personal_capital';
+
+export interface ProfileParseResult {
+  transactions: NormalizedTransaction[];
+  rowErrors: CSVRowError[];
+  skipped: number; // Rows intentionally ignored (transfers, starting balances)
+}
+
+interface ImportProfile {
+  id: ImportProfileId;
+  name: string;
+  requiredHeaders: string[];
+  parse: (csv: ParsedCSV, defaultCurrency: string) => ProfileParseResult;
+}
+
+/**
+ * Case-insensitive column lookup for a parsed export
+ */
+const columnReader = (csv: ParsedCSV) => {
+  const headers = csv.headers.map((h) => h.trim().toLowerCase());
+  return (row: string[], name: string): string => {
+    const index = headers.indexOf(name.toLowerCase());
+    return index >= 0 ? (row[index] ?? '').trim() : '';
+  };
+};
+
+const columnValues = (csv: ParsedCSV, name: string): string[] => {
+  const index = csv.headers.findIndex((h) => h.trim().toLowerCase() === name.toLowerCase());
+  return index >= 0 ? csv.rows.map((r) => r[index] ?? '') : [];
+};
+
+/**
+ * Mint: Date, Description, Original Description, Amount, Transaction Type,
+ * Category, Account Name, Labels, Notes. Amounts are unsigned; type is debit/credit.
+ */
+const parseMint = (csv: ParsedCSV, defaultCurrency: string): ProfileParseResult => {
+  const read = columnReader(csv);
+  const dateFormat = detectDateFormat(columnValues(csv, 'Date'));
+  const result: ProfileParseResult = { transactions: [], rowErrors: [], skipped: 0 };
+
+  csv.rows.forEach((row, index) => {
+    const category = read(row, 'Category');
+    if (['transfer', 'credit card payment'].includes(category.toLowerCase())) {
+      result.skipped++;
+      return;
+    }
+
+    const errors: string[] = [];
+    const date = parseDateValue(read(row, 'Date'), dateFormat);
+    const amount = parseAmountValue(read(row, 'Amount'), '.');
+    const description = read(row, 'Description') || read(row, 'Original Description');
+    const transactionType = read(row, 'Transaction Type').toLowerCase();
+
+    if (!date) errors.push(`Invalid date "${read(row, 'Date')}"`);
+    if (amount === null || amount === 0) errors.push(`Invalid amount "${read(row, 'Amount')}"`);
+    if (!description) errors.push('Missing description');
+    if (transactionType !== 'debit' && transactionType !== 'credit') {
+      errors.push(`Unknown transaction type "${read(row, 'Transaction Type')}"`);
+    }
+    if (errors.length > 0) {
+      result.rowErrors.push({ row: index + 2, errors });
+      return;
+    }
+
+    result.transactions.push({
+      date: date!,
+      amount: Math.abs(amount!),
+      type: transactionType === 'debit' ? 'expense' : 'income',
+      description,
+      category: category || undefined,
+      currency: defaultCurrency,
+      tags: read(row, 'Labels').split(/\s+/).filter(Boolean),
+      notes: read(row, 'Notes') || undefined,
+      account: read(row, 'Account Name') || undefined,
+    });
+  });
+
+  return result;
+};
+
+const YNAB_SPLIT_PATTERN = /^split \(\d+\/\d+\)\s*/i;
+
+/**
+ * YNAB register export: Account, Flag, Date, Payee, Category Group/Category,
+ * Category Group, Category, Memo, Outflow, Inflow, Cleared.
+ * Split transactions export one row per split with a "Split (n/total)" memo prefix;
+ * each split becomes its own transaction in its own category.
+ */
+const parseYNAB = (csv: ParsedCSV, defaultCurrency: string): ProfileParseResult => {
+  const read = columnReader(csv);
+  const dateFormat = detectDateFormat(columnValues(csv, 'Date'));
+  const amountSamples = [...columnValues(csv, 'Outflow'), ...columnValues(csv, 'Inflow')];
+  const decimalSeparator = amountSamples.some((v) => /,\d{2}\s*\D*$/.test(v.trim())) ? ',' : '.';
+  const result: ProfileParseResult = { transactions: [], rowErrors: [], skipped: 0 };
+
+  csv.rows.forEach((row, index) => {
+    const payee = read(row, 'Payee');
+    if (/^transfer\s*:/i.test(payee) || /^starting balance$/i.test(payee)) {
+      result.skipped++;
+      return;
+    }
+
+    const errors: string[] = [];
+    const date = parseDateValue(read(row, 'Date'), dateFormat);
+    const outflow = parseAmountValue(read(row, 'Outflow'), decimalSeparator) ?? 0;
+    const inflow = parseAmountValue(read(row, 'Inflow'), decimalSeparator) ?? 0;
+    const net = inflow - outflow;
+
+    if (!date) errors.push(`Invalid date "${read(row, 'Date')}"`);
+    if (net === 0) errors.push('Missing outflow/inflow amount');
+    if (errors.length > 0) {
+      result.rowErrors.push({ row: index + 2, errors });
+      return;
+    }
+
+    const rawMemo = read(row, 'Memo');
+    const isSplit = YNAB_SPLIT_PATTERN.test(rawMemo);
+    const memo = rawMemo.replace(YNAB_SPLIT_PATTERN, '').trim();
+
+    // "Inflow: Ready to Assign" / "To be Budgeted" is YNAB's income bucket, not a category
+    const category = read(row, 'Category');
+    const isIncomeBucket = /ready to assign|to be budgeted/i.test(category) ||
+      /^inflow$/i.test(read(row, 'Category Group'));
+
+    result.transactions.push({
+      date: date!,
+      amount: Math.abs(net),
+      type: net < 0 ? 'expense' : 'income',
+      description: payee || memo || 'YNAB transaction',
+      category: isIncomeBucket ? undefined : category || undefined,
+      currency: defaultCurrency,
+      tags: read(row, 'Flag') ? [read(row, 'Flag')] : [],
+      notes: [isSplit ? 'Split' : '', memo].filter(Boolean).join(': ') || undefined,
+      account: read(row, 'Account') || undefined,
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Personal Capital (Empower): Date, Account, Description, Category, Tags, Amount.
+ * Amounts are signed (negative = spending).
+ */
+const parsePersonalCapital = (csv: ParsedCSV, defaultCurrency: string): ProfileParseResult => {
+  const read = columnReader(csv);
+  const dateFormat = detectDateFormat(columnValues(csv, 'Date'));
+  const result: ProfileParseResult = { transactions: [], rowErrors: [], skipped: 0 };
+
+  csv.rows.forEach((row, index) => {
+    const category = read(row, 'Category');
+    if (/^transfers?$/i.test(category)) {
+      result.skipped++;
+      return;
+    }
+
+    const errors: string[] = [];
+    const date = parseDateValue(read(row, 'Date'), dateFormat);
+    const amount = parseAmountValue(read(row, 'Amount'), '.');
+    const description = read(row, 'Description');
+
+    if (!date) errors.push(`Invalid date "${read(row, 'Date')}"`);
+    if (amount === null || amount === 0) errors.push(`Invalid amount "${read(row, 'Amount')}"`);
+    if (!description) errors.push('Missing description');
+    if (errors.length > 0) {
+      result.rowErrors.push({ row: index + 2, errors });
+      return;
+    }
+
+    result.transactions.push({
+      date: date!,
+      amount: Math.abs(amount!),
+      type: amount! < 0 ? 'expense' : 'income',
+      description,
+      category: category || undefined,
+      currency: defaultCurrency,
+      tags: read(row, 'Tags').split(/[,;]/).map((t) => t.trim()).filter(Boolean),
+      account: read(row, 'Account') || undefined,
+    });
+  });
+
+  return result;
+};
+
+export const IMPORT_PROFILES: Record<ImportProfileId, ImportProfile> = {
+  mint: {
+    id: 'mint',
+    name: 'Mint',
+    requiredHeaders: ['Date', 'Description', 'Amount', 'Transaction Type', 'Category'],
+    parse: parseMint,
+  },
+  ynab: {
+    id: 'ynab',
+    name: 'YNAB',
+    requiredHeaders: ['Date', 'Payee', 'Category', 'Outflow', 'Inflow'],
+    parse: parseYNAB,
+  },
+  personal_capital: {
+    id: 'personal_capital',
+    name: 'Personal Capital',
+    requiredHeaders: ['Date', 'Description', 'Category', 'Amount'],
+    parse: parsePersonalCapital,
+  },
+};
+
+export const isImportProfileId = (id: string): id is ImportProfileId => id in IMPORT_PROFILES;
+
+/**
+ * Check that an export has the columns a profile needs
+ */
+export const validateProfileCSV = (
+  profileId: ImportProfileId,
+  csv: ParsedCSV
+): { valid: boolean; error?: string } => {
+  const profile = IMPORT_PROFILES[profileId];
+  const headers = csv.headers.map((h) => h.trim().toLowerCase());
+
+  if (csv.rows.length === 0) {
+    return { valid: false, error: 'CSV file must have at least a header row and one data row' };
+  }
+  const missing = profile.requiredHeaders.filter((h) => !headers.includes(h.toLowerCase()));
+  if (missing.length > 0) {
+    return {
+      valid: false,
+      error: `This doesn't look like a ${profile.name} export. Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`,
+    };
+  }
+  return { valid: true };
+};
+
+/**
+ * Parse an export with the given profile
+ */
+export const parseWithProfile = (
+  profileId: ImportProfileId,
+  csv: ParsedCSV,
+  defaultCurrency: string
+): ProfileParseResult => IMPORT_PROFILES[profileId].parse(csv, defaultCurrency);
+
+// Common source category names that correspond to Finly's default categories
+const CATEGORY_ALIASES: Record<string, string[]> = {
+  food: ['restaurants', 'fast food', 'coffee shops', 'groceries', 'dining', 'dining out', 'food & dining', 'alcohol & bars'],
+  transport: ['auto & transport', 'gas & fuel', 'public transportation', 'parking', 'ride share', 'automotive', 'gasoline/fuel'],
+  shopping: ['clothing', 'electronics & software', 'general merchandise', 'books', 'hobbies'],
+  entertainment: ['movies & dvds', 'music', 'amusement', 'arts', 'streaming services', 'entertainment & recreation'],
+  health: ['doctor', 'pharmacy', 'gym', 'health & fitness', 'healthcare/medical', 'dentist', 'fitness'],
+  utilities: ['bills & utilities', 'mobile phone', 'internet', 'utilities', 'television', 'cable/satellite'],
+};
+
+/**
+ * Find the Finly category matching a source category name
+ * Exact (case-insensitive) name first, then the alias table
+ */
+export const matchSourceCategory = (sourceName: string, categories: Category[]): Category | undefined => {
+  const normalized = sourceName.trim().toLowerCase();
+  const exact = categories.find((c) => c.name.trim().toLowerCase() === normalized);
+  if (exact) return exact;
+
+  for (const [target, aliases] of Object.entries(CATEGORY_ALIASES)) {
+    if (aliases.includes(normalized)) {
+      const match = categories.find((c) => c.name.trim().toLowerCase() === target);
+      if (match) return match;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Source category names used by expense rows, with their row counts
+ * Income rows keep their category as-is since Finly income has no categories
+ */
+export const getSourceCategories = (
+  transactions: NormalizedTransaction[]
+): Array<{ name: string; count: number }> => {
+  const counts = new Map<string, number>();
+  transactions.forEach((tx) => {
+    if (tx.type === 'expense' && tx.category) {
+      counts.set(tx.category, (counts.get(tx.category) || 0) + 1);
+    }
+  });
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Rewrite source category names to Finly category names
+ */
+export const applyCategoryMapping = (
+  transactions: NormalizedTransaction[],
+  mapping: Record<string, string>
+): NormalizedTransaction[] =>
+  transactions.map((tx) =>
+    tx.type === 'expense' && tx.category && mapping[tx.category]
+      ? { ...tx, category: mapping[tx.category] }
+      : tx
+  );
+
+export type CategoryMappingDecision =
+  | { action: 'create' }
+  | { action: 'merge'; categoryId: string };
+
+// Palette for categories created during import (matches CreateCategoryModal colors)
+const IMPORT_CATEGORY_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#6366F1'];
+
+/**
+ * Default decisions: merge into a matching Finly category, otherwise create one
+ */
+export const suggestCategoryDecisions = (
+  sourceCategories: Array<{ name: string }>,
+  categories: Category[]
+): Record<string, CategoryMappingDecision> => {
+  const decisions: Record<string, CategoryMappingDecision> = {};
+  sourceCategories.forEach(({ name }) => {
+    const match = matchSourceCategory(name, categories);
+    decisions[name] = match ? { action: 'merge', categoryId: match.id } : { action: 'create' };
+  });
+  return decisions;
+};
+
+/**
+ * Create the categories the user chose to create and return a
+ * source name -> Finly category name mapping for applyCategoryMapping
+ */
+export const resolveCategoryDecisions = async (
+  decisions: Record<string, CategoryMappingDecision>,
+  categories: Category[]
+): Promise<Record<string, string>> => {
+  const mapping: Record<string, string> = {};
+  let colorIndex = 0;
+
+  for (const [sourceName, decision] of Object.entries(decisions)) {
+    if (decision.action === 'merge') {
+      const target = categories.find((c) => c.id === decision.categoryId);
+      if (target) mapping[sourceName] = target.name;
+      continue;
+    }
+
+    const created = await apiService.createCategory({
+      name: sourceName.trim(),
+      icon: 'tag',
+      color: IMPORT_CATEGORY_COLORS[colorIndex++ % IMPORT_CATEGORY_COLORS.length],
+    });
+    mapping[sourceName] = created.name;
+  }
+
+  return mapping;
+};
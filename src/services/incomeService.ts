@@ -7,6 +7,7 @@
 
 import { IncomeSource, IncomeFrequency, IncomeTransaction } from '../types';
 import { apiService } from './api';
+import { getScheduleDates, matchesSchedule } from '../utils/recurrence';
 
 /**
  * Get all income sources for the current user
@@ -127,6 +128,7 @@ export const addIncomeTransaction = async (transaction: Omit<IncomeTransaction,
       date: date,
       description: transaction.description,
       incomeSourceId: transaction.incomeSourceId,
+      autoAdded: transaction.autoAdded,
     });
     return newTransaction;
   } catch (error) {
@@ -154,7 +156,7 @@ export const calculateIncomeForPeriod = async (
   for (const source of sources) {
     if (!source.autoAdd) continue;
 
-    const dates = getIncomeDatesForPeriod(source, startDate, endDate);
+    const dates = getScheduleDates(source, startDate, endDate);
     total += dates.length * source.amount;
   }
 
@@ -164,60 +166,6 @@ export const calculateIncomeForPeriod = async (
   return total;
 };
 
-/**
- * Get dates when income should be added for a source within a period
- */
-const getIncomeDatesForPeriod = (
-  source: IncomeSource,
-  startDate: Date,
-  endDate: Date
-): Date[] => {
-  const dates: Date[] = [];
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  const sourceStart = new Date(source.startDate);
-
-  if (sourceStart > end) return dates; // Source hasn't started yet
-
-  let currentDate = sourceStart > start ? new Date(sourceStart) : new Date(start);
-
-  while (currentDate <= end) {
-    if (matchesFrequency(currentDate, source)) {
-      dates.push(new Date(currentDate));
-    }
-    currentDate.setDate(currentDate.getDate() + 1);
-  }
-
-  return dates;
-};
-
-/**
- * Check if a date matches the income source frequency
- */
-const matchesFrequency = (date: Date, source: IncomeSource): boolean => {
-  const dayOfWeek = date.getDay();
-  const dayOfMonth = date.getDate();
-
-  switch (source.frequency) {
-    case 'WEEKLY':
-      return source.dayOfWeek !== undefined && dayOfWeek === source.dayOfWeek;
-    case 'BIWEEKLY':
-      // Simple biweekly: every 14 days from start date
-      const startDate = new Date(source.startDate);
-      const diffDays = Math.floor((date.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-      return diffDays >= 0 && diffDays % 14 === 0;
-    case 'MONTHLY':
-      return source.dayOfMonth !== undefined && dayOfMonth === source.dayOfMonth;
-    case 'CUSTOM':
-      // Custom dates: check if day of month matches any in customDates array
-      return source.customDates !== undefined && source.customDates.includes(dayOfMonth);
-    case 'MANUAL':
-      return false; // Manual handled separately
-    default:
-      return false;
-  }
-};
-
 /**
  * Check for income that should be auto-added today
  */
@@ -232,7 +180,7 @@ export const checkAndAddScheduledIncome = async (): Promise<void> => {
     const sourceStart = new Date(source.startDate);
     if (sourceStart > today) continue; // Source hasn't started
 
-    if (matchesFrequency(today, source)) {
+    if (matchesSchedule(today, source)) {
       // Check if already added today - query backend for today's transactions
       const todayStart = new Date(today);
       todayStart.setHours(0, 0, 0, 0);
@@ -0,0 +1,621 @@
+/**
+ * Local Database Service
+ * Purpose: Local-first SQLite copy of transactions, categories, income sources and tags
+ * Features: Incremental sync from the server with an updatedAt cursor, indexed queries for
+ * filtering/search, aggregations for trends and balance history, revaluation of server totals at
+ * each transaction's own exchange rate, offline reads
+ * The server stays the source of truth: local rows are only written by sync, and pending
+ * offline mutations are overlaid at query time by offlineQueueService.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import { Category, IncomeSource, SyncChanges, Tag, UnifiedTransaction } from '../types';
+import { apiService } from './api';
+import { offlineQueueService } from './offlineQueueService';
+import { getCategoryAllocations, getCategoryAmount } from './splitService';
+import { getRevaluationFactor, loadRatesForTransactions, Valuation } from './fxRateService';
+import logger from '../utils/logger';
+
+const DATABASE_NAME = 'finly.db';
+// Bump and add a step to MIGRATIONS when the schema changes
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS transactions (
+    id TEXT PRIMARY KEY NOT NULL,
+    type TEXT NOT NULL,
+    date TEXT NOT NULL,
+    amount REAL NOT NULL,
+    account_id TEXT,
+    from_account_id TEXT,
+    to_account_id TEXT,
+    paid_by TEXT,
+    search_text TEXT NOT NULL DEFAULT '',
+    updated_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_transactions_type_date ON transactions (type, date);
+  CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions (date);
+  CREATE INDEX IF NOT EXISTS idx_transactions_account ON transactions (account_id);
+  CREATE TABLE IF NOT EXISTS transaction_allocations (
+    transaction_id TEXT NOT NULL,
+    category_id TEXT NOT NULL,
+    amount REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_allocations_category ON transaction_allocations (category_id);
+  CREATE INDEX IF NOT EXISTS idx_allocations_transaction ON transaction_allocations (transaction_id);
+  CREATE TABLE IF NOT EXISTS categories (id TEXT PRIMARY KEY NOT NULL, name TEXT NOT NULL, color TEXT, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS income_sources (id TEXT PRIMARY KEY NOT NULL, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS tags (id TEXT PRIMARY KEY NOT NULL, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS sync_state (key TEXT PRIMARY KEY NOT NULL, value TEXT);
+  `,
+  // search_text now includes split category and tag names: a full sync rewrites every row
+  `
+  DELETE FROM sync_state;
+  `,
+];
+
+const CURSOR_KEY = 'cursor';
+const LAST_SYNCED_KEY = 'lastSyncedAt';
+// Safety stop for a runaway server cursor
+const MAX_SYNC_PAGES = 50;
+
+export interface LocalTransactionFilter {
+  startDate?: string; // ISO, inclusive
+  endDate?: string; // ISO, inclusive
+  type?: 'expense' | 'income' | 'transfer' | 'all';
+  categoryId?: string; // Matches split allocations too
+  accountId?: string;
+  includeTransfers?: boolean; // With accountId: also transfers into/out of the account
+  paidBy?: string;
+  search?: string; // Description, notes, category, income source and tag names
+  // Substring groups over the same text: every group needs at least one of its substrings
+  searchTerms?: string[][];
+  limit?: number;
+  offset?: number;
+}
+
+export interface LocalCategoryTotal {
+  categoryId: string;
+  category: string;
+  color: string;
+  amount: number; // USD
+}
+
+export interface LocalDailyTotal {
+  date: string; // YYYY-MM-DD
+  amount: number; // USD
+}
+
+// Values aggregated amounts at the exchange rate of each transaction's date (see fxRateService)
+export type LocalValuation = Valuation;
+
+// What to add to server totals (USD) so each transaction counts at the rate of its own date
+export interface LocalRevaluationAdjustment {
+  income: number;
+  expenses: number;
+}
+
+// Same shape as apiService.getSpendingTrends
+export interface LocalSpendingTrends {
+  dailySpending: LocalDailyTotal[];
+  categoryTotals: Array<{ category: string; amount: number; color: string }>;
+  weeklyComparison: { thisWeek: number; lastWeek: number; percentChange: number };
+  topCategory: { name: string; amount: number; emoji: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TransactionRow {
+  data: string;
+}
+
+// Lowercased text matched by LocalTransactionFilter.search
+const buildSearchText = (tx: UnifiedTransaction): string =>
+  [
+    tx.description,
+    tx.notes,
+    tx.category?.name,
+    tx.incomeSource?.name,
+    ...(tx.tags || []).map((tag) => tag.name),
+    ...(tx.splits || []).flatMap((split) => [
+      split.notes,
+      split.category?.name,
+      ...(split.tags || []).map((tag) => tag.name),
+    ]),
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+const toLikePattern = (value: string): string => `%${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+const matchesSearchTerms = (searchText: string, searchTerms: string[][] = []): boolean =>
+  searchTerms.every((group) => group.some((term) => searchText.includes(term)));
+
+class LocalDatabaseService {
+  private databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+  private syncPromise: Promise<boolean> | null = null;
+  // Bumped by clear() so a sync that is still running stops writing
+  private syncGeneration = 0;
+
+  /**
+   * Open the database and apply pending migrations (once per app session)
+   */
+  private getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = (async () => {
+        const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+        await db.execAsync('PRAGMA journal_mode = WAL;');
+        const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+        const version = row?.user_version ?? 0;
+        for (let i = version; i < MIGRATIONS.length; i++) {
+          await db.execAsync(MIGRATIONS[i]);
+          await db.execAsync(`PRAGMA user_version = ${i + 1}`);
+        }
+        return db;
+      })().catch((error) => {
+        this.databasePromise = null;
+        throw error;
+      });
+    }
+    return this.databasePromise;
+  }
+
+  private async getState(key: string): Promise<string | null> {
+    const db = await this.getDatabase();
+    const row = await db.getFirstAsync<{ value: string | null }>('SELECT value FROM sync_state WHERE key = ?', [key]);
+    return row?.value ?? null;
+  }
+
+  /**
+   * Whether at least one sync has completed (queries are meaningful)
+   */
+  async hasSynced(): Promise<boolean> {
+    try {
+      return (await this.getState(LAST_SYNCED_KEY)) !== null;
+    } catch (error) {
+      logger.error('[LocalDatabase] Failed to read sync state:', error);
+      return false;
+    }
+  }
+
+  async getLastSyncedAt(): Promise<string | null> {
+    return this.getState(LAST_SYNCED_KEY);
+  }
+
+  /**
+   * Pull changes since the stored cursor
+   * Concurrent calls share one run. Returns false when the sync failed (e.g. offline).
+   */
+  sync(): Promise<boolean> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async runSync(): Promise<boolean> {
+    const generation = this.syncGeneration;
+    try {
+      const db = await this.getDatabase();
+      let cursor = await this.getState(CURSOR_KEY);
+      let changed = 0;
+      let complete = false;
+
+      for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+        const changes = await apiService.getSyncChanges(cursor);
+        if (generation !== this.syncGeneration) {
+          logger.debug('[LocalDatabase] Sync aborted, database was cleared');
+          return false;
+        }
+        await db.withTransactionAsync(async () => {
+          await this.applyChanges(db, changes);
+          await db.runAsync('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)', [CURSOR_KEY, changes.cursor]);
+        });
+        changed += changes.transactions.length + changes.categories.length +
+          changes.incomeSources.length + changes.tags.length + changes.deleted.length;
+        cursor = changes.cursor;
+        if (!changes.hasMore) {
+          complete = true;
+          break;
+        }
+      }
+
+      // Stopped at MAX_SYNC_PAGES: the cursor is saved, the next sync continues from it
+      if (!complete) {
+        logger.debug(`[LocalDatabase] Sync paused after ${MAX_SYNC_PAGES} pages, ${changed} changes`);
+        return true;
+      }
+
+      await db.runAsync(
+        'INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)',
+        [LAST_SYNCED_KEY, new Date().toISOString()]
+      );
+      logger.debug(`[LocalDatabase] Sync complete, ${changed} changes`);
+      return true;
+    } catch (error) {
+      logger.warn('[LocalDatabase] Sync failed:', error);
+      return false;
+    }
+  }
+
+  private async applyChanges(db: SQLite.SQLiteDatabase, changes: SyncChanges): Promise<void> {
+    for (const tx of changes.transactions) {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO transactions
+          (id, type, date, amount, account_id, from_account_id, to_account_id, paid_by, search_text, updated_at, data)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          tx.id,
+          tx.type,
+          tx.date,
+          tx.amount,
+          tx.accountId ?? tx.account?.id ?? null,
+          tx.fromAccount?.id ?? null,
+          tx.toAccount?.id ?? null,
+          tx.paidBy?.id ?? null,
+          buildSearchText(tx),
+          tx.updatedAt ?? tx.createdAt,
+          JSON.stringify(tx),
+        ]
+      );
+      await db.runAsync('DELETE FROM transaction_allocations WHERE transaction_id = ?', [tx.id]);
+      if (tx.type === 'expense') {
+        for (const allocation of getCategoryAllocations(tx)) {
+          await db.runAsync(
+            'INSERT INTO transaction_allocations (transaction_id, category_id, amount) VALUES (?, ?, ?)',
+            [tx.id, allocation.categoryId, allocation.amount]
+          );
+        }
+      }
+    }
+
+    for (const category of changes.categories) {
+      await db.runAsync(
+        'INSERT OR REPLACE INTO categories (id, name, color, data) VALUES (?, ?, ?, ?)',
+        [category.id, category.name, category.color, JSON.stringify(category)]
+      );
+    }
+    for (const source of changes.incomeSources) {
+      await db.runAsync('INSERT OR REPLACE INTO income_sources (id, data) VALUES (?, ?)', [source.id, JSON.stringify(source)]);
+    }
+    for (const tag of changes.tags) {
+      await db.runAsync('INSERT OR REPLACE INTO tags (id, data) VALUES (?, ?)', [tag.id, JSON.stringify(tag)]);
+    }
+
+    for (const { entity, id } of changes.deleted) {
+      switch (entity) {
+        case 'transaction':
+          await db.runAsync('DELETE FROM transactions WHERE id = ?', [id]);
+          await db.runAsync('DELETE FROM transaction_allocations WHERE transaction_id = ?', [id]);
+          break;
+        case 'category':
+          await db.runAsync('DELETE FROM categories WHERE id = ?', [id]);
+          break;
+        case 'incomeSource':
+          await db.runAsync('DELETE FROM income_sources WHERE id = ?', [id]);
+          break;
+        case 'tag':
+          await db.runAsync('DELETE FROM tags WHERE id = ?', [id]);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Transactions matching a filter, newest first, with pending offline mutations applied
+   */
+  async queryTransactions(filter: LocalTransactionFilter = {}): Promise<UnifiedTransaction[]> {
+    const db = await this.getDatabase();
+    const where: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filter.startDate) {
+      where.push('date >= ?');
+      params.push(filter.startDate);
+    }
+    if (filter.endDate) {
+      where.push('date <= ?');
+      params.push(filter.endDate);
+    }
+
+    const type = filter.type || 'all';
+    if (type !== 'all') {
+      where.push('type = ?');
+      params.push(type);
+    } else if (!filter.includeTransfers) {
+      where.push("type != 'transfer'");
+    }
+
+    if (filter.accountId) {
+      if (filter.includeTransfers) {
+        where.push('(account_id = ? OR from_account_id = ? OR to_account_id = ?)');
+        params.push(filter.accountId, filter.accountId, filter.accountId);
+      } else {
+        where.push('account_id = ?');
+        params.push(filter.accountId);
+      }
+    }
+    if (filter.categoryId) {
+      where.push('id IN (SELECT transaction_id FROM transaction_allocations WHERE category_id = ?)');
+      params.push(filter.categoryId);
+    }
+    if (filter.paidBy) {
+      where.push('paid_by = ?');
+      params.push(filter.paidBy);
+    }
+    if (filter.search?.trim()) {
+      where.push('search_text LIKE ?');
+      params.push(`%${filter.search.trim().toLowerCase()}%`);
+    }
+    for (const group of filter.searchTerms || []) {
+      if (group.length === 0) continue;
+      where.push(`(${group.map(() => "search_text LIKE ? ESCAPE '\\'").join(' OR ')})`);
+      params.push(...group.map(toLikePattern));
+    }
+
+    let sql = 'SELECT data FROM transactions';
+    if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+    sql += ' ORDER BY date DESC';
+    if (filter.limit) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(filter.limit, filter.offset || 0);
+    }
+
+    const rows = await db.getAllAsync<TransactionRow>(sql, params);
+    const transactions = rows.map((row) => JSON.parse(row.data) as UnifiedTransaction);
+
+    // Pending creates are not in the table yet; filters the outbox can't apply are re-checked here
+    const merged = await offlineQueueService.applyToTransactions(transactions, {
+      startDate: filter.startDate,
+      endDate: filter.endDate,
+      type: filter.type,
+      accountId: filter.accountId,
+      paidBy: filter.paidBy,
+    });
+    const search = filter.search?.trim().toLowerCase();
+    return merged.filter((tx) => {
+      if (filter.categoryId && !getCategoryAllocations(tx).some((a) => a.categoryId === filter.categoryId)) {
+        return false;
+      }
+      const searchText = buildSearchText(tx);
+      return (!search || searchText.includes(search)) && matchesSearchTerms(searchText, filter.searchTerms);
+    });
+  }
+
+  /**
+   * One synced transaction by id, or null if it isn't in the local store
+   */
+  async getTransaction(id: string): Promise<UnifiedTransaction | null> {
+    const db = await this.getDatabase();
+    const row = await db.getFirstAsync<TransactionRow>('SELECT data FROM transactions WHERE id = ?', [id]);
+    return row ? (JSON.parse(row.data) as UnifiedTransaction) : null;
+  }
+
+  /**
+   * Expense totals per category (split allocations counted separately), largest first
+   */
+  async getCategoryTotals(
+    startDate: string,
+    endDate: string,
+    paidBy?: string,
+    valuation?: LocalValuation
+  ): Promise<LocalCategoryTotal[]> {
+    const db = await this.getDatabase();
+    const filter = `t.type = 'expense' AND t.date >= ? AND t.date <= ?${paidBy ? ' AND t.paid_by = ?' : ''}`;
+    const params = paidBy ? [startDate, endDate, paidBy] : [startDate, endDate];
+
+    if (valuation) {
+      // Revalued per transaction, so allocations are summed here instead of in SQL
+      const rows = await db.getAllAsync<{ categoryId: string; category: string | null; color: string | null; amount: number; data: string }>(
+        `SELECT a.category_id AS categoryId, c.name AS category, c.color AS color, a.amount AS amount, t.data AS data
+          FROM transaction_allocations a
+          JOIN transactions t ON t.id = a.transaction_id
+          LEFT JOIN categories c ON c.id = a.category_id
+          WHERE ${filter}`,
+        params
+      );
+      const transactions = rows.map((row) => JSON.parse(row.data) as UnifiedTransaction);
+      await loadRatesForTransactions(transactions, valuation.currency);
+
+      const totals = new Map<string, LocalCategoryTotal>();
+      rows.forEach((row, index) => {
+        const amount = row.amount * getRevaluationFactor(transactions[index], valuation);
+        const total = totals.get(row.categoryId);
+        if (total) {
+          total.amount += amount;
+        } else {
+          totals.set(row.categoryId, {
+            categoryId: row.categoryId,
+            category: row.category || 'Uncategorized',
+            color: row.color || '#9CA3AF',
+            amount,
+          });
+        }
+      });
+      return Array.from(totals.values()).sort((a, b) => b.amount - a.amount);
+    }
+
+    const rows = await db.getAllAsync<{ categoryId: string; category: string | null; color: string | null; amount: number }>(
+      `SELECT a.category_id AS categoryId, c.name AS category, c.color AS color, SUM(a.amount) AS amount
+        FROM transaction_allocations a
+        JOIN transactions t ON t.id = a.transaction_id
+        LEFT JOIN categories c ON c.id = a.category_id
+        WHERE ${filter}
+        GROUP BY a.category_id
+        ORDER BY amount DESC`,
+      params
+    );
+    return rows.map((row) => ({
+      categoryId: row.categoryId,
+      category: row.category || 'Uncategorized',
+      color: row.color || '#9CA3AF',
+      amount: row.amount,
+    }));
+  }
+
+  /**
+   * Expense totals per day (UTC date of the transaction)
+   */
+  async getDailySpending(
+    startDate: string,
+    endDate: string,
+    paidBy?: string,
+    valuation?: LocalValuation
+  ): Promise<LocalDailyTotal[]> {
+    const db = await this.getDatabase();
+    const filter = `type = 'expense' AND date >= ? AND date <= ?${paidBy ? ' AND paid_by = ?' : ''}`;
+    const params = paidBy ? [startDate, endDate, paidBy] : [startDate, endDate];
+
+    if (valuation) {
+      const rows = await db.getAllAsync<TransactionRow>(
+        `SELECT data FROM transactions WHERE ${filter} ORDER BY date ASC`,
+        params
+      );
+      const transactions = rows.map((row) => JSON.parse(row.data) as UnifiedTransaction);
+      await loadRatesForTransactions(transactions, valuation.currency);
+
+      // Rows are in date order, so days come out sorted
+      const totals = new Map<string, number>();
+      transactions.forEach((tx) => {
+        const day = tx.date.slice(0, 10);
+        totals.set(day, (totals.get(day) || 0) + tx.amount * getRevaluationFactor(tx, valuation));
+      });
+      return Array.from(totals.entries()).map(([date, amount]) => ({ date, amount }));
+    }
+
+    return db.getAllAsync<LocalDailyTotal>(
+      `SELECT substr(date, 1, 10) AS date, SUM(amount) AS amount
+        FROM transactions
+        WHERE ${filter}
+        GROUP BY substr(date, 1, 10)
+        ORDER BY date ASC`,
+      params
+    );
+  }
+
+  /**
+   * Spending trends computed locally: last 30 days, this month's categories, last 7 days vs the 7 before
+   * Lets the Trends screen render before (or without) the analytics endpoints.
+   * With a valuation, amounts use the exchange rate of each expense's date.
+   */
+  async getSpendingTrends(paidBy?: string, valuation?: LocalValuation): Promise<LocalSpendingTrends> {
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const [dailySpending, categories] = await Promise.all([
+      this.getDailySpending(new Date(now.getTime() - 30 * DAY_MS).toISOString(), now.toISOString(), paidBy, valuation),
+      this.getCategoryTotals(monthStart.toISOString(), now.toISOString(), paidBy, valuation),
+    ]);
+
+    const sumSince = (from: number, to: number) =>
+      dailySpending
+        .filter((day) => {
+          const time = new Date(day.date).getTime();
+          return time > now.getTime() - from * DAY_MS && time <= now.getTime() - to * DAY_MS;
+        })
+        .reduce((sum, day) => sum + day.amount, 0);
+    const thisWeek = sumSince(7, 0);
+    const lastWeek = sumSince(14, 7);
+
+    const categoryTotals = categories.map(({ category, amount, color }) => ({ category, amount, color }));
+    const top = categoryTotals[0];
+
+    return {
+      dailySpending,
+      categoryTotals,
+      weeklyComparison: {
+        thisWeek,
+        lastWeek,
+        percentChange: lastWeek > 0 ? ((thisWeek - lastWeek) / lastWeek) * 100 : 0,
+      },
+      topCategory: top ? { name: top.category, amount: top.amount, emoji: '💰' } : { name: 'None', amount: 0, emoji: '💰' },
+    };
+  }
+
+  /**
+   * Difference between valuing a range's income and expenses at each transaction's own exchange rate
+   * and at today's, for totals the server computes (monthly stats, category spending)
+   * With a categoryId only that category's expense allocations count.
+   */
+  async getRevaluationAdjustment(
+    startDate: string,
+    endDate: string,
+    valuation: LocalValuation,
+    categoryId?: string
+  ): Promise<LocalRevaluationAdjustment> {
+    const db = await this.getDatabase();
+    const rows = categoryId
+      ? await db.getAllAsync<TransactionRow>(
+          `SELECT data FROM transactions
+            WHERE type = 'expense' AND date >= ? AND date <= ?
+              AND id IN (SELECT transaction_id FROM transaction_allocations WHERE category_id = ?)`,
+          [startDate, endDate, categoryId]
+        )
+      : await db.getAllAsync<TransactionRow>(
+          `SELECT data FROM transactions WHERE type IN ('expense', 'income') AND date >= ? AND date <= ?`,
+          [startDate, endDate]
+        );
+    const transactions = rows.map((row) => JSON.parse(row.data) as UnifiedTransaction);
+    await loadRatesForTransactions(transactions, valuation.currency);
+
+    const adjustment: LocalRevaluationAdjustment = { income: 0, expenses: 0 };
+    transactions.forEach((tx) => {
+      const change = getRevaluationFactor(tx, valuation) - 1;
+      if (tx.type === 'income') {
+        adjustment.income += tx.amount * change;
+      } else {
+        adjustment.expenses += (categoryId ? getCategoryAmount(tx, categoryId) : tx.amount) * change;
+      }
+    });
+    return adjustment;
+  }
+
+  async getCategories(): Promise<Category[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>('SELECT data FROM categories ORDER BY name');
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async getIncomeSources(): Promise<IncomeSource[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>('SELECT data FROM income_sources');
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async getTags(): Promise<Tag[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>('SELECT data FROM tags');
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  /**
+   * Delete all local data and the sync cursor (called on logout)
+   */
+  async clear(): Promise<void> {
+    // Stop a running sync and let its current page finish, so it can't write after the wipe
+    this.syncGeneration++;
+    if (this.syncPromise) {
+      await this.syncPromise.catch(() => false);
+    }
+
+    try {
+      const db = await this.getDatabase();
+      await db.execAsync(`
+        DELETE FROM transactions;
+        DELETE FROM transaction_allocations;
+        DELETE FROM categories;
+        DELETE FROM income_sources;
+        DELETE FROM tags;
+        DELETE FROM sync_state;
+      `);
+      logger.info('[LocalDatabase] Cleared local database');
+    } catch (error) {
+      logger.error('[LocalDatabase] Failed to clear local database:', error);
+    }
+  }
+}
+
+export const localDatabase = new LocalDatabaseService();
+export default localDatabase;
@@ -8,6 +8,36 @@ import { getCurrentUserId } from './userService';
 import logger from '../utils/logger';
 
 const PERMISSION_BANNER_SHOWN_KEY = '@finly:notification_permission_banner_shown';
+const QUIET_HOURS_KEY = '@finly_notification_quiet_hours';
+
+export const BUDGET_ALERTS_CHANNEL_ID = 'budget-alerts';
+export const REMINDERS_CHANNEL_ID = 'reminders';
+
+/**
+ * Local notifications scheduled during quiet hours are delivered when they end
+ * Hours are local 0-23; a start later than the end spans midnight (e.g. 22 -> 8)
+ */
+export interface QuietHours {
+  enabled: boolean;
+  startHour: number;
+  endHour: number;
+}
+
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: true,
+  startHour: 22,
+  endHour: 8
+};
+
+export interface LocalNotificationOptions {
+  identifier?: string; // Reusing an identifier replaces the pending notification
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  channelId?: string;
+  date?: Date; // Deliver at this time instead of immediately
+  respectQuietHours?: boolean; // Default: true
+}
 
 const PROJECT_ID = 'dfa0ffd0-4dca-4765-b6dd-1ca535a8e731';
 
@@ -43,6 +73,14 @@ class NotificationService {
         vibrationPattern: [0, 250, 250, 250],
         lightColor: '#FF231F7C'
       });
+      await Notifications.setNotificationChannelAsync(BUDGET_ALERTS_CHANNEL_ID, {
+        name: 'Budget alerts',
+        importance: Notifications.AndroidImportance.HIGH
+      });
+      await Notifications.setNotificationChannelAsync(REMINDERS_CHANNEL_ID, {
+        name: 'Reminders & weekly digest',
+        importance: Notifications.AndroidImportance.DEFAULT
+      });
     }
   }
 
@@ -271,6 +309,118 @@ class NotificationService {
     return status === 'granted';
   }
 
+  /**
+   * Get quiet hours for local notifications
+   */
+  async getQuietHours(): Promise<QuietHours> {
+    try {
+      const stored = await AsyncStorage.getItem(QUIET_HOURS_KEY);
+      return stored ? { ...DEFAULT_QUIET_HOURS, ...JSON.parse(stored) } : DEFAULT_QUIET_HOURS;
+    } catch (error) {
+      logger.error('[NotificationService] Failed to load quiet hours:', error);
+      return DEFAULT_QUIET_HOURS;
+    }
+  }
+
+  /**
+   * Save quiet hours for local notifications
+   */
+  async setQuietHours(quietHours: QuietHours): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QUIET_HOURS_KEY, JSON.stringify(quietHours));
+    } catch (error) {
+      logger.error('[NotificationService] Failed to save quiet hours:', error);
+    }
+  }
+
+  /**
+   * When the given time falls inside quiet hours, return the moment they end; otherwise null
+   */
+  getQuietHoursEnd(quietHours: QuietHours, date: Date = new Date()): Date | null {
+    const { enabled, startHour, endHour } = quietHours;
+    if (!enabled || startHour === endHour) return null;
+
+    const hour = date.getHours();
+    const isQuiet =
+      startHour < endHour
+        ? hour >= startHour && hour < endHour
+        : hour >= startHour || hour < endHour;
+    if (!isQuiet) return null;
+
+    const end = new Date(date);
+    end.setHours(endHour, 0, 0, 0);
+    if (end <= date) {
+      end.setDate(end.getDate() + 1);
+    }
+    return end;
+  }
+
+  /**
+   * Show (or schedule) a local notification, deferring it past quiet hours
+   * @returns The notification identifier, or null if notifications are not permitted
+   */
+  async scheduleLocalNotification(options: LocalNotificationOptions): Promise<string | null> {
+    try {
+      if (!(await this.areNotificationsEnabled())) {
+        return null;
+      }
+
+      let date = options.date;
+      if (options.respectQuietHours !== false) {
+        const quietEnd = this.getQuietHoursEnd(await this.getQuietHours(), date || new Date());
+        if (quietEnd) {
+          date = quietEnd;
+        }
+      }
+
+      const channelId = options.channelId || 'default';
+      const trigger: Notifications.NotificationTriggerInput =
+        date && date.getTime() > Date.now()
+          ? { type: Notifications.SchedulableTriggerInputTypes.DATE, date, channelId }
+          : { channelId };
+
+      return await Notifications.scheduleNotificationAsync({
+        identifier: options.identifier,
+        content: {
+          title: options.title,
+          body: options.body,
+          data: options.data || {}
+        },
+        trigger
+      });
+    } catch (error) {
+      logger.error('[NotificationService] Failed to schedule local notification:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a pending local notification
+   */
+  async cancelLocalNotification(identifier: string): Promise<void> {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+    } catch (error) {
+      logger.error('[NotificationService] Failed to cancel local notification:', error);
+    }
+  }
+
+  /**
+   * Cancel every pending local notification whose identifier starts with the prefix
+   */
+  async cancelLocalNotificationsWithPrefix(prefix: string): Promise<void> {
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      await Promise.all(
+        scheduled
+          .filter((notification) => notification.identifier.startsWith(prefix))
+          .map((notification) => Notifications.cancelScheduledNotificationAsync(notification.identifier))
+      );
+    } catch (error) {
+      logger.error('[NotificationService] Failed to cancel local notifications:', error);
+    }
+  }
+
   /**
    * Open device settings for the app (to enable notifications manually)
    */
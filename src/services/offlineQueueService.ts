@@ -0,0 +1,939 @@
+/**
+ * Offline Queue Service
+ * Purpose: Persistent outbox for expense and income mutations made while offline
+ * Features:
+ * - Records mutations locally with client-generated IDs
+ * - Builds optimistic records so the UI can show pending entries immediately
+ * - Replays mutations in order when connectivity returns, when the app comes to the foreground and
+ *   with backoff after a failed replay
+ * - Detects conflicts (e.g. expense deleted on the server) and keeps them for the user to resolve
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import axios from 'axios';
+import { api, isNetworkError } from './apiClient';
+import { apiCacheService } from './apiCacheService';
+import { API_ENDPOINTS } from '../config/api.config';
+import {
+  Category,
+  Expense,
+  ExpenseSplit,
+  ExpenseSplitInput,
+  IncomeTransaction,
+  Tag,
+  UnifiedTransaction,
+} from '../types';
+import logger from '../utils/logger';
+
+// Storage keys
+const STORAGE_KEYS = {
+  OUTBOX: '@finly_offline_outbox',
+  CONFLICTS: '@finly_offline_conflicts',
+  ID_MAP: '@finly_offline_id_map',
+};
+
+/**
+ * Prefix for client-generated IDs so queued records can be recognized anywhere in the app
+ */
+export const OFFLINE_ID_PREFIX = 'offline-';
+
+// Keep the client -> server ID map bounded
+const MAX_ID_MAP_ENTRIES = 200;
+
+// Backoff between replays after a network or server error (doubles up to the max)
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Types
+export type OfflineMutationType =
+  | 'CREATE_EXPENSE'
+  | 'UPDATE_EXPENSE'
+  | 'DELETE_EXPENSE'
+  | 'CREATE_INCOME'
+  | 'UPDATE_INCOME'
+  | 'DELETE_INCOME';
+
+export interface ExpenseMutationPayload {
+  amount?: number;
+  categoryId?: string | null;
+  description?: string;
+  date?: string; // ISO string (Dates are serialized before queueing)
+  paymentMethod?: string;
+  notes?: string;
+  tags?: string[];
+  accountId?: string | null;
+  splits?: ExpenseSplitInput[] | null;
+  paidById?: string;
+  originalAmount?: number;
+  originalCurrency?: string;
+}
+
+export interface IncomeMutationPayload {
+  amount: number;
+  date: string;
+  description: string;
+  incomeSourceId?: string;
+  accountId?: string | null;
+  autoAdded?: boolean;
+  originalAmount?: number;
+  originalCurrency?: string;
+}
+
+export interface OfflineMutation {
+  id: string;
+  type: OfflineMutationType;
+  /** Client-generated ID of the record (creates) or the record being changed */
+  targetId: string;
+  payload: ExpenseMutationPayload | IncomeMutationPayload | Partial<IncomeMutationPayload> | null;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type SyncConflictReason = 'DELETED_ON_SERVER' | 'REJECTED';
+
+export interface SyncConflict {
+  id: string;
+  mutation: OfflineMutation;
+  reason: SyncConflictReason;
+  message: string;
+  detectedAt: string;
+}
+
+export type OfflineQueueEvent =
+  | { type: 'queued'; mutation: OfflineMutation; expense?: Expense; changes?: Partial<Expense> }
+  | { type: 'synced'; mutation: OfflineMutation; serverId?: string; record?: Expense | IncomeTransaction }
+  | { type: 'conflict'; conflict: SyncConflict }
+  | { type: 'status'; pendingCount: number; conflicts: SyncConflict[]; isOnline: boolean };
+
+type OfflineQueueListener = (event: OfflineQueueEvent) => void;
+
+const generateId = (): string =>
+  `${OFFLINE_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Whether an ID was generated locally and has not been synced yet
+ */
+export const isOfflineId = (id?: string | null): boolean =>
+  !!id && id.startsWith(OFFLINE_ID_PREFIX);
+
+/**
+ * Serialize Date values so the payload survives JSON persistence
+ */
+const serializeDate = (date?: string | Date): string | undefined => {
+  if (!date) return undefined;
+  return date instanceof Date ? date.toISOString() : date;
+};
+
+class OfflineQueueService {
+  private isInitialized = false;
+  private outbox: OfflineMutation[] = [];
+  private conflicts: SyncConflict[] = [];
+  private idMap: Record<string, string> = {};
+  private listeners: Set<OfflineQueueListener> = new Set();
+  private flushPromise: Promise<void> | null = null;
+  // Mutation currently being sent; the queue helpers must not merge into or drop it
+  private inFlightId: string | null = null;
+  private isOnline = true;
+  // Pending retry after a failed replay, and how many replays have failed in a row
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt = 0;
+  // Last known categories and tags, used to render optimistic records
+  private cachedCategories: Category[] = [];
+  private cachedTags: Tag[] = [];
+
+  /**
+   * Initialize the queue: load persisted state and start listening for connectivity changes
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    await this.load();
+
+    const netInfo = await NetInfo.fetch();
+    this.isOnline = this.isConnected(netInfo);
+
+    NetInfo.addEventListener((state) => {
+      const wasOnline = this.isOnline;
+      this.isOnline = this.isConnected(state);
+
+      if (!wasOnline && this.isOnline) {
+        logger.info('[OfflineQueue] Connection restored, replaying outbox');
+        this.flush();
+      }
+      if (wasOnline !== this.isOnline) {
+        this.emitStatus();
+      }
+    });
+
+    // A failed replay may be waiting on a timer that didn't run while in the background
+    AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active' && this.isOnline && this.outbox.length > 0) {
+        this.flush();
+      }
+    });
+
+    this.isInitialized = true;
+    logger.info('[OfflineQueue] Service initialized', { pending: this.outbox.length });
+    this.emitStatus();
+
+    if (this.isOnline && this.outbox.length > 0) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Subscribe to queue events
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: OfflineQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether new mutations should go to the outbox instead of the network
+   */
+  async shouldQueue(): Promise<boolean> {
+    if (!this.isInitialized) {
+      await this.load();
+      const netInfo = await NetInfo.fetch();
+      this.isOnline = this.isConnected(netInfo);
+    }
+    // Keep ordering: while older mutations are waiting, new ones must wait behind them
+    return !this.isOnline || this.outbox.length > 0;
+  }
+
+  getPendingMutations(): OfflineMutation[] {
+    return [...this.outbox];
+  }
+
+  getConflicts(): SyncConflict[] {
+    return [...this.conflicts];
+  }
+
+  /**
+   * Resolve a client ID to the server ID it was assigned after syncing
+   */
+  resolveId(id: string): string {
+    return this.idMap[id] || id;
+  }
+
+  /**
+   * Queue an expense creation and return an optimistic expense record
+   */
+  async queueExpenseCreate(data: Omit<ExpenseMutationPayload, 'date'> & { date?: string | Date }): Promise<Expense> {
+    const payload: ExpenseMutationPayload = {
+      ...data,
+      date: serializeDate(data.date) || new Date().toISOString(),
+    };
+    const mutation = await this.enqueue('CREATE_EXPENSE', generateId(), payload);
+    const expense = this.buildOptimisticExpense(mutation.targetId, payload, mutation.createdAt);
+    this.emit({ type: 'queued', mutation, expense });
+    return expense;
+  }
+
+  /**
+   * Queue an expense update and return the optimistic expense record
+   * Updates to a record that is still waiting to be created are merged into the create
+   */
+  async queueExpenseUpdate(
+    expenseId: string,
+    data: Omit<ExpenseMutationPayload, 'date'> & { date?: string | Date }
+  ): Promise<Expense> {
+    const payload: ExpenseMutationPayload = { ...data, date: serializeDate(data.date) };
+    const targetId = this.resolveId(expenseId);
+
+    const pendingCreate = this.outbox.find(
+      (m) => m.type === 'CREATE_EXPENSE' && m.targetId === targetId && m.id !== this.inFlightId
+    );
+    if (pendingCreate) {
+      pendingCreate.payload = { ...(pendingCreate.payload as ExpenseMutationPayload), ...stripUndefined(payload) };
+      await this.persist();
+      const expense = this.buildOptimisticExpense(
+        targetId,
+        pendingCreate.payload as ExpenseMutationPayload,
+        pendingCreate.createdAt
+      );
+      this.emit({ type: 'queued', mutation: pendingCreate, expense });
+      this.emitStatus();
+      return expense;
+    }
+
+    const mutation = await this.enqueue('UPDATE_EXPENSE', targetId, payload);
+    const expense = this.buildOptimisticExpense(targetId, payload, mutation.createdAt);
+    const changes = stripUndefined({
+      ...payload,
+      category: payload.categoryId ? expense.category : undefined,
+      tags: payload.tags ? expense.tags : undefined,
+      splits: payload.splits !== undefined ? expense.splits : undefined,
+    }) as Partial<Expense>;
+    this.emit({ type: 'queued', mutation, changes });
+    return expense;
+  }
+
+  /**
+   * Queue an expense deletion
+   * Deleting a record that was never synced simply drops it from the outbox
+   */
+  async queueExpenseDelete(expenseId: string): Promise<void> {
+    const targetId = this.resolveId(expenseId);
+
+    // A create that is being sent right now can't be taken back - delete it once it has synced
+    const createInFlight = this.outbox.some((m) => m.id === this.inFlightId && m.targetId === targetId);
+
+    if (isOfflineId(targetId) && !createInFlight) {
+      const pendingCreate = this.outbox.find((m) => m.targetId === targetId);
+      this.outbox = this.outbox.filter((m) => m.targetId !== targetId);
+      await this.persist();
+      if (pendingCreate) {
+        this.emit({ type: 'queued', mutation: { ...pendingCreate, type: 'DELETE_EXPENSE', payload: null } });
+      }
+      this.emitStatus();
+      return;
+    }
+
+    // Pending updates are pointless once the record is deleted
+    this.outbox = this.outbox.filter(
+      (m) => m.id === this.inFlightId || !(m.type === 'UPDATE_EXPENSE' && m.targetId === targetId)
+    );
+    const mutation = await this.enqueue('DELETE_EXPENSE', targetId, null);
+    this.emit({ type: 'queued', mutation });
+  }
+
+  /**
+   * Queue an income transaction creation and return an optimistic record
+   */
+  async queueIncomeCreate(data: {
+    amount: number;
+    date: string | Date;
+    description: string;
+    incomeSourceId?: string;
+    accountId?: string | null;
+    autoAdded?: boolean;
+    originalAmount?: number;
+    originalCurrency?: string;
+  }): Promise<IncomeTransaction> {
+    const payload: IncomeMutationPayload = {
+      ...data,
+      date: serializeDate(data.date) || new Date().toISOString(),
+    };
+    const mutation = await this.enqueue('CREATE_INCOME', generateId(), payload);
+    this.emit({ type: 'queued', mutation });
+    return {
+      id: mutation.targetId,
+      userId: '',
+      incomeSourceId: payload.incomeSourceId,
+      amount: payload.amount,
+      date: payload.date,
+      description: payload.description,
+      autoAdded: !!payload.autoAdded,
+      accountId: payload.accountId,
+      createdAt: mutation.createdAt,
+      originalAmount: payload.originalAmount,
+      originalCurrency: payload.originalCurrency,
+    };
+  }
+
+  /**
+   * Queue an income transaction update
+   * Updates to a record that is still waiting to be created are merged into the create
+   */
+  async queueIncomeUpdate(
+    transactionId: string,
+    data: Omit<Partial<IncomeMutationPayload>, 'date'> & { date?: string | Date }
+  ): Promise<void> {
+    const payload: Partial<IncomeMutationPayload> = { ...data, date: serializeDate(data.date) };
+    const targetId = this.resolveId(transactionId);
+
+    const pendingCreate = this.outbox.find(
+      (m) => m.type === 'CREATE_INCOME' && m.targetId === targetId && m.id !== this.inFlightId
+    );
+    if (pendingCreate) {
+      pendingCreate.payload = { ...(pendingCreate.payload as IncomeMutationPayload), ...stripUndefined(payload) };
+      await this.persist();
+      this.emit({ type: 'queued', mutation: pendingCreate });
+      this.emitStatus();
+      return;
+    }
+
+    const mutation = await this.enqueue('UPDATE_INCOME', targetId, payload);
+    this.emit({ type: 'queued', mutation });
+  }
+
+  /**
+   * Queue an income transaction deletion
+   * Deleting a record that was never synced simply drops it from the outbox
+   */
+  async queueIncomeDelete(transactionId: string): Promise<void> {
+    const targetId = this.resolveId(transactionId);
+
+    // A create that is being sent right now can't be taken back - delete it once it has synced
+    const createInFlight = this.outbox.some((m) => m.id === this.inFlightId && m.targetId === targetId);
+
+    if (isOfflineId(targetId) && !createInFlight) {
+      const pendingCreate = this.outbox.find((m) => m.targetId === targetId);
+      this.outbox = this.outbox.filter((m) => m.targetId !== targetId);
+      await this.persist();
+      if (pendingCreate) {
+        this.emit({ type: 'queued', mutation: { ...pendingCreate, type: 'DELETE_INCOME', payload: null } });
+      }
+      this.emitStatus();
+      return;
+    }
+
+    // Pending updates are pointless once the record is deleted
+    this.outbox = this.outbox.filter(
+      (m) => m.id === this.inFlightId || !(m.type === 'UPDATE_INCOME' && m.targetId === targetId)
+    );
+    const mutation = await this.enqueue('DELETE_INCOME', targetId, null);
+    this.emit({ type: 'queued', mutation });
+  }
+
+  /**
+   * Merge queued mutations into a list of server transactions
+   * Pending creations are prepended, pending deletes hidden and pending updates applied
+   */
+  async applyToTransactions(
+    transactions: UnifiedTransaction[],
+    filter?: {
+      startDate?: string;
+      endDate?: string;
+      type?: 'expense' | 'income' | 'transfer' | 'all';
+      accountId?: string;
+      paidBy?: string;
+    }
+  ): Promise<UnifiedTransaction[]> {
+    if (this.outbox.length === 0) return transactions;
+
+    const deletedIds = new Set(
+      this.outbox
+        .filter((m) => m.type === 'DELETE_EXPENSE' || m.type === 'DELETE_INCOME')
+        .map((m) => m.targetId)
+    );
+    const updates = new Map<string, ExpenseMutationPayload>();
+    this.outbox
+      .filter((m) => m.type === 'UPDATE_EXPENSE')
+      .forEach((m) => {
+        updates.set(m.targetId, {
+          ...(updates.get(m.targetId) || {}),
+          ...stripUndefined(m.payload as ExpenseMutationPayload),
+        });
+      });
+    const incomeUpdates = new Map<string, Partial<IncomeMutationPayload>>();
+    this.outbox
+      .filter((m) => m.type === 'UPDATE_INCOME')
+      .forEach((m) => {
+        incomeUpdates.set(m.targetId, {
+          ...(incomeUpdates.get(m.targetId) || {}),
+          ...stripUndefined(m.payload as Partial<IncomeMutationPayload>),
+        });
+      });
+
+    const lookups = await this.loadLookups();
+    const merged = transactions
+      .filter((tx) => !deletedIds.has(tx.id))
+      .map((tx) => {
+        const incomeUpdate = incomeUpdates.get(tx.id);
+        if (incomeUpdate && tx.type === 'income') {
+          return {
+            ...tx,
+            ...(incomeUpdate.amount !== undefined && { amount: incomeUpdate.amount }),
+            ...(incomeUpdate.description !== undefined && { description: incomeUpdate.description }),
+            ...(incomeUpdate.date !== undefined && { date: incomeUpdate.date }),
+            ...(incomeUpdate.accountId !== undefined && { accountId: incomeUpdate.accountId }),
+            ...(incomeUpdate.originalAmount !== undefined && { originalAmount: incomeUpdate.originalAmount }),
+            ...(incomeUpdate.originalCurrency !== undefined && { originalCurrency: incomeUpdate.originalCurrency }),
+          };
+        }
+
+        const update = updates.get(tx.id);
+        if (!update || tx.type !== 'expense') return tx;
+        return {
+          ...tx,
+          ...(update.amount !== undefined && { amount: update.amount }),
+          ...(update.description !== undefined && { description: update.description }),
+          ...(update.date !== undefined && { date: update.date }),
+          ...(update.notes !== undefined && { notes: update.notes }),
+          ...(update.paymentMethod !== undefined && { paymentMethod: update.paymentMethod as UnifiedTransaction['paymentMethod'] }),
+          ...(update.categoryId !== undefined && { category: this.lookupCategory(update.categoryId, lookups.categories) }),
+          ...(update.tags !== undefined && { tags: this.lookupTags(update.tags, lookups.tags) }),
+          ...(update.accountId !== undefined && { accountId: update.accountId }),
+          ...(update.splits !== undefined && { splits: this.lookupSplits(update.splits, lookups) }),
+          ...(update.originalAmount !== undefined && { originalAmount: update.originalAmount }),
+          ...(update.originalCurrency !== undefined && { originalCurrency: update.originalCurrency }),
+        };
+      });
+
+    const pending: UnifiedTransaction[] = this.outbox
+      .filter((m) => m.type === 'CREATE_EXPENSE' || m.type === 'CREATE_INCOME')
+      .map((m) => {
+        if (m.type === 'CREATE_INCOME') {
+          const payload = m.payload as IncomeMutationPayload;
+          return {
+            id: m.targetId,
+            type: 'income' as const,
+            amount: payload.amount,
+            date: payload.date,
+            description: payload.description,
+            createdAt: m.createdAt,
+            accountId: payload.accountId,
+            originalAmount: payload.originalAmount,
+            originalCurrency: payload.originalCurrency,
+          };
+        }
+        const payload = m.payload as ExpenseMutationPayload;
+        return {
+          id: m.targetId,
+          type: 'expense' as const,
+          amount: payload.amount ?? 0,
+          date: payload.date || m.createdAt,
+          description: payload.description || '',
+          createdAt: m.createdAt,
+          category: this.lookupCategory(payload.categoryId, lookups.categories),
+          paymentMethod: payload.paymentMethod as UnifiedTransaction['paymentMethod'],
+          notes: payload.notes,
+          tags: this.lookupTags(payload.tags, lookups.tags),
+          accountId: payload.accountId,
+          splits: this.lookupSplits(payload.splits, lookups),
+          originalAmount: payload.originalAmount,
+          originalCurrency: payload.originalCurrency,
+        };
+      });
+
+    const matchesFilter = (tx: UnifiedTransaction): boolean => {
+      if (filter?.type && filter.type !== 'all' && tx.type !== filter.type) return false;
+      if (filter?.accountId && tx.accountId !== filter.accountId) return false;
+      if (filter?.paidBy && tx.paidBy?.id !== filter.paidBy) return false;
+      if (filter?.startDate && tx.date < filter.startDate) return false;
+      if (filter?.endDate && tx.date > filter.endDate) return false;
+      return true;
+    };
+
+    return [...pending.filter(matchesFilter), ...merged].sort(
+      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+    );
+  }
+
+  /**
+   * Replay the outbox in order
+   * Stops at the first network or server failure so ordering is preserved, and schedules a retry
+   */
+  flush(): Promise<void> {
+    if (this.flushPromise) return this.flushPromise;
+    this.cancelRetry();
+
+    this.flushPromise = (async () => {
+      try {
+        while (this.outbox.length > 0) {
+          const mutation = this.outbox[0];
+          const shouldContinue = await this.replay(mutation);
+          if (!shouldContinue) {
+            this.scheduleRetry();
+            return;
+          }
+        }
+        this.retryAttempt = 0;
+      } finally {
+        this.flushPromise = null;
+        this.emitStatus();
+      }
+    })();
+
+    return this.flushPromise;
+  }
+
+  /**
+   * Resolve a conflict
+   * - 'discard': drop the local change and keep the server state
+   * - 'recreate': re-create the record from the local change (only for expenses deleted on the server)
+   */
+  async resolveConflict(conflictId: string, resolution: 'discard' | 'recreate'): Promise<void> {
+    const conflict = this.conflicts.find((c) => c.id === conflictId);
+    if (!conflict) return;
+
+    this.conflicts = this.conflicts.filter((c) => c.id !== conflictId);
+
+    if (resolution === 'recreate' && this.canRecreate(conflict)) {
+      await this.queueExpenseCreate(conflict.mutation.payload as ExpenseMutationPayload);
+      if (this.isOnline) {
+        this.flush();
+      }
+    } else {
+      await this.persist();
+      this.emitStatus();
+    }
+  }
+
+  /**
+   * Whether a conflict has enough local data to re-create the record
+   */
+  canRecreate(conflict: SyncConflict): boolean {
+    const payload = conflict.mutation.payload as ExpenseMutationPayload | null;
+    return (
+      conflict.reason === 'DELETED_ON_SERVER' &&
+      conflict.mutation.type === 'UPDATE_EXPENSE' &&
+      !!payload &&
+      payload.amount !== undefined &&
+      !!payload.categoryId &&
+      !!payload.description
+    );
+  }
+
+  /**
+   * Clear all queued data (logout or account deletion)
+   */
+  async clearAll(): Promise<void> {
+    this.cancelRetry();
+    this.retryAttempt = 0;
+    this.outbox = [];
+    this.conflicts = [];
+    this.idMap = {};
+    await AsyncStorage.multiRemove([
+      STORAGE_KEYS.OUTBOX,
+      STORAGE_KEYS.CONFLICTS,
+      STORAGE_KEYS.ID_MAP,
+    ]);
+    this.emitStatus();
+  }
+
+  /**
+   * Replay a single mutation
+   * @returns Whether the flush should continue with the next mutation
+   */
+  private async replay(mutation: OfflineMutation): Promise<boolean> {
+    this.inFlightId = mutation.id;
+    try {
+      const { serverId, record } = await this.send(mutation);
+
+      this.removeFromOutbox(mutation.id);
+      if (serverId && isOfflineId(mutation.targetId)) {
+        this.rememberId(mutation.targetId, serverId);
+      }
+      await this.persist();
+
+      logger.debug('[OfflineQueue] Mutation synced', { type: mutation.type, targetId: mutation.targetId });
+      this.emit({ type: 'synced', mutation, serverId, record });
+      return true;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        mutation.attempts += 1;
+        mutation.lastError = 'Network unavailable';
+        await this.persist();
+        logger.warn('[OfflineQueue] Network unavailable, will retry');
+        return false;
+      }
+
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+      // Server errors are transient - keep the mutation and retry later
+      if (status !== undefined && status >= 500) {
+        mutation.attempts += 1;
+        mutation.lastError = `Server error (${status})`;
+        await this.persist();
+        return false;
+      }
+
+      // Deleting something that is already gone is not a conflict
+      if ((mutation.type === 'DELETE_EXPENSE' || mutation.type === 'DELETE_INCOME') && (status === 404 || status === 410)) {
+        this.removeFromOutbox(mutation.id);
+        await this.persist();
+        this.emit({ type: 'synced', mutation });
+        return true;
+      }
+
+      const conflict: SyncConflict = {
+        id: generateId(),
+        mutation,
+        reason: status === 404 || status === 410 ? 'DELETED_ON_SERVER' : 'REJECTED',
+        message: this.describeConflict(mutation, status, error),
+        detectedAt: new Date().toISOString(),
+      };
+
+      this.removeFromOutbox(mutation.id);
+      this.conflicts.push(conflict);
+      await this.persist();
+
+      logger.warn('[OfflineQueue] Sync conflict detected', { type: mutation.type, status });
+      this.emit({ type: 'conflict', conflict });
+      return true;
+    } finally {
+      this.inFlightId = null;
+    }
+  }
+
+  /**
+   * Remove a mutation by ID - the outbox may have changed while it was being sent
+   */
+  private removeFromOutbox(mutationId: string): void {
+    this.outbox = this.outbox.filter((m) => m.id !== mutationId);
+  }
+
+  /**
+   * Send a mutation to the backend
+   */
+  private async send(
+    mutation: OfflineMutation
+  ): Promise<{ serverId?: string; record?: Expense | IncomeTransaction }> {
+    switch (mutation.type) {
+      case 'CREATE_EXPENSE': {
+        const response = await api.post<Expense>(API_ENDPOINTS.EXPENSES.LIST, mutation.payload);
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to create expense');
+        }
+        return { serverId: response.data?.id, record: response.data };
+      }
+      case 'UPDATE_EXPENSE': {
+        const response = await api.put<Expense>(
+          API_ENDPOINTS.EXPENSES.DETAIL.replace(':id', this.resolveId(mutation.targetId)),
+          mutation.payload
+        );
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to update expense');
+        }
+        return { serverId: response.data?.id, record: response.data };
+      }
+      case 'DELETE_EXPENSE': {
+        const response = await api.delete(
+          API_ENDPOINTS.EXPENSES.DETAIL.replace(':id', this.resolveId(mutation.targetId))
+        );
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to delete expense');
+        }
+        return {};
+      }
+      case 'CREATE_INCOME': {
+        const response = await api.post<IncomeTransaction>(
+          API_ENDPOINTS.INCOME.TRANSACTIONS,
+          mutation.payload
+        );
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to create income transaction');
+        }
+        return { serverId: response.data?.id, record: response.data };
+      }
+      case 'UPDATE_INCOME': {
+        const response = await api.put<IncomeTransaction>(
+          `${API_ENDPOINTS.INCOME.TRANSACTIONS}/${this.resolveId(mutation.targetId)}`,
+          mutation.payload
+        );
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to update income transaction');
+        }
+        return { serverId: response.data?.id, record: response.data };
+      }
+      case 'DELETE_INCOME': {
+        const response = await api.delete(
+          `${API_ENDPOINTS.INCOME.TRANSACTIONS}/${this.resolveId(mutation.targetId)}`
+        );
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to delete income transaction');
+        }
+        return {};
+      }
+    }
+  }
+
+  private describeConflict(mutation: OfflineMutation, status: number | undefined, error: unknown): string {
+    const description =
+      (mutation.payload as ExpenseMutationPayload | null)?.description || 'a transaction';
+
+    if (status === 404 || status === 410) {
+      return `"${description}" was deleted on another device, so your offline changes could not be applied.`;
+    }
+
+    const serverMessage = axios.isAxiosError(error)
+      ? (error.response?.data as { error?: { message?: string } } | undefined)?.error?.message
+      : (error as Error)?.message;
+    return `Your offline change to "${description}" was rejected${serverMessage ? `: ${serverMessage}` : '.'}`;
+  }
+
+  private async enqueue(
+    type: OfflineMutationType,
+    targetId: string,
+    payload: OfflineMutation['payload']
+  ): Promise<OfflineMutation> {
+    const mutation: OfflineMutation = {
+      id: generateId(),
+      type,
+      targetId,
+      payload,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    this.outbox.push(mutation);
+    await this.persist();
+
+    logger.info('[OfflineQueue] Mutation queued', { type, targetId });
+    this.emitStatus();
+
+    // Queued while online because older mutations were waiting (or a request just failed)
+    if (this.isInitialized && this.isOnline) {
+      this.flush();
+    }
+    return mutation;
+  }
+
+  /**
+   * Replay again after a failed attempt, waiting longer after each consecutive failure
+   */
+  private scheduleRetry(): void {
+    this.cancelRetry();
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** this.retryAttempt, RETRY_MAX_DELAY_MS);
+    this.retryAttempt += 1;
+
+    logger.debug('[OfflineQueue] Retrying outbox', { delay, attempt: this.retryAttempt });
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.isOnline && this.outbox.length > 0) {
+        this.flush();
+      }
+    }, delay);
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private buildOptimisticExpense(
+    id: string,
+    payload: ExpenseMutationPayload,
+    createdAt: string
+  ): Expense {
+    const category = this.lookupCategory(payload.categoryId, this.cachedCategories);
+    return {
+      id,
+      amount: payload.amount ?? 0,
+      categoryId: payload.categoryId || category.id,
+      category,
+      description: payload.description || '',
+      date: payload.date || createdAt,
+      paymentMethod: payload.paymentMethod as Expense['paymentMethod'],
+      notes: payload.notes,
+      tags: this.lookupTags(payload.tags, this.cachedTags),
+      accountId: payload.accountId,
+      splits: this.lookupSplits(payload.splits, { categories: this.cachedCategories, tags: this.cachedTags }),
+      createdAt,
+      updatedAt: new Date().toISOString(),
+      originalAmount: payload.originalAmount,
+      originalCurrency: payload.originalCurrency,
+    };
+  }
+
+  private async loadLookups(): Promise<{ categories: Category[]; tags: Tag[] }> {
+    const [categories, tags] = await Promise.all([
+      apiCacheService.get<Category[]>(API_ENDPOINTS.CATEGORIES.LIST),
+      apiCacheService.get<Tag[]>(API_ENDPOINTS.TAGS.LIST),
+    ]);
+    if (categories.data) this.cachedCategories = categories.data;
+    if (tags.data) this.cachedTags = tags.data;
+    return { categories: this.cachedCategories, tags: this.cachedTags };
+  }
+
+  private lookupCategory(categoryId: string | null | undefined, categories: Category[]) {
+    const category = categories.find((c) => c.id === categoryId);
+    return {
+      id: categoryId || '',
+      name: category?.name || 'Uncategorized',
+      icon: category?.icon || 'tag-outline',
+      color: category?.color || '#9CA3AF',
+    };
+  }
+
+  private lookupTags(tagIds: string[] | undefined, tags: Tag[]): Tag[] {
+    if (!tagIds) return [];
+    return tags.filter((t) => tagIds.includes(t.id));
+  }
+
+  private lookupSplits(
+    splits: ExpenseSplitInput[] | null | undefined,
+    lookups: { categories: Category[]; tags: Tag[] }
+  ): ExpenseSplit[] | undefined {
+    if (!splits || splits.length === 0) return undefined;
+    return splits.map((split) => ({
+      ...split,
+      category: this.lookupCategory(split.categoryId, lookups.categories),
+      tags: this.lookupTags(split.tags, lookups.tags),
+    }));
+  }
+
+  private rememberId(clientId: string, serverId: string): void {
+    this.idMap[clientId] = serverId;
+    const keys = Object.keys(this.idMap);
+    if (keys.length > MAX_ID_MAP_ENTRIES) {
+      keys.slice(0, keys.length - MAX_ID_MAP_ENTRIES).forEach((key) => delete this.idMap[key]);
+    }
+  }
+
+  private isConnected(state: NetInfoState): boolean {
+    return state.isConnected !== false && state.isInternetReachable !== false;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const [[, outbox], [, conflicts], [, idMap]] = await AsyncStorage.multiGet([
+        STORAGE_KEYS.OUTBOX,
+        STORAGE_KEYS.CONFLICTS,
+        STORAGE_KEYS.ID_MAP,
+      ]);
+      this.outbox = outbox ? JSON.parse(outbox) : [];
+      this.conflicts = conflicts ? JSON.parse(conflicts) : [];
+      this.idMap = idMap ? JSON.parse(idMap) : {};
+      await this.loadLookups();
+    } catch (error) {
+      logger.error('[OfflineQueue] Failed to load outbox:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.multiSet([
+        [STORAGE_KEYS.OUTBOX, JSON.stringify(this.outbox)],
+        [STORAGE_KEYS.CONFLICTS, JSON.stringify(this.conflicts)],
+        [STORAGE_KEYS.ID_MAP, JSON.stringify(this.idMap)],
+      ]);
+    } catch (error) {
+      logger.error('[OfflineQueue] Failed to persist outbox:', error);
+    }
+  }
+
+  private emit(event: OfflineQueueEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('[OfflineQueue] Listener error:', error);
+      }
+    });
+  }
+
+  private emitStatus(): void {
+    this.emit({
+      type: 'status',
+      pendingCount: this.outbox.length,
+      conflicts: this.getConflicts(),
+      isOnline: this.isOnline,
+    });
+  }
+}
+
+/**
+ * Remove undefined values so partial updates don't overwrite queued fields
+ */
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+// Export singleton instance
+export const offlineQueueService = new OfflineQueueService();
+export default offlineQueueService;
@@ -5,6 +5,7 @@
  */
 
 import { apiService } from './api';
+import { localDatabase } from './localDatabase';
 
 /**
  * Prefetch data for TrendsScreen
@@ -26,31 +27,16 @@ export const prefetchTrendsData = async (): Promise<void> => {
 
 /**
  * Prefetch data for BalanceHistoryScreen
- * Fetches monthly stats and unified transactions
+ * Fetches monthly stats and pulls new transactions into the local database
  */
 export const prefetchBalanceHistoryData = async (): Promise<void> => {
   try {
     console.log('[Prefetch] Starting BalanceHistoryScreen data prefetch...');
     
-    // Get date range for last 30 days (default for BalanceHistoryScreen)
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - 30);
-    
-    // Also get previous 30 days for comparison
-    const prevEndDate = new Date(startDate);
-    prevEndDate.setDate(prevEndDate.getDate() - 1);
-    const prevStartDate = new Date(prevEndDate);
-    prevStartDate.setDate(prevStartDate.getDate() - 30);
-    
+    // Balance history reads transactions from the local database
     await Promise.all([
       apiService.getMonthlyStats(),
-      apiService.getUnifiedTransactions({
-        startDate: prevStartDate.toISOString(),
-        endDate: endDate.toISOString(),
-        limit: 10000,
-        type: 'all',
-      }),
+      localDatabase.sync(),
     ]);
     console.log('[Prefetch] BalanceHistoryScreen data prefetched successfully');
   } catch (error) {
@@ -102,6 +102,25 @@ export async function getReceiptsByCategory(categoryId: string): Promise<Receipt
   }
 }
 
+/**
+ * Add receipts from a backup, keeping their ids and skipping ones already stored
+ * Returns the number of receipts added
+ */
+export async function importReceipts(imported: Receipt[]): Promise<number> {
+  try {
+    const receipts = await getReceipts();
+    const existingIds = new Set(receipts.map((r) => r.id));
+    const added = imported.filter((r) => !existingIds.has(r.id));
+    if (added.length > 0) {
+      await AsyncStorage.setItem(RECEIPTS_STORAGE_KEY, JSON.stringify([...receipts, ...added]));
+    }
+    return added.length;
+  } catch (error) {
+    console.error('Error importing receipts:', error);
+    throw error;
+  }
+}
+
 export default {
   saveReceipt,
   getReceipts,
@@ -109,5 +128,6 @@ export default {
   deleteReceipt,
   searchReceipts,
   getReceiptsByCategory,
+  importReceipts,
 };
 
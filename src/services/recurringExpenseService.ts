@@ -0,0 +1,200 @@
+/**
+ * Recurring Expense Service
+ * Purpose: Manages recurring expense definitions (rent, subscriptions, loan payments) and posts them on schedule
+ * Features: Same schedules as income sources plus yearly, auto-posting or "confirm this payment" prompts,
+ * catch-up for payments that fell due while the app was closed
+ * Uses backend API for persistence; lastPostedDate on each definition prevents double posting
+ */
+
+import { RecurringExpense, RecurringExpenseOccurrence } from '../types';
+import { apiService } from './api';
+import { offlineQueueService } from './offlineQueueService';
+import { getRecurringExpenseOccurrences, startOfDay } from '../utils/recurrence';
+import logger from '../utils/logger';
+
+// How far back missed payments are caught up
+const MAX_CATCH_UP_DAYS = 90;
+
+type RecurringExpenseInput = Omit<RecurringExpense, 'id' | 'createdAt' | 'updatedAt' | 'isActive' | 'category' | 'lastPostedDate'>;
+
+/**
+ * Get all recurring expenses for the current user
+ */
+export const getRecurringExpenses = async (): Promise<RecurringExpense[]> => {
+  try {
+    return await apiService.getRecurringExpenses();
+  } catch (error) {
+    console.error('Error loading recurring expenses:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a new recurring expense
+ */
+export const createRecurringExpense = async (expense: RecurringExpenseInput): Promise<RecurringExpense> => {
+  try {
+    return await apiService.createRecurringExpense({
+      name: expense.name,
+      amount: expense.amount,
+      categoryId: expense.categoryId,
+      paymentMethod: expense.paymentMethod,
+      frequency: expense.frequency,
+      startDate: expense.startDate,
+      dayOfMonth: expense.dayOfMonth,
+      dayOfWeek: expense.dayOfWeek,
+      customDates: expense.customDates,
+      autoAdd: expense.autoAdd,
+      originalAmount: expense.originalAmount ?? undefined,
+      originalCurrency: expense.originalCurrency ?? undefined,
+    });
+  } catch (error) {
+    console.error('Error creating recurring expense:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing recurring expense
+ */
+export const updateRecurringExpense = async (
+  recurringExpenseId: string,
+  updates: Partial<Omit<RecurringExpense, 'id' | 'createdAt' | 'updatedAt' | 'category'>>
+): Promise<RecurringExpense> => {
+  try {
+    return await apiService.updateRecurringExpense(recurringExpenseId, updates);
+  } catch (error) {
+    console.error('Error updating recurring expense:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a recurring expense (already posted expenses are kept)
+ */
+export const deleteRecurringExpense = async (recurringExpenseId: string): Promise<void> => {
+  try {
+    await apiService.deleteRecurringExpense(recurringExpenseId);
+  } catch (error) {
+    console.error('Error deleting recurring expense:', error);
+    throw error;
+  }
+};
+
+/**
+ * Total scheduled (not yet posted) recurring expenses for a period
+ */
+export const calculateRecurringExpensesForPeriod = async (startDate: Date, endDate: Date): Promise<number> => {
+  const recurringExpenses = await getRecurringExpenses();
+  return getRecurringExpenseOccurrences(recurringExpenses, startDate, endDate)
+    .reduce((sum, occurrence) => sum + occurrence.recurringExpense.amount, 0);
+};
+
+/**
+ * Record a payment as an expense and mark its date as handled
+ * The date is marked first: addExpense may only queue the expense offline, and a failed
+ * markHandled afterwards would post it again on the next check
+ */
+export const confirmRecurringExpense = async (occurrence: RecurringExpenseOccurrence): Promise<void> => {
+  const { recurringExpense, date } = occurrence;
+  const previousPostedDate = recurringExpense.lastPostedDate;
+
+  await markHandled(occurrence);
+
+  try {
+    await apiService.addExpense({
+      amount: recurringExpense.amount,
+      categoryId: recurringExpense.categoryId,
+      description: recurringExpense.name,
+      // Midday avoids the date shifting when converted to UTC
+      date: new Date(`${date}T12:00:00`),
+      paymentMethod: recurringExpense.paymentMethod,
+      originalAmount: recurringExpense.originalAmount ?? undefined,
+      originalCurrency: recurringExpense.originalCurrency ?? undefined,
+    });
+  } catch (error) {
+    // Nothing was recorded - move the cursor back so the payment is offered again
+    if (recurringExpense.lastPostedDate !== previousPostedDate) {
+      try {
+        await updateRecurringExpense(recurringExpense.id, { lastPostedDate: previousPostedDate ?? null });
+        recurringExpense.lastPostedDate = previousPostedDate;
+      } catch (rollbackError) {
+        logger.error('[RecurringExpenses] Failed to restore last posted date:', rollbackError);
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * Skip a payment without recording an expense
+ */
+export const skipRecurringExpense = async (occurrence: RecurringExpenseOccurrence): Promise<void> => {
+  await markHandled(occurrence);
+};
+
+const markHandled = async ({ recurringExpense, date }: RecurringExpenseOccurrence): Promise<void> => {
+  // Never move the cursor backwards (e.g. confirming an older prompt after a newer one)
+  if (recurringExpense.lastPostedDate && recurringExpense.lastPostedDate >= date) return;
+  await updateRecurringExpense(recurringExpense.id, { lastPostedDate: date });
+  recurringExpense.lastPostedDate = date;
+};
+
+let checkInFlight: Promise<RecurringExpenseCheckResult> | null = null;
+
+export interface RecurringExpenseCheckResult {
+  posted: number;
+  pending: RecurringExpenseOccurrence[]; // Payments waiting for the user to confirm
+}
+
+/**
+ * Post auto-add recurring expenses that are due (including missed ones) and
+ * return the payments that need confirmation. Concurrent calls share one run.
+ */
+export const checkAndPostRecurringExpenses = async (): Promise<RecurringExpenseCheckResult> => {
+  if (checkInFlight) return checkInFlight;
+
+  checkInFlight = (async () => {
+    const result: RecurringExpenseCheckResult = { posted: 0, pending: [] };
+
+    // lastPostedDate can only be advanced online; posting offline would repeat on the next check
+    if (await offlineQueueService.shouldQueue()) return result;
+
+    const today = startOfDay(new Date());
+    const from = new Date(today);
+    from.setDate(from.getDate() - MAX_CATCH_UP_DAYS);
+
+    const recurringExpenses = await getRecurringExpenses();
+    const due = getRecurringExpenseOccurrences(recurringExpenses, from, today);
+
+    // Stop at the first failure per definition so later payments don't move the cursor past it
+    const failed = new Set<string>();
+
+    for (const occurrence of due) {
+      const { recurringExpense } = occurrence;
+      if (!recurringExpense.autoAdd) {
+        result.pending.push(occurrence);
+        continue;
+      }
+      if (failed.has(recurringExpense.id)) continue;
+      try {
+        await confirmRecurringExpense(occurrence);
+        result.posted++;
+      } catch (error) {
+        failed.add(recurringExpense.id);
+        logger.error('[RecurringExpenses] Failed to post scheduled payment:', error);
+      }
+    }
+
+    if (result.posted > 0) {
+      logger.info(`[RecurringExpenses] Posted ${result.posted} scheduled payment(s)`);
+    }
+    return result;
+  })();
+
+  try {
+    return await checkInFlight;
+  } finally {
+    checkInFlight = null;
+  }
+};
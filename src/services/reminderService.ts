@@ -0,0 +1,222 @@
+/**
+ * Reminder Service
+ * Purpose: Local "log today's spending" reminders and the Sunday weekly digest
+ * Features: User-chosen reminder time, today's reminder is dropped once a transaction is logged,
+ * digest summarizing this week vs last week, top category and budget status
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api';
+import { notificationService, REMINDERS_CHANNEL_ID } from './notificationService';
+import { toDateKey } from '../utils/recurrence';
+import { formatCurrencyDisplay } from '../utils/currencyFormatter';
+import logger from '../utils/logger';
+
+const SETTINGS_KEY = '@finly_reminder_settings';
+const LAST_LOGGED_KEY = '@finly_reminder_last_logged_date';
+
+const DAILY_REMINDER_PREFIX = 'daily-reminder-';
+const WEEKLY_DIGEST_ID = 'weekly-digest';
+
+// Daily reminders are one-off notifications (so a single day can be skipped),
+// scheduled a week ahead and topped up whenever the app is opened
+const DAILY_REMINDER_DAYS = 7;
+const WEEKLY_DIGEST_HOUR = 18;
+
+export interface ReminderSettings {
+  dailyReminderEnabled: boolean;
+  dailyReminderHour: number; // Local 0-23
+  dailyReminderMinute: number;
+  weeklyDigestEnabled: boolean;
+}
+
+const DEFAULT_SETTINGS: ReminderSettings = {
+  dailyReminderEnabled: false,
+  dailyReminderHour: 20,
+  dailyReminderMinute: 0,
+  weeklyDigestEnabled: true,
+};
+
+export type ReminderNotificationType = 'daily-reminder' | 'weekly-digest';
+
+/**
+ * Get reminder settings
+ */
+export const getReminderSettings = async (): Promise<ReminderSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    logger.error('[Reminders] Failed to load settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Save reminder settings
+ */
+export const saveReminderSettings = async (settings: ReminderSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    logger.error('[Reminders] Failed to save settings:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record that a transaction was logged today and drop today's reminder
+ */
+export const markTransactionLogged = async (): Promise<void> => {
+  const today = toDateKey(new Date());
+  try {
+    await AsyncStorage.setItem(LAST_LOGGED_KEY, today);
+  } catch (error) {
+    logger.error('[Reminders] Failed to save last logged date:', error);
+  }
+  await notificationService.cancelLocalNotification(`${DAILY_REMINDER_PREFIX}${today}`);
+};
+
+const hasLoggedToday = async (): Promise<boolean> => {
+  try {
+    return (await AsyncStorage.getItem(LAST_LOGGED_KEY)) === toDateKey(new Date());
+  } catch {
+    return false;
+  }
+};
+
+const scheduleDailyReminders = async (settings: ReminderSettings): Promise<void> => {
+  await notificationService.cancelLocalNotificationsWithPrefix(DAILY_REMINDER_PREFIX);
+  if (!settings.dailyReminderEnabled) return;
+
+  const now = new Date();
+  const skipToday = await hasLoggedToday();
+
+  for (let offset = 0; offset < DAILY_REMINDER_DAYS; offset++) {
+    if (offset === 0 && skipToday) continue;
+
+    const date = new Date(now);
+    date.setDate(now.getDate() + offset);
+    date.setHours(settings.dailyReminderHour, settings.dailyReminderMinute, 0, 0);
+    if (date <= now) continue;
+
+    await notificationService.scheduleLocalNotification({
+      identifier: `${DAILY_REMINDER_PREFIX}${toDateKey(date)}`,
+      title: "Log today's spending",
+      body: 'Take a few seconds to add today\'s expenses and keep your budget accurate.',
+      data: { type: 'daily-reminder' },
+      channelId: REMINDERS_CHANNEL_ID,
+      date,
+      // The user picked this time explicitly
+      respectQuietHours: false,
+    });
+  }
+};
+
+const getNextDigestDate = (now: Date = new Date()): Date => {
+  const date = new Date(now);
+  date.setDate(now.getDate() + ((7 - now.getDay()) % 7));
+  date.setHours(WEEKLY_DIGEST_HOUR, 0, 0, 0);
+  if (date <= now) {
+    date.setDate(date.getDate() + 7);
+  }
+  return date;
+};
+
+const buildDigestBody = async (formatAmount: (amount: number) => string): Promise<string> => {
+  const [trends, budgetStatus] = await Promise.all([
+    apiService.getSpendingTrends(),
+    apiService.getBudgetStatus(),
+  ]);
+
+  const { thisWeek, lastWeek } = trends.weeklyComparison;
+  const parts: string[] = [];
+
+  if (lastWeek > 0) {
+    const change = Math.round(((thisWeek - lastWeek) / lastWeek) * 100);
+    parts.push(
+      change === 0
+        ? `You spent ${formatAmount(thisWeek)} this week, the same as last week.`
+        : `You spent ${formatAmount(thisWeek)} this week, ${Math.abs(change)}% ${change > 0 ? 'more' : 'less'} than last week.`
+    );
+  } else {
+    parts.push(`You spent ${formatAmount(thisWeek)} this week.`);
+  }
+
+  if (trends.topCategory.amount > 0) {
+    parts.push(`Top category: ${trends.topCategory.emoji} ${trends.topCategory.name} (${formatAmount(trends.topCategory.amount)}).`);
+  }
+
+  const budgeted = budgetStatus.total - budgetStatus.noBudget;
+  if (budgeted > 0) {
+    parts.push(
+      budgetStatus.overBudget > 0
+        ? `${budgetStatus.overBudget} of ${budgeted} budgets over limit.`
+        : `All ${budgeted} budgets on track.`
+    );
+  }
+
+  return parts.join(' ');
+};
+
+/**
+ * Schedule next Sunday's digest
+ * Local notifications carry static content, so the summary reflects the data as of the last
+ * reschedule (every app open and transaction) rather than the moment it is delivered
+ */
+const scheduleWeeklyDigest = async (
+  settings: ReminderSettings,
+  formatAmount: (amount: number) => string
+): Promise<void> => {
+  if (!settings.weeklyDigestEnabled) {
+    await notificationService.cancelLocalNotification(WEEKLY_DIGEST_ID);
+    return;
+  }
+
+  const body = await buildDigestBody(formatAmount);
+  await notificationService.scheduleLocalNotification({
+    identifier: WEEKLY_DIGEST_ID,
+    title: 'Your week in review',
+    body,
+    data: { type: 'weekly-digest' },
+    channelId: REMINDERS_CHANNEL_ID,
+    date: getNextDigestDate(),
+    respectQuietHours: false,
+  });
+};
+
+let rescheduleInFlight: Promise<void> | null = null;
+
+/**
+ * (Re)schedule daily reminders and the weekly digest from the current settings
+ * @param formatAmount - Formats USD amounts in the user's currency for the digest
+ */
+export const rescheduleReminders = async (
+  formatAmount: (amount: number) => string = formatCurrencyDisplay
+): Promise<void> => {
+  if (rescheduleInFlight) return rescheduleInFlight;
+
+  rescheduleInFlight = (async () => {
+    if (!(await notificationService.areNotificationsEnabled())) return;
+
+    const settings = await getReminderSettings();
+    await scheduleDailyReminders(settings);
+    await scheduleWeeklyDigest(settings, formatAmount);
+  })();
+
+  try {
+    await rescheduleInFlight;
+  } catch (error) {
+    logger.error('[Reminders] Failed to schedule reminders:', error);
+  } finally {
+    rescheduleInFlight = null;
+  }
+};
+
+/**
+ * Cancel all pending reminders (e.g. on logout)
+ */
+export const cancelReminders = async (): Promise<void> => {
+  await notificationService.cancelLocalNotificationsWithPrefix(DAILY_REMINDER_PREFIX);
+  await notificationService.cancelLocalNotification(WEEKLY_DIGEST_ID);
+};
@@ -0,0 +1,450 @@
+/**
+ * Report Service
+ * Purpose: Build financial reports for a date range and export them as PDF or XLSX
+ * Features: Summary stats, category breakdown, top merchants, income vs expense by month,
+ * transaction table; category/tag filters; one XLSX sheet per month (monthly statements);
+ * amounts optionally valued at the exchange rate of each transaction's date
+ */
+
+import * as Print from 'expo-print';
+import { File, Paths } from 'expo-file-system';
+import { fetchAllTransactions } from './dataExportService';
+import { normalizeMerchant } from './categoryLearningService';
+import { getCategoryAllocations } from './splitService';
+import { getRevaluationFactor, loadRatesForTransactions, Valuation } from './fxRateService';
+import { buildXLSX, XLSXCell, XLSXSheet } from '../utils/xlsxWriter';
+import { getDateKey } from '../utils/dateFormatter';
+import { UnifiedTransaction } from '../types';
+
+const TOP_MERCHANTS = 10;
+
+export interface ReportFilters {
+  startDate: Date;
+  endDate: Date;
+  categoryIds?: string[]; // Only expenses in these categories (income is excluded)
+  tagIds?: string[]; // Only transactions with at least one of these tags
+}
+
+export interface CategoryBreakdownItem {
+  id: string;
+  name: string;
+  color: string;
+  amount: number; // USD
+  count: number;
+  percentage: number;
+}
+
+export interface MerchantSummary {
+  name: string;
+  amount: number; // USD
+  count: number;
+}
+
+export interface MonthSummary {
+  key: string; // YYYY-MM
+  label: string;
+  income: number; // USD
+  expenses: number; // USD
+  transactions: UnifiedTransaction[];
+}
+
+export interface ReportData {
+  filters: ReportFilters;
+  transactions: UnifiedTransaction[];
+  totals: {
+    income: number; // USD
+    expenses: number; // USD
+    net: number; // USD
+    savingsRate: number; // % of income
+    count: number;
+  };
+  categories: CategoryBreakdownItem[];
+  merchants: MerchantSummary[];
+  months: MonthSummary[];
+  valuation?: Valuation; // Set when amounts are valued at each transaction's own exchange rate
+}
+
+/**
+ * Currency helpers from CurrencyContext, so reports use the user's display currency
+ */
+export interface ReportFormatter {
+  currencyCode: string;
+  formatCurrency: (usdAmount: number) => string;
+  convertFromUSD: (usdAmount: number) => number;
+  getTransactionValueOnDate: (amount: number, date: string | Date, originalAmount?: number, originalCurrency?: string) => number;
+}
+
+const matchesFilters = (tx: UnifiedTransaction, filters: ReportFilters): boolean => {
+  if (filters.categoryIds?.length) {
+    if (tx.type !== 'expense' || getReportAllocations(tx, filters).length === 0) return false;
+  }
+  if (filters.tagIds?.length) {
+    if (!(tx.tags || []).some((tag) => filters.tagIds!.includes(tag.id))) return false;
+  }
+  return true;
+};
+
+// Category allocations of an expense that fall inside the report's category filter
+const getReportAllocations = (tx: UnifiedTransaction, filters: ReportFilters) =>
+  getCategoryAllocations(tx).filter(
+    (allocation) => !filters.categoryIds?.length || filters.categoryIds.includes(allocation.categoryId)
+  );
+
+// USD amount of a transaction, at its own date's exchange rate when a valuation is given
+const getReportAmount = (tx: UnifiedTransaction, amount: number, valuation?: Valuation): number =>
+  valuation ? amount * getRevaluationFactor(tx, valuation) : amount;
+
+/**
+ * Aggregate transactions into report sections
+ * With a valuation every amount counts at the rate of its transaction's date (load the rates first)
+ */
+export const buildReportData = (
+  allTransactions: UnifiedTransaction[],
+  filters: ReportFilters,
+  valuation?: Valuation
+): ReportData => {
+  const transactions = allTransactions
+    .filter((tx) => matchesFilters(tx, filters))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const value = (tx: UnifiedTransaction, amount: number) => getReportAmount(tx, amount, valuation);
+
+  const income = transactions
+    .filter((tx) => tx.type === 'income')
+    .reduce((sum, tx) => sum + value(tx, tx.amount), 0);
+  const expenses = transactions
+    .filter((tx) => tx.type === 'expense')
+    .reduce((sum, tx) => sum + getReportAllocations(tx, filters).reduce((total, a) => total + value(tx, a.amount), 0), 0);
+
+  const categoryMap = new Map<string, CategoryBreakdownItem>();
+  const merchantMap = new Map<string, MerchantSummary>();
+  const monthMap = new Map<string, MonthSummary>();
+
+  transactions.forEach((tx) => {
+    const monthKey = getDateKey(tx.date).slice(0, 7);
+    if (!monthMap.has(monthKey)) {
+      const [year, month] = monthKey.split('-').map(Number);
+      monthMap.set(monthKey, {
+        key: monthKey,
+        label: new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+        income: 0,
+        expenses: 0,
+        transactions: [],
+      });
+    }
+    const month = monthMap.get(monthKey)!;
+    month.transactions.push(tx);
+
+    if (tx.type === 'income') {
+      month.income += value(tx, tx.amount);
+      return;
+    }
+    // Split expenses count towards each allocation's category
+    const allocations = getReportAllocations(tx, filters);
+    month.expenses += allocations.reduce((sum, allocation) => sum + value(tx, allocation.amount), 0);
+
+    allocations.forEach((allocation) => {
+      const category = categoryMap.get(allocation.categoryId) || {
+        id: allocation.categoryId,
+        name: allocation.category?.name || 'Uncategorized',
+        color: allocation.category?.color || '#9CA3AF',
+        amount: 0,
+        count: 0,
+        percentage: 0,
+      };
+      category.amount += value(tx, allocation.amount);
+      category.count++;
+      categoryMap.set(allocation.categoryId, category);
+    });
+
+    const merchantKey = normalizeMerchant(tx.description || '') || (tx.description || '').toLowerCase();
+    if (merchantKey) {
+      const merchant = merchantMap.get(merchantKey) || {
+        name: (tx.description || '').split(' - ')[0].trim(),
+        amount: 0,
+        count: 0,
+      };
+      merchant.amount += value(tx, tx.amount);
+      merchant.count++;
+      merchantMap.set(merchantKey, merchant);
+    }
+  });
+
+  const categories = Array.from(categoryMap.values())
+    .map((category) => ({ ...category, percentage: expenses > 0 ? (category.amount / expenses) * 100 : 0 }))
+    .sort((a, b) => b.amount - a.amount);
+
+  return {
+    filters,
+    transactions,
+    totals: {
+      income,
+      expenses,
+      net: income - expenses,
+      savingsRate: income > 0 ? ((income - expenses) / income) * 100 : 0,
+      count: transactions.length,
+    },
+    categories,
+    merchants: Array.from(merchantMap.values())
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, TOP_MERCHANTS),
+    months: Array.from(monthMap.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    valuation,
+  };
+};
+
+/**
+ * Fetch every transaction in the range and build the report
+ */
+export const loadReportData = async (filters: ReportFilters, valuation?: Valuation): Promise<ReportData> => {
+  const transactions = await fetchAllTransactions({ startDate: filters.startDate, endDate: filters.endDate });
+  if (valuation) await loadRatesForTransactions(transactions, valuation.currency);
+  return buildReportData(transactions, filters, valuation);
+};
+
+const formatDisplayDate = (date: Date | string): string =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const reportFileName = (filters: ReportFilters, extension: string): string =>
+  `finly_report_${getDateKey(filters.startDate.toISOString())}_to_${getDateKey(filters.endDate.toISOString())}.${extension}`;
+
+const escapeHTML = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Grouped bar chart (income vs expenses per month) as inline SVG
+ */
+const buildIncomeExpenseChart = (months: MonthSummary[], formatter: ReportFormatter): string => {
+  if (months.length === 0) return '';
+
+  const width = 680;
+  const height = 220;
+  const padding = { top: 16, bottom: 36, left: 8, right: 8 };
+  const chartHeight = height - padding.top - padding.bottom;
+  const max = Math.max(...months.map((m) => Math.max(m.income, m.expenses)), 1);
+  const groupWidth = (width - padding.left - padding.right) / months.length;
+  const barWidth = Math.min(28, groupWidth / 3);
+
+  const bars = months
+    .map((month, i) => {
+      const x = padding.left + i * groupWidth + groupWidth / 2;
+      const incomeHeight = (month.income / max) * chartHeight;
+      const expenseHeight = (month.expenses / max) * chartHeight;
+      const [year, monthIndex] = month.key.split('-').map(Number);
+      const shortLabel = `${new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'short' })} '${String(year).slice(2)}`;
+      return (
+        `<rect x="${x - barWidth - 1}" y="${padding.top + chartHeight - incomeHeight}" width="${barWidth}" height="${incomeHeight}" rx="3" fill="#10B981"/>` +
+        `<rect x="${x + 1}" y="${padding.top + chartHeight - expenseHeight}" width="${barWidth}" height="${expenseHeight}" rx="3" fill="#EF4444"/>` +
+        `<text x="${x}" y="${height - 14}" font-size="10" text-anchor="middle" fill="#6B7280">${escapeHTML(shortLabel)}</text>`
+      );
+    })
+    .join('');
+
+  const legend =
+    `<div class="legend"><span><i style="background:#10B981"></i>Income ${escapeHTML(formatter.formatCurrency(months.reduce((s, m) => s + m.income, 0)))}</span>` +
+    `<span><i style="background:#EF4444"></i>Expenses ${escapeHTML(formatter.formatCurrency(months.reduce((s, m) => s + m.expenses, 0)))}</span></div>`;
+
+  return (
+    `<svg width="100%" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">` +
+    `<line x1="${padding.left}" y1="${padding.top + chartHeight}" x2="${width - padding.right}" y2="${padding.top + chartHeight}" stroke="#E5E7EB"/>` +
+    bars +
+    '</svg>' +
+    legend
+  );
+};
+
+const buildReportHTML = (data: ReportData, formatter: ReportFormatter, filterLabels: string[]): string => {
+  const { totals } = data;
+  const money = (usd: number) => escapeHTML(formatter.formatCurrency(usd));
+
+  const statCards = [
+    { label: 'Income', value: money(totals.income), color: '#10B981' },
+    { label: 'Expenses', value: money(totals.expenses), color: '#EF4444' },
+    { label: 'Net', value: money(totals.net), color: totals.net >= 0 ? '#10B981' : '#EF4444' },
+    { label: 'Savings Rate', value: `${totals.savingsRate.toFixed(1)}%`, color: '#111827' },
+    { label: 'Transactions', value: String(totals.count), color: '#111827' },
+  ]
+    .map((s) => `<div class="stat"><div class="stat-label">${s.label}</div><div class="stat-value" style="color:${s.color}">${s.value}</div></div>`)
+    .join('');
+
+  const categoryRows = data.categories
+    .map(
+      (c) =>
+        `<tr><td><span class="dot" style="background:${escapeHTML(c.color)}"></span>${escapeHTML(c.name)}</td>` +
+        `<td class="bar-cell"><div class="bar" style="width:${Math.max(c.percentage, 1).toFixed(1)}%;background:${escapeHTML(c.color)}"></div></td>` +
+        `<td class="num">${c.percentage.toFixed(1)}%</td><td class="num">${c.count}</td><td class="num">${money(c.amount)}</td></tr>`
+    )
+    .join('');
+
+  const merchantRows = data.merchants
+    .map(
+      (m, i) =>
+        `<tr><td>${i + 1}. ${escapeHTML(m.name)}</td><td class="num">${m.count}</td><td class="num">${money(m.amount)}</td></tr>`
+    )
+    .join('');
+
+  const transactionRows = data.transactions
+    .map((tx) => {
+      const category = tx.category?.name || (tx.type === 'income' ? tx.incomeSource?.name || 'Income' : 'Uncategorized');
+      const amount = formatter.formatCurrency(getReportAmount(tx, tx.amount, data.valuation));
+      return (
+        `<tr><td>${formatDisplayDate(tx.date)}</td><td>${escapeHTML(tx.description || '')}</td><td>${escapeHTML(category)}</td>` +
+        `<td>${escapeHTML((tx.tags || []).map((t) => t.name).join(', '))}</td>` +
+        `<td class="num" style="color:${tx.type === 'income' ? '#10B981' : '#111827'}">${tx.type === 'income' ? '+' : '-'}${escapeHTML(amount)}</td></tr>`
+      );
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { margin: 32px; }
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; font-size: 12px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  .muted { color: #6B7280; }
+  .stats { display: flex; gap: 8px; margin-top: 16px; }
+  .stat { flex: 1; border: 1px solid #E5E7EB; border-radius: 8px; padding: 10px; }
+  .stat-label { color: #6B7280; font-size: 10px; text-transform: uppercase; letter-spacing: 0.5px; }
+  .stat-value { font-size: 15px; font-weight: 700; margin-top: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  th { text-align: left; font-size: 10px; text-transform: uppercase; color: #6B7280; border-bottom: 1px solid #E5E7EB; padding: 6px 4px; }
+  td { border-bottom: 1px solid #F3F4F6; padding: 6px 4px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .dot { display: inline-block; width: 8px; height: 8px; border-radius: 4px; margin-right: 6px; }
+  .bar-cell { width: 35%; }
+  .bar { height: 8px; border-radius: 4px; }
+  .legend { display: flex; gap: 16px; justify-content: center; color: #374151; }
+  .legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; }
+  .page-break { page-break-before: always; }
+</style>
+</head>
+<body>
+  <h1>Finly Financial Report</h1>
+  <div class="muted">${formatDisplayDate(data.filters.startDate)} – ${formatDisplayDate(data.filters.endDate)} · Amounts in ${escapeHTML(formatter.currencyCode)}</div>
+  ${filterLabels.length > 0 ? `<div class="muted">Filters: ${escapeHTML(filterLabels.join(', '))}</div>` : ''}
+  <div class="muted">Generated ${formatDisplayDate(new Date())}</div>
+
+  <div class="stats">${statCards}</div>
+
+  <h2>Income vs Expenses</h2>
+  ${data.months.length > 0 ? buildIncomeExpenseChart(data.months, formatter) : '<div class="muted">No transactions in this period.</div>'}
+
+  <h2>Spending by Category</h2>
+  ${categoryRows ? `<table><thead><tr><th>Category</th><th></th><th class="num">Share</th><th class="num">Count</th><th class="num">Amount</th></tr></thead><tbody>${categoryRows}</tbody></table>` : '<div class="muted">No expenses in this period.</div>'}
+
+  <h2>Top Merchants</h2>
+  ${merchantRows ? `<table><thead><tr><th>Merchant</th><th class="num">Count</th><th class="num">Amount</th></tr></thead><tbody>${merchantRows}</tbody></table>` : '<div class="muted">No expenses in this period.</div>'}
+
+  <div class="page-break"></div>
+  <h2>Transactions</h2>
+  <table>
+    <thead><tr><th>Date</th><th>Description</th><th>Category</th><th>Tags</th><th class="num">Amount</th></tr></thead>
+    <tbody>${transactionRows}</tbody>
+  </table>
+</body>
+</html>`;
+};
+
+/**
+ * Render the report to a multi-page PDF and return its file URI
+ */
+export const generatePDFReport = async (
+  data: ReportData,
+  formatter: ReportFormatter,
+  filterLabels: string[] = []
+): Promise<string> => {
+  const { uri } = await Print.printToFileAsync({ html: buildReportHTML(data, formatter, filterLabels) });
+
+  // Give the file a readable name for the share sheet
+  const source = new File(uri);
+  const target = new File(Paths.cache, reportFileName(data.filters, 'pdf'));
+  if (target.exists) target.delete();
+  source.move(target);
+  return target.uri;
+};
+
+const TRANSACTION_HEADERS = ['Date', 'Type', 'Description', 'Category', 'Tags', 'Payment Method', 'Notes', 'Amount'];
+
+const transactionRow = (tx: UnifiedTransaction, formatter: ReportFormatter): XLSXCell[] => {
+  const amount = formatter.getTransactionValueOnDate(tx.amount, tx.date, tx.originalAmount, tx.originalCurrency);
+  return [
+    getDateKey(tx.date),
+    tx.type === 'expense' ? 'Expense' : 'Income',
+    tx.description || '',
+    tx.category?.name || (tx.type === 'income' ? tx.incomeSource?.name || 'Income' : 'Uncategorized'),
+    (tx.tags || []).map((t) => t.name).join(', '),
+    tx.paymentMethod || '',
+    tx.notes || '',
+    Math.round((tx.type === 'expense' ? -amount : amount) * 100) / 100,
+  ];
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Build an XLSX workbook (summary sheet + one statement sheet per month) and return its file URI
+ */
+export const generateXLSXReport = async (
+  data: ReportData,
+  formatter: ReportFormatter,
+  filterLabels: string[] = []
+): Promise<string> => {
+  const { totals } = data;
+  const display = formatter.convertFromUSD;
+
+  const summaryRows: XLSXCell[][] = [
+    ['Finly Financial Report'],
+    ['Period', `${formatDisplayDate(data.filters.startDate)} – ${formatDisplayDate(data.filters.endDate)}`],
+    ['Currency', formatter.currencyCode],
+    ...(filterLabels.length > 0 ? [['Filters', filterLabels.join(', ')]] : []),
+    [],
+    ['Income', round(display(totals.income))],
+    ['Expenses', round(display(totals.expenses))],
+    ['Net', round(display(totals.net))],
+    ['Savings Rate (%)', round(totals.savingsRate)],
+    ['Transactions', totals.count],
+    [],
+    ['Month', 'Income', 'Expenses', 'Net'],
+    ...data.months.map((m) => [m.label, round(display(m.income)), round(display(m.expenses)), round(display(m.income - m.expenses))]),
+    [],
+    ['Category', 'Count', 'Share (%)', 'Amount'],
+    ...data.categories.map((c) => [c.name, c.count, round(c.percentage), round(display(c.amount))]),
+    [],
+    ['Top Merchant', 'Count', 'Amount'],
+    ...data.merchants.map((m) => [m.name, m.count, round(display(m.amount))]),
+  ];
+
+  const monthSheets: XLSXSheet[] = data.months.map((month) => ({
+    name: month.label,
+    columnWidths: [12, 10, 32, 18, 18, 16, 28, 14],
+    rows: [
+      TRANSACTION_HEADERS,
+      ...month.transactions.map((tx) => transactionRow(tx, formatter)),
+      [],
+      ['', '', 'Total income', '', '', '', '', round(display(month.income))],
+      ['', '', 'Total expenses', '', '', '', '', round(-display(month.expenses))],
+    ],
+  }));
+
+  const workbook = buildXLSX([
+    { name: 'Summary', rows: summaryRows, columnWidths: [24, 16, 16, 16], headerRows: 1 },
+    ...monthSheets,
+  ]);
+
+  const file = new File(Paths.cache, reportFileName(data.filters, 'xlsx'));
+  if (file.exists) file.delete();
+  file.create();
+  file.write(workbook);
+  return file.uri;
+};
+
+export default {
+  buildReportData,
+  loadReportData,
+  generatePDFReport,
+  generateXLSXReport,
+};
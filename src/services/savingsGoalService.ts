@@ -0,0 +1,236 @@
+/**
+ * Savings Goal Service
+ * Purpose: Manages savings goals (emergency fund, vacation, new car) and computes their progress
+ * Features: Manual contributions, automatic contributions from a linked category/tag or a share of net savings,
+ * projected completion date from average net savings in the user's balance history
+ * Uses backend API for persistence; progress is always derived on the client
+ */
+
+import { SavingsGoal, SavingsGoalProgress } from '../types';
+import { apiService } from './api';
+import { fetchAllTransactions } from './dataExportService';
+import { getCategoryAllocations } from './splitService';
+import type { DailyBalance, DateRangeFilter } from '../hooks/useBalanceHistory';
+import logger from '../utils/logger';
+
+// Net savings are averaged over this many recent days for projections
+const NET_SAVINGS_WINDOW_DAYS = 90;
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SavingsGoalInput = Omit<SavingsGoal, 'id' | 'contributions' | 'completedAt' | 'createdAt' | 'updatedAt'>;
+
+const toUTCDateKey = (value: string | Date): string => new Date(value).toISOString().split('T')[0];
+
+const isLinkedGoal = (goal: SavingsGoal): boolean =>
+  goal.contributionMode === 'AUTOMATIC' && !!(goal.linkedCategoryId || goal.linkedTagId);
+
+// AUTOMATIC goals without a linked category/tag take a share of net savings
+const isNetSavingsGoal = (goal: SavingsGoal): boolean =>
+  goal.contributionMode === 'AUTOMATIC' && !isLinkedGoal(goal);
+
+/**
+ * Get all savings goals for the current user
+ */
+export const getSavingsGoals = async (): Promise<SavingsGoal[]> => {
+  try {
+    return await apiService.getSavingsGoals();
+  } catch (error) {
+    console.error('Error loading savings goals:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a new savings goal
+ */
+export const createSavingsGoal = async (goal: SavingsGoalInput): Promise<SavingsGoal> => {
+  try {
+    return await apiService.createSavingsGoal(goal);
+  } catch (error) {
+    console.error('Error creating savings goal:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing savings goal
+ */
+export const updateSavingsGoal = async (
+  goalId: string,
+  updates: Partial<Omit<SavingsGoal, 'id' | 'contributions' | 'createdAt' | 'updatedAt'>>
+): Promise<SavingsGoal> => {
+  try {
+    return await apiService.updateSavingsGoal(goalId, updates);
+  } catch (error) {
+    console.error('Error updating savings goal:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a savings goal (the money itself is untouched)
+ */
+export const deleteSavingsGoal = async (goalId: string): Promise<void> => {
+  try {
+    await apiService.deleteSavingsGoal(goalId);
+  } catch (error) {
+    console.error('Error deleting savings goal:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record money the user put towards a goal
+ */
+export const addGoalContribution = async (
+  goalId: string,
+  contribution: { amount: number; date?: Date; note?: string; originalAmount?: number; originalCurrency?: string }
+): Promise<SavingsGoal> => {
+  try {
+    return await apiService.addGoalContribution(goalId, {
+      amount: contribution.amount,
+      date: (contribution.date || new Date()).toISOString(),
+      note: contribution.note,
+      originalAmount: contribution.originalAmount,
+      originalCurrency: contribution.originalCurrency,
+    });
+  } catch (error) {
+    console.error('Error adding goal contribution:', error);
+    throw error;
+  }
+};
+
+/**
+ * Balance history range needed to compute progress and projections for the given goals
+ */
+export const getGoalsHistoryRange = (goals: SavingsGoal[], now: Date = new Date()): DateRangeFilter => {
+  const startDate = new Date(now.getTime() - NET_SAVINGS_WINDOW_DAYS * DAY_MS);
+  goals.filter(isNetSavingsGoal).forEach((goal) => {
+    const goalStart = new Date(goal.startDate);
+    if (goalStart < startDate) {
+      startDate.setTime(goalStart.getTime());
+    }
+  });
+  startDate.setHours(0, 0, 0, 0);
+  return { startDate, endDate: now };
+};
+
+/**
+ * Average daily net savings (income minus expenses) over the most recent days of a balance history
+ */
+export const getAverageDailyNetSavings = (
+  dailyBalances: DailyBalance[],
+  days: number = NET_SAVINGS_WINDOW_DAYS
+): number => {
+  const recent = dailyBalances.slice(-days);
+  if (recent.length === 0) return 0;
+  const net = recent.reduce((sum, day) => sum + (day.income || 0) - (day.expenses || 0), 0);
+  return net / recent.length;
+};
+
+/**
+ * Money logged to each linked goal's category or tag since the goal started
+ * @returns Totals keyed by goal id (only goals with a link)
+ */
+export const getLinkedContributionTotals = async (goals: SavingsGoal[]): Promise<Record<string, number>> => {
+  const linkedGoals = goals.filter(isLinkedGoal);
+  if (linkedGoals.length === 0) return {};
+
+  const earliestStart = linkedGoals.reduce(
+    (earliest, goal) => (goal.startDate < earliest ? goal.startDate : earliest),
+    linkedGoals[0].startDate
+  );
+
+  try {
+    const transactions = await fetchAllTransactions({
+      startDate: new Date(earliestStart),
+      endDate: new Date(),
+      type: 'expense',
+    });
+
+    const totals: Record<string, number> = {};
+    linkedGoals.forEach((goal) => {
+      const goalStart = new Date(goal.startDate);
+      totals[goal.id] = transactions
+        .filter((t) => new Date(t.date) >= goalStart)
+        .reduce((sum, t) => {
+          // Only the matching allocations of a split expense count towards the goal
+          const allocations = getCategoryAllocations(t).filter(
+            (a) =>
+              (goal.linkedCategoryId && a.categoryId === goal.linkedCategoryId) ||
+              (goal.linkedTagId && a.tags.some((tag) => tag.id === goal.linkedTagId))
+          );
+          return sum + allocations.reduce((total, a) => total + a.amount, 0);
+        }, 0);
+    });
+    return totals;
+  } catch (error) {
+    logger.error('[SavingsGoals] Failed to load linked contributions:', error);
+    return {};
+  }
+};
+
+/**
+ * Compute a goal's progress and projected completion
+ * @param dailyBalances - Balance history covering getGoalsHistoryRange()
+ * @param linkedTotal - Money logged to the goal's linked category/tag (see getLinkedContributionTotals)
+ */
+export const calculateGoalProgress = (
+  goal: SavingsGoal,
+  dailyBalances: DailyBalance[],
+  linkedTotal: number = 0,
+  now: Date = new Date()
+): SavingsGoalProgress => {
+  const manualTotal = goal.contributions.reduce((sum, c) => sum + c.amount, 0);
+  const share = isNetSavingsGoal(goal) ? (goal.autoContributionPercent ?? 100) / 100 : 1;
+
+  let automaticTotal = 0;
+  if (isLinkedGoal(goal)) {
+    automaticTotal = linkedTotal;
+  } else if (isNetSavingsGoal(goal)) {
+    const startKey = toUTCDateKey(goal.startDate);
+    const netSinceStart = dailyBalances
+      .filter((day) => day.date >= startKey)
+      .reduce((sum, day) => sum + (day.income || 0) - (day.expenses || 0), 0);
+    // Spending down savings does not un-save a goal below zero
+    automaticTotal = Math.max(0, netSinceStart) * share;
+  }
+
+  const savedAmount = manualTotal + automaticTotal;
+  const remainingAmount = Math.max(0, goal.targetAmount - savedAmount);
+  const isComplete = goal.targetAmount > 0 && savedAmount >= goal.targetAmount;
+  const percentComplete = goal.targetAmount > 0 ? Math.min(100, (savedAmount / goal.targetAmount) * 100) : 0;
+
+  const dailyRate = getAverageDailyNetSavings(dailyBalances) * share;
+  const monthlySavingsRate = dailyRate * AVERAGE_DAYS_PER_MONTH;
+
+  let projectedCompletionDate: string | null = null;
+  if (isComplete) {
+    projectedCompletionDate = goal.completedAt || now.toISOString();
+  } else if (dailyRate > 0) {
+    projectedCompletionDate = new Date(now.getTime() + Math.ceil(remainingAmount / dailyRate) * DAY_MS).toISOString();
+  }
+
+  let requiredMonthlyAmount: number | null = null;
+  let isOnTrack: boolean | null = null;
+  if (goal.targetDate) {
+    const targetDate = new Date(goal.targetDate);
+    const monthsLeft = Math.max(1, (targetDate.getTime() - now.getTime()) / (AVERAGE_DAYS_PER_MONTH * DAY_MS));
+    requiredMonthlyAmount = isComplete ? 0 : remainingAmount / monthsLeft;
+    isOnTrack = isComplete || (projectedCompletionDate !== null && new Date(projectedCompletionDate) <= targetDate);
+  }
+
+  return {
+    goal,
+    savedAmount,
+    remainingAmount,
+    percentComplete,
+    isComplete,
+    monthlySavingsRate,
+    projectedCompletionDate,
+    requiredMonthlyAmount,
+    isOnTrack,
+  };
+};
+
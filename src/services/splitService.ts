@@ -0,0 +1,165 @@
+/**
+ * Split Service
+ * Purpose: Helpers for expenses split across several categories
+ * Features: Sum validation, per-category allocations for aggregations, splits pre-filled from receipt line items
+ * The server attributes split amounts to each allocation's category for totalSpent and rollover spend;
+ * anything aggregated on the client must go through getCategoryAllocations so split expenses are not
+ * counted entirely under the parent category.
+ */
+
+import { CategoryInfo, ExpenseSplit, Tag, UnifiedTransaction } from '../types';
+
+// Allocations may differ from the total by rounding only
+export const SPLIT_TOLERANCE = 0.01;
+
+export interface CategoryAllocation {
+  categoryId: string;
+  category?: CategoryInfo;
+  amount: number; // USD
+  tags: Tag[];
+  notes?: string;
+}
+
+// Fields needed to allocate an expense (Expense and UnifiedTransaction both fit)
+type AllocatableTransaction = Pick<UnifiedTransaction, 'amount' | 'category' | 'tags' | 'notes' | 'splits'>;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const isSplitTransaction = (transaction: Pick<UnifiedTransaction, 'splits'>): boolean =>
+  (transaction.splits?.length ?? 0) > 1;
+
+/**
+ * Check split allocations against the expense total
+ * Returns an error message, or null when the splits are valid
+ */
+export function validateSplits(
+  splits: Array<Pick<ExpenseSplit, 'categoryId' | 'amount'>>,
+  total: number
+): string | null {
+  if (splits.length < 2) {
+    return 'A split needs at least two allocations';
+  }
+  if (splits.some((split) => !split.categoryId)) {
+    return 'Choose a category for every allocation';
+  }
+  if (splits.some((split) => !(split.amount > 0))) {
+    return 'Every allocation needs an amount greater than zero';
+  }
+  const remaining = getRemainingAmount(splits, total);
+  if (Math.abs(remaining) > SPLIT_TOLERANCE) {
+    return remaining > 0
+      ? `Allocations are ${remaining.toFixed(2)} short of the total`
+      : `Allocations exceed the total by ${Math.abs(remaining).toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Part of the total not yet allocated (negative when over-allocated)
+ */
+export const getRemainingAmount = (splits: Array<Pick<ExpenseSplit, 'amount'>>, total: number): number =>
+  roundCents(total - splits.reduce((sum, split) => sum + (split.amount || 0), 0));
+
+/**
+ * Rescale allocation amounts entered against one total (e.g. in the entry currency) to another (USD)
+ * Rounded to cents; the last allocation absorbs the rounding difference.
+ */
+export function scaleSplitAmounts(amounts: number[], fromTotal: number, toTotal: number): number[] {
+  if (amounts.length === 0 || fromTotal <= 0) return amounts;
+  const scaled = amounts.map((amount) => roundCents((amount / fromTotal) * toTotal));
+  scaled[scaled.length - 1] = roundCents(
+    scaled[scaled.length - 1] + toTotal - scaled.reduce((sum, amount) => sum + amount, 0)
+  );
+  return scaled;
+}
+
+/**
+ * Category the parent expense is filed under: the largest allocation's
+ * Keeps older clients and server-side filters on categoryId working.
+ */
+export const getPrimaryCategoryId = (splits: Array<Pick<ExpenseSplit, 'categoryId' | 'amount'>>): string | undefined =>
+  [...splits].sort((a, b) => b.amount - a.amount)[0]?.categoryId;
+
+/**
+ * Per-category amounts of a transaction: one entry per split, or the whole amount for a plain expense
+ * Split tags are combined with the parent's tags.
+ */
+export function getCategoryAllocations(transaction: AllocatableTransaction): CategoryAllocation[] {
+  const parentTags = transaction.tags || [];
+  if (!isSplitTransaction(transaction)) {
+    return [{
+      categoryId: transaction.category?.id || 'uncategorized',
+      category: transaction.category,
+      amount: transaction.amount,
+      tags: parentTags,
+      notes: transaction.notes,
+    }];
+  }
+
+  return transaction.splits!.map((split) => {
+    const tags = [...parentTags];
+    split.tags?.forEach((tag) => {
+      if (!tags.some((t) => t.id === tag.id)) tags.push(tag);
+    });
+    return {
+      categoryId: split.categoryId,
+      category: split.category,
+      amount: split.amount,
+      tags,
+      notes: split.notes,
+    };
+  });
+}
+
+/**
+ * Amount of a transaction that belongs to one category
+ */
+export const getCategoryAmount = (transaction: AllocatableTransaction, categoryId: string): number =>
+  getCategoryAllocations(transaction)
+    .filter((allocation) => allocation.categoryId === categoryId)
+    .reduce((sum, allocation) => sum + allocation.amount, 0);
+
+/**
+ * Build split allocations from receipt line items
+ * Items are grouped by category; the last allocation absorbs tax/rounding so the splits sum to the total.
+ * Returns an empty array when the items fall into fewer than two categories.
+ */
+export function splitsFromLineItems(
+  items: Array<{ categoryId?: string; amount: number; originalAmount?: number; description?: string }>,
+  total: number,
+  originalTotal?: number
+): ExpenseSplit[] {
+  const grouped = new Map<string, ExpenseSplit & { descriptions: string[] }>();
+  items.forEach((item) => {
+    if (!item.categoryId || !(item.amount > 0)) return;
+    const existing = grouped.get(item.categoryId) || {
+      categoryId: item.categoryId,
+      amount: 0,
+      originalAmount: originalTotal !== undefined ? 0 : undefined,
+      descriptions: [],
+    };
+    existing.amount += item.amount;
+    if (existing.originalAmount !== undefined) {
+      existing.originalAmount += item.originalAmount ?? item.amount;
+    }
+    if (item.description) existing.descriptions.push(item.description);
+    grouped.set(item.categoryId, existing);
+  });
+
+  if (grouped.size < 2) return [];
+
+  const splits: ExpenseSplit[] = Array.from(grouped.values()).map(({ descriptions, ...split }) => ({
+    ...split,
+    amount: roundCents(split.amount),
+    originalAmount: split.originalAmount !== undefined ? roundCents(split.originalAmount) : undefined,
+    notes: descriptions.join(', ') || undefined,
+  }));
+
+  const last = splits[splits.length - 1];
+  last.amount = roundCents(last.amount + getRemainingAmount(splits, total));
+  if (originalTotal !== undefined && last.originalAmount !== undefined) {
+    const allocatedOriginal = splits.reduce((sum, split) => sum + (split.originalAmount || 0), 0);
+    last.originalAmount = roundCents(last.originalAmount + originalTotal - allocatedOriginal);
+  }
+  return last.amount > 0 ? splits : [];
+}
@@ -0,0 +1,443 @@
+/**
+ * Transaction Search Service
+ * Purpose: Search the complete transaction history with a small query language
+ * Features: Query parsing, fuzzy matching on description and notes, match highlighting,
+ * saved searches that can be pinned to the Dashboard
+ *
+ * Query syntax (terms are ANDed, any clause can be negated with a leading "-"):
+ *   coffee                 free text, fuzzy on description/notes, substring on category/tags/income source
+ *   "coffee shop"          quoted phrase
+ *   amount:>5              amount in the display currency (>, >=, <, <=, = or a bare number)
+ *   tag:work               tag name contains "work"
+ *   category:food          category (or split category) name contains "food"
+ *   type:expense           expense, income or transfer
+ *   before:2026-03-01      strictly before that day
+ *   after:2026-03-01       on or after that day
+ *   -refund                exclude transactions matching "refund"
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UnifiedTransaction } from '../types';
+import { localDatabase, LocalTransactionFilter } from './localDatabase';
+import { getCategoryAllocations } from './splitService';
+import logger from '../utils/logger';
+
+const SAVED_SEARCHES_STORAGE_KEY = '@finly_saved_searches';
+
+// Terms shorter than this only match as a substring (typos in "tea" would match everything)
+const MIN_FUZZY_TERM_LENGTH = 4;
+
+export type AmountOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export type SearchClause =
+  | { field: 'text'; value: string; negated: boolean }
+  | { field: 'amount'; operator: AmountOperator; value: number; negated: boolean }
+  | { field: 'tag' | 'category'; value: string; negated: boolean }
+  | { field: 'type'; value: UnifiedTransaction['type']; negated: boolean }
+  | { field: 'before' | 'after'; value: Date; negated: boolean };
+
+export interface ParsedSearchQuery {
+  clauses: SearchClause[];
+  highlightTerms: string[]; // Positive free-text terms, for TransactionCard
+}
+
+export interface SearchOptions {
+  // amount: clauses are typed in the display currency; transactions are stored in USD
+  toDisplayAmount?: (usdAmount: number) => number;
+}
+
+export interface SearchResult {
+  transactions: UnifiedTransaction[]; // Newest first
+  // False when the local database isn't available and only the given transactions were searched
+  complete: boolean;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  pinned: boolean;
+  createdAt: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const TRANSACTION_TYPES: UnifiedTransaction['type'][] = ['expense', 'income', 'transfer'];
+
+// Quoted phrases (optionally after key: and/or -) or runs of non-space characters
+const TOKEN_PATTERN = /-?(?:[a-z]+:)?"[^"]*"?|\S+/gi;
+const WORD_PATTERN = /[\p{L}\d']+/gu;
+
+const unquote = (value: string): string => value.replace(/^"|"$/g, '').trim();
+
+/**
+ * Local midnight for a YYYY-MM-DD value
+ */
+const parseDay = (value: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toTime = (date: string): number =>
+  // Date-only strings are local dates, not UTC midnight
+  /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T12:00:00`).getTime() : new Date(date).getTime();
+
+const parseAmountClause = (value: string): { operator: AmountOperator; value: number } | null => {
+  const match = value.match(/^(>=|<=|>|<|=)?\s*(\d+(?:[.,]\d+)?)$/);
+  if (!match) return null;
+  return {
+    operator: (match[1] as AmountOperator) || '=',
+    value: parseFloat(match[2].replace(',', '.')),
+  };
+};
+
+/**
+ * Parse a query string into clauses. Unknown keys and invalid values are kept as free text
+ * so nothing the user typed is silently dropped.
+ */
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const clauses: SearchClause[] = [];
+  const tokens = input.match(TOKEN_PATTERN) || [];
+
+  for (const token of tokens) {
+    const negated = token.length > 1 && token.startsWith('-');
+    const body = negated ? token.slice(1) : token;
+    const keyMatch = body.match(/^([a-z]+):(.*)$/i);
+
+    if (keyMatch) {
+      const key = keyMatch[1].toLowerCase();
+      const value = unquote(keyMatch[2]);
+
+      if (key === 'amount') {
+        const amount = parseAmountClause(value);
+        if (amount) {
+          clauses.push({ field: 'amount', ...amount, negated });
+          continue;
+        }
+      } else if (key === 'tag' || key === 'category') {
+        if (value) {
+          clauses.push({ field: key, value: value.toLowerCase(), negated });
+          continue;
+        }
+      } else if (key === 'type') {
+        const type = TRANSACTION_TYPES.find((t) => t === value.toLowerCase());
+        if (type) {
+          clauses.push({ field: 'type', value: type, negated });
+          continue;
+        }
+      } else if (key === 'before' || key === 'after') {
+        const day = parseDay(value);
+        if (day) {
+          clauses.push({ field: key, value: day, negated });
+          continue;
+        }
+      }
+    }
+
+    const text = unquote(body).toLowerCase();
+    if (text) {
+      clauses.push({ field: 'text', value: text, negated });
+    }
+  }
+
+  return {
+    clauses,
+    highlightTerms: clauses
+      .filter((clause): clause is Extract<SearchClause, { field: 'text' }> => clause.field === 'text' && !clause.negated)
+      .map((clause) => clause.value),
+  };
+};
+
+/**
+ * Levenshtein distance, giving up once it exceeds maxDistance
+ */
+const boundedEditDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Whether a single word matches a single-word term: prefix/substring, or a small typo
+ * ("cofee" finds "Coffee", "starbuks" finds "Starbucks")
+ */
+const wordMatches = (word: string, term: string): boolean => {
+  if (word.includes(term)) return true;
+  if (term.length < MIN_FUZZY_TERM_LENGTH) return false;
+
+  const maxDistance = term.length >= 7 ? 2 : 1;
+  // Compare against the word and against its prefix of the term's length (typo in a prefix)
+  return (
+    boundedEditDistance(word, term, maxDistance) <= maxDistance ||
+    boundedEditDistance(word.slice(0, term.length), term, maxDistance) <= maxDistance
+  );
+};
+
+/**
+ * Fuzzy match of a term (word or phrase) against free text
+ */
+const fuzzyMatches = (text: string | undefined, term: string): boolean => {
+  if (!text) return false;
+  const lower = text.toLowerCase();
+  if (lower.includes(term)) return true;
+
+  const words = lower.match(WORD_PATTERN) || [];
+  const termWords = term.match(WORD_PATTERN) || [];
+  if (termWords.length === 0) return false;
+  // Every word of a phrase has to match some word of the text
+  return termWords.every((termWord) => words.some((word) => wordMatches(word, termWord)));
+};
+
+const matchesText = (tx: UnifiedTransaction, term: string): boolean => {
+  if (fuzzyMatches(tx.description, term) || fuzzyMatches(tx.notes, term)) return true;
+  if (tx.splits?.some((split) => fuzzyMatches(split.notes, term))) return true;
+
+  return [tx.category?.name, tx.incomeSource?.name, ...(tx.tags || []).map((tag) => tag.name)]
+    .some((name) => !!name && name.toLowerCase().includes(term));
+};
+
+const matchesAmount = (amount: number, operator: AmountOperator, value: number): boolean => {
+  switch (operator) {
+    case '>':
+      return amount > value;
+    case '>=':
+      return amount >= value;
+    case '<':
+      return amount < value;
+    case '<=':
+      return amount <= value;
+    default:
+      // Whole-cent comparison so "amount:4.5" finds 4.50
+      return Math.round(amount * 100) === Math.round(value * 100);
+  }
+};
+
+const matchesClause = (tx: UnifiedTransaction, clause: SearchClause, options: SearchOptions): boolean => {
+  switch (clause.field) {
+    case 'text':
+      return matchesText(tx, clause.value);
+    case 'amount': {
+      const amount = options.toDisplayAmount ? options.toDisplayAmount(tx.amount) : tx.amount;
+      return matchesAmount(amount, clause.operator, clause.value);
+    }
+    case 'tag':
+      return getCategoryAllocations(tx).some((allocation) =>
+        allocation.tags.some((tag) => tag.name.toLowerCase().includes(clause.value))
+      );
+    case 'category':
+      return tx.type === 'expense' && getCategoryAllocations(tx).some((allocation) =>
+        !!allocation.category?.name.toLowerCase().includes(clause.value)
+      );
+    case 'type':
+      return tx.type === clause.value;
+    case 'before':
+      return toTime(tx.date) < clause.value.getTime();
+    case 'after':
+      return toTime(tx.date) >= clause.value.getTime();
+  }
+};
+
+/**
+ * Whether a transaction satisfies every clause of a parsed query
+ */
+export const matchesSearchQuery = (
+  tx: UnifiedTransaction,
+  query: ParsedSearchQuery,
+  options: SearchOptions = {}
+): boolean => query.clauses.every((clause) => matchesClause(tx, clause, options) !== clause.negated);
+
+/**
+ * Substrings the search text must contain for a free-text term to match, one group per word
+ * A word within N typos of the term keeps at least one of N + 1 pieces of it intact, so
+ * requiring one of the pieces never drops a fuzzy match.
+ */
+const getTextSearchTerms = (term: string): string[][] => {
+  const termWords = term.match(WORD_PATTERN) || [];
+  if (termWords.length === 0) return [[term]];
+
+  return termWords.map((word) => {
+    if (word.length < MIN_FUZZY_TERM_LENGTH) return [word];
+    const pieceCount = (word.length >= 7 ? 2 : 1) + 1;
+    const pieceLength = Math.ceil(word.length / pieceCount);
+    const pieces: string[] = [];
+    for (let i = 0; i < word.length; i += pieceLength) {
+      pieces.push(word.slice(i, i + pieceLength));
+    }
+    return pieces;
+  });
+};
+
+/**
+ * Narrow the SQL query with the clauses the local index can answer: type, date range and
+ * substrings of text, tag and category terms. The exact (fuzzy) match runs in memory.
+ */
+const buildLocalFilter = (query: ParsedSearchQuery): LocalTransactionFilter => {
+  const filter: LocalTransactionFilter = { type: 'all', includeTransfers: true, searchTerms: [] };
+
+  for (const clause of query.clauses) {
+    if (clause.negated) continue;
+    if (clause.field === 'text') {
+      filter.searchTerms!.push(...getTextSearchTerms(clause.value));
+    } else if (clause.field === 'tag' || clause.field === 'category') {
+      filter.searchTerms!.push([clause.value]);
+    } else if (clause.field === 'type') {
+      filter.type = clause.value;
+    } else if (clause.field === 'after') {
+      filter.startDate = clause.value.toISOString();
+    } else if (clause.field === 'before') {
+      filter.endDate = new Date(clause.value.getTime() - 1).toISOString();
+    }
+  }
+
+  return filter;
+};
+
+/**
+ * Search the full history in the local database. Until its first sync has finished (the
+ * app syncs it in the background), fall back to the transactions already loaded on screen.
+ */
+export const searchTransactions = async (
+  input: string,
+  loadedTransactions: UnifiedTransaction[] = [],
+  options: SearchOptions = {}
+): Promise<SearchResult> => {
+  const query = parseSearchQuery(input);
+
+  try {
+    if (await localDatabase.hasSynced()) {
+      const candidates = await localDatabase.queryTransactions(buildLocalFilter(query));
+      return {
+        transactions: candidates.filter((tx) => matchesSearchQuery(tx, query, options)),
+        complete: true,
+      };
+    }
+  } catch (error) {
+    logger.error('[TransactionSearch] Local search failed, searching loaded transactions:', error);
+  }
+
+  return {
+    transactions: loadedTransactions
+      .filter((tx) => matchesSearchQuery(tx, query, options))
+      .sort((a, b) => toTime(b.date) - toTime(a.date)),
+    complete: false,
+  };
+};
+
+/**
+ * Split text into highlighted and plain segments for the words that match the terms
+ */
+export const getHighlightSegments = (text: string, terms: string[]): HighlightSegment[] => {
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  const termWords = terms.flatMap((term) => term.match(WORD_PATTERN) || []);
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const start = match.index ?? 0;
+    if (!termWords.some((term) => wordMatches(word.toLowerCase(), term))) continue;
+
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: word, match: true });
+    cursor = start + word.length;
+  }
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
+
+/**
+ * Whether any word of the text is highlighted for these terms
+ */
+export const hasHighlight = (text: string | undefined, terms: string[]): boolean =>
+  !!text && getHighlightSegments(text, terms).some((segment) => segment.match);
+
+/**
+ * Saved searches, newest first
+ */
+export const getSavedSearches = async (): Promise<SavedSearch[]> => {
+  try {
+    const data = await AsyncStorage.getItem(SAVED_SEARCHES_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    logger.error('[TransactionSearch] Error loading saved searches:', error);
+    return [];
+  }
+};
+
+const writeSavedSearches = (searches: SavedSearch[]): Promise<void> =>
+  AsyncStorage.setItem(SAVED_SEARCHES_STORAGE_KEY, JSON.stringify(searches));
+
+/**
+ * Saved searches pinned as Dashboard shortcuts
+ */
+export const getPinnedSearches = async (): Promise<SavedSearch[]> =>
+  (await getSavedSearches()).filter((search) => search.pinned);
+
+/**
+ * Save a query (saving the same query again returns the existing entry)
+ */
+export const saveSearch = async (query: string, name?: string): Promise<SavedSearch> => {
+  const trimmed = query.trim();
+  const searches = await getSavedSearches();
+  const existing = searches.find((search) => search.query === trimmed);
+  if (existing) return existing;
+
+  const saved: SavedSearch = {
+    id: `search_${Date.now()}`,
+    name: name?.trim() || trimmed,
+    query: trimmed,
+    pinned: false,
+    createdAt: new Date().toISOString(),
+  };
+  await writeSavedSearches([saved, ...searches]);
+  return saved;
+};
+
+export const setSavedSearchPinned = async (id: string, pinned: boolean): Promise<void> => {
+  const searches = await getSavedSearches();
+  await writeSavedSearches(searches.map((search) => (search.id === id ? { ...search, pinned } : search)));
+};
+
+export const deleteSavedSearch = async (id: string): Promise<void> => {
+  const searches = await getSavedSearches();
+  await writeSavedSearches(searches.filter((search) => search.id !== id));
+};
+
+/**
+ * Remove every saved search (logout, account deletion)
+ */
+export const clearSavedSearches = async (): Promise<void> => {
+  await AsyncStorage.removeItem(SAVED_SEARCHES_STORAGE_KEY);
+};
+
+export default {
+  parseSearchQuery,
+  matchesSearchQuery,
+  searchTransactions,
+  getHighlightSegments,
+  hasHighlight,
+  getSavedSearches,
+  getPinnedSearches,
+  saveSearch,
+  setSavedSearchPinned,
+  deleteSavedSearch,
+  clearSavedSearches,
+};
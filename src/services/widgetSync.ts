@@ -1,29 +1,112 @@
 /**
  * Widget Sync Service
  * Purpose: Sync financial data to native widgets (iOS WidgetKit, Android App Widgets)
- * Note: Placeholder - actual widget implementation pending
+ * Features: Builds WidgetData from monthly stats and category budgets, writes it to shared storage
+ * through the WidgetDataSync native module (SharedPreferences on Android, App Group UserDefaults on iOS;
+ * both implement syncWidgetData and clearWidgetData). Builds without the module (Expo Go, web) skip the write.
  */
 
+import { NativeModules } from 'react-native';
+import { WidgetBudgetStatus, WidgetData } from '../types';
+import { apiService } from './api';
+import { getBudgetUsage } from './budgetAlertService';
 import logger from '../utils/logger';
 
+// Budget rows the large layout has room for
+const WIDGET_BUDGET_COUNT = 3;
+
+/**
+ * Display currency for widget amounts (from CurrencyContext)
+ */
+export interface WidgetCurrency {
+  currencyCode: string;
+  currencySymbol: string;
+  convertFromUSD: (usdAmount: number) => number;
+}
+
+interface WidgetDataSyncModule {
+  syncWidgetData: (data: WidgetData) => Promise<void>;
+  clearWidgetData: () => Promise<void>;
+}
+
+const getNativeModule = (): WidgetDataSyncModule | null =>
+  (NativeModules.WidgetDataSync as WidgetDataSyncModule | undefined) ?? null;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Build the widget payload from this month's stats and the most used budgets
+ */
+export const buildWidgetData = async (currency: WidgetCurrency): Promise<WidgetData> => {
+  const [stats, categories] = await Promise.all([
+    apiService.getMonthlyStats(true),
+    apiService.getCategories(true),
+  ]);
+  const display = (usdAmount: number) => roundCents(currency.convertFromUSD(usdAmount));
+
+  const budgets: WidgetBudgetStatus[] = categories
+    .map((category) => ({ category, usage: getBudgetUsage(category) }))
+    .filter(({ usage }) => usage !== null)
+    .sort((a, b) => b.usage!.percentUsed - a.usage!.percentUsed)
+    .slice(0, WIDGET_BUDGET_COUNT)
+    .map(({ category, usage }) => ({
+      categoryId: category.id,
+      name: category.name,
+      color: category.color,
+      spent: display(usage!.spent),
+      budget: display(usage!.budget),
+      percentUsed: Math.round(usage!.percentUsed),
+    }));
+
+  return {
+    balance: display(stats.balance),
+    monthlyIncome: display(stats.totalIncome),
+    monthlyExpenses: display(stats.totalExpenses),
+    currencyCode: currency.currencyCode,
+    currencySymbol: currency.currencySymbol,
+    budgets,
+    lastUpdated: new Date().toISOString(),
+  };
+};
+
 /**
  * Sync widget data with native widget extensions
- * Updates balance, income, and expense data for home screen widgets
+ * Updates balance, income, expense and budget data for home screen widgets
  */
-export const syncWidgetData = async (): Promise<void> => {
-  // Placeholder - native widget sync not yet implemented
-  logger.debug('[WidgetSync] Widget sync called (not implemented yet)');
+export const syncWidgetData = async (currency: WidgetCurrency): Promise<void> => {
+  const nativeModule = getNativeModule();
+  if (!nativeModule) {
+    logger.debug('[WidgetSync] Native widget module not available, skipping sync');
+    return;
+  }
+
+  try {
+    const data = await buildWidgetData(currency);
+    await nativeModule.syncWidgetData(data);
+    logger.debug('[WidgetSync] Widget data synced');
+  } catch (error) {
+    // Keep the last good payload on the widget
+    logger.error('[WidgetSync] Failed to sync widget data:', error);
+  }
 };
 
 /**
  * Clear widget data (e.g., on logout)
  */
 export const clearWidgetData = async (): Promise<void> => {
-  logger.debug('[WidgetSync] Widget data cleared');
+  const nativeModule = getNativeModule();
+  if (!nativeModule) return;
+
+  try {
+    await nativeModule.clearWidgetData();
+    logger.debug('[WidgetSync] Widget data cleared');
+  } catch (error) {
+    logger.error('[WidgetSync] Failed to clear widget data:', error);
+  }
 };
 
 export default {
+  buildWidgetData,
   syncWidgetData,
   clearWidgetData,
 };
-
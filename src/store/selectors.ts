@@ -7,6 +7,7 @@
 import { createSelector } from 'reselect';
 import { RootState } from './index';
 import { Expense } from '../types';
+import { isSplitTransaction } from '../services/splitService';
 
 // ============== Auth Selectors ==============
 
@@ -115,10 +116,18 @@ export const selectExpensesByCategory = createSelector(
     });
     
     expenses.forEach(expense => {
-      if (expense.categoryId && grouped[expense.categoryId]) {
-        grouped[expense.categoryId].expenses.push(expense);
-        grouped[expense.categoryId].total += expense.amount;
-      }
+      // Split expenses are listed under each of their categories with that category's share
+      const allocations = isSplitTransaction(expense)
+        ? expense.splits!
+        : [{ categoryId: expense.categoryId, amount: expense.amount }];
+      allocations.forEach(({ categoryId, amount }) => {
+        if (categoryId && grouped[categoryId]) {
+          if (!grouped[categoryId].expenses.includes(expense)) {
+            grouped[categoryId].expenses.push(expense);
+          }
+          grouped[categoryId].total += amount;
+        }
+      });
     });
     
     return grouped;
@@ -6,18 +6,28 @@
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { apiService } from '../../services/api';
+import { SyncConflict } from '../../services/offlineQueueService';
 import { Expense } from '../../types';
 
 interface ExpensesState {
   expenses: Expense[];
   isLoading: boolean;
   error: string | null;
+  // Offline outbox state
+  isOnline: boolean;
+  pendingSyncCount: number;
+  syncConflicts: SyncConflict[];
+  lastSyncedAt: string | null;
 }
 
 const initialState: ExpensesState = {
   expenses: [],
   isLoading: false,
   error: null,
+  isOnline: true,
+  pendingSyncCount: 0,
+  syncConflicts: [],
+  lastSyncedAt: null,
 };
 
 /**
@@ -102,6 +112,57 @@ const expensesSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    /**
+     * Optimistically add (or replace) an expense recorded while offline
+     */
+    optimisticExpenseUpserted: (state, action: PayloadAction<Expense>) => {
+      const index = state.expenses.findIndex(e => e.id === action.payload.id);
+      if (index !== -1) {
+        state.expenses[index] = action.payload;
+      } else {
+        state.expenses.unshift(action.payload);
+      }
+    },
+    /**
+     * Optimistically apply a queued update to an existing expense
+     */
+    optimisticExpenseUpdated: (
+      state,
+      action: PayloadAction<{ id: string; changes: Partial<Expense> }>
+    ) => {
+      const index = state.expenses.findIndex(e => e.id === action.payload.id);
+      if (index !== -1) {
+        state.expenses[index] = { ...state.expenses[index], ...action.payload.changes };
+      }
+    },
+    /**
+     * Optimistically remove an expense whose deletion is queued
+     */
+    optimisticExpenseRemoved: (state, action: PayloadAction<string>) => {
+      state.expenses = state.expenses.filter(e => e.id !== action.payload);
+    },
+    /**
+     * Replace an optimistic expense with the record returned by the server
+     */
+    offlineExpenseSynced: (
+      state,
+      action: PayloadAction<{ clientId: string; expense?: Expense }>
+    ) => {
+      const { clientId, expense } = action.payload;
+      const index = state.expenses.findIndex(e => e.id === clientId);
+      if (index !== -1 && expense) {
+        state.expenses[index] = expense;
+      }
+      state.lastSyncedAt = new Date().toISOString();
+    },
+    offlineQueueStatusChanged: (
+      state,
+      action: PayloadAction<{ isOnline: boolean; pendingCount: number; conflicts: SyncConflict[] }>
+    ) => {
+      state.isOnline = action.payload.isOnline;
+      state.pendingSyncCount = action.payload.pendingCount;
+      state.syncConflicts = action.payload.conflicts;
+    },
   },
   extraReducers: (builder) => {
     // Fetch expenses
@@ -198,6 +259,13 @@ const expensesSlice = createSlice({
   },
 });
 
-export const { clearError } = expensesSlice.actions;
+export const {
+  clearError,
+  optimisticExpenseUpserted,
+  optimisticExpenseUpdated,
+  optimisticExpenseRemoved,
+  offlineExpenseSynced,
+  offlineQueueStatusChanged,
+} = expensesSlice.actions;
 export default expensesSlice.reducer;
 
@@ -38,12 +38,35 @@ export interface Expense {
   paymentMethod?: PaymentMethod;
   notes?: string;
   tags?: Tag[]; // Array of tag objects (from API)
+  accountId?: string | null;
+  splits?: ExpenseSplit[]; // Set when the expense is split across several categories
+  paidBy?: MemberInfo; // Household member who paid (shared categories only)
   createdAt: string;
   updatedAt: string;
   originalAmount?: number;
   originalCurrency?: string;
 }
 
+// One category allocation of a split expense; allocations sum to the parent amount
+export interface ExpenseSplit {
+  id?: string;
+  categoryId: string;
+  category?: CategoryInfo;
+  amount: number; // USD
+  originalAmount?: number; // In the parent's originalCurrency
+  tags?: Tag[];
+  notes?: string;
+}
+
+// Split allocation as sent to the API (tag IDs instead of tag objects)
+export interface ExpenseSplitInput {
+  categoryId: string;
+  amount: number;
+  originalAmount?: number;
+  tags?: string[];
+  notes?: string;
+}
+
 export type IncomeFrequency =
   | 'WEEKLY'
   | 'BIWEEKLY'
@@ -76,14 +99,159 @@ export interface IncomeTransaction {
   date: string;
   description: string;
   autoAdded: boolean;
+  accountId?: string | null;
+  createdAt: string;
+  originalAmount?: number;
+  originalCurrency?: string;
+}
+
+export type AccountType = 'CHECKING' | 'SAVINGS' | 'CREDIT_CARD' | 'CASH';
+
+export interface Account {
+  id: string;
+  name: string; // e.g., "Chase Checking", "Wallet"
+  type: AccountType;
+  currency: string; // Currency the account is held in
+  openingBalance: number; // USD
+  originalOpeningBalance?: number | null; // In the account's currency
+  balance: number; // Current balance in USD: opening balance + income - expenses +/- transfers
+  isDefault?: boolean; // Preselected for new transactions
+  isArchived?: boolean;
   createdAt: string;
+  updatedAt: string;
+}
+
+// Money moved between two of the user's accounts - neither income nor an expense
+export interface Transfer {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number; // USD
+  date: string;
+  description?: string;
   originalAmount?: number;
   originalCurrency?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Households let several users share categories and budgets
+export type HouseholdRole = 'OWNER' | 'MEMBER';
+
+export type HouseholdInviteStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+
+// Minimal member reference attached to expenses
+export interface MemberInfo {
+  id: string; // User ID
+  name: string;
+}
+
+export interface HouseholdMember {
+  id: string; // User ID
+  name: string;
+  email: string;
+  role: HouseholdRole;
+  joinedAt: string;
+}
+
+export interface HouseholdInvite {
+  id: string;
+  email: string;
+  status: HouseholdInviteStatus;
+  householdId: string;
+  householdName?: string; // Included for invites addressed to the current user
+  invitedBy?: MemberInfo;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  members: HouseholdMember[];
+  invites: HouseholdInvite[]; // Pending invites sent by the household
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Recurring expenses support every income frequency plus yearly (on the start date's anniversary)
+export type ExpenseFrequency = IncomeFrequency | 'YEARLY';
+
+export interface RecurringExpense {
+  id: string;
+  name: string; // e.g., "Rent", "Netflix", "Car Loan"
+  amount: number;
+  categoryId: string;
+  category?: CategoryInfo;
+  paymentMethod?: PaymentMethod;
+  frequency: ExpenseFrequency;
+  startDate: string; // ISO date string
+  dayOfMonth?: number; // For monthly: 1-31 (clamped to the last day in shorter months)
+  dayOfWeek?: number; // For weekly: 0-6 (Sunday-Saturday)
+  customDates?: number[]; // For custom: array of days of month
+  autoAdd: boolean; // true = post automatically, false = ask the user to confirm each payment
+  lastPostedDate?: string | null; // YYYY-MM-DD of the last occurrence that was posted or skipped
+  isActive?: boolean;
+  originalAmount?: number | null;
+  originalCurrency?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A single scheduled payment of a recurring expense
+export interface RecurringExpenseOccurrence {
+  recurringExpense: RecurringExpense;
+  date: string; // YYYY-MM-DD
+}
+
+// MANUAL goals grow only through contributions the user records; AUTOMATIC goals also count
+// money logged to the linked category/tag, or a share of net savings when nothing is linked
+export type GoalContributionMode = 'MANUAL' | 'AUTOMATIC';
+
+export interface GoalContribution {
+  id: string;
+  amount: number; // USD
+  date: string;
+  note?: string;
+  originalAmount?: number | null;
+  originalCurrency?: string | null;
+}
+
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number; // USD
+  targetDate?: string | null;
+  currency: string; // Currency the target was set in
+  originalTargetAmount?: number | null;
+  icon: string;
+  color?: string;
+  linkedCategoryId?: string | null;
+  linkedTagId?: string | null;
+  contributionMode: GoalContributionMode;
+  autoContributionPercent?: number; // Share of net savings (0-100) for AUTOMATIC goals without a link
+  contributions: GoalContribution[];
+  startDate: string; // Automatic contributions are counted from this date
+  completedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavingsGoalProgress {
+  goal: SavingsGoal;
+  savedAmount: number;
+  remainingAmount: number;
+  percentComplete: number; // 0-100
+  isComplete: boolean;
+  monthlySavingsRate: number; // Expected monthly contribution, from average net savings
+  projectedCompletionDate: string | null; // null when savings are not growing
+  requiredMonthlyAmount: number | null; // To hit targetDate
+  isOnTrack: boolean | null; // null without a targetDate
 }
 
 export interface UnifiedTransaction {
   id: string;
-  type: 'expense' | 'income';
+  type: 'expense' | 'income' | 'transfer';
   amount: number;
   date: string;
   description: string;
@@ -94,12 +262,28 @@ export interface UnifiedTransaction {
   paymentMethod?: PaymentMethod;
   tags?: Tag[];
   notes?: string;
+  splits?: ExpenseSplit[];
+  paidBy?: MemberInfo;
   // Income-specific fields
   incomeSource?: {
     id: string;
     name: string;
   };
   autoAdded?: boolean;
+  accountId?: string | null;
+  account?: {
+    id: string;
+    name: string;
+  };
+  // Transfer-specific fields
+  fromAccount?: {
+    id: string;
+    name: string;
+  };
+  toAccount?: {
+    id: string;
+    name: string;
+  };
   originalAmount?: number;
   originalCurrency?: string;
 }
@@ -130,6 +314,7 @@ export interface Category {
   isSystemCategory?: boolean;
   isImportCreated?: boolean;
   isActive?: boolean;
+  householdId?: string | null; // Set when the category (and its budget) is shared with the household
   createdAt?: string;
   updatedAt?: string;
   // Rollover-specific fields (only populated for ROLLOVER type)
@@ -307,23 +492,158 @@ export interface Receipt {
   createdAt: string;
 }
 
+// How a rule's merchantPattern is compared against a transaction description
+export type RuleMatchMode = 'contains' | 'exact' | 'starts_with' | 'regex';
+
 export interface CategoryRule {
   id: string;
   merchantPattern: string;
-  categoryId: string;
+  matchMode?: RuleMatchMode; // Defaults to 'contains'
+  // Conditions (all optional, all must match)
+  minAmount?: number; // Inclusive, in USD
+  maxAmount?: number; // Inclusive, in USD
+  paymentMethods?: PaymentMethod[];
+  // Actions - a rule sets at least one of these
+  categoryId?: string;
+  tagIds?: string[];
+  notes?: string;
+  priority?: number; // Higher priority rules are evaluated first (default: 0)
   isActive: boolean;
+  createdAt?: string;
+}
+
+/**
+ * Incremental sync payload for the local database
+ * Everything created, updated or deleted on the server after the `since` cursor.
+ */
+export type SyncEntity = 'transaction' | 'category' | 'incomeSource' | 'tag';
+
+export interface SyncDeletion {
+  entity: SyncEntity;
+  id: string;
+}
+
+export interface SyncChanges {
+  transactions: UnifiedTransaction[];
+  categories: Category[];
+  incomeSources: IncomeSource[];
+  tags: Tag[];
+  deleted: SyncDeletion[];
+  cursor: string; // Latest updatedAt in this page - pass back as `since`
+  hasMore: boolean;
+}
+
+/**
+ * Finly AI conversation threads
+ * Messages are stored on the server per thread; the app keeps a local copy for instant resume.
+ */
+export interface AIThreadContext {
+  transactionId?: string; // Threads started from a transaction's details screen
+  categoryId?: string;
+  screen?: string;
+  description?: string;
+}
+
+export interface AIThread {
+  id: string;
+  title: string;
+  pinned: boolean;
+  context?: AIThreadContext;
+  lastMessagePreview?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AIThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+/**
+ * Finly AI action proposals
+ * Changes the assistant suggests alongside an answer; nothing is applied until the user confirms.
+ * Amounts are in the user's display currency, the same as the answer text.
+ */
+export type AIActionProposal =
+  | {
+      id: string;
+      type: 'createExpense';
+      amount: number;
+      description: string;
+      categoryId: string;
+      date?: string; // YYYY-MM-DD, defaults to today
+      paymentMethod?: PaymentMethod;
+      notes?: string;
+    }
+  | { id: string; type: 'recategorize'; transactionId: string; categoryId: string; description?: string }
+  | { id: string; type: 'setBudget'; categoryId: string; budgetLimit: number }
+  | {
+      id: string;
+      type: 'createCategoryRule';
+      merchantPattern: string;
+      matchMode?: RuleMatchMode;
+      categoryId?: string;
+      tagIds?: string[];
+    }
+  | { id: string; type: 'createTag'; name: string; color?: string };
+
+export type AIActionType = AIActionProposal['type'];
+
+/**
+ * What to call to reverse an applied action
+ */
+export type AIActionUndo =
+  | { type: 'deleteExpense'; expenseId: string }
+  | { type: 'restoreCategory'; expenseId: string; categoryId: string | null } // null: uncategorized
+  | {
+      type: 'restoreBudget';
+      categoryId: string;
+      budgetLimit: number | null;
+      originalAmount: number | null;
+      originalCurrency: string | null;
+    }
+  | { type: 'deleteCategoryRule'; ruleId: string }
+  | { type: 'deleteTag'; tagId: string };
+
+/**
+ * Local audit trail of every action applied from the assistant
+ */
+export interface AIActionAuditEntry {
+  id: string;
+  actionId: string;
+  actionType: AIActionType;
+  summary: string;
+  threadId?: string;
+  status: 'applied' | 'undone';
+  appliedAt: string;
+  undoneAt?: string;
+  undo?: AIActionUndo; // Missing when the previous state couldn't be captured
 }
 
 /**
  * Widget Data Model
  * Purpose: Data structure shared between React Native app and native widgets
  * Used for iOS WidgetKit and Android App Widgets
+ * Amounts are already converted to the display currency - widgets only format them.
+ * Small layouts show the balance, medium adds income/expenses, large adds the budgets.
  */
+export interface WidgetBudgetStatus {
+  categoryId: string;
+  name: string;
+  color: string;
+  spent: number;
+  budget: number;
+  percentUsed: number;
+}
+
 export interface WidgetData {
   balance: number;
   monthlyIncome: number;
   monthlyExpenses: number;
   currencyCode: string;
   currencySymbol?: string;
+  budgets: WidgetBudgetStatus[]; // Most used budgets first
   lastUpdated: string; // ISO timestamp
 }
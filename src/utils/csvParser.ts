@@ -0,0 +1,237 @@
+/**
+ * CSV Parser Utility
+ * Client-side CSV parsing shared by all import sources
+ * Handles quoted fields (RFC 4180), comma/semicolon/tab/pipe delimiters, BOMs and
+ * UTF-8 / UTF-16 / Windows-1252 encoded files
+ */
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface ParsedCSV {
+  headers: string[];
+  rows: string[][];
+  delimiter: CSVDelimiter;
+}
+
+const DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+// Windows-1252 code points for bytes 0x80-0x9F (the rest match Latin-1)
+const WINDOWS_1252_HIGH: Record<number, number> = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020,
+  0x87: 0x2021, 0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152,
+  0x8e: 0x017d, 0x91: 0x2018, 0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022,
+  0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02dc, 0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a,
+  0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178,
+};
+
+/**
+ * Remove a leading byte order mark from already-decoded text
+ */
+export const stripBOM = (text: string): string =>
+  text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+/**
+ * Detect the encoding of raw file bytes
+ * Uses the BOM when present, otherwise validates UTF-8 and falls back to Windows-1252
+ */
+export const detectEncoding = (bytes: Uint8Array): CSVEncoding => {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return decodeUTF8(bytes) === null ? 'windows-1252' : 'utf-8';
+};
+
+/**
+ * Strict UTF-8 decoder - returns null on invalid byte sequences
+ */
+const decodeUTF8 = (bytes: Uint8Array): string | null => {
+  let result = '';
+  let i = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let codePoint: number;
+    let extra: number;
+
+    if (byte < 0x80) {
+      codePoint = byte;
+      extra = 0;
+    } else if (byte >= 0xc2 && byte <= 0xdf) {
+      codePoint = byte & 0x1f;
+      extra = 1;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      codePoint = byte & 0x0f;
+      extra = 2;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      codePoint = byte & 0x07;
+      extra = 3;
+    } else {
+      return null;
+    }
+
+    for (let j = 1; j <= extra; j++) {
+      const next = bytes[i + j];
+      if (next === undefined || (next & 0xc0) !== 0x80) return null;
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+
+    result += String.fromCodePoint(codePoint);
+    i += extra + 1;
+  }
+
+  return result;
+};
+
+const decodeUTF16 = (bytes: Uint8Array, littleEndian: boolean): string => {
+  let result = '';
+  // Skip the 2-byte BOM
+  for (let i = 2; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode(
+      littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]
+    );
+  }
+  return result;
+};
+
+const decodeWindows1252 = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(WINDOWS_1252_HIGH[bytes[i]] ?? bytes[i]);
+  }
+  return result;
+};
+
+/**
+ * Decode raw file bytes to text, detecting the encoding when not given
+ */
+export const decodeCSVBytes = (
+  bytes: Uint8Array,
+  encoding: CSVEncoding = detectEncoding(bytes)
+): { text: string; encoding: CSVEncoding } => {
+  let text: string;
+  switch (encoding) {
+    case 'utf-16le':
+      text = decodeUTF16(bytes, true);
+      break;
+    case 'utf-16be':
+      text = decodeUTF16(bytes, false);
+      break;
+    case 'windows-1252':
+      text = decodeWindows1252(bytes);
+      break;
+    default:
+      text = decodeUTF8(bytes) ?? decodeWindows1252(bytes);
+  }
+  return { text: stripBOM(text), encoding };
+};
+
+/**
+ * Split CSV text into records, honouring quotes (delimiters and newlines inside
+ * quoted fields are kept, "" is an escaped quote)
+ */
+const parseRecords = (text: string, delimiter: CSVDelimiter, maxRecords?: number): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      if (maxRecords && records.length >= maxRecords) return records;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+/**
+ * Guess the delimiter from the first few lines
+ * Picks the candidate that splits the header into the most columns consistently
+ */
+export const detectDelimiter = (text: string): CSVDelimiter => {
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const sample = parseRecords(text, delimiter, 10).filter((r) => r.some((f) => f.trim()));
+    if (sample.length === 0) continue;
+
+    const columns = sample[0].length;
+    if (columns < 2) continue;
+
+    const consistent = sample.filter((r) => r.length === columns).length;
+    const score = columns * (consistent / sample.length);
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Parse CSV text into a header row and data rows
+ * Blank lines are dropped; the delimiter is detected when not given
+ */
+export const parseCSV = (text: string, delimiter?: CSVDelimiter): ParsedCSV => {
+  const content = stripBOM(text);
+  const usedDelimiter = delimiter || detectDelimiter(content);
+  const records = parseRecords(content, usedDelimiter).filter((r) => r.some((f) => f.trim() !== ''));
+
+  const [headerRow = [], ...rows] = records;
+  return {
+    headers: headerRow.map((h) => h.trim()),
+    rows,
+    delimiter: usedDelimiter,
+  };
+};
+
+/**
+ * Serialize rows back to CSV, quoting fields only where required
+ */
+export const toCSV = (rows: string[][], delimiter: CSVDelimiter = ','): string =>
+  rows
+    .map((row) =>
+      row
+        .map((field) =>
+          field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+        )
+        .join(delimiter)
+    )
+    .join('\r\n');
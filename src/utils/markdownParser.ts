@@ -0,0 +1,325 @@
+/**
+ * Markdown Parser Utility
+ * Turns assistant answers into blocks (headings, paragraphs, lists, tables, fenced code,
+ * rules and embedded chart data) and inline nodes (bold, italic, strikethrough, code, links)
+ * Tolerates text that is still streaming in: an unclosed fence runs to the end of the text
+ */
+
+export type InlineNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'bold' | 'italic' | 'strike'; children: InlineNode[] }
+  | { kind: 'link'; url: string; children: InlineNode[] };
+
+export type TableAlign = 'left' | 'center' | 'right';
+
+export interface ListItem {
+  text: string;
+  depth: number; // 0 for top-level items, +1 per nesting level
+  number?: number; // Set for ordered items
+}
+
+/**
+ * Data block the backend embeds in a ```finly-chart fence
+ * Amounts are in USD like every other amount the API returns
+ */
+export type ChartBlockData =
+  | {
+      type: 'categoryBreakdown';
+      title?: string;
+      data: Array<{ category: string; amount: number; color?: string }>;
+    }
+  | {
+      type: 'timeSeries';
+      title?: string;
+      data: Array<{ date: string; amount: number }>;
+    };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: ListItem[] }
+  | { type: 'table'; header: string[]; align: TableAlign[]; rows: string[][] }
+  | { type: 'code'; language: string; code: string; closed: boolean }
+  | { type: 'chart'; chart: ChartBlockData }
+  | { type: 'rule' };
+
+export const CHART_FENCE_LANGUAGE = 'finly-chart';
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w-]*)\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+const isTableRow = (line: string) => line.includes('|') && line.trim() !== '|';
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  // "\|" is a literal pipe inside a cell
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  return right ? 'right' : 'left';
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+/**
+ * Validate the JSON inside a chart fence; anything unusable is shown as code instead
+ */
+export const parseChartBlock = (json: string): ChartBlockData | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.data)) return null;
+  const title = typeof raw.title === 'string' ? raw.title : undefined;
+  const items = raw.data.filter(isRecord);
+
+  if (raw.type === 'categoryBreakdown') {
+    const data = items.flatMap((item) =>
+      typeof item.category === 'string' && isAmount(item.amount)
+        ? [{
+            category: item.category,
+            amount: item.amount,
+            color: typeof item.color === 'string' ? item.color : undefined,
+          }]
+        : []
+    );
+    return data.length > 0 ? { type: 'categoryBreakdown', title, data } : null;
+  }
+  if (raw.type === 'timeSeries') {
+    const data = items.flatMap((item) =>
+      typeof item.date === 'string' && isAmount(item.amount) ? [{ date: item.date, amount: item.amount }] : []
+    );
+    return data.length > 0 ? { type: 'timeSeries', title, data } : null;
+  }
+  return null;
+};
+
+/**
+ * Split markdown into blocks
+ */
+export const parseMarkdownBlocks = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Fenced code (and chart data)
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1];
+      const language = fence[2].toLowerCase();
+      const body: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        if (lines[i].trim() === marker) {
+          closed = true;
+          i++;
+          break;
+        }
+        body.push(lines[i]);
+        i++;
+      }
+      const code = body.join('\n');
+      if (language === CHART_FENCE_LANGUAGE) {
+        const chart = closed ? parseChartBlock(code) : null;
+        // A chart still streaming in shows up once its fence closes
+        if (chart) blocks.push({ type: 'chart', chart });
+        else if (closed) blocks.push({ type: 'code', language, code, closed });
+      } else {
+        blocks.push({ type: 'code', language, code, closed });
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    // Table: a header row followed by a divider row
+    if (isTableRow(line) && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      flushParagraph();
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && isTableRow(lines[i])) {
+        const cells = splitTableRow(lines[i]);
+        // Pad or trim to the header's column count
+        rows.push(header.map((_, col) => cells[col] ?? ''));
+        i++;
+      }
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[2]);
+      const baseIndent = listItem[1].length;
+      const items: ListItem[] = [];
+
+      while (i < lines.length) {
+        const current = lines[i];
+        const match = current.match(LIST_ITEM);
+        if (match) {
+          // A top-level item of the other kind starts a new list
+          const isOrdered = /\d/.test(match[2]);
+          if (match[1].length <= baseIndent && isOrdered !== ordered) break;
+          items.push({
+            text: match[3],
+            depth: Math.max(0, Math.floor((match[1].length - baseIndent) / 2)),
+            number: isOrdered ? parseInt(match[2], 10) : undefined,
+          });
+          i++;
+        } else if (current.trim() && /^\s+/.test(current) && items.length > 0) {
+          // Indented continuation of the previous item
+          items[items.length - 1].text += `\n${current.trim()}`;
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', items });
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+type InlinePattern = 'code' | 'link' | 'bold' | 'strike' | 'italic' | 'url';
+
+// Earliest match wins; at the same position the order below decides (** before *)
+const INLINE_PATTERNS: Array<{ kind: InlinePattern; regex: RegExp }> = [
+  { kind: 'code', regex: /`([^`]+)`/ },
+  { kind: 'link', regex: /\[([^\]]+)\]\(([^)\s]+)\)/ },
+  { kind: 'bold', regex: /\*\*(.+?)\*\*|__(.+?)__/ },
+  { kind: 'strike', regex: /~~(.+?)~~/ },
+  { kind: 'italic', regex: /\*([^*\s](?:[^*]*[^*\s])?)\*/ },
+  { kind: 'url', regex: /https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/ },
+];
+
+/**
+ * Split one block's text into styled inline nodes
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    let best: { kind: InlinePattern; match: RegExpMatchArray } | null = null;
+    for (const { kind, regex } of INLINE_PATTERNS) {
+      const match = rest.match(regex);
+      if (match && match.index !== undefined && (!best || match.index < best.match.index!)) {
+        best = { kind, match };
+      }
+    }
+
+    if (!best) {
+      nodes.push({ kind: 'text', text: rest });
+      break;
+    }
+
+    const { kind, match } = best;
+    const index = match.index!;
+    if (index > 0) nodes.push({ kind: 'text', text: rest.slice(0, index) });
+
+    switch (kind) {
+      case 'code':
+        nodes.push({ kind: 'code', text: match[1] });
+        break;
+      case 'link':
+        nodes.push({ kind: 'link', url: match[2], children: parseInline(match[1]) });
+        break;
+      case 'bold':
+        nodes.push({ kind: 'bold', children: parseInline(match[1] ?? match[2]) });
+        break;
+      case 'strike':
+      case 'italic':
+        nodes.push({ kind, children: parseInline(match[1]) });
+        break;
+      case 'url':
+        nodes.push({ kind: 'link', url: match[0], children: [{ kind: 'text', text: match[0] }] });
+        break;
+    }
+    rest = rest.slice(index + match[0].length);
+  }
+
+  return nodes;
+};
+
+/**
+ * Only web and mail links are opened from the chat
+ */
+export const isSafeLink = (url: string): boolean => /^(https?:|mailto:)/i.test(url);
+
+export default {
+  parseMarkdownBlocks,
+  parseInline,
+  parseChartBlock,
+  isSafeLink,
+};
@@ -0,0 +1,184 @@
+/**
+ * Recurrence Utility
+ * Shared schedule math for income sources and recurring expenses
+ * Dates are compared in local time at day granularity
+ */
+
+import { ExpenseFrequency, RecurringExpense, RecurringExpenseOccurrence } from '../types';
+
+export interface RecurrenceSchedule {
+  frequency: ExpenseFrequency;
+  startDate: string;
+  dayOfMonth?: number;
+  dayOfWeek?: number;
+  customDates?: number[];
+}
+
+export interface ScheduleOptions {
+  // Move days past the end of a short month to its last day (recurring expenses only;
+  // income sources keep matching the exact day)
+  clampToMonthEnd?: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Local midnight for a date (or ISO / YYYY-MM-DD string)
+ */
+export const startOfDay = (value: Date | string): Date => {
+  const date =
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T00:00:00`)
+      : new Date(value);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+/**
+ * YYYY-MM-DD key in local time
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * With clampToMonthEnd, day 31 falls on the 30th in April, the 28th/29th in February, etc.
+ */
+const matchesDayOfMonth = (date: Date, day: number, clampToMonthEnd?: boolean): boolean => {
+  if (!clampToMonthEnd) return date.getDate() === day;
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return date.getDate() === Math.min(day, lastDay);
+};
+
+/**
+ * Check if a date is a scheduled occurrence
+ */
+export const matchesSchedule = (
+  date: Date,
+  schedule: RecurrenceSchedule,
+  options: ScheduleOptions = {}
+): boolean => {
+  const { clampToMonthEnd } = options;
+  const day = startOfDay(date);
+  const start = startOfDay(schedule.startDate);
+  if (day < start) return false;
+
+  switch (schedule.frequency) {
+    case 'WEEKLY':
+      return schedule.dayOfWeek !== undefined && day.getDay() === schedule.dayOfWeek;
+    case 'BIWEEKLY': {
+      // Every 14 days from the start date
+      const diffDays = Math.round((day.getTime() - start.getTime()) / DAY_MS);
+      return diffDays % 14 === 0;
+    }
+    case 'MONTHLY':
+      return schedule.dayOfMonth !== undefined && matchesDayOfMonth(day, schedule.dayOfMonth, clampToMonthEnd);
+    case 'YEARLY':
+      return day.getMonth() === start.getMonth() && matchesDayOfMonth(day, start.getDate(), clampToMonthEnd);
+    case 'CUSTOM':
+      return (schedule.customDates || []).some((d) => matchesDayOfMonth(day, d, clampToMonthEnd));
+    case 'MANUAL':
+    default:
+      return false;
+  }
+};
+
+/**
+ * All occurrences within [startDate, endDate] (inclusive)
+ */
+export const getScheduleDates = (
+  schedule: RecurrenceSchedule,
+  startDate: Date,
+  endDate: Date,
+  options: ScheduleOptions = {}
+): Date[] => {
+  const dates: Date[] = [];
+  if (schedule.frequency === 'MANUAL') return dates;
+
+  const end = startOfDay(endDate);
+  const scheduleStart = startOfDay(schedule.startDate);
+  const current = startOfDay(startDate);
+  if (current < scheduleStart) current.setTime(scheduleStart.getTime());
+
+  while (current <= end) {
+    if (matchesSchedule(current, schedule, options)) {
+      dates.push(new Date(current));
+    }
+    current.setDate(current.getDate() + 1);
+  }
+
+  return dates;
+};
+
+/**
+ * First occurrence strictly after the given date (null for manual schedules)
+ */
+export const getNextScheduleDate = (
+  schedule: RecurrenceSchedule,
+  after: Date = new Date(),
+  options: ScheduleOptions = {}
+): Date | null => {
+  if (schedule.frequency === 'MANUAL') return null;
+
+  const from = startOfDay(after);
+  from.setDate(from.getDate() + 1);
+  // A yearly schedule can be up to 366 days away
+  const until = new Date(from);
+  until.setDate(until.getDate() + 366);
+
+  return getScheduleDates(schedule, from, until, options)[0] || null;
+};
+
+/**
+ * Human-readable schedule, e.g. "Every Monday" or "Day 15 of each month"
+ */
+export const getScheduleLabel = (schedule: RecurrenceSchedule): string => {
+  switch (schedule.frequency) {
+    case 'WEEKLY':
+      return `Every ${WEEK_DAYS[schedule.dayOfWeek || 0]}`;
+    case 'BIWEEKLY':
+      return 'Every 2 weeks';
+    case 'MONTHLY':
+      return `Day ${schedule.dayOfMonth || 1} of each month`;
+    case 'YEARLY':
+      return `Every year on ${startOfDay(schedule.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+    case 'CUSTOM':
+      return `Days ${schedule.customDates?.join(', ') || 'N/A'} of each month`;
+    case 'MANUAL':
+      return 'Manual entry only';
+    default:
+      return schedule.frequency;
+  }
+};
+
+/**
+ * Unposted occurrences of recurring expenses within [startDate, endDate]
+ * Skips inactive definitions, dates before the definition was created and dates already posted or skipped
+ */
+export const getRecurringExpenseOccurrences = (
+  recurringExpenses: RecurringExpense[],
+  startDate: Date,
+  endDate: Date
+): RecurringExpenseOccurrence[] => {
+  const occurrences: RecurringExpenseOccurrence[] = [];
+
+  recurringExpenses.forEach((recurringExpense) => {
+    if (recurringExpense.isActive === false) return;
+
+    // Never backfill payments from before the definition existed
+    const from = startOfDay(startDate);
+    const created = startOfDay(recurringExpense.createdAt);
+    if (from < created) from.setTime(created.getTime());
+
+    getScheduleDates(recurringExpense, from, endDate, { clampToMonthEnd: true }).forEach((date) => {
+      const key = toDateKey(date);
+      if (recurringExpense.lastPostedDate && key <= recurringExpense.lastPostedDate) return;
+      occurrences.push({ recurringExpense, date: key });
+    });
+  });
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+};
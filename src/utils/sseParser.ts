@@ -0,0 +1,103 @@
+/**
+ * Server-Sent Events Parser Utility
+ * Incremental parser for text/event-stream bodies that arrive in arbitrary chunks
+ * Handles lines and events split across chunks, LF / CRLF / CR line endings,
+ * multi-line data fields, comments and the optional event/id fields
+ */
+
+export interface SSEEvent {
+  event: string; // "message" unless the server named it
+  data: string; // data lines joined with "\n"
+  id?: string;
+}
+
+export interface SSEParser {
+  /** Feed the next decoded chunk; complete events are emitted synchronously */
+  push: (chunk: string) => void;
+  /** End of stream: emit a final event that wasn't followed by a blank line */
+  flush: () => void;
+}
+
+/**
+ * Create a parser that calls onEvent for every complete event
+ */
+export const createSSEParser = (onEvent: (event: SSEEvent) => void): SSEParser => {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  // A chunk ending in "\r" may be the first half of "\r\n"
+  let skipLeadingLF = false;
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || 'message', data: dataLines.join('\n'), id: lastEventId });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return; // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventName = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        lastEventId = value;
+        break;
+      default:
+        // "retry" and unknown fields are ignored
+        break;
+    }
+  };
+
+  const push = (chunk: string) => {
+    let text = chunk;
+    if (skipLeadingLF && text.startsWith('\n')) text = text.slice(1);
+    skipLeadingLF = false;
+    buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      processLine(buffer.slice(start, i));
+      if (char === '\r') {
+        if (i + 1 < buffer.length) {
+          if (buffer[i + 1] === '\n') i++;
+        } else {
+          skipLeadingLF = true;
+        }
+      }
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+  };
+
+  const flush = () => {
+    if (buffer) {
+      processLine(buffer);
+      buffer = '';
+    }
+    dispatch();
+  };
+
+  return { push, flush };
+};
+
+export default createSSEParser;